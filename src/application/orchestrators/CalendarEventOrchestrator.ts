@@ -11,7 +11,7 @@
  * All business rules must live in domain/rules/events/
  */
 
-import { CalendarEvent } from '@/shared/types/core';
+import { CalendarEvent, Project, WorkHour } from '@/shared/types/core';
 import { supabase } from '@/infrastructure/database/client';
 import { generateRecurringEvents, calculateRecurringEventsNeeded, calculateDayDifference } from '@/domain/rules/events/EventCalculations';
 import { addDaysToDate, calculateDurationHours } from '@/presentation/utils/dateCalculations';
@@ -19,6 +19,10 @@ import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingServi
 import { CalendarEvent as CalendarEventEntity } from '@/domain/entities/CalendarEvent';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { CalendarEventRules } from '@/domain/rules/events/EventValidation';
+import { planMaterializations, toPlannedEvents, type MaterializationRequest } from '@/domain/rules/events/EstimateMaterialization';
+import { planSessionAdjustment, validateSessionSegments, type SessionSegment } from '@/domain/rules/time-tracking/SessionAdjustment';
+import { planTimesheetCellChange, toTimesheetEvents, validateTimesheetHours, type TimesheetCellChange } from '@/domain/rules/events/Timesheet';
+import { commandHistory, type HistoryRecordOptions } from './CommandHistoryOrchestrator';
 
 // ============================================================================
 // SECTION 1: EVENT CRUD OPERATIONS (via forms)
@@ -88,6 +92,56 @@ export interface PlannerInteractionContext {
   toast: ReturnType<typeof useToast>['toast'];
 }
 
+// ============================================================================
+// SECTION 4: ESTIMATE MATERIALIZATION (auto-estimates into planned events)
+// ============================================================================
+
+export interface EstimateMaterializationSources {
+  projects: Project[];
+  events: CalendarEvent[];
+  getWorkHours: (date: Date) => WorkHour[];
+}
+
+export interface EstimateMaterializationResult {
+  success: boolean;
+  createdCount: number;
+  scheduledHours: number;
+  unscheduledHours: number;
+  error?: string;
+}
+
+// ============================================================================
+// SECTION 5: TRACKED SESSION ADJUSTMENT (idle time, splitting)
+// ============================================================================
+
+// Called inside the workflow's transaction: pass the options on so each change joins it
+export interface EventMutationCallbacks {
+  addEvent: (eventData: Omit<CalendarEvent, 'id'>, options: HistoryRecordOptions) => Promise<unknown>;
+  updateEvent: (id: string, updates: Partial<CalendarEvent>, options: HistoryRecordOptions) => Promise<unknown>;
+  deleteEvent: (id: string, options: HistoryRecordOptions) => Promise<unknown>;
+}
+
+export interface SessionAdjustmentResult {
+  success: boolean;
+  errors?: string[];
+}
+
+// ============================================================================
+// SECTION 6: TIMESHEET (weekly hour matrix)
+// ============================================================================
+
+export interface TimesheetSources {
+  events: CalendarEvent[];
+  projects: Project[];
+  getWorkHours: (date: Date) => WorkHour[];
+}
+
+export interface TimesheetCellResult {
+  success: boolean;
+  unplacedHours: number;
+  error?: string;
+}
+
 // ============================================================================
 // ORCHESTRATOR CLASS
 // ============================================================================
@@ -820,6 +874,142 @@ export class CalendarEventOrchestrator {
     return calculateRecurringEventsNeeded(startDate, targetDate, type, interval);
   }
 
+  // --------------------------------------------------------------------------
+  // SECTION 4: ESTIMATE MATERIALIZATION
+  // --------------------------------------------------------------------------
+
+  /**
+   * Turns auto-estimates into planned events in free work slot time
+   * One request per project and day; a week is several requests planned in order.
+   * Nothing is placed before `from`, so today's estimate starts from now.
+   */
+  async materializeEstimatesWorkflow(
+    requests: MaterializationRequest[],
+    sources: EstimateMaterializationSources,
+    addEvent: (eventData: Omit<CalendarEvent, 'id'>) => Promise<unknown>,
+    from: Date = new Date()
+  ): Promise<EstimateMaterializationResult> {
+    // DELEGATE placement to domain rules
+    const plans = planMaterializations(requests, sources.events, sources.getWorkHours, from);
+    const scheduledHours = plans.reduce((sum, plan) => sum + plan.scheduledHours, 0);
+    const unscheduledHours = plans.reduce((sum, plan) => sum + plan.unscheduledHours, 0);
+    let createdCount = 0;
+
+    try {
+      for (const plan of plans) {
+        const project = sources.projects.find(p => p.id === plan.projectId);
+        if (!project) continue;
+        for (const eventData of toPlannedEvents(plan, project)) {
+          await addEvent(eventData);
+          createdCount++;
+        }
+      }
+      return { success: true, createdCount, scheduledHours, unscheduledHours };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarEventOrchestrator', action: 'Failed to materialize estimates:' });
+      return {
+        success: false,
+        createdCount,
+        scheduledHours,
+        unscheduledHours,
+        error: error instanceof Error ? error.message : 'Failed to create planned events'
+      };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // SECTION 5: TRACKED SESSION ADJUSTMENT
+  // --------------------------------------------------------------------------
+
+  /**
+   * Rewrite a finished tracked session as project segments
+   * Discarded segments are dropped; the whole change is one undoable action.
+   */
+  async adjustTrackedSessionWorkflow(
+    event: CalendarEvent,
+    segments: SessionSegment[],
+    projects: Project[],
+    callbacks: EventMutationCallbacks
+  ): Promise<SessionAdjustmentResult> {
+    const validation = validateSessionSegments(
+      { startTime: new Date(event.startTime), endTime: new Date(event.endTime), projectId: event.projectId },
+      segments
+    );
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    // DELEGATE event changes to domain rules
+    const plan = planSessionAdjustment(event, segments, projects);
+
+    try {
+      await commandHistory.transaction('Adjust tracked time', async transaction => {
+        if (plan.deleteOriginal) {
+          await callbacks.deleteEvent(event.id, { transaction });
+          return;
+        }
+        if (plan.update) {
+          await callbacks.updateEvent(event.id, plan.update, { transaction });
+        }
+        for (const eventData of plan.create) {
+          await callbacks.addEvent(eventData, { transaction });
+        }
+      });
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarEventOrchestrator', action: 'Failed to adjust tracked session:' });
+      return { success: false, errors: [error instanceof Error ? error.message : 'Failed to adjust tracked time'] };
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // SECTION 6: TIMESHEET
+  // --------------------------------------------------------------------------
+
+  /**
+   * Set the logged hours of one project on one day
+   * Resizes, deletes or adds completed events as one undoable action.
+   */
+  async updateTimesheetCellWorkflow(
+    change: TimesheetCellChange,
+    sources: TimesheetSources,
+    callbacks: EventMutationCallbacks
+  ): Promise<TimesheetCellResult> {
+    const validationError = validateTimesheetHours(change.hours);
+    if (validationError) {
+      return { success: false, unplacedHours: 0, error: validationError };
+    }
+    const project = sources.projects.find(p => p.id === change.projectId);
+    if (!project) {
+      return { success: false, unplacedHours: 0, error: 'Project not found' };
+    }
+
+    // DELEGATE placement to domain rules
+    const plan = planTimesheetCellChange(change, sources.events, sources.getWorkHours(change.date));
+
+    try {
+      await commandHistory.transaction(`Log time on "${project.name}"`, async transaction => {
+        for (const id of plan.remove) {
+          await callbacks.deleteEvent(id, { transaction });
+        }
+        for (const { id, ...updates } of plan.resize) {
+          await callbacks.updateEvent(id, updates, { transaction });
+        }
+        for (const eventData of toTimesheetEvents(plan.add, project)) {
+          await callbacks.addEvent(eventData, { transaction });
+        }
+      });
+      return { success: true, unplacedHours: plan.unplacedHours };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarEventOrchestrator', action: 'Failed to update timesheet cell:' });
+      return {
+        success: false,
+        unplacedHours: plan.unplacedHours,
+        error: error instanceof Error ? error.message : 'Failed to log time'
+      };
+    }
+  }
+
   // --------------------------------------------------------------------------
   // HELPER METHODS
   // --------------------------------------------------------------------------
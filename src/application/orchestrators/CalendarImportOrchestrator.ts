@@ -3,11 +3,35 @@
  *
  * Handles calendar import workflows with validation and database operations.
  * Coordinates between external calendar sources and the application's calendar events.
+ *
+ * Recurring VEVENTs are stored as a single rrule series (one calendar_events row)
+ * with EXDATE / RECURRENCE-ID instances in calendar_event_exceptions.
+ *
+ * Two modes:
+ * - One-shot import of a parsed .ics file (executeImportWorkflow)
+ * - Recurring ICS feed subscriptions (syncSubscription / syncDueSubscriptions),
+ *   diffed by UID + LAST-MODIFIED against the snapshot of the previous sync
  */
 
 import { supabase } from '@/infrastructure/database/client';
 import { calculateDurationHours } from '@/presentation/utils/dateCalculations';;
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { fetchICalFeed } from '@/application/queries/imports/calendarImport';
+import {
+  buildSubscriptionSnapshot,
+  diffSubscriptionEvents,
+  isSubscriptionSyncDue,
+  validateFeedUrl,
+  type SubscriptionSnapshot
+} from '@/domain/rules/events/EventSubscriptionSync';
+import {
+  getOccurrenceDateKey,
+  hasOccurrenceInRange,
+  type RecurrenceException
+} from '@/domain/rules/events/EventRecurrence';
+import type { Database, Json } from '@/infrastructure/database/types';
+
+type CalendarConnectionRow = Database['public']['Tables']['calendar_connections']['Row'];
 
 export interface ExternalEvent {
   title: string;
@@ -19,16 +43,37 @@ export interface ExternalEvent {
   externalSource: 'ical' | 'google' | 'outlook';
   externalUrl?: string;
   externalLastModified?: Date;
+  rrule?: string;
+  timeZone?: string;
+  recurrenceExceptions?: RecurrenceException[];
 }
 
 export interface ImportResult {
   success: boolean;
   imported: number;
   updated: number;
+  deleted?: number;
   failed: number;
   errors: string[];
 }
 
+export interface SubscriptionInput {
+  name: string;
+  feedUrl: string;
+  syncFrequencyMinutes?: number;
+}
+
+export interface SubscriptionResult {
+  success: boolean;
+  connection?: CalendarConnectionRow;
+  error?: string;
+}
+
+type UpsertOutcome = 'imported' | 'updated' | 'skipped';
+
+/** Connection type used for ICS feed subscriptions */
+export const ICS_SUBSCRIPTION_CONNECTION_TYPE = 'ics_subscription';
+
 export class CalendarImportOrchestrator {
 
   /**
@@ -55,6 +100,20 @@ export class CalendarImportOrchestrator {
 
       // Filter events by date range if specified
       const filteredEvents = events.filter(event => {
+        if (event.rrule && (dateRangeStart || dateRangeEnd)) {
+          // A series is in range when any of its occurrences is
+          return hasOccurrenceInRange(
+            {
+              startTime: event.startTime,
+              endTime: event.endTime,
+              rrule: event.rrule,
+              timeZone: event.timeZone,
+              exceptions: event.recurrenceExceptions
+            },
+            dateRangeStart ?? event.startTime,
+            dateRangeEnd ?? new Date(Date.UTC(9999, 11, 31))
+          );
+        }
         if (dateRangeStart && event.startTime < dateRangeStart) return false;
         if (dateRangeEnd && event.startTime > dateRangeEnd) return false;
         return true;
@@ -62,56 +121,9 @@ export class CalendarImportOrchestrator {
 
       for (const event of filteredEvents) {
         try {
-          // Check if event already exists
-          const { data: existingEvent } = await supabase
-            .from('calendar_events')
-            .select('id, external_last_modified')
-            .eq('external_calendar_id', event.externalId)
-            .eq('external_source', event.externalSource)
-            .eq('user_id', user.id)
-            .single();
-
-          const eventData = {
-            user_id: user.id,
-            project_id: projectId,
-            title: event.title,
-            description: event.description,
-            start_time: event.startTime.toISOString(),
-            end_time: event.endTime.toISOString(),
-            color: '#3b82f6', // Default blue color for imported events
-            external_calendar_id: event.externalId,
-            external_source: event.externalSource,
-            external_url: event.externalUrl,
-            external_last_modified: event.externalLastModified?.toISOString(),
-            is_external_event: true,
-            // Delegate to calculation function for duration
-            duration: calculateDurationHours(event.startTime, event.endTime)
-          };
-
-          if (existingEvent) {
-            // Update existing event if it has been modified
-            const shouldUpdate = !event.externalLastModified ||
-              !existingEvent.external_last_modified ||
-              new Date(event.externalLastModified) > new Date(existingEvent.external_last_modified);
-
-            if (shouldUpdate) {
-              const { error } = await supabase
-                .from('calendar_events')
-                .update(eventData)
-                .eq('id', existingEvent.id);
-
-              if (error) throw error;
-              result.updated++;
-            }
-          } else {
-            // Insert new event
-            const { error } = await supabase
-              .from('calendar_events')
-              .insert([eventData]);
-
-            if (error) throw error;
-            result.imported++;
-          }
+          const outcome = await this.upsertExternalEvent(event, user.id, projectId);
+          if (outcome === 'imported') result.imported++;
+          if (outcome === 'updated') result.updated++;
         } catch (error) {
           console.error('Error importing event:', event.title, error);
           result.failed++;
@@ -131,22 +143,396 @@ export class CalendarImportOrchestrator {
     return result;
   }
 
+  /**
+   * Create an ICS feed subscription connection
+   */
+  static async createSubscriptionWorkflow(input: SubscriptionInput): Promise<SubscriptionResult> {
+    try {
+      const name = input.name.trim();
+      if (!name) {
+        return { success: false, error: 'Subscription name is required' };
+      }
+
+      const urlValidation = validateFeedUrl(input.feedUrl);
+      if (!urlValidation.isValid) {
+        return { success: false, error: urlValidation.error };
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { data, error } = await supabase
+        .from('calendar_connections')
+        .insert([{
+          user_id: user.id,
+          connection_name: name,
+          connection_type: ICS_SUBSCRIPTION_CONNECTION_TYPE,
+          external_calendar_id: urlValidation.normalizedUrl,
+          feed_url: urlValidation.normalizedUrl,
+          sync_frequency: input.syncFrequencyMinutes ?? null,
+          connection_status: 'connected',
+          is_active: true
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, connection: data };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarImportOrchestrator', action: 'createSubscriptionWorkflow' });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to create subscription' };
+    }
+  }
+
+  /**
+   * Re-fetch a subscription feed and apply creates, updates and deletes
+   *
+   * The previous state is the synced_events snapshot of the latest completed
+   * run for this connection in calendar_import_history.
+   */
+  static async syncSubscription(
+    connectionId: string,
+    projectId: string | null = null
+  ): Promise<ImportResult> {
+    const result: ImportResult = {
+      success: true,
+      imported: 0,
+      updated: 0,
+      deleted: 0,
+      failed: 0,
+      errors: []
+    };
+    let snapshot: SubscriptionSnapshot | null = null;
+    let userId: string | null = null;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+      userId = user.id;
+
+      const { data: connection, error: connectionError } = await supabase
+        .from('calendar_connections')
+        .select('*')
+        .eq('id', connectionId)
+        .eq('user_id', user.id)
+        .single();
+
+      if (connectionError) throw connectionError;
+      if (!connection?.feed_url) throw new Error('Connection has no feed URL');
+
+      const feedEvents = await fetchICalFeed(connection.feed_url);
+      const previous = await this.getLastSyncSnapshot(connectionId);
+      const diff = diffSubscriptionEvents(previous, feedEvents);
+      // UIDs whose change could not be applied keep their previous snapshot
+      // entry so the next run retries them
+      const failedUids = new Set<string>();
+
+      for (const event of [...diff.toCreate, ...diff.toUpdate]) {
+        try {
+          const outcome = await this.upsertExternalEvent(event, user.id, projectId, connectionId);
+          if (outcome === 'imported') result.imported++;
+          if (outcome === 'updated') result.updated++;
+        } catch (error) {
+          failedUids.add(event.externalId);
+          result.failed++;
+          result.errors.push(`Failed to sync "${event.title}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      for (const uid of diff.toDelete) {
+        try {
+          const { data: removed, error } = await supabase
+            .from('calendar_events')
+            .delete()
+            .eq('external_calendar_id', uid)
+            .eq('external_source', 'ical')
+            .eq('connection_id', connectionId)
+            .eq('user_id', user.id)
+            .select('id');
+
+          if (error) throw error;
+          // The user may have deleted the event already
+          result.deleted += removed?.length ?? 0;
+        } catch (error) {
+          failedUids.add(uid);
+          result.failed++;
+          result.errors.push(`Failed to remove event ${uid}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      }
+
+      snapshot = buildSubscriptionSnapshot(feedEvents);
+      failedUids.forEach(uid => {
+        if (previous && uid in previous) {
+          snapshot[uid] = previous[uid];
+        } else {
+          delete snapshot[uid];
+        }
+      });
+
+      await supabase
+        .from('calendar_connections')
+        .update({
+          last_sync_at: new Date().toISOString(),
+          connection_status: 'connected',
+          auth_error_message: null
+        })
+        .eq('id', connectionId);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarImportOrchestrator', action: 'syncSubscription' });
+      result.success = false;
+      result.errors.push(`Sync failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+      await supabase
+        .from('calendar_connections')
+        .update({
+          connection_status: 'error',
+          auth_error_message: error instanceof Error ? error.message : 'Unknown error'
+        })
+        .eq('id', connectionId);
+    }
+
+    if (userId) {
+      await this.logImportHistory(result, userId, {
+        importSource: 'ical_subscription',
+        importType: 'scheduled',
+        connectionId,
+        snapshot
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Sync every active subscription whose interval has elapsed
+   *
+   * Every open tab and device runs this schedule: a connection is only synced
+   * by the client that claims it (see claimSubscriptionSync).
+   */
+  static async syncDueSubscriptions(now: Date = new Date()): Promise<Record<string, ImportResult>> {
+    const results: Record<string, ImportResult> = {};
+
+    try {
+      const { data: connections, error } = await supabase
+        .from('calendar_connections')
+        .select('*')
+        .eq('connection_type', ICS_SUBSCRIPTION_CONNECTION_TYPE)
+        .eq('is_active', true);
+
+      if (error) throw error;
+
+      for (const connection of connections || []) {
+        const lastSyncAt = connection.last_sync_at ? new Date(connection.last_sync_at) : null;
+        if (!isSubscriptionSyncDue(lastSyncAt, connection.sync_frequency, now)) continue;
+        if (!await this.claimSubscriptionSync(connection, now)) continue;
+        results[connection.id] = await this.syncSubscription(connection.id);
+      }
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarImportOrchestrator', action: 'syncDueSubscriptions' });
+    }
+
+    return results;
+  }
+
+  /**
+   * Move last_sync_at forward only if no other client has since the
+   * connection was read, so a due connection is synced once
+   * @returns Whether this client won the connection
+   */
+  private static async claimSubscriptionSync(connection: CalendarConnectionRow, now: Date): Promise<boolean> {
+    const claim = supabase
+      .from('calendar_connections')
+      .update({ last_sync_at: now.toISOString() })
+      .eq('id', connection.id);
+    const { data, error } = await (connection.last_sync_at
+      ? claim.eq('last_sync_at', connection.last_sync_at)
+      : claim.is('last_sync_at', null)
+    ).select('id');
+
+    if (error) throw error;
+    return (data?.length ?? 0) > 0;
+  }
+
+  /**
+   * Insert a new external event or update the existing copy if it changed
+   * Subscription syncs pass their connection; file imports (no connection)
+   * never update a subscription's events.
+   */
+  private static async upsertExternalEvent(
+    event: ExternalEvent,
+    userId: string,
+    projectId: string | null,
+    connectionId: string | null = null
+  ): Promise<UpsertOutcome> {
+    // Check if event already exists (a subscription only owns its own copies)
+    const existingQuery = supabase
+      .from('calendar_events')
+      .select('id, external_last_modified, recurring_group_id')
+      .eq('external_calendar_id', event.externalId)
+      .eq('external_source', event.externalSource)
+      .eq('user_id', userId);
+    const { data: existingEvent } = await (connectionId
+      ? existingQuery.eq('connection_id', connectionId)
+      : existingQuery.is('connection_id', null)
+    ).single();
+
+    const eventData = {
+      user_id: userId,
+      project_id: projectId,
+      title: event.title,
+      description: event.description,
+      start_time: event.startTime.toISOString(),
+      end_time: event.endTime.toISOString(),
+      color: '#3b82f6', // Default blue color for imported events
+      external_calendar_id: event.externalId,
+      external_source: event.externalSource,
+      external_url: event.externalUrl,
+      external_last_modified: event.externalLastModified?.toISOString(),
+      is_external_event: true,
+      // Delegate to calculation function for duration
+      duration: calculateDurationHours(event.startTime, event.endTime),
+      // Recurring series: occurrences are expanded from the rrule, not stored
+      rrule: event.rrule ?? null,
+      recurrence_timezone: event.rrule ? (event.timeZone ?? null) : null,
+      connection_id: connectionId
+    };
+
+    if (existingEvent) {
+      // Update existing event if it has been modified
+      const shouldUpdate = !event.externalLastModified ||
+        !existingEvent.external_last_modified ||
+        new Date(event.externalLastModified) > new Date(existingEvent.external_last_modified);
+
+      if (!shouldUpdate) return 'skipped';
+
+      const { error } = await supabase
+        .from('calendar_events')
+        .update({
+          ...eventData,
+          recurring_group_id: event.rrule
+            ? (existingEvent.recurring_group_id ?? crypto.randomUUID())
+            : null
+        })
+        .eq('id', existingEvent.id);
+
+      if (error) throw error;
+      await this.replaceRecurrenceExceptions(existingEvent.id, userId, event);
+      return 'updated';
+    }
+
+    // Insert new event (a subscription's copy is unique per UID: if another
+    // client inserted it meanwhile, keep theirs)
+    const newEvent = { ...eventData, recurring_group_id: event.rrule ? crypto.randomUUID() : null };
+    const { data: inserted, error } = await (connectionId
+      ? supabase
+        .from('calendar_events')
+        .upsert([newEvent], { onConflict: 'user_id,connection_id,external_calendar_id', ignoreDuplicates: true })
+      : supabase
+        .from('calendar_events')
+        .insert([newEvent])
+    )
+      .select('id')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!inserted) return 'skipped';
+    if (event.rrule) {
+      await this.replaceRecurrenceExceptions(inserted.id, userId, event);
+    }
+    return 'imported';
+  }
+
+  /**
+   * Store a series' EXDATE / RECURRENCE-ID instances in calendar_event_exceptions
+   * The feed is the source of truth, so existing exceptions are replaced.
+   */
+  private static async replaceRecurrenceExceptions(
+    masterEventId: string,
+    userId: string,
+    event: ExternalEvent
+  ): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('calendar_event_exceptions')
+      .delete()
+      .eq('master_event_id', masterEventId);
+
+    if (deleteError) throw deleteError;
+    if (!event.rrule || !event.recurrenceExceptions?.length) return;
+
+    // One exception per occurrence day (unique master_event_id + exception_date)
+    const byDate = new Map<string, RecurrenceException>();
+    event.recurrenceExceptions.forEach(exception => {
+      byDate.set(getOccurrenceDateKey(exception.originalStart, event.timeZone), exception);
+    });
+
+    const rows = Array.from(byDate.entries()).map(([exceptionDate, exception]) => ({
+      user_id: userId,
+      master_event_id: masterEventId,
+      exception_date: exceptionDate,
+      exception_type: exception.type,
+      modified_data: {
+        original_start_time: exception.originalStart.toISOString(),
+        ...(exception.modified && {
+          title: exception.modified.title ?? null,
+          description: exception.modified.description ?? null,
+          start_time: exception.modified.startTime?.toISOString() ?? null,
+          end_time: exception.modified.endTime?.toISOString() ?? null
+        })
+      }
+    }));
+
+    const { error } = await supabase
+      .from('calendar_event_exceptions')
+      .insert(rows);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Snapshot from the latest completed sync of a subscription
+   */
+  private static async getLastSyncSnapshot(connectionId: string): Promise<SubscriptionSnapshot | null> {
+    const { data, error } = await supabase
+      .from('calendar_import_history')
+      .select('synced_events')
+      .eq('connection_id', connectionId)
+      .eq('import_status', 'completed')
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return (data?.synced_events as SubscriptionSnapshot | null) ?? null;
+  }
+
   /**
    * Log import history for tracking
    */
-  private static async logImportHistory(result: ImportResult, userId: string): Promise<void> {
+  private static async logImportHistory(
+    result: ImportResult,
+    userId: string,
+    options: {
+      importSource?: string;
+      importType?: string;
+      connectionId?: string;
+      snapshot?: SubscriptionSnapshot | null;
+    } = {}
+  ): Promise<void> {
     try {
       await supabase
         .from('calendar_import_history')
         .insert([{
           user_id: userId,
-          import_source: 'ical_file', // Default to ical for now
-          import_type: 'manual',
+          import_source: options.importSource ?? 'ical_file',
+          import_type: options.importType ?? 'manual',
+          connection_id: options.connectionId ?? null,
           events_imported: result.imported,
           events_updated: result.updated,
+          events_deleted: result.deleted ?? 0,
           events_failed: result.failed,
           import_status: result.success ? 'completed' : 'failed',
           error_message: result.errors.length > 0 ? result.errors.join('; ') : null,
+          synced_events: (options.snapshot ?? null) as Json,
           import_date_range_start: null, // Could be added later if needed
           import_date_range_end: null
         }]);
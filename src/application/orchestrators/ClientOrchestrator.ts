@@ -12,6 +12,7 @@ import { ClientRules } from '@/domain/rules/clients/ClientValidation';
 import { supabase } from '@/infrastructure/database/client';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import { Client as ClientEntity } from '@/domain/entities/Client';
+import { BillingRateMapper } from '@/infrastructure/mappers/BillingRateMapper';
 
 export interface ClientValidationResult {
   isValid: boolean;
@@ -44,6 +45,9 @@ type DbClientRow = {
   contact_phone: string | null;
   billing_address: string | null;
   notes: string | null;
+  currency: string;
+  rate_type: string | null;
+  rate_amount: number | null;
   created_at: string;
   updated_at: string;
 };
@@ -115,6 +119,8 @@ export class ClientOrchestrator {
         contactPhone: clientData.contactPhone,
         billingAddress: clientData.billingAddress,
         notes: clientData.notes,
+        currency: clientData.currency,
+        defaultRate: clientData.defaultRate,
         existingClients: existingClients.map(c => ({
           id: c.id,
           userId: c.userId,
@@ -150,6 +156,8 @@ export class ClientOrchestrator {
           contact_phone: validatedData.contactPhone,
           billing_address: validatedData.billingAddress,
           notes: validatedData.notes,
+          currency: validatedData.currency,
+          ...BillingRateMapper.toDatabase(validatedData.defaultRate),
         }])
         .select()
         .single();
@@ -206,6 +214,8 @@ export class ClientOrchestrator {
           contact_phone: updates.contactPhone,
           billing_address: updates.billingAddress,
           notes: updates.notes,
+          currency: updates.currency,
+          ...('defaultRate' in updates ? BillingRateMapper.toDatabase(updates.defaultRate) : {}),
         })
         .eq('id', clientId);
 
@@ -0,0 +1,411 @@
+/**
+ * Command History Orchestrator
+ *
+ * Application-level undo/redo stack shared by every view.
+ *
+ * ✅ Every mutation records a command that knows how to undo and redo itself
+ * ✅ Snapshot commands store the affected rows before and after the change, so
+ *    one command covers an insert, an update, a delete or a whole cascade
+ *    (e.g. a project with its phases, labels and linked events)
+ * ✅ Transactions group the commands of one user action (a resize that also
+ *    moves the project, a project delete with its phases) into one entry;
+ *    mutations join one only through the transaction handle they are given
+ * ✅ After undo/redo, views refetch through the same window events the
+ *    orchestrators already dispatch (phasesUpdated, ...)
+ *
+ * Replays write rows back directly and are never recorded themselves.
+ */
+
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type HistoryTable = 'projects' | 'phases' | 'holidays' | 'calendar_events' | 'project_labels' | 'project_tasks' | 'dependencies' | 'plan_baselines' | 'saved_filters';
+
+export type HistoryRow = Record<string, unknown>;
+
+/**
+ * Rows of one table before and after a change
+ * Rows missing from `after` were deleted; rows missing from `before` were inserted.
+ */
+export interface TableSnapshot {
+  table: HistoryTable;
+  keys?: string[]; // Primary key columns (default: ['id'])
+  before: HistoryRow[];
+  after: HistoryRow[];
+}
+
+export interface HistoryCommand {
+  label: string;
+  tables: HistoryTable[]; // Data that must be refreshed after a replay
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: Date;
+  commands: HistoryCommand[]; // In execution order; undo runs them in reverse
+}
+
+/**
+ * Handle of an open transaction, passed to its work
+ * Steps of the action record and nest through it; anything recorded on the
+ * shared history meanwhile (another view, a background sync) stays separate.
+ */
+export interface HistoryTransaction {
+  record: (command: HistoryCommand) => void;
+  transaction: <T>(label: string, work: (transaction: HistoryTransaction) => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Options of a mutation that records history
+ * Inside a transaction, pass its handle so the change joins that entry.
+ */
+export interface HistoryRecordOptions {
+  transaction?: HistoryTransaction;
+}
+
+export interface CommandHistoryState {
+  undoStack: HistoryEntry[]; // Oldest first
+  redoStack: HistoryEntry[]; // Most recently undone last
+  isReplaying: boolean;
+}
+
+export interface CommandHistoryOptions {
+  maxEntries?: number;
+  onReplay?: (tables: HistoryTable[]) => void;
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const COMMAND_HISTORY_CONFIG = {
+  MAX_ENTRIES: 100
+} as const;
+
+// Refresh events listened to by the data hooks / contexts
+const REFRESH_EVENTS: Record<HistoryTable, string> = {
+  projects: 'projectsUpdated',
+  phases: 'phasesUpdated',
+  holidays: 'holidaysUpdated',
+  calendar_events: 'eventsUpdated',
+  project_labels: 'projectsUpdated',
+  project_tasks: 'tasksUpdated',
+  dependencies: 'dependenciesUpdated',
+  plan_baselines: 'baselinesUpdated',
+  saved_filters: 'savedFiltersUpdated'
+};
+
+const dispatchRefreshEvents = (tables: HistoryTable[]): void => {
+  if (typeof window === 'undefined') return;
+  new Set(tables.map(table => REFRESH_EVENTS[table])).forEach(eventName => {
+    window.dispatchEvent(new CustomEvent(eventName, { detail: { source: 'history' } }));
+  });
+};
+
+// ============================================================================
+// COMMAND STACK
+// ============================================================================
+
+export class CommandHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private replaying = false;
+  private nextId = 1;
+  private listeners = new Set<() => void>();
+  private state: CommandHistoryState = { undoStack: [], redoStack: [], isReplaying: false };
+  private readonly maxEntries: number;
+  private readonly onReplay: (tables: HistoryTable[]) => void;
+
+  constructor(options: CommandHistoryOptions = {}) {
+    this.maxEntries = options.maxEntries ?? COMMAND_HISTORY_CONFIG.MAX_ENTRIES;
+    this.onReplay = options.onReplay ?? dispatchRefreshEvents;
+  }
+
+  /**
+   * Record a command that has just been executed as its own entry
+   * Steps of a transaction record through its handle instead.
+   */
+  record(command: HistoryCommand): void {
+    if (this.replaying) return;
+    this.push(command.label, [command]);
+  }
+
+  /**
+   * Run a user action and record everything it changes as one entry
+   *
+   * Only commands recorded through the handle passed to `work` join the
+   * entry; nested transactions on the handle merge into it. Commands
+   * recorded before a failure are kept, so a partly applied action can
+   * still be undone.
+   */
+  async transaction<T>(label: string, work: (transaction: HistoryTransaction) => Promise<T>): Promise<T> {
+    const commands: HistoryCommand[] = [];
+
+    try {
+      return await work(this.transactionHandle(commands));
+    } finally {
+      if (commands.length > 0) {
+        this.push(label, commands);
+      }
+    }
+  }
+
+  /**
+   * Undo the most recent entry
+   * @returns The undone entry, or null when there was nothing to undo or it failed
+   */
+  async undo(): Promise<HistoryEntry | null> {
+    const entry = this.undoStack[this.undoStack.length - 1];
+    if (!entry || this.replaying) return null;
+
+    const succeeded = await this.replay(entry, 'undo');
+    if (!succeeded) return null;
+
+    this.undoStack.pop();
+    this.redoStack.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Redo the most recently undone entry
+   */
+  async redo(): Promise<HistoryEntry | null> {
+    const entry = this.redoStack[this.redoStack.length - 1];
+    if (!entry || this.replaying) return null;
+
+    const succeeded = await this.replay(entry, 'redo');
+    if (!succeeded) return null;
+
+    this.redoStack.pop();
+    this.undoStack.push(entry);
+    this.notify();
+    return entry;
+  }
+
+  /**
+   * Undo every entry down to and including the given one (history panel)
+   * @returns Number of entries undone
+   */
+  async undoTo(entryId: string): Promise<number> {
+    if (!this.undoStack.some(entry => entry.id === entryId)) return 0;
+
+    let count = 0;
+    while (this.undoStack.length > 0) {
+      const undone = await this.undo();
+      if (!undone) break;
+      count++;
+      if (undone.id === entryId) break;
+    }
+    return count;
+  }
+
+  /**
+   * Redo every entry up to and including the given one (history panel)
+   * @returns Number of entries redone
+   */
+  async redoTo(entryId: string): Promise<number> {
+    if (!this.redoStack.some(entry => entry.id === entryId)) return 0;
+
+    let count = 0;
+    while (this.redoStack.length > 0) {
+      const redone = await this.redo();
+      if (!redone) break;
+      count++;
+      if (redone.id === entryId) break;
+    }
+    return count;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0 && !this.replaying;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0 && !this.replaying;
+  }
+
+  get isReplaying(): boolean {
+    return this.replaying;
+  }
+
+  /**
+   * Immutable snapshot of the stacks (stable between changes)
+   */
+  getState(): CommandHistoryState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  private push(label: string, commands: HistoryCommand[]): void {
+    this.undoStack.push({ id: `history-${this.nextId++}`, label, timestamp: new Date(), commands });
+    if (this.undoStack.length > this.maxEntries) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxEntries);
+    }
+    // A new action branches history: what was undone can no longer be redone
+    this.redoStack = [];
+    this.notify();
+  }
+
+  // Nested transactions merge into the outer entry
+  private transactionHandle(commands: HistoryCommand[]): HistoryTransaction {
+    const handle: HistoryTransaction = {
+      record: command => {
+        if (!this.replaying) commands.push(command);
+      },
+      transaction: (_label, work) => work(handle)
+    };
+    return handle;
+  }
+
+  private async replay(entry: HistoryEntry, direction: 'undo' | 'redo'): Promise<boolean> {
+    this.replaying = true;
+    this.notify();
+
+    const commands = direction === 'undo' ? [...entry.commands].reverse() : entry.commands;
+    try {
+      for (const command of commands) {
+        await command[direction]();
+      }
+      return true;
+    } catch (error) {
+      ErrorHandlingService.handle(error, {
+        source: 'CommandHistoryOrchestrator',
+        action: `Failed to ${direction} "${entry.label}":`
+      });
+      return false;
+    } finally {
+      this.replaying = false;
+      this.onReplay(Array.from(new Set(entry.commands.flatMap(command => command.tables))));
+      this.notify();
+    }
+  }
+
+  private notify(): void {
+    this.state = {
+      undoStack: [...this.undoStack],
+      redoStack: [...this.redoStack],
+      isReplaying: this.replaying
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// ============================================================================
+// ROW SNAPSHOTS
+// ============================================================================
+
+const keyColumns = (snapshot: TableSnapshot) => snapshot.keys ?? ['id'];
+
+const rowKey = (row: HistoryRow, keys: string[]) => keys.map(key => String(row[key])).join('|');
+
+// History tables are addressed dynamically; rows are full database rows of that table
+const fromTable = (table: HistoryTable) => supabase.from(table as 'projects');
+
+async function deleteRows(table: HistoryTable, keys: string[], rows: HistoryRow[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  if (keys.length === 1) {
+    const { error } = await fromTable(table).delete().in(keys[0] as 'id', rows.map(row => row[keys[0]] as string));
+    if (error) throw error;
+    return;
+  }
+
+  for (const row of rows) {
+    const match = Object.fromEntries(keys.map(key => [key, row[key]]));
+    const { error } = await fromTable(table).delete().match(match as never);
+    if (error) throw error;
+  }
+}
+
+async function upsertRows(table: HistoryTable, keys: string[], rows: HistoryRow[]): Promise<void> {
+  if (rows.length === 0) return;
+  const { error } = await fromTable(table).upsert(rows as never, { onConflict: keys.join(',') });
+  if (error) throw error;
+}
+
+/**
+ * Bring the given tables to one side of their snapshots
+ *
+ * Snapshots are listed parent first: rows are removed child first and
+ * written back parent first, so foreign keys hold at every step.
+ */
+async function applySnapshots(snapshots: TableSnapshot[], side: 'before' | 'after'): Promise<void> {
+  const other = side === 'before' ? 'after' : 'before';
+
+  for (const snapshot of [...snapshots].reverse()) {
+    const keys = keyColumns(snapshot);
+    const target = new Set(snapshot[side].map(row => rowKey(row, keys)));
+    await deleteRows(snapshot.table, keys, snapshot[other].filter(row => !target.has(rowKey(row, keys))));
+  }
+
+  for (const snapshot of snapshots) {
+    await upsertRows(snapshot.table, keyColumns(snapshot), snapshot[side]);
+  }
+}
+
+/**
+ * Current rows of a table where a column matches one of the values
+ * Call before a mutation to capture what it will change.
+ */
+export async function snapshotRows(
+  table: HistoryTable,
+  column: string,
+  values: string[]
+): Promise<HistoryRow[]> {
+  if (values.length === 0) return [];
+
+  const { data, error } = await fromTable(table).select('*').in(column as 'id', values);
+  if (error) throw error;
+  return (data ?? []) as HistoryRow[];
+}
+
+/**
+ * Command that restores row snapshots (undo → before, redo → after)
+ */
+export function createSnapshotCommand(label: string, snapshots: TableSnapshot[]): HistoryCommand {
+  return {
+    label,
+    tables: snapshots.map(snapshot => snapshot.table),
+    undo: () => applySnapshots(snapshots, 'before'),
+    redo: () => applySnapshots(snapshots, 'after')
+  };
+}
+
+/**
+ * Record a row-level change (skips empty changes)
+ * Pass the open transaction to add it to that action's entry.
+ */
+export function recordSnapshot(label: string, snapshots: TableSnapshot[], transaction?: HistoryTransaction): void {
+  const changed = snapshots.filter(snapshot => snapshot.before.length > 0 || snapshot.after.length > 0);
+  if (changed.length === 0) return;
+  (transaction ?? commandHistory).record(createSnapshotCommand(label, changed));
+}
+
+// ============================================================================
+// INSTANCES
+// ============================================================================
+
+export const createCommandHistory = (options?: CommandHistoryOptions) => new CommandHistory(options);
+
+// Shared history used by all views
+export const commandHistory = createCommandHistory();
@@ -0,0 +1,724 @@
+/**
+ * Data Backup Orchestrator
+ *
+ * Coordinates full account backup (export) and restore (import) workflows.
+ *
+ * ✅ Exports every user table into a versioned JSON archive
+ * ✅ Validates restored rows through the domain entities
+ * ✅ Remaps row IDs and references so archives can move between accounts
+ * ✅ Reports name conflicts and rows still in the account (merged), duplicates (skipped) and invalid rows
+ *
+ * Restore plans every insert before writing, then writes the whole plan in one
+ * transaction (restore_backup RPC), so neither an invalid archive nor a failed
+ * insert deletes or partially replaces existing data.
+ *
+ * @see src/domain/rules/backup/BackupArchive.ts - archive format and ID remapping
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { Project as ProjectEntity } from '@/domain/entities/Project';
+import { Phase as PhaseEntity } from '@/domain/entities/Phase';
+import { Client as ClientEntity } from '@/domain/entities/Client';
+import { Group as GroupEntity } from '@/domain/entities/Group';
+import { Label as LabelEntity } from '@/domain/entities/Label';
+import { Holiday as HolidayEntity } from '@/domain/entities/Holiday';
+import type { DomainResult } from '@/domain/entities/Project';
+import { getHabitKey, validateHabitGoal, type HabitGoal } from '@/domain/rules/habits/HabitAdherence';
+import { validateTask } from '@/domain/rules/tasks/TaskBacklog';
+import { ProjectRules, type DependencyCandidate } from '@/domain/rules/projects/ProjectValidation';
+import { validatePlanBaselineName } from '@/domain/rules/baselines/PlanBaseline';
+import { validateSavedFilter } from '@/domain/rules/filters/ProjectFilters';
+import type { ClientStatus, ProjectFilterQuery, RecurringConfig } from '@/shared/types/core';
+import type { Json } from '@/infrastructure/database/types';
+import {
+  BACKUP_EXPORT_ONLY_TABLES,
+  BACKUP_RESTORE_ORDER,
+  BACKUP_SINGLETON_TABLES,
+  BackupIdMap,
+  createBackupArchive,
+  getBackupNameKey,
+  parseBackupArchive,
+  remapBackupRow,
+  remapBaselineSnapshot,
+  remapFilterQuery,
+  type BackupArchive,
+  type BackupRow,
+  type BackupTableName,
+  type BackupTables
+} from '@/domain/rules/backup/BackupArchive';
+
+// Table names are chosen at runtime, so generic table queries use the untyped client
+const untypedClient = supabase as unknown as SupabaseClient;
+
+const PAGE_SIZE = 1000;
+
+export interface BackupExportResult {
+  success: boolean;
+  archive?: BackupArchive;
+  error?: string;
+}
+
+export interface BackupRestoreOptions {
+  replaceExisting?: boolean; // Delete current data before restoring
+  dryRun?: boolean; // Validate and report without writing
+}
+
+export interface BackupConflict {
+  table: BackupTableName;
+  name: string;
+  resolution: 'merged' | 'skipped' | 'replaced';
+  message: string;
+}
+
+export interface BackupRestoreResult {
+  success: boolean;
+  restored: Partial<Record<BackupTableName, number>>;
+  skipped: Partial<Record<BackupTableName, number>>;
+  conflicts: BackupConflict[];
+  errors: string[];
+  warnings: string[];
+}
+
+interface ExistingAccountData {
+  groups: BackupRow[];
+  clients: BackupRow[];
+  labels: BackupRow[];
+  rows: BackupRow[];
+  projects: BackupRow[];
+  phases: BackupRow[];
+  dependencies: BackupRow[];
+  holidays: BackupRow[];
+  calendar_events: BackupRow[];
+  project_tasks: BackupRow[];
+  habit_targets: BackupRow[];
+  plan_baselines: BackupRow[];
+  saved_filters: BackupRow[];
+  settings: BackupRow[];
+  profiles: BackupRow[];
+}
+
+type RestorePlan = Partial<Record<BackupTableName, BackupRow[]>>;
+
+/**
+ * Data Backup Orchestrator
+ * Handles full account export and restore workflows
+ */
+export class DataBackupOrchestrator {
+
+  /**
+   * Export every table for the current user into a backup archive
+   */
+  static async exportArchive(): Promise<BackupExportResult> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const tables: BackupTables = {};
+      const userTables: BackupTableName[] = [
+        'profiles',
+        'settings',
+        'groups',
+        'clients',
+        'labels',
+        'rows',
+        'projects',
+        'phases',
+        'dependencies',
+        'calendar_events',
+        'calendar_event_exceptions',
+        'project_tasks',
+        'holidays',
+        'work_slot_exceptions',
+        'habit_targets',
+        'plan_baselines',
+        'saved_filters',
+        'calendar_connections',
+        'calendar_import_history',
+        'feedback',
+        'milestones_backup_20251018'
+      ];
+      for (const table of userTables) {
+        tables[table] = await this.fetchAllRows(table, 'user_id', [user.id]);
+      }
+
+      // Tables without a user_id column are reached through their parent rows
+      tables.project_labels = await this.fetchAllRows(
+        'project_labels',
+        'project_id',
+        (tables.projects || []).map(row => String(row.id))
+      );
+      tables.feedback_attachments = await this.fetchAllRows(
+        'feedback_attachments',
+        'feedback_id',
+        (tables.feedback || []).map(row => String(row.id))
+      );
+
+      const { data: userIdHash, error: hashError } = await supabase.rpc('hash_user_id', { user_uuid: user.id });
+      if (hashError) throw hashError;
+      tables.usage_analytics = await this.fetchAllRows('usage_analytics', 'user_id_hash', [String(userIdHash)]);
+
+      return { success: true, archive: createBackupArchive(tables) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, {
+        source: 'DataBackupOrchestrator',
+        action: 'exportArchive'
+      });
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to export data'
+      };
+    }
+  }
+
+  /**
+   * Restore a backup archive into the current account
+   *
+   * Workflow:
+   * 1. Parse and validate the archive format
+   * 2. Plan every insert: validate rows through domain entities, remap IDs, detect conflicts
+   * 3. Write the plan in one transaction: optionally delete current data
+   *    (replaceExisting), then insert rows parents-first
+   */
+  static async importArchive(
+    raw: unknown,
+    options: BackupRestoreOptions = {}
+  ): Promise<BackupRestoreResult> {
+    const result: BackupRestoreResult = {
+      success: false,
+      restored: {},
+      skipped: {},
+      conflicts: [],
+      errors: [],
+      warnings: []
+    };
+
+    try {
+      const parsed = parseBackupArchive(raw);
+      result.warnings.push(...parsed.warnings);
+      if (!parsed.archive) {
+        result.errors.push(...parsed.errors);
+        return result;
+      }
+      const archive = parsed.archive;
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        result.errors.push('User not authenticated');
+        return result;
+      }
+
+      Object.entries(BACKUP_EXPORT_ONLY_TABLES).forEach(([table, reason]) => {
+        if (archive.tables[table as BackupTableName]?.length) {
+          result.warnings.push(reason);
+        }
+      });
+
+      const existing = await this.fetchExistingData(user.id);
+      const plan = this.buildRestorePlan(
+        archive,
+        user.id,
+        options.replaceExisting ? this.emptyAccountData(existing) : existing,
+        result
+      );
+
+      if (options.dryRun) {
+        BACKUP_RESTORE_ORDER.forEach(table => {
+          if (plan[table]?.length) result.restored[table] = plan[table]!.length;
+        });
+        result.success = true;
+        return result;
+      }
+
+      const { error } = await supabase.rpc('restore_backup', {
+        backup: plan as unknown as Json,
+        replace_existing: options.replaceExisting === true
+      });
+      if (error) throw error;
+
+      BACKUP_RESTORE_ORDER.forEach(table => {
+        if (plan[table]?.length) result.restored[table] = plan[table]!.length;
+      });
+      result.success = true;
+      return result;
+    } catch (error) {
+      ErrorHandlingService.handle(error, {
+        source: 'DataBackupOrchestrator',
+        action: 'importArchive'
+      });
+      result.errors.push(error instanceof Error ? error.message : 'Failed to restore backup');
+      return result;
+    }
+  }
+
+  /**
+   * Validate, remap and de-duplicate every archive row without writing
+   */
+  private static buildRestorePlan(
+    archive: BackupArchive,
+    userId: string,
+    existing: ExistingAccountData,
+    result: BackupRestoreResult
+  ): RestorePlan {
+    const plan: RestorePlan = {};
+    const idMap = new BackupIdMap();
+    const recurringGroupIds = new Map<string, string>();
+
+    // Rows that already exist in this account stay referenceable (same-account restore)
+    (['groups', 'clients', 'labels', 'rows', 'projects', 'calendar_events'] as const).forEach(table => {
+      existing[table].forEach(row => idMap.set(table, String(row.id), String(row.id)));
+    });
+
+    const existingByName = (rows: BackupRow[]) =>
+      new Map(rows.map(row => [getBackupNameKey(row.name), String(row.id)]));
+    const existingNames: Partial<Record<BackupTableName, Map<string, string>>> = {
+      groups: existingByName(existing.groups),
+      clients: existingByName(existing.clients),
+      labels: existingByName(existing.labels),
+      plan_baselines: existingByName(existing.plan_baselines),
+      saved_filters: existingByName(existing.saved_filters)
+    };
+    const holidayKey = (row: BackupRow) =>
+      `${getBackupNameKey(row.title)}|${String(row.start_date).slice(0, 10)}|${String(row.end_date).slice(0, 10)}`;
+    const existingHolidays = new Set(existing.holidays.map(holidayKey));
+    const externalEventKey = (row: BackupRow) =>
+      row.external_calendar_id ? `${row.external_source}|${row.external_calendar_id}` : null;
+    const existingExternalEvents = new Set(existing.calendar_events.map(externalEventKey).filter(Boolean));
+    const existingHabits = new Set(existing.habit_targets.map(row => getHabitKey(String(row.habit_name ?? ''))));
+    const idsOf = (rows: BackupRow[]) => new Set(rows.map(row => String(row.id)));
+    const existingIds: Partial<Record<BackupTableName, Set<string>>> = {
+      projects: idsOf(existing.projects),
+      phases: idsOf(existing.phases),
+      dependencies: idsOf(existing.dependencies),
+      calendar_events: idsOf(existing.calendar_events),
+      project_tasks: idsOf(existing.project_tasks)
+    };
+    const mergedIds = { projects: new Set<string>(), calendar_events: new Set<string>() };
+
+    const skip = (table: BackupTableName, message?: string) => {
+      result.skipped[table] = (result.skipped[table] || 0) + 1;
+      if (message) result.errors.push(message);
+    };
+    const add = (table: BackupTableName, row: BackupRow) => {
+      (plan[table] = plan[table] || []).push(row);
+    };
+    const describe = (table: BackupTableName, row: BackupRow) =>
+      `${table} "${row.name ?? row.title ?? row.id ?? ''}"`;
+
+    /**
+     * Remap a row and validate it; returns the planned row or null when skipped
+     */
+    const planRow = <T extends { id: string }>(
+      table: BackupTableName,
+      row: BackupRow,
+      validate?: (remapped: BackupRow) => DomainResult<T>
+    ): BackupRow | null => {
+      const probe = remapBackupRow(table, row, idMap, userId);
+      if (probe.missingReferences.length > 0) {
+        skip(table, `${describe(table, row)} skipped: missing ${probe.missingReferences.join(', ')}`);
+        return null;
+      }
+
+      let newId: string = crypto.randomUUID();
+      if (validate) {
+        const validation = validate(probe.row);
+        if (!validation.success) {
+          skip(table, `${describe(table, row)} is invalid: ${validation.errors?.join(', ')}`);
+          return null;
+        }
+        newId = validation.data!.id;
+      }
+
+      const planned = row.id === undefined ? probe.row : { ...probe.row, id: newId };
+      if (row.id !== undefined) idMap.set(table, String(row.id), newId);
+      return planned;
+    };
+
+    /**
+     * Same-account restore: a row whose ID is still in this account is kept as is
+     * instead of being inserted again as a copy
+     */
+    const mergeExistingRow = (
+      table: 'projects' | 'phases' | 'calendar_events' | 'project_tasks',
+      row: BackupRow
+    ): boolean => {
+      const id = String(row.id);
+      if (row.id === undefined || !existingIds[table]!.has(id)) return false;
+      idMap.set(table, id, id);
+      const name = String(row.name ?? row.title ?? id);
+      result.conflicts.push({
+        table,
+        name,
+        resolution: 'merged',
+        message: `"${name}" is already in this account and was kept`
+      });
+      return true;
+    };
+
+    /**
+     * Name-unique tables: rows whose name already exists are merged into the existing row
+     */
+    const planNamedRow = <T extends { id: string }>(
+      table: 'groups' | 'clients' | 'labels',
+      row: BackupRow,
+      validate: (remapped: BackupRow) => DomainResult<T>
+    ) => {
+      const names = existingNames[table]!;
+      const existingId = names.get(getBackupNameKey(row.name));
+      if (existingId) {
+        idMap.set(table, String(row.id), existingId);
+        result.conflicts.push({
+          table,
+          name: String(row.name),
+          resolution: 'merged',
+          message: `"${row.name}" already exists and was reused`
+        });
+        return;
+      }
+      const planned = planRow(table, row, validate);
+      if (planned) {
+        names.set(getBackupNameKey(row.name), String(planned.id));
+        add(table, planned);
+      }
+    };
+
+    // Rule validators report isValid/errors instead of creating an entity
+    const checked = (validation: { isValid: boolean; errors: string[] }): DomainResult<{ id: string }> =>
+      validation.isValid
+        ? { success: true, data: { id: crypto.randomUUID() } }
+        : { success: false, errors: validation.errors };
+
+    const rowsOf = (table: BackupTableName) => archive.tables[table] || [];
+    const asDate = (value: unknown) => new Date(String(value));
+    const asOptionalString = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+
+    rowsOf('groups').forEach(row => planNamedRow('groups', row, () =>
+      GroupEntity.create({ name: String(row.name ?? ''), userId })
+    ));
+
+    rowsOf('clients').forEach(row => planNamedRow('clients', row, () =>
+      ClientEntity.create({
+        name: String(row.name ?? ''),
+        status: (row.status as ClientStatus) || 'active',
+        contactEmail: asOptionalString(row.contact_email),
+        contactPhone: asOptionalString(row.contact_phone),
+        billingAddress: asOptionalString(row.billing_address),
+        notes: asOptionalString(row.notes),
+        userId
+      })
+    ));
+
+    rowsOf('labels').forEach(row => planNamedRow('labels', row, () =>
+      LabelEntity.create({ name: String(row.name ?? ''), color: asOptionalString(row.color), userId })
+    ));
+
+    rowsOf('rows').forEach(row => {
+      const planned = planRow('rows', row);
+      if (planned) add('rows', planned);
+    });
+
+    rowsOf('projects').forEach(row => {
+      if (mergeExistingRow('projects', row)) {
+        mergedIds.projects.add(String(row.id));
+        return;
+      }
+      const planned = planRow('projects', row, remapped => ProjectEntity.create({
+        name: String(row.name ?? ''),
+        clientId: String(remapped.client_id ?? ''),
+        groupId: String(remapped.group_id ?? ''),
+        startDate: asDate(row.start_date),
+        endDate: row.continuous ? undefined : asDate(row.end_date),
+        estimatedHours: Number(row.estimated_hours ?? 0),
+        color: String(row.color ?? ''),
+        continuous: row.continuous === true,
+        notes: asOptionalString(row.notes),
+        icon: asOptionalString(row.icon),
+        userId
+      }));
+      if (planned) add('projects', planned);
+    });
+
+    rowsOf('project_labels').forEach(row => {
+      if (mergedIds.projects.has(String(row.project_id))) return; // Kept projects keep their current labels
+      const planned = planRow('project_labels', row);
+      if (planned) {
+        delete planned.user_id; // Join table has no user_id column
+        add('project_labels', planned);
+      }
+    });
+
+    rowsOf('phases').forEach(row => {
+      if (mergeExistingRow('phases', row)) return;
+      const planned = planRow('phases', row, remapped => PhaseEntity.create({
+        name: String(row.name ?? ''),
+        projectId: String(remapped.project_id),
+        startDate: asDate(row.start_date),
+        endDate: asDate(row.end_date),
+        timeAllocationHours: Number(row.time_allocation_hours ?? row.time_allocation ?? 0),
+        isRecurring: row.is_recurring === true,
+        recurringConfig: (row.recurring_config as unknown as RecurringConfig) ?? undefined,
+        userId
+      }));
+      if (planned) add('phases', planned);
+    });
+
+    // Links follow their projects or phases; cycles and duplicates are rejected as on create
+    const plannedDependencies: DependencyCandidate[] = [];
+    rowsOf('dependencies').forEach(row => {
+      if (row.kind !== 'project' && row.kind !== 'phase') {
+        skip('dependencies', `${describe('dependencies', row)} skipped: unknown kind "${row.kind}"`);
+        return;
+      }
+      if (existingIds.dependencies!.has(String(row.id))) return; // Link between kept rows is still in place
+      let candidate: DependencyCandidate | undefined;
+      const planned = planRow('dependencies', row, remapped => {
+        candidate = {
+          kind: remapped.kind as DependencyCandidate['kind'],
+          predecessorId: String(remapped.predecessor_id),
+          successorId: String(remapped.successor_id),
+          type: (remapped.type as DependencyCandidate['type']) || 'finish-to-start',
+          lagDays: Number(remapped.lag_days ?? 0)
+        };
+        return checked(ProjectRules.validateDependency(candidate, plannedDependencies));
+      });
+      if (planned && candidate) {
+        plannedDependencies.push(candidate);
+        add('dependencies', planned);
+      }
+    });
+
+    rowsOf('calendar_events').forEach(row => {
+      const externalKey = externalEventKey(row);
+      if (externalKey && existingExternalEvents.has(externalKey)) {
+        result.conflicts.push({
+          table: 'calendar_events',
+          name: String(row.title),
+          resolution: 'skipped',
+          message: `Imported event "${row.title}" is already in this account`
+        });
+        skip('calendar_events');
+        return;
+      }
+      if (!externalKey && mergeExistingRow('calendar_events', row)) {
+        mergedIds.calendar_events.add(String(row.id));
+        return;
+      }
+      const planned = planRow('calendar_events', row);
+      if (!planned) return;
+      // Series links are per account: give each restored series a fresh group ID
+      if (row.recurring_group_id) {
+        const oldGroupId = String(row.recurring_group_id);
+        if (!recurringGroupIds.has(oldGroupId)) recurringGroupIds.set(oldGroupId, crypto.randomUUID());
+        planned.recurring_group_id = recurringGroupIds.get(oldGroupId);
+      }
+      add('calendar_events', planned);
+    });
+
+    rowsOf('calendar_event_exceptions').forEach(row => {
+      if (mergedIds.calendar_events.has(String(row.master_event_id))) return; // Kept series keep their current exceptions
+      const planned = planRow('calendar_event_exceptions', row);
+      if (planned) add('calendar_event_exceptions', planned);
+    });
+
+    rowsOf('project_tasks').forEach(row => {
+      if (mergeExistingRow('project_tasks', row)) return;
+      const planned = planRow('project_tasks', row, () => checked(validateTask({
+        title: String(row.title ?? ''),
+        estimatedHours: Number(row.estimated_hours ?? 0),
+        dueDate: row.due_date ? asDate(row.due_date) : undefined
+      })));
+      if (planned) add('project_tasks', planned);
+    });
+
+    rowsOf('holidays').forEach(row => {
+      if (existingHolidays.has(holidayKey(row))) {
+        result.conflicts.push({
+          table: 'holidays',
+          name: String(row.title),
+          resolution: 'skipped',
+          message: `Holiday "${row.title}" already exists for these dates`
+        });
+        skip('holidays');
+        return;
+      }
+      const planned = planRow('holidays', row, () => HolidayEntity.create({
+        title: String(row.title ?? ''),
+        startDate: asDate(row.start_date),
+        endDate: asDate(row.end_date),
+        notes: asOptionalString(row.notes),
+        userId
+      }));
+      if (planned) {
+        existingHolidays.add(holidayKey(row));
+        add('holidays', planned);
+      }
+    });
+
+    rowsOf('work_slot_exceptions').forEach(row => {
+      const planned = planRow('work_slot_exceptions', row);
+      if (planned) add('work_slot_exceptions', planned);
+    });
+
+    // One target per habit name: targets already set in this account win
+    rowsOf('habit_targets').forEach(row => {
+      const habitKey = getHabitKey(String(row.habit_name ?? ''));
+      if (existingHabits.has(habitKey)) {
+        result.conflicts.push({
+          table: 'habit_targets',
+          name: String(row.habit_name),
+          resolution: 'skipped',
+          message: `Habit "${row.habit_name}" already has a target`
+        });
+        skip('habit_targets');
+        return;
+      }
+      const planned = planRow('habit_targets', row, () => checked(validateHabitGoal({
+        frequency: row.frequency as HabitGoal['frequency'],
+        metric: row.metric as HabitGoal['metric'],
+        target: Number(row.target)
+      })));
+      if (planned) {
+        existingHabits.add(habitKey);
+        add('habit_targets', planned);
+      }
+    });
+
+    // Baselines are frozen: one with the same name in this account is kept as is
+    rowsOf('plan_baselines').forEach(row => {
+      const names = existingNames.plan_baselines!;
+      if (names.has(getBackupNameKey(row.name))) {
+        result.conflicts.push({
+          table: 'plan_baselines',
+          name: String(row.name),
+          resolution: 'skipped',
+          message: `Baseline "${row.name}" already exists`
+        });
+        skip('plan_baselines');
+        return;
+      }
+      const planned = planRow('plan_baselines', row, () =>
+        checked(validatePlanBaselineName(String(row.name ?? ''), []))
+      );
+      if (planned) {
+        planned.snapshot = remapBaselineSnapshot(row.snapshot, idMap);
+        names.set(getBackupNameKey(row.name), String(planned.id));
+        add('plan_baselines', planned);
+      }
+    });
+
+    // Saved filters follow their clients and labels; same-named filters in this account win
+    rowsOf('saved_filters').forEach(row => {
+      const names = existingNames.saved_filters!;
+      if (names.has(getBackupNameKey(row.name))) {
+        result.conflicts.push({
+          table: 'saved_filters',
+          name: String(row.name),
+          resolution: 'skipped',
+          message: `Filter "${row.name}" already exists`
+        });
+        skip('saved_filters');
+        return;
+      }
+      const query = remapFilterQuery(row.query, idMap);
+      const planned = planRow('saved_filters', row, () =>
+        checked(validateSavedFilter(String(row.name ?? ''), query as unknown as ProjectFilterQuery, []))
+      );
+      if (planned) {
+        planned.query = query;
+        names.set(getBackupNameKey(row.name), String(planned.id));
+        add('saved_filters', planned);
+      }
+    });
+
+    // One row per user: the first archive row replaces the current one
+    BACKUP_SINGLETON_TABLES.forEach(table => {
+      const [row] = rowsOf(table);
+      if (!row) return;
+      const planned: BackupRow = table === 'settings'
+        ? { user_id: userId, weekly_work_hours: row.weekly_work_hours, work_schedules: row.work_schedules ?? [] }
+        : { user_id: userId, display_name: row.display_name ?? null };
+      if (existing[table as 'settings' | 'profiles'].length > 0) {
+        result.conflicts.push({
+          table,
+          name: table,
+          resolution: 'replaced',
+          message: table === 'settings' ? 'Work hour settings were replaced' : 'Display name was replaced'
+        });
+      }
+      add(table, planned);
+    });
+
+    return plan;
+  }
+
+  /**
+   * Fetch every row matching `column IN values`, paging past the API row limit
+   */
+  private static async fetchAllRows(
+    table: BackupTableName,
+    column: string,
+    values: string[]
+  ): Promise<BackupRow[]> {
+    if (values.length === 0) return [];
+
+    const rows: BackupRow[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await untypedClient
+        .from(table)
+        .select('*')
+        .in(column, values)
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...((data || []) as BackupRow[]));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  private static async fetchExistingData(userId: string): Promise<ExistingAccountData> {
+    const fetch = (table: BackupTableName) => this.fetchAllRows(table, 'user_id', [userId]);
+    return {
+      groups: await fetch('groups'),
+      clients: await fetch('clients'),
+      labels: await fetch('labels'),
+      rows: await fetch('rows'),
+      projects: await fetch('projects'),
+      phases: await fetch('phases'),
+      dependencies: await fetch('dependencies'),
+      holidays: await fetch('holidays'),
+      calendar_events: await fetch('calendar_events'),
+      project_tasks: await fetch('project_tasks'),
+      habit_targets: await fetch('habit_targets'),
+      plan_baselines: await fetch('plan_baselines'),
+      saved_filters: await fetch('saved_filters'),
+      settings: await fetch('settings'),
+      profiles: await fetch('profiles')
+    };
+  }
+
+  /**
+   * Account data as seen by a replacing restore: nothing left to conflict with
+   */
+  private static emptyAccountData(existing: ExistingAccountData): ExistingAccountData {
+    return {
+      groups: [],
+      clients: [],
+      labels: [],
+      rows: [],
+      projects: [],
+      phases: [],
+      dependencies: [],
+      holidays: [],
+      calendar_events: [],
+      project_tasks: [],
+      habit_targets: [],
+      plan_baselines: [],
+      saved_filters: [],
+      settings: existing.settings,
+      profiles: existing.profiles
+    };
+  }
+}
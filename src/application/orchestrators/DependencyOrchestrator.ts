@@ -0,0 +1,185 @@
+/**
+ * Dependency Orchestrator
+ *
+ * Coordinates finish-to-start and start-to-start dependencies between
+ * projects and between phases:
+ * - CRUD for dependencies (validated for cycles by ProjectRules)
+ * - Snapshots of the links a project or phase deletion removes (database trigger),
+ *   so the deletion can be undone with its links
+ *
+ * Every mutation is recorded on the command history and announced with the
+ * 'dependenciesUpdated' window event. Shifting dependents after a predecessor
+ * moved is planned by DependencyCascade rules and applied by the timeline.
+ *
+ * @module DependencyOrchestrator
+ */
+
+import type { Dependency, DependencyKind, DependencyType, PhaseDTO } from '@/shared/types/core';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { DependencyMapper } from '@/infrastructure/mappers/DependencyMapper';
+import { ProjectRules } from '@/domain/rules/projects/ProjectValidation';
+import { recordSnapshot, snapshotRows, type HistoryRow } from './CommandHistoryOrchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DependencyCreationInput {
+  kind: DependencyKind;
+  predecessorId: string;
+  successorId: string;
+  type: DependencyType;
+  lagDays?: number;
+}
+
+export interface DependencyUpdateInput {
+  type?: DependencyType;
+  lagDays?: number;
+}
+
+export interface DependencyWorkflowResult {
+  success: boolean;
+  dependency?: Dependency;
+  errors?: string[];
+}
+
+const notifyChanged = () => {
+  window.dispatchEvent(new CustomEvent('dependenciesUpdated'));
+};
+
+const failure = (error: unknown, fallback: string): DependencyWorkflowResult => ({
+  success: false,
+  errors: [error instanceof Error ? error.message : fallback]
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+export class DependencyOrchestrator {
+  /**
+   * Get all dependencies for current user
+   */
+  static async getDependencies(): Promise<Dependency[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('dependencies')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      ErrorHandlingService.handle(error, { source: 'DependencyOrchestrator', action: 'getDependencies' });
+      throw error;
+    }
+    return (data || []).map(DependencyMapper.fromDatabase);
+  }
+
+  /**
+   * Link a successor to a predecessor
+   * Rejects links that would close a cycle (ProjectRules.validateDependency).
+   */
+  static async createDependencyWorkflow(
+    input: DependencyCreationInput,
+    existing: Dependency[],
+    phases: PhaseDTO[] = []
+  ): Promise<DependencyWorkflowResult> {
+    const candidate = { ...input, lagDays: input.lagDays ?? 0 };
+    const validation = ProjectRules.validateDependency(candidate, existing, phases);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, errors: ['User not authenticated'] };
+      }
+
+      const { data, error } = await supabase
+        .from('dependencies')
+        .insert(DependencyMapper.toDatabase({ ...candidate, userId: user.id }))
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot('Add dependency', [{ table: 'dependencies', before: [], after: [data] }]);
+      notifyChanged();
+      return { success: true, dependency: DependencyMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'DependencyOrchestrator', action: 'createDependencyWorkflow' });
+      return failure(error, 'Failed to add dependency');
+    }
+  }
+
+  /**
+   * Change the type or lag of a dependency
+   */
+  static async updateDependencyWorkflow(
+    dependency: Dependency,
+    updates: DependencyUpdateInput
+  ): Promise<DependencyWorkflowResult> {
+    if (updates.lagDays !== undefined && (!Number.isInteger(updates.lagDays) || updates.lagDays < 0)) {
+      return { success: false, errors: ['Lag must be a whole number of days (0 or more)'] };
+    }
+
+    try {
+      const before = await snapshotRows('dependencies', 'id', [dependency.id]);
+
+      const { data, error } = await supabase
+        .from('dependencies')
+        .update(DependencyMapper.toUpdatePayload(updates))
+        .eq('id', dependency.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot('Edit dependency', [{ table: 'dependencies', before, after: [data] }]);
+      notifyChanged();
+      return { success: true, dependency: DependencyMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'DependencyOrchestrator', action: 'updateDependencyWorkflow' });
+      return failure(error, 'Failed to update dependency');
+    }
+  }
+
+  /**
+   * Remove a dependency
+   */
+  static async deleteDependencyWorkflow(dependency: Dependency): Promise<DependencyWorkflowResult> {
+    try {
+      const { data, error } = await supabase
+        .from('dependencies')
+        .delete()
+        .eq('id', dependency.id)
+        .select();
+
+      if (error) throw error;
+
+      recordSnapshot('Remove dependency', [{ table: 'dependencies', before: data || [], after: [] }]);
+      notifyChanged();
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'DependencyOrchestrator', action: 'deleteDependencyWorkflow' });
+      return failure(error, 'Failed to remove dependency');
+    }
+  }
+
+  /**
+   * Current links of projects or phases, on either side
+   * Call before deleting them: the database trigger removes these links.
+   */
+  static async snapshotItemDependencies(itemIds: string[]): Promise<HistoryRow[]> {
+    const [asPredecessor, asSuccessor] = await Promise.all([
+      snapshotRows('dependencies', 'predecessor_id', itemIds),
+      snapshotRows('dependencies', 'successor_id', itemIds)
+    ]);
+    const rows = new Map([...asPredecessor, ...asSuccessor].map(row => [row.id, row]));
+    return [...rows.values()];
+  }
+}
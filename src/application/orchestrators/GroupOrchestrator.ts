@@ -17,6 +17,7 @@ import { calculateGroupStatistics } from '@/domain/rules/groups/GroupCalculation
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import { Group as GroupEntity } from '@/domain/entities/Group';
 import { GroupValidationRules } from '@/domain/rules/groups/GroupValidation';
+import { offlineSync } from './OfflineSyncOrchestrator';
 
 type GroupRow = Database['public']['Tables']['groups']['Row'];
 type GroupInsert = Database['public']['Tables']['groups']['Insert'];
@@ -412,8 +413,8 @@ export class GroupOrchestrator {
   }
 
   /**
-   * Sync offline changes - Phase 5A
-   * Handles offline-to-online synchronization
+   * Sync offline changes
+   * Replays the shared offline outbox to the server (see OfflineSyncOrchestrator)
    */
   static async syncOfflineChanges(): Promise<{ 
     success: boolean; 
@@ -421,15 +422,10 @@ export class GroupOrchestrator {
     errors: string[];
     duration: number;
   }> {
-    // Repository sync is handled automatically - this method is kept for API compatibility
-    return {
-      success: true,
-      syncedCount: 0,
-      errors: [],
-      duration: 0
-    };
-  }  /**
-   * Execute complete group update workflow
+    const { success, syncedCount, errors, duration } = await offlineSync.sync();
+    return { success, syncedCount, errors, duration };
+  }
+
   /**
    * Calculate group statistics for dashboard/insights
    */
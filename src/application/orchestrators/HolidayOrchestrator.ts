@@ -6,17 +6,30 @@
  * Extracted from HolidayModal.tsx following Phase 3D Holiday Modal Orchestration
  */
 
-import { Holiday } from '@/shared/types/core';
+import { Holiday, PublicHolidayCalendarSetting } from '@/shared/types/core';
 import { addDaysToDate } from '@/presentation/utils/dateCalculations';
+import { supabase } from '@/infrastructure/database/client';
+import type { Json } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { HolidayMapper } from '@/infrastructure/mappers/HolidayMapper';
 import { Holiday as HolidayEntity } from '@/domain/entities/Holiday';
 import { validateHolidayPlacement } from '@/domain/rules/holidays/HolidayCalculations';
+import { validateHolidayCapacity } from '@/domain/rules/holidays/HolidayCapacity';
+import {
+  generatePublicHolidays,
+  getPublicHolidayCalendarLabel,
+  type GeneratedPublicHoliday
+} from '@/domain/rules/holidays/PublicHolidays';
+import { commandHistory, type HistoryRecordOptions } from './CommandHistoryOrchestrator';
 
 export interface HolidayFormData {
   title: string;
   startDate: Date;
   endDate: Date;
   notes: string;
+  // Partial day: at most one is set (see HolidayCapacity rules)
+  capacityFraction?: number;
+  availableHours?: number;
 }
 
 export interface HolidayValidationResult {
@@ -42,6 +55,27 @@ export interface HolidayModalResult {
   error?: string;
 }
 
+export interface PublicHolidaySelection {
+  countryCode: string;
+  regionCode?: string;
+}
+
+export interface PublicHolidayImportPlan {
+  toCreate: GeneratedPublicHoliday[];
+  skipped: { holiday: GeneratedPublicHoliday; conflictTitle: string }[];
+}
+
+export interface PublicHolidayImportResult {
+  success: boolean;
+  created: number;
+  skipped: number;
+  error?: string;
+}
+
+export interface PublicHolidaySyncResult extends PublicHolidayImportResult {
+  years: number[]; // Years this client claimed and imported
+}
+
 export class HolidayOrchestrator {
   private existingHolidays: Holiday[];
   private currentHolidayId?: string;
@@ -122,6 +156,8 @@ export class HolidayOrchestrator {
         startDate: formData.startDate,
         endDate: formData.endDate,
         notes: formData.notes,
+        capacityFraction: formData.capacityFraction,
+        availableHours: formData.availableHours,
         userId: '' // Will be set by addHoliday
       });
 
@@ -157,7 +193,9 @@ export class HolidayOrchestrator {
         title: validatedData.title,
         startDate: validatedData.startDate,
         endDate: validatedData.endDate,
-        notes: validatedData.notes
+        notes: validatedData.notes,
+        capacityFraction: validatedData.capacityFraction,
+        availableHours: validatedData.availableHours
       };
 
       addHoliday(holidayData);
@@ -203,12 +241,22 @@ export class HolidayOrchestrator {
         };
       }
 
-      // Update holiday data
+      const capacityErrors = validateHolidayCapacity(formData);
+      if (capacityErrors.length > 0) {
+        return {
+          success: false,
+          error: capacityErrors.join(', ')
+        };
+      }
+
+      // Update holiday data; capacity keys are always sent so a full day off clears them
       const holidayData = {
         title: formData.title.trim(),
         startDate: formData.startDate,
         endDate: formData.endDate,
-        notes: formData.notes.trim()
+        notes: formData.notes.trim(),
+        capacityFraction: formData.capacityFraction,
+        availableHours: formData.availableHours
       };
 
       updateHoliday(holidayId, holidayData);
@@ -223,6 +271,146 @@ export class HolidayOrchestrator {
     }
   }
 
+  /**
+   * Plans a public holiday import: generated holidays that overlap an existing
+   * holiday (Holiday.overlaps) are skipped, so a re-import adds nothing twice
+   */
+  planPublicHolidayImport(selection: PublicHolidaySelection, years: number[]): PublicHolidayImportPlan {
+    const toEntity = (title: string, startDate: Date, endDate: Date) =>
+      HolidayEntity.create({ title, startDate, endDate, userId: '' }).data;
+
+    const occupied = this.existingHolidays
+      .map(holiday => toEntity(holiday.title, holiday.startDate, holiday.endDate))
+      .filter((entity): entity is HolidayEntity => !!entity);
+    const plan: PublicHolidayImportPlan = { toCreate: [], skipped: [] };
+
+    years
+      .flatMap(year => generatePublicHolidays(selection.countryCode, selection.regionCode, year))
+      .forEach(holiday => {
+        const entity = toEntity(holiday.title, holiday.date, holiday.date);
+        if (!entity) return;
+        const conflict = occupied.find(existing => existing.overlaps(entity));
+        if (conflict) {
+          plan.skipped.push({ holiday, conflictTitle: conflict.title });
+          return;
+        }
+        occupied.push(entity);
+        plan.toCreate.push(holiday);
+      });
+
+    return plan;
+  }
+
+  /**
+   * Orchestrates public holiday import as one undoable action
+   * Plans against the holidays stored on the server too, so holidays another
+   * tab or device added since this one loaded are not created twice.
+   */
+  async importPublicHolidaysWorkflow(
+    selection: PublicHolidaySelection,
+    years: number[],
+    addHoliday: (holidayData: Omit<Holiday, 'id'>, options: HistoryRecordOptions) => Promise<unknown>
+  ): Promise<PublicHolidayImportResult> {
+    const notes = `Public holiday · ${getPublicHolidayCalendarLabel(selection.countryCode, selection.regionCode)}`;
+    let plan: PublicHolidayImportPlan = { toCreate: [], skipped: [] };
+    let created = 0;
+
+    try {
+      const stored = await this.fetchStoredHolidays(years);
+      plan = new HolidayOrchestrator([...this.existingHolidays, ...stored]).planPublicHolidayImport(selection, years);
+
+      await commandHistory.transaction('Import public holidays', async transaction => {
+        for (const holiday of plan.toCreate) {
+          await addHoliday({ title: holiday.title, startDate: holiday.date, endDate: holiday.date, notes }, { transaction });
+          created++;
+        }
+      });
+
+      return { success: true, created, skipped: plan.skipped.length };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'HolidayOrchestrator', action: 'HolidayOrchestrator: Failed to import public holidays:' });
+      return {
+        success: false,
+        created,
+        skipped: plan.skipped.length,
+        error: 'Failed to import public holidays. Please try again.'
+      };
+    } finally {
+      // Other useHolidays instances reload the imported holidays
+      if (created > 0) window.dispatchEvent(new CustomEvent('holidaysUpdated'));
+    }
+  }
+
+  /**
+   * Imports the due years of the calendar kept up to date
+   *
+   * Each year is claimed on the server first (mark_public_holiday_years), so
+   * when several tabs or devices sync at once only one of them imports it. A
+   * failed import gives its years back for the next attempt.
+   */
+  async syncPublicHolidayCalendarWorkflow(
+    calendar: PublicHolidaySelection,
+    years: number[],
+    addHoliday: (holidayData: Omit<Holiday, 'id'>, options: HistoryRecordOptions) => Promise<unknown>
+  ): Promise<PublicHolidaySyncResult> {
+    try {
+      const { data: claimed, error } = await supabase.rpc('mark_public_holiday_years', { years, imported: true });
+      if (error) throw error;
+      if (!claimed?.length) return { success: true, created: 0, skipped: 0, years: [] };
+      // Settings reload with the claimed years
+      window.dispatchEvent(new CustomEvent('settingsUpdated'));
+
+      const result = await this.importPublicHolidaysWorkflow(calendar, claimed, addHoliday);
+      if (!result.success) {
+        const { error: releaseError } = await supabase.rpc('mark_public_holiday_years', { years: claimed, imported: false });
+        if (releaseError) throw releaseError;
+        window.dispatchEvent(new CustomEvent('settingsUpdated'));
+      }
+      return { ...result, years: claimed };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'HolidayOrchestrator', action: 'HolidayOrchestrator: Failed to sync public holidays:' });
+      return { success: false, created: 0, skipped: 0, years: [], error: 'Failed to update public holidays.' };
+    }
+  }
+
+  /**
+   * Stores the public holiday calendar the yearly sync keeps up to date
+   * with the user's settings (null stops the sync)
+   */
+  async savePublicHolidayCalendarWorkflow(calendar: PublicHolidayCalendarSetting | null): Promise<boolean> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('settings')
+        .update({ public_holiday_calendar: calendar as unknown as Json })
+        .eq('user_id', user.id);
+      if (error) throw error;
+
+      window.dispatchEvent(new CustomEvent('settingsUpdated'));
+      return true;
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'HolidayOrchestrator', action: 'HolidayOrchestrator: Failed to save the public holiday calendar:' });
+      return false;
+    }
+  }
+
+  /**
+   * Holidays stored on the server that may overlap the given years
+   */
+  private async fetchStoredHolidays(years: number[]): Promise<Holiday[]> {
+    if (years.length === 0) return [];
+    // Stored dates are instants: widen by a day on each side for time zones
+    const { data, error } = await supabase
+      .from('holidays')
+      .select('*')
+      .gte('end_date', `${Math.min(...years) - 1}-12-31`)
+      .lte('start_date', `${Math.max(...years) + 1}-01-01`);
+    if (error) throw error;
+    return (data || []).map(HolidayMapper.fromDatabase);
+  }
+
   /**
    * Finds holidays that overlap with the given date range
    */
@@ -0,0 +1,529 @@
+/**
+ * Offline Sync Orchestrator
+ *
+ * Keeps projects, phases, events, holidays and settings usable without a
+ * connection (the installed PWA on a train).
+ *
+ * ✅ Reads go through the local store: rows are cached after every fetch and
+ *    served from the cache when offline or when the fetch fails on the network
+ * ✅ Mutations made offline are applied to the cache and queued in the outbox;
+ *    every tab shares the one outbox store and replays it one tab at a time
+ * ✅ On reconnect the outbox replays to Supabase in the order the changes were
+ *    made; a server row edited after the local change wins (updated_at,
+ *    see OfflineOutbox)
+ * ✅ A change the server rejects stays in the outbox marked as failed (shown
+ *    in the PWA settings) until it is retried or discarded
+ * ✅ After a replay, views refetch through the refresh events the data hooks
+ *    already listen to (holidaysUpdated, ...)
+ */
+
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { createLocalStore, type LocalStore } from '@/infrastructure/offline';
+import {
+  applyOutbox,
+  applyOutboxEntry,
+  clearOutboxFailure,
+  getFailedOutbox,
+  isOutboxEntryHeld,
+  markOutboxEntryFailed,
+  queueOutboxEntry,
+  resolveOutboxConflict,
+  sortOutbox,
+  type OfflineRow,
+  type OfflineTable,
+  type OutboxEntry,
+  type OutboxOperation
+} from '@/domain/rules/offline/OfflineOutbox';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OfflineSyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number; // Changes waiting in the outbox
+  failedChanges: OutboxEntry[]; // Changes the server rejected, kept until retried or discarded
+  lastSyncedAt: Date | null;
+}
+
+export interface OfflineSyncResult {
+  success: boolean;
+  syncedCount: number; // Changes written to the server
+  discardedCount: number; // Changes dropped because the server row was newer or gone
+  failedCount: number; // Changes the server rejected (kept in the outbox)
+  errors: string[];
+  duration: number;
+}
+
+export interface OfflineReadOptions<T> {
+  scope?: (row: T) => boolean; // Rows the fetch covers (e.g. one project's phases); default all
+  orderBy?: string; // Column to sort cached rows by (ascending)
+}
+
+export interface OfflineSyncOptions {
+  store?: LocalStore;
+  isOnline?: () => boolean;
+  onSynced?: (tables: OfflineTable[]) => void;
+  runExclusive?: <T>(work: () => Promise<T>) => Promise<T>; // Serialises replays across tabs
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// Refresh events listened to by the data hooks / contexts
+const REFRESH_EVENTS: Record<OfflineTable, string> = {
+  projects: 'projectsUpdated',
+  phases: 'phasesUpdated',
+  holidays: 'holidaysUpdated',
+  calendar_events: 'eventsUpdated',
+  settings: 'settingsUpdated'
+};
+
+const dispatchRefreshEvents = (tables: OfflineTable[]): void => {
+  if (typeof window === 'undefined') return;
+  new Set(tables.map(table => REFRESH_EVENTS[table])).forEach(eventName => {
+    window.dispatchEvent(new CustomEvent(eventName, { detail: { source: 'offline-sync' } }));
+  });
+};
+
+const browserIsOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+const REPLAY_LOCK_NAME = 'offline-outbox-replay';
+
+/**
+ * Run work while holding the replay lock shared by every tab (Web Locks API);
+ * without the API (older browsers, tests) the work runs straight away
+ */
+const runWithReplayLock = <T>(work: () => Promise<T>): Promise<T> =>
+  typeof navigator !== 'undefined' && navigator.locks
+    ? navigator.locks.request(REPLAY_LOCK_NAME, work)
+    : work();
+
+/**
+ * True when a request failed because the server could not be reached
+ * (supabase-js reports fetch failures as errors with the TypeError message)
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TypeError) return true;
+  const message = error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+const errorMessage = (error: unknown): string =>
+  error && typeof error === 'object' && 'message' in error ? String(error.message) : String(error);
+
+const sortRows = <T extends OfflineRow>(rows: T[], orderBy?: string): T[] =>
+  orderBy ? [...rows].sort((a, b) => String(a[orderBy] ?? '').localeCompare(String(b[orderBy] ?? ''))) : rows;
+
+// Offline tables are addressed dynamically; payloads are rows / columns of that table
+const fromTable = (table: OfflineTable) => supabase.from(table as 'projects');
+
+// ============================================================================
+// OFFLINE SYNC
+// ============================================================================
+
+export class OfflineSync {
+  private queue: OutboxEntry[] = [];
+  private loaded: Promise<void> | null = null;
+  private nextSequence = 1;
+  private syncing: Promise<OfflineSyncResult> | null = null;
+  private lastSyncedAt: Date | null = null;
+  private listeners = new Set<() => void>();
+  private state: OfflineSyncState;
+  private readonly store: LocalStore;
+  private readonly checkOnline: () => boolean;
+  private readonly onSynced: (tables: OfflineTable[]) => void;
+  private readonly runExclusive: <T>(work: () => Promise<T>) => Promise<T>;
+
+  constructor(options: OfflineSyncOptions = {}) {
+    this.store = options.store ?? createLocalStore();
+    this.checkOnline = options.isOnline ?? browserIsOnline;
+    this.onSynced = options.onSynced ?? dispatchRefreshEvents;
+    this.runExclusive = options.runExclusive ?? runWithReplayLock;
+    this.state = { isOnline: this.checkOnline(), isSyncing: false, pendingCount: 0, failedChanges: [], lastSyncedAt: null };
+  }
+
+  isOnline(): boolean {
+    return this.checkOnline();
+  }
+
+  /**
+   * Signed-in user id; offline it comes from the stored session, which needs no request
+   */
+  async getUserId(): Promise<string | null> {
+    if (this.isOnline()) {
+      const { data: { user }, error } = await supabase.auth.getUser();
+      if (!error || !isNetworkError(error)) return user?.id ?? null;
+    }
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Reads
+  // --------------------------------------------------------------------------
+
+  /**
+   * Fetch rows from the server and cache them; fall back to the cached rows
+   * when offline or when the server cannot be reached
+   *
+   * Queued changes are applied on top of fetched rows until they have synced.
+   */
+  async readThrough<T extends OfflineRow>(
+    table: OfflineTable,
+    fetchRemote: () => Promise<T[]>,
+    options: OfflineReadOptions<T> = {}
+  ): Promise<T[]> {
+    if (this.isOnline()) {
+      try {
+        return await this.cacheRows(table, await fetchRemote(), options);
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        ErrorHandlingService.warn(`Server unreachable, reading ${table} from the offline copy`, {
+          source: 'OfflineSyncOrchestrator'
+        });
+      }
+    }
+    return this.read(table, options);
+  }
+
+  /**
+   * Cached rows of a table, including changes not yet synced
+   */
+  async read<T extends OfflineRow>(table: OfflineTable, options: OfflineReadOptions<T> = {}): Promise<T[]> {
+    const rows = await this.store.getAll<T>(table);
+    return sortRows(options.scope ? rows.filter(options.scope) : rows, options.orderBy);
+  }
+
+  /**
+   * Replace cached rows with fetched ones, keeping queued changes on top
+   */
+  async cacheRows<T extends OfflineRow>(
+    table: OfflineTable,
+    rows: T[],
+    options: OfflineReadOptions<T> = {}
+  ): Promise<T[]> {
+    await this.loadOutbox();
+    const merged = applyOutbox(rows, this.queue, table);
+    const scoped = options.scope ? merged.filter(options.scope) : merged;
+
+    try {
+      await this.store.replaceAll(table, scoped, options.scope);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'OfflineSyncOrchestrator', action: `Failed to cache ${table}:` });
+    }
+    return sortRows(scoped, options.orderBy);
+  }
+
+  // --------------------------------------------------------------------------
+  // Offline mutations
+  // --------------------------------------------------------------------------
+
+  /**
+   * Create a row locally and queue its insert
+   * @returns The new row (client-generated id and timestamps)
+   */
+  async queueInsert<T extends OfflineRow>(table: OfflineTable, values: Record<string, unknown>): Promise<T> {
+    const now = new Date().toISOString();
+    const row = { id: crypto.randomUUID(), created_at: now, ...values, updated_at: now } as unknown as T;
+    await this.enqueue(table, 'insert', row.id, row, now);
+    return row;
+  }
+
+  /**
+   * Change a cached row and queue the update
+   * @returns The updated row, or null when the row is not cached
+   */
+  queueUpdate<T extends OfflineRow>(table: OfflineTable, id: string, changes: Record<string, unknown>): Promise<T | null> {
+    return this.enqueue<T>(table, 'update', id, changes, new Date().toISOString());
+  }
+
+  /**
+   * Remove a cached row and queue the delete
+   * @returns The removed row, or null when the row was not cached
+   */
+  async queueDelete<T extends OfflineRow>(table: OfflineTable, id: string): Promise<T | null> {
+    const removed = await this.store.get<T>(table, id);
+    await this.enqueue(table, 'delete', id, {}, new Date().toISOString());
+    return removed;
+  }
+
+  private async enqueue<T extends OfflineRow>(
+    table: OfflineTable,
+    operation: OutboxOperation,
+    rowId: string,
+    payload: Record<string, unknown>,
+    changedAt: string
+  ): Promise<T | null> {
+    // Another tab may have queued changes since this one last read the outbox
+    await this.reloadOutbox();
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      sequence: this.nextSequence++,
+      table,
+      operation,
+      rowId,
+      payload,
+      changedAt
+    };
+
+    const cached = await this.store.get<T>(table, rowId);
+    const [next] = applyOutboxEntry(cached ? [cached] : [], entry);
+    if (next) {
+      await this.store.put(table, next);
+    } else {
+      await this.store.delete(table, rowId);
+    }
+
+    // Write only the entries this change added, merged or dropped
+    const previous = this.queue;
+    this.queue = queueOutboxEntry(previous, entry);
+    for (const queued of this.queue) {
+      if (!previous.includes(queued)) await this.store.put('outbox', queued);
+    }
+    for (const queued of previous) {
+      if (!this.queue.some(kept => kept.id === queued.id)) await this.store.delete('outbox', queued.id);
+    }
+    this.notify();
+    return next ?? null;
+  }
+
+  // --------------------------------------------------------------------------
+  // Replay
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replay the outbox to Supabase (concurrent calls share one replay; a replay
+   * started in another tab finishes first)
+   */
+  sync(): Promise<OfflineSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runExclusive(() => this.replay()).finally(() => {
+        this.syncing = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.syncing;
+  }
+
+  private async replay(): Promise<OfflineSyncResult> {
+    const startedAt = Date.now();
+    // Entries another tab already replayed are gone from the store by now
+    await this.reloadOutbox();
+
+    const result: OfflineSyncResult = {
+      success: true,
+      syncedCount: 0,
+      discardedCount: 0,
+      failedCount: 0,
+      errors: [],
+      duration: 0
+    };
+    if (this.queue.length > 0 && !this.isOnline()) {
+      return { ...result, success: false, errors: ['No connection - changes will sync when you are back online'] };
+    }
+
+    const touched = new Set<OfflineTable>();
+    for (const entry of sortOutbox(this.queue)) {
+      if (isOutboxEntryHeld(this.queue, entry)) continue;
+      try {
+        const { data: remote, error } = await fromTable(entry.table).select('*').eq('id', entry.rowId).maybeSingle();
+        if (error) throw error;
+
+        const resolution = resolveOutboxConflict(entry, remote as OfflineRow | null);
+        if (resolution.action === 'apply') {
+          await this.write(entry);
+          result.syncedCount++;
+        } else {
+          // The server copy wins: bring the cache back in line with it
+          if (remote) {
+            await this.store.put(entry.table, remote as OfflineRow);
+          } else {
+            await this.store.delete(entry.table, entry.rowId);
+          }
+          result.discardedCount++;
+        }
+      } catch (error) {
+        result.errors.push(errorMessage(error));
+        // Unreachable server: stop and keep this and later changes for the next attempt
+        if (isNetworkError(error)) break;
+        ErrorHandlingService.handle(error, {
+          source: 'OfflineSyncOrchestrator',
+          action: `Offline ${entry.operation} on ${entry.table} was rejected:`
+        });
+        // Rejected: keep it (and later changes to the row) for the user to retry or discard
+        await this.updateOutboxEntry(markOutboxEntryFailed(entry, errorMessage(error), new Date().toISOString()));
+        result.failedCount++;
+        continue;
+      }
+
+      touched.add(entry.table);
+      await this.removeFromOutbox(entry.id);
+    }
+
+    result.success = result.errors.length === 0;
+    if (result.success) this.lastSyncedAt = new Date();
+    if (touched.size > 0) this.onSynced(Array.from(touched));
+    return { ...result, duration: Date.now() - startedAt };
+  }
+
+  /**
+   * Write one queued change and cache the row the server returns
+   */
+  private async write(entry: OutboxEntry): Promise<void> {
+    if (entry.operation === 'delete') {
+      const { error } = await fromTable(entry.table).delete().eq('id', entry.rowId);
+      if (error) throw error;
+      return;
+    }
+
+    const query = entry.operation === 'insert'
+      ? fromTable(entry.table).upsert(entry.payload as never)
+      : fromTable(entry.table).update(entry.payload as never).eq('id', entry.rowId);
+    const { data, error } = await query.select().single();
+    if (error) throw error;
+
+    // Keep joined data the cached row had (e.g. a project's client)
+    const cached = await this.store.get<OfflineRow>(entry.table, entry.rowId);
+    await this.store.put(entry.table, { ...cached, ...(data as OfflineRow) });
+  }
+
+  // --------------------------------------------------------------------------
+  // Failed changes
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replay the changes the server rejected once more
+   */
+  async retryFailed(): Promise<OfflineSyncResult> {
+    await this.reloadOutbox();
+    for (const entry of getFailedOutbox(this.queue)) {
+      await this.updateOutboxEntry(clearOutboxFailure(entry));
+    }
+    return this.sync();
+  }
+
+  /**
+   * Drop a rejected change; the row's cached copy is refetched from the server
+   */
+  async discardFailed(entryId: string): Promise<void> {
+    await this.reloadOutbox();
+    const entry = this.queue.find(queued => queued.id === entryId);
+    if (!entry?.failedAt) return;
+    await this.removeFromOutbox(entry.id);
+    this.onSynced([entry.table]);
+  }
+
+  private async updateOutboxEntry(entry: OutboxEntry): Promise<void> {
+    this.queue = this.queue.map(queued => (queued.id === entry.id ? entry : queued));
+    await this.store.put('outbox', entry);
+    this.notify();
+  }
+
+  private async removeFromOutbox(entryId: string): Promise<void> {
+    this.queue = this.queue.filter(entry => entry.id !== entryId);
+    await this.store.delete('outbox', entryId);
+    this.notify();
+  }
+
+  private loadOutbox(): Promise<void> {
+    if (!this.loaded) this.loaded = this.readOutbox();
+    return this.loaded;
+  }
+
+  /**
+   * Read the outbox store again, picking up changes other tabs wrote to it
+   */
+  private reloadOutbox(): Promise<void> {
+    this.loaded = this.readOutbox();
+    return this.loaded;
+  }
+
+  private readOutbox(): Promise<void> {
+    return this.store.getAll<OutboxEntry>('outbox')
+      .then(entries => {
+        this.queue = sortOutbox(entries);
+        this.nextSequence = Math.max(this.nextSequence - 1, ...entries.map(entry => entry.sequence)) + 1;
+        this.notify();
+      })
+      .catch(error => {
+        ErrorHandlingService.handle(error, { source: 'OfflineSyncOrchestrator', action: 'Failed to load the outbox:' });
+      });
+  }
+
+  // --------------------------------------------------------------------------
+  // Lifecycle & state
+  // --------------------------------------------------------------------------
+
+  /**
+   * Follow the connection: replay the outbox on reconnect (and now, when
+   * changes from an earlier session are waiting)
+   * @returns Cleanup that stops listening
+   */
+  start(): () => void {
+    const handleOnline = () => {
+      this.notify();
+      void this.sync();
+    };
+    const handleOffline = () => this.notify();
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    void this.loadOutbox().then(() => {
+      if (this.queue.length > 0 && this.isOnline()) void this.sync();
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }
+
+  /**
+   * Forget every cached row and queued change (sign out)
+   */
+  async clear(): Promise<void> {
+    await this.store.clear();
+    this.queue = [];
+    this.lastSyncedAt = null;
+    this.notify();
+  }
+
+  /**
+   * Immutable snapshot of the sync state (stable between changes)
+   */
+  getState(): OfflineSyncState {
+    return this.state;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.state = {
+      isOnline: this.isOnline(),
+      isSyncing: this.syncing !== null,
+      pendingCount: this.queue.filter(entry => !entry.failedAt).length,
+      failedChanges: getFailedOutbox(this.queue),
+      lastSyncedAt: this.lastSyncedAt
+    };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// ============================================================================
+// INSTANCES
+// ============================================================================
+
+export const createOfflineSync = (options?: OfflineSyncOptions) => new OfflineSync(options);
+
+// Shared offline store used by all data hooks
+export const offlineSync = createOfflineSync();
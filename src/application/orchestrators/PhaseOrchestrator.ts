@@ -13,6 +13,8 @@
 import { Project, PhaseDTO, RecurringConfig } from '@/shared/types/core';
 import { supabase } from '@/infrastructure/database/client';
 import { ProjectOrchestrator } from './ProjectOrchestrator';
+import { recordSnapshot, snapshotRows } from './CommandHistoryOrchestrator';
+import { DependencyOrchestrator } from './DependencyOrchestrator';
 import { calculateDurationDays, addDaysToDate } from '@/presentation/utils/dateCalculations';
 import { RecurringPhaseConfig as DomainRecurringPhaseConfig } from '@/domain/rules/phases/PhaseRecurrence';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
@@ -352,6 +354,10 @@ export class PhaseOrchestrator {
 
       if (error) throw error;
 
+      recordSnapshot(`Add recurring phase "${insertedMilestone.name}"`, [
+        { table: 'phases', before: [], after: [insertedMilestone] }
+      ]);
+
       // Calculate estimated total occurrences for display
       const projectDurationMs = project.continuous ? 
         365 * 24 * 60 * 60 * 1000 : // 1 year for continuous
@@ -525,6 +531,10 @@ export class PhaseOrchestrator {
 
       if (error) throw error;
 
+      recordSnapshot('Split project into phases', [
+        { table: 'phases', before: [], after: phases }
+      ]);
+
       // Coordinate post-insertion actions
       await this.coordinatePostInsertActions(projectId, 2, options);
 
@@ -605,12 +615,22 @@ export class PhaseOrchestrator {
     options: PhaseOrchestrationOptions
   ): Promise<void> {
     try {
+      const [before, dependencies] = await Promise.all([
+        snapshotRows('phases', 'id', [phaseId]),
+        DependencyOrchestrator.snapshotItemDependencies([phaseId])
+      ]);
+
       const { error } = await supabase
         .from('phases')
         .delete()
         .eq('id', phaseId);
 
       if (error) throw error;
+
+      recordSnapshot(`Delete phase "${before[0]?.name ?? 'phase'}"`, [
+        { table: 'phases', before, after: [] },
+        { table: 'dependencies', before: dependencies, after: [] }
+      ]);
     } catch (error) {
       if (!options.silent) {
         ErrorHandlingService.handle(error, { source: 'PhaseOrchestrator', action: 'Error deleting phase:' });
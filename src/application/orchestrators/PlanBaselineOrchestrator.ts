@@ -0,0 +1,157 @@
+/**
+ * Plan Baseline Orchestrator
+ *
+ * Coordinates named plan baselines:
+ * - Saving a snapshot of the plan under a unique name (validated by PlanBaseline rules)
+ * - Renaming and removing baselines
+ *
+ * Snapshots are captured by PlanBaselineAggregate and never edited afterwards.
+ * Every mutation is recorded on the command history and announced with the
+ * 'baselinesUpdated' window event.
+ *
+ * @module PlanBaselineOrchestrator
+ */
+
+import type { PlanBaseline, PlanBaselineSnapshot } from '@/shared/types/core';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { PlanBaselineMapper } from '@/infrastructure/mappers/PlanBaselineMapper';
+import { validatePlanBaselineName } from '@/domain/rules/baselines/PlanBaseline';
+import { recordSnapshot, snapshotRows } from './CommandHistoryOrchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlanBaselineWorkflowResult {
+  success: boolean;
+  baseline?: PlanBaseline;
+  errors?: string[];
+}
+
+const notifyChanged = () => {
+  window.dispatchEvent(new CustomEvent('baselinesUpdated'));
+};
+
+const failure = (error: unknown, fallback: string): PlanBaselineWorkflowResult => ({
+  success: false,
+  errors: [error instanceof Error ? error.message : fallback]
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+export class PlanBaselineOrchestrator {
+  /**
+   * Get all baselines for current user (newest first)
+   */
+  static async getBaselines(): Promise<PlanBaseline[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('plan_baselines')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      ErrorHandlingService.handle(error, { source: 'PlanBaselineOrchestrator', action: 'getBaselines' });
+      throw error;
+    }
+    return (data || []).map(PlanBaselineMapper.fromDatabase);
+  }
+
+  /**
+   * Save the captured plan as a named baseline
+   */
+  static async createBaselineWorkflow(
+    name: string,
+    snapshot: PlanBaselineSnapshot,
+    existing: PlanBaseline[]
+  ): Promise<PlanBaselineWorkflowResult> {
+    const validation = validatePlanBaselineName(name, existing);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, errors: ['User not authenticated'] };
+      }
+
+      const { data, error } = await supabase
+        .from('plan_baselines')
+        .insert(PlanBaselineMapper.toDatabase({ name: name.trim(), snapshot, userId: user.id }))
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot(`Save baseline "${name.trim()}"`, [{ table: 'plan_baselines', before: [], after: [data] }]);
+      notifyChanged();
+      return { success: true, baseline: PlanBaselineMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'PlanBaselineOrchestrator', action: 'createBaselineWorkflow' });
+      return failure(error, 'Failed to save baseline');
+    }
+  }
+
+  /**
+   * Rename a baseline (its snapshot stays frozen)
+   */
+  static async renameBaselineWorkflow(
+    baseline: PlanBaseline,
+    name: string,
+    existing: PlanBaseline[]
+  ): Promise<PlanBaselineWorkflowResult> {
+    const validation = validatePlanBaselineName(name, existing, baseline.id);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const before = await snapshotRows('plan_baselines', 'id', [baseline.id]);
+
+      const { data, error } = await supabase
+        .from('plan_baselines')
+        .update(PlanBaselineMapper.toUpdatePayload({ name: name.trim() }))
+        .eq('id', baseline.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot('Rename baseline', [{ table: 'plan_baselines', before, after: [data] }]);
+      notifyChanged();
+      return { success: true, baseline: PlanBaselineMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'PlanBaselineOrchestrator', action: 'renameBaselineWorkflow' });
+      return failure(error, 'Failed to rename baseline');
+    }
+  }
+
+  /**
+   * Remove a baseline
+   */
+  static async deleteBaselineWorkflow(baseline: PlanBaseline): Promise<PlanBaselineWorkflowResult> {
+    try {
+      const { data, error } = await supabase
+        .from('plan_baselines')
+        .delete()
+        .eq('id', baseline.id)
+        .select();
+
+      if (error) throw error;
+
+      recordSnapshot(`Remove baseline "${baseline.name}"`, [{ table: 'plan_baselines', before: data || [], after: [] }]);
+      notifyChanged();
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'PlanBaselineOrchestrator', action: 'deleteBaselineWorkflow' });
+      return failure(error, 'Failed to remove baseline');
+    }
+  }
+}
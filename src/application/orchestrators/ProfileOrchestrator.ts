@@ -12,6 +12,8 @@
 
 import { supabase } from '@/infrastructure/database/client';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import type { BackupArchive } from '@/domain/rules/backup/BackupArchive';
+import { DataBackupOrchestrator } from './DataBackupOrchestrator';
 
 export interface Profile {
   user_id?: string;
@@ -38,14 +40,6 @@ export interface UpdateEmailInput {
   newEmail: string;
 }
 
-export interface ExportDataResult {
-  profile: Profile | null;
-  projects: unknown[];
-  calendarEvents: unknown[];
-  settings: unknown;
-  exportDate: string;
-}
-
 export interface OperationResult {
   success: boolean;
   data?: unknown;
@@ -268,49 +262,14 @@ export class ProfileOrchestrator {
   }
 
   /**
-   * Export all user data (profile, projects, events, settings)
+   * Export all user data as a versioned backup archive
    * for data portability / GDPR compliance
+   *
+   * @see DataBackupOrchestrator.exportArchive - covers every user table
    */
-  static async exportUserData(
-    userId: string, 
-    profile: Profile | null,
-    settings: unknown
-  ): Promise<ExportDataResult | null> {
-    try {
-      // Fetch all user data from database
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('user_id', userId);
-
-      const { data: calendarEvents, error: eventsError } = await supabase
-        .from('calendar_events')
-        .select('*')
-        .eq('user_id', userId);
-
-      if (projectsError || eventsError) {
-        ErrorHandlingService.handle(
-          projectsError || eventsError, 
-          { source: 'ProfileOrchestrator', action: 'exportUserData' }
-        );
-        return null;
-      }
-
-      // Create export object
-      return {
-        profile,
-        projects: projects || [],
-        calendarEvents: calendarEvents || [],
-        settings,
-        exportDate: new Date().toISOString()
-      };
-    } catch (error) {
-      ErrorHandlingService.handle(error, { 
-        source: 'ProfileOrchestrator', 
-        action: 'exportUserData' 
-      });
-      return null;
-    }
+  static async exportUserData(): Promise<BackupArchive | null> {
+    const result = await DataBackupOrchestrator.exportArchive();
+    return result.archive ?? null;
   }
 
   /**
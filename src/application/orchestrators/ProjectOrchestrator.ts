@@ -13,15 +13,20 @@
  * 
  * @module ProjectOrchestrator
  */
-import { Project, PhaseDTO, ClientStatus } from '@/shared/types/core';
+import { Project, PhaseDTO, ClientStatus, BillingRate } from '@/shared/types/core';
 import { ProjectRules } from '@/domain/rules/projects/ProjectValidation';
 import { PhaseRules } from '@/domain/rules/phases/PhaseRules';
+import { validateBillingRate } from '@/domain/rules/projects/ProjectRevenue';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
 import { calculateBudgetAdjustment } from '@/domain/rules/phases/PhaseCalculations';;
 import { Project as ProjectEntity } from '@/domain/entities/Project';
 import { Client as ClientEntity } from '@/domain/entities/Client';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import { supabase } from '@/infrastructure/database/client';
+import { recordSnapshot, snapshotRows, type HistoryRecordOptions } from './CommandHistoryOrchestrator';
+import { isNetworkError, offlineSync } from './OfflineSyncOrchestrator';
+import { DependencyOrchestrator } from './DependencyOrchestrator';
+import { BillingRateMapper } from '@/infrastructure/mappers/BillingRateMapper';
 import { normalizeProjectColor } from '@/presentation/utils/normalizeProjectColor';
 export interface ProjectBudgetAnalysis {
   totalAllocation: number;
@@ -111,6 +116,8 @@ type DatabaseProjectRow = {
   icon?: string | null;
   continuous?: boolean | null;
   working_day_overrides?: unknown;
+  rate_type?: string | null;
+  rate_amount?: number | null;
   user_id?: string | null;
   created_at?: string | null;
   updated_at?: string | null;
@@ -122,6 +129,9 @@ type DatabaseProjectRow = {
     contact_phone?: string | null;
     billing_address?: string | null;
     notes?: string | null;
+    currency?: string;
+    rate_type?: string | null;
+    rate_amount?: number | null;
     created_at?: string | null;
     updated_at?: string | null;
   } | null;
@@ -141,6 +151,8 @@ type DatabaseProjectPayload = Partial<{
   icon?: string;
   continuous?: boolean;
   working_day_overrides?: Project['autoEstimateDays'];
+  rate_type: string | null;
+  rate_amount: number | null;
 }>;
 export interface ProjectUpdateRequest {
   id: string;
@@ -153,6 +165,7 @@ export interface ProjectUpdateRequest {
   color?: string;
   notes?: string;
   icon?: string;
+  billingRate?: BillingRate;
 }
 /**
  * Project Orchestrator
@@ -295,6 +308,8 @@ export class ProjectOrchestrator {
         errors.push(`${incompatiblePhases.length} phase(s) would fall outside the updated project timeframe`);
       }
     }
+    // Validate billing rate override
+    errors.push(...validateBillingRate(request.billingRate));
     // Validate budget changes using domain rules
     if (request.estimatedHours !== undefined) {
       const budgetCheck = PhaseRules.checkBudgetConstraint(currentMilestones, updatedProject.estimatedHours);
@@ -715,41 +730,51 @@ export class ProjectOrchestrator {
    */
   static async getAllProjects(): Promise<Project[]> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        return [];
-      }
+      // Served from the offline copy (client data included) when there is no connection
+      const data = await offlineSync.readThrough('projects', async () => {
+        const { data: { user }, error: authError } = await supabase.auth.getUser();
+        // Unreachable auth server: keep the offline copy rather than caching no projects
+        if (authError && isNetworkError(authError)) throw authError;
+        if (!user) {
+          return [];
+        }
 
-      // Fetch projects with client data joined
-      const { data, error } = await supabase
-        .from('projects')
-        .select(`
-          *,
-          clients (
-            id,
-            name,
-            status,
-            contact_email,
-            contact_phone,
-            billing_address,
-            notes,
-            created_at,
-            updated_at
-          )
-        `)
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: true });
+        // Fetch projects with client data joined
+        const { data, error } = await supabase
+          .from('projects')
+          .select(`
+            *,
+            clients (
+              id,
+              name,
+              status,
+              contact_email,
+              contact_phone,
+              billing_address,
+              notes,
+              currency,
+              rate_type,
+              rate_amount,
+              created_at,
+              updated_at
+            )
+          `)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: true });
 
-      if (error) {
-        ErrorHandlingService.handle(error, { 
-          source: 'ProjectOrchestrator', 
-          action: 'getAllProjects' 
-        });
-        throw error;
-      }
+        if (error) {
+          ErrorHandlingService.handle(error, { 
+            source: 'ProjectOrchestrator', 
+            action: 'getAllProjects' 
+          });
+          throw error;
+        }
+
+        return data || [];
+      }, { orderBy: 'created_at' });
 
       // Transform database projects to frontend format
-      return (data || []).map((dbProject) => {
+      return data.map((dbProject) => {
         const transformed = this.transformDatabaseProject(dbProject);
         
         // Add client data if available
@@ -762,6 +787,9 @@ export class ProjectOrchestrator {
             contact_phone: string | null;
             billing_address: string | null;
             notes: string | null;
+            currency: string;
+            rate_type: string | null;
+            rate_amount: number | null;
             user_id: string;
             created_at: string;
             updated_at: string;
@@ -791,7 +819,7 @@ export class ProjectOrchestrator {
     updates: Partial<Project>,
     currentProject: Project,
     currentMilestones: PhaseDTO[] = [],
-    options: { silent?: boolean } = {}
+    options: { silent?: boolean } & HistoryRecordOptions = {}
   ): Promise<{ success: boolean; project?: Project; errors?: string[]; warnings?: string[] }> {
     try {
       // Validate update
@@ -809,6 +837,19 @@ export class ProjectOrchestrator {
         };
       }
 
+      // Offline: queue the change; a new client needs the server to resolve it
+      if (!offlineSync.isOnline()) {
+        if (updates.client && updates.client !== currentProject.client) {
+          return { success: false, errors: ['Changing the client needs a connection'] };
+        }
+        const queued = await offlineSync.queueUpdate<DatabaseProjectRow>('projects', projectId, this.transformToDatabase(updates));
+        return {
+          success: true,
+          project: queued ? this.transformDatabaseProject(queued) : { ...currentProject, ...updates },
+          warnings: validation.warnings
+        };
+      }
+
       // If client is being updated, ensure the client exists in clients table
       let clientId = currentProject.clientId;
       if (updates.client && updates.client !== currentProject.client) {
@@ -827,6 +868,8 @@ export class ProjectOrchestrator {
         dbUpdates.client_id = clientId;
       }
 
+      const before = await snapshotRows('projects', 'id', [projectId]);
+
       const { data, error } = await supabase
         .from('projects')
         .update(dbUpdates)
@@ -842,6 +885,10 @@ export class ProjectOrchestrator {
         throw error;
       }
 
+      recordSnapshot(`Update project "${currentProject.name}"`, [
+        { table: 'projects', before, after: [data] }
+      ], options.transaction);
+
       // Transform the returned data to frontend format
       const transformedProject = this.transformDatabaseProject(data);
 
@@ -864,11 +911,27 @@ export class ProjectOrchestrator {
 
   /**
    * Delete project
+   * Records the cascade (phases, labels and tasks deleted, events unlinked) for undo
    */
   static async deleteProjectWorkflow(
     projectId: string
   ): Promise<{ success: boolean; errors?: string[] }> {
     try {
+      // Offline: queue the delete; the server removes phases, labels, tasks and dependencies on replay
+      if (!offlineSync.isOnline()) {
+        await offlineSync.queueDelete('projects', projectId);
+        return { success: true };
+      }
+
+      const [projects, phases, labels, events, tasks] = await Promise.all([
+        snapshotRows('projects', 'id', [projectId]),
+        snapshotRows('phases', 'project_id', [projectId]),
+        snapshotRows('project_labels', 'project_id', [projectId]),
+        snapshotRows('calendar_events', 'project_id', [projectId]),
+        snapshotRows('project_tasks', 'project_id', [projectId])
+      ]);
+      const dependencies = await DependencyOrchestrator.snapshotItemDependencies([projectId, ...phases.map(phase => String(phase.id))]);
+
       const { error } = await supabase
         .from('projects')
         .delete()
@@ -882,6 +945,16 @@ export class ProjectOrchestrator {
         throw error;
       }
 
+      // Listed parent first; events keep existing with their project link cleared
+      recordSnapshot(`Delete project "${projects[0]?.name ?? 'project'}"`, [
+        { table: 'projects', before: projects, after: [] },
+        { table: 'phases', before: phases, after: [] },
+        { table: 'project_labels', keys: ['project_id', 'label_id'], before: labels, after: [] },
+        { table: 'calendar_events', before: events, after: events.map(event => ({ ...event, project_id: null })) },
+        { table: 'project_tasks', before: tasks, after: [] },
+        { table: 'dependencies', before: dependencies, after: [] }
+      ]);
+
       return { success: true };
     } catch (error) {
       ErrorHandlingService.handle(error, { 
@@ -932,6 +1005,7 @@ export class ProjectOrchestrator {
           saturday: true,
           sunday: true,
         },
+      billingRate: BillingRateMapper.fromDatabase(dbProject.rate_type, dbProject.rate_amount),
       userId: dbProject.user_id || '',
       createdAt: dbProject.created_at ? new Date(dbProject.created_at) : new Date(),
       updatedAt: dbProject.updated_at ? new Date(dbProject.updated_at) : new Date()
@@ -983,6 +1057,7 @@ export class ProjectOrchestrator {
     if (projectData.icon !== undefined) dbData.icon = projectData.icon;
     if (projectData.continuous !== undefined) dbData.continuous = projectData.continuous;
     if (projectData.autoEstimateDays !== undefined) dbData.working_day_overrides = projectData.autoEstimateDays;
+    if ('billingRate' in projectData) Object.assign(dbData, BillingRateMapper.toDatabase(projectData.billingRate));
     
     return dbData;
   }
@@ -0,0 +1,165 @@
+/**
+ * Saved Filter Orchestrator
+ *
+ * Coordinates saved project filters:
+ * - Saving a client/label/status query under a unique name (validated by ProjectFilters rules)
+ * - Editing and removing saved filters
+ *
+ * Queries are normalized on read, so filters that mention deleted clients or
+ * labels, or were written by older versions, stay usable.
+ * Every mutation is recorded on the command history and announced with the
+ * 'savedFiltersUpdated' window event.
+ *
+ * @module SavedFilterOrchestrator
+ */
+
+import type { ProjectFilterQuery, SavedFilter } from '@/shared/types/core';
+import { supabase } from '@/infrastructure/database/client';
+import type { Database } from '@/infrastructure/database/types';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { SavedFilterMapper } from '@/infrastructure/mappers/SavedFilterMapper';
+import { normalizeProjectFilterQuery, validateSavedFilter } from '@/domain/rules/filters/ProjectFilters';
+import { recordSnapshot, snapshotRows } from './CommandHistoryOrchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SavedFilterWorkflowResult {
+  success: boolean;
+  filter?: SavedFilter;
+  errors?: string[];
+}
+
+const notifyChanged = () => {
+  window.dispatchEvent(new CustomEvent('savedFiltersUpdated'));
+};
+
+const failure = (error: unknown, fallback: string): SavedFilterWorkflowResult => ({
+  success: false,
+  errors: [error instanceof Error ? error.message : fallback]
+});
+
+const fromDatabase = (row: Database['public']['Tables']['saved_filters']['Row']): SavedFilter => {
+  const filter = SavedFilterMapper.fromDatabase(row);
+  return { ...filter, query: normalizeProjectFilterQuery(filter.query) };
+};
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+export class SavedFilterOrchestrator {
+  /**
+   * Get all saved filters for current user (by name)
+   */
+  static async getSavedFilters(): Promise<SavedFilter[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('saved_filters')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      ErrorHandlingService.handle(error, { source: 'SavedFilterOrchestrator', action: 'getSavedFilters' });
+      throw error;
+    }
+    return (data || []).map(fromDatabase);
+  }
+
+  /**
+   * Save a query under a new name
+   */
+  static async createSavedFilterWorkflow(
+    name: string,
+    query: ProjectFilterQuery,
+    existing: SavedFilter[]
+  ): Promise<SavedFilterWorkflowResult> {
+    const validation = validateSavedFilter(name, query, existing);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, errors: ['User not authenticated'] };
+      }
+
+      const { data, error } = await supabase
+        .from('saved_filters')
+        .insert(SavedFilterMapper.toDatabase({ name: name.trim(), query, userId: user.id }))
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot(`Save filter "${name.trim()}"`, [{ table: 'saved_filters', before: [], after: [data] }]);
+      notifyChanged();
+      return { success: true, filter: fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'SavedFilterOrchestrator', action: 'createSavedFilterWorkflow' });
+      return failure(error, 'Failed to save filter');
+    }
+  }
+
+  /**
+   * Change the name or query of a saved filter
+   */
+  static async updateSavedFilterWorkflow(
+    filter: SavedFilter,
+    name: string,
+    query: ProjectFilterQuery,
+    existing: SavedFilter[]
+  ): Promise<SavedFilterWorkflowResult> {
+    const validation = validateSavedFilter(name, query, existing, filter.id);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const before = await snapshotRows('saved_filters', 'id', [filter.id]);
+
+      const { data, error } = await supabase
+        .from('saved_filters')
+        .update(SavedFilterMapper.toUpdatePayload({ name: name.trim(), query }))
+        .eq('id', filter.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot(`Edit filter "${name.trim()}"`, [{ table: 'saved_filters', before, after: [data] }]);
+      notifyChanged();
+      return { success: true, filter: fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'SavedFilterOrchestrator', action: 'updateSavedFilterWorkflow' });
+      return failure(error, 'Failed to update filter');
+    }
+  }
+
+  /**
+   * Remove a saved filter
+   */
+  static async deleteSavedFilterWorkflow(filter: SavedFilter): Promise<SavedFilterWorkflowResult> {
+    try {
+      const { data, error } = await supabase
+        .from('saved_filters')
+        .delete()
+        .eq('id', filter.id)
+        .select();
+
+      if (error) throw error;
+
+      recordSnapshot(`Remove filter "${filter.name}"`, [{ table: 'saved_filters', before: data || [], after: [] }]);
+      notifyChanged();
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'SavedFilterOrchestrator', action: 'deleteSavedFilterWorkflow' });
+      return failure(error, 'Failed to remove filter');
+    }
+  }
+}
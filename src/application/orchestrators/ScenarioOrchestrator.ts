@@ -0,0 +1,187 @@
+/**
+ * Scenario Orchestrator
+ *
+ * Applies a what-if scenario to real data.
+ *
+ * ✅ Converts the scenario diff into one change set (inserts, updates, deletes)
+ * ✅ Resolves clients for hypothetical projects before writing
+ * ✅ Refuses to apply over changes made to reality since the scenario started
+ * ✅ Writes everything in a single database transaction (apply_scenario RPC),
+ *    so a failure leaves reality untouched
+ *
+ * @see src/domain/rules/scenarios/ScenarioSandbox.ts - scenario rules
+ */
+
+import { supabase } from '@/infrastructure/database/client';
+import type { Database, Json } from '@/infrastructure/database/types';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { ProjectMapper } from '@/infrastructure/mappers/ProjectMapper';
+import { PhaseMapper } from '@/infrastructure/mappers/PhaseMapper';
+import { HolidayMapper } from '@/infrastructure/mappers/HolidayMapper';
+import {
+  diffScenario,
+  findScenarioConflicts,
+  type Scenario,
+  type ScenarioDiff,
+  type ScenarioSnapshot
+} from '@/domain/rules/scenarios/ScenarioSandbox';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+import { ProjectOrchestrator } from './ProjectOrchestrator';
+
+type Tables = Database['public']['Tables'];
+
+interface ScenarioTableChanges<TInsert, TUpdate> {
+  insert: (TInsert & { id: string })[];
+  update: (TUpdate & { id: string })[];
+  delete: string[];
+}
+
+export interface ScenarioApplyPayload {
+  projects: ScenarioTableChanges<Tables['projects']['Insert'], Tables['projects']['Update']>;
+  phases: ScenarioTableChanges<Tables['phases']['Insert'], Tables['phases']['Update']>;
+  holidays: ScenarioTableChanges<Tables['holidays']['Insert'], Tables['holidays']['Update']>;
+  weekly_work_hours?: Json;
+}
+
+export interface ScenarioApplyResult {
+  success: boolean;
+  changeCount: number;
+  conflicts: string[];
+  error?: string;
+}
+
+export class ScenarioOrchestrator {
+  /**
+   * Convert a scenario diff into the apply_scenario change set
+   *
+   * Holiday and project dates are calendar days and are stored as local
+   * YYYY-MM-DD keys, matching how they are created elsewhere.
+   */
+  static buildApplyPayload(diff: ScenarioDiff, current: ScenarioSnapshot, userId: string): ScenarioApplyPayload {
+    const pick = <T extends object>(entity: T, fields: string[]): Partial<T> =>
+      Object.fromEntries(fields.map(field => [field, entity[field as keyof T]])) as Partial<T>;
+    const projectDates = <T extends { start_date?: string; end_date?: string }>(
+      row: T,
+      source: { startDate?: Date; endDate?: Date }
+    ): T => ({
+      ...row,
+      ...(row.start_date !== undefined && source.startDate && { start_date: getDateKey(new Date(source.startDate)) }),
+      ...(row.end_date !== undefined && source.endDate && { end_date: getDateKey(new Date(source.endDate)) })
+    });
+
+    const payload: ScenarioApplyPayload = {
+      projects: { insert: [], update: [], delete: [] },
+      phases: { insert: [], update: [], delete: [] },
+      holidays: { insert: [], update: [], delete: [] }
+    };
+
+    diff.projects.forEach(change => {
+      if (change.type === 'removed') {
+        payload.projects.delete.push(change.id);
+      } else if (change.type === 'added' && change.after) {
+        const row = ProjectMapper.toDatabase({ ...change.after, userId });
+        payload.projects.insert.push({ ...projectDates(row, change.after), id: change.id });
+      } else if (change.after) {
+        const updates = pick(change.after, change.fields);
+        const row = ProjectMapper.toUpdatePayload(updates);
+        payload.projects.update.push({ ...projectDates(row, updates), id: change.id });
+      }
+    });
+
+    // Phases of removed projects are deleted with their project
+    const removedProjectIds = new Set(payload.projects.delete);
+    diff.phases.forEach(change => {
+      if (change.type === 'removed') {
+        if (!removedProjectIds.has(change.before?.projectId ?? '')) {
+          payload.phases.delete.push(change.id);
+        }
+      } else if (change.type === 'added' && change.after) {
+        payload.phases.insert.push({ ...PhaseMapper.toDatabase({ ...change.after, userId }), id: change.id });
+      } else if (change.after) {
+        payload.phases.update.push({ ...PhaseMapper.toUpdatePayload(pick(change.after, change.fields)), id: change.id });
+      }
+    });
+
+    diff.holidays.forEach(change => {
+      if (change.type === 'removed') {
+        payload.holidays.delete.push(change.id);
+      } else if (change.type === 'added' && change.after) {
+        payload.holidays.insert.push({
+          ...HolidayMapper.toDatabase({ ...change.after, userId }),
+          start_date: getDateKey(new Date(change.after.startDate)),
+          end_date: getDateKey(new Date(change.after.endDate)),
+          id: change.id
+        });
+      } else if (change.after) {
+        const row = HolidayMapper.toUpdatePayload(pick(change.after, change.fields));
+        payload.holidays.update.push({
+          ...row,
+          ...(row.start_date !== undefined && { start_date: getDateKey(new Date(change.after.startDate)) }),
+          ...(row.end_date !== undefined && { end_date: getDateKey(new Date(change.after.endDate)) }),
+          id: change.id
+        });
+      }
+    });
+
+    // The default week; schedule templates are not edited in a scenario
+    if (diff.workHoursChanged) {
+      payload.weekly_work_hours = current.weeklyWorkHours as unknown as Json;
+    }
+
+    return payload;
+  }
+
+  /**
+   * Apply a scenario to real data in one transaction
+   *
+   * @param latest - Reality as it is now, used to detect conflicting edits
+   */
+  static async applyScenarioWorkflow(scenario: Scenario, latest: ScenarioSnapshot): Promise<ScenarioApplyResult> {
+    const diff = diffScenario(scenario);
+    if (diff.changeCount === 0) {
+      return { success: true, changeCount: 0, conflicts: [] };
+    }
+
+    const conflicts = findScenarioConflicts(scenario, latest);
+    if (conflicts.length > 0) {
+      return {
+        success: false,
+        changeCount: diff.changeCount,
+        conflicts,
+        error: 'Reality changed since the scenario started'
+      };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      // Hypothetical projects may name a client that does not exist yet
+      const resolvedDiff: ScenarioDiff = {
+        ...diff,
+        projects: await Promise.all(diff.projects.map(async change => {
+          if (change.type !== 'added' || !change.after || change.after.clientId) return change;
+          const clientId = await ProjectOrchestrator.ensureClientExists(change.after.client || 'N/A', user.id);
+          return { ...change, after: { ...change.after, clientId } };
+        }))
+      };
+
+      const payload = this.buildApplyPayload(resolvedDiff, scenario.current, user.id);
+      const { error } = await supabase.rpc('apply_scenario', { changes: payload as unknown as Json });
+      if (error) throw error;
+
+      // Let phase consumers outside the project context refresh
+      window.dispatchEvent(new CustomEvent('phasesUpdated'));
+
+      return { success: true, changeCount: diff.changeCount, conflicts: [] };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'ScenarioOrchestrator', action: 'applyScenarioWorkflow' });
+      return {
+        success: false,
+        changeCount: diff.changeCount,
+        conflicts: [],
+        error: error instanceof Error ? error.message : 'Failed to apply scenario'
+      };
+    }
+  }
+}
@@ -0,0 +1,286 @@
+/**
+ * Task Orchestrator
+ *
+ * Coordinates the project task backlog with the calendar:
+ * - CRUD for backlog tasks (validated by TaskBacklog rules)
+ * - Scheduling a task creates a planned project event and links it to the task
+ * - Auto-scheduling places several tasks in free work slot time before their due dates
+ *
+ * Every mutation is recorded on the command history and announced with the
+ * 'tasksUpdated' window event ('eventsUpdated' when the calendar changed too).
+ *
+ * @module TaskOrchestrator
+ */
+
+import type { CalendarEvent, Project, ProjectTask, WorkHour } from '@/shared/types/core';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { ProjectTaskMapper } from '@/infrastructure/mappers/ProjectTaskMapper';
+import { CalendarEventMapper } from '@/infrastructure/mappers/CalendarEventMapper';
+import {
+  planTaskPlacements,
+  toTaskEvent,
+  validateTask,
+  type TaskInput
+} from '@/domain/rules/tasks/TaskBacklog';
+import { commandHistory, recordSnapshot, snapshotRows, type HistoryRecordOptions } from './CommandHistoryOrchestrator';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaskCreationInput extends TaskInput {
+  projectId: string;
+  notes?: string;
+}
+
+export interface TaskUpdateInput {
+  title?: string;
+  notes?: string;
+  estimatedHours?: number;
+  dueDate?: Date | null; // null clears the due date
+  completed?: boolean;
+}
+
+export interface TaskWorkflowResult {
+  success: boolean;
+  task?: ProjectTask;
+  errors?: string[];
+}
+
+export interface TaskScheduleSources {
+  events: CalendarEvent[];
+  projects: Project[];
+  getWorkHours: (date: Date) => WorkHour[];
+}
+
+export interface TaskAutoScheduleResult {
+  success: boolean;
+  scheduledCount: number;
+  unplacedTaskIds: string[]; // No free gap long enough before the due date
+  error?: string;
+}
+
+const notifyChanged = (calendarChanged = false) => {
+  window.dispatchEvent(new CustomEvent('tasksUpdated'));
+  if (calendarChanged) {
+    window.dispatchEvent(new CustomEvent('eventsUpdated'));
+  }
+};
+
+const failure = (error: unknown, fallback: string): TaskWorkflowResult => ({
+  success: false,
+  errors: [error instanceof Error ? error.message : fallback]
+});
+
+// ============================================================================
+// ORCHESTRATOR
+// ============================================================================
+
+export class TaskOrchestrator {
+  /**
+   * Get all tasks for current user
+   */
+  static async getTasks(): Promise<ProjectTask[]> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return [];
+
+    const { data, error } = await supabase
+      .from('project_tasks')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('sort_order', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'getTasks' });
+      throw error;
+    }
+    return (data || []).map(ProjectTaskMapper.fromDatabase);
+  }
+
+  /**
+   * Add a task to a project's backlog
+   */
+  static async createTaskWorkflow(input: TaskCreationInput): Promise<TaskWorkflowResult> {
+    const validation = validateTask(input);
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, errors: ['User not authenticated'] };
+      }
+
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .insert(ProjectTaskMapper.toDatabase({ ...input, title: input.title.trim(), userId: user.id }))
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      recordSnapshot(`Add task "${data.title}"`, [{ table: 'project_tasks', before: [], after: [data] }]);
+      notifyChanged();
+      return { success: true, task: ProjectTaskMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'createTaskWorkflow' });
+      return failure(error, 'Failed to create task');
+    }
+  }
+
+  /**
+   * Edit or complete a task
+   */
+  static async updateTaskWorkflow(task: ProjectTask, updates: TaskUpdateInput): Promise<TaskWorkflowResult> {
+    const validation = validateTask({
+      title: updates.title ?? task.title,
+      estimatedHours: updates.estimatedHours ?? task.estimatedHours,
+      dueDate: updates.dueDate === null ? undefined : updates.dueDate ?? task.dueDate
+    });
+    if (!validation.isValid) {
+      return { success: false, errors: validation.errors };
+    }
+
+    try {
+      const before = await snapshotRows('project_tasks', 'id', [task.id]);
+
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .update(ProjectTaskMapper.toUpdatePayload(updates))
+        .eq('id', task.id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const label = updates.completed !== undefined && Object.keys(updates).length === 1
+        ? `${updates.completed ? 'Complete' : 'Reopen'} task "${task.title}"`
+        : `Edit task "${task.title}"`;
+      recordSnapshot(label, [{ table: 'project_tasks', before, after: [data] }]);
+      notifyChanged();
+      return { success: true, task: ProjectTaskMapper.fromDatabase(data) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'updateTaskWorkflow' });
+      return failure(error, 'Failed to update task');
+    }
+  }
+
+  /**
+   * Delete a task (its planned event, if any, stays on the calendar)
+   */
+  static async deleteTaskWorkflow(task: ProjectTask): Promise<TaskWorkflowResult> {
+    try {
+      const { data, error } = await supabase
+        .from('project_tasks')
+        .delete()
+        .eq('id', task.id)
+        .select();
+
+      if (error) throw error;
+
+      recordSnapshot(`Delete task "${task.title}"`, [{ table: 'project_tasks', before: data || [], after: [] }]);
+      notifyChanged();
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'deleteTaskWorkflow' });
+      return failure(error, 'Failed to delete task');
+    }
+  }
+
+  /**
+   * Schedule a task at a start time (drag onto the calendar)
+   * Creates a planned project event of the estimated length and links it.
+   */
+  static async scheduleTaskWorkflow(
+    task: ProjectTask,
+    startTime: Date,
+    project: Project,
+    options: HistoryRecordOptions = {}
+  ): Promise<TaskWorkflowResult> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, errors: ['User not authenticated'] };
+      }
+
+      const eventData = toTaskEvent(task, startTime, project);
+      const before = await snapshotRows('project_tasks', 'id', [task.id]);
+
+      const { data: eventRow, error: eventError } = await supabase
+        .from('calendar_events')
+        .insert(CalendarEventMapper.toDatabase({ ...eventData, userId: user.id }))
+        .select()
+        .single();
+
+      if (eventError) throw eventError;
+
+      const { data: taskRow, error: taskError } = await supabase
+        .from('project_tasks')
+        .update({ scheduled_event_id: eventRow.id })
+        .eq('id', task.id)
+        .select()
+        .single();
+
+      if (taskError) {
+        // Don't leave an event no task points to
+        const { error: cleanupError } = await supabase.from('calendar_events').delete().eq('id', eventRow.id);
+        if (cleanupError) {
+          ErrorHandlingService.handle(cleanupError, { source: 'TaskOrchestrator', action: 'Failed to remove the unlinked task event:' });
+        }
+        throw taskError;
+      }
+
+      // Event listed first: the task references it
+      recordSnapshot(`Schedule task "${task.title}"`, [
+        { table: 'calendar_events', before: [], after: [eventRow] },
+        { table: 'project_tasks', before, after: [taskRow] }
+      ], options.transaction);
+      notifyChanged(true);
+      return { success: true, task: ProjectTaskMapper.fromDatabase(taskRow) };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'scheduleTaskWorkflow' });
+      return failure(error, 'Failed to schedule task');
+    }
+  }
+
+  /**
+   * Put tasks into free work slot time before their due dates
+   * All placements are one undoable action.
+   */
+  static async autoScheduleTasksWorkflow(
+    tasks: ProjectTask[],
+    sources: TaskScheduleSources,
+    from: Date = new Date()
+  ): Promise<TaskAutoScheduleResult> {
+    // DELEGATE placement to domain rules
+    const placements = planTaskPlacements(tasks, sources.events, sources.getWorkHours, from);
+    const unplacedTaskIds = placements.filter(placement => !placement.block).map(placement => placement.taskId);
+    let scheduledCount = 0;
+
+    try {
+      await commandHistory.transaction('Auto-schedule tasks', async transaction => {
+        for (const placement of placements) {
+          const task = tasks.find(t => t.id === placement.taskId);
+          const project = sources.projects.find(p => p.id === task?.projectId);
+          if (!placement.block || !task || !project) continue;
+
+          const result = await this.scheduleTaskWorkflow(task, placement.block.startTime, project, { transaction });
+          if (!result.success) throw new Error(result.errors?.join(', '));
+          scheduledCount++;
+        }
+      });
+      return { success: true, scheduledCount, unplacedTaskIds };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TaskOrchestrator', action: 'autoScheduleTasksWorkflow' });
+      return {
+        success: false,
+        scheduledCount,
+        unplacedTaskIds,
+        error: error instanceof Error ? error.message : 'Failed to schedule tasks'
+      };
+    }
+  }
+}
@@ -3,11 +3,14 @@
  * 
  * Coordinates WorkSlot workflows including:
  * - Template slot management (weekly pattern stored in settings)
+ * - Schedule templates (named, date-ranged, rotating weekly patterns)
  * - Exception management (date-specific overrides in database)
  * - Entity validation for all WorkSlot operations
  * 
  * ARCHITECTURE:
  * - Template Slots: JSON in settings.weekly_work_hours (baseline weekly pattern)
+ * - Schedule Templates: JSON in settings.work_schedules; a slot edited on a date
+ *   lands in the template week in effect on that date (see WorkSchedules.ts)
  * - Exceptions: work_slot_exceptions table (date-specific overrides)
  * 
  * Phase 1: Template slot management with entity validation
@@ -19,8 +22,14 @@
  */
 
 import { WorkSlot as WorkSlotEntity } from '@/domain/entities/WorkSlot';
-import { WorkSlot, Settings } from '@/shared/types/core';
+import { WorkSlot, Settings, WorkScheduleTemplate } from '@/shared/types/core';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import {
+  EMPTY_WEEKLY_WORK_HOURS,
+  replaceWorkWeekOn,
+  resolveWorkWeek,
+  validateWorkScheduleTemplate
+} from '@/domain/rules/work-slots/WorkSchedules';
 
 export type DayOfWeek = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
 
@@ -31,6 +40,7 @@ interface SaveTemplateSlotParams {
   dayOfWeek: DayOfWeek;
   startTime: string; // HH:MM format
   endTime: string;   // HH:MM format
+  date?: Date;       // Edit the schedule week in effect on this date (default weekly pattern when omitted)
 }
 
 interface UpdateTemplateSlotParams {
@@ -38,11 +48,13 @@ interface UpdateTemplateSlotParams {
   slotId: string;
   startTime?: string;
   endTime?: string;
+  date?: Date;
 }
 
 interface DeleteTemplateSlotParams {
   dayOfWeek: DayOfWeek;
   slotId: string;
+  date?: Date;
 }
 
 export interface WorkSlotOrchestrationResult {
@@ -52,6 +64,34 @@ export interface WorkSlotOrchestrationResult {
   errors?: string[];
 }
 
+export interface WorkScheduleOrchestrationResult {
+  success: boolean;
+  schedule?: WorkScheduleTemplate;
+  error?: string;
+  errors?: string[];
+}
+
+/**
+ * Settings changes that replace one day of the weekly pattern in effect on a date
+ */
+function replaceDaySlots(
+  currentSettings: Settings,
+  dayOfWeek: DayOfWeek,
+  date: Date | undefined,
+  update: (slots: WorkSlot[]) => WorkSlot[]
+): Partial<Settings> {
+  const replaceDay = (week: Settings['weeklyWorkHours']) => ({ ...week, [dayOfWeek]: update(week[dayOfWeek] || []) });
+  // Without a date the default weekly pattern is edited, as before schedules existed
+  return date
+    ? replaceWorkWeekOn(date, currentSettings, replaceDay)
+    : { weeklyWorkHours: replaceDay(currentSettings.weeklyWorkHours) };
+}
+
+function getDaySlots(currentSettings: Settings, dayOfWeek: DayOfWeek, date?: Date): WorkSlot[] {
+  const week = date ? resolveWorkWeek(date, currentSettings).weeklyWorkHours : currentSettings.weeklyWorkHours;
+  return week[dayOfWeek] || [];
+}
+
 /**
  * WorkSlot Orchestrator
  * 
@@ -100,16 +140,15 @@ export class WorkSlotOrchestrator {
         duration: slotData.duration
       };
 
-      // 4. Update settings
-      const weeklyWorkHours = currentSettings?.weeklyWorkHours || {} as Settings['weeklyWorkHours'];
-      const currentDaySlots = weeklyWorkHours[params.dayOfWeek] || [];
+      // 4. Update settings (the schedule week in effect on params.date)
+      const settings: Settings = {
+        ...currentSettings,
+        weeklyWorkHours: currentSettings?.weeklyWorkHours || EMPTY_WEEKLY_WORK_HOURS
+      };
 
-      await updateSettings({
-        weeklyWorkHours: {
-          ...weeklyWorkHours,
-          [params.dayOfWeek]: [...currentDaySlots, newSlot]
-        }
-      });
+      await updateSettings(
+        replaceDaySlots(settings, params.dayOfWeek, params.date, slots => [...slots, newSlot])
+      );
 
       return {
         success: true,
@@ -152,8 +191,7 @@ export class WorkSlotOrchestrator {
         };
       }
 
-      const weeklyWorkHours = currentSettings.weeklyWorkHours;
-      const daySlots = weeklyWorkHours[params.dayOfWeek] || [];
+      const daySlots = getDaySlots(currentSettings, params.dayOfWeek, params.date);
       
       // Find existing slot
       const existingSlot = daySlots.find((slot: WorkSlot) => slot.id === params.slotId);
@@ -196,12 +234,9 @@ export class WorkSlotOrchestrator {
         return slot;
       });
 
-      await updateSettings({
-        weeklyWorkHours: {
-          ...weeklyWorkHours,
-          [params.dayOfWeek]: updatedSlots
-        }
-      });
+      await updateSettings(
+        replaceDaySlots(currentSettings, params.dayOfWeek, params.date, () => updatedSlots)
+      );
 
       return {
         success: true,
@@ -244,17 +279,11 @@ export class WorkSlotOrchestrator {
         };
       }
 
-      const weeklyWorkHours = currentSettings.weeklyWorkHours;
-      const daySlots = weeklyWorkHours[params.dayOfWeek] || [];
-      
-      const updatedSlots = daySlots.filter((slot: WorkSlot) => slot.id !== params.slotId);
-
-      await updateSettings({
-        weeklyWorkHours: {
-          ...weeklyWorkHours,
-          [params.dayOfWeek]: updatedSlots
-        }
-      });
+      await updateSettings(
+        replaceDaySlots(currentSettings, params.dayOfWeek, params.date, slots =>
+          slots.filter((slot: WorkSlot) => slot.id !== params.slotId)
+        )
+      );
 
       return {
         success: true
@@ -273,6 +302,90 @@ export class WorkSlotOrchestrator {
     }
   }
 
+  // ============================================================================
+  // SCHEDULE TEMPLATES
+  // ============================================================================
+
+  /**
+   * Add or replace a schedule template
+   *
+   * Validates the template (name, rotation length, date range), then persists
+   * the template list to settings.
+   *
+   * @param schedule - The template to save (replaces one with the same id)
+   * @param updateSettings - Function to update settings
+   * @param currentSettings - Current settings object
+   * @returns Result with the saved template or validation errors
+   */
+  static async saveWorkSchedule(
+    schedule: WorkScheduleTemplate,
+    updateSettings: UpdateSettingsFn,
+    currentSettings: Settings | null
+  ): Promise<WorkScheduleOrchestrationResult> {
+    try {
+      const normalized: WorkScheduleTemplate = {
+        ...schedule,
+        name: schedule.name.trim(),
+        effectiveFrom: schedule.effectiveFrom || undefined,
+        effectiveTo: schedule.effectiveTo || undefined,
+        rotationStart: schedule.rotationStart || undefined
+      };
+
+      const errors = validateWorkScheduleTemplate(normalized);
+      if (errors.length > 0) {
+        return { success: false, errors };
+      }
+
+      const schedules = currentSettings?.workSchedules || [];
+      const exists = schedules.some(existing => existing.id === normalized.id);
+
+      await updateSettings({
+        workSchedules: exists
+          ? schedules.map(existing => (existing.id === normalized.id ? normalized : existing))
+          : [...schedules, normalized]
+      });
+
+      return { success: true, schedule: normalized };
+    } catch (error) {
+      ErrorHandlingService.handle(error, {
+        source: 'WorkSlotOrchestrator',
+        action: 'saveWorkSchedule'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to save work schedule'
+      };
+    }
+  }
+
+  /**
+   * Delete a schedule template; its dates fall back to the default weekly pattern
+   */
+  static async deleteWorkSchedule(
+    scheduleId: string,
+    updateSettings: UpdateSettingsFn,
+    currentSettings: Settings | null
+  ): Promise<WorkScheduleOrchestrationResult> {
+    try {
+      await updateSettings({
+        workSchedules: (currentSettings?.workSchedules || []).filter(schedule => schedule.id !== scheduleId)
+      });
+
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, {
+        source: 'WorkSlotOrchestrator',
+        action: 'deleteWorkSchedule'
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to delete work schedule'
+      };
+    }
+  }
+
   // ============================================================================
   // EXCEPTION MANAGEMENT - Phase 2 (Stubbed)
   // ============================================================================
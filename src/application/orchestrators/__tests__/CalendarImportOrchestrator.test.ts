@@ -0,0 +1,433 @@
+// @vitest-environment node
+/**
+ * Calendar Import Orchestrator Tests
+ *
+ * Tests for ICS subscription sync workflows including:
+ * - First sync of a feed served by a local ICS file server
+ * - Re-sync picking up moved, added and removed events
+ * - No-op re-sync when nothing changed
+ * - Removals scoped to the subscription's own events
+ * - Feed errors marking the connection
+ * - Recurring events with EXDATE / RECURRENCE-ID and VTIMEZONE
+ *
+ * Database operations use a small in-memory Supabase stand-in; the
+ * fetch-ical-feed edge function is stood in for by a plain fetch.
+ *
+ * @see src/application/orchestrators/CalendarImportOrchestrator.ts
+ */
+
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { CalendarImportOrchestrator } from '../CalendarImportOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
+
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    auth: {
+      getUser: vi.fn(),
+    },
+    from: vi.fn(),
+    functions: {
+      invoke: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn() },
+}));
+
+type Row = Record<string, unknown>;
+type QueryResult = { data: Row | Row[] | null; error: { message: string } | null };
+
+interface QueryBuilder extends PromiseLike<QueryResult> {
+  select: () => QueryBuilder;
+  insert: (rows: Row[]) => QueryBuilder;
+  upsert: (rows: Row[], options: { onConflict: string; ignoreDuplicates?: boolean }) => QueryBuilder;
+  update: (values: Row) => QueryBuilder;
+  delete: () => QueryBuilder;
+  eq: (column: string, value: unknown) => QueryBuilder;
+  is: (column: string, value: null) => QueryBuilder;
+  order: (column: string, options: { ascending: boolean }) => QueryBuilder;
+  limit: (count: number) => QueryBuilder;
+  single: () => QueryBuilder;
+  maybeSingle: () => QueryBuilder;
+}
+
+// Minimal chainable query builder over in-memory tables
+const createInMemorySupabase = (tables: Record<string, Row[]>) => {
+  let nextId = 1;
+
+  return (table: string) => {
+    const filters: Array<(row: Row) => boolean> = [];
+    let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+    let payload: Row | Row[];
+    let conflictKeys: string[] = [];
+    let mode: 'many' | 'single' | 'maybeSingle' = 'many';
+    let sort: { column: string; ascending: boolean } | null = null;
+    let limitCount: number | null = null;
+
+    const execute = (): QueryResult => {
+      const rows = (tables[table] = tables[table] || []);
+      let result: Row[];
+
+      if (operation === 'insert') {
+        // Upserts ignoring duplicates skip rows that match on the conflict columns
+        const isDuplicate = (row: Row) => conflictKeys.length > 0 &&
+          rows.some(existing => conflictKeys.every(key => existing[key] === row[key]));
+        result = (payload as Row[]).filter(row => !isDuplicate(row)).map(row => ({
+          id: `${table}-${nextId++}`,
+          created_at: new Date(Date.now() + nextId).toISOString(),
+          ...row,
+        }) as Row);
+        rows.push(...result);
+      } else {
+        result = rows.filter(row => filters.every(filter => filter(row)));
+        if (operation === 'update') result.forEach(row => Object.assign(row, payload));
+        if (operation === 'delete') tables[table] = rows.filter(row => !result.includes(row));
+      }
+
+      if (sort) {
+        const { column, ascending } = sort;
+        result = [...result].sort((a, b) => (String(a[column]) > String(b[column]) ? 1 : -1) * (ascending ? 1 : -1));
+      }
+      if (limitCount !== null) result = result.slice(0, limitCount);
+
+      if (mode === 'many') return { data: result, error: null };
+      if (result.length === 0 && mode === 'single') {
+        return { data: null, error: { message: 'No rows found' } };
+      }
+      return { data: result[0] ?? null, error: null };
+    };
+
+    const builder: QueryBuilder = {
+      select: () => builder,
+      insert: (rows: Row[]) => { operation = 'insert'; payload = rows; return builder; },
+      upsert: (rows: Row[], options: { onConflict: string; ignoreDuplicates?: boolean }) => {
+        operation = 'insert';
+        payload = rows;
+        conflictKeys = options.onConflict.split(',');
+        return builder;
+      },
+      update: (values: Row) => { operation = 'update'; payload = values; return builder; },
+      delete: () => { operation = 'delete'; return builder; },
+      eq: (column: string, value: unknown) => { filters.push(row => row[column] === value); return builder; },
+      is: (column: string, value: null) => { filters.push(row => (row[column] ?? null) === value); return builder; },
+      order: (column: string, options: { ascending: boolean }) => { sort = { column, ascending: options.ascending }; return builder; },
+      limit: (count: number) => { limitCount = count; return builder; },
+      single: () => { mode = 'single'; return builder; },
+      maybeSingle: () => { mode = 'maybeSingle'; return builder; },
+      then: (resolve, reject) => Promise.resolve(execute()).then(resolve, reject),
+    };
+    return builder;
+  };
+};
+
+const buildFeed = (events: Array<{ uid: string; summary: string; start: string; end: string; lastModified: string }>) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Test//Feed//EN',
+  ...events.flatMap(event => [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SUMMARY:${event.summary}`,
+    `DTSTART:${event.start}`,
+    `DTEND:${event.end}`,
+    `LAST-MODIFIED:${event.lastModified}`,
+    'END:VEVENT',
+  ]),
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('CalendarImportOrchestrator', () => {
+  const mockUser = { id: 'user-123', email: 'test@example.com' };
+  let server: Server;
+  let feedUrl: string;
+  let feedBody = '';
+  let feedStatus = 200;
+  let tables: Record<string, Row[]>;
+
+  beforeAll(async () => {
+    server = createServer((_req, res) => {
+      res.writeHead(feedStatus, { 'Content-Type': 'text/calendar' });
+      res.end(feedBody);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/team.ics`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    feedStatus = 200;
+    tables = {
+      calendar_connections: [{
+        id: 'conn-1',
+        user_id: mockUser.id,
+        connection_name: 'Team',
+        connection_type: 'ics_subscription',
+        feed_url: feedUrl,
+        is_active: true,
+        last_sync_at: null,
+        sync_frequency: 60,
+      }],
+      calendar_events: [],
+      calendar_event_exceptions: [],
+      calendar_import_history: [],
+    };
+
+    vi.mocked(supabase.auth.getUser).mockResolvedValue({
+      data: { user: mockUser },
+      error: null,
+    } as never);
+    vi.mocked(supabase.from).mockImplementation(createInMemorySupabase(tables) as never);
+    // Same contract as supabase/functions/fetch-ical-feed
+    vi.mocked(supabase.functions.invoke).mockImplementation((async (_name: string, options: { body: { url: string } }) => {
+      const response = await fetch(options.body.url);
+      if (!response.ok) {
+        return { data: null, error: new Error(`Failed to fetch calendar feed (HTTP ${response.status})`) };
+      }
+      return { data: { content: await response.text() }, error: null };
+    }) as never);
+  });
+
+  const standup = {
+    uid: 'standup@team',
+    summary: 'Standup',
+    start: '20260112T090000Z',
+    end: '20260112T091500Z',
+    lastModified: '20260105T080000Z',
+  };
+  const review = {
+    uid: 'review@team',
+    summary: 'Review',
+    start: '20260113T140000Z',
+    end: '20260113T150000Z',
+    lastModified: '20260105T080000Z',
+  };
+
+  describe('syncSubscription', () => {
+    it('should import every event on the first sync', async () => {
+      feedBody = buildFeed([standup, review]);
+
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.success).toBe(true);
+      expect(result.imported).toBe(2);
+      expect(tables.calendar_events).toHaveLength(2);
+      expect(tables.calendar_events[0].external_last_modified).toBe('2026-01-05T08:00:00.000Z');
+      expect(tables.calendar_import_history[0].synced_events).toEqual({
+        'standup@team': '2026-01-05T08:00:00.000Z',
+        'review@team': '2026-01-05T08:00:00.000Z',
+      });
+      expect(tables.calendar_connections[0].last_sync_at).toBeTruthy();
+    });
+
+    it('should apply moved, added and removed events on re-sync', async () => {
+      feedBody = buildFeed([standup, review]);
+      await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      const movedStandup = { ...standup, start: '20260112T100000Z', end: '20260112T101500Z', lastModified: '20260108T080000Z' };
+      const planning = { ...review, uid: 'planning@team', summary: 'Planning' };
+      feedBody = buildFeed([movedStandup, planning]);
+
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.imported).toBe(1);
+      expect(result.updated).toBe(1);
+      expect(result.deleted).toBe(1);
+      const titles = tables.calendar_events.map(event => event.title).sort();
+      expect(titles).toEqual(['Planning', 'Standup']);
+      const standupRow = tables.calendar_events.find(event => event.external_calendar_id === 'standup@team');
+      expect(standupRow.start_time).toBe('2026-01-12T10:00:00.000Z');
+    });
+
+    it('should only remove events synced from this subscription', async () => {
+      tables.calendar_events.push({
+        id: 'file-review',
+        user_id: mockUser.id,
+        title: 'Review (from file)',
+        external_calendar_id: 'review@team',
+        external_source: 'ical',
+        connection_id: null,
+      });
+      feedBody = buildFeed([standup, review]);
+      await CalendarImportOrchestrator.syncSubscription('conn-1');
+      expect(tables.calendar_events.filter(event => event.connection_id === 'conn-1')).toHaveLength(2);
+
+      feedBody = buildFeed([standup]);
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.deleted).toBe(1);
+      expect(tables.calendar_events.map(event => event.title).sort()).toEqual(['Review (from file)', 'Standup']);
+    });
+
+    it('should not touch events when the feed is unchanged', async () => {
+      feedBody = buildFeed([standup, review]);
+      await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.imported).toBe(0);
+      expect(result.updated).toBe(0);
+      expect(result.deleted).toBe(0);
+    });
+
+    it('should not count removals of events the user already deleted', async () => {
+      feedBody = buildFeed([standup, review]);
+      await CalendarImportOrchestrator.syncSubscription('conn-1');
+      tables.calendar_events = tables.calendar_events.filter(event => event.external_calendar_id !== review.uid);
+
+      feedBody = buildFeed([standup]);
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.success).toBe(true);
+      expect(result.deleted).toBe(0);
+    });
+
+    it('should mark the connection as errored when the feed cannot be fetched', async () => {
+      feedStatus = 500;
+      feedBody = '';
+
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.success).toBe(false);
+      expect(tables.calendar_connections[0].connection_status).toBe('error');
+      expect(tables.calendar_import_history[0].import_status).toBe('failed');
+    });
+  });
+
+  describe('recurring events', () => {
+    const recurringFeed = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//Test//Feed//EN',
+      'BEGIN:VTIMEZONE',
+      'TZID:Europe/Berlin',
+      'BEGIN:DAYLIGHT',
+      'TZOFFSETFROM:+0100',
+      'TZOFFSETTO:+0200',
+      'DTSTART:19700329T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'TZOFFSETFROM:+0200',
+      'TZOFFSETTO:+0100',
+      'DTSTART:19701025T030000',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      'BEGIN:VEVENT',
+      'UID:weekly@team',
+      'SUMMARY:Weekly sync',
+      'DTSTART;TZID=Europe/Berlin:20260316T090000',
+      'DTEND;TZID=Europe/Berlin:20260316T100000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO;UNTIL=20260420T070000Z',
+      'EXDATE;TZID=Europe/Berlin:20260323T090000',
+      'LAST-MODIFIED:20260301T080000Z',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:weekly@team',
+      'SUMMARY:Weekly sync (moved)',
+      'RECURRENCE-ID;TZID=Europe/Berlin:20260330T090000',
+      'DTSTART;TZID=Europe/Berlin:20260331T110000',
+      'DTEND;TZID=Europe/Berlin:20260331T120000',
+      'LAST-MODIFIED:20260305T080000Z',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should store the series once with its time zone and exceptions', async () => {
+      feedBody = recurringFeed;
+
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.imported).toBe(1);
+      expect(tables.calendar_events).toHaveLength(1);
+      const master = tables.calendar_events[0];
+      expect(master.start_time).toBe('2026-03-16T08:00:00.000Z');
+      expect(master.rrule).toBe('FREQ=WEEKLY;BYDAY=MO;UNTIL=20260420T070000Z');
+      expect(master.recurrence_timezone).toBe('Europe/Berlin');
+      expect(master.recurring_group_id).toBeTruthy();
+      expect(master.external_last_modified).toBe('2026-03-05T08:00:00.000Z');
+
+      const exceptions = [...tables.calendar_event_exceptions]
+        .sort((a, b) => String(a.exception_date).localeCompare(String(b.exception_date)));
+      expect(exceptions.map(ex => [ex.exception_date, ex.exception_type])).toEqual([
+        ['2026-03-23', 'deleted'],
+        ['2026-03-30', 'modified'],
+      ]);
+      expect(exceptions[1].master_event_id).toBe(master.id);
+      expect(exceptions[1].modified_data).toMatchObject({
+        original_start_time: '2026-03-30T07:00:00.000Z',
+        title: 'Weekly sync (moved)',
+        start_time: '2026-03-31T09:00:00.000Z',
+      });
+    });
+
+    it('should replace exceptions when the series changes', async () => {
+      feedBody = recurringFeed;
+      await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      feedBody = recurringFeed
+        .replace('EXDATE;TZID=Europe/Berlin:20260323T090000\r\n', '')
+        .replace('LAST-MODIFIED:20260301T080000Z', 'LAST-MODIFIED:20260310T080000Z')
+        .replace('LAST-MODIFIED:20260305T080000Z', 'LAST-MODIFIED:20260310T080000Z');
+      const result = await CalendarImportOrchestrator.syncSubscription('conn-1');
+
+      expect(result.updated).toBe(1);
+      expect(tables.calendar_events).toHaveLength(1);
+      expect(tables.calendar_event_exceptions.map(ex => ex.exception_date)).toEqual(['2026-03-30']);
+    });
+  });
+
+  describe('syncDueSubscriptions', () => {
+    it('should skip subscriptions synced within their interval', async () => {
+      feedBody = buildFeed([standup]);
+      tables.calendar_connections[0].last_sync_at = new Date().toISOString();
+
+      const results = await CalendarImportOrchestrator.syncDueSubscriptions();
+
+      expect(Object.keys(results)).toHaveLength(0);
+    });
+
+    it('should sync a due subscription once when two clients run together', async () => {
+      feedBody = buildFeed([standup, review]);
+
+      const [first, second] = await Promise.all([
+        CalendarImportOrchestrator.syncDueSubscriptions(),
+        CalendarImportOrchestrator.syncDueSubscriptions(),
+      ]);
+
+      expect(Object.keys({ ...first, ...second })).toEqual(['conn-1']);
+      expect(Object.keys(first).length + Object.keys(second).length).toBe(1);
+      expect(tables.calendar_events).toHaveLength(2);
+    });
+  });
+
+  describe('createSubscriptionWorkflow', () => {
+    it('should reject an invalid feed URL', async () => {
+      const result = await CalendarImportOrchestrator.createSubscriptionWorkflow({
+        name: 'Team',
+        feedUrl: 'ftp://example.com/team.ics',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeTruthy();
+    });
+
+    it('should store the normalised feed URL', async () => {
+      const result = await CalendarImportOrchestrator.createSubscriptionWorkflow({
+        name: 'Team',
+        feedUrl: 'webcal://example.com/team.ics',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.connection?.feed_url).toBe('https://example.com/team.ics');
+    });
+  });
+});
@@ -0,0 +1,309 @@
+// @vitest-environment node
+/**
+ * Command History Orchestrator Tests
+ *
+ * Tests for the application-level undo/redo stack including:
+ * - Multi-step undo and redo order
+ * - Transactions grouping (and nesting) the commands of one action
+ * - Redo being cleared by a new action, history size limit
+ * - Undoing/redoing up to an entry from the history panel
+ * - Failed replays keeping the entry
+ * - Snapshot commands restoring a cascade delete (project + phases + labels + events)
+ *
+ * Database operations use a small in-memory Supabase stand-in.
+ *
+ * @see src/application/orchestrators/CommandHistoryOrchestrator.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createCommandHistory,
+  createSnapshotCommand,
+  snapshotRows,
+  type HistoryCommand,
+  type HistoryRow
+} from '../CommandHistoryOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn() },
+}));
+
+type QueryResult = { data: HistoryRow[] | null; error: { message: string } | null };
+
+interface QueryBuilder extends PromiseLike<QueryResult> {
+  select: () => QueryBuilder;
+  delete: () => QueryBuilder;
+  upsert: (rows: HistoryRow[], options: { onConflict: string }) => QueryBuilder;
+  in: (column: string, values: unknown[]) => QueryBuilder;
+  match: (values: HistoryRow) => QueryBuilder;
+}
+
+// Minimal chainable query builder over in-memory tables; logs writes in order
+const createInMemorySupabase = (tables: Record<string, HistoryRow[]>, log: string[]) => {
+  return (table: string) => {
+    const filters: Array<(row: HistoryRow) => boolean> = [];
+    let operation: 'select' | 'delete' | 'upsert' = 'select';
+    let payload: HistoryRow[] = [];
+    let conflictKeys: string[] = [];
+
+    const execute = (): QueryResult => {
+      const rows = (tables[table] = tables[table] || []);
+
+      if (operation === 'upsert') {
+        payload.forEach(row => {
+          const existing = rows.find(current => conflictKeys.every(key => current[key] === row[key]));
+          if (existing) Object.assign(existing, row);
+          else rows.push({ ...row });
+        });
+        log.push(`upsert ${table}`);
+        return { data: payload, error: null };
+      }
+
+      const result = rows.filter(row => filters.every(filter => filter(row)));
+      if (operation === 'delete') {
+        tables[table] = rows.filter(row => !result.includes(row));
+        log.push(`delete ${table}`);
+      }
+      return { data: result.map(row => ({ ...row })), error: null };
+    };
+
+    const builder: QueryBuilder = {
+      select: () => builder,
+      delete: () => { operation = 'delete'; return builder; },
+      upsert: (rows: HistoryRow[], options: { onConflict: string }) => {
+        operation = 'upsert';
+        payload = rows;
+        conflictKeys = options.onConflict.split(',');
+        return builder;
+      },
+      in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+      match: (values: HistoryRow) => {
+        filters.push(row => Object.entries(values).every(([key, value]) => row[key] === value));
+        return builder;
+      },
+      then: (resolve, reject) => Promise.resolve(execute()).then(resolve, reject),
+    };
+    return builder;
+  };
+};
+
+describe('CommandHistoryOrchestrator', () => {
+  // Command that appends to a log instead of touching the database
+  const createLoggingCommand = (label: string, log: string[]): HistoryCommand => ({
+    label,
+    tables: ['projects'],
+    undo: async () => { log.push(`undo ${label}`); },
+    redo: async () => { log.push(`redo ${label}`); },
+  });
+
+  let log: string[];
+  let onReplay: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    log = [];
+    onReplay = vi.fn();
+  });
+
+  describe('undo and redo', () => {
+    it('should undo newest first and redo in the original order', async () => {
+      const history = createCommandHistory({ onReplay });
+      ['a', 'b', 'c'].forEach(label => history.record(createLoggingCommand(label, log)));
+
+      await history.undo();
+      await history.undo();
+      await history.redo();
+
+      expect(log).toEqual(['undo c', 'undo b', 'redo b']);
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['a', 'b']);
+      expect(history.getState().redoStack.map(entry => entry.label)).toEqual(['c']);
+      expect(onReplay).toHaveBeenCalledWith(['projects']);
+    });
+
+    it('should clear redo when a new action is recorded', async () => {
+      const history = createCommandHistory({ onReplay });
+      history.record(createLoggingCommand('a', log));
+      await history.undo();
+
+      history.record(createLoggingCommand('b', log));
+
+      expect(history.canRedo()).toBe(false);
+      expect(await history.redo()).toBeNull();
+    });
+
+    it('should not record commands issued while replaying', async () => {
+      const history = createCommandHistory({ onReplay });
+      history.record({
+        ...createLoggingCommand('a', log),
+        undo: async () => history.record(createLoggingCommand('echo', log)),
+      });
+
+      await history.undo();
+
+      expect(history.getState().undoStack).toEqual([]);
+      expect(history.getState().redoStack.map(entry => entry.label)).toEqual(['a']);
+    });
+
+    it('should keep only the most recent entries', () => {
+      const history = createCommandHistory({ maxEntries: 2, onReplay });
+      ['a', 'b', 'c'].forEach(label => history.record(createLoggingCommand(label, log)));
+
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['b', 'c']);
+    });
+
+    it('should keep the entry and report when a replay fails', async () => {
+      const history = createCommandHistory({ onReplay });
+      history.record({
+        ...createLoggingCommand('broken', log),
+        undo: async () => { throw new Error('offline'); },
+      });
+
+      expect(await history.undo()).toBeNull();
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['broken']);
+      expect(ErrorHandlingService.handle).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({ source: 'CommandHistoryOrchestrator' })
+      );
+    });
+  });
+
+  describe('transactions', () => {
+    it('should group the commands of one action and undo them in reverse', async () => {
+      const history = createCommandHistory({ onReplay });
+
+      await history.transaction('Resize project', async transaction => {
+        transaction.record(createLoggingCommand('move phase', log));
+        await transaction.transaction('nested', async nested => {
+          nested.record(createLoggingCommand('update project', log));
+        });
+      });
+      await history.undo();
+
+      expect(history.getState().redoStack.map(entry => entry.label)).toEqual(['Resize project']);
+      expect(log).toEqual(['undo update project', 'undo move phase']);
+    });
+
+    it('should keep commands recorded before a failure', async () => {
+      const history = createCommandHistory({ onReplay });
+
+      await expect(history.transaction('Delete all phases', async transaction => {
+        transaction.record(createLoggingCommand('delete phase 1', log));
+        throw new Error('network');
+      })).rejects.toThrow('network');
+
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['Delete all phases']);
+    });
+
+    it('should keep changes recorded outside the handle as their own entries', async () => {
+      const history = createCommandHistory({ onReplay });
+      let releaseDrag = () => {};
+      const dragBlocked = new Promise<void>(resolve => { releaseDrag = resolve; });
+
+      const drag = history.transaction('Drag holiday', async transaction => {
+        transaction.record(createLoggingCommand('move holiday', log));
+        await dragBlocked;
+        transaction.record(createLoggingCommand('shift holiday events', log));
+      });
+      // A change from another view lands while the drag is still saving
+      history.record(createLoggingCommand('rename project', log));
+      releaseDrag();
+      await drag;
+
+      expect(history.getState().undoStack.map(entry => entry.commands.map(command => command.label))).toEqual([
+        ['rename project'],
+        ['move holiday', 'shift holiday events']
+      ]);
+
+      await history.undo();
+      expect(log).toEqual(['undo shift holiday events', 'undo move holiday']);
+    });
+  });
+
+  describe('history panel navigation', () => {
+    it('should undo down to and redo up to a chosen entry', async () => {
+      const history = createCommandHistory({ onReplay });
+      ['a', 'b', 'c', 'd'].forEach(label => history.record(createLoggingCommand(label, log)));
+      const target = history.getState().undoStack[1];
+
+      expect(await history.undoTo(target.id)).toBe(3);
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['a']);
+
+      expect(await history.redoTo(history.getState().redoStack[1].id)).toBe(2);
+      expect(history.getState().undoStack.map(entry => entry.label)).toEqual(['a', 'b', 'c']);
+      expect(log).toEqual(['undo d', 'undo c', 'undo b', 'redo b', 'redo c']);
+    });
+  });
+
+  describe('snapshot commands', () => {
+    it('should restore a deleted project with its phases, labels and events', async () => {
+      const project = { id: 'p1', name: 'Website' };
+      const phases = [{ id: 'ph1', project_id: 'p1' }, { id: 'ph2', project_id: 'p1' }];
+      const labels = [{ project_id: 'p1', label_id: 'l1' }];
+      const events = [{ id: 'e1', project_id: 'p1', title: 'Kickoff' }];
+      const tables: Record<string, HistoryRow[]> = {
+        projects: [{ ...project }],
+        phases: phases.map(row => ({ ...row })),
+        project_labels: labels.map(row => ({ ...row })),
+        calendar_events: events.map(row => ({ ...row })),
+      };
+      const writes: string[] = [];
+      vi.mocked(supabase.from).mockImplementation(createInMemorySupabase(tables, writes) as never);
+
+      // Capture, then perform the cascade the database would apply
+      const before = {
+        projects: await snapshotRows('projects', 'id', ['p1']),
+        phases: await snapshotRows('phases', 'project_id', ['p1']),
+        labels: await snapshotRows('project_labels', 'project_id', ['p1']),
+        events: await snapshotRows('calendar_events', 'project_id', ['p1']),
+      };
+      tables.projects = [];
+      tables.phases = [];
+      tables.project_labels = [];
+      tables.calendar_events = [{ ...events[0], project_id: null }];
+
+      const history = createCommandHistory({ onReplay });
+      history.record(createSnapshotCommand('Delete project "Website"', [
+        { table: 'projects', before: before.projects, after: [] },
+        { table: 'phases', before: before.phases, after: [] },
+        { table: 'project_labels', keys: ['project_id', 'label_id'], before: before.labels, after: [] },
+        {
+          table: 'calendar_events',
+          before: before.events,
+          after: before.events.map(event => ({ ...event, project_id: null })),
+        },
+      ]));
+
+      await history.undo();
+
+      expect(tables.projects).toEqual([project]);
+      expect(tables.phases).toEqual(phases);
+      expect(tables.project_labels).toEqual(labels);
+      expect(tables.calendar_events).toEqual(events);
+      // Parents are written back before their children
+      expect(writes.filter(write => write.startsWith('upsert'))).toEqual([
+        'upsert projects', 'upsert phases', 'upsert project_labels', 'upsert calendar_events'
+      ]);
+      expect(onReplay).toHaveBeenCalledWith(['projects', 'phases', 'project_labels', 'calendar_events']);
+
+      writes.length = 0;
+      await history.redo();
+
+      expect(tables.projects).toEqual([]);
+      expect(tables.phases).toEqual([]);
+      expect(tables.project_labels).toEqual([]);
+      expect(tables.calendar_events).toEqual([{ ...events[0], project_id: null }]);
+      // Children are removed before their parents
+      expect(writes.filter(write => write.startsWith('delete'))).toEqual([
+        'delete project_labels', 'delete phases', 'delete projects'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,415 @@
+/**
+ * Data Backup Orchestrator Tests
+ *
+ * Tests for backup/restore workflows including:
+ * - Export of every user table into an archive
+ * - Restore into another account with remapped IDs
+ * - Name conflicts, duplicates and invalid rows
+ * - Dry runs and replacing restores
+ * - Writing the whole restore in one restore_backup call
+ *
+ * Database operations use a small in-memory Supabase stand-in.
+ *
+ * @see src/application/orchestrators/DataBackupOrchestrator.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DataBackupOrchestrator } from '../DataBackupOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
+
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    auth: {
+      getUser: vi.fn(),
+    },
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn() },
+}));
+
+type Row = Record<string, unknown>;
+type QueryResult = { data: Row[] | null; error: { message: string } | null };
+
+interface QueryBuilder extends PromiseLike<QueryResult> {
+  select: () => QueryBuilder;
+  in: (column: string, values: unknown[]) => QueryBuilder;
+  range: (from: number, to: number) => QueryBuilder;
+}
+
+// Minimal read-only query builder over in-memory tables (restores write through restore_backup)
+const createInMemorySupabase = (tables: Record<string, Row[]>) => (table: string) => {
+  const filters: Array<(row: Row) => boolean> = [];
+  let window: [number, number] | null = null;
+
+  const execute = (): QueryResult => {
+    const matched = (tables[table] || []).filter(row => filters.every(filter => filter(row)));
+    return { data: window ? matched.slice(window[0], window[1] + 1) : matched, error: null };
+  };
+
+  const builder: QueryBuilder = {
+    select: () => builder,
+    in: (column: string, values: unknown[]) => { filters.push(row => values.includes(row[column])); return builder; },
+    range: (from: number, to: number) => { window = [from, to]; return builder; },
+    then: (resolve, reject) => Promise.resolve(execute()).then(resolve, reject),
+  };
+  return builder;
+};
+
+describe('DataBackupOrchestrator', () => {
+  const sourceUser = 'user-source';
+  const targetUser = 'user-target';
+  const singletonTables = ['settings', 'profiles'];
+  let tables: Record<string, Row[]>;
+
+  // restore_backup stand-in: applies the whole plan to the in-memory tables
+  const restoreBackup = async ({ backup, replace_existing }: { backup: Record<string, Row[]>; replace_existing: boolean }) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (replace_existing) {
+      const projectIds = tables.projects.filter(row => row.user_id === user!.id).map(row => row.id);
+      tables.project_labels = tables.project_labels.filter(row => !projectIds.includes(row.project_id));
+      Object.keys(tables)
+        .filter(name => !singletonTables.includes(name))
+        .forEach(name => { tables[name] = tables[name].filter(row => row.user_id !== user!.id); });
+    }
+    Object.entries(backup).forEach(([name, rows]) => rows.forEach(row => {
+      const match = singletonTables.includes(name) && tables[name].find(existing => existing.user_id === row.user_id);
+      if (match) Object.assign(match, row);
+      else tables[name].push({ id: crypto.randomUUID(), ...row });
+    }));
+    return { data: null, error: null };
+  };
+
+  const signInAs = (id: string) => {
+    vi.mocked(supabase.auth.getUser).mockResolvedValue({
+      data: { user: { id, email: `${id}@example.com` } },
+      error: null,
+    } as never);
+  };
+
+  const seedSourceAccount = () => {
+    tables.groups.push({ id: 'g1', user_id: sourceUser, name: 'Work' });
+    tables.clients.push({ id: 'c1', user_id: sourceUser, name: 'Acme', status: 'active' });
+    tables.labels.push({ id: 'l1', user_id: sourceUser, name: 'Urgent', color: '#ff0000' });
+    tables.projects.push({
+      id: 'p1',
+      user_id: sourceUser,
+      name: 'Website',
+      client: 'Acme',
+      client_id: 'c1',
+      group_id: 'g1',
+      row_id: null,
+      color: '#00aaff',
+      start_date: '2026-01-05',
+      end_date: '2026-02-27',
+      estimated_hours: 80,
+      continuous: false,
+    });
+    tables.project_labels.push({ project_id: 'p1', label_id: 'l1' });
+    tables.phases.push({
+      id: 'ph1',
+      user_id: sourceUser,
+      project_id: 'p1',
+      name: 'Design',
+      start_date: '2026-01-05',
+      end_date: '2026-01-30',
+      time_allocation: 40,
+      time_allocation_hours: 40,
+      is_recurring: false,
+    });
+    tables.phases.push({
+      id: 'ph2',
+      user_id: sourceUser,
+      project_id: 'p1',
+      name: 'Build',
+      start_date: '2026-02-02',
+      end_date: '2026-02-27',
+      time_allocation: 40,
+      time_allocation_hours: 40,
+      is_recurring: false,
+    });
+    tables.dependencies.push({
+      id: 'd1',
+      user_id: sourceUser,
+      kind: 'phase',
+      predecessor_id: 'ph1',
+      successor_id: 'ph2',
+      type: 'finish-to-start',
+      lag_days: 2,
+    });
+    tables.calendar_events.push({
+      id: 'e1',
+      user_id: sourceUser,
+      project_id: 'p1',
+      title: 'Kick-off',
+      color: '#00aaff',
+      start_time: '2026-01-05T09:00:00.000Z',
+      end_time: '2026-01-05T10:00:00.000Z',
+      rrule: 'FREQ=WEEKLY;COUNT=4',
+      recurring_group_id: 'series-1',
+    });
+    tables.calendar_event_exceptions.push({
+      id: 'x1',
+      user_id: sourceUser,
+      master_event_id: 'e1',
+      exception_date: '2026-01-12',
+      exception_type: 'deleted',
+    });
+    tables.project_tasks.push(
+      { id: 'task1', user_id: sourceUser, project_id: 'p1', title: 'Wireframes', estimated_hours: 4, scheduled_event_id: 'e1' },
+      { id: 'task2', user_id: sourceUser, project_id: 'p1', title: 'Copy review', estimated_hours: 2, due_date: '2026-01-20T00:00:00.000Z', scheduled_event_id: null }
+    );
+    tables.holidays.push({
+      id: 'h1',
+      user_id: sourceUser,
+      title: 'Winter break',
+      start_date: '2026-02-02',
+      end_date: '2026-02-06',
+    });
+    tables.habit_targets.push({
+      id: 't1',
+      user_id: sourceUser,
+      habit_name: 'Running',
+      frequency: 'weekly',
+      metric: 'sessions',
+      target: 3,
+    });
+    tables.plan_baselines.push({
+      id: 'b1',
+      user_id: sourceUser,
+      name: 'Signed off',
+      snapshot: {
+        capturedAt: '2026-01-02T09:00:00.000Z',
+        projects: [{ id: 'p1', name: 'Website', startDate: '2026-01-05', endDate: '2026-02-27', continuous: false, estimatedHours: 80 }],
+        phases: [{ id: 'ph1', projectId: 'p1', name: 'Design', startDate: '2026-01-05', endDate: '2026-01-30', timeAllocationHours: 40 }],
+        dayEstimates: [{ projectId: 'p1', date: '2026-01-05', hours: 2, source: 'project-auto-estimate' }],
+      },
+    });
+    tables.saved_filters.push({
+      id: 'sf1',
+      user_id: sourceUser,
+      name: 'Acme urgent',
+      query: { clientIds: ['c1', 'c-deleted'], labelIds: ['l1'], statuses: ['active'] },
+    });
+    tables.settings.push({ id: 's1', user_id: sourceUser, weekly_work_hours: { monday: [] } });
+    tables.feedback.push({ id: 'f1', user_id: sourceUser, feedback_text: 'Nice', feedback_type: 'like' });
+  };
+
+  const exportSourceArchive = async () => {
+    signInAs(sourceUser);
+    const result = await DataBackupOrchestrator.exportArchive();
+    signInAs(targetUser);
+    // Archives travel as JSON files: detach them from the in-memory rows
+    return JSON.parse(JSON.stringify(result.archive));
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tables = Object.fromEntries([
+      'groups', 'clients', 'labels', 'rows', 'projects', 'project_labels', 'phases',
+      'dependencies', 'calendar_events', 'calendar_event_exceptions', 'project_tasks', 'holidays', 'work_slot_exceptions',
+      'habit_targets', 'plan_baselines', 'saved_filters', 'settings', 'profiles', 'calendar_connections', 'calendar_import_history', 'feedback',
+      'feedback_attachments', 'usage_analytics', 'milestones_backup_20251018',
+    ].map(name => [name, [] as Row[]]));
+    vi.mocked(supabase.from).mockImplementation(createInMemorySupabase(tables) as never);
+    vi.mocked(supabase.rpc).mockImplementation(((name: string, args: never) =>
+      name === 'restore_backup' ? restoreBackup(args) : Promise.resolve({ data: 'hash', error: null })) as never);
+    seedSourceAccount();
+  });
+
+  describe('exportArchive', () => {
+    it('should include rows from every user table', async () => {
+      const archive = await exportSourceArchive();
+
+      expect(archive?.format).toBe('budgi-backup');
+      expect(archive?.tables.project_labels).toEqual([{ project_id: 'p1', label_id: 'l1' }]);
+      expect(archive?.tables.phases).toHaveLength(2);
+      expect(archive?.tables.dependencies).toHaveLength(1);
+      expect(archive?.tables.feedback).toHaveLength(1);
+      expect(Object.keys(archive?.tables || {})).toHaveLength(24);
+    });
+  });
+
+  describe('importArchive', () => {
+    it('should restore into another account with remapped IDs', async () => {
+      const archive = await exportSourceArchive();
+
+      const result = await DataBackupOrchestrator.importArchive(archive);
+
+      expect(result.success).toBe(true);
+      expect(result.errors).toEqual([]);
+      const project = tables.projects.find(row => row.user_id === targetUser)!;
+      const group = tables.groups.find(row => row.user_id === targetUser)!;
+      const client = tables.clients.find(row => row.user_id === targetUser)!;
+      expect(project.id).not.toBe('p1');
+      expect(project.group_id).toBe(group.id);
+      expect(project.client_id).toBe(client.id);
+
+      const [phase, nextPhase] = tables.phases.filter(row => row.user_id === targetUser);
+      expect(phase.project_id).toBe(project.id);
+      expect(tables.dependencies.find(row => row.user_id === targetUser)).toMatchObject({
+        kind: 'phase',
+        predecessor_id: phase.id,
+        successor_id: nextPhase.id,
+        lag_days: 2,
+      });
+      expect(tables.project_labels).toContainEqual(expect.objectContaining({
+        project_id: project.id,
+        label_id: tables.labels.find(row => row.user_id === targetUser)!.id,
+      }));
+
+      const event = tables.calendar_events.find(row => row.user_id === targetUser)!;
+      expect(event.project_id).toBe(project.id);
+      expect(event.recurring_group_id).not.toBe('series-1');
+      expect(tables.calendar_event_exceptions.find(row => row.user_id === targetUser)?.master_event_id).toBe(event.id);
+      expect(tables.settings.find(row => row.user_id === targetUser)?.weekly_work_hours).toEqual({ monday: [] });
+      expect(tables.habit_targets.find(row => row.user_id === targetUser)).toMatchObject({ habit_name: 'Running', target: 3 });
+      expect(tables.saved_filters.find(row => row.user_id === targetUser)?.query).toEqual({
+        clientIds: [client.id],
+        labelIds: [tables.labels.find(row => row.user_id === targetUser)!.id],
+        statuses: ['active'],
+      });
+      const baseline = tables.plan_baselines.find(row => row.user_id === targetUser)!;
+      expect(baseline.snapshot).toMatchObject({
+        projects: [{ id: project.id, name: 'Website' }],
+        phases: [{ id: phase.id, projectId: project.id }],
+        dayEstimates: [{ projectId: project.id, hours: 2 }],
+      });
+      expect(result.warnings).toContain('Feedback is not restored');
+    });
+
+    it('should round-trip project tasks with their project and scheduled event', async () => {
+      const archive = await exportSourceArchive();
+      expect(archive.tables.project_tasks).toHaveLength(2);
+
+      const result = await DataBackupOrchestrator.importArchive(archive);
+
+      expect(result.restored.project_tasks).toBe(2);
+      const project = tables.projects.find(row => row.user_id === targetUser)!;
+      const event = tables.calendar_events.find(row => row.user_id === targetUser)!;
+      const tasks = tables.project_tasks.filter(row => row.user_id === targetUser);
+      expect(tasks.map(task => [task.title, task.project_id, task.scheduled_event_id])).toEqual([
+        ['Wireframes', project.id, event.id],
+        ['Copy review', project.id, null],
+      ]);
+      expect(tasks[1].due_date).toBe('2026-01-20T00:00:00.000Z');
+    });
+
+    it('should reuse clients and groups with the same name', async () => {
+      const archive = await exportSourceArchive();
+      tables.clients.push({ id: 'c-existing', user_id: targetUser, name: 'ACME', status: 'active' });
+
+      const result = await DataBackupOrchestrator.importArchive(archive);
+
+      expect(result.conflicts).toContainEqual(expect.objectContaining({ table: 'clients', resolution: 'merged' }));
+      expect(tables.clients.filter(row => row.user_id === targetUser)).toHaveLength(1);
+      expect(tables.projects.find(row => row.user_id === targetUser)?.client_id).toBe('c-existing');
+    });
+
+    it('should skip rows that fail entity validation and their children', async () => {
+      tables.projects[0].estimated_hours = -5;
+      const archive = await exportSourceArchive();
+
+      const result = await DataBackupOrchestrator.importArchive(archive);
+
+      expect(result.success).toBe(true);
+      expect(result.skipped.projects).toBe(1);
+      expect(result.skipped.phases).toBe(2);
+      expect(result.skipped.dependencies).toBe(1);
+      expect(result.errors[0]).toContain('Estimated hours must be 0 or greater');
+      // Events keep working without their project
+      expect(tables.calendar_events.find(row => row.user_id === targetUser)?.project_id).toBeNull();
+    });
+
+    it('should not write anything on a dry run', async () => {
+      const archive = await exportSourceArchive();
+
+      const result = await DataBackupOrchestrator.importArchive(archive, { dryRun: true });
+
+      expect(result.restored.projects).toBe(1);
+      expect(tables.projects.filter(row => row.user_id === targetUser)).toHaveLength(0);
+    });
+
+    it('should skip holidays that already exist on a same-account restore', async () => {
+      signInAs(sourceUser);
+      const { archive } = await DataBackupOrchestrator.exportArchive();
+
+      const result = await DataBackupOrchestrator.importArchive(archive);
+
+      expect(result.skipped.holidays).toBe(1);
+      expect(tables.holidays).toHaveLength(1);
+      expect(result.skipped.habit_targets).toBe(1);
+      expect(tables.habit_targets).toHaveLength(1);
+      expect(result.skipped.plan_baselines).toBe(1);
+      expect(result.skipped.saved_filters).toBe(1);
+      expect(tables.plan_baselines).toHaveLength(1);
+    });
+
+    it('should keep projects, phases and events that are still in the account on a merge restore', async () => {
+      signInAs(sourceUser);
+      const { archive } = await DataBackupOrchestrator.exportArchive();
+      const file = JSON.parse(JSON.stringify(archive));
+      tables.phases.pop();
+
+      const result = await DataBackupOrchestrator.importArchive(file);
+
+      expect(result.success).toBe(true);
+      expect(result.conflicts).toEqual(expect.arrayContaining([
+        expect.objectContaining({ table: 'projects', name: 'Website', resolution: 'merged' }),
+        expect.objectContaining({ table: 'phases', name: 'Design', resolution: 'merged' }),
+        expect.objectContaining({ table: 'calendar_events', name: 'Kick-off', resolution: 'merged' }),
+        expect.objectContaining({ table: 'project_tasks', name: 'Wireframes', resolution: 'merged' }),
+      ]));
+      expect(tables.projects).toHaveLength(1);
+      expect(tables.project_labels).toHaveLength(1);
+      expect(tables.calendar_events).toHaveLength(1);
+      expect(tables.calendar_event_exceptions).toHaveLength(1);
+      expect(tables.project_tasks).toHaveLength(2);
+      expect(tables.dependencies).toHaveLength(1);
+      // A phase deleted since the backup comes back under its kept project
+      expect(tables.phases.map(row => [row.name, row.project_id])).toEqual([['Design', 'p1'], ['Build', 'p1']]);
+    });
+
+    it('should replace existing data when requested', async () => {
+      signInAs(sourceUser);
+      const { archive } = await DataBackupOrchestrator.exportArchive();
+      const file = JSON.parse(JSON.stringify(archive));
+      tables.projects[0].name = 'Bad bulk edit';
+
+      const result = await DataBackupOrchestrator.importArchive(file, { replaceExisting: true });
+
+      expect(result.success).toBe(true);
+      expect(tables.projects.map(row => row.name)).toEqual(['Website']);
+      expect(tables.dependencies).toHaveLength(1);
+      expect(tables.groups).toHaveLength(1);
+      expect(tables.holidays).toHaveLength(1);
+    });
+
+    it('should leave existing data untouched when the restore fails', async () => {
+      signInAs(sourceUser);
+      const { archive } = await DataBackupOrchestrator.exportArchive();
+      const file = JSON.parse(JSON.stringify(archive));
+      vi.mocked(supabase.rpc).mockResolvedValueOnce({ data: null, error: { message: 'insert failed' } } as never);
+
+      const result = await DataBackupOrchestrator.importArchive(file, { replaceExisting: true });
+
+      expect(result.success).toBe(false);
+      expect(result.restored).toEqual({});
+      expect(vi.mocked(supabase.rpc)).toHaveBeenCalledWith('restore_backup', expect.objectContaining({ replace_existing: true }));
+      expect(tables.projects).toHaveLength(1);
+      expect(tables.phases).toHaveLength(2);
+    });
+
+    it('should reject files that are not backups', async () => {
+      signInAs(targetUser);
+
+      const result = await DataBackupOrchestrator.importArchive({ hello: 'world' });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(['Not a backup archive']);
+    });
+  });
+});
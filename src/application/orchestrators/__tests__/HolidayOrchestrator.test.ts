@@ -6,15 +6,42 @@
  * - Overlap detection
  * - Auto-adjustment of dates
  * - Multi-step creation workflows
+ * - Public holiday import (overlap skipping, holidays stored on the server)
+ * - Yearly public holiday sync (claiming years on the server)
  * 
  * @see src/services/orchestrators/HolidayOrchestrator.ts
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { HolidayOrchestrator } from '../HolidayOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
 import type { Holiday } from '@/shared/types/core';
 
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    from: vi.fn(),
+    rpc: vi.fn(),
+  },
+}));
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn() },
+}));
+
 describe('HolidayOrchestrator', () => {
+  // Holidays the server holds (e.g. added in another tab)
+  let storedHolidays: Array<Record<string, unknown>>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storedHolidays = [];
+    const query = {
+      select: () => query,
+      gte: () => query,
+      lte: () => Promise.resolve({ data: storedHolidays, error: null }),
+    };
+    vi.mocked(supabase.from).mockReturnValue(query as never);
+  });
   
   // Test data factory
   const createHoliday = (overrides: Partial<Holiday> = {}): Holiday => ({
@@ -367,6 +394,126 @@ describe('HolidayOrchestrator', () => {
     });
   });
   
+  describe('planPublicHolidayImport', () => {
+    it('should skip generated holidays that overlap existing ones', () => {
+      const existingHolidays = [
+        createHoliday({
+          id: 'winter-break',
+          title: 'Winter break',
+          startDate: new Date(2026, 11, 24),
+          endDate: new Date(2026, 11, 31),
+        }),
+      ];
+      const orchestrator = new HolidayOrchestrator(existingHolidays, undefined);
+
+      const plan = orchestrator.planPublicHolidayImport({ countryCode: 'DE' }, [2026]);
+
+      expect(plan.toCreate).toHaveLength(7);
+      expect(plan.skipped.map(s => [s.holiday.title, s.conflictTitle])).toEqual([
+        ['Christmas Day', 'Winter break'],
+        ['Second Day of Christmas', 'Winter break'],
+      ]);
+    });
+
+    it('should not plan the same day twice across calendars', () => {
+      const orchestrator = new HolidayOrchestrator([
+        createHoliday({ id: 'ny', title: "New Year's Day", startDate: new Date(2026, 0, 1), endDate: new Date(2026, 0, 1) }),
+      ], undefined);
+
+      const plan = orchestrator.planPublicHolidayImport({ countryCode: 'FR' }, [2026]);
+
+      expect(plan.toCreate.some(h => h.title === "New Year's Day")).toBe(false);
+      expect(plan.skipped).toHaveLength(1);
+    });
+  });
+
+  describe('importPublicHolidaysWorkflow', () => {
+    it('should create each planned holiday with a source note', async () => {
+      const orchestrator = new HolidayOrchestrator([], undefined);
+      const mockAddHoliday = vi.fn().mockResolvedValue(undefined);
+
+      const result = await orchestrator.importPublicHolidaysWorkflow({ countryCode: 'NL' }, [2026], mockAddHoliday);
+
+      expect(result).toEqual({ success: true, created: 7, skipped: 0 });
+      expect(mockAddHoliday).toHaveBeenCalledWith({
+        title: "King's Day",
+        startDate: new Date(2026, 3, 27),
+        endDate: new Date(2026, 3, 27),
+        notes: 'Public holiday · Netherlands',
+      }, { transaction: expect.objectContaining({ record: expect.any(Function) }) });
+    });
+
+    it('should skip holidays another tab already stored on the server', async () => {
+      storedHolidays = [{
+        id: 'stored-1',
+        title: "King's Day",
+        start_date: new Date(2026, 3, 27).toISOString(),
+        end_date: new Date(2026, 3, 27).toISOString(),
+        notes: 'Public holiday · Netherlands',
+      }];
+      const orchestrator = new HolidayOrchestrator([], undefined);
+      const mockAddHoliday = vi.fn().mockResolvedValue(undefined);
+
+      const result = await orchestrator.importPublicHolidaysWorkflow({ countryCode: 'NL' }, [2026], mockAddHoliday);
+
+      expect(result).toEqual({ success: true, created: 6, skipped: 1 });
+      expect(mockAddHoliday).not.toHaveBeenCalledWith(expect.objectContaining({ title: "King's Day" }), expect.anything());
+    });
+
+    it('should report holidays created before a failure', async () => {
+      const orchestrator = new HolidayOrchestrator([], undefined);
+      const mockAddHoliday = vi.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Network error'));
+
+      const result = await orchestrator.importPublicHolidaysWorkflow({ countryCode: 'NL' }, [2026], mockAddHoliday);
+
+      expect(result.success).toBe(false);
+      expect(result.created).toBe(1);
+    });
+  });
+
+  describe('syncPublicHolidayCalendarWorkflow', () => {
+    it('should only import the years this client claimed', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: [2027], error: null } as never);
+      const mockAddHoliday = vi.fn().mockResolvedValue(undefined);
+
+      const result = await new HolidayOrchestrator([]).syncPublicHolidayCalendarWorkflow(
+        { countryCode: 'NL' }, [2026, 2027], mockAddHoliday
+      );
+
+      expect(supabase.rpc).toHaveBeenCalledWith('mark_public_holiday_years', { years: [2026, 2027], imported: true });
+      expect(result).toMatchObject({ success: true, years: [2027] });
+      expect(mockAddHoliday.mock.calls.every(([holiday]) => holiday.startDate.getFullYear() === 2027)).toBe(true);
+    });
+
+    it('should import nothing when another client claimed every year', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: [], error: null } as never);
+      const mockAddHoliday = vi.fn();
+
+      const result = await new HolidayOrchestrator([]).syncPublicHolidayCalendarWorkflow(
+        { countryCode: 'NL' }, [2026], mockAddHoliday
+      );
+
+      expect(result).toEqual({ success: true, created: 0, skipped: 0, years: [] });
+      expect(mockAddHoliday).not.toHaveBeenCalled();
+    });
+
+    it('should give the years back when the import fails', async () => {
+      vi.mocked(supabase.rpc)
+        .mockResolvedValueOnce({ data: [2026], error: null } as never)
+        .mockResolvedValueOnce({ data: [2026], error: null } as never);
+      const mockAddHoliday = vi.fn().mockRejectedValue(new Error('Network error'));
+
+      const result = await new HolidayOrchestrator([]).syncPublicHolidayCalendarWorkflow(
+        { countryCode: 'NL' }, [2026], mockAddHoliday
+      );
+
+      expect(result.success).toBe(false);
+      expect(supabase.rpc).toHaveBeenLastCalledWith('mark_public_holiday_years', { years: [2026], imported: false });
+    });
+  });
+  
   describe('Edge Cases', () => {
     it('should handle multi-day holidays', () => {
       const orchestrator = new HolidayOrchestrator([], undefined);
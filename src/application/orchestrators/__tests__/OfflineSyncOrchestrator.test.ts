@@ -0,0 +1,369 @@
+/**
+ * Offline Sync Orchestrator Tests
+ *
+ * Tests for offline reads and the outbox replay including:
+ * - Caching fetched rows and serving them offline or when the server is unreachable
+ * - Offline mutations applied to the cache and kept on top of refetched rows
+ * - Replaying inserts, updates and deletes in order on reconnect
+ * - Tabs sharing one outbox and replaying it one at a time
+ * - Server rows edited after the offline change winning (updated_at)
+ * - Unreachable server keeping the remaining changes queued
+ * - Rejected changes kept as failed until retried or discarded
+ *
+ * Database operations use a small in-memory Supabase stand-in; the local
+ * store is the in-memory store used where IndexedDB is missing.
+ *
+ * @see src/application/orchestrators/OfflineSyncOrchestrator.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createOfflineSync } from '../OfflineSyncOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
+import { MemoryLocalStore } from '@/infrastructure/offline';
+import type { OfflineRow } from '@/domain/rules/offline/OfflineOutbox';
+
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    from: vi.fn(),
+  },
+}));
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn(), warn: vi.fn() },
+}));
+
+type QueryResult = { data: OfflineRow | OfflineRow[] | null; error: { message: string } | null };
+
+interface QueryBuilder extends PromiseLike<QueryResult> {
+  select: (columns?: string) => QueryBuilder;
+  insert: (row: OfflineRow) => QueryBuilder;
+  upsert: (row: OfflineRow) => QueryBuilder;
+  update: (changes: Partial<OfflineRow>) => QueryBuilder;
+  delete: () => QueryBuilder;
+  eq: (column: string, value: unknown) => QueryBuilder;
+  single: () => QueryBuilder;
+  maybeSingle: () => QueryBuilder;
+}
+
+const SERVER_NOW = '2026-10-19T12:00:00.000Z';
+
+// Minimal chainable query builder over in-memory tables; logs writes in order
+const createInMemorySupabase = (
+  tables: Record<string, OfflineRow[]>,
+  log: string[],
+  network: { down: boolean },
+  rejected: Set<string>
+) => {
+  return (table: string) => {
+    const filters: Array<(row: OfflineRow) => boolean> = [];
+    let operation: 'select' | 'upsert' | 'update' | 'delete' = 'select';
+    let payload: Partial<OfflineRow> = {};
+    let mode: 'many' | 'single' = 'many';
+
+    const execute = (): QueryResult => {
+      if (network.down) return { data: null, error: { message: 'TypeError: Failed to fetch' } };
+      const rows = (tables[table] = tables[table] || []);
+      let result = rows.filter(row => filters.every(filter => filter(row)));
+      const targets = operation === 'upsert' ? [payload.id] : result.map(row => row.id);
+      if (operation !== 'select' && targets.some(id => rejected.has(String(id)))) {
+        return { data: null, error: { message: 'new row violates row-level security policy' } };
+      }
+
+      if (operation === 'upsert') {
+        const row = { ...payload } as OfflineRow;
+        tables[table] = [...rows.filter(current => current.id !== row.id), row];
+        result = [row];
+        log.push(`upsert ${table} ${row.id}`);
+      } else if (operation === 'update') {
+        result = result.map(row => Object.assign(row, payload, { updated_at: SERVER_NOW }));
+        log.push(`update ${table} ${result.map(row => row.id).join(',')}`);
+      } else if (operation === 'delete') {
+        tables[table] = rows.filter(row => !result.includes(row));
+        log.push(`delete ${table} ${result.map(row => row.id).join(',')}`);
+      }
+
+      const copies = result.map(row => ({ ...row }));
+      return { data: mode === 'single' ? copies[0] ?? null : copies, error: null };
+    };
+
+    const builder: QueryBuilder = {
+      select: () => builder,
+      insert: (row) => { operation = 'upsert'; payload = row; return builder; },
+      upsert: (row) => { operation = 'upsert'; payload = row; return builder; },
+      update: (changes) => { operation = 'update'; payload = changes; return builder; },
+      delete: () => { operation = 'delete'; return builder; },
+      eq: (column, value) => { filters.push(row => row[column] === value); return builder; },
+      single: () => { mode = 'single'; return builder; },
+      maybeSingle: () => { mode = 'single'; return builder; },
+      then: (resolve, reject) => Promise.resolve(execute()).then(resolve, reject),
+    };
+    return builder;
+  };
+};
+
+describe('OfflineSyncOrchestrator', () => {
+  let tables: Record<string, OfflineRow[]>;
+  let log: string[];
+  let network: { down: boolean };
+  let rejected: Set<string>;
+  let online: boolean;
+  let onSynced: ReturnType<typeof vi.fn>;
+
+  const fetchHolidays = async () => {
+    const { data, error } = await supabase.from('holidays').select('*');
+    if (error) throw error;
+    return (data || []) as OfflineRow[];
+  };
+
+  const createSync = (store = new MemoryLocalStore(), runExclusive?: <T>(work: () => Promise<T>) => Promise<T>) =>
+    createOfflineSync({ store, isOnline: () => online, onSynced, runExclusive });
+
+  // Stand-in for the Web Locks API: one holder at a time, in request order
+  const createReplayLock = () => {
+    let held: Promise<unknown> = Promise.resolve();
+    return <T>(work: () => Promise<T>): Promise<T> => {
+      const run = held.then(work);
+      held = run.catch(() => undefined);
+      return run;
+    };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tables = {
+      holidays: [
+        { id: 'h1', title: 'Trip', start_date: '2026-11-02', updated_at: '2026-10-01T00:00:00.000Z' },
+        { id: 'h2', title: 'Dentist', start_date: '2026-10-20', updated_at: '2026-10-01T00:00:00.000Z' }
+      ]
+    };
+    log = [];
+    network = { down: false };
+    rejected = new Set();
+    online = true;
+    onSynced = vi.fn();
+    vi.mocked(supabase.from).mockImplementation(createInMemorySupabase(tables, log, network, rejected) as unknown as typeof supabase.from);
+  });
+
+  describe('reads', () => {
+    it('should serve the cached rows while offline', async () => {
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+
+      online = false;
+      const rows = await sync.readThrough('holidays', fetchHolidays, { orderBy: 'start_date' });
+
+      expect(rows.map(row => row.id)).toEqual(['h2', 'h1']);
+      expect(supabase.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the cache when the server is unreachable', async () => {
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+
+      network.down = true;
+      const rows = await sync.readThrough('holidays', fetchHolidays);
+
+      expect(rows).toHaveLength(2);
+    });
+
+    it('should only replace the rows a scoped fetch covers', async () => {
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+      await sync.cacheRows('holidays', [], { scope: row => row.id === 'h2' });
+
+      online = false;
+      expect((await sync.read('holidays')).map(row => row.id)).toEqual(['h1']);
+    });
+  });
+
+  describe('offline mutations', () => {
+    it('should apply queued changes to the cache and keep them on top of a refetch', async () => {
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+
+      online = false;
+      const inserted = await sync.queueInsert('holidays', { title: 'Conference', start_date: '2026-12-01' });
+      await sync.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await sync.queueDelete('holidays', 'h2');
+
+      expect(sync.getState().pendingCount).toBe(3);
+      expect((await sync.read('holidays', { orderBy: 'start_date' })).map(row => row.title)).toEqual(['Long trip', 'Conference']);
+
+      // Back online before the replay: fetched rows still show the local changes
+      online = true;
+      const refetched = await sync.readThrough('holidays', fetchHolidays);
+      expect(refetched.map(row => row.id).sort()).toEqual(['h1', inserted.id].sort());
+      expect(refetched.find(row => row.id === 'h1')?.title).toBe('Long trip');
+    });
+
+    it('should keep the outbox across sessions', async () => {
+      const store = new MemoryLocalStore();
+      online = false;
+      await createSync(store).queueUpdate('holidays', 'h1', { title: 'Long trip' });
+
+      const nextSession = createSync(store);
+      online = true;
+      const result = await nextSession.sync();
+
+      expect(result.syncedCount).toBe(1);
+      expect(tables.holidays.find(row => row.id === 'h1')?.title).toBe('Long trip');
+    });
+
+    it('should keep changes another tab queued', async () => {
+      const store = new MemoryLocalStore();
+      const firstTab = createSync(store);
+      const secondTab = createSync(store);
+      await firstTab.readThrough('holidays', fetchHolidays);
+      await secondTab.readThrough('holidays', fetchHolidays);
+
+      online = false;
+      await firstTab.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await secondTab.queueDelete('holidays', 'h2');
+      await firstTab.queueUpdate('holidays', 'h1', { start_date: '2026-11-03' });
+
+      const outbox = await store.getAll<{ id: string; rowId: string; sequence: number }>('outbox');
+      expect(outbox.sort((a, b) => a.sequence - b.sequence).map(entry => entry.rowId)).toEqual(['h1', 'h2']);
+
+      online = true;
+      const result = await createSync(store).sync();
+      expect(result.syncedCount).toBe(2);
+      expect(tables.holidays).toEqual([expect.objectContaining({ id: 'h1', title: 'Long trip', start_date: '2026-11-03' })]);
+    });
+  });
+
+  describe('sync', () => {
+    it('should replay the outbox in order on reconnect', async () => {
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+
+      online = false;
+      const inserted = await sync.queueInsert('holidays', { title: 'Conference' });
+      await sync.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await sync.queueDelete('holidays', 'h2');
+
+      online = true;
+      const result = await sync.sync();
+
+      expect(result).toMatchObject({ success: true, syncedCount: 3, discardedCount: 0, errors: [] });
+      expect(log).toEqual([`upsert holidays ${inserted.id}`, 'update holidays h1', 'delete holidays h2']);
+      expect(sync.getState().pendingCount).toBe(0);
+      expect(onSynced).toHaveBeenCalledWith(['holidays']);
+      // Cache holds the server's version of the updated row
+      expect((await sync.read('holidays')).find(row => row.id === 'h1')?.updated_at).toBe(SERVER_NOW);
+    });
+
+    it('should replay the shared outbox once when two tabs reconnect together', async () => {
+      const store = new MemoryLocalStore();
+      const replayLock = createReplayLock();
+      const firstTab = createSync(store, replayLock);
+      const secondTab = createSync(store, replayLock);
+      online = false;
+      await firstTab.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await secondTab.queueDelete('holidays', 'h2');
+
+      online = true;
+      const [first, second] = await Promise.all([firstTab.sync(), secondTab.sync()]);
+
+      expect(first.syncedCount + second.syncedCount).toBe(2);
+      expect(log).toEqual(['update holidays h1', 'delete holidays h2']);
+      expect(await store.getAll('outbox')).toEqual([]);
+    });
+
+    it('should keep a server row edited after the offline change', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-10-19T10:00:00.000Z'));
+      const sync = createSync();
+      await sync.readThrough('holidays', fetchHolidays);
+
+      online = false;
+      await sync.queueUpdate('holidays', 'h1', { title: 'Offline title' });
+      vi.useRealTimers();
+
+      // Edited on another device after the offline change
+      Object.assign(tables.holidays[0], { title: 'Other device', updated_at: '2026-10-19T11:00:00.000Z' });
+
+      online = true;
+      const result = await sync.sync();
+
+      expect(result).toMatchObject({ success: true, syncedCount: 0, discardedCount: 1 });
+      expect(tables.holidays[0].title).toBe('Other device');
+      expect((await sync.read('holidays')).find(row => row.id === 'h1')?.title).toBe('Other device');
+    });
+
+    it('should stop and keep the remaining changes when the server is unreachable', async () => {
+      const sync = createSync();
+      online = false;
+      await sync.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await sync.queueUpdate('holidays', 'h2', { title: 'Check-up' });
+
+      online = true;
+      network.down = true;
+      const result = await sync.sync();
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(sync.getState().pendingCount).toBe(2);
+      expect(onSynced).not.toHaveBeenCalled();
+    });
+
+    it('should keep a rejected change as failed and replay the others', async () => {
+      const sync = createSync();
+      online = false;
+      await sync.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await sync.queueUpdate('holidays', 'h2', { title: 'Check-up' });
+
+      online = true;
+      rejected.add('h1');
+      const result = await sync.sync();
+
+      expect(result).toMatchObject({ success: false, syncedCount: 1, failedCount: 1 });
+      expect(log).toEqual(['update holidays h2']);
+      expect(sync.getState().pendingCount).toBe(0);
+      expect(sync.getState().failedChanges).toMatchObject([
+        { rowId: 'h1', error: 'new row violates row-level security policy' }
+      ]);
+
+      // Not replayed again until retried
+      await sync.sync();
+      expect(log).toEqual(['update holidays h2']);
+    });
+
+    it('should retry or discard failed changes', async () => {
+      const store = new MemoryLocalStore();
+      const sync = createSync(store);
+      online = false;
+      await sync.queueUpdate('holidays', 'h1', { title: 'Long trip' });
+      await sync.queueUpdate('holidays', 'h2', { title: 'Check-up' });
+      online = true;
+      rejected.add('h1').add('h2');
+      await sync.sync();
+
+      // Failure marks survive a new session
+      const nextSession = createSync(store);
+      await nextSession.sync();
+      expect(nextSession.getState().failedChanges).toHaveLength(2);
+
+      rejected.delete('h1');
+      const retried = await nextSession.retryFailed();
+      expect(retried).toMatchObject({ syncedCount: 1, failedCount: 1 });
+      expect(tables.holidays.find(row => row.id === 'h1')?.title).toBe('Long trip');
+
+      const [failed] = nextSession.getState().failedChanges;
+      await nextSession.discardFailed(failed.id);
+      expect(nextSession.getState().failedChanges).toHaveLength(0);
+      expect(onSynced).toHaveBeenLastCalledWith(['holidays']);
+    });
+
+    it('should not replay while offline', async () => {
+      const sync = createSync();
+      online = false;
+      await sync.queueDelete('holidays', 'h1');
+
+      const result = await sync.sync();
+
+      expect(result.success).toBe(false);
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(sync.getState().pendingCount).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Scenario Orchestrator Tests
+ *
+ * Tests for applying what-if scenarios including:
+ * - Converting a scenario diff into one database change set
+ * - Refusing to apply over conflicting edits
+ * - Sending all changes in a single apply_scenario call
+ *
+ * @see src/application/orchestrators/ScenarioOrchestrator.ts
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ScenarioOrchestrator } from '../ScenarioOrchestrator';
+import { supabase } from '@/infrastructure/database/client';
+import type { PhaseDTO, Project } from '@/shared/types/core';
+import {
+  addScenarioHoliday,
+  addScenarioPhase,
+  addScenarioProject,
+  createScenario,
+  diffScenario,
+  removeScenarioHoliday,
+  removeScenarioProject,
+  updateScenarioPhase,
+  updateScenarioProject,
+  type ScenarioSnapshot
+} from '@/domain/rules/scenarios/ScenarioSandbox';
+
+vi.mock('@/infrastructure/database/client', () => ({
+  supabase: {
+    auth: {
+      getUser: vi.fn(),
+    },
+    rpc: vi.fn(),
+    from: vi.fn(),
+  },
+}));
+
+describe('ScenarioOrchestrator', () => {
+  const createProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+    id,
+    name: `Project ${id}`,
+    client: 'client-1',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 1, 27),
+    estimatedHours: 80,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  const createPhase = (id: string, projectId: string): PhaseDTO => ({
+    id,
+    name: `Phase ${id}`,
+    projectId,
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 30),
+    dueDate: new Date(2026, 0, 30),
+    timeAllocation: 40,
+    timeAllocationHours: 40,
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  });
+
+  const createSnapshot = (): ScenarioSnapshot => ({
+    projects: [createProject('p1'), createProject('p2')],
+    phases: [createPhase('ph1', 'p1'), createPhase('ph2', 'p2')],
+    holidays: [{ id: 'h1', title: 'Conference', startDate: new Date(2026, 0, 19), endDate: new Date(2026, 0, 20) }],
+    weeklyWorkHours: {
+      monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: [],
+    },
+  });
+
+  const buildScenario = () => {
+    let scenario = createScenario(createSnapshot());
+    scenario = addScenarioProject(scenario, createProject('p3', { clientId: '', client: 'Acme' }));
+    scenario = addScenarioPhase(scenario, createPhase('ph3', 'p3'));
+    scenario = updateScenarioProject(scenario, 'p1', { endDate: new Date(2026, 2, 13) });
+    scenario = updateScenarioPhase(scenario, 'ph1', { timeAllocationHours: 60 });
+    scenario = removeScenarioProject(scenario, 'p2');
+    scenario = removeScenarioHoliday(scenario, 'h1');
+    return addScenarioHoliday(scenario, {
+      id: 'h2', title: 'Summer', startDate: new Date(2026, 6, 1), endDate: new Date(2026, 6, 14),
+    });
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(supabase.auth.getUser).mockResolvedValue({
+      data: { user: { id: 'user-1' } },
+      error: null,
+    } as never);
+  });
+
+  describe('buildApplyPayload', () => {
+    it('should turn the scenario diff into inserts, partial updates and deletes', () => {
+      const scenario = buildScenario();
+      const payload = ScenarioOrchestrator.buildApplyPayload(diffScenario(scenario), scenario.current, 'user-1');
+
+      expect(payload.projects.insert).toHaveLength(1);
+      expect(payload.projects.insert[0]).toMatchObject({
+        id: 'p3', user_id: 'user-1', start_date: '2026-01-05', end_date: '2026-02-27',
+      });
+      expect(payload.projects.update).toEqual([{ id: 'p1', end_date: '2026-03-13' }]);
+      expect(payload.projects.delete).toEqual(['p2']);
+
+      expect(payload.phases.insert.map(row => [row.id, row.project_id])).toEqual([['ph3', 'p3']]);
+      expect(payload.phases.update).toEqual([{ id: 'ph1', time_allocation: 60, time_allocation_hours: 60 }]);
+      // ph2 is deleted with its project
+      expect(payload.phases.delete).toEqual([]);
+
+      expect(payload.holidays.insert).toEqual([
+        { id: 'h2', title: 'Summer', start_date: '2026-07-01', end_date: '2026-07-14', user_id: 'user-1' },
+      ]);
+      expect(payload.holidays.delete).toEqual(['h1']);
+      expect(payload.weekly_work_hours).toBeUndefined();
+    });
+  });
+
+  describe('applyScenarioWorkflow', () => {
+    it('should send every change in one apply_scenario call', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: null } as never);
+      vi.mocked(supabase.from).mockImplementation((() => ({
+        select: () => ({
+          eq: () => ({
+            ilike: () => ({ maybeSingle: async () => ({ data: { id: 'client-acme' }, error: null }) }),
+          }),
+        }),
+      })) as never);
+      const scenario = buildScenario();
+
+      const result = await ScenarioOrchestrator.applyScenarioWorkflow(scenario, createSnapshot());
+
+      expect(result).toMatchObject({ success: true, changeCount: 8, conflicts: [] });
+      expect(supabase.rpc).toHaveBeenCalledTimes(1);
+      const [name, args] = vi.mocked(supabase.rpc).mock.calls[0] as unknown as [string, { changes: { projects: { insert: { client_id: string }[] } } }];
+      expect(name).toBe('apply_scenario');
+      expect(args.changes.projects.insert[0].client_id).toBe('client-acme');
+    });
+
+    it('should not write when reality changed since the scenario started', async () => {
+      const scenario = buildScenario();
+      const latest = createSnapshot();
+      latest.projects[0] = { ...latest.projects[0], updatedAt: new Date(2026, 0, 2) };
+
+      const result = await ScenarioOrchestrator.applyScenarioWorkflow(scenario, latest);
+
+      expect(result.success).toBe(false);
+      expect(result.conflicts).toEqual(['Project "Project p1" was edited after the scenario started']);
+      expect(supabase.rpc).not.toHaveBeenCalled();
+    });
+
+    it('should report database failures', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: null, error: new Error('Project p1 not found') } as never);
+      let scenario = createScenario(createSnapshot());
+      scenario = updateScenarioProject(scenario, 'p1', { estimatedHours: 100 });
+
+      const result = await ScenarioOrchestrator.applyScenarioWorkflow(scenario, createSnapshot());
+
+      expect(result).toMatchObject({ success: false, error: 'Project p1 not found' });
+    });
+  });
+});
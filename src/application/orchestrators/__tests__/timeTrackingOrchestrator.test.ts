@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import type { TimeTrackingState, SerializedTimeTrackingState } from '@/shared/types/timeTracking';
+import type { TimeTrackingState, SerializedTimeTrackingState, FocusSessionState } from '@/shared/types/timeTracking';
+import type { TimeTrackerWorkflowContext } from '../timeTrackingOrchestrator';
 
 /**
  * Time Tracking Orchestrator Tests
@@ -13,8 +14,9 @@ import type { TimeTrackingState, SerializedTimeTrackingState } from '@/shared/ty
  * - Window ID filtering (prevent feedback loops) ✓
  * - State callback invocation ✓
  * - Realtime subscription setup ✓
+ * - Focus phase advances claimed by one window only ✓
  * 
- * Test Results: 22/22 passing
+ * Test Results: 24/24 passing
  * 
  * CROSS-WINDOW SYNC ARCHITECTURE:
  * 1. Each window creates unique windowId: `window_${timestamp}_${random}`
@@ -80,6 +82,7 @@ vi.mock('../../queries/timeTracking', () => ({
   timeTrackingRepository: {
     setUserId: vi.fn(),
     saveState: vi.fn().mockResolvedValue(undefined),
+    saveStateIfFocusPhase: vi.fn().mockResolvedValue(true),
     loadState: vi.fn().mockResolvedValue(null),
     setupRealtimeSubscription: vi.fn().mockResolvedValue({}),
     cleanupRealtimeSubscription: vi.fn(),
@@ -89,6 +92,7 @@ vi.mock('../../queries/timeTracking', () => ({
 vi.mock('@/domain/rules/time-tracking/TimeTrackingCalculations', () => ({
   timeTrackingCalculations: {
     calculateDuration: vi.fn(),
+    calculateDurationHours: vi.fn().mockReturnValue(0.25),
   }
 }));
 
@@ -547,6 +551,61 @@ describe('TimeTrackingOrchestrator - Cross-Window Sync', () => {
     });
   });
 
+  describe('Focus Phase Completion', () => {
+    const createFocus = (overrides?: Partial<FocusSessionState>): FocusSessionState => ({
+      settings: { workMinutes: 25, breakMinutes: 5, longBreakMinutes: 15, sessionsBeforeLongBreak: 4, autoLogBreaks: true },
+      phase: 'break',
+      phaseStartedAt: new Date('2025-01-08T10:25:00Z'),
+      completedSessions: 1,
+      project: { id: 'project-123', name: 'Test Project' },
+      ...overrides
+    });
+
+    afterEach(async () => {
+      const { timeTrackingRepository } = await import('../../queries/timeTracking');
+      vi.mocked(timeTrackingRepository.loadState).mockResolvedValue(null);
+    });
+
+    it('should log a finished break once when two windows complete it together', async () => {
+      const { timeTrackingOrchestrator } = await import('../timeTrackingOrchestrator');
+      const { timeTrackingRepository } = await import('../../queries/timeTracking');
+      const focus = createFocus();
+      vi.mocked(timeTrackingRepository.loadState).mockResolvedValue(
+        createTrackingState({ isTracking: false, focus })
+      );
+      // The synced state moves on after the first conditional write
+      vi.mocked(timeTrackingRepository.saveStateIfFocusPhase)
+        .mockResolvedValueOnce(true)
+        .mockResolvedValueOnce(false);
+      const addEvent = vi.fn().mockResolvedValue(undefined);
+
+      const results = await Promise.all([
+        timeTrackingOrchestrator.completeFocusBreakWorkflow(addEvent),
+        timeTrackingOrchestrator.completeFocusBreakWorkflow(addEvent)
+      ]);
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(timeTrackingRepository.saveStateIfFocusPhase).toHaveBeenCalledWith(
+        expect.objectContaining({ isTracking: false, focus: expect.objectContaining({ phase: 'ready' }) }),
+        focus
+      );
+      expect(addEvent).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not stop tracking when another window already started the break', async () => {
+      const { timeTrackingOrchestrator } = await import('../timeTrackingOrchestrator');
+      const { timeTrackingRepository } = await import('../../queries/timeTracking');
+      const focus = createFocus({ phase: 'work', phaseStartedAt: new Date('2025-01-08T10:00:00Z'), completedSessions: 0 });
+      vi.mocked(timeTrackingRepository.loadState).mockResolvedValue(createTrackingState({ focus }));
+      vi.mocked(timeTrackingRepository.saveStateIfFocusPhase).mockResolvedValueOnce(false);
+
+      const result = await timeTrackingOrchestrator.completeFocusWorkWorkflow({} as TimeTrackerWorkflowContext);
+
+      expect(result).toEqual({ success: true });
+      expect(timeTrackingRepository.saveState).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle state with all null/undefined optional fields', async () => {
       const { timeTrackingOrchestrator } = await import('../timeTrackingOrchestrator');
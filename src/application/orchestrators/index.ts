@@ -8,5 +8,13 @@ export * from './GroupOrchestrator';
 export * from './CalendarImportOrchestrator';
 export * from './FeedbackOrchestrator';
 export * from './ProfileOrchestrator';
+export * from './DataBackupOrchestrator';
+export * from './ScenarioOrchestrator';
+export * from './CommandHistoryOrchestrator';
+export * from './OfflineSyncOrchestrator';
+export * from './TaskOrchestrator';
+export * from './DependencyOrchestrator';
+export * from './PlanBaselineOrchestrator';
+export * from './SavedFilterOrchestrator';
 export { timeTrackingOrchestrator } from './timeTrackingOrchestrator';
 
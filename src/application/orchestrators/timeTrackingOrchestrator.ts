@@ -1,11 +1,24 @@
 import { timeTrackingRepository } from '@/application/queries/timeTracking';
 import { timeTrackingCalculations } from '@/domain/rules/time-tracking/TimeTrackingCalculations';
 import { CalendarEventMapper } from '@/infrastructure/mappers/CalendarEventMapper';
-import type { TimeTrackingState, SerializedTimeTrackingState, TimeTrackingSyncMessage } from '@/shared/types/timeTracking';
+import type { TimeTrackingState, SerializedTimeTrackingState, TimeTrackingSyncMessage, FocusSessionState, FocusSettings } from '@/shared/types/timeTracking';
 import type { CalendarEvent } from '@/shared/types/core';
 import { supabase } from '@/infrastructure/database/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import {
+  FOCUS_SESSION_CONFIG,
+  completeFocusPhase,
+  deserializeFocusSession,
+  getBreakToLog,
+  getFocusPhaseEnd,
+  isFocusPhaseComplete,
+  resumeFocusSession,
+  serializeFocusSession,
+  startFocusSession,
+  validateFocusSettings
+} from '@/domain/rules/time-tracking/FocusSession';
+import { SESSION_ADJUSTMENT_CONFIG, type IdleResolution, type IdleSpan } from '@/domain/rules/time-tracking/SessionAdjustment';
 
 type SelectedProject = NonNullable<TimeTrackingState['selectedProject']>;
 
@@ -70,7 +83,9 @@ export interface TimeTrackerWorkflowContext {
   dbSyncIntervalRef?: React.MutableRefObject<NodeJS.Timeout | null>;
   currentStateRef: React.MutableRefObject<TimeTrackingState | null>;
   updateEvent?: (id: string, updates: Partial<CalendarEvent>, options?: { silent?: boolean }) => Promise<CalendarEvent | void | undefined>;
+  deleteEvent?: (id: string) => Promise<void>;
   stopTime?: Date; // Capture the exact stop time
+  focus?: FocusSessionState | null; // Focus session carried into the synced state
 }
 export interface TimeTrackerWorkflowResult {
   success: boolean;
@@ -154,7 +169,8 @@ class TimeTrackingOrchestrator {
       searchQuery: state.searchQuery,
       affectedEvents: state.affectedEvents,
       currentSeconds: state.currentSeconds,
-      lastUpdated: state.lastUpdated ?? state.lastUpdateTime ?? new Date()
+      lastUpdated: state.lastUpdated ?? state.lastUpdateTime ?? new Date(),
+      focus: state.focus ?? null
     };
   }
   /**
@@ -183,7 +199,8 @@ class TimeTrackingOrchestrator {
         selectedProject: state.selectedProject ?? null,
         searchQuery: state.searchQuery ?? '',
         affectedEvents: state.affectedEvents ?? [],
-        currentSeconds: state.currentSeconds ?? 0
+        currentSeconds: state.currentSeconds ?? 0,
+        focus: deserializeFocusSession(state.focus)
       };
     }
     return null;
@@ -257,6 +274,7 @@ class TimeTrackingOrchestrator {
       searchQuery: state.searchQuery ?? '',
       affectedEvents: state.affectedEvents ?? [],
       currentSeconds: state.currentSeconds ?? 0,
+      focus: serializeFocusSession(state.focus),
     };
   }
   private deserializeState(serializedState: SerializedTimeTrackingState): TimeTrackingState {
@@ -274,6 +292,7 @@ class TimeTrackingOrchestrator {
       affectedEvents: serializedState.affectedEvents ?? [],
       currentSeconds: serializedState.currentSeconds ?? 0,
       lastUpdated: serializedState.lastUpdateTime ? new Date(serializedState.lastUpdateTime) : undefined,
+      focus: deserializeFocusSession(serializedState.focus),
     };
   }
   setUserId(userId: string): void {
@@ -372,6 +391,24 @@ class TimeTrackingOrchestrator {
       this.onStateChangeCallback(validatedState);
     }
   }
+  /**
+   * syncState, but only while the synced focus session is still in `expected`'s phase
+   * @returns Whether this caller changed the state (false: another window or device got there first)
+   */
+  private async syncStateIfFocusPhase(
+    state: Partial<TimeTrackingState>,
+    expected: FocusSessionState,
+    skipLocalCallback: boolean = false
+  ): Promise<boolean> {
+    const validatedState = this.validateState(state);
+    const saved = await timeTrackingRepository.saveStateIfFocusPhase(validatedState, expected);
+    if (!saved) return false;
+    this.broadcastStateChange(validatedState);
+    if (!skipLocalCallback && this.onStateChangeCallback) {
+      this.onStateChangeCallback(validatedState);
+    }
+    return true;
+  }
   async setupRealtimeSubscription(): Promise<RealtimeChannel | null> {
     if (!this.userId) {
       throw new Error('User ID must be set before setting up realtime subscription');
@@ -469,7 +506,7 @@ class TimeTrackingOrchestrator {
       // Use the same format as the original working implementation
       const projectName = selectedProject?.name || searchQuery || 'Time Tracking';
       const eventData = {
-        title: 'Tracked Time',
+        title: context.focus ? FOCUS_SESSION_CONFIG.WORK_EVENT_TITLE : 'Tracked Time',
         startTime: now,
         endTime: new Date(now.getTime() + 60000), // Start with 1 minute
         projectId: selectedProject?.id,
@@ -477,6 +514,7 @@ class TimeTrackingOrchestrator {
         description: `🔴 ${projectName}`,
         duration: 0.0167, // 1 minute in hours
         type: 'tracked' as const,
+        focusSession: !!context.focus,
         completed: true // Time being tracked is considered completed by default
       };
       // Add the event with explicit silent option to avoid toast spam
@@ -549,7 +587,8 @@ class TimeTrackingOrchestrator {
         selectedProject: selectedProject,
         searchQuery: searchQuery,
         affectedEvents: [],
-        currentSeconds: 0
+        currentSeconds: 0,
+        focus: context.focus ?? null
       };
       // // console.log('🔍 WORKFLOW - Saving fullState:', {
       //   eventId: fullState.eventId,
@@ -615,7 +654,9 @@ class TimeTrackingOrchestrator {
         selectedProject: null,
         searchQuery: '',
         affectedEvents: [],
-        currentSeconds: 0
+        currentSeconds: 0,
+        // A focus session continues into its break (auto-pause); plain stops end it
+        focus: context.focus ?? null
       } as TimeTrackingState;
       await this.syncState(stoppedState, true);
         return {
@@ -672,7 +713,9 @@ class TimeTrackingOrchestrator {
         selectedProject: null,
         searchQuery: '',
         affectedEvents: [],
-        currentSeconds: 0
+        currentSeconds: 0,
+        // A focus session continues into its break (auto-pause); plain stops end it
+        focus: context.focus ?? null
       } as TimeTrackingState;
       await this.syncState(stoppedState, false);
       return {
@@ -805,6 +848,206 @@ class TimeTrackingOrchestrator {
     }
   }
   // -------------------------------------------------------------------------------------
+  // FOCUS MODE WORKFLOWS
+  // -------------------------------------------------------------------------------------
+  /**
+   * Start a focus session: the first work interval is tracked like any tracking session
+   */
+  async startFocusWorkflow(context: TimeTrackerWorkflowContext, settings: FocusSettings): Promise<TimeTrackerWorkflowResult> {
+    const validation = validateFocusSettings(settings);
+    if (!validation.isValid) {
+      return { success: false, error: validation.errors.join(', ') };
+    }
+    if (context.currentStateRef.current?.isTracking) {
+      return { success: false, error: 'Stop tracking before starting a focus session' };
+    }
+    const focus = startFocusSession(settings, context.selectedProject);
+    return this.startTrackingWorkflow({ ...context, focus });
+  }
+  /**
+   * Work interval finished: auto-pause tracking at the interval end and start the break
+   * No-op when the session has already moved on (e.g. another window got there first):
+   * the break starts through a conditional write, and only its winner stops tracking.
+   */
+  async completeFocusWorkWorkflow(context: TimeTrackerWorkflowContext): Promise<TimeTrackerWorkflowResult> {
+    try {
+      const state = await this.loadState();
+      const focus = state?.focus;
+      if (!state || !focus || focus.phase !== 'work' || !isFocusPhaseComplete(focus)) {
+        return { success: true };
+      }
+      const next = completeFocusPhase(focus);
+      if (!(await this.syncStateIfFocusPhase({ ...state, focus: next }, focus, true))) {
+        return { success: true };
+      }
+      return this.stopTrackingWorkflow({
+        ...context,
+        stopTime: getFocusPhaseEnd(focus) ?? new Date(),
+        focus: next
+      });
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingOrchestrator', action: 'Complete focus work workflow failed:' });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to start break' };
+    }
+  }
+  /**
+   * Break finished: log it (if enabled) and wait for the next work interval
+   * Only the window or device whose conditional write ends the break logs it.
+   */
+  async completeFocusBreakWorkflow(addEvent: TimeTrackerWorkflowContext['addEvent']): Promise<TimeTrackerWorkflowResult> {
+    try {
+      const focus = (await this.loadState())?.focus;
+      if (!focus || focus.phase !== 'break' || !isFocusPhaseComplete(focus)) {
+        return { success: true };
+      }
+      if (!(await this.syncStateIfFocusPhase(this.createIdleState(completeFocusPhase(focus)), focus))) {
+        return { success: true };
+      }
+      await this.logFocusBreak(focus, addEvent);
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingOrchestrator', action: 'Complete focus break workflow failed:' });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to end break' };
+    }
+  }
+  /**
+   * Start the next work interval, after a break or cutting it short
+   */
+  async resumeFocusWorkflow(context: TimeTrackerWorkflowContext): Promise<TimeTrackerWorkflowResult> {
+    const focus = (await this.loadState())?.focus;
+    if (!focus || focus.phase === 'work' || !focus.project) {
+      return { success: false, error: 'No focus session to resume' };
+    }
+    try {
+      await this.logFocusBreak(focus, context.addEvent);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingOrchestrator', action: 'Failed to log focus break:' });
+    }
+    return this.startTrackingWorkflow({
+      ...context,
+      selectedProject: focus.project,
+      searchQuery: focus.project.name,
+      focus: resumeFocusSession(focus)
+    });
+  }
+  /**
+   * End a focus session during a break (a running work interval ends by stopping tracking)
+   */
+  async endFocusWorkflow(addEvent: TimeTrackerWorkflowContext['addEvent']): Promise<TimeTrackerWorkflowResult> {
+    try {
+      const state = await this.loadState();
+      if (state?.isTracking) {
+        return { success: false, error: 'Stop tracking to end the focus session' };
+      }
+      if (state?.focus) {
+        await this.logFocusBreak(state.focus, addEvent);
+      }
+      await this.syncState(this.createIdleState(null), false);
+      return { success: true };
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingOrchestrator', action: 'End focus workflow failed:' });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to end focus session' };
+    }
+  }
+  /**
+   * Log the break taken so far as a non-project event (when the session logs breaks)
+   */
+  private async logFocusBreak(focus: FocusSessionState, addEvent: TimeTrackerWorkflowContext['addEvent']): Promise<void> {
+    const block = getBreakToLog(focus);
+    if (!block) return;
+    await addEvent({
+      title: FOCUS_SESSION_CONFIG.BREAK_EVENT_TITLE,
+      startTime: block.startTime,
+      endTime: block.endTime,
+      color: FOCUS_SESSION_CONFIG.BREAK_EVENT_COLOR,
+      duration: timeTrackingCalculations.calculateDurationHours(block.startTime, block.endTime),
+      type: 'completed',
+      completed: true
+    });
+  }
+  /**
+   * Not-tracking state, optionally keeping a focus session between work intervals
+   */
+  private createIdleState(focus: FocusSessionState | null): TimeTrackingState {
+    return {
+      isTracking: false,
+      isPaused: false,
+      projectId: null,
+      startTime: null,
+      pausedAt: null,
+      totalPausedDuration: 0,
+      lastUpdateTime: new Date(),
+      eventId: null,
+      selectedProject: null,
+      searchQuery: '',
+      affectedEvents: [],
+      currentSeconds: 0,
+      focus
+    };
+  }
+  // -------------------------------------------------------------------------------------
+  // IDLE TIME WORKFLOWS
+  // -------------------------------------------------------------------------------------
+  /**
+   * Resolve time the user was away while the tracker kept running
+   * - keep: nothing changes
+   * - discard: the session ends when the user went idle
+   * - reassign: as discard, and the idle span is logged for another project
+   * With resume, a new session for the same project starts now.
+   */
+  async resolveIdleWorkflow(
+    context: TimeTrackerWorkflowContext,
+    idle: IdleSpan,
+    resolution: IdleResolution,
+    options: { reassignProject?: SelectedProject | null; resume?: boolean } = {}
+  ): Promise<TimeTrackerWorkflowResult> {
+    const currentState = context.currentStateRef.current;
+    if (resolution === 'keep' || !currentState?.isTracking) {
+      return { success: true };
+    }
+    if (resolution === 'reassign' && !options.reassignProject) {
+      return { success: false, error: 'Choose a project for the idle time' };
+    }
+    const trackedProject = currentState.selectedProject;
+    const trackedFrom = context.startTimeRef.current;
+
+    const stopResult = await this.stopTrackingWorkflow({ ...context, stopTime: idle.startTime, focus: null });
+    if (!stopResult.success) return stopResult;
+
+    try {
+      // Went idle right after starting - nothing of the session is left
+      const keptMs = trackedFrom ? idle.startTime.getTime() - trackedFrom.getTime() : 0;
+      if (stopResult.eventId && context.deleteEvent && keptMs < SESSION_ADJUSTMENT_CONFIG.MIN_SEGMENT_MINUTES * 60 * 1000) {
+        await context.deleteEvent(stopResult.eventId);
+      }
+      if (resolution === 'reassign' && options.reassignProject) {
+        await context.addEvent({
+          title: 'Tracked Time',
+          startTime: idle.startTime,
+          endTime: idle.endTime,
+          projectId: options.reassignProject.id,
+          color: options.reassignProject.color || '#DC2626',
+          description: `🔴 ${options.reassignProject.name}`,
+          duration: timeTrackingCalculations.calculateDurationHours(idle.startTime, idle.endTime),
+          type: 'completed',
+          completed: true
+        });
+      }
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingOrchestrator', action: 'Failed to log idle time:' });
+      return { success: false, error: error instanceof Error ? error.message : 'Failed to log idle time' };
+    }
+
+    if (options.resume && trackedProject) {
+      return this.startTrackingWorkflow({
+        ...context,
+        selectedProject: trackedProject,
+        searchQuery: currentState.searchQuery || trackedProject.name
+      });
+    }
+    return { success: true };
+  }
+  // -------------------------------------------------------------------------------------
   // REPOSITORY-INTEGRATED WORKFLOWS (Phase 5E)
   // -------------------------------------------------------------------------------------
   /**
@@ -0,0 +1,97 @@
+/**
+ * Capacity Allocation Aggregation
+ *
+ * Rebalances the auto-estimates of all projects under each day's available
+ * hours: builds per-project estimates, turns them into demand, measures what
+ * every day has left after calendar events and runs the global allocator.
+ *
+ * @see src/domain/rules/availability/CapacityAllocation.ts - Allocation rules
+ */
+
+import type { CalendarEvent, DayEstimate, Holiday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import {
+  allocateCapacity,
+  buildAllocationDemands,
+  CAPACITY_ALLOCATION_CONFIG,
+  type AllocationOrder,
+  type CapacityAllocationResult
+} from '@/domain/rules/availability/CapacityAllocation';
+import { calculateDailyAvailableHours } from '@/domain/rules/availability/DailyMetrics';
+import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { getEstimatePhasesForProject } from './DayEstimateAggregate';
+
+export interface CapacityAllocationSources {
+  projects: Project[]; // In priority order (first = highest)
+  phases: PhaseDTO[];
+  events: CalendarEvent[];
+  settings: Settings;
+  holidays: Holiday[];
+}
+
+export interface ProjectCapacityAllocation extends CapacityAllocationResult {
+  estimatesByProject: Map<string, DayEstimate[]>; // Events + rebalanced estimates, ready for project bars
+  horizonEnd: Date;
+}
+
+/**
+ * Rebalance every project's auto-estimates under daily capacity
+ *
+ * Only estimates from the reference date up to the allocation horizon move;
+ * event time and estimates beyond the horizon are kept as calculated.
+ */
+export function allocateProjectCapacity(
+  sources: CapacityAllocationSources,
+  order: AllocationOrder = 'deadline',
+  referenceDate: Date = new Date()
+): ProjectCapacityAllocation {
+  const { projects, phases, events, settings, holidays } = sources;
+  const horizonStart = normalizeToMidnight(new Date(referenceDate));
+  const horizonEnd = addDaysToDate(horizonStart, CAPACITY_ALLOCATION_CONFIG.HORIZON_DAYS - 1);
+  const inHorizon = (estimate: DayEstimate) => {
+    const date = normalizeToMidnight(new Date(estimate.date));
+    return date >= horizonStart && date <= horizonEnd;
+  };
+
+  const estimatesByProject = new Map<string, DayEstimate[]>();
+  const demands = projects.flatMap((project, index) => {
+    const projectPhases = getEstimatePhasesForProject(
+      project,
+      phases.filter(phase => phase.projectId === project.id)
+    );
+    const estimates = calculateProjectDayEstimates(
+      project, projectPhases, settings, holidays, events, horizonStart, horizonEnd
+    );
+    // Recurring phase occurrences are time boxes; their hours stay on their days
+    const fixedPhaseIds = new Set(projectPhases.filter(phase => phase.isRecurring).map(phase => phase.id));
+
+    estimatesByProject.set(
+      project.id,
+      estimates.filter(estimate => estimate.source === 'event' || !inHorizon(estimate))
+    );
+    return buildAllocationDemands(project.id, estimates.filter(inHorizon), index, fixedPhaseIds);
+  });
+
+  const dayAfterHorizon = addDaysToDate(horizonEnd, 1);
+  const horizonEvents = events.filter(event =>
+    new Date(event.endTime) >= horizonStart && new Date(event.startTime) < dayAfterHorizon
+  );
+  const capacityByDate = new Map<string, number>();
+  demands.forEach(demand => {
+    demand.requestedByDate.forEach((_, key) => {
+      if (capacityByDate.has(key)) return;
+      const [year, month, day] = key.split('-').map(Number);
+      capacityByDate.set(key, calculateDailyAvailableHours(new Date(year, month - 1, day), horizonEvents, settings, holidays));
+    });
+  });
+
+  const result = allocateCapacity(demands, capacityByDate, order);
+  result.estimates.forEach(estimate => {
+    estimatesByProject.get(estimate.projectId)?.push(estimate);
+  });
+  estimatesByProject.forEach(estimates => {
+    estimates.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  });
+
+  return { ...result, estimatesByProject, horizonEnd };
+}
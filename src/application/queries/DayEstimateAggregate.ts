@@ -42,25 +42,7 @@ export function getDailyProjectSummaries(
     const projectSummaries: DailyProjectSummary[] = [];
     
     projects.forEach(project => {
-      // Fetch and normalize phases for this project to match TimelineBar logic
-      const allPhases = phasesMap.get(project.id) || [];
-      const projectStart = new Date(project.startDate);
-      const projectEnd = new Date(project.endDate);
-
-      // Filter phases within project bounds
-      let projectPhases = allPhases.filter((phase: PhaseDTO) => {
-        const end = new Date(phase.endDate || phase.dueDate);
-        return end >= projectStart && end <= projectEnd;
-      });
-
-      // HYBRID SYSTEM: If there's a template phase (isRecurring=true),
-      // exclude old numbered instances to prevent double-counting
-      const hasTemplatePhase = projectPhases.some((phase: PhaseDTO) => phase.isRecurring === true);
-      if (hasTemplatePhase) {
-        projectPhases = projectPhases.filter((phase: PhaseDTO) => 
-          phase.isRecurring === true || (!phase.isRecurring && (!phase.name || !/\s\d+$/.test(phase.name)))
-        );
-      }
+      const projectPhases = getEstimatePhasesForProject(project, phasesMap.get(project.id) || []);
 
       // Calculate day estimates for this project (this already excludes days with events)
       const dayEstimates = calculateProjectDayEstimates(
@@ -100,6 +82,29 @@ export function getDailyProjectSummaries(
   return summariesByDate;
 }
 
+/**
+ * Normalize a project's phases for day estimate calculation (matches TimelineBar logic)
+ * - Keeps phases ending within the project bounds
+ * - HYBRID SYSTEM: with a template phase (isRecurring=true), old numbered instances
+ *   are excluded to prevent double-counting
+ */
+export function getEstimatePhasesForProject(project: Project, allPhases: PhaseDTO[]): PhaseDTO[] {
+  const projectStart = new Date(project.startDate);
+  const projectEnd = new Date(project.endDate);
+
+  const projectPhases = allPhases.filter((phase: PhaseDTO) => {
+    const end = new Date(phase.endDate || phase.dueDate);
+    return end >= projectStart && end <= projectEnd;
+  });
+
+  const hasTemplatePhase = projectPhases.some((phase: PhaseDTO) => phase.isRecurring === true);
+  if (!hasTemplatePhase) return projectPhases;
+
+  return projectPhases.filter((phase: PhaseDTO) =>
+    phase.isRecurring === true || (!phase.isRecurring && (!phase.name || !/\s\d+$/.test(phase.name)))
+  );
+}
+
 /**
  * Get day estimates for a specific date
  * Helper function to filter estimates by date
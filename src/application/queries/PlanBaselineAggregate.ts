@@ -0,0 +1,78 @@
+/**
+ * Plan Baseline Aggregation
+ *
+ * Captures the live plan the way a baseline freezes it: project state from
+ * Project.getSnapshot(), phases, and the day estimates calculateProjectDayEstimates
+ * produces over each project's baseline window. The same capture, windowed at the
+ * baseline's capture date, is compared with a saved baseline to measure drift.
+ * Auto-estimates only cover today onwards but still add up to the budget, so
+ * project totals stay comparable as days pass.
+ *
+ * @see src/domain/rules/baselines/PlanBaseline.ts - Snapshot and comparison rules
+ */
+
+import type { CalendarEvent, Holiday, PhaseDTO, PlanBaseline, PlanBaselineSnapshot, Project, Settings } from '@/shared/types/core';
+import { Project as ProjectEntity } from '@/domain/entities/Project';
+import {
+  comparePlanToBaseline,
+  createPlanBaselineSnapshot,
+  getBaselineEstimateWindow,
+  type PlanBaselineComparison
+} from '@/domain/rules/baselines/PlanBaseline';
+import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { getEstimatePhasesForProject } from './DayEstimateAggregate';
+
+export interface PlanBaselineSources {
+  projects: Project[];
+  phases: PhaseDTO[];
+  events: CalendarEvent[];
+  settings: Settings;
+  holidays: Holiday[];
+}
+
+/**
+ * Snapshot the live plan
+ * The reference date places the estimate window of continuous projects and is
+ * stored as the capture time.
+ */
+export function capturePlanSnapshot(
+  sources: PlanBaselineSources,
+  referenceDate: Date = new Date()
+): PlanBaselineSnapshot {
+  const { projects, phases, events, settings, holidays } = sources;
+  const projectSnapshots = projects.map(project => ProjectEntity.fromDatabase(project).getSnapshot());
+
+  const dayEstimates = projects.flatMap((project, index) => {
+    const { start, end } = getBaselineEstimateWindow(projectSnapshots[index], referenceDate);
+    const projectPhases = getEstimatePhasesForProject(
+      project,
+      phases.filter(phase => phase.projectId === project.id)
+    );
+    return calculateProjectDayEstimates(project, projectPhases, settings, holidays, events, start, end)
+      .filter(estimate => {
+        const date = normalizeToMidnight(new Date(estimate.date));
+        return date >= start && date <= end;
+      });
+  });
+
+  return createPlanBaselineSnapshot({
+    projects: projectSnapshots,
+    phases,
+    dayEstimates,
+    capturedAt: referenceDate
+  });
+}
+
+/**
+ * Drift of the live plan from a saved baseline
+ * Continuous projects are windowed at the baseline's capture date so both sides
+ * cover the same days.
+ */
+export function comparePlanWithBaseline(
+  baseline: PlanBaseline,
+  sources: PlanBaselineSources
+): PlanBaselineComparison {
+  const current = capturePlanSnapshot(sources, new Date(baseline.snapshot.capturedAt));
+  return comparePlanToBaseline(baseline.snapshot, current);
+}
@@ -0,0 +1,74 @@
+/**
+ * Project Revenue Aggregation
+ *
+ * Combines day estimates with billing rates to report earned, forecast and
+ * budgeted revenue per project and per currency.
+ *
+ * @see src/domain/rules/projects/ProjectRevenue.ts - Revenue rules
+ */
+
+import type { Project, PhaseDTO, CalendarEvent, Settings, Holiday, Client } from '@/shared/types/core';
+import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
+import {
+  calculateProjectRevenue,
+  summarizeRevenueByCurrency,
+  type ProjectRevenue,
+  type RevenueTotals
+} from '@/domain/rules/projects/ProjectRevenue';
+import { getEstimatePhasesForProject } from './DayEstimateAggregate';
+
+export interface RevenueDataSources {
+  projects: Project[];
+  phases: PhaseDTO[];
+  clients: Client[];
+  events: CalendarEvent[];
+  settings: Settings;
+  holidays: Holiday[];
+}
+
+/**
+ * Earned, forecast and budgeted revenue for one project
+ */
+export function getProjectRevenue(
+  project: Project,
+  sources: Omit<RevenueDataSources, 'projects'>,
+  referenceDate: Date = new Date()
+): ProjectRevenue {
+  const projectPhases = getEstimatePhasesForProject(
+    project,
+    sources.phases.filter(phase => phase.projectId === project.id)
+  );
+  const estimates = calculateProjectDayEstimates(
+    project,
+    projectPhases,
+    sources.settings,
+    sources.holidays,
+    sources.events
+  );
+
+  return calculateProjectRevenue({
+    project,
+    client: sources.clients.find(client => client.id === project.clientId),
+    phases: projectPhases,
+    events: sources.events,
+    estimates,
+    referenceDate
+  });
+}
+
+/**
+ * Revenue for every billed project, with totals per currency
+ */
+export function getRevenueOverview(
+  sources: RevenueDataSources,
+  referenceDate: Date = new Date()
+): { projects: ProjectRevenue[]; totals: RevenueTotals[] } {
+  const projects = sources.projects
+    .map(project => getProjectRevenue(project, sources, referenceDate))
+    .filter(revenue => revenue.rate || revenue.phases.length > 0);
+
+  return {
+    projects,
+    totals: summarizeRevenueByCurrency(projects)
+  };
+}
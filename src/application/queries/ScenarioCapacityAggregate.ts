@@ -0,0 +1,144 @@
+/**
+ * Scenario Capacity Aggregation
+ *
+ * Recomputes capacity for a what-if scenario and compares it with reality:
+ * work hours per day (the resolved work week minus holidays), calendar events and the
+ * auto-estimates of every project and phase.
+ *
+ * @see src/domain/rules/scenarios/ScenarioSandbox.ts - Scenario rules
+ * @see src/domain/rules/availability/CapacityAnalysis.ts - Capacity rules
+ */
+
+import type { CalendarEvent, WorkHour } from '@/shared/types/core';
+import {
+  generateWorkHoursForDate,
+  isDayOverbooked,
+  performCapacityPlanning
+} from '@/domain/rules/availability/CapacityAnalysis';
+import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
+import type { Scenario, ScenarioSnapshot } from '@/domain/rules/scenarios/ScenarioSandbox';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+import { getEstimatePhasesForProject } from './DayEstimateAggregate';
+
+export interface CapacityRange {
+  start: Date;
+  end: Date;
+}
+
+export interface DayLoad {
+  date: string; // YYYY-MM-DD
+  capacityHours: number;
+  eventHours: number;
+  estimatedHours: number;
+  loadHours: number;
+  isOverbooked: boolean;
+}
+
+export interface SnapshotCapacity {
+  days: DayLoad[];
+  totalCapacity: number;
+  totalLoad: number;
+  utilization: number; // percentage
+  overbookedDays: string[];
+}
+
+export interface ScenarioCapacityComparison {
+  reality: SnapshotCapacity;
+  scenario: SnapshotCapacity;
+  capacityDelta: number;
+  loadDelta: number;
+  utilizationDelta: number;
+  newlyOverbookedDays: string[];
+  resolvedOverbookedDays: string[];
+}
+
+/**
+ * Capacity and load per day for one snapshot (reality or scenario)
+ *
+ * Events of projects missing from the snapshot are ignored, so removing a
+ * project in a scenario frees its booked time.
+ */
+export function analyzeSnapshotCapacity(
+  snapshot: ScenarioSnapshot,
+  events: CalendarEvent[],
+  range: CapacityRange
+): SnapshotCapacity {
+  // Schedule templates replace the default week on their dates (resolveWorkWeek)
+  const settings = { weeklyWorkHours: snapshot.weeklyWorkHours, workSchedules: snapshot.workSchedules };
+  const start = normalizeToMidnight(new Date(range.start));
+  const end = normalizeToMidnight(new Date(range.end));
+  const projectIds = new Set(snapshot.projects.map(project => project.id));
+  const snapshotEvents = events.filter(event => !event.projectId || projectIds.has(event.projectId));
+
+  const workHours: WorkHour[] = [];
+  // Normal work slots; capacity planning applies full and partial-day holidays
+  for (let date = start; date <= end; date = addDaysToDate(date, 1)) {
+    workHours.push(...generateWorkHoursForDate(date, settings));
+  }
+
+  const planning = performCapacityPlanning(workHours, snapshotEvents, start, end, snapshot.holidays);
+
+  // Event time is already counted by capacity planning; add only estimates
+  const estimatedByDay = new Map<string, number>();
+  snapshot.projects.forEach(project => {
+    const phases = getEstimatePhasesForProject(
+      project,
+      snapshot.phases.filter(phase => phase.projectId === project.id)
+    );
+    calculateProjectDayEstimates(project, phases, settings, snapshot.holidays, snapshotEvents, start, end)
+      .filter(estimate => estimate.source !== 'event')
+      .forEach(estimate => {
+        const key = getDateKey(estimate.date);
+        estimatedByDay.set(key, (estimatedByDay.get(key) ?? 0) + estimate.hours);
+      });
+  });
+
+  const days: DayLoad[] = Array.from(planning.capacityMap.entries()).map(([date, capacity]) => {
+    const estimatedHours = estimatedByDay.get(date) ?? 0;
+    const loadHours = capacity.allocatedHours + estimatedHours;
+    return {
+      date,
+      capacityHours: capacity.totalHours,
+      eventHours: capacity.allocatedHours,
+      estimatedHours,
+      loadHours,
+      isOverbooked: isDayOverbooked({ ...capacity, allocatedHours: loadHours })
+    };
+  });
+
+  const totalCapacity = planning.totalCapacity;
+  const totalLoad = days.reduce((sum, day) => sum + day.loadHours, 0);
+
+  return {
+    days,
+    totalCapacity,
+    totalLoad,
+    utilization: totalCapacity > 0 ? (totalLoad / totalCapacity) * 100 : 0,
+    overbookedDays: days.filter(day => day.isOverbooked).map(day => day.date)
+  };
+}
+
+/**
+ * Capacity of a scenario compared with the reality it was cloned from
+ */
+export function compareScenarioCapacity(
+  scenario: Scenario,
+  events: CalendarEvent[],
+  range: CapacityRange
+): ScenarioCapacityComparison {
+  const reality = analyzeSnapshotCapacity(scenario.baseline, events, range);
+  const hypothetical = analyzeSnapshotCapacity(scenario.current, events, range);
+  const realityOverbooked = new Set(reality.overbookedDays);
+  const scenarioOverbooked = new Set(hypothetical.overbookedDays);
+
+  return {
+    reality,
+    scenario: hypothetical,
+    capacityDelta: hypothetical.totalCapacity - reality.totalCapacity,
+    loadDelta: hypothetical.totalLoad - reality.totalLoad,
+    utilizationDelta: hypothetical.utilization - reality.utilization,
+    newlyOverbookedDays: hypothetical.overbookedDays.filter(day => !realityOverbooked.has(day)),
+    resolvedOverbookedDays: reality.overbookedDays.filter(day => !scenarioOverbooked.has(day))
+  };
+}
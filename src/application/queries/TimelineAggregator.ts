@@ -33,8 +33,9 @@ import { calculateWorkHoursTotal } from '@/domain/rules/availability/WorkHourGen
 import { calculateHabitTimeWithinWorkSlots, calculatePlannedTimeNotOverlappingHabits, calculateNetAvailability, isHolidayDateCapacity, calculateOvertimePlannedHours, calculateTotalPlannedHours, calculateOtherTime } from '@/domain/rules/availability/CapacityAnalysis';
 import { expandHolidayDates } from '@/domain/rules/holidays/HolidayCalculations';
 import { calculateAutoEstimateHoursPerDay, calculateAutoEstimateWorkingDays } from '@/domain/rules/projects/ProjectBudget';
-import { isToday, isTodayInWeek, isWeekendDate, formatWeekDateRange, groupDatesByMonth, getDayOfWeek, getDayName, generateDateRange, isDateInArray, isWorkingDay as isWorkingDayDateCalc } from '@/presentation/utils/dateCalculations';
+import { isToday, isTodayInWeek, isWeekendDate, formatWeekDateRange, groupDatesByMonth, getDayOfWeek, getDayName, generateDateRange, isDateInArray, getTimelineColumnEnd, isWorkingDay as isWorkingDayDateCalc } from '@/presentation/utils/dateCalculations';
 import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
+import { aggregateDayEstimatesByColumn, type TimelineColumnHours } from '@/domain/rules/timeline/TimelineColumnHours';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
 // Import timeline row calculations
 import { 
@@ -50,7 +51,7 @@ import {
 } from '@/domain/rules/availability/DailyMetrics';
 // Import WorkHourLike type
 import type { WorkHourLike } from '@/domain/rules/availability/WorkHourGeneration';
-import type { Project, PhaseDTO, DayEstimate, Settings, Holiday, CalendarEvent, WorkHour } from '@/shared/types/core';
+import type { Project, PhaseDTO, DayEstimate, Settings, Holiday, CalendarEvent, WorkHour, TimelineMode } from '@/shared/types/core';
 import type { TimelinePositionCalculation } from '@/presentation/services/ProjectBarPositioning';
 import type { DragState } from '@/presentation/services/DragPositioning';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
@@ -180,11 +181,13 @@ export class TimelineAggregator {
   /**
    * Calculate project metrics using legacy service
    * Delegates to existing calculation service
+   * backlogHours: estimates of unscheduled tasks (calculateBacklogHours)
    */
   static calculateProjectMetrics(
     project: Project,
     holidays: Holiday[],
-    currentDate: Date = new Date()
+    currentDate: Date = new Date(),
+    backlogHours: number = 0
   ) {
     // Create a proper Project type for the legacy function
     const normalizedProject: Project = {
@@ -208,7 +211,8 @@ export class TimelineAggregator {
       normalizedProject,
       [], // empty events array
       holidays,
-      currentDate
+      currentDate,
+      backlogHours
     );
   }
   /**
@@ -234,7 +238,7 @@ export class TimelineAggregator {
     isDragging: boolean,
     dragState: DragState | null,
     projectId: string,
-    mode: 'days' | 'weeks' = 'days'
+    mode: TimelineMode = 'days'
   ) {
     try {
       return calculateBaselineVisualOffsets(positions, isDragging, dragState, projectId, mode);
@@ -294,6 +298,10 @@ export class TimelineAggregator {
         startDate: Date;
         endDate: Date;
       };
+      // Precomputed estimates (e.g. rebalanced across projects) to use instead of this project's own
+      dayEstimates?: DayEstimate[];
+      // Estimates of the project's unscheduled tasks, counted as planned time
+      backlogHours?: number;
     }
   ) {
     const effectiveProject = options?.visualProjectDates
@@ -305,7 +313,7 @@ export class TimelineAggregator {
       : project;
 
     // Calculate day estimates using new service (now includes planned events)
-    const dayEstimates = this.calculateProjectDayEstimates(
+    const dayEstimates = options?.dayEstimates ?? this.calculateProjectDayEstimates(
       effectiveProject,
       phases,
       settings,
@@ -406,7 +414,7 @@ export class TimelineAggregator {
         new Date(effectiveProject.endDate)
       ),
       // Metrics
-      projectMetrics: this.calculateProjectMetrics(effectiveProject, holidays),
+      projectMetrics: this.calculateProjectMetrics(effectiveProject, holidays, new Date(), options?.backlogHours),
       // Colors
       colorScheme: this.getProjectColorScheme(project.color),
       // Visual calculations (if dragging)
@@ -554,6 +562,17 @@ export class TimelineAggregator {
    * Delegates to timelineCalculations
    */
   static calculateColumnMarkerData = calculateTimelineColumnMarkerData;
+
+  /**
+   * Hour totals per visible column for month and quarter modes
+   * Delegates to domain rules (TimelineColumnHours)
+   */
+  static getColumnHours(dayEstimates: DayEstimate[], dates: Date[], mode: TimelineMode): TimelineColumnHours[] {
+    return aggregateDayEstimatesByColumn(
+      dayEstimates,
+      dates.map(date => ({ start: date, end: getTimelineColumnEnd(date, mode) }))
+    );
+  }
   // ============================================================================
   // COMPREHENSIVE AVAILABILITY BAR DATA (Single method for components)
   // ============================================================================
@@ -622,6 +641,7 @@ export const timelineAggregator = TimelineAggregator;
 
 // Export getTimelineBarData as named function for easy import
 export const getTimelineBarData = TimelineAggregator.getTimelineBarData.bind(TimelineAggregator);
+export const getTimelineColumnHours = TimelineAggregator.getColumnHours.bind(TimelineAggregator);
 
 // ============================================================================
 // BACKWARD COMPATIBILITY EXPORTS
@@ -0,0 +1,250 @@
+/**
+ * Calendar Export Tests
+ *
+ * Tests for iCal export including:
+ * - Planned/completed events, holidays and auto-estimates as VEVENTs
+ * - Project, client and group filters
+ * - Availability-only feeds
+ * - Round-trip through parseICalFile
+ * - Series on their time zone's wall clock with EXDATE and RECURRENCE-ID exceptions
+ *
+ * @see src/application/queries/exports/calendarExport.ts
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import ICAL from 'ical.js';
+import type { CalendarEvent, Holiday, Project, Settings, WorkSlot } from '@/shared/types/core';
+import { generateICalExport, filterProjectsForExport } from '../exports/calendarExport';
+import { parseICalFile } from '../imports/calendarImport';
+
+vi.mock('@/infrastructure/errors/ErrorHandlingService', () => ({
+  ErrorHandlingService: { handle: vi.fn() },
+}));
+
+describe('calendarExport', () => {
+  const workDay: WorkSlot[] = [{ id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 }];
+  const settings: Settings = {
+    weeklyWorkHours: {
+      monday: workDay,
+      tuesday: workDay,
+      wednesday: workDay,
+      thursday: workDay,
+      friday: workDay,
+      saturday: [],
+      sunday: [],
+    },
+  };
+
+  const createProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+    id,
+    name: `Project ${id}`,
+    client: 'Acme',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 12),
+    endDate: new Date(2026, 0, 16),
+    estimatedHours: 10,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  const createEvent = (id: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id,
+    title: `Event ${id}`,
+    startTime: new Date('2026-01-12T09:00:00.000Z'),
+    endTime: new Date('2026-01-12T11:00:00.000Z'),
+    color: '#000000',
+    category: 'event',
+    ...overrides,
+  });
+
+  const holiday: Holiday = {
+    id: 'holiday-1',
+    title: 'Winter break',
+    startDate: new Date(2026, 0, 19),
+    endDate: new Date(2026, 0, 20),
+    notes: 'Skiing',
+  };
+
+  const getVEvents = (ics: string) => new ICAL.Component(ICAL.parse(ics)).getAllSubcomponents('vevent');
+  const getSummaries = (ics: string) => getVEvents(ics).map(vevent => String(vevent.getFirstPropertyValue('summary')));
+
+  describe('generateICalExport', () => {
+    it('should export events and holidays as a VCALENDAR', () => {
+      const ics = generateICalExport({
+        events: [createEvent('a', { projectId: 'p1' })],
+        holidays: [holiday],
+        projects: [createProject('p1')],
+      }, { calendarName: 'My plan' });
+
+      expect(ics).toContain('BEGIN:VCALENDAR');
+      expect(ics).toContain('X-WR-CALNAME:My plan');
+      expect(getSummaries(ics)).toEqual(['Event a', 'Winter break']);
+
+      const holidayEvent = getVEvents(ics)[1];
+      expect(holidayEvent.getFirstPropertyValue('dtstart')?.toString()).toBe('2026-01-19');
+      // Inclusive end date becomes an exclusive DTEND
+      expect(holidayEvent.getFirstPropertyValue('dtend')?.toString()).toBe('2026-01-21');
+    });
+
+    it('should round-trip events through parseICalFile', () => {
+      const ics = generateICalExport({
+        events: [createEvent('a', { description: 'Kick-off', rrule: 'FREQ=WEEKLY;COUNT=3' })],
+        holidays: [],
+        projects: [],
+      });
+
+      const [parsed] = parseICalFile(ics);
+
+      expect(parsed.title).toBe('Event a');
+      expect(parsed.description).toBe('Kick-off');
+      expect(parsed.startTime.toISOString()).toBe('2026-01-12T09:00:00.000Z');
+      expect(parsed.rrule).toBe('FREQ=WEEKLY;COUNT=3');
+    });
+
+    it('should export a series in its time zone with its cancelled and moved instances', () => {
+      // Weekly at 09:00 Berlin across the March DST change
+      const series = createEvent('s', {
+        startTime: new Date('2026-03-19T08:00:00.000Z'),
+        endTime: new Date('2026-03-19T09:00:00.000Z'),
+        rrule: 'FREQ=WEEKLY;COUNT=4',
+        recurrenceTimeZone: 'Europe/Berlin',
+        recurrenceExceptions: [
+          { originalStart: new Date('2026-03-26T08:00:00.000Z'), type: 'deleted' },
+          {
+            originalStart: new Date('2026-04-02T07:00:00.000Z'),
+            type: 'modified',
+            modified: {
+              title: 'Moved sync',
+              startTime: new Date('2026-04-03T12:00:00.000Z'),
+              endTime: new Date('2026-04-03T13:00:00.000Z'),
+            },
+          },
+        ],
+      });
+
+      const ics = generateICalExport({ events: [series], holidays: [], projects: [] });
+
+      expect(ics).toContain('BEGIN:VTIMEZONE');
+      expect(ics).toContain('DTSTART;TZID=Europe/Berlin:20260319T090000');
+      expect(ics).toContain('EXDATE;TZID=Europe/Berlin:20260326T090000');
+      expect(ics).toContain('RECURRENCE-ID;TZID=Europe/Berlin:20260402T090000');
+      expect(getSummaries(ics)).toEqual(['Event s', 'Moved sync']);
+
+      const [parsed] = parseICalFile(ics);
+      expect(parsed.timeZone).toBe('Europe/Berlin');
+      expect(parsed.startTime.toISOString()).toBe('2026-03-19T08:00:00.000Z');
+      expect(parsed.recurrenceExceptions).toEqual([
+        { originalStart: new Date('2026-03-26T08:00:00.000Z'), type: 'deleted' },
+        expect.objectContaining({
+          originalStart: new Date('2026-04-02T07:00:00.000Z'),
+          type: 'modified',
+          modified: expect.objectContaining({
+            title: 'Moved sync',
+            startTime: new Date('2026-04-03T12:00:00.000Z'),
+            endTime: new Date('2026-04-03T13:00:00.000Z'),
+          }),
+        }),
+      ]);
+    });
+
+    it('should only include the requested event time types', () => {
+      const ics = generateICalExport({
+        events: [
+          createEvent('planned'),
+          createEvent('tracked', { type: 'tracked' }),
+          createEvent('done', { completed: true }),
+        ],
+        holidays: [],
+        projects: [],
+      }, { eventTimeTypes: ['completed'], includeHolidays: false });
+
+      expect(getSummaries(ics)).toEqual(['Event tracked', 'Event done']);
+    });
+
+    it('should filter events by client and group through their project', () => {
+      const projects = [
+        createProject('p1'),
+        createProject('p2', { clientId: 'client-2' }),
+        createProject('p3', { groupId: 'group-2' }),
+      ];
+      const events = [
+        createEvent('a', { projectId: 'p1' }),
+        createEvent('b', { projectId: 'p2' }),
+        createEvent('c', { projectId: 'p3' }),
+        createEvent('habit', { category: 'habit' }),
+      ];
+
+      const ics = generateICalExport({ events, holidays: [], projects }, {
+        clientIds: ['client-1'],
+        groupIds: ['group-1'],
+        includeHolidays: false,
+      });
+
+      expect(getSummaries(ics)).toEqual(['Event a']);
+    });
+
+    it('should hide details in an availability-only export', () => {
+      const ics = generateICalExport({
+        events: [createEvent('a', { description: 'Secret client work' })],
+        holidays: [holiday],
+        projects: [],
+      }, { availabilityOnly: true });
+
+      expect(getSummaries(ics)).toEqual(['Busy', 'Unavailable']);
+      expect(ics).not.toContain('Secret client work');
+      expect(ics).not.toContain('Skiing');
+    });
+
+    it('should export auto-estimates on working days without events', () => {
+      // Estimates are only generated from today onwards
+      vi.useFakeTimers({ now: new Date(2026, 0, 10) });
+      const ics = generateICalExport({
+        events: [createEvent('a', { projectId: 'p1' })],
+        holidays: [],
+        projects: [createProject('p1')],
+        settings,
+      }, { includeEstimates: true, includeEvents: false, includeHolidays: false });
+
+      // Remaining 8h budget (10h minus Monday's 2h event) over Tue-Fri
+      const vevents = getVEvents(ics);
+      expect(vevents.map(vevent => vevent.getFirstPropertyValue('dtstart')?.toString())).toEqual([
+        '2026-01-13', '2026-01-14', '2026-01-15', '2026-01-16',
+      ]);
+      expect(getSummaries(ics)[0]).toBe('Project p1 · 2h estimated');
+      expect(vevents[0].getFirstPropertyValue('transp')).toBe('TRANSPARENT');
+      vi.useRealTimers();
+    });
+
+    it('should restrict output to the date range', () => {
+      const ics = generateICalExport({
+        events: [
+          createEvent('a'),
+          createEvent('b', {
+            startTime: new Date('2026-02-02T09:00:00.000Z'),
+            endTime: new Date('2026-02-02T10:00:00.000Z'),
+          }),
+        ],
+        holidays: [holiday],
+        projects: [],
+      }, {
+        rangeStart: new Date('2026-02-01T00:00:00.000Z'),
+        rangeEnd: new Date('2026-02-28T00:00:00.000Z'),
+      });
+
+      expect(getSummaries(ics)).toEqual(['Event b']);
+    });
+  });
+
+  describe('filterProjectsForExport', () => {
+    it('should return every project without filters', () => {
+      const projects = [createProject('p1'), createProject('p2')];
+
+      expect(filterProjectsForExport(projects, {})).toHaveLength(2);
+      expect(filterProjectsForExport(projects, { projectIds: ['p2'] }).map(p => p.id)).toEqual(['p2']);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Capacity Allocation Aggregate Tests
+ *
+ * Tests for rebalancing project estimates under daily capacity including:
+ * - Calendar events reducing a day's capacity
+ * - Priority order deciding which project keeps its hours
+ * - Rebalanced estimates per project for the timeline bars
+ *
+ * @see src/application/queries/CapacityAllocationAggregate.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CalendarEvent, Project, Settings } from '@/shared/types/core';
+import { allocateProjectCapacity } from '../CapacityAllocationAggregate';
+
+describe('allocateProjectCapacity', () => {
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const settings: Settings = {
+    weeklyWorkHours: {
+      monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+    },
+  };
+
+  // Both projects ask for 6h on every day of Monday 5 – Friday 9 January 2026
+  const createProject = (id: string): Project => ({
+    id,
+    name: `Project ${id}`,
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 9),
+    estimatedHours: 30,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  });
+
+  // A 4h meeting on Wednesday leaves 4h of capacity that day
+  const events: CalendarEvent[] = [{
+    id: 'meeting',
+    title: 'Offsite',
+    startTime: new Date(2026, 0, 7, 9),
+    endTime: new Date(2026, 0, 7, 13),
+    color: '#000000',
+    type: 'planned',
+  }];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 5, 8));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const totalHours = (estimates: { hours: number }[] = []) => estimates.reduce((sum, estimate) => sum + estimate.hours, 0);
+
+  it('should fit the first project and report what the second cannot get', () => {
+    const result = allocateProjectCapacity(
+      { projects: [createProject('p1'), createProject('p2')], phases: [], events, settings, holidays: [] },
+      'priority',
+      new Date(2026, 0, 5)
+    );
+
+    expect(totalHours(result.estimatesByProject.get('p1'))).toBeCloseTo(30);
+    expect(totalHours(result.estimatesByProject.get('p2'))).toBeCloseTo(6);
+    expect(result.shortfalls).toMatchObject([{ projectId: 'p2', requestedHours: 30 }]);
+    expect(result.shortfalls[0].unallocatedHours).toBeCloseTo(24);
+
+    const wednesday = result.days.find(day => day.date === '2026-01-07');
+    expect(wednesday).toMatchObject({ capacityHours: 4, requestedHours: 12, isOvercommitted: true });
+    expect(wednesday!.allocatedHours).toBeCloseTo(4);
+  });
+});
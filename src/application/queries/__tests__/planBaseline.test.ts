@@ -0,0 +1,92 @@
+/**
+ * Plan Baseline Aggregate Tests
+ *
+ * Tests for capturing and comparing the live plan including:
+ * - Freezing calculateProjectDayEstimates output for a project
+ * - Hour drift after the budget changed
+ * - Continuous projects compared over the baseline's own window
+ *
+ * @see src/application/queries/PlanBaselineAggregate.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { PlanBaseline, Project, Settings } from '@/shared/types/core';
+import { capturePlanSnapshot, comparePlanWithBaseline } from '../PlanBaselineAggregate';
+
+describe('PlanBaselineAggregate', () => {
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const settings: Settings = {
+    weeklyWorkHours: {
+      monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+    },
+  };
+
+  // 30h over Monday 5 – Friday 9 January 2026
+  const createProject = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    name: 'Website',
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 9),
+    estimatedHours: 30,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides
+  });
+
+  // Estimates only cover today onwards
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 2, 8));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const sources = (project: Project) => ({ projects: [project], phases: [], events: [], settings, holidays: [] });
+
+  const saveBaseline = (project: Project, capturedAt: Date): PlanBaseline => ({
+    id: 'b1',
+    name: 'Sign-off',
+    snapshot: capturePlanSnapshot(sources(project), capturedAt),
+    userId: 'user-1',
+    createdAt: capturedAt,
+    updatedAt: capturedAt
+  });
+
+  it('should freeze the project and its day estimates', () => {
+    const snapshot = capturePlanSnapshot(sources(createProject()), new Date(2026, 0, 2));
+
+    expect(snapshot.projects).toEqual([expect.objectContaining({ startDate: '2026-01-05', endDate: '2026-01-09', estimatedHours: 30 })]);
+    expect(snapshot.dayEstimates).toHaveLength(5);
+    expect(snapshot.dayEstimates.reduce((sum, estimate) => sum + estimate.hours, 0)).toBeCloseTo(30);
+  });
+
+  it('should report hours added to the budget since the baseline', () => {
+    const baseline = saveBaseline(createProject(), new Date(2026, 0, 2));
+
+    const comparison = comparePlanWithBaseline(baseline, sources(createProject({ estimatedHours: 40 })));
+
+    expect(comparison.projects[0]).toMatchObject({
+      status: 'changed',
+      baselineEstimatedHours: 30,
+      currentEstimatedHours: 40,
+      estimatedHoursDelta: 10
+    });
+  });
+
+  it('should not report drift for an untouched continuous project', () => {
+    const continuous = createProject({ continuous: true });
+    const baseline = saveBaseline(continuous, new Date(2026, 0, 2));
+
+    const comparison = comparePlanWithBaseline(baseline, sources(continuous));
+
+    expect(comparison.driftedProjectCount).toBe(0);
+    expect(comparison.projects[0].baselineEndDate).toBeNull();
+  });
+});
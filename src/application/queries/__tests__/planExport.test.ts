@@ -0,0 +1,202 @@
+/**
+ * Plan Export Tests
+ *
+ * Tests for timeline and planner exports including:
+ * - Project bars and column hours from getTimelineBarData
+ * - Phase markers, holidays and availability rows
+ * - SVG markup and paginated PDF output
+ *
+ * @see src/application/queries/exports/planExport.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Holiday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import {
+  buildPlanExport,
+  generatePlanPdf,
+  generatePlanSvg,
+  getPlanExportFileName,
+  paginatePlanExport,
+  type PlanExportData
+} from '../exports/planExport';
+
+describe('planExport', () => {
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const settings: Settings = {
+    weeklyWorkHours: {
+      monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+    },
+  };
+
+  // 30h over Monday 5 – Friday 9 January 2026
+  const createProject = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    name: 'R&D site',
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 9),
+    estimatedHours: 30,
+    color: 'oklch(0.76 0.15 230)',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides
+  });
+
+  const createPhase = (id: string, name: string, endDate: Date): PhaseDTO => ({
+    id,
+    name,
+    projectId: 'p1',
+    endDate,
+    dueDate: endDate,
+    timeAllocationHours: 15,
+    timeAllocation: 15,
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1)
+  });
+
+  // Thursday 8 January is off
+  const holiday: Holiday = { id: 'h1', title: 'Team day', startDate: new Date(2026, 0, 8), endDate: new Date(2026, 0, 8) };
+
+  const week = Array.from({ length: 7 }, (_, i) => new Date(2026, 0, 5 + i));
+
+  const createData = (projects: Project[], overrides: Partial<PlanExportData> = {}): PlanExportData => ({
+    sections: [{ id: 'group-1', name: 'Client work', projects }],
+    projects,
+    phases: [],
+    holidays: [holiday],
+    events: [],
+    settings,
+    ...overrides
+  });
+
+  // Estimates only cover today onwards
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 2, 8));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('buildPlanExport', () => {
+    it('should build bars, column hours and holidays for a planner week', () => {
+      const plan = buildPlanExport(createData([createProject()]), { view: 'planner', dates: week, mode: 'days' });
+
+      expect(plan.columns.map(column => column.label)).toEqual(['Mon 5', 'Tue 6', 'Wed 7', 'Thu 8', 'Fri 9', 'Sat 10', 'Sun 11']);
+      expect(plan.sections[0].projects[0]).toMatchObject({ name: 'R&D site', startDay: 0, endDay: 5 });
+      expect(plan.sections[0].projects[0].totalHours).toBeCloseTo(30);
+      expect(plan.sections[0].projects[0].columnHours[3]).toEqual({ plannedHours: 0, estimatedHours: 0 });
+      expect(plan.holidays).toEqual([{ id: 'h1', title: 'Team day', startDay: 3, endDay: 4 }]);
+    });
+
+    it('should sum day hours into week columns', () => {
+      const project = createProject({ endDate: new Date(2026, 0, 16) });
+
+      const plan = buildPlanExport(
+        createData([project], { holidays: [] }),
+        { view: 'timeline', dates: [new Date(2026, 0, 5), new Date(2026, 0, 12)], mode: 'weeks' }
+      );
+
+      const [row] = plan.sections[0].projects;
+      expect(plan.dayCount).toBe(14);
+      expect(plan.columns.map(column => [column.startDay, column.dayCount])).toEqual([[0, 7], [7, 7]]);
+      expect(row.columnHours[0].estimatedHours).toBeCloseTo(15);
+      expect(row.columnHours[1].estimatedHours).toBeCloseTo(15);
+    });
+
+    it('should mark phase ends except the one ending with the project', () => {
+      const phases = [
+        createPhase('ph1', 'Design', new Date(2026, 0, 6)),
+        createPhase('ph2', 'Build', new Date(2026, 0, 9))
+      ];
+
+      const plan = buildPlanExport(createData([createProject()], { phases }), { view: 'planner', dates: week, mode: 'days' });
+
+      expect(plan.sections[0].projects[0].phaseMarkers).toEqual([
+        { phaseId: 'ph1', name: 'Design', endDate: new Date(2026, 0, 6), day: 2 }
+      ]);
+    });
+
+    it('should leave out projects and sections outside the range', () => {
+      const later = createProject({ id: 'p2', startDate: new Date(2026, 1, 2), endDate: new Date(2026, 1, 6) });
+
+      const plan = buildPlanExport(
+        createData([later], { sections: [{ id: 'g1', name: 'Later', projects: [later] }] }),
+        { view: 'planner', dates: week, mode: 'days' }
+      );
+
+      expect(plan.sections).toEqual([]);
+    });
+
+    it('should compute availability rows per column', () => {
+      const plan = buildPlanExport(createData([createProject()]), { view: 'planner', dates: week, mode: 'days' });
+
+      expect(plan.availability.map(column => column.workHours)).toEqual([8, 8, 8, 0, 8, 0, 0]);
+      expect(plan.availability[0].committedHours).toBeCloseTo(7.5);
+      expect(plan.availability[0].availableHours).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('output', () => {
+    it('should render an SVG with bars, markers and escaped names', () => {
+      const plan = buildPlanExport(
+        createData([createProject()], { phases: [createPhase('ph1', 'Design', new Date(2026, 0, 6))] }),
+        { view: 'planner', dates: week, mode: 'days' }
+      );
+
+      const svg = generatePlanSvg(plan);
+
+      expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg"');
+      expect(svg).toContain('>R&amp;D site</text>');
+      expect(svg).toContain('<title>Team day</title>');
+      expect(svg).toContain('<title>Design ends 2026-01-06</title></polygon>');
+      expect(svg).toContain('>Availability</text>');
+    });
+
+    it('should paginate long plans without ending a page on a section heading', () => {
+      const projects = Array.from({ length: 40 }, (_, i) => createProject({ id: `p${i}`, name: `Project ${i}` }));
+      const data = createData(projects, {
+        sections: [
+          { id: 'g1', name: 'First', projects: projects.slice(0, 17) },
+          { id: 'g2', name: 'Second', projects: projects.slice(17) }
+        ]
+      });
+
+      const pages = paginatePlanExport(buildPlanExport(data, { view: 'planner', dates: week, mode: 'days' }));
+
+      expect(pages.length).toBeGreaterThan(1);
+      pages.forEach((page, index) => {
+        const texts = page.shapes.flatMap(shape => (shape.kind === 'text' ? [shape.text] : []));
+        expect(texts).toContain(`Page ${index + 1} of ${pages.length}`);
+        // The last text before the footer is never a heading
+        expect(texts[texts.length - 2]).not.toMatch(/^(First|Second|Availability)$/);
+      });
+    });
+
+    it('should write a PDF whose cross-reference table points at its objects', () => {
+      const plan = buildPlanExport(createData([createProject()]), { view: 'planner', dates: week, mode: 'days' });
+
+      const bytes = generatePlanPdf(plan);
+      const pdf = Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+
+      expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+      expect(pdf).toContain('/Count 1');
+      expect(pdf).toContain('(R&D site) Tj');
+      const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+      expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+      const firstObjectOffset = Number(pdf.match(/xref\n0 \d+\n0000000000 65535 f \n(\d{10})/)![1]);
+      expect(pdf.slice(firstObjectOffset, firstObjectOffset + 7)).toBe('1 0 obj');
+    });
+
+    it('should name files by view and range', () => {
+      const plan = buildPlanExport(createData([createProject()]), { view: 'planner', dates: week, mode: 'days' });
+
+      expect(getPlanExportFileName(plan, 'pdf')).toBe('planner-2026-01-05-to-2026-01-11.pdf');
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Scenario Capacity Tests
+ *
+ * Tests for comparing what-if scenario capacity with reality including:
+ * - Holidays removing work hours
+ * - Removed projects freeing booked time
+ * - Newly overbooked days from hypothetical projects
+ * - Work schedule templates replacing the default week
+ *
+ * @see src/application/queries/ScenarioCapacityAggregate.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CalendarEvent, Project, Settings } from '@/shared/types/core';
+import { compareScenarioCapacity } from '../ScenarioCapacityAggregate';
+import {
+  addScenarioHoliday,
+  addScenarioProject,
+  createScenario,
+  removeScenarioProject,
+  updateScenarioWorkHours,
+  type ScenarioSnapshot
+} from '@/domain/rules/scenarios/ScenarioSandbox';
+
+describe('compareScenarioCapacity', () => {
+  // Monday 5 – Friday 9 January 2026
+  const range = { start: new Date(2026, 0, 5), end: new Date(2026, 0, 9) };
+
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const weeklyWorkHours: Settings['weeklyWorkHours'] = {
+    monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+  };
+
+  const createProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+    id,
+    name: `Project ${id}`,
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 9),
+    estimatedHours: 0,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  const events: CalendarEvent[] = [{
+    id: 'event-1',
+    title: 'Workshop',
+    startTime: new Date(2026, 0, 6, 9),
+    endTime: new Date(2026, 0, 6, 13),
+    projectId: 'p1',
+    color: '#000000',
+    type: 'planned',
+  }];
+
+  const snapshot: ScenarioSnapshot = {
+    projects: [createProject('p1')],
+    phases: [],
+    holidays: [],
+    weeklyWorkHours,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 0, 1));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should match reality for an unchanged scenario', () => {
+    const comparison = compareScenarioCapacity(createScenario(snapshot), events, range);
+
+    expect(comparison.reality.totalCapacity).toBe(40);
+    expect(comparison.reality.totalLoad).toBe(4);
+    expect(comparison.capacityDelta).toBe(0);
+    expect(comparison.loadDelta).toBe(0);
+  });
+
+  it('should remove holiday work hours and free time of removed projects', () => {
+    let scenario = createScenario(snapshot);
+    scenario = addScenarioHoliday(scenario, {
+      id: 'h1', title: 'Day off', startDate: new Date(2026, 0, 9), endDate: new Date(2026, 0, 9),
+    });
+    scenario = removeScenarioProject(scenario, 'p1');
+
+    const comparison = compareScenarioCapacity(scenario, events, range);
+
+    expect(comparison.capacityDelta).toBe(-8);
+    expect(comparison.loadDelta).toBe(-4);
+  });
+
+  it('should resolve work weeks through schedule templates', () => {
+    // Four-day weeks from Thursday 8 January; the scenario drops Mondays from the default week
+    const fourDayWeek = { ...weeklyWorkHours, friday: [] };
+    const scenario = updateScenarioWorkHours(
+      createScenario({
+        ...snapshot,
+        workSchedules: [{ id: 'four-day', name: 'Four days', weeks: [fourDayWeek], effectiveFrom: '2026-01-08' }],
+      }),
+      { ...weeklyWorkHours, monday: [] }
+    );
+
+    const comparison = compareScenarioCapacity(scenario, events, range);
+
+    expect(comparison.reality.totalCapacity).toBe(32);
+    expect(comparison.scenario.totalCapacity).toBe(24);
+  });
+
+  it('should flag days a hypothetical project overbooks', () => {
+    const scenario = addScenarioProject(createScenario(snapshot), createProject('p2', { estimatedHours: 50 }));
+
+    const comparison = compareScenarioCapacity(scenario, events, range);
+
+    expect(comparison.loadDelta).toBeCloseTo(50);
+    expect(comparison.reality.overbookedDays).toEqual([]);
+    expect(comparison.newlyOverbookedDays.length).toBeGreaterThan(0);
+    expect(comparison.resolvedOverbookedDays).toEqual([]);
+  });
+});
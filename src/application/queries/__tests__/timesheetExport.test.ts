@@ -0,0 +1,201 @@
+/**
+ * Timesheet Export Tests
+ *
+ * Tests for timesheet export including:
+ * - Client → project → day/week grouping of completed and tracked time
+ * - Midnight splitting, clipping to the range and billing rounding
+ * - Totals matching AnalyticsCalculations
+ * - CSV and printable summary output
+ *
+ * @see src/application/queries/exports/timesheetExport.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, Client, Project } from '@/shared/types/core';
+import {
+  buildTimesheet,
+  generateTimesheetCsv,
+  generateTimesheetSummaryHtml,
+  roundTimesheetHours,
+  type TimesheetExportOptions
+} from '../exports/timesheetExport';
+import {
+  calculateTotalTrackedHours,
+  filterCompletedEventsInRange
+} from '@/domain/rules/insights/AnalyticsCalculations';
+
+describe('timesheetExport', () => {
+  const createClient = (id: string, name: string): Client => ({
+    id,
+    name,
+    status: 'active',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  });
+
+  const createProject = (id: string, name: string, clientId: string): Project => ({
+    id,
+    name,
+    client: '',
+    clientId,
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 1),
+    endDate: new Date(2026, 1, 28),
+    estimatedHours: 100,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  });
+
+  const createEvent = (
+    id: string,
+    start: Date,
+    end: Date,
+    overrides: Partial<CalendarEvent> = {}
+  ): CalendarEvent => ({
+    id,
+    title: `Event ${id}`,
+    startTime: start,
+    endTime: end,
+    projectId: 'project-site',
+    color: '#000000',
+    category: 'event',
+    type: 'tracked',
+    ...overrides,
+  });
+
+  const clients = [createClient('client-acme', 'Acme'), createClient('client-beta', 'Beta, Inc.')];
+  const projects = [
+    createProject('project-site', 'Website', 'client-acme'),
+    createProject('project-app', 'App', 'client-acme'),
+    createProject('project-audit', 'Audit', 'client-beta'),
+  ];
+
+  // Week of Monday 12 January 2026 (local time)
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute);
+  const events: CalendarEvent[] = [
+    createEvent('e1', at(12, 9), at(12, 9, 40)),
+    createEvent('e2', at(12, 14), at(12, 14, 50), { projectId: 'project-app', type: 'completed', completed: true }),
+    createEvent('e3', at(13, 22), at(14, 1, 30)), // Crosses midnight
+    createEvent('e4', at(14, 10), at(14, 12), { projectId: 'project-audit' }),
+    createEvent('e5', at(15, 9), at(15, 10), { projectId: undefined }),
+    createEvent('planned', at(12, 16), at(12, 17), { type: 'planned' }),
+    createEvent('task', at(12, 8), at(12, 8), { category: 'task', completed: true }),
+    createEvent('outside', at(20, 9), at(20, 10)),
+  ];
+
+  const options: TimesheetExportOptions = {
+    rangeStart: at(12, 0),
+    rangeEnd: new Date(2026, 0, 18, 23, 59, 59, 999),
+  };
+
+  describe('roundTimesheetHours', () => {
+    it('should round up to the billing increment', () => {
+      expect(roundTimesheetHours(40 / 60, 15)).toBe(0.75);
+      expect(roundTimesheetHours(40 / 60, 6)).toBe(0.7);
+      expect(roundTimesheetHours(40 / 60, 30)).toBe(1);
+      expect(roundTimesheetHours(40 / 60, 15, 'nearest')).toBe(0.75);
+      expect(roundTimesheetHours(35 / 60, 30, 'nearest')).toBe(0.5);
+    });
+
+    it('should keep exact multiples and leave unrounded hours alone', () => {
+      expect(roundTimesheetHours(0.1 + 0.2, 6)).toBeCloseTo(0.3);
+      expect(roundTimesheetHours(1.5, 15)).toBe(1.5);
+      expect(roundTimesheetHours(40 / 60, 0)).toBeCloseTo(0.6667, 4);
+    });
+  });
+
+  describe('buildTimesheet', () => {
+    it('should group completed and tracked time by client, project and day', () => {
+      const timesheet = buildTimesheet({ events, projects, clients }, options);
+
+      expect(timesheet.clients.map(client => client.clientName)).toEqual(['Acme', 'Beta, Inc.', 'No client']);
+      const acme = timesheet.clients[0];
+      expect(acme.projects.map(project => project.projectName)).toEqual(['App', 'Website']);
+      expect(acme.projects[1].lines.map(line => [line.periodKey, line.hours])).toEqual([
+        ['2026-01-12', 40 / 60],
+        ['2026-01-13', 2],
+        ['2026-01-14', 1.5],
+      ]);
+      expect(timesheet.clients[2].projects[0].projectName).toBe('No project');
+    });
+
+    it('should match the totals shown in Insights', () => {
+      const timesheet = buildTimesheet({ events, projects, clients }, options);
+
+      const insightsTotal = calculateTotalTrackedHours(
+        filterCompletedEventsInRange(events, options.rangeStart, options.rangeEnd)
+          .filter(event => (event as CalendarEvent).category !== 'task')
+      );
+      expect(timesheet.totalHours).toBeCloseTo(insightsTotal);
+    });
+
+    it('should only count the part of a split event inside the range', () => {
+      const lateShift = createEvent('late', new Date(2026, 0, 18, 22), new Date(2026, 0, 19, 3));
+      const timesheet = buildTimesheet({ events: [lateShift], projects, clients }, options);
+
+      const website = timesheet.clients[0].projects[0];
+      expect(website.lines.map(line => line.periodKey)).toEqual(['2026-01-18']);
+      expect(website.hours).toBeCloseTo(2);
+      expect(timesheet.totalHours).toBeCloseTo(2);
+    });
+
+    it('should round each line and sum the rounded lines', () => {
+      const timesheet = buildTimesheet({ events, projects, clients }, { ...options, roundingMinutes: 15 });
+
+      const website = timesheet.clients[0].projects[1];
+      expect(website.lines.map(line => line.roundedHours)).toEqual([0.75, 2, 1.5]);
+      expect(website.roundedHours).toBe(4.25);
+      // 50 min → 1h for App, 2h for Audit, 1h unassigned
+      expect(timesheet.roundedTotalHours).toBe(4.25 + 1 + 2 + 1);
+    });
+
+    it('should group by week and apply filters', () => {
+      const timesheet = buildTimesheet(
+        { events, projects, clients },
+        { ...options, period: 'week', clientIds: ['client-acme'] }
+      );
+
+      expect(timesheet.clients).toHaveLength(1);
+      const website = timesheet.clients[0].projects[1];
+      expect(website.lines).toHaveLength(1);
+      expect(website.lines[0].periodKey).toBe('2026-01-12');
+      expect(website.lines[0].entryCount).toBe(2);
+      expect(website.lines[0].hours).toBeCloseTo(40 / 60 + 3.5);
+    });
+  });
+
+  describe('output', () => {
+    it('should generate CSV with one row per line', () => {
+      const csv = generateTimesheetCsv(buildTimesheet({ events, projects, clients }, { ...options, roundingMinutes: 6 }));
+      const rows = csv.trim().split('\r\n');
+
+      expect(rows[0]).toBe('Client,Project,Date,Entries,Hours,Rounded Hours');
+      expect(rows[1]).toBe('Acme,App,2026-01-12,1,0.83,0.90');
+      expect(rows).toContain('"Beta, Inc.",Audit,2026-01-14,1,2.00,2.00');
+      expect(rows).toHaveLength(7);
+    });
+
+    it('should guard spreadsheet formulas in names', () => {
+      const csv = generateTimesheetCsv(buildTimesheet(
+        { events, projects: [createProject('project-site', '=HYPERLINK("x")', 'client-acme')], clients },
+        { ...options, projectIds: ['project-site'] }
+      ));
+
+      expect(csv).toContain(`Acme,"'=HYPERLINK(""x"")",2026-01-12`);
+    });
+
+    it('should generate a printable summary with escaped names', () => {
+      const html = generateTimesheetSummaryHtml(buildTimesheet(
+        { events, projects: [createProject('project-site', '<Site>', 'client-acme')], clients },
+        { ...options, projectIds: ['project-site'], roundingMinutes: 15 }
+      ));
+
+      expect(html).toContain('&lt;Site&gt;');
+      expect(html).toContain('Rounded up 15 minutes per line');
+      expect(html).toContain('Total: 4.17h · Rounded: 4.25h');
+    });
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * Calendar Export Data Transformations
+ *
+ * RESPONSIBILITIES:
+ * - Transform calendar events, holidays and day estimates into iCal (.ics) content
+ * - Apply export filters (project, client, group, date range)
+ * - Produce availability-only feeds (busy blocks without details)
+ * - Write recurring series on their time zone's wall clock (TZID + VTIMEZONE)
+ *   with EXDATEs and RECURRENCE-ID overrides for their exceptions
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Database operations (callers pass already loaded data)
+ * - Estimate calculation (domain rules handle this)
+ * - Downloading/sharing the file (presentation handles this)
+ */
+import ICAL from 'ical.js';
+import type { CalendarEvent, Holiday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import { EventClassificationRules, type EventTimeType } from '@/domain/rules/events/EventClassification';
+import {
+  getTimeZoneOffset,
+  getTimeZoneTransitions,
+  hasOccurrenceInRange,
+  isValidTimeZone,
+  toWallClock
+} from '@/domain/rules/events/EventRecurrence';
+import {
+  calculateProjectDayEstimates,
+  isWorkingDayForEstimates
+} from '@/domain/rules/projects/DayEstimate';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+import { getEstimatePhasesForProject } from '../DayEstimateAggregate';
+
+const PRODUCT_ID = '-//Budgi//Calendar Export//EN';
+const UID_DOMAIN = 'budgi.app';
+// Years of offset changes written into a VTIMEZONE after the last year the export covers
+const VTIMEZONE_EXTRA_YEARS = 2;
+
+export interface ICalExportOptions {
+  calendarName?: string;
+  // Filters (empty = no filter). A project must match every filter that is set.
+  projectIds?: string[];
+  clientIds?: string[];
+  groupIds?: string[];
+  rangeStart?: Date;
+  rangeEnd?: Date;
+  // Content
+  includeEvents?: boolean; // Default: true
+  eventTimeTypes?: EventTimeType[]; // Default: planned and completed (tracked counts as completed)
+  includeHolidays?: boolean; // Default: true
+  includeEstimates?: boolean; // Daily auto-estimates as all-day events. Default: false
+  // Busy blocks only: titles, descriptions and project names are left out
+  availabilityOnly?: boolean;
+}
+
+export interface ICalExportData {
+  events: CalendarEvent[];
+  holidays: Holiday[];
+  projects: Project[];
+  phases?: PhaseDTO[]; // Needed for estimates
+  settings?: Settings; // Needed for estimates
+}
+
+/**
+ * Generate iCal (.ics) content for planned/tracked work, holidays and estimates
+ */
+export function generateICalExport(
+  data: ICalExportData,
+  options: ICalExportOptions = {},
+  now: Date = new Date()
+): string {
+  const calendar = new ICAL.Component('vcalendar');
+  calendar.addPropertyWithValue('prodid', PRODUCT_ID);
+  calendar.addPropertyWithValue('version', '2.0');
+  calendar.addPropertyWithValue('calscale', 'GREGORIAN');
+  calendar.addPropertyWithValue('method', 'PUBLISH');
+  if (options.calendarName) {
+    calendar.addPropertyWithValue('x-wr-calname', options.calendarName);
+  }
+
+  const projects = filterProjectsForExport(data.projects, options);
+  const projectsById = new Map(projects.map(project => [project.id, project]));
+  const hasProjectFilter = hasFilter(options);
+  const stamp = ICAL.Time.fromJSDate(now, true);
+
+  if (options.includeEvents !== false) {
+    const timeTypes = options.eventTimeTypes ?? ['planned', 'completed'];
+    const events = data.events
+      .filter(event => event.category !== 'task')
+      .filter(event => timeTypes.includes(EventClassificationRules.classifyEvent(event).type))
+      .filter(event => !hasProjectFilter || (event.category !== 'habit' && projectsById.has(event.projectId ?? '')))
+      .filter(event => isEventInRange(event, options.rangeStart, options.rangeEnd));
+
+    getSeriesTimeZones(events).forEach((firstStart, timeZone) => {
+      const lastYear = Math.max(firstStart.getUTCFullYear(), (options.rangeEnd ?? now).getUTCFullYear());
+      calendar.addSubcomponent(toTimeZoneComponent(timeZone, firstStart, lastYear + VTIMEZONE_EXTRA_YEARS));
+    });
+    events.forEach(event => {
+      toEventComponents(event, projectsById.get(event.projectId ?? ''), stamp, options.availabilityOnly)
+        .forEach(vevent => calendar.addSubcomponent(vevent));
+    });
+  }
+
+  if (options.includeHolidays !== false) {
+    data.holidays
+      .filter(holiday => isDateRangeInRange(holiday.startDate, holiday.endDate, options.rangeStart, options.rangeEnd))
+      .forEach(holiday => {
+        calendar.addSubcomponent(toHolidayComponent(holiday, stamp, options.availabilityOnly));
+      });
+  }
+
+  if (options.includeEstimates && data.settings) {
+    projects.forEach(project => {
+      getExportEstimates(project, data, options).forEach(estimate => {
+        calendar.addSubcomponent(
+          toEstimateComponent(project, estimate.date, estimate.hours, stamp, options.availabilityOnly)
+        );
+      });
+    });
+  }
+
+  return calendar.toString();
+}
+
+/**
+ * Projects matching the project, client and group filters
+ */
+export function filterProjectsForExport(projects: Project[], options: ICalExportOptions): Project[] {
+  const matches = (ids: string[] | undefined, id: string) => !ids?.length || ids.includes(id);
+  return projects.filter(project =>
+    matches(options.projectIds, project.id) &&
+    matches(options.clientIds, project.clientId) &&
+    matches(options.groupIds, project.groupId)
+  );
+}
+
+/**
+ * File name for a downloaded export, e.g. "budgi-availability-2026-01-15.ics"
+ */
+export function getICalExportFileName(options: ICalExportOptions, date: Date = new Date()): string {
+  const kind = options.availabilityOnly ? 'availability' : 'calendar';
+  return `budgi-${kind}-${getDateKey(date)}.ics`;
+}
+
+function hasFilter(options: ICalExportOptions): boolean {
+  return !!(options.projectIds?.length || options.clientIds?.length || options.groupIds?.length);
+}
+
+function isDateRangeInRange(start: Date, end: Date, rangeStart?: Date, rangeEnd?: Date): boolean {
+  if (rangeStart && new Date(end) < rangeStart) return false;
+  if (rangeEnd && new Date(start) > rangeEnd) return false;
+  return true;
+}
+
+function isEventInRange(event: CalendarEvent, rangeStart?: Date, rangeEnd?: Date): boolean {
+  if (!event.rrule || (!rangeStart && !rangeEnd)) {
+    return isDateRangeInRange(event.startTime, event.endTime, rangeStart, rangeEnd);
+  }
+  return hasOccurrenceInRange(
+    {
+      startTime: new Date(event.startTime),
+      endTime: new Date(event.endTime),
+      rrule: event.rrule,
+      timeZone: event.recurrenceTimeZone,
+      exceptions: event.recurrenceExceptions
+    },
+    rangeStart ?? new Date(event.startTime),
+    rangeEnd ?? new Date(Date.UTC(9999, 11, 31))
+  );
+}
+
+/**
+ * Auto-estimate days (phase and project budget estimates) on working days
+ * Days with events are already excluded by calculateProjectDayEstimates.
+ */
+function getExportEstimates(
+  project: Project,
+  data: ICalExportData,
+  options: ICalExportOptions
+): Array<{ date: Date; hours: number }> {
+  const phases = getEstimatePhasesForProject(
+    project,
+    (data.phases || []).filter(phase => phase.projectId === project.id)
+  );
+  const estimates = calculateProjectDayEstimates(
+    project,
+    phases,
+    data.settings,
+    data.holidays,
+    data.events,
+    options.rangeStart,
+    options.rangeEnd
+  );
+
+  // Sum per day (recurring phases can yield several estimates on one day)
+  const hoursByDate = new Map<string, { date: Date; hours: number }>();
+  estimates
+    .filter(estimate => estimate.source !== 'event')
+    .filter(estimate => isDateRangeInRange(estimate.date, estimate.date, options.rangeStart, options.rangeEnd))
+    .filter(estimate => isWorkingDayForEstimates(new Date(estimate.date), data.settings, data.holidays, project))
+    .forEach(estimate => {
+      const dateKey = getDateKey(new Date(estimate.date));
+      const existing = hoursByDate.get(dateKey);
+      hoursByDate.set(dateKey, {
+        date: new Date(estimate.date),
+        hours: (existing?.hours ?? 0) + estimate.hours
+      });
+    });
+
+  return Array.from(hoursByDate.values()).filter(estimate => estimate.hours > 0);
+}
+
+function formatHours(hours: number): string {
+  return `${Math.round(hours * 100) / 100}h`;
+}
+
+function toAllDayTime(date: Date): ICAL.Time {
+  return ICAL.Time.fromDateString(getDateKey(date));
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+}
+
+function createVEvent(uid: string, stamp: ICAL.Time): ICAL.Component {
+  const vevent = new ICAL.Component('vevent');
+  vevent.addPropertyWithValue('uid', `${uid}@${UID_DOMAIN}`);
+  vevent.addPropertyWithValue('dtstamp', stamp);
+  return vevent;
+}
+
+/**
+ * IANA zone a series recurs in; one-off events and series without a zone are written in UTC
+ */
+function getSeriesTimeZone(event: CalendarEvent): string | undefined {
+  return event.rrule && isValidTimeZone(event.recurrenceTimeZone) ? event.recurrenceTimeZone : undefined;
+}
+
+/**
+ * Earliest series start per time zone the exported series recur in
+ */
+function getSeriesTimeZones(events: CalendarEvent[]): Map<string, Date> {
+  const firstStarts = new Map<string, Date>();
+  events.forEach(event => {
+    const timeZone = getSeriesTimeZone(event);
+    if (!timeZone) return;
+    const start = new Date(event.startTime);
+    const firstStart = firstStarts.get(timeZone);
+    if (!firstStart || start < firstStart) firstStarts.set(timeZone, start);
+  });
+  return firstStarts;
+}
+
+/**
+ * DATE-TIME property on the zone's wall clock (TZID parameter), or in UTC without a zone
+ */
+function addTimeProperty(vevent: ICAL.Component, name: string, instant: Date, timeZone?: string): void {
+  if (!timeZone) {
+    vevent.addPropertyWithValue(name, ICAL.Time.fromJSDate(instant, true));
+    return;
+  }
+  const property = vevent.addPropertyWithValue(name, toFloatingTime(toWallClock(instant, timeZone)));
+  property.setParameter('tzid', timeZone);
+}
+
+/**
+ * Wall-clock time held in a floating UTC date (see toWallClock) as an ICAL.Time without zone
+ */
+function toFloatingTime(wallClock: Date): ICAL.Time {
+  return ICAL.Time.fromData({
+    year: wallClock.getUTCFullYear(),
+    month: wallClock.getUTCMonth() + 1,
+    day: wallClock.getUTCDate(),
+    hour: wallClock.getUTCHours(),
+    minute: wallClock.getUTCMinutes(),
+    second: wallClock.getUTCSeconds(),
+    isDate: false
+  });
+}
+
+/**
+ * VTIMEZONE listing the zone's offset changes from the first series start to
+ * the end of `lastYear`, so the TZID times resolve without a time zone database
+ */
+function toTimeZoneComponent(timeZone: string, firstStart: Date, lastYear: number): ICAL.Component {
+  const vtimezone = new ICAL.Component('vtimezone');
+  vtimezone.addPropertyWithValue('tzid', timeZone);
+
+  const addObservance = (at: Date, offsetFrom: number, offsetTo: number) => {
+    const observance = new ICAL.Component(offsetTo > offsetFrom ? 'daylight' : 'standard');
+    // DTSTART is the local time on the old offset when the change happens
+    observance.addPropertyWithValue('dtstart', toFloatingTime(new Date(at.getTime() + offsetFrom * 60000)));
+    observance.addPropertyWithValue('tzoffsetfrom', ICAL.UtcOffset.fromSeconds(offsetFrom * 60));
+    observance.addPropertyWithValue('tzoffsetto', ICAL.UtcOffset.fromSeconds(offsetTo * 60));
+    vtimezone.addSubcomponent(observance);
+  };
+
+  const rangeStart = new Date(Date.UTC(firstStart.getUTCFullYear(), 0, 1));
+  const initialOffset = getTimeZoneOffset(rangeStart, timeZone);
+  addObservance(rangeStart, initialOffset, initialOffset);
+  getTimeZoneTransitions(timeZone, rangeStart, new Date(Date.UTC(lastYear + 1, 0, 1))).forEach(transition => {
+    addObservance(transition.at, transition.offsetFrom, transition.offsetTo);
+  });
+  return vtimezone;
+}
+
+/**
+ * VEVENT for an event; a series also gets an EXDATE per cancelled instance and
+ * an override VEVENT (same UID, RECURRENCE-ID) per moved or edited instance
+ */
+function toEventComponents(
+  event: CalendarEvent,
+  project: Project | undefined,
+  stamp: ICAL.Time,
+  availabilityOnly?: boolean
+): ICAL.Component[] {
+  const uid = `event-${event.id}`;
+  const timeZone = getSeriesTimeZone(event);
+  const vevent = createVEvent(uid, stamp);
+  const startTime = new Date(event.startTime);
+  const endTime = new Date(event.endTime);
+
+  addTimeProperty(vevent, 'dtstart', startTime, timeZone);
+  addTimeProperty(vevent, 'dtend', endTime, timeZone);
+  if (!event.rrule) {
+    addEventDetails(vevent, event, event.title, event.description, project, availabilityOnly);
+    return [vevent];
+  }
+
+  vevent.addPropertyWithValue('rrule', ICAL.Recur.fromString(event.rrule.replace(/^RRULE:/i, '')));
+  const exceptions = event.recurrenceExceptions || [];
+  exceptions
+    .filter(exception => exception.type === 'deleted')
+    .forEach(exception => addTimeProperty(vevent, 'exdate', new Date(exception.originalStart), timeZone));
+  addEventDetails(vevent, event, event.title, event.description, project, availabilityOnly);
+
+  const durationMs = endTime.getTime() - startTime.getTime();
+  const overrides = exceptions
+    .filter(exception => exception.type === 'modified')
+    .map(exception => {
+      const originalStart = new Date(exception.originalStart);
+      const start = new Date(exception.modified?.startTime ?? originalStart);
+      const end = exception.modified?.endTime ? new Date(exception.modified.endTime) : new Date(start.getTime() + durationMs);
+      const override = createVEvent(uid, stamp);
+      addTimeProperty(override, 'recurrence-id', originalStart, timeZone);
+      addTimeProperty(override, 'dtstart', start, timeZone);
+      addTimeProperty(override, 'dtend', end, timeZone);
+      addEventDetails(
+        override,
+        event,
+        exception.modified?.title ?? event.title,
+        exception.modified?.description ?? event.description,
+        project,
+        availabilityOnly
+      );
+      return override;
+    });
+  return [vevent, ...overrides];
+}
+
+function addEventDetails(
+  vevent: ICAL.Component,
+  event: CalendarEvent,
+  title: string,
+  description: string | undefined,
+  project: Project | undefined,
+  availabilityOnly?: boolean
+): void {
+  vevent.addPropertyWithValue('transp', 'OPAQUE');
+
+  if (availabilityOnly) {
+    vevent.addPropertyWithValue('summary', 'Busy');
+    vevent.addPropertyWithValue('class', 'PRIVATE');
+    return;
+  }
+
+  vevent.addPropertyWithValue('summary', title);
+  if (description) {
+    vevent.addPropertyWithValue('description', description);
+  }
+  const timeType = EventClassificationRules.classifyEvent(event).type;
+  const categories = vevent.addPropertyWithValue('categories', timeType === 'completed' ? 'Completed' : 'Planned');
+  if (project) {
+    categories.setValues([categories.getFirstValue(), project.name]);
+  }
+}
+
+function toHolidayComponent(holiday: Holiday, stamp: ICAL.Time, availabilityOnly?: boolean): ICAL.Component {
+  const vevent = createVEvent(`holiday-${holiday.id}`, stamp);
+  // Holiday end dates are inclusive; iCal all-day DTEND is exclusive
+  vevent.addPropertyWithValue('dtstart', toAllDayTime(new Date(holiday.startDate)));
+  vevent.addPropertyWithValue('dtend', toAllDayTime(addDays(new Date(holiday.endDate), 1)));
+  vevent.addPropertyWithValue('transp', 'OPAQUE');
+  vevent.addPropertyWithValue('summary', availabilityOnly ? 'Unavailable' : holiday.title);
+  if (!availabilityOnly && holiday.notes) {
+    vevent.addPropertyWithValue('description', holiday.notes);
+  }
+  vevent.addPropertyWithValue('categories', 'Holiday');
+  return vevent;
+}
+
+function toEstimateComponent(
+  project: Project,
+  date: Date,
+  hours: number,
+  stamp: ICAL.Time,
+  availabilityOnly?: boolean
+): ICAL.Component {
+  const vevent = createVEvent(`estimate-${project.id}-${getDateKey(date)}`, stamp);
+  vevent.addPropertyWithValue('dtstart', toAllDayTime(date));
+  vevent.addPropertyWithValue('dtend', toAllDayTime(addDays(date, 1)));
+  // Estimates are a forecast, not a fixed booking: don't block free/busy
+  vevent.addPropertyWithValue('transp', 'TRANSPARENT');
+  vevent.addPropertyWithValue(
+    'summary',
+    availabilityOnly ? `${formatHours(hours)} booked` : `${project.name} · ${formatHours(hours)} estimated`
+  );
+  if (!availabilityOnly) {
+    vevent.addPropertyWithValue('categories', 'Estimate');
+    if (project.client) {
+      vevent.addPropertyWithValue('description', `Client: ${project.client}`);
+    }
+  }
+  return vevent;
+}
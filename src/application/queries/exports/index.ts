@@ -0,0 +1,7 @@
+/**
+ * Export Data Transformations Module
+ */
+
+export * from './calendarExport';
+export * from './timesheetExport';
+export * from './planExport';
@@ -0,0 +1,675 @@
+/**
+ * Plan Export (Timeline and Planner pictures)
+ *
+ * RESPONSIBILITIES:
+ * - Build a picture of the plan for a timeline date range or a planner week:
+ *   project bars with hours per column, phase markers, holidays and the
+ *   availability rows shown under the timeline
+ * - Lay it out as a single SVG or a paginated PDF
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Database operations (callers pass already loaded data)
+ * - Estimate calculation (TimelineAggregator.getTimelineBarData provides the bars,
+ *   so exports match what the timeline shows)
+ * - Rasterizing to PNG or downloading files (presentation handles this)
+ *
+ * Everything is computed from data, never from the DOM, so exports can be built
+ * headless.
+ */
+import { differenceInCalendarDays, format } from 'date-fns';
+import type { CalendarEvent, DayEstimate, Holiday, PhaseDTO, Project, Settings, TimelineMode } from '@/shared/types/core';
+import { getPhasesSortedByEndDate } from '@/domain/rules/phases/PhaseRules';
+import { ColorCalculationService } from '@/presentation/services/ColorCalculations';
+import { generateDateRange, getTimelineColumnEnd, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { formatDateRange, getDateKey } from '@/presentation/utils/dateFormatUtils';
+import { TimelineAggregator } from '../TimelineAggregator';
+import { getEstimatePhasesForProject } from '../DayEstimateAggregate';
+import {
+  fitText,
+  renderPdfDocument,
+  renderSvgDocument,
+  type VectorPage,
+  type VectorShape
+} from './vectorDocument';
+
+export type PlanExportView = 'timeline' | 'planner';
+export type PlanExportFormat = 'svg' | 'png' | 'pdf';
+
+export interface PlanExportData {
+  sections: Array<{ id: string; name: string; projects: Project[] }>; // Rows as the view groups them
+  projects: Project[]; // Every project, for availability (as in AvailabilityCard)
+  phases: PhaseDTO[];
+  holidays: Holiday[];
+  events: CalendarEvent[];
+  settings: Settings;
+  estimatesByProject?: Map<string, DayEstimate[]>; // Balanced estimates, when the timeline shows them
+}
+
+export interface PlanExportOptions {
+  view: PlanExportView;
+  dates: Date[]; // Column start dates, as shown by the view
+  mode: TimelineMode; // Planner weeks use 'days'
+  title?: string;
+}
+
+export interface PlanExportColumn {
+  start: Date;
+  end: Date;
+  label: string;
+  startDay: number; // Days from the range start
+  dayCount: number;
+}
+
+export interface PlanExportColumnHours {
+  plannedHours: number; // Planned and completed events
+  estimatedHours: number; // Auto-estimates
+}
+
+export interface PlanExportPhaseMarker {
+  phaseId: string;
+  name: string;
+  endDate: Date;
+  day: number; // Boundary after the phase's last day
+}
+
+export interface PlanExportProjectRow {
+  projectId: string;
+  name: string;
+  colors: { main: string; baseline: string; estimate: string; marker: string };
+  startDay: number; // First visible day
+  endDay: number; // Boundary after the last visible day
+  columnHours: PlanExportColumnHours[];
+  totalHours: number;
+  phaseMarkers: PlanExportPhaseMarker[];
+}
+
+export interface PlanExportSection {
+  id: string;
+  name: string;
+  projects: PlanExportProjectRow[];
+}
+
+export interface PlanExportHoliday {
+  id: string;
+  title: string;
+  startDay: number;
+  endDay: number; // Boundary after the last day in range
+}
+
+// Same sums as the AvailabilityCard graph, per column
+export interface PlanExportAvailability {
+  workHours: number;
+  committedHours: number; // Habits, planned events and auto-estimates
+  availableHours: number; // Work hours minus committed (negative when overcommitted)
+  completedHours: number;
+  otherHours: number;
+}
+
+export interface PlanExport {
+  view: PlanExportView;
+  mode: TimelineMode;
+  title: string;
+  rangeStart: Date;
+  rangeEnd: Date;
+  dayCount: number;
+  columns: PlanExportColumn[];
+  sections: PlanExportSection[];
+  holidays: PlanExportHoliday[];
+  availability: PlanExportAvailability[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+// A4 landscape in points; SVG uses the same width
+export const PLAN_EXPORT_PAGE = {
+  WIDTH: 842,
+  HEIGHT: 595,
+  MARGIN: 28
+} as const;
+
+const LAYOUT = {
+  LABEL_WIDTH: 150,
+  TITLE_HEIGHT: 40,
+  COLUMN_HEADER_HEIGHT: 18,
+  SECTION_HEIGHT: 18,
+  PROJECT_ROW_HEIGHT: 22,
+  AVAILABILITY_ROW_HEIGHT: 18,
+  FOOTER_HEIGHT: 14,
+  MIN_COLUMN_WIDTH_FOR_NUMBERS: 16
+} as const;
+
+const COLORS = {
+  text: '#111827',
+  mutedText: '#6b7280',
+  grid: '#e5e7eb',
+  sectionBackground: '#f3f4f6',
+  holiday: '#eef0f3',
+  holidayText: '#9ca3af',
+  neutralBar: '#9ca3af',
+  available: '#22c55e',
+  overcommitted: '#ef4444'
+} as const;
+
+const AVAILABILITY_ROWS: Array<{ key: keyof PlanExportAvailability; label: string }> = [
+  { key: 'workHours', label: 'Work hours' },
+  { key: 'committedHours', label: 'Committed' },
+  { key: 'availableHours', label: 'Available' },
+  { key: 'completedHours', label: 'Completed project time' },
+  { key: 'otherHours', label: 'Other time' }
+];
+
+const COLUMN_LABEL_FORMATS: Record<TimelineMode, string> = {
+  days: 'EEE d',
+  weeks: 'd MMM',
+  months: 'MMM yyyy',
+  quarters: 'QQQ yyyy'
+};
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/**
+ * Build the export model for the given columns
+ *
+ * Projects without days in the range are left out, and so are sections left
+ * empty by that.
+ */
+export function buildPlanExport(data: PlanExportData, options: PlanExportOptions): PlanExport {
+  const { dates, mode } = options;
+  const rangeStart = normalizeToMidnight(new Date(dates[0]));
+  const rangeEnd = normalizeToMidnight(getTimelineColumnEnd(dates[dates.length - 1], mode));
+  const days = generateDateRange(rangeStart, rangeEnd);
+  const dayOffset = (date: Date) => differenceInCalendarDays(date, rangeStart);
+
+  const columns: PlanExportColumn[] = dates.map(date => {
+    const start = normalizeToMidnight(new Date(date));
+    const end = normalizeToMidnight(getTimelineColumnEnd(start, mode));
+    return {
+      start,
+      end,
+      label: format(start, COLUMN_LABEL_FORMATS[mode]),
+      startDay: dayOffset(start),
+      dayCount: dayOffset(end) - dayOffset(start) + 1
+    };
+  });
+  const columnDays = columns.map(column => days.slice(column.startDay, column.startDay + column.dayCount));
+
+  const sections = data.sections
+    .map(section => ({
+      id: section.id,
+      name: section.name,
+      projects: section.projects
+        .map(project => buildProjectRow(project, data, options, { rangeStart, rangeEnd, columnDays, dayOffset }))
+        .filter((row): row is PlanExportProjectRow => !!row)
+    }))
+    .filter(section => section.projects.length > 0);
+
+  const holidays = data.holidays
+    .map(holiday => {
+      const start = normalizeToMidnight(new Date(holiday.startDate));
+      const end = normalizeToMidnight(new Date(holiday.endDate ?? holiday.startDate));
+      if (end < rangeStart || start > rangeEnd) return null;
+      return {
+        id: holiday.id,
+        title: holiday.title || 'Holiday',
+        startDay: Math.max(0, dayOffset(start)),
+        endDay: Math.min(days.length, dayOffset(end) + 1)
+      };
+    })
+    .filter((holiday): holiday is PlanExportHoliday => !!holiday)
+    .sort((a, b) => a.startDay - b.startDay);
+
+  return {
+    view: options.view,
+    mode,
+    title: options.title ?? (options.view === 'timeline' ? 'Timeline' : 'Planner'),
+    rangeStart,
+    rangeEnd,
+    dayCount: days.length,
+    columns,
+    sections,
+    holidays,
+    availability: columnDays.map(columnDates => calculateColumnAvailability(columnDates, data))
+  };
+}
+
+function buildProjectRow(
+  project: Project,
+  data: PlanExportData,
+  options: PlanExportOptions,
+  range: { rangeStart: Date; rangeEnd: Date; columnDays: Date[][]; dayOffset: (date: Date) => number }
+): PlanExportProjectRow | null {
+  const projectPhases = getEstimatePhasesForProject(
+    project,
+    data.phases.filter(phase => phase.projectId === project.id)
+  );
+
+  const barData = TimelineAggregator.getTimelineBarData(
+    project,
+    options.dates,
+    range.rangeStart,
+    range.rangeEnd,
+    projectPhases,
+    data.holidays,
+    data.settings,
+    false,
+    null,
+    undefined,
+    data.events,
+    { dayEstimates: data.estimatesByProject?.get(project.id) }
+  );
+
+  const { projectDays, getPerDateSummary, colorScheme } = barData;
+  if (projectDays.length === 0) return null;
+
+  const columnHours = range.columnDays.map(columnDates =>
+    columnDates.reduce<PlanExportColumnHours>((hours, date) => {
+      const summary = getPerDateSummary(date);
+      return summary.allocationType === 'auto-estimate'
+        ? { ...hours, estimatedHours: hours.estimatedHours + summary.dailyHours }
+        : { ...hours, plannedHours: hours.plannedHours + summary.dailyHours };
+    }, { plannedHours: 0, estimatedHours: 0 })
+  );
+
+  // Markers sit where a phase ends, except the last phase ending with the project
+  const projectEnd = normalizeToMidnight(new Date(project.endDate));
+  const phaseMarkers = getPhasesSortedByEndDate(projectPhases.filter(phase => !phase.isRecurring))
+    .map(phase => ({ phase, endDate: normalizeToMidnight(new Date(phase.endDate)) }))
+    .filter(({ endDate }) =>
+      endDate >= range.rangeStart &&
+      endDate <= range.rangeEnd &&
+      (project.continuous || endDate.getTime() !== projectEnd.getTime())
+    )
+    .map(({ phase, endDate }) => ({
+      phaseId: phase.id,
+      name: phase.name,
+      endDate,
+      day: range.dayOffset(endDate) + 1
+    }));
+
+  return {
+    projectId: project.id,
+    name: project.name,
+    colors: {
+      main: colorScheme.main,
+      baseline: colorScheme.baseline,
+      estimate: colorScheme.autoEstimate,
+      marker: ColorCalculationService.getDarkerColor(project.color)
+    },
+    startDay: range.dayOffset(normalizeToMidnight(projectDays[0])),
+    endDay: range.dayOffset(normalizeToMidnight(projectDays[projectDays.length - 1])) + 1,
+    columnHours,
+    totalHours: columnHours.reduce((total, hours) => total + hours.plannedHours + hours.estimatedHours, 0),
+    phaseMarkers
+  };
+}
+
+/**
+ * Availability of one column, summed over its days like the AvailabilityCard graph
+ */
+function calculateColumnAvailability(dates: Date[], data: PlanExportData): PlanExportAvailability {
+  const { settings, holidays, events, projects, phases } = data;
+  const totals = { workHours: 0, committedHours: 0, completedHours: 0, otherHours: 0 };
+
+  dates.forEach(date => {
+    const workHours = TimelineAggregator.generateWorkHoursForDate(date, settings, holidays);
+    const habitTime = TimelineAggregator.calculateHabitTimeWithinWorkSlots(date, events, workHours);
+    const plannedTime = TimelineAggregator.calculatePlannedTimeNotOverlappingHabits(date, events, workHours);
+    const projectHours = TimelineAggregator.calculateDailyProjectHours(date, projects, settings, holidays, phases, events);
+
+    totals.workHours += TimelineAggregator.calculateWorkHoursTotal(workHours);
+    // Auto-estimates are project hours beyond planned events
+    totals.committedHours += habitTime + plannedTime + Math.max(0, projectHours - plannedTime);
+    totals.completedHours += TimelineAggregator.calculateTotalPlannedHours(date, events);
+    totals.otherHours += TimelineAggregator.calculateOtherTime(date, events, workHours);
+  });
+
+  return { ...totals, availableHours: totals.workHours - totals.committedHours };
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+// A horizontal band of the picture, drawn at a given top
+interface LayoutBlock {
+  height: number;
+  keepWithNext?: boolean;
+  draw: (top: number) => VectorShape[];
+}
+
+interface ChartGeometry {
+  left: number;
+  right: number;
+  dayWidth: number;
+  x: (day: number) => number;
+}
+
+function getGeometry(plan: PlanExport): ChartGeometry {
+  const left = PLAN_EXPORT_PAGE.MARGIN + LAYOUT.LABEL_WIDTH;
+  const right = PLAN_EXPORT_PAGE.WIDTH - PLAN_EXPORT_PAGE.MARGIN;
+  const dayWidth = (right - left) / Math.max(1, plan.dayCount);
+  return { left, right, dayWidth, x: day => left + day * dayWidth };
+}
+
+function drawHeader(plan: PlanExport, geometry: ChartGeometry, top: number, subtitle: string): VectorShape[] {
+  const margin = PLAN_EXPORT_PAGE.MARGIN;
+  const columnTop = top + LAYOUT.TITLE_HEIGHT;
+  const shapes: VectorShape[] = [
+    { kind: 'text', x: margin, y: top + 16, text: plan.title, size: 14, bold: true },
+    { kind: 'text', x: margin, y: top + 30, text: subtitle, size: 9, fill: COLORS.mutedText }
+  ];
+
+  plan.columns.forEach(column => {
+    const x = geometry.x(column.startDay);
+    const width = column.dayCount * geometry.dayWidth;
+    const label = fitText(column.label, 7, width - 2);
+    if (label) {
+      shapes.push({ kind: 'text', x: x + width / 2, y: columnTop + 12, text: label, size: 7, fill: COLORS.mutedText, anchor: 'middle' });
+    }
+  });
+  shapes.push({
+    kind: 'line',
+    x1: margin,
+    y1: columnTop + LAYOUT.COLUMN_HEADER_HEIGHT,
+    x2: geometry.right,
+    y2: columnTop + LAYOUT.COLUMN_HEADER_HEIGHT,
+    stroke: COLORS.grid,
+    strokeWidth: 1
+  });
+  return shapes;
+}
+
+// Holiday bands and column lines behind the rows
+function drawBackground(plan: PlanExport, geometry: ChartGeometry, top: number, bottom: number): VectorShape[] {
+  const shapes: VectorShape[] = [];
+
+  plan.holidays.forEach(holiday => {
+    const x = geometry.x(holiday.startDay);
+    const width = (holiday.endDay - holiday.startDay) * geometry.dayWidth;
+    shapes.push({ kind: 'rect', x, y: top, width, height: bottom - top, fill: COLORS.holiday, title: holiday.title });
+    const label = fitText(holiday.title, 6, width - 2);
+    if (label) {
+      shapes.push({ kind: 'text', x: x + width / 2, y: top + 8, text: label, size: 6, fill: COLORS.holidayText, anchor: 'middle' });
+    }
+  });
+
+  plan.columns.forEach(column => {
+    const x = geometry.x(column.startDay);
+    shapes.push({ kind: 'line', x1: x, y1: top, x2: x, y2: bottom, stroke: COLORS.grid });
+  });
+  shapes.push({ kind: 'line', x1: geometry.right, y1: top, x2: geometry.right, y2: bottom, stroke: COLORS.grid });
+  return shapes;
+}
+
+function sectionBlock(name: string): LayoutBlock {
+  return {
+    height: LAYOUT.SECTION_HEIGHT,
+    keepWithNext: true,
+    draw: top => [
+      {
+        kind: 'rect',
+        x: PLAN_EXPORT_PAGE.MARGIN,
+        y: top + 2,
+        width: PLAN_EXPORT_PAGE.WIDTH - 2 * PLAN_EXPORT_PAGE.MARGIN,
+        height: LAYOUT.SECTION_HEIGHT - 4,
+        fill: COLORS.sectionBackground
+      },
+      {
+        kind: 'text',
+        x: PLAN_EXPORT_PAGE.MARGIN + 4,
+        y: top + 12,
+        text: fitText(name, 8, PLAN_EXPORT_PAGE.WIDTH - 2 * PLAN_EXPORT_PAGE.MARGIN - 8, true),
+        size: 8,
+        bold: true
+      }
+    ]
+  };
+}
+
+function projectBlock(plan: PlanExport, row: PlanExportProjectRow, geometry: ChartGeometry, maxColumnHours: number): LayoutBlock {
+  return {
+    height: LAYOUT.PROJECT_ROW_HEIGHT,
+    draw: top => {
+      const bottom = top + LAYOUT.PROJECT_ROW_HEIGHT - 3;
+      const maxBarHeight = LAYOUT.PROJECT_ROW_HEIGHT - 8;
+      const barLeft = geometry.x(row.startDay);
+      const barRight = geometry.x(row.endDay);
+      const shapes: VectorShape[] = [
+        {
+          kind: 'text',
+          x: PLAN_EXPORT_PAGE.MARGIN + 4,
+          y: top + 14,
+          text: fitText(row.name, 8, LAYOUT.LABEL_WIDTH - 8),
+          size: 8
+        },
+        {
+          kind: 'rect',
+          x: barLeft,
+          y: bottom - 2,
+          width: barRight - barLeft,
+          height: 2,
+          fill: row.colors.baseline,
+          title: `${row.name}: ${formatHours(row.totalHours)}h`
+        }
+      ];
+
+      // Hour blocks per column, estimates stacked on planned time
+      plan.columns.forEach((column, index) => {
+        const { plannedHours, estimatedHours } = row.columnHours[index];
+        if (plannedHours + estimatedHours <= 0) return;
+        const left = Math.max(barLeft, geometry.x(column.startDay)) + 0.5;
+        const right = Math.min(barRight, geometry.x(column.startDay + column.dayCount)) - 0.5;
+        if (right <= left) return;
+
+        const plannedHeight = (plannedHours / maxColumnHours) * maxBarHeight;
+        const estimatedHeight = (estimatedHours / maxColumnHours) * maxBarHeight;
+        const title = `${row.name}, ${column.label}: ${formatHours(plannedHours + estimatedHours)}h`;
+        if (plannedHeight > 0) {
+          shapes.push({ kind: 'rect', x: left, y: bottom - 2 - plannedHeight, width: right - left, height: plannedHeight, fill: row.colors.main, title });
+        }
+        if (estimatedHeight > 0) {
+          shapes.push({
+            kind: 'rect',
+            x: left,
+            y: bottom - 2 - plannedHeight - estimatedHeight,
+            width: right - left,
+            height: estimatedHeight,
+            fill: row.colors.estimate,
+            title
+          });
+        }
+      });
+
+      row.phaseMarkers.forEach(marker => {
+        const x = geometry.x(marker.day);
+        const y = bottom - 1;
+        shapes.push({
+          kind: 'polygon',
+          points: [[x, y - 4], [x + 3, y], [x, y + 4], [x - 3, y]],
+          fill: row.colors.marker,
+          title: `${marker.name} ends ${getDateKey(marker.endDate)}`
+        });
+      });
+      return shapes;
+    }
+  };
+}
+
+function availabilityBlock(plan: PlanExport, geometry: ChartGeometry): LayoutBlock {
+  return {
+    height: LAYOUT.SECTION_HEIGHT + AVAILABILITY_ROWS.length * LAYOUT.AVAILABILITY_ROW_HEIGHT,
+    draw: top => {
+      const shapes = sectionBlock('Availability').draw(top);
+
+      AVAILABILITY_ROWS.forEach(({ key, label }, rowIndex) => {
+        const rowTop = top + LAYOUT.SECTION_HEIGHT + rowIndex * LAYOUT.AVAILABILITY_ROW_HEIGHT;
+        const rowBottom = rowTop + LAYOUT.AVAILABILITY_ROW_HEIGHT - 3;
+        const values = plan.availability.map(column => column[key]);
+        const maxValue = Math.max(...values.map(Math.abs), 1);
+        shapes.push({ kind: 'text', x: PLAN_EXPORT_PAGE.MARGIN + 4, y: rowTop + 12, text: label, size: 7, fill: COLORS.mutedText });
+
+        plan.columns.forEach((column, index) => {
+          const value = values[index];
+          const left = geometry.x(column.startDay) + 0.5;
+          const width = column.dayCount * geometry.dayWidth - 1;
+          const fill = key === 'availableHours'
+            ? (value < 0 ? COLORS.overcommitted : COLORS.available)
+            : COLORS.neutralBar;
+
+          if (width >= LAYOUT.MIN_COLUMN_WIDTH_FOR_NUMBERS) {
+            shapes.push({ kind: 'text', x: left + width / 2, y: rowTop + 12, text: formatHours(value), size: 6, fill: key === 'availableHours' ? fill : COLORS.text, anchor: 'middle' });
+          } else if (value !== 0) {
+            const height = (Math.abs(value) / maxValue) * (LAYOUT.AVAILABILITY_ROW_HEIGHT - 6);
+            shapes.push({ kind: 'rect', x: left, y: rowBottom - height, width, height, fill, title: `${label}, ${column.label}: ${formatHours(value)}h` });
+          }
+        });
+      });
+      return shapes;
+    }
+  };
+}
+
+function emptyBlock(): LayoutBlock {
+  return {
+    height: LAYOUT.PROJECT_ROW_HEIGHT,
+    draw: top => [{
+      kind: 'text',
+      x: PLAN_EXPORT_PAGE.MARGIN + 4,
+      y: top + 14,
+      text: 'No projects in this range.',
+      size: 8,
+      fill: COLORS.mutedText
+    }]
+  };
+}
+
+function buildBodyBlocks(plan: PlanExport, geometry: ChartGeometry): LayoutBlock[] {
+  const maxColumnHours = Math.max(
+    1,
+    ...plan.sections.flatMap(section =>
+      section.projects.flatMap(row => row.columnHours.map(hours => hours.plannedHours + hours.estimatedHours))
+    )
+  );
+
+  const blocks = plan.sections.flatMap(section => [
+    sectionBlock(section.name),
+    ...section.projects.map(row => projectBlock(plan, row, geometry, maxColumnHours))
+  ]);
+  return [...(blocks.length > 0 ? blocks : [emptyBlock()]), availabilityBlock(plan, geometry)];
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function getSubtitle(plan: PlanExport): string {
+  return formatDateRange(plan.rangeStart, plan.rangeEnd);
+}
+
+/**
+ * Render the whole plan as one SVG picture
+ */
+export function generatePlanSvg(plan: PlanExport): string {
+  const geometry = getGeometry(plan);
+  const headerHeight = LAYOUT.TITLE_HEIGHT + LAYOUT.COLUMN_HEADER_HEIGHT;
+  const bodyTop = PLAN_EXPORT_PAGE.MARGIN + headerHeight;
+  const blocks = buildBodyBlocks(plan, geometry);
+
+  let top = bodyTop;
+  const bodyShapes = blocks.flatMap(block => {
+    const shapes = block.draw(top);
+    top += block.height;
+    return shapes;
+  });
+
+  return renderSvgDocument({
+    width: PLAN_EXPORT_PAGE.WIDTH,
+    height: top + PLAN_EXPORT_PAGE.MARGIN,
+    shapes: [
+      ...drawBackground(plan, geometry, bodyTop, top),
+      ...drawHeader(plan, geometry, PLAN_EXPORT_PAGE.MARGIN, getSubtitle(plan)),
+      ...bodyShapes
+    ]
+  }, `${plan.title} – ${getSubtitle(plan)}`);
+}
+
+/**
+ * Split the plan into A4 landscape pages
+ *
+ * Every page repeats the title and column header. Section headings move to the
+ * next page rather than end one, and the availability rows stay together.
+ */
+export function paginatePlanExport(plan: PlanExport): VectorPage[] {
+  const geometry = getGeometry(plan);
+  const headerHeight = LAYOUT.TITLE_HEIGHT + LAYOUT.COLUMN_HEADER_HEIGHT;
+  const bodyTop = PLAN_EXPORT_PAGE.MARGIN + headerHeight;
+  const bodyBottom = PLAN_EXPORT_PAGE.HEIGHT - PLAN_EXPORT_PAGE.MARGIN - LAYOUT.FOOTER_HEIGHT;
+  const blocks = buildBodyBlocks(plan, geometry);
+
+  const pageBlocks: LayoutBlock[][] = [[]];
+  let used = 0;
+  blocks.forEach((block, index) => {
+    const next = blocks[index + 1];
+    const needed = block.height + (block.keepWithNext && next ? next.height : 0);
+    const current = pageBlocks[pageBlocks.length - 1];
+    if (current.length > 0 && used + needed > bodyBottom - bodyTop) {
+      pageBlocks.push([block]);
+      used = block.height;
+    } else {
+      current.push(block);
+      used += block.height;
+    }
+  });
+
+  const subtitle = getSubtitle(plan);
+  return pageBlocks.map((blocksOnPage, pageIndex) => {
+    let top = bodyTop;
+    const bodyShapes = blocksOnPage.flatMap(block => {
+      const shapes = block.draw(top);
+      top += block.height;
+      return shapes;
+    });
+    const footer = `Page ${pageIndex + 1} of ${pageBlocks.length}`;
+
+    return {
+      width: PLAN_EXPORT_PAGE.WIDTH,
+      height: PLAN_EXPORT_PAGE.HEIGHT,
+      shapes: [
+        ...drawBackground(plan, geometry, bodyTop, top),
+        ...drawHeader(plan, geometry, PLAN_EXPORT_PAGE.MARGIN, subtitle),
+        ...bodyShapes,
+        {
+          kind: 'text',
+          x: PLAN_EXPORT_PAGE.WIDTH - PLAN_EXPORT_PAGE.MARGIN,
+          y: PLAN_EXPORT_PAGE.HEIGHT - PLAN_EXPORT_PAGE.MARGIN,
+          text: footer,
+          size: 7,
+          fill: COLORS.mutedText,
+          anchor: 'end'
+        }
+      ]
+    };
+  });
+}
+
+/**
+ * Render the plan as a paginated PDF
+ */
+export function generatePlanPdf(plan: PlanExport): Uint8Array {
+  return renderPdfDocument(paginatePlanExport(plan), `${plan.title} – ${getSubtitle(plan)}`);
+}
+
+/**
+ * File name for a plan download
+ */
+export function getPlanExportFileName(plan: PlanExport, extension: PlanExportFormat): string {
+  return `${plan.view}-${getDateKey(plan.rangeStart)}-to-${getDateKey(plan.rangeEnd)}.${extension}`;
+}
+
+function formatHours(hours: number): string {
+  return String(Math.round(hours * 10) / 10);
+}
@@ -0,0 +1,346 @@
+/**
+ * Timesheet Export Data Transformations
+ *
+ * RESPONSIBILITIES:
+ * - Build timesheets from completed and tracked events
+ * - Group time by client → project → day or week
+ * - Apply billing rounding (6/15/30 minute increments)
+ * - Produce CSV and a printable HTML summary
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Database operations (callers pass already loaded data)
+ * - Deciding which events count as done (AnalyticsCalculations handles this, so totals match Insights)
+ * - Downloading/printing the file (presentation handles this)
+ */
+import { startOfWeek } from 'date-fns';
+import type { CalendarEvent, Client, Project } from '@/shared/types/core';
+import {
+  calculateTotalTrackedHours,
+  filterCompletedEventsInRange
+} from '@/domain/rules/insights/AnalyticsCalculations';
+import { splitEventAtMidnight } from '@/domain/rules/events/EventSplitting';
+import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+export type TimesheetPeriod = 'day' | 'week';
+export type TimesheetRoundingMinutes = 0 | 6 | 15 | 30;
+export type TimesheetRoundingMode = 'up' | 'nearest';
+
+export interface TimesheetExportOptions {
+  rangeStart: Date;
+  rangeEnd: Date;
+  period?: TimesheetPeriod; // Default: 'day'
+  roundingMinutes?: TimesheetRoundingMinutes; // Default: 0 (no rounding)
+  roundingMode?: TimesheetRoundingMode; // Default: 'up'
+  // Filters (empty = no filter)
+  projectIds?: string[];
+  clientIds?: string[];
+  includeUnassigned?: boolean; // Time without a project. Default: true (matches Insights totals)
+}
+
+export interface TimesheetExportData {
+  events: CalendarEvent[];
+  projects: Project[];
+  clients: Client[];
+}
+
+export interface TimesheetLine {
+  periodKey: string; // YYYY-MM-DD of the day, or of the Monday for weeks
+  periodStart: Date;
+  entryCount: number;
+  hours: number;
+  roundedHours: number;
+}
+
+export interface TimesheetProjectGroup {
+  projectId: string | null;
+  projectName: string;
+  lines: TimesheetLine[];
+  hours: number;
+  roundedHours: number;
+}
+
+export interface TimesheetClientGroup {
+  clientId: string | null;
+  clientName: string;
+  projects: TimesheetProjectGroup[];
+  hours: number;
+  roundedHours: number;
+}
+
+export interface Timesheet {
+  rangeStart: Date;
+  rangeEnd: Date;
+  period: TimesheetPeriod;
+  roundingMinutes: TimesheetRoundingMinutes;
+  roundingMode: TimesheetRoundingMode;
+  clients: TimesheetClientGroup[];
+  totalHours: number;
+  roundedTotalHours: number;
+}
+
+const NO_CLIENT = 'No client';
+const NO_PROJECT = 'No project';
+
+/**
+ * Build a timesheet from completed and tracked events
+ *
+ * Events are selected with the same rules as Insights, split at midnight,
+ * clipped to the range and rounded per timesheet line (client + project + period).
+ */
+export function buildTimesheet(data: TimesheetExportData, options: TimesheetExportOptions): Timesheet {
+  const period = options.period ?? 'day';
+  const roundingMinutes = options.roundingMinutes ?? 0;
+  const roundingMode = options.roundingMode ?? 'up';
+  const projectsById = new Map(data.projects.map(project => [project.id, project]));
+  const clientsById = new Map(data.clients.map(client => [client.id, client]));
+
+  const completed = filterCompletedEventsInRange(data.events, options.rangeStart, options.rangeEnd) as CalendarEvent[];
+  const parts = completed
+    .filter(event => event.category !== 'task')
+    .filter(event => isEventIncluded(event, projectsById, options))
+    .flatMap(splitEventAtMidnight)
+    .flatMap(part => clipToRange(part, options.rangeStart, options.rangeEnd));
+
+  // client → project → period → event parts
+  const grouped = new Map<string, Map<string, Map<string, CalendarEvent[]>>>();
+  parts.forEach(part => {
+    const project = part.projectId ? projectsById.get(part.projectId) : undefined;
+    const clientKey = project?.clientId ?? '';
+    const projectKey = project?.id ?? '';
+    const periodKey = getDateKey(getPeriodStart(new Date(part.startTime), period));
+
+    const projects = grouped.get(clientKey) ?? new Map<string, Map<string, CalendarEvent[]>>();
+    const periods = projects.get(projectKey) ?? new Map<string, CalendarEvent[]>();
+    periods.set(periodKey, [...(periods.get(periodKey) ?? []), part]);
+    projects.set(projectKey, periods);
+    grouped.set(clientKey, projects);
+  });
+
+  const clients: TimesheetClientGroup[] = Array.from(grouped.entries()).map(([clientKey, projects]) => {
+    const projectGroups: TimesheetProjectGroup[] = Array.from(projects.entries()).map(([projectKey, periods]) => {
+      const lines: TimesheetLine[] = Array.from(periods.entries())
+        .map(([periodKey, events]) => {
+          const hours = calculateTotalTrackedHours(events);
+          return {
+            periodKey,
+            periodStart: new Date(`${periodKey}T00:00:00`),
+            entryCount: new Set(events.map(event => event.originalEventId ?? event.id)).size,
+            hours,
+            roundedHours: roundTimesheetHours(hours, roundingMinutes, roundingMode)
+          };
+        })
+        .sort((a, b) => a.periodKey.localeCompare(b.periodKey));
+
+      return {
+        projectId: projectKey || null,
+        projectName: projectsById.get(projectKey)?.name ?? NO_PROJECT,
+        lines,
+        ...sumHours(lines)
+      };
+    });
+
+    // Fall back to the legacy client name on the project
+    const firstProject = projectsById.get(projectGroups[0]?.projectId ?? '');
+    return {
+      clientId: clientKey || null,
+      clientName: clientsById.get(clientKey)?.name || firstProject?.client || NO_CLIENT,
+      projects: projectGroups.sort(compareByName(group => group.projectName, group => !group.projectId)),
+      ...sumHours(projectGroups)
+    };
+  });
+
+  const totals = sumHours(clients);
+  return {
+    rangeStart: options.rangeStart,
+    rangeEnd: options.rangeEnd,
+    period,
+    roundingMinutes,
+    roundingMode,
+    clients: clients.sort(compareByName(group => group.clientName, group => !group.clientId)),
+    totalHours: totals.hours,
+    roundedTotalHours: totals.roundedHours
+  };
+}
+
+/**
+ * Round hours to a billing increment in minutes (0 = no rounding)
+ */
+export function roundTimesheetHours(
+  hours: number,
+  incrementMinutes: TimesheetRoundingMinutes,
+  mode: TimesheetRoundingMode = 'up'
+): number {
+  if (incrementMinutes === 0 || hours <= 0) return hours;
+
+  // Trim floating point noise so exact multiples are not rounded up a whole increment
+  const increments = Number(((hours * 60) / incrementMinutes).toFixed(6));
+  const rounded = mode === 'up' ? Math.ceil(increments) : Math.round(increments);
+  return (rounded * incrementMinutes) / 60;
+}
+
+/**
+ * Generate CSV with one row per timesheet line
+ */
+export function generateTimesheetCsv(timesheet: Timesheet): string {
+  const periodHeader = timesheet.period === 'week' ? 'Week Starting' : 'Date';
+  const rows: string[][] = [['Client', 'Project', periodHeader, 'Entries', 'Hours', 'Rounded Hours']];
+
+  timesheet.clients.forEach(client => {
+    client.projects.forEach(project => {
+      project.lines.forEach(line => {
+        rows.push([
+          client.clientName,
+          project.projectName,
+          line.periodKey,
+          String(line.entryCount),
+          formatHours(line.hours),
+          formatHours(line.roundedHours)
+        ]);
+      });
+    });
+  });
+
+  return rows.map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Generate a printable HTML summary with client and project subtotals
+ */
+export function generateTimesheetSummaryHtml(timesheet: Timesheet): string {
+  const title = `Timesheet ${getDateKey(timesheet.rangeStart)} – ${getDateKey(timesheet.rangeEnd)}`;
+  const rounding = timesheet.roundingMinutes
+    ? `Rounded ${timesheet.roundingMode === 'up' ? 'up' : 'to the nearest'} ${timesheet.roundingMinutes} minutes per line`
+    : 'Not rounded';
+
+  const body = timesheet.clients.map(client => {
+    const projectRows = client.projects.map(project => {
+      const lineRows = project.lines.map(line => `
+        <tr>
+          <td class="period">${escapeHtml(formatPeriodLabel(line.periodKey, timesheet.period))}</td>
+          <td class="num">${formatHours(line.hours)}</td>
+          <td class="num">${formatHours(line.roundedHours)}</td>
+        </tr>`).join('');
+
+      return `
+        <tr class="project">
+          <td>${escapeHtml(project.projectName)}</td>
+          <td class="num">${formatHours(project.hours)}</td>
+          <td class="num">${formatHours(project.roundedHours)}</td>
+        </tr>${lineRows}`;
+    }).join('');
+
+    return `
+      <h2>${escapeHtml(client.clientName)}</h2>
+      <table>
+        <thead><tr><th></th><th class="num">Hours</th><th class="num">Rounded</th></tr></thead>
+        <tbody>${projectRows}</tbody>
+        <tfoot><tr><td>Subtotal</td><td class="num">${formatHours(client.hours)}</td><td class="num">${formatHours(client.roundedHours)}</td></tr></tfoot>
+      </table>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 32px; color: #111; }
+    h1 { font-size: 20px; margin-bottom: 4px; }
+    h2 { font-size: 16px; margin: 24px 0 8px; }
+    .meta { color: #555; font-size: 13px; }
+    table { width: 100%; border-collapse: collapse; font-size: 13px; }
+    th, td { padding: 4px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+    .num { text-align: right; font-variant-numeric: tabular-nums; }
+    .project td { font-weight: 600; }
+    .period { padding-left: 24px; color: #444; }
+    tfoot td { font-weight: 600; border-top: 2px solid #111; }
+    .total { margin-top: 24px; font-size: 15px; font-weight: 600; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="meta">${escapeHtml(rounding)}</p>
+  ${body || '<p>No completed or tracked time in this range.</p>'}
+  <p class="total">Total: ${formatHours(timesheet.totalHours)}h · Rounded: ${formatHours(timesheet.roundedTotalHours)}h</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for a timesheet download
+ */
+export function getTimesheetExportFileName(timesheet: Timesheet, extension: 'csv' | 'html' = 'csv'): string {
+  return `timesheet-${getDateKey(timesheet.rangeStart)}-to-${getDateKey(timesheet.rangeEnd)}.${extension}`;
+}
+
+function isEventIncluded(
+  event: CalendarEvent,
+  projectsById: Map<string, Project>,
+  options: TimesheetExportOptions
+): boolean {
+  const project = event.projectId ? projectsById.get(event.projectId) : undefined;
+  if (!project) {
+    return options.includeUnassigned !== false && !options.projectIds?.length && !options.clientIds?.length;
+  }
+  if (options.projectIds?.length && !options.projectIds.includes(project.id)) return false;
+  if (options.clientIds?.length && !options.clientIds.includes(project.clientId)) return false;
+  return true;
+}
+
+// An event that runs past the range end only bills the part inside the range
+function clipToRange(part: CalendarEvent, rangeStart: Date, rangeEnd: Date): CalendarEvent[] {
+  const start = new Date(part.startTime);
+  const end = new Date(part.endTime);
+  if (start >= rangeStart && end <= rangeEnd) return [part];
+
+  const clippedStart = start < rangeStart ? rangeStart : start;
+  const clippedEnd = end > rangeEnd ? rangeEnd : end;
+  if (clippedEnd <= clippedStart) return [];
+
+  return [{
+    ...part,
+    startTime: new Date(clippedStart),
+    endTime: new Date(clippedEnd),
+    duration: calculateDurationHours(clippedStart, clippedEnd)
+  }];
+}
+
+function getPeriodStart(date: Date, period: TimesheetPeriod): Date {
+  return period === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : date;
+}
+
+function sumHours(items: Array<{ hours: number; roundedHours: number }>): { hours: number; roundedHours: number } {
+  return items.reduce(
+    (total, item) => ({ hours: total.hours + item.hours, roundedHours: total.roundedHours + item.roundedHours }),
+    { hours: 0, roundedHours: 0 }
+  );
+}
+
+// Alphabetical, with unassigned groups last
+function compareByName<T>(getName: (item: T) => string, isUnassigned: (item: T) => boolean) {
+  return (a: T, b: T) => Number(isUnassigned(a)) - Number(isUnassigned(b)) || getName(a).localeCompare(getName(b));
+}
+
+function formatHours(hours: number): string {
+  return hours.toFixed(2);
+}
+
+function formatPeriodLabel(periodKey: string, period: TimesheetPeriod): string {
+  return period === 'week' ? `Week of ${periodKey}` : periodKey;
+}
+
+function escapeCsvValue(value: string): string {
+  // Names starting with a formula character would run as formulas in spreadsheets
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
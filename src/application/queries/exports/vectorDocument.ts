@@ -0,0 +1,213 @@
+/**
+ * Vector Document Rendering
+ *
+ * RESPONSIBILITIES:
+ * - Describe pages as simple shapes (rectangles, lines, polygons, text)
+ * - Render a page as standalone SVG markup
+ * - Render pages as a PDF document (vector drawing, built-in Helvetica)
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Deciding what is drawn (export builders such as planExport lay out the shapes)
+ * - Rasterizing or downloading files (presentation handles this)
+ *
+ * Coordinates are in points with the origin at the top left, as in SVG; text
+ * y is the baseline. PDF text uses WinAnsi encoding, so characters outside it
+ * are written as "?".
+ */
+import { ColorCalculationService } from '@/presentation/services/ColorCalculations';
+
+export type VectorShape =
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill?: string; stroke?: string; title?: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth?: number; dashed?: boolean }
+  | { kind: 'polygon'; points: Array<[number, number]>; fill: string; title?: string }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; fill?: string; anchor?: 'start' | 'middle' | 'end'; bold?: boolean };
+
+export interface VectorPage {
+  width: number;
+  height: number;
+  shapes: VectorShape[];
+}
+
+const FONT_FAMILY = 'Helvetica, Arial, sans-serif';
+const DEFAULT_TEXT_COLOR = '#111827';
+
+// Average Helvetica glyph widths as a share of the font size
+const AVERAGE_CHAR_WIDTH = { regular: 0.52, bold: 0.57 };
+
+// Unicode punctuation with a WinAnsi code point outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+/**
+ * Approximate rendered text width (exact metrics are not needed for layout)
+ */
+export function estimateTextWidth(text: string, size: number, bold = false): number {
+  return text.length * size * (bold ? AVERAGE_CHAR_WIDTH.bold : AVERAGE_CHAR_WIDTH.regular);
+}
+
+/**
+ * Shorten text with an ellipsis so it fits the given width
+ */
+export function fitText(text: string, size: number, maxWidth: number, bold = false): string {
+  if (estimateTextWidth(text, size, bold) <= maxWidth) return text;
+  const maxChars = Math.floor(maxWidth / (size * (bold ? AVERAGE_CHAR_WIDTH.bold : AVERAGE_CHAR_WIDTH.regular))) - 1;
+  return maxChars > 0 ? `${text.slice(0, maxChars).trimEnd()}…` : '';
+}
+
+// ============================================================================
+// SVG
+// ============================================================================
+
+/**
+ * Render a page as an SVG document
+ */
+export function renderSvgDocument(page: VectorPage, title?: string): string {
+  const shapes = page.shapes.map(renderSvgShape).join('\n  ');
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${num(page.width)}" height="${num(page.height)}" viewBox="0 0 ${num(page.width)} ${num(page.height)}" font-family="${FONT_FAMILY}">
+  ${title ? `<title>${escapeXml(title)}</title>\n  ` : ''}<rect x="0" y="0" width="${num(page.width)}" height="${num(page.height)}" fill="#ffffff"/>
+  ${shapes}
+</svg>
+`;
+}
+
+function renderSvgShape(shape: VectorShape): string {
+  switch (shape.kind) {
+    case 'rect': {
+      const attributes = `x="${num(shape.x)}" y="${num(shape.y)}" width="${num(shape.width)}" height="${num(shape.height)}" fill="${shape.fill ?? 'none'}"${shape.stroke ? ` stroke="${shape.stroke}" stroke-width="0.5"` : ''}`;
+      return shape.title ? `<rect ${attributes}><title>${escapeXml(shape.title)}</title></rect>` : `<rect ${attributes}/>`;
+    }
+    case 'line':
+      return `<line x1="${num(shape.x1)}" y1="${num(shape.y1)}" x2="${num(shape.x2)}" y2="${num(shape.y2)}" stroke="${shape.stroke}" stroke-width="${num(shape.strokeWidth ?? 0.5)}"${shape.dashed ? ' stroke-dasharray="2 2"' : ''}/>`;
+    case 'polygon': {
+      const points = shape.points.map(([x, y]) => `${num(x)},${num(y)}`).join(' ');
+      return shape.title
+        ? `<polygon points="${points}" fill="${shape.fill}"><title>${escapeXml(shape.title)}</title></polygon>`
+        : `<polygon points="${points}" fill="${shape.fill}"/>`;
+    }
+    case 'text': {
+      const anchor = shape.anchor && shape.anchor !== 'start' ? ` text-anchor="${shape.anchor}"` : '';
+      const weight = shape.bold ? ' font-weight="bold"' : '';
+      return `<text x="${num(shape.x)}" y="${num(shape.y)}" font-size="${num(shape.size)}" fill="${shape.fill ?? DEFAULT_TEXT_COLOR}"${anchor}${weight}>${escapeXml(shape.text)}</text>`;
+    }
+  }
+}
+
+// ============================================================================
+// PDF
+// ============================================================================
+
+/**
+ * Render pages as a PDF document
+ *
+ * Returns bytes because object offsets are counted in bytes; every character
+ * written is a single WinAnsi byte.
+ */
+export function renderPdfDocument(pages: VectorPage[], title?: string): Uint8Array {
+  const objects: string[] = [];
+  const addObject = (body: string) => objects.push(body);
+
+  // 1: catalog, 2: page tree, 3-4: fonts, 5: document info, then page + content pairs
+  const firstPageObject = 6;
+  const pageRefs = pages.map((_, index) => `${firstPageObject + index * 2} 0 R`);
+
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  addObject(`<< /Title (${escapePdfText(title ?? '')}) >>`);
+
+  pages.forEach((page, index) => {
+    const contentRef = `${firstPageObject + index * 2 + 1} 0 R`;
+    addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentRef} >>`
+    );
+    const content = page.shapes.map(shape => renderPdfShape(shape, page.height)).join('\n');
+    addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) {
+    bytes[i] = output.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function renderPdfShape(shape: VectorShape, pageHeight: number): string {
+  switch (shape.kind) {
+    case 'rect': {
+      const box = `${num(shape.x)} ${num(pageHeight - shape.y - shape.height)} ${num(shape.width)} ${num(shape.height)} re`;
+      if (shape.fill && shape.stroke) return `${pdfColor(shape.fill, 'rg')} ${pdfColor(shape.stroke, 'RG')} 0.5 w ${box} B`;
+      if (shape.stroke) return `${pdfColor(shape.stroke, 'RG')} 0.5 w ${box} S`;
+      return shape.fill ? `${pdfColor(shape.fill, 'rg')} ${box} f` : '';
+    }
+    case 'line': {
+      const dash = shape.dashed ? '[2 2] 0 d' : '[] 0 d';
+      return `${pdfColor(shape.stroke, 'RG')} ${num(shape.strokeWidth ?? 0.5)} w ${dash} ` +
+        `${num(shape.x1)} ${num(pageHeight - shape.y1)} m ${num(shape.x2)} ${num(pageHeight - shape.y2)} l S`;
+    }
+    case 'polygon': {
+      const [first, ...rest] = shape.points;
+      if (!first) return '';
+      const path = [
+        `${num(first[0])} ${num(pageHeight - first[1])} m`,
+        ...rest.map(([x, y]) => `${num(x)} ${num(pageHeight - y)} l`)
+      ].join(' ');
+      return `${pdfColor(shape.fill, 'rg')} ${path} h f`;
+    }
+    case 'text': {
+      const width = estimateTextWidth(shape.text, shape.size, shape.bold);
+      const x = shape.anchor === 'middle' ? shape.x - width / 2 : shape.anchor === 'end' ? shape.x - width : shape.x;
+      return `BT /${shape.bold ? 'F2' : 'F1'} ${num(shape.size)} Tf ${pdfColor(shape.fill ?? DEFAULT_TEXT_COLOR, 'rg')} ` +
+        `${num(x)} ${num(pageHeight - shape.y)} Td (${escapePdfText(shape.text)}) Tj ET`;
+    }
+  }
+}
+
+function pdfColor(color: string, operator: 'rg' | 'RG'): string {
+  const [red, green, blue] = ColorCalculationService.toRgb(color) ?? [0, 0, 0];
+  return `${num(red / 255)} ${num(green / 255)} ${num(blue / 255)} ${operator}`;
+}
+
+function escapePdfText(text: string): string {
+  return Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (WIN_ANSI_EXTRAS[char]) return String.fromCharCode(WIN_ANSI_EXTRAS[char]);
+      if (code < 0x20 || (code >= 0x7f && code < 0xa0) || code > 0xff) return '?';
+      return char;
+    })
+    .join('')
+    .replace(/[\\()]/g, match => `\\${match}`);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// Two decimals are plenty for points and color channels
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
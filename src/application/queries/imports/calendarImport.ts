@@ -5,6 +5,7 @@
  * - Parse external calendar formats (iCal, etc.) into standard format
  * - Transform external event data into ExternalEvent DTOs
  * - Data validation and error handling during parsing
+ * - Fetching remote ICS subscription feeds (through the fetch-ical-feed edge function)
  * 
  * NOT RESPONSIBLE FOR:
  * - Database operations (orchestrators handle this)
@@ -12,7 +13,14 @@
  * - Workflow coordination (orchestrators handle this)
  */
 import ICAL from 'ical.js';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/infrastructure/database/client';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import {
+  fromWallClock,
+  isValidTimeZone,
+  type RecurrenceException
+} from '@/domain/rules/events/EventRecurrence';
 
 export interface ExternalEvent {
   title: string;
@@ -24,42 +32,228 @@ export interface ExternalEvent {
   externalSource: 'ical' | 'google' | 'outlook';
   externalUrl?: string;
   externalLastModified?: Date;
+  // Recurring series (master VEVENT with RRULE)
+  rrule?: string; // RRULE value, UNTIL normalised to UTC
+  timeZone?: string; // IANA zone of DTSTART, when known
+  recurrenceExceptions?: RecurrenceException[]; // EXDATE + RECURRENCE-ID overrides
 }
 
 export interface ImportResult {
   success: boolean;
   imported: number;
   updated: number;
+  deleted?: number;
   failed: number;
   errors: string[];
 }
 
 /**
  * Parse iCal (.ics) file content and extract events
+ *
+ * - VTIMEZONE definitions are registered so TZID times resolve to the right instant
+ * - Recurring VEVENTs become a single series (rrule) with their EXDATEs and
+ *   RECURRENCE-ID overrides attached as exceptions
+ * - Overrides whose master is not in the file are imported as standalone events
  */
 export function parseICalFile(fileContent: string): ExternalEvent[] {
   try {
     const jcalData = ICAL.parse(fileContent);
     const comp = new ICAL.Component(jcalData);
+    registerTimezones(comp);
+
     const vevents = comp.getAllSubcomponents('vevent');
-    
-    return vevents.map(vevent => {
-      const event = new ICAL.Event(vevent);
-      
-      return {
-        title: event.summary || 'Untitled Event',
-        startTime: event.startDate.toJSDate(),
-        endTime: event.endDate.toJSDate(),
-        description: event.description || undefined,
-        location: event.location || undefined,
-        externalId: event.uid,
-        externalSource: 'ical' as const,
-        externalUrl: undefined,
-        externalLastModified: undefined // TODO: Parse last-modified from iCal if needed
-      };
+    const masters = vevents.filter(vevent => !vevent.hasProperty('recurrence-id'));
+    const overridesByUid = new Map<string, ICAL.Component[]>();
+    vevents
+      .filter(vevent => vevent.hasProperty('recurrence-id'))
+      .forEach(vevent => {
+        const uid = String(vevent.getFirstPropertyValue('uid'));
+        overridesByUid.set(uid, [...(overridesByUid.get(uid) || []), vevent]);
+      });
+
+    const events = masters.map(vevent => {
+      const uid = String(vevent.getFirstPropertyValue('uid'));
+      const overrides = overridesByUid.get(uid) || [];
+      overridesByUid.delete(uid);
+      return toExternalEvent(vevent, overrides);
+    });
+
+    // Overrides without their master in this file
+    overridesByUid.forEach(overrides => {
+      overrides
+        .filter(vevent => vevent.getFirstPropertyValue('status') !== 'CANCELLED')
+        .forEach(vevent => {
+          const standalone = toExternalEvent(vevent, []);
+          const originalStart = getPropertyInstant(vevent, 'recurrence-id');
+          standalone.externalId = `${standalone.externalId}_${originalStart?.toISOString()}`;
+          events.push(standalone);
+        });
     });
+
+    return events;
   } catch (error) {
     ErrorHandlingService.handle(error, { source: 'parseICalFile', action: 'Error parsing iCal file:' });
     throw new Error(`Failed to parse iCal file: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Register every VTIMEZONE in the calendar with ical.js
+ */
+function registerTimezones(calendar: ICAL.Component): void {
+  calendar.getAllSubcomponents('vtimezone').forEach(vtimezone => {
+    const tzid = vtimezone.getFirstPropertyValue('tzid');
+    if (tzid && !ICAL.TimezoneService.has(String(tzid))) {
+      ICAL.TimezoneService.register(vtimezone);
+    }
+  });
+}
+
+/**
+ * Resolve an ICAL.Time to an instant
+ * Falls back to the IANA TZID parameter when the file has no matching VTIMEZONE.
+ */
+function toInstant(time: ICAL.Time, tzid?: string): Date {
+  const isFloating = !time.zone || time.zone === ICAL.Timezone.localTimezone;
+  if (!time.isDate && isFloating && tzid && isValidTimeZone(tzid)) {
+    const wallClock = new Date(Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second));
+    return fromWallClock(wallClock, tzid);
+  }
+  return time.toJSDate();
+}
+
+function getTzidParameter(property: ICAL.Property | null): string | undefined {
+  const tzid = property?.getParameter('tzid');
+  return typeof tzid === 'string' ? tzid : undefined;
+}
+
+function getPropertyInstant(vevent: ICAL.Component, name: string): Date | undefined {
+  const property = vevent.getFirstProperty(name);
+  const value = property?.getFirstValue();
+  return value instanceof ICAL.Time ? toInstant(value, getTzidParameter(property)) : undefined;
+}
+
+function getLastModified(vevent: ICAL.Component): Date | undefined {
+  const lastModified = vevent.getFirstPropertyValue('last-modified');
+  return lastModified instanceof ICAL.Time ? lastModified.toJSDate() : undefined;
+}
+
+/**
+ * RRULE value with UNTIL expressed in UTC
+ * A floating UNTIL is interpreted in DTSTART's zone (RFC 5545 §3.3.10).
+ */
+function formatRRule(recur: ICAL.Recur, startDate: ICAL.Time, tzid?: string): string {
+  const value = recur.toString();
+  if (!recur.until || recur.until.isDate) return value;
+
+  const until = recur.until.clone();
+  if (!until.zone || until.zone === ICAL.Timezone.localTimezone) {
+    until.zone = startDate.zone;
+  }
+  const untilUtc = toInstant(until, tzid).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z');
+  return value.replace(/UNTIL=[^;]+/, `UNTIL=${untilUtc}`);
+}
+
+function getEventTimeZone(event: ICAL.Event, tzid?: string): string | undefined {
+  const zoneId = event.startDate.zone?.tzid;
+  if (isValidTimeZone(zoneId) && zoneId !== 'floating') return zoneId;
+  return isValidTimeZone(tzid) ? tzid : undefined;
+}
+
+function toExternalEvent(vevent: ICAL.Component, overrides: ICAL.Component[]): ExternalEvent {
+  const event = new ICAL.Event(vevent);
+  const dtstart = vevent.getFirstProperty('dtstart');
+  const tzid = getTzidParameter(dtstart);
+  const dtendTzid = getTzidParameter(vevent.getFirstProperty('dtend')) ?? tzid;
+
+  const base: ExternalEvent = {
+    title: event.summary || 'Untitled Event',
+    startTime: toInstant(event.startDate, tzid),
+    endTime: toInstant(event.endDate, dtendTzid),
+    description: event.description || undefined,
+    location: event.location || undefined,
+    externalId: event.uid,
+    externalSource: 'ical' as const,
+    externalUrl: undefined,
+    externalLastModified: getLastModified(vevent)
+  };
+
+  const recur = vevent.getFirstPropertyValue('rrule');
+  if (!(recur instanceof ICAL.Recur)) {
+    return base;
+  }
+
+  const exceptions: RecurrenceException[] = [];
+
+  vevent.getAllProperties('exdate').forEach(property => {
+    const exdateTzid = getTzidParameter(property) ?? tzid;
+    property.getValues().forEach(value => {
+      if (value instanceof ICAL.Time) {
+        exceptions.push({ originalStart: toInstant(value, exdateTzid), type: 'deleted' });
+      }
+    });
+  });
+
+  let lastModified = base.externalLastModified;
+  overrides.forEach(override => {
+    const originalStart = getPropertyInstant(override, 'recurrence-id');
+    if (!originalStart) return;
+
+    const overrideLastModified = getLastModified(override);
+    if (overrideLastModified && (!lastModified || overrideLastModified > lastModified)) {
+      lastModified = overrideLastModified;
+    }
+
+    if (override.getFirstPropertyValue('status') === 'CANCELLED') {
+      exceptions.push({ originalStart, type: 'deleted' });
+      return;
+    }
+
+    const overrideEvent = new ICAL.Event(override);
+    const overrideTzid = getTzidParameter(override.getFirstProperty('dtstart'));
+    exceptions.push({
+      originalStart,
+      type: 'modified',
+      modified: {
+        title: overrideEvent.summary || base.title,
+        description: overrideEvent.description || undefined,
+        startTime: toInstant(overrideEvent.startDate, overrideTzid),
+        endTime: toInstant(overrideEvent.endDate, getTzidParameter(override.getFirstProperty('dtend')) ?? overrideTzid)
+      }
+    });
+  });
+
+  return {
+    ...base,
+    externalLastModified: lastModified,
+    rrule: formatRRule(recur, event.startDate, tzid),
+    timeZone: getEventTimeZone(event, tzid),
+    recurrenceExceptions: exceptions
+  };
+}
+
+/**
+ * Fetch a remote ICS feed and parse its events
+ * Expects an already validated http(s) URL (see validateFeedUrl). The feed is
+ * downloaded server-side: calendar hosts send no CORS headers for browsers.
+ */
+export async function fetchICalFeed(feedUrl: string): Promise<ExternalEvent[]> {
+  const { data, error } = await supabase.functions.invoke<{ content?: string }>('fetch-ical-feed', {
+    body: { url: feedUrl }
+  });
+
+  if (error) {
+    // Non-2xx responses carry the function's { error } message in their body
+    const body = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null) as { error?: string } | null
+      : null;
+    throw new Error(body?.error ?? error.message);
+  }
+
+  const content = data?.content ?? '';
+  if (!content.includes('BEGIN:VCALENDAR')) {
+    throw new Error('Calendar feed did not return iCal data');
+  }
+
+  return parseICalFile(content);
+}
@@ -14,4 +14,9 @@ export type { TimelineProjectData } from './TimelineAggregator';
 export * from './DayEstimateAggregate';
 export * from './timeTracking';
 export * from './imports';
+export * from './exports';
 export * from './workHours';
+export * from './ProjectRevenueAggregate';
+export * from './ScenarioCapacityAggregate';
+export * from './CapacityAllocationAggregate';
+export * from './PlanBaselineAggregate';
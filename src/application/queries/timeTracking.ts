@@ -1,8 +1,9 @@
 import { supabase } from '@/infrastructure/database/client';
-import type { TimeTrackingState, SerializedTimeTrackingState } from '@/shared/types/timeTracking';
+import type { FocusSessionState, TimeTrackingState, SerializedTimeTrackingState } from '@/shared/types/timeTracking';
 import type { RealtimeChannel } from '@supabase/supabase-js';
 import type { Json } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { deserializeFocusSession, serializeFocusSession } from '@/domain/rules/time-tracking/FocusSession';
 /**
  * Time Tracking Repository
  * 
@@ -30,7 +31,8 @@ class TimeTrackingRepository {
       selectedProject: state.selectedProject ?? null,
       searchQuery: state.searchQuery ?? '',
       affectedEvents: state.affectedEvents ?? [],
-      currentSeconds: state.currentSeconds ?? 0
+      currentSeconds: state.currentSeconds ?? 0,
+      focus: serializeFocusSession(state.focus)
     };
   }
   private deserializeState(serializedState: SerializedTimeTrackingState): TimeTrackingState {
@@ -48,6 +50,7 @@ class TimeTrackingRepository {
       searchQuery: serializedState.searchQuery ?? '',
       affectedEvents: serializedState.affectedEvents ?? [],
       currentSeconds: serializedState.currentSeconds ?? 0,
+      focus: deserializeFocusSession(serializedState.focus),
       // Initialize legacy fields
       lastUpdated: serializedState.lastUpdateTime ? new Date(serializedState.lastUpdateTime) : undefined
     };
@@ -81,6 +84,35 @@ class TimeTrackingRepository {
       throw error;
     }
   }
+  /**
+   * Save state only while the stored focus session is still in `expected`'s
+   * phase (same phase, same start). A compare-and-set: when several windows or
+   * devices complete the same phase, exactly one of them moves it on.
+   * @returns Whether the state was saved
+   */
+  async saveStateIfFocusPhase(state: TimeTrackingState, expected: FocusSessionState): Promise<boolean> {
+    if (!this.userId) {
+      throw new Error('User ID must be set before saving state');
+    }
+    const serializedState = this.serializeState(state);
+    const expectedFocus = serializeFocusSession(expected)!;
+    try {
+      const { data, error } = await supabase
+        .from('settings')
+        .update({ time_tracking_state: serializedState as unknown as Json })
+        .eq('user_id', this.userId)
+        .eq('time_tracking_state->focus->>phase', expectedFocus.phase)
+        .eq('time_tracking_state->focus->>phaseStartedAt', expectedFocus.phaseStartedAt)
+        .select('id');
+      if (error) throw error;
+      if (!data?.length) return false;
+      this.saveToLocalStorage(serializedState);
+      return true;
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'timeTrackingRepository', action: '❌ Failed to save time tracking state:' });
+      throw error;
+    }
+  }
   async loadState(): Promise<TimeTrackingState | null> {
     if (!this.userId) {
       console.warn('⚠️ No user ID - cannot load state');
@@ -115,6 +147,7 @@ class TimeTrackingRepository {
             searchQuery: stateData.searchQuery ?? '',
             affectedEvents: stateData.affectedEvents ?? [],
             currentSeconds: stateData.currentSeconds ?? 0,
+            focus: deserializeFocusSession(stateData.focus),
             lastUpdated: stateData.lastUpdateTime ? new Date(stateData.lastUpdateTime) : undefined
           };
         } else {
@@ -10,9 +10,10 @@
  * @see docs/core/Business Logic.md - Detailed business rules
  */
 
-import type { Client as ClientData, ClientStatus } from '@/shared/types/core';
+import type { BillingRate, Client as ClientData, ClientStatus } from '@/shared/types/core';
 import type { Database } from '@/infrastructure/database/types';
 import { ClientRules } from '@/domain/rules/clients/ClientValidation';
+import { DEFAULT_CURRENCY, isValidCurrencyCode, validateBillingRate } from '@/domain/rules/projects/ProjectRevenue';
 import type { DomainResult } from './Project';
 
 type ClientRow = Database['public']['Tables']['clients']['Row'];
@@ -27,6 +28,8 @@ export interface CreateClientParams {
   contactPhone?: string;
   billingAddress?: string;
   notes?: string;
+  currency?: string;
+  defaultRate?: BillingRate;
   userId: string;
   existingClients?: ClientData[]; // Optional: for duplicate name validation
 }
@@ -41,6 +44,8 @@ export interface UpdateClientParams {
   contactPhone?: string;
   billingAddress?: string;
   notes?: string;
+  currency?: string;
+  defaultRate?: BillingRate | null; // null clears the default rate
 }
 
 /**
@@ -62,6 +67,8 @@ export class Client {
   private _contactPhone?: string;
   private _billingAddress?: string;
   private _notes?: string;
+  private _currency: string;
+  private _defaultRate?: BillingRate;
   private _updatedAt: Date;
 
   // ============================================================================
@@ -76,6 +83,8 @@ export class Client {
   get contactPhone(): string | undefined { return this._contactPhone; }
   get billingAddress(): string | undefined { return this._billingAddress; }
   get notes(): string | undefined { return this._notes; }
+  get currency(): string { return this._currency; }
+  get defaultRate(): BillingRate | undefined { return this._defaultRate; }
   get createdAt(): Date { return this._createdAt; }
   get updatedAt(): Date { return this._updatedAt; }
 
@@ -89,6 +98,8 @@ export class Client {
     this._contactPhone = data.contactPhone;
     this._billingAddress = data.billingAddress;
     this._notes = data.notes;
+    this._currency = data.currency ?? DEFAULT_CURRENCY;
+    this._defaultRate = data.defaultRate;
     this._createdAt = new Date(data.createdAt);
     this._updatedAt = new Date(data.updatedAt);
   }
@@ -141,6 +152,12 @@ export class Client {
       errors.push('Contact phone must contain only valid characters (digits, spaces, hyphens, parentheses, plus)');
     }
 
+    // RULE 5: Billing currency and default rate must be valid (if provided)
+    if (params.currency !== undefined && !isValidCurrencyCode(params.currency)) {
+      errors.push('Currency must be a 3-letter currency code (e.g. EUR)');
+    }
+    errors.push(...validateBillingRate(params.defaultRate));
+
     if (errors.length > 0) {
       return { 
         success: false, 
@@ -157,6 +174,8 @@ export class Client {
       contactPhone: params.contactPhone?.trim(),
       billingAddress: params.billingAddress?.trim(),
       notes: params.notes?.trim(),
+      currency: params.currency ?? DEFAULT_CURRENCY,
+      defaultRate: params.defaultRate,
       userId: params.userId,
       createdAt: new Date(),
       updatedAt: new Date()
@@ -189,6 +208,10 @@ export class Client {
       contactPhone: data.contact_phone ?? undefined,
       billingAddress: data.billing_address ?? undefined,
       notes: data.notes ?? undefined,
+      currency: data.currency,
+      defaultRate: data.rate_type === 'hourly' || data.rate_type === 'fixed'
+        ? { type: data.rate_type, amount: Number(data.rate_amount ?? 0) }
+        : undefined,
       createdAt: new Date(data.created_at),
       updatedAt: new Date(data.updated_at),
     };
@@ -225,6 +248,12 @@ export class Client {
       errors.push('Contact phone must contain only valid characters (digits, spaces, hyphens, parentheses, plus)');
     }
 
+    // Validate billing if provided
+    if (params.currency !== undefined && !isValidCurrencyCode(params.currency)) {
+      errors.push('Currency must be a 3-letter currency code (e.g. EUR)');
+    }
+    errors.push(...validateBillingRate(params.defaultRate));
+
     if (errors.length > 0) {
       return { success: false, errors };
     }
@@ -236,6 +265,8 @@ export class Client {
     if (params.contactPhone !== undefined) this._contactPhone = params.contactPhone?.trim();
     if (params.billingAddress !== undefined) this._billingAddress = params.billingAddress?.trim();
     if (params.notes !== undefined) this._notes = params.notes?.trim();
+    if (params.currency !== undefined) this._currency = params.currency;
+    if (params.defaultRate !== undefined) this._defaultRate = params.defaultRate ?? undefined;
     this._updatedAt = new Date();
 
     return { success: true };
@@ -315,6 +346,8 @@ export class Client {
       contactPhone: this._contactPhone,
       billingAddress: this._billingAddress,
       notes: this._notes,
+      currency: this._currency,
+      defaultRate: this._defaultRate,
       userId: this._userId,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt
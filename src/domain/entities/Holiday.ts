@@ -14,6 +14,7 @@ import type { Holiday as HolidayData } from '@/shared/types/core';
 import type { Database } from '@/infrastructure/database/types';
 import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
 import type { DomainResult } from './Project';
+import { isPartialHoliday, validateHolidayCapacity } from '@/domain/rules/holidays/HolidayCapacity';
 
 type HolidayRow = Database['public']['Tables']['holidays']['Row'];
 
@@ -25,6 +26,8 @@ export interface CreateHolidayParams {
   startDate: Date;
   endDate: Date;
   notes?: string;
+  capacityFraction?: number;
+  availableHours?: number;
   userId: string;
 }
 
@@ -36,6 +39,8 @@ export interface UpdateHolidayParams {
   startDate?: Date;
   endDate?: Date;
   notes?: string;
+  capacityFraction?: number | null; // null clears a partial day back to a day off
+  availableHours?: number | null;
 }
 
 /**
@@ -47,8 +52,9 @@ export interface UpdateHolidayParams {
  * Key Rules:
  * 1. Title is required
  * 2. End date must be on or after start date
- * 3. Holidays override work slots (no capacity on holidays)
+ * 3. Holidays override work slots (no capacity, or partial capacity on partial days)
  * 4. Can be single day or multiple days
+ * 5. A partial day has a capacity fraction or available hours, not both
  */
 export class Holiday {
   // Immutable core properties
@@ -61,6 +67,8 @@ export class Holiday {
   private _startDate: Date;
   private _endDate: Date;
   private _notes?: string;
+  private _capacityFraction?: number;
+  private _availableHours?: number;
   private _updatedAt: Date;
 
   // ============================================================================
@@ -73,6 +81,8 @@ export class Holiday {
   get startDate(): Date { return this._startDate; }
   get endDate(): Date { return this._endDate; }
   get notes(): string | undefined { return this._notes; }
+  get capacityFraction(): number | undefined { return this._capacityFraction; }
+  get availableHours(): number | undefined { return this._availableHours; }
   get createdAt(): Date { return this._createdAt; }
   get updatedAt(): Date { return this._updatedAt; }
 
@@ -84,6 +94,8 @@ export class Holiday {
     this._startDate = normalizeToMidnight(new Date(data.startDate));
     this._endDate = normalizeToMidnight(new Date(data.endDate));
     this._notes = data.notes;
+    this._capacityFraction = data.capacityFraction;
+    this._availableHours = data.availableHours;
     this._createdAt = new Date(data.created_at);
     this._updatedAt = new Date(data.updated_at);
   }
@@ -127,6 +139,9 @@ export class Holiday {
       errors.push('Holiday end date must be on or after start date');
     }
 
+    // RULE 5: Partial day capacity
+    errors.push(...validateHolidayCapacity(params));
+
     if (errors.length > 0) {
       return { success: false, errors };
     }
@@ -137,6 +152,8 @@ export class Holiday {
       startDate: normalizedStart,
       endDate: normalizedEnd,
       notes: params.notes?.trim(),
+      capacityFraction: params.capacityFraction,
+      availableHours: params.availableHours,
       user_id: params.userId,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
@@ -165,6 +182,8 @@ export class Holiday {
       startDate: new Date(data.start_date),
       endDate: new Date(data.end_date),
       notes: data.notes || undefined,
+      capacityFraction: data.capacity_fraction ?? undefined,
+      availableHours: data.available_hours ?? undefined,
       created_at: data.created_at,
       updated_at: data.updated_at,
       user_id: data.user_id,
@@ -213,6 +232,11 @@ export class Holiday {
       }
     }
 
+    // Validate the capacity the holiday ends up with
+    const nextFraction = params.capacityFraction !== undefined ? params.capacityFraction ?? undefined : this._capacityFraction;
+    const nextHours = params.availableHours !== undefined ? params.availableHours ?? undefined : this._availableHours;
+    errors.push(...validateHolidayCapacity({ capacityFraction: nextFraction, availableHours: nextHours }));
+
     if (errors.length > 0) {
       return { success: false, errors };
     }
@@ -222,6 +246,8 @@ export class Holiday {
     if (params.startDate !== undefined) this._startDate = normalizeToMidnight(params.startDate);
     if (params.endDate !== undefined) this._endDate = normalizeToMidnight(params.endDate);
     if (params.notes !== undefined) this._notes = params.notes?.trim();
+    this._capacityFraction = nextFraction;
+    this._availableHours = nextHours;
     this._updatedAt = new Date();
 
     return { success: true };
@@ -231,6 +257,13 @@ export class Holiday {
   // QUERY METHODS - Read current state
   // ============================================================================
 
+  /**
+   * Check if some work time is left on the holiday's days
+   */
+  isPartialDay(): boolean {
+    return isPartialHoliday(this);
+  }
+
   /**
    * Check if holiday is a single day
    */
@@ -337,7 +370,9 @@ export class Holiday {
       title: this._title,
       startDate: this._startDate,
       endDate: this._endDate,
-      notes: this._notes
+      notes: this._notes,
+      capacityFraction: this._capacityFraction,
+      availableHours: this._availableHours
     };
   }
 
@@ -352,6 +387,8 @@ export class Holiday {
     start_date: string;
     end_date: string;
     notes?: string;
+    capacity_fraction: number | null;
+    available_hours: number | null;
     user_id: string;
     created_at: string;
     updated_at: string;
@@ -362,6 +399,8 @@ export class Holiday {
       start_date: this._startDate.toISOString(),
       end_date: this._endDate.toISOString(),
       notes: this._notes,
+      capacity_fraction: this._capacityFraction ?? null,
+      available_hours: this._availableHours ?? null,
       user_id: this._userId,
       created_at: this._createdAt.toISOString(),
       updated_at: this._updatedAt.toISOString()
@@ -10,8 +10,9 @@
  * @see docs/core/Business Logic.md - Detailed business rules
  */
 
-import type { Project as ProjectData, Phase, Client, ProjectStatus } from '@/shared/types/core';
+import type { Project as ProjectData, Phase, Client, ProjectStatus, BillingRate } from '@/shared/types/core';
 import { ProjectRules } from '@/domain/rules/projects/ProjectValidation';
+import { validateBillingRate } from '@/domain/rules/projects/ProjectRevenue';
 import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
 
 /**
@@ -39,6 +40,7 @@ export interface CreateProjectParams {
   status?: ProjectStatus;
   notes?: string;
   icon?: string;
+  billingRate?: BillingRate; // Overrides the client's default rate
   userId: string;
   existingPhases?: Phase[]; // Optional: for validating project not fully in past
 }
@@ -67,6 +69,7 @@ export class Project {
   private _status: ProjectStatus;
   private _notes?: string;
   private _icon?: string;
+  private _billingRate?: BillingRate;
   private _updatedAt: Date;
   
   // Relationships (loaded separately)
@@ -90,6 +93,7 @@ export class Project {
   get status(): ProjectStatus { return this._status; }
   get notes(): string | undefined { return this._notes; }
   get icon(): string | undefined { return this._icon; }
+  get billingRate(): BillingRate | undefined { return this._billingRate; }
   get createdAt(): Date { return this._createdAt; }
   get updatedAt(): Date { return this._updatedAt; }
   get phases(): Phase[] { return this._phases; }
@@ -110,6 +114,7 @@ export class Project {
     this._status = data.status ?? 'current';
     this._notes = data.notes;
     this._icon = data.icon;
+    this._billingRate = data.billingRate;
     this._createdAt = new Date(data.createdAt);
     this._updatedAt = new Date(data.updatedAt);
     this._phases = data.phases ?? [];
@@ -176,6 +181,9 @@ export class Project {
       errors.push('Continuous projects should not have an end date');
     }
 
+    // Rule: Billing rate override must be valid (if provided)
+    errors.push(...validateBillingRate(params.billingRate));
+
     // Note: Projects CAN be created in the past with estimated hours.
     // The "fully in past" validation only affects timeline rendering (auto-estimates),
     // not entity creation. This allows historical projects with time estimates.
@@ -203,6 +211,7 @@ export class Project {
       status: params.status ?? 'current',
       notes: params.notes,
       icon: params.icon ?? 'folder',
+      billingRate: params.billingRate,
       userId: params.userId,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -389,9 +398,12 @@ export class Project {
     notes?: string;
     color?: string;
     icon?: string;
+    billingRate?: BillingRate | null; // null clears the override
   }): DomainResult<void> {
     const errors: string[] = [];
 
+    errors.push(...validateBillingRate(updates.billingRate));
+
     if (updates.name !== undefined) {
       if (updates.name.trim().length === 0) {
         errors.push('Project name cannot be empty');
@@ -408,6 +420,7 @@ export class Project {
     if (updates.notes !== undefined) this._notes = updates.notes;
     if (updates.color) this._color = updates.color;
     if (updates.icon) this._icon = updates.icon;
+    if (updates.billingRate !== undefined) this._billingRate = updates.billingRate ?? undefined;
     this._updatedAt = new Date();
 
     return { success: true };
@@ -528,6 +541,7 @@ export class Project {
       status: this._status,
       notes: this._notes,
       icon: this._icon,
+      billingRate: this._billingRate,
       userId: this._userId,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
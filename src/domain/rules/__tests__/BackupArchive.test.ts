@@ -0,0 +1,137 @@
+/**
+ * Backup Archive Tests
+ *
+ * Tests for the backup archive format including:
+ * - Archive creation and version checks
+ * - Reading the legacy profile export
+ * - Row ID and reference remapping, including polymorphic dependency links
+ *
+ * @see src/domain/rules/backup/BackupArchive.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BACKUP_ARCHIVE_VERSION,
+  BackupIdMap,
+  createBackupArchive,
+  getBackupRowCounts,
+  parseBackupArchive,
+  remapBackupRow,
+} from '@/domain/rules/backup/BackupArchive';
+
+describe('BackupArchive', () => {
+
+  describe('parseBackupArchive', () => {
+    it('should read an archive it created', () => {
+      const archive = createBackupArchive(
+        { groups: [{ id: 'g1', name: 'Work' }] },
+        new Date('2026-01-15T10:00:00.000Z')
+      );
+
+      const result = parseBackupArchive(JSON.parse(JSON.stringify(archive)));
+
+      expect(result.errors).toEqual([]);
+      expect(result.archive?.version).toBe(BACKUP_ARCHIVE_VERSION);
+      expect(result.archive?.exportedAt).toBe('2026-01-15T10:00:00.000Z');
+      expect(result.archive?.tables.groups).toHaveLength(1);
+    });
+
+    it('should reject archives from a newer version', () => {
+      const archive = { ...createBackupArchive({}), version: BACKUP_ARCHIVE_VERSION + 1 };
+
+      const result = parseBackupArchive(archive);
+
+      expect(result.archive).toBeUndefined();
+      expect(result.errors[0]).toContain('newer');
+    });
+
+    it('should reject malformed input', () => {
+      expect(parseBackupArchive('not json').errors).toHaveLength(1);
+      expect(parseBackupArchive({ format: 'other' }).errors).toEqual(['Not a backup archive']);
+      expect(parseBackupArchive({ ...createBackupArchive({}), tables: { projects: 'x' } }).errors)
+        .toEqual(['Table "projects" must be a list of rows']);
+    });
+
+    it('should warn about unknown tables', () => {
+      const result = parseBackupArchive({ ...createBackupArchive({}), tables: { widgets: [] } });
+
+      expect(result.archive).toBeDefined();
+      expect(result.warnings).toEqual(['Unknown table "widgets" ignored']);
+    });
+
+    it('should upgrade the legacy profile export', () => {
+      const result = parseBackupArchive({
+        profile: { display_name: 'Sam' },
+        projects: [{ id: 'p1' }],
+        calendarEvents: [{ id: 'e1' }, { id: 'e2' }],
+        settings: { notifications: {} },
+        exportDate: '2025-12-01T00:00:00.000Z',
+      });
+
+      expect(result.archive).toBeDefined();
+      expect(getBackupRowCounts(result.archive!)).toEqual({ profiles: 1, projects: 1, calendar_events: 2 });
+      expect(result.warnings).toHaveLength(1);
+    });
+  });
+
+  describe('remapBackupRow', () => {
+    it('should point references at the new IDs', () => {
+      const idMap = new BackupIdMap();
+      idMap.set('groups', 'g1', 'g1-new');
+      idMap.set('clients', 'c1', 'c1-new');
+
+      const { row, missingReferences } = remapBackupRow(
+        'projects',
+        { id: 'p1', user_id: 'old-user', group_id: 'g1', client_id: 'c1', row_id: 'r1', name: 'Site' },
+        idMap,
+        'new-user',
+        'p1-new'
+      );
+
+      expect(missingReferences).toEqual([]);
+      expect(row).toEqual({
+        id: 'p1-new',
+        user_id: 'new-user',
+        group_id: 'g1-new',
+        client_id: 'c1-new',
+        row_id: null, // Optional reference that was not restored
+        name: 'Site',
+      });
+    });
+
+    it('should report unresolved required references', () => {
+      const { missingReferences } = remapBackupRow(
+        'phases',
+        { id: 'ph1', project_id: 'missing' },
+        new BackupIdMap(),
+        'new-user'
+      );
+
+      expect(missingReferences).toEqual(['project_id → projects']);
+    });
+
+    it('should remap dependency ends through the table named by kind', () => {
+      const idMap = new BackupIdMap();
+      idMap.set('phases', 'ph1', 'ph1-new');
+      idMap.set('phases', 'ph2', 'ph2-new');
+      idMap.set('projects', 'ph1', 'wrong');
+
+      const phaseLink = remapBackupRow(
+        'dependencies',
+        { id: 'd1', kind: 'phase', predecessor_id: 'ph1', successor_id: 'ph2' },
+        idMap,
+        'new-user'
+      );
+      const projectLink = remapBackupRow(
+        'dependencies',
+        { id: 'd2', kind: 'project', predecessor_id: 'p1', successor_id: 'p2' },
+        idMap,
+        'new-user'
+      );
+
+      expect(phaseLink.row).toMatchObject({ predecessor_id: 'ph1-new', successor_id: 'ph2-new' });
+      expect(phaseLink.missingReferences).toEqual([]);
+      expect(projectLink.missingReferences).toEqual(['predecessor_id → projects', 'successor_id → projects']);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Capacity Allocation Tests
+ *
+ * Tests for rebalancing auto-estimates across projects including:
+ * - Grouping per-project estimates into movable demand
+ * - Never exceeding a day's capacity
+ * - Deadline and priority ordering
+ * - Reporting where demand exceeds supply
+ *
+ * @see src/domain/rules/availability/CapacityAllocation.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { DayEstimate } from '@/shared/types/core';
+import {
+  allocateCapacity,
+  buildAllocationDemands,
+  type AllocationDemand
+} from '@/domain/rules/availability/CapacityAllocation';
+
+describe('CapacityAllocation', () => {
+  // Monday 5 – Friday 9 January 2026
+  const week = ['2026-01-05', '2026-01-06', '2026-01-07', '2026-01-08', '2026-01-09'];
+  const date = (key: string) => new Date(`${key}T00:00:00`);
+
+  const createDemand = (
+    projectId: string,
+    hoursPerDay: number,
+    dateKeys: string[],
+    priority = 0
+  ): AllocationDemand => ({
+    id: `${projectId}:project`,
+    projectId,
+    source: 'project-auto-estimate',
+    hours: hoursPerDay * dateKeys.length,
+    requestedByDate: new Map(dateKeys.map(key => [key, hoursPerDay])),
+    deadline: date(dateKeys[dateKeys.length - 1]),
+    priority
+  });
+
+  const capacity = (hours: number, dateKeys = week) => new Map(dateKeys.map(key => [key, hours]));
+
+  const hoursOn = (estimates: DayEstimate[], projectId: string, key: string) =>
+    estimates
+      .filter(estimate => estimate.projectId === projectId && estimate.date.getTime() === date(key).getTime())
+      .reduce((sum, estimate) => sum + estimate.hours, 0);
+
+  describe('buildAllocationDemands', () => {
+    it('should group estimates per phase and keep recurring phase days fixed', () => {
+      const estimates: DayEstimate[] = [
+        { date: date('2026-01-05'), projectId: 'p1', hours: 4, source: 'event', isWorkingDay: true },
+        { date: date('2026-01-06'), projectId: 'p1', hours: 2, source: 'milestone-allocation', milestoneId: 'ph1', isWorkingDay: true },
+        { date: date('2026-01-07'), projectId: 'p1', hours: 2, source: 'milestone-allocation', milestoneId: 'ph1', isWorkingDay: true },
+        { date: date('2026-01-08'), projectId: 'p1', hours: 1, source: 'milestone-allocation', milestoneId: 'weekly', isWorkingDay: true },
+        { date: date('2026-01-09'), projectId: 'p1', hours: 1, source: 'milestone-allocation', milestoneId: 'weekly', isWorkingDay: true },
+      ];
+
+      const demands = buildAllocationDemands('p1', estimates, 3, new Set(['weekly']));
+
+      expect(demands.map(demand => [demand.id, demand.hours])).toEqual([
+        ['p1:ph1', 4],
+        ['p1:weekly:2026-01-08', 1],
+        ['p1:weekly:2026-01-09', 1],
+      ]);
+      expect(demands[0]).toMatchObject({ phaseId: 'ph1', priority: 3, deadline: date('2026-01-07') });
+    });
+  });
+
+  describe('allocateCapacity', () => {
+    it('should never give a day more than its capacity', () => {
+      const demands = ['p1', 'p2', 'p3'].map(id => createDemand(id, 6, week));
+
+      const result = allocateCapacity(demands, capacity(8));
+
+      week.forEach(key => {
+        const total = ['p1', 'p2', 'p3'].reduce((sum, id) => sum + hoursOn(result.estimates, id, key), 0);
+        expect(total).toBeCloseTo(8);
+      });
+      expect(result.totalRequestedHours).toBeCloseTo(90);
+      expect(result.totalAllocatedHours).toBeCloseTo(40);
+      expect(result.overcommittedDates).toEqual(week);
+    });
+
+    it('should serve the earliest deadline first and report what does not fit', () => {
+      const urgent = createDemand('urgent', 6, week.slice(0, 2));
+      const later = createDemand('later', 4, week);
+
+      const result = allocateCapacity([later, urgent], capacity(8));
+
+      expect(hoursOn(result.estimates, 'urgent', '2026-01-05')).toBeCloseTo(6);
+      // 'later' keeps its 20h by moving into the free second half of the week
+      expect(hoursOn(result.estimates, 'later', '2026-01-05')).toBeCloseTo(2);
+      expect(hoursOn(result.estimates, 'later', '2026-01-09')).toBeCloseTo(16 / 3);
+      expect(result.shortfalls).toEqual([]);
+      expect(result.overcommittedDates).toEqual(['2026-01-05', '2026-01-06']);
+    });
+
+    it('should follow priority order when asked', () => {
+      const first = createDemand('first', 8, week.slice(0, 1), 0);
+      const second = createDemand('second', 8, week.slice(0, 1), 1);
+
+      const byPriority = allocateCapacity([second, first], capacity(8), 'priority');
+
+      expect(hoursOn(byPriority.estimates, 'first', '2026-01-05')).toBeCloseTo(8);
+      expect(byPriority.shortfalls).toMatchObject([
+        { projectId: 'second', requestedHours: 8, allocatedHours: 0, unallocatedHours: 8 },
+      ]);
+    });
+
+    it('should leave estimates unchanged when every day has room', () => {
+      const result = allocateCapacity([createDemand('p1', 3, week), createDemand('p2', 2, week)], capacity(8));
+
+      expect(hoursOn(result.estimates, 'p1', '2026-01-07')).toBeCloseTo(3);
+      expect(hoursOn(result.estimates, 'p2', '2026-01-07')).toBeCloseTo(2);
+      expect(result.overcommittedDates).toEqual([]);
+      expect(result.days[0]).toMatchObject({ capacityHours: 8, requestedHours: 5, allocatedHours: 5 });
+    });
+  });
+});
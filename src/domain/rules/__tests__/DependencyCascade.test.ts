@@ -0,0 +1,156 @@
+/**
+ * Dependency Cascade Tests
+ *
+ * Tests for project and phase dependencies including:
+ * - Earliest successor start for finish-to-start and start-to-start links with lag
+ * - Shifting dependents (and their dependents) when a predecessor slips
+ * - Phases of one project staying back to back while shifted
+ * - Cycle, duplicate and self-dependency validation
+ *
+ * @see src/domain/rules/dependencies/DependencyCascade.ts
+ * @see src/domain/rules/projects/ProjectValidation.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEarliestSuccessorStart,
+  planDependencyCascade,
+  type DependencyLink,
+  type DependencyScheduleItem
+} from '@/domain/rules/dependencies/DependencyCascade';
+import { ProjectRules, type DependencyCandidate } from '@/domain/rules/projects/ProjectValidation';
+import type { PhaseDTO } from '@/shared/types/core';
+
+describe('DependencyCascade', () => {
+  const day = (date: number, month = 2) => new Date(2026, month, date);
+  const link = (predecessorId: string, successorId: string, overrides: Partial<DependencyLink> = {}): DependencyLink => ({
+    predecessorId,
+    successorId,
+    type: 'finish-to-start',
+    lagDays: 0,
+    ...overrides
+  });
+
+  describe('calculateEarliestSuccessorStart', () => {
+    const predecessor = { startDate: day(2), endDate: day(10) };
+
+    it('should start after the predecessor ends for finish-to-start', () => {
+      expect(calculateEarliestSuccessorStart(link('a', 'b'), predecessor)).toEqual(day(11));
+      expect(calculateEarliestSuccessorStart(link('a', 'b', { lagDays: 3 }), predecessor)).toEqual(day(14));
+    });
+
+    it('should start with the predecessor for start-to-start', () => {
+      expect(calculateEarliestSuccessorStart(link('a', 'b', { type: 'start-to-start', lagDays: 2 }), predecessor)).toEqual(day(4));
+    });
+
+    it('should not constrain a finish-to-start successor of an open-ended predecessor', () => {
+      expect(calculateEarliestSuccessorStart(link('a', 'b'), { startDate: day(2) })).toBeNull();
+    });
+  });
+
+  describe('planDependencyCascade', () => {
+    const items: DependencyScheduleItem[] = [
+      { id: 'design', startDate: day(2), endDate: day(10) },
+      { id: 'build', startDate: day(11), endDate: day(20) },
+      { id: 'launch', startDate: day(23), endDate: day(25) },
+      { id: 'docs', startDate: day(5), endDate: day(12) }
+    ];
+
+    it('should shift a finish-to-start dependent and keep its length', () => {
+      const shifts = planDependencyCascade(items, [link('design', 'build')], 'design', { startDate: day(2), endDate: day(13) });
+
+      expect(shifts).toEqual([{ id: 'build', startDate: day(14), endDate: day(23), daysShifted: 3 }]);
+    });
+
+    it('should carry the shift on to dependents of dependents until there is slack', () => {
+      const dependencies = [link('design', 'build'), link('build', 'launch')];
+
+      const small = planDependencyCascade(items, dependencies, 'design', { startDate: day(2), endDate: day(12) });
+      expect(small.map(shift => shift.id)).toEqual(['build']);
+
+      const large = planDependencyCascade(items, dependencies, 'design', { startDate: day(2), endDate: day(16) });
+      expect(large).toEqual([
+        { id: 'build', startDate: day(17), endDate: day(26), daysShifted: 6 },
+        { id: 'launch', startDate: day(27), endDate: day(29), daysShifted: 4 }
+      ]);
+    });
+
+    it('should shift start-to-start dependents when the predecessor start moves', () => {
+      const shifts = planDependencyCascade(
+        items,
+        [link('design', 'docs', { type: 'start-to-start', lagDays: 3 })],
+        'design',
+        { startDate: day(6), endDate: day(10) }
+      );
+
+      expect(shifts).toEqual([{ id: 'docs', startDate: day(9), endDate: day(16), daysShifted: 4 }]);
+    });
+
+    it('should not pull dependents back when the predecessor moves earlier', () => {
+      expect(planDependencyCascade(items, [link('design', 'build')], 'design', { startDate: day(2), endDate: day(6) })).toEqual([]);
+    });
+
+    it('should keep phases of one project back to back', () => {
+      const phases: DependencyScheduleItem[] = [
+        { id: 'a-design', startDate: day(2), endDate: day(10) },
+        { id: 'b-build', startDate: day(11), endDate: day(15), sequenceId: 'b' },
+        { id: 'b-test', startDate: day(16), endDate: day(20), sequenceId: 'b' }
+      ];
+
+      const shifts = planDependencyCascade(phases, [link('a-design', 'b-build')], 'a-design', { startDate: day(2), endDate: day(12) });
+
+      expect(shifts).toEqual([
+        { id: 'b-build', startDate: day(13), endDate: day(17), daysShifted: 2 },
+        { id: 'b-test', startDate: day(18), endDate: day(22), daysShifted: 2 }
+      ]);
+    });
+
+    it('should stop on a cycle without moving the moved item', () => {
+      const shifts = planDependencyCascade(items, [link('design', 'build'), link('build', 'design')], 'design', { startDate: day(2), endDate: day(13) });
+
+      expect(shifts.map(shift => shift.id)).toEqual(['build']);
+    });
+  });
+
+  describe('ProjectRules dependency validation', () => {
+    const dependency = (predecessorId: string, successorId: string, overrides: Partial<DependencyCandidate> = {}): DependencyCandidate => ({
+      kind: 'project',
+      predecessorId,
+      successorId,
+      type: 'finish-to-start',
+      lagDays: 0,
+      ...overrides
+    });
+
+    it('should find a cycle and the items along it', () => {
+      const dependencies = [dependency('a', 'b'), dependency('b', 'c'), dependency('c', 'a')];
+
+      expect(ProjectRules.findDependencyCycle(dependencies, 'project')).toEqual(['a', 'b', 'c', 'a']);
+      expect(ProjectRules.findDependencyCycle(dependencies, 'phase')).toBeNull();
+      expect(ProjectRules.findDependencyCycle(dependencies.slice(0, 2), 'project')).toBeNull();
+    });
+
+    it('should reject a dependency that closes a cycle', () => {
+      const result = ProjectRules.validateDependency(dependency('c', 'a'), [dependency('a', 'b'), dependency('b', 'c')]);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(['This dependency would create a cycle between projects']);
+    });
+
+    it('should reject self-dependencies, duplicates and negative lag', () => {
+      expect(ProjectRules.validateDependency(dependency('a', 'a'), []).errors).toContain('A project cannot depend on itself');
+      expect(ProjectRules.validateDependency(dependency('a', 'b'), [dependency('a', 'b')]).errors).toContain('This dependency already exists');
+      expect(ProjectRules.validateDependency(dependency('a', 'b', { lagDays: -1 }), []).isValid).toBe(false);
+      expect(ProjectRules.validateDependency(dependency('a', 'b', { type: 'start-to-start', lagDays: 2 }), [dependency('b', 'c')]).isValid).toBe(true);
+    });
+
+    it('should reject a phase waiting on a later phase of its own project', () => {
+      const phase = (id: string, startDate: Date, endDate: Date) => ({ id, projectId: 'p1', startDate, endDate, dueDate: endDate } as PhaseDTO);
+      const phases = [phase('first', day(2), day(10)), phase('second', day(11), day(20))];
+
+      expect(ProjectRules.validateDependency(dependency('second', 'first', { kind: 'phase' }), [], phases).errors)
+        .toEqual(['A phase cannot depend on a later phase of the same project']);
+      expect(ProjectRules.validateDependency(dependency('first', 'second', { kind: 'phase' }), [], phases).isValid).toBe(true);
+    });
+  });
+});
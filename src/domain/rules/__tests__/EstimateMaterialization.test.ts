@@ -0,0 +1,168 @@
+/**
+ * Estimate Materialization Tests
+ *
+ * Tests for scheduling auto-estimates into planned events including:
+ * - Free gaps around events and habits
+ * - Blocks summing to the estimate
+ * - Capping at the day's net availability
+ * - Never placing blocks in the past
+ * - Planning several days without overlaps
+ *
+ * @see src/domain/rules/events/EstimateMaterialization.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, Project, WorkHour } from '@/shared/types/core';
+import {
+  findFreeGaps,
+  planEstimateMaterialization,
+  planMaterializations,
+  toPlannedEvents
+} from '@/domain/rules/events/EstimateMaterialization';
+
+describe('EstimateMaterialization', () => {
+  // Monday 5 January 2026
+  const day = new Date(2026, 0, 5);
+  const at = (hour: number, minute = 0, date = day) =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour, minute);
+
+  const workSlot = (startHour: number, endHour: number, date = day): WorkHour => ({
+    id: `wh-${startHour}`,
+    title: 'Work',
+    startTime: at(startHour, 0, date),
+    endTime: at(endHour, 0, date),
+    duration: endHour - startHour
+  });
+
+  const createEvent = (
+    id: string,
+    start: Date,
+    end: Date,
+    overrides: Partial<CalendarEvent> = {}
+  ): CalendarEvent => ({
+    id,
+    title: id,
+    startTime: start,
+    endTime: end,
+    color: '#000',
+    category: 'event',
+    type: 'planned',
+    ...overrides
+  });
+
+  const workDay = [workSlot(9, 12), workSlot(13, 17)];
+  const startOfDay = at(0);
+  const hoursOf = (blocks: { startTime: Date; endTime: Date }[]) =>
+    blocks.reduce((sum, b) => sum + (b.endTime.getTime() - b.startTime.getTime()) / 3600000, 0);
+
+  describe('findFreeGaps', () => {
+    it('should leave out time taken by events and habits', () => {
+      const events = [
+        createEvent('meeting', at(10), at(11)),
+        createEvent('walk', at(13), at(13, 30), { category: 'habit' }),
+      ];
+
+      const gaps = findFreeGaps(events, workDay);
+
+      expect(gaps.map(g => [g.startTime.getHours() * 60 + g.startTime.getMinutes(), g.endTime.getHours() * 60 + g.endTime.getMinutes()])).toEqual([
+        [9 * 60, 10 * 60],
+        [11 * 60, 12 * 60],
+        [13 * 60 + 30, 17 * 60],
+      ]);
+    });
+
+    it('should skip gaps shorter than the minimum block', () => {
+      const events = [createEvent('a', at(9), at(11, 50))];
+
+      const gaps = findFreeGaps(events, [workSlot(9, 12)]);
+
+      expect(gaps).toEqual([]);
+    });
+
+    it('should not return time before from', () => {
+      const gaps = findFreeGaps([], workDay, at(10, 30));
+
+      expect(gaps.map(g => [g.startTime.getHours() * 60 + g.startTime.getMinutes(), g.endTime.getHours()])).toEqual([
+        [10 * 60 + 30, 12],
+        [13 * 60, 17],
+      ]);
+    });
+  });
+
+  describe('planEstimateMaterialization', () => {
+    it('should fill the earliest gaps with blocks summing to the estimate', () => {
+      const events = [createEvent('meeting', at(10), at(11))];
+
+      const plan = planEstimateMaterialization({ date: day, projectId: 'p1', hours: 3 }, events, workDay, startOfDay);
+
+      expect(plan.blocks.map(b => [b.startTime.getHours(), b.endTime.getHours()])).toEqual([[9, 10], [11, 12], [13, 14]]);
+      expect(hoursOf(plan.blocks)).toBeCloseTo(3);
+      expect(plan.scheduledHours).toBeCloseTo(3);
+      expect(plan.unscheduledHours).toBe(0);
+    });
+
+    it('should not schedule more than the net availability', () => {
+      // Project work after hours still uses up the day's availability
+      const events = [createEvent('late', at(18), at(23), { projectId: 'p2' })];
+
+      const plan = planEstimateMaterialization({ date: day, projectId: 'p1', hours: 4 }, events, workDay, startOfDay);
+
+      expect(plan.scheduledHours).toBeCloseTo(2);
+      expect(plan.unscheduledHours).toBeCloseTo(2);
+    });
+
+    it('should place today\'s estimate from now on', () => {
+      const plan = planEstimateMaterialization({ date: day, projectId: 'p1', hours: 2 }, [], workDay, at(11, 30));
+
+      expect(plan.blocks.map(b => [b.startTime.getHours() * 60 + b.startTime.getMinutes(), b.endTime.getHours()])).toEqual([
+        [11 * 60 + 30, 12],
+        [13 * 60, 14],
+      ]);
+      expect(plan.blocks.every(b => b.startTime >= at(11, 30))).toBe(true);
+    });
+
+    it('should leave an estimate for a past day unscheduled', () => {
+      const plan = planEstimateMaterialization({ date: day, projectId: 'p1', hours: 2 }, [], workDay, at(9, 0, new Date(2026, 0, 6)));
+
+      expect(plan.blocks).toEqual([]);
+      expect(plan.unscheduledHours).toBe(2);
+    });
+  });
+
+  describe('planMaterializations', () => {
+    it('should not overlap blocks of earlier plans', () => {
+      const plans = planMaterializations(
+        [
+          { date: day, projectId: 'p1', hours: 2 },
+          { date: day, projectId: 'p2', hours: 2 },
+        ],
+        [],
+        () => workDay,
+        startOfDay
+      );
+
+      expect(plans[0].blocks.map(b => [b.startTime.getHours(), b.endTime.getHours()])).toEqual([[9, 11]]);
+      expect(plans[1].blocks.map(b => [b.startTime.getHours(), b.endTime.getHours()])).toEqual([[11, 12], [13, 14]]);
+    });
+  });
+
+  describe('toPlannedEvents', () => {
+    it('should create planned project events for each block', () => {
+      const project = { id: 'p1', name: 'Website', color: '#123456' } as Project;
+      const plan = planEstimateMaterialization({ date: day, projectId: 'p1', hours: 1.5 }, [], workDay, startOfDay);
+
+      const events = toPlannedEvents(plan, project);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        title: 'Website',
+        projectId: 'p1',
+        color: '#123456',
+        category: 'event',
+        type: 'planned',
+        completed: false,
+        duration: 1.5
+      });
+    });
+  });
+});
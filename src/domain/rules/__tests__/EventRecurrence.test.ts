@@ -0,0 +1,131 @@
+/**
+ * Event Recurrence Tests
+ *
+ * Tests for RRULE series expansion including:
+ * - Wall-clock stability across daylight-saving changes
+ * - EXDATE (deleted) and RECURRENCE-ID (modified) instances
+ * - UNTIL handling
+ * - Exception date keys
+ *
+ * @see src/domain/rules/events/EventRecurrence.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  expandRecurringEvent,
+  getOccurrenceDateKey,
+  hasOccurrenceInRange,
+  fromWallClock,
+  type RecurringEventSeries,
+} from '@/domain/rules/events/EventRecurrence';
+
+describe('EventRecurrence', () => {
+
+  // Weekly Monday 09:00 Berlin meeting, starting in winter time (UTC+1)
+  const weekly: RecurringEventSeries = {
+    startTime: new Date('2026-03-16T08:00:00.000Z'),
+    endTime: new Date('2026-03-16T09:00:00.000Z'),
+    rrule: 'FREQ=WEEKLY;BYDAY=MO',
+    timeZone: 'Europe/Berlin',
+  };
+
+  describe('expandRecurringEvent', () => {
+    it('should keep the local time across a DST change', () => {
+      const occurrences = expandRecurringEvent(
+        weekly,
+        new Date('2026-03-16T00:00:00.000Z'),
+        new Date('2026-04-06T00:00:00.000Z')
+      );
+
+      expect(occurrences.map(o => o.startTime.toISOString())).toEqual([
+        '2026-03-16T08:00:00.000Z',
+        '2026-03-23T08:00:00.000Z',
+        '2026-03-30T07:00:00.000Z', // Summer time (UTC+2) from 29 March
+      ]);
+    });
+
+    it('should remove deleted instances', () => {
+      const occurrences = expandRecurringEvent(
+        {
+          ...weekly,
+          exceptions: [{ originalStart: new Date('2026-03-23T08:00:00.000Z'), type: 'deleted' }],
+        },
+        new Date('2026-03-16T00:00:00.000Z'),
+        new Date('2026-03-29T00:00:00.000Z')
+      );
+
+      expect(occurrences).toHaveLength(1);
+    });
+
+    it('should replace modified instances, including ones moved into the range', () => {
+      const series: RecurringEventSeries = {
+        ...weekly,
+        exceptions: [{
+          originalStart: new Date('2026-03-23T08:00:00.000Z'),
+          type: 'modified',
+          modified: {
+            title: 'Moved sync',
+            startTime: new Date('2026-03-29T10:00:00.000Z'),
+            endTime: new Date('2026-03-29T11:00:00.000Z'),
+          },
+        }],
+      };
+
+      const occurrences = expandRecurringEvent(
+        series,
+        new Date('2026-03-29T00:00:00.000Z'),
+        new Date('2026-03-30T00:00:00.000Z')
+      );
+
+      expect(occurrences).toHaveLength(1);
+      expect(occurrences[0].title).toBe('Moved sync');
+      expect(occurrences[0].isModified).toBe(true);
+      expect(occurrences[0].originalStart.toISOString()).toBe('2026-03-23T08:00:00.000Z');
+    });
+
+    it('should stop at UNTIL', () => {
+      const occurrences = expandRecurringEvent(
+        { ...weekly, rrule: 'FREQ=WEEKLY;BYDAY=MO;UNTIL=20260323T080000Z' },
+        new Date('2026-03-01T00:00:00.000Z'),
+        new Date('2026-05-01T00:00:00.000Z')
+      );
+
+      expect(occurrences).toHaveLength(2);
+    });
+
+    it('should expand in UTC without a time zone', () => {
+      const occurrences = expandRecurringEvent(
+        { ...weekly, timeZone: undefined, rrule: 'FREQ=DAILY;COUNT=3' },
+        new Date('2026-03-01T00:00:00.000Z'),
+        new Date('2026-05-01T00:00:00.000Z')
+      );
+
+      expect(occurrences.map(o => o.startTime.getUTCHours())).toEqual([8, 8, 8]);
+    });
+  });
+
+  describe('hasOccurrenceInRange', () => {
+    it('should detect ranges without occurrences', () => {
+      const range = [new Date('2026-03-17T00:00:00.000Z'), new Date('2026-03-20T00:00:00.000Z')] as const;
+
+      expect(hasOccurrenceInRange(weekly, ...range)).toBe(false);
+      expect(hasOccurrenceInRange({ ...weekly, rrule: 'FREQ=DAILY' }, ...range)).toBe(true);
+    });
+  });
+
+  describe('getOccurrenceDateKey', () => {
+    it('should use the date in the series time zone', () => {
+      const lateEvening = new Date('2026-03-16T23:30:00.000Z');
+
+      expect(getOccurrenceDateKey(lateEvening, 'Europe/Berlin')).toBe('2026-03-17');
+      expect(getOccurrenceDateKey(lateEvening)).toBe('2026-03-16');
+    });
+  });
+
+  describe('fromWallClock', () => {
+    it('should convert a floating local time to the absolute instant', () => {
+      expect(fromWallClock(new Date('2026-07-01T09:00:00.000Z'), 'America/New_York').toISOString())
+        .toBe('2026-07-01T13:00:00.000Z');
+    });
+  });
+});
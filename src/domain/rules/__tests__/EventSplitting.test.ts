@@ -0,0 +1,46 @@
+/**
+ * Event Splitting Tests
+ *
+ * Tests for splitting events that cross midnight into per-day parts.
+ *
+ * @see src/domain/rules/events/EventSplitting.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { splitEventAtMidnight } from '@/domain/rules/events/EventSplitting';
+import type { CalendarEvent } from '@/shared/types/core';
+
+describe('EventSplitting', () => {
+  const createEvent = (start: Date, end: Date): CalendarEvent => ({
+    id: 'event-1',
+    title: 'Late shift',
+    startTime: start,
+    endTime: end,
+    projectId: 'project-1',
+    color: '#000000',
+    type: 'tracked',
+  });
+
+  describe('splitEventAtMidnight', () => {
+    it('should return single-day events unchanged', () => {
+      const event = createEvent(new Date(2026, 0, 12, 22), new Date(2026, 0, 13, 0, 0));
+
+      expect(splitEventAtMidnight(event)).toEqual([event]);
+    });
+
+    it('should split into one part per day', () => {
+      const event = createEvent(new Date(2026, 0, 12, 22), new Date(2026, 0, 14, 1, 30));
+
+      const parts = splitEventAtMidnight(event);
+
+      expect(parts.map(part => [part.startTime, part.endTime, part.duration])).toEqual([
+        [new Date(2026, 0, 12, 22), new Date(2026, 0, 13), 2],
+        [new Date(2026, 0, 13), new Date(2026, 0, 14), 24],
+        [new Date(2026, 0, 14), new Date(2026, 0, 14, 1, 30), 1.5],
+      ]);
+      expect(parts.map(part => part.id)).toEqual(['event-1-split-0', 'event-1-split-1', 'event-1-split-2']);
+      expect(parts.every(part => part.originalEventId === 'event-1' && part.isSplitEvent)).toBe(true);
+      expect(parts[1].projectId).toBe('project-1');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Event Subscription Sync Tests
+ *
+ * Tests for ICS subscription business logic including:
+ * - UID + LAST-MODIFIED diffing against the previous snapshot
+ * - Snapshot creation
+ * - Sync scheduling
+ * - Feed URL validation
+ *
+ * @see src/domain/rules/events/EventSubscriptionSync.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSubscriptionSnapshot,
+  diffSubscriptionEvents,
+  hasSubscriptionEventChanged,
+  isSubscriptionSyncDue,
+  getSubscriptionSyncInterval,
+  validateFeedUrl,
+  MIN_SUBSCRIPTION_SYNC_MINUTES,
+  type SubscriptionFeedEvent,
+} from '@/domain/rules/events/EventSubscriptionSync';
+
+describe('EventSubscriptionSync', () => {
+
+  // Test data factory
+  const createFeedEvent = (uid: string, lastModified?: string): SubscriptionFeedEvent => ({
+    externalId: uid,
+    externalLastModified: lastModified ? new Date(lastModified) : undefined,
+  });
+
+  describe('diffSubscriptionEvents', () => {
+    it('should create every event on first sync', () => {
+      const incoming = [createFeedEvent('a'), createFeedEvent('b')];
+
+      const diff = diffSubscriptionEvents(null, incoming);
+
+      expect(diff.toCreate.map(e => e.externalId)).toEqual(['a', 'b']);
+      expect(diff.toUpdate).toHaveLength(0);
+      expect(diff.toDelete).toHaveLength(0);
+    });
+
+    it('should update events with a newer LAST-MODIFIED', () => {
+      const previous = { a: '2026-01-10T10:00:00.000Z' };
+      const incoming = [createFeedEvent('a', '2026-01-11T10:00:00.000Z')];
+
+      const diff = diffSubscriptionEvents(previous, incoming);
+
+      expect(diff.toUpdate.map(e => e.externalId)).toEqual(['a']);
+      expect(diff.unchanged).toHaveLength(0);
+    });
+
+    it('should leave events with the same LAST-MODIFIED unchanged', () => {
+      const previous = { a: '2026-01-10T10:00:00.000Z' };
+      const incoming = [createFeedEvent('a', '2026-01-10T10:00:00.000Z')];
+
+      const diff = diffSubscriptionEvents(previous, incoming);
+
+      expect(diff.unchanged.map(e => e.externalId)).toEqual(['a']);
+      expect(diff.toUpdate).toHaveLength(0);
+    });
+
+    it('should delete UIDs that disappeared from the feed', () => {
+      const previous = { a: null, b: null };
+      const incoming = [createFeedEvent('a')];
+
+      const diff = diffSubscriptionEvents(previous, incoming);
+
+      expect(diff.toDelete).toEqual(['b']);
+    });
+
+    it('should collapse duplicate UIDs', () => {
+      const incoming = [createFeedEvent('a'), createFeedEvent('a')];
+
+      const diff = diffSubscriptionEvents({}, incoming);
+
+      expect(diff.toCreate).toHaveLength(1);
+    });
+  });
+
+  describe('hasSubscriptionEventChanged', () => {
+    it('should treat missing LAST-MODIFIED as changed', () => {
+      expect(hasSubscriptionEventChanged(null, new Date())).toBe(true);
+      expect(hasSubscriptionEventChanged('2026-01-10T10:00:00.000Z', undefined)).toBe(true);
+    });
+
+    it('should not treat an older LAST-MODIFIED as changed', () => {
+      expect(hasSubscriptionEventChanged(
+        '2026-01-10T10:00:00.000Z',
+        new Date('2026-01-09T10:00:00.000Z')
+      )).toBe(false);
+    });
+  });
+
+  describe('buildSubscriptionSnapshot', () => {
+    it('should map UIDs to ISO LAST-MODIFIED values', () => {
+      const snapshot = buildSubscriptionSnapshot([
+        createFeedEvent('a', '2026-01-10T10:00:00.000Z'),
+        createFeedEvent('b'),
+      ]);
+
+      expect(snapshot).toEqual({ a: '2026-01-10T10:00:00.000Z', b: null });
+    });
+  });
+
+  describe('isSubscriptionSyncDue', () => {
+    const now = new Date('2026-01-10T12:00:00.000Z');
+
+    it('should be due when never synced', () => {
+      expect(isSubscriptionSyncDue(null, 60, now)).toBe(true);
+    });
+
+    it('should be due once the interval has elapsed', () => {
+      expect(isSubscriptionSyncDue(new Date('2026-01-10T11:00:00.000Z'), 60, now)).toBe(true);
+      expect(isSubscriptionSyncDue(new Date('2026-01-10T11:30:00.000Z'), 60, now)).toBe(false);
+    });
+
+    it('should clamp very short intervals', () => {
+      expect(getSubscriptionSyncInterval(1)).toBe(MIN_SUBSCRIPTION_SYNC_MINUTES);
+      expect(getSubscriptionSyncInterval(null)).toBe(60);
+    });
+  });
+
+  describe('validateFeedUrl', () => {
+    it('should normalise webcal URLs to https', () => {
+      const result = validateFeedUrl('webcal://example.com/team.ics');
+
+      expect(result.isValid).toBe(true);
+      expect(result.normalizedUrl).toBe('https://example.com/team.ics');
+    });
+
+    it('should reject empty and non-http URLs', () => {
+      expect(validateFeedUrl('').isValid).toBe(false);
+      expect(validateFeedUrl('ftp://example.com/team.ics').isValid).toBe(false);
+      expect(validateFeedUrl('not a url').isValid).toBe(false);
+    });
+  });
+});
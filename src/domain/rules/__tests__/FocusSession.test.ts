@@ -0,0 +1,169 @@
+/**
+ * Focus Session Tests
+ *
+ * Tests for pomodoro-style focus sessions including:
+ * - Interval settings validation
+ * - Phase lengths and long breaks
+ * - Advancing phases on schedule
+ * - Which break time gets logged
+ * - Session counts per project
+ * - Round-trip through the synced state JSON
+ *
+ * @see src/domain/rules/time-tracking/FocusSession.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { FocusSessionState } from '@/shared/types/timeTracking';
+import {
+  FOCUS_SESSION_CONFIG,
+  completeFocusPhase,
+  countFocusSessionsByProject,
+  deserializeFocusSession,
+  getBreakToLog,
+  getFocusPhaseEnd,
+  getFocusRemainingSeconds,
+  isFocusPhaseComplete,
+  isLongBreak,
+  resumeFocusSession,
+  serializeFocusSession,
+  startFocusSession,
+  validateFocusSettings
+} from '@/domain/rules/time-tracking/FocusSession';
+
+describe('FocusSession', () => {
+  const settings = FOCUS_SESSION_CONFIG.DEFAULT_SETTINGS;
+  const project = { id: 'project-1', name: 'Website', color: '#f00' };
+  const nineAm = new Date(2026, 2, 2, 9);
+
+  const breakAt = (completedSessions: number, overrides: Partial<FocusSessionState> = {}): FocusSessionState => ({
+    settings,
+    phase: 'break',
+    phaseStartedAt: new Date(2026, 2, 2, 9, 25),
+    completedSessions,
+    project,
+    ...overrides
+  });
+
+  describe('validateFocusSettings', () => {
+    it('should accept the defaults', () => {
+      expect(validateFocusSettings(settings).isValid).toBe(true);
+    });
+
+    it('should reject intervals out of range or fractional', () => {
+      const result = validateFocusSettings({ ...settings, workMinutes: 0, breakMinutes: 2.5, sessionsBeforeLongBreak: 20 });
+
+      expect(result.errors).toEqual([
+        'Work interval must be between 1 and 180 minutes',
+        'Break must be between 1 and 60 minutes',
+        'Long break interval must be between 1 and 12 sessions'
+      ]);
+    });
+  });
+
+  describe('phases', () => {
+    it('should end a work interval after the work minutes', () => {
+      const session = startFocusSession(settings, project, nineAm);
+
+      expect(getFocusPhaseEnd(session)).toEqual(new Date(2026, 2, 2, 9, 25));
+      expect(getFocusRemainingSeconds(session, new Date(2026, 2, 2, 9, 20, 30))).toBe(270);
+      expect(isFocusPhaseComplete(session, new Date(2026, 2, 2, 9, 25))).toBe(true);
+    });
+
+    it('should use a long break after every Nth session', () => {
+      expect(isLongBreak(breakAt(3))).toBe(false);
+      expect(isLongBreak(breakAt(4))).toBe(true);
+      expect(getFocusPhaseEnd(breakAt(4))).toEqual(new Date(2026, 2, 2, 9, 40));
+    });
+
+    it('should have no end while waiting for the next work interval', () => {
+      const ready = breakAt(1, { phase: 'ready' });
+
+      expect(getFocusPhaseEnd(ready)).toBeNull();
+      expect(getFocusRemainingSeconds(ready)).toBe(0);
+      expect(isFocusPhaseComplete(ready)).toBe(false);
+    });
+  });
+
+  describe('completeFocusPhase', () => {
+    it('should move work → break → ready on the scheduled boundaries', () => {
+      const onBreak = completeFocusPhase(startFocusSession(settings, project, nineAm));
+
+      expect(onBreak.phase).toBe('break');
+      expect(onBreak.completedSessions).toBe(1);
+      expect(onBreak.phaseStartedAt).toEqual(new Date(2026, 2, 2, 9, 25));
+
+      const ready = completeFocusPhase(onBreak);
+
+      expect(ready.phase).toBe('ready');
+      expect(ready.phaseStartedAt).toEqual(new Date(2026, 2, 2, 9, 30));
+      expect(completeFocusPhase(ready)).toBe(ready);
+    });
+
+    it('should start the next work interval when resumed', () => {
+      const resumed = resumeFocusSession(breakAt(1), new Date(2026, 2, 2, 9, 27));
+
+      expect(resumed.phase).toBe('work');
+      expect(resumed.completedSessions).toBe(1);
+      expect(resumed.phaseStartedAt).toEqual(new Date(2026, 2, 2, 9, 27));
+    });
+  });
+
+  describe('getBreakToLog', () => {
+    const logged = { ...settings, autoLogBreaks: true };
+
+    it('should log the break up to its end or until it was cut short', () => {
+      expect(getBreakToLog(breakAt(1, { settings: logged }), new Date(2026, 2, 2, 10))).toEqual({
+        startTime: new Date(2026, 2, 2, 9, 25),
+        endTime: new Date(2026, 2, 2, 9, 30)
+      });
+      expect(getBreakToLog(breakAt(1, { settings: logged }), new Date(2026, 2, 2, 9, 28))?.endTime)
+        .toEqual(new Date(2026, 2, 2, 9, 28));
+    });
+
+    it('should not log when disabled, too short or not on a break', () => {
+      expect(getBreakToLog(breakAt(1), new Date(2026, 2, 2, 10))).toBeNull();
+      expect(getBreakToLog(breakAt(1, { settings: logged }), new Date(2026, 2, 2, 9, 25, 30))).toBeNull();
+      expect(getBreakToLog(breakAt(1, { settings: logged, phase: 'ready' }), new Date(2026, 2, 2, 10))).toBeNull();
+    });
+  });
+
+  describe('countFocusSessionsByProject', () => {
+    it('should count tracked focus intervals per project within the range', () => {
+      const event = (projectId: string | undefined, day: number, focusSession = true, type: 'tracked' | 'planned' = 'tracked') =>
+        ({ focusSession, projectId, startTime: new Date(2026, 2, day, 10), type });
+      const events = [
+        event('project-1', 2),
+        event('project-1', 2),
+        event('project-2', 2),
+        event('project-1', 1),
+        event('project-1', 2, false),
+        event('project-1', 2, true, 'planned'),
+        event(undefined, 2),
+      ];
+
+      const counts = countFocusSessionsByProject(events, new Date(2026, 2, 2), new Date(2026, 2, 3));
+
+      expect(Object.fromEntries(counts)).toEqual({ 'project-1': 2, 'project-2': 1 });
+    });
+
+    it('should go by the focus marker, not the title', () => {
+      const events = [
+        { title: 'Homepage copy', focusSession: true, projectId: 'project-1', startTime: nineAm, type: 'tracked' as const },
+        { title: FOCUS_SESSION_CONFIG.WORK_EVENT_TITLE, projectId: 'project-2', startTime: nineAm, type: 'tracked' as const },
+      ];
+
+      expect(Object.fromEntries(countFocusSessionsByProject(events))).toEqual({ 'project-1': 1 });
+    });
+  });
+
+  describe('serialization', () => {
+    it('should round-trip through the synced state JSON', () => {
+      const session = breakAt(2);
+      const serialized = JSON.parse(JSON.stringify(serializeFocusSession(session)));
+
+      expect(deserializeFocusSession(serialized)).toEqual(session);
+      expect(serializeFocusSession(null)).toBeNull();
+      expect(deserializeFocusSession(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Habit Adherence Tests
+ *
+ * Tests for habit streaks and adherence including:
+ * - Grouping habit events by title
+ * - Weekly session targets and daily minute targets
+ * - In-progress periods not breaking a streak
+ * - Habits without a target (every scheduled day)
+ * - Target validation
+ *
+ * @see src/domain/rules/habits/HabitAdherence.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, HabitTarget } from '@/shared/types/core';
+import {
+  calculateHabitDays,
+  calculateHabitPeriods,
+  calculateHabitStreak,
+  groupHabitEvents,
+  summarizeHabit,
+  summarizeHabits,
+  validateHabitGoal
+} from '@/domain/rules/habits/HabitAdherence';
+
+describe('HabitAdherence', () => {
+  // Monday 5 January 2026; the reference date is Wednesday 28 January
+  const rangeStart = new Date(2026, 0, 5);
+  const today = new Date(2026, 0, 28, 12);
+  const day = (date: number) => new Date(2026, 0, date);
+
+  const createHabit = (
+    date: number,
+    minutes = 30,
+    overrides: Partial<CalendarEvent> = {}
+  ): CalendarEvent => ({
+    id: `habit-${date}-${overrides.title ?? 'run'}`,
+    title: 'Run',
+    startTime: new Date(2026, 0, date, 7),
+    endTime: new Date(2026, 0, date, 7, minutes),
+    color: '#8B4513',
+    category: 'habit',
+    completed: true,
+    ...overrides
+  });
+
+  describe('groupHabitEvents', () => {
+    it('should group habits by title and ignore other events', () => {
+      const events = [
+        createHabit(5),
+        createHabit(6, 30, { title: ' run ' }),
+        createHabit(7, 30, { title: 'Read' }),
+        createHabit(8, 30, { category: 'event' }),
+      ];
+
+      const groups = groupHabitEvents(events);
+
+      expect(Array.from(groups.keys())).toEqual(['run', 'read']);
+      expect(groups.get('run')).toHaveLength(2);
+    });
+  });
+
+  describe('calculateHabitDays', () => {
+    it('should count done sessions and minutes but every scheduled session', () => {
+      const events = [createHabit(5, 45), createHabit(5, 20, { completed: false }), createHabit(6, 30, { type: 'tracked', completed: false })];
+
+      const days = calculateHabitDays(events, day(5), day(7));
+
+      expect(days.map(d => [d.dateKey, d.scheduledSessions, d.sessions, d.minutes])).toEqual([
+        ['2026-01-05', 2, 1, 45],
+        ['2026-01-06', 1, 1, 30],
+        ['2026-01-07', 0, 0, 0],
+      ]);
+    });
+  });
+
+  describe('weekly session target', () => {
+    const goal = { frequency: 'weekly', metric: 'sessions', target: 3 } as const;
+
+    it('should meet a week with enough sessions and keep the streak through the current week', () => {
+      const events = [
+        // Week of 5 Jan: 3 sessions (met)
+        createHabit(5), createHabit(7), createHabit(9),
+        // Week of 12 Jan: 1 session (missed)
+        createHabit(13),
+        // Weeks of 19 and 26 Jan: met, and 1 so far this week
+        createHabit(19), createHabit(20), createHabit(21), createHabit(26),
+      ];
+
+      const summary = summarizeHabit('Run', events, goal, rangeStart, today);
+
+      expect(summary.periods.map(p => [p.sessions, p.achieved, p.inProgress])).toEqual([
+        [3, true, false],
+        [1, false, false],
+        [3, true, false],
+        [1, false, true],
+      ]);
+      expect(summary.streak).toEqual({ current: 1, longest: 1, unit: 'week' });
+      // The unfinished current week is not counted against the habit
+      expect(summary.adherence).toBeCloseTo(2 / 3);
+    });
+  });
+
+  describe('daily minute target', () => {
+    it('should need the minutes on each day', () => {
+      const goal = { frequency: 'daily', metric: 'minutes', target: 30 } as const;
+      const events = [createHabit(24, 30), createHabit(25, 15), createHabit(26, 30), createHabit(27, 40)];
+
+      const days = calculateHabitDays(events, day(24), today);
+      const periods = calculateHabitPeriods(days, goal, today);
+
+      expect(periods.map(p => p.achieved)).toEqual([true, false, true, true, false]);
+      expect(periods[1].progress).toBeCloseTo(0.5);
+      expect(calculateHabitStreak(periods, 'day')).toEqual({ current: 2, longest: 2, unit: 'day' });
+    });
+  });
+
+  describe('without a target', () => {
+    it('should only count days the habit was scheduled', () => {
+      const events = [
+        createHabit(19), createHabit(21), createHabit(23, 30, { completed: false }), createHabit(26), createHabit(28, 30, { completed: false }),
+      ];
+
+      const summary = summarizeHabit('Run', events, undefined, day(19), today);
+
+      expect(summary.periods.map(p => p.achieved)).toEqual([true, true, false, true, false]);
+      expect(summary.streak.current).toBe(1);
+      expect(summary.streak.longest).toBe(2);
+      expect(summary.adherence).toBeCloseTo(3 / 4);
+    });
+  });
+
+  describe('summarizeHabits', () => {
+    it('should include habits that only have a target', () => {
+      const target: HabitTarget = {
+        id: 't1',
+        habitName: 'Meditate',
+        frequency: 'daily',
+        metric: 'sessions',
+        target: 1,
+        userId: 'u1',
+        createdAt: day(1),
+        updatedAt: day(1)
+      };
+
+      const summaries = summarizeHabits([createHabit(26)], [target], today);
+
+      expect(summaries.map(s => [s.habitName, s.goal?.target])).toEqual([['Meditate', 1], ['Run', undefined]]);
+      expect(summaries[0].adherence).toBe(0);
+      expect(summaries[1].days[summaries[1].days.length - 1].dateKey).toBe('2026-01-28');
+    });
+  });
+
+  describe('validateHabitGoal', () => {
+    it('should reject empty and impossible targets', () => {
+      expect(validateHabitGoal({ frequency: 'weekly', metric: 'sessions', target: 3 }).isValid).toBe(true);
+      expect(validateHabitGoal({ frequency: 'daily', metric: 'sessions', target: 0 }).isValid).toBe(false);
+      expect(validateHabitGoal({ frequency: 'daily', metric: 'minutes', target: 1500 }).errors).toEqual([
+        'Target cannot exceed 1440 minutes per day'
+      ]);
+    });
+  });
+});
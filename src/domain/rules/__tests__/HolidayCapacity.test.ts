@@ -0,0 +1,146 @@
+/**
+ * Holiday Capacity Tests
+ *
+ * Tests for partial-day holidays including:
+ * - Hours left on a date (fraction, explicit hours, full day off, overlaps)
+ * - Trimming a day's work slots to the hours left
+ * - Auto-estimate weighting of partial days
+ * - Validation and labels
+ *
+ * @see src/domain/rules/holidays/HolidayCapacity.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatHolidayCapacity,
+  getHolidayAvailableHours,
+  getHolidayCapacityFactor,
+  isFullHolidayDate,
+  limitWorkHoursToAvailable,
+  validateHolidayCapacity
+} from '@/domain/rules/holidays/HolidayCapacity';
+import { getWorkHoursForDay } from '@/domain/rules/availability/DailyMetrics';
+import { distributeHoursByDayWeight } from '@/domain/rules/projects/DayEstimate';
+import type { Holiday, Settings, WorkHour } from '@/shared/types/core';
+
+describe('HolidayCapacity', () => {
+  const monday = new Date(2026, 0, 5);
+  const tuesday = new Date(2026, 0, 6);
+
+  const holiday = (overrides: Partial<Holiday> = {}): Holiday => ({
+    id: 'h1',
+    title: 'School holidays',
+    startDate: monday,
+    endDate: monday,
+    ...overrides
+  });
+
+  const slot = (startHour: number, endHour: number): WorkHour => ({
+    id: `slot-${startHour}`,
+    title: 'Work',
+    startTime: new Date(2026, 0, 5, startHour),
+    endTime: new Date(2026, 0, 5, endHour),
+    duration: endHour - startHour,
+    type: 'work'
+  });
+
+  const workDay = [{ id: 's', startTime: '09:00', endTime: '17:00', duration: 8 }];
+  const settings = {
+    weeklyWorkHours: {
+      monday: workDay, tuesday: workDay, wednesday: workDay, thursday: workDay, friday: workDay,
+      saturday: [], sunday: []
+    }
+  } as unknown as Settings;
+
+  describe('getHolidayAvailableHours', () => {
+    it('should return null on a normal day', () => {
+      expect(getHolidayAvailableHours(tuesday, [holiday()], 8)).toBeNull();
+    });
+
+    it('should leave nothing on a full day off', () => {
+      expect(getHolidayAvailableHours(monday, [holiday()], 8)).toBe(0);
+    });
+
+    it('should scale normal hours by the capacity fraction', () => {
+      expect(getHolidayAvailableHours(monday, [holiday({ capacityFraction: 0.5 })], 8)).toBe(4);
+    });
+
+    it('should cap explicit hours at the normal hours', () => {
+      expect(getHolidayAvailableHours(monday, [holiday({ availableHours: 3 })], 8)).toBe(3);
+      expect(getHolidayAvailableHours(monday, [holiday({ availableHours: 10 })], 8)).toBe(8);
+    });
+
+    it('should take the holiday leaving the least time when they overlap', () => {
+      const holidays = [holiday({ capacityFraction: 0.5 }), holiday({ id: 'h2', availableHours: 2 })];
+      expect(getHolidayAvailableHours(monday, holidays, 8)).toBe(2);
+    });
+  });
+
+  describe('isFullHolidayDate / getHolidayCapacityFactor', () => {
+    it('should treat only days off as full holidays', () => {
+      expect(isFullHolidayDate(monday, [holiday()])).toBe(true);
+      expect(isFullHolidayDate(monday, [holiday({ capacityFraction: 0.5 })])).toBe(false);
+    });
+
+    it('should give the share of normal hours left', () => {
+      expect(getHolidayCapacityFactor(tuesday, [holiday()], 8)).toBe(1);
+      expect(getHolidayCapacityFactor(monday, [holiday({ availableHours: 2 })], 8)).toBe(0.25);
+      expect(getHolidayCapacityFactor(monday, [holiday()], 8)).toBe(0);
+    });
+  });
+
+  describe('limitWorkHoursToAvailable', () => {
+    it('should keep slots from the start of the day and trim the rest', () => {
+      const trimmed = limitWorkHoursToAvailable([slot(13, 17), slot(9, 12)], 4);
+
+      expect(trimmed.map(w => w.duration)).toEqual([3, 1]);
+      expect(trimmed[1].endTime).toEqual(new Date(2026, 0, 5, 14));
+    });
+
+    it('should drop every slot when nothing is available', () => {
+      expect(limitWorkHoursToAvailable([slot(9, 17)], 0)).toEqual([]);
+    });
+  });
+
+  describe('getWorkHoursForDay', () => {
+    it('should honour partial-day holidays', () => {
+      expect(getWorkHoursForDay(monday, [holiday({ capacityFraction: 0.5 })], settings)).toBe(4);
+      expect(getWorkHoursForDay(monday, [holiday()], settings)).toBe(0);
+      expect(getWorkHoursForDay(tuesday, [holiday()], settings)).toBe(8);
+    });
+  });
+
+  describe('distributeHoursByDayWeight', () => {
+    it('should give a half day half the share of a full day', () => {
+      const hours = distributeHoursByDayWeight(15, [monday, tuesday], settings, [holiday({ capacityFraction: 0.5 })]);
+      expect(hours).toEqual([5, 10]);
+    });
+
+    it('should split evenly without holidays', () => {
+      expect(distributeHoursByDayWeight(10, [monday, tuesday], settings, [])).toEqual([5, 5]);
+    });
+  });
+
+  describe('validateHolidayCapacity', () => {
+    it('should accept a day off or one partial value', () => {
+      expect(validateHolidayCapacity({})).toEqual([]);
+      expect(validateHolidayCapacity({ capacityFraction: 0.5 })).toEqual([]);
+      expect(validateHolidayCapacity({ availableHours: 4 })).toEqual([]);
+    });
+
+    it('should reject both values and out-of-range values', () => {
+      expect(validateHolidayCapacity({ capacityFraction: 0.5, availableHours: 4 })).toHaveLength(1);
+      expect(validateHolidayCapacity({ capacityFraction: 1 })).toHaveLength(1);
+      expect(validateHolidayCapacity({ availableHours: 25 })).toHaveLength(1);
+    });
+  });
+
+  describe('formatHolidayCapacity', () => {
+    it('should label partial days only', () => {
+      expect(formatHolidayCapacity({ capacityFraction: 0.5 })).toBe('½ day');
+      expect(formatHolidayCapacity({ capacityFraction: 0.25 })).toBe('25%');
+      expect(formatHolidayCapacity({ availableHours: 4 })).toBe('4h');
+      expect(formatHolidayCapacity({})).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Offline Outbox Tests
+ *
+ * Tests for changes queued without a connection including:
+ * - Folding a change into one already queued for the same row
+ * - Applying queued changes to cached rows
+ * - Last-write-wins resolution against the server row on replay
+ * - Holding changes the server rejected
+ *
+ * @see src/domain/rules/offline/OfflineOutbox.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyOutbox,
+  clearOutboxFailure,
+  getFailedOutbox,
+  isOutboxEntryHeld,
+  markOutboxEntryFailed,
+  queueOutboxEntry,
+  resolveOutboxConflict,
+  sortOutbox,
+  type OfflineRow,
+  type OutboxEntry
+} from '@/domain/rules/offline/OfflineOutbox';
+
+describe('OfflineOutbox', () => {
+  let sequence = 0;
+  const entry = (overrides: Partial<OutboxEntry>): OutboxEntry => ({
+    id: `entry-${++sequence}`,
+    sequence,
+    table: 'holidays',
+    operation: 'update',
+    rowId: 'h1',
+    payload: {},
+    changedAt: '2026-10-19T10:00:00.000Z',
+    ...overrides
+  });
+
+  describe('queueOutboxEntry', () => {
+    it('should fold updates into a queued insert', () => {
+      const insert = entry({ operation: 'insert', payload: { id: 'h1', title: 'Trip' } });
+      const queue = queueOutboxEntry([insert], entry({ payload: { title: 'Long trip' }, changedAt: '2026-10-19T11:00:00.000Z' }));
+
+      expect(queue).toHaveLength(1);
+      expect(queue[0]).toMatchObject({ operation: 'insert', sequence: insert.sequence, changedAt: '2026-10-19T11:00:00.000Z' });
+      expect(queue[0].payload).toEqual({ id: 'h1', title: 'Long trip' });
+    });
+
+    it('should merge updates to the same row', () => {
+      const queue = queueOutboxEntry([entry({ payload: { title: 'A' } })], entry({ payload: { notes: 'B' } }));
+      expect(queue).toHaveLength(1);
+      expect(queue[0].payload).toEqual({ title: 'A', notes: 'B' });
+    });
+
+    it('should drop a row inserted and deleted offline', () => {
+      const queue = queueOutboxEntry([entry({ operation: 'insert' })], entry({ operation: 'delete' }));
+      expect(queue).toEqual([]);
+    });
+
+    it('should replace an update with a delete queued last', () => {
+      const other = entry({ rowId: 'h2' });
+      const queue = queueOutboxEntry([entry({}), other], entry({ operation: 'delete' }));
+
+      expect(sortOutbox(queue).map(queued => [queued.rowId, queued.operation])).toEqual([['h2', 'update'], ['h1', 'delete']]);
+    });
+
+    it('should keep changes to other rows and tables apart', () => {
+      const queue = queueOutboxEntry([entry({})], entry({ table: 'phases' }));
+      expect(queue).toHaveLength(2);
+    });
+  });
+
+  describe('failed changes', () => {
+    it('should hold a rejected change and later changes to the same row', () => {
+      const failed = markOutboxEntryFailed(entry({ operation: 'delete' }), 'violates foreign key', '2026-10-19T12:00:00.000Z');
+      const later = entry({ operation: 'insert' });
+      const otherRow = entry({ rowId: 'h2' });
+      const queue = [failed, later, otherRow];
+
+      expect(getFailedOutbox(queue)).toEqual([failed]);
+      expect(isOutboxEntryHeld(queue, failed)).toBe(true);
+      expect(isOutboxEntryHeld(queue, later)).toBe(true);
+      expect(isOutboxEntryHeld(queue, otherRow)).toBe(false);
+    });
+
+    it('should release a change cleared for retry', () => {
+      const failed = markOutboxEntryFailed(entry({}), 'permission denied', '2026-10-19T12:00:00.000Z');
+      const retried = clearOutboxFailure(failed);
+
+      expect(retried).not.toHaveProperty('failedAt');
+      expect(retried).not.toHaveProperty('error');
+      expect(isOutboxEntryHeld([retried], retried)).toBe(false);
+    });
+  });
+
+  describe('applyOutbox', () => {
+    const rows: OfflineRow[] = [
+      { id: 'h1', title: 'Trip', updated_at: '2026-10-01T00:00:00.000Z' },
+      { id: 'h2', title: 'Dentist', updated_at: '2026-10-01T00:00:00.000Z' }
+    ];
+
+    it('should apply inserts, updates and deletes of the table in order', () => {
+      const queue = [
+        entry({ payload: { title: 'Long trip' } }),
+        entry({ operation: 'delete', rowId: 'h2' }),
+        entry({ operation: 'insert', rowId: 'h3', payload: { id: 'h3', title: 'Conference' } }),
+        entry({ table: 'phases', operation: 'delete', rowId: 'h1' })
+      ];
+
+      const applied = applyOutbox(rows, queue, 'holidays');
+
+      expect(applied.map(row => row.title)).toEqual(['Long trip', 'Conference']);
+      expect(applied[0].updated_at).toBe('2026-10-19T10:00:00.000Z');
+    });
+  });
+
+  describe('resolveOutboxConflict', () => {
+    const remote = (updatedAt: string) => ({ id: 'h1', updated_at: updatedAt });
+
+    it('should write a change made after the server row was last edited', () => {
+      expect(resolveOutboxConflict(entry({}), remote('2026-10-19T09:00:00.000Z'))).toEqual({ action: 'apply' });
+      expect(resolveOutboxConflict(entry({ operation: 'delete' }), remote('2026-10-19T09:00:00.000Z'))).toEqual({ action: 'apply' });
+    });
+
+    it('should keep a server row edited after the change', () => {
+      expect(resolveOutboxConflict(entry({}), remote('2026-10-19T12:00:00.000Z'))).toEqual({ action: 'discard', reason: 'remote-newer' });
+      expect(resolveOutboxConflict(entry({ operation: 'delete' }), remote('2026-10-19T12:00:00.000Z')))
+        .toEqual({ action: 'discard', reason: 'remote-newer' });
+    });
+
+    it('should insert new rows and skip rows deleted on the server', () => {
+      expect(resolveOutboxConflict(entry({ operation: 'insert' }), null)).toEqual({ action: 'apply' });
+      expect(resolveOutboxConflict(entry({}), null)).toEqual({ action: 'discard', reason: 'remote-deleted' });
+      expect(resolveOutboxConflict(entry({ operation: 'delete' }), null)).toEqual({ action: 'discard', reason: 'already-deleted' });
+    });
+  });
+});
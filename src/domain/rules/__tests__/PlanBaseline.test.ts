@@ -0,0 +1,212 @@
+/**
+ * Plan Baseline Tests
+ *
+ * Tests for named plan baselines including:
+ * - Freezing projects, phases and day estimates as date keys
+ * - Estimate windows for time-limited and continuous projects
+ * - Date and hour drift per project and phase
+ * - Added and removed projects
+ * - Baseline name validation
+ *
+ * @see src/domain/rules/baselines/PlanBaseline.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  comparePlanToBaseline,
+  createPlanBaselineSnapshot,
+  getBaselineEstimateWindow,
+  validatePlanBaselineName,
+  type BaselineProjectSource
+} from '@/domain/rules/baselines/PlanBaseline';
+import type { DayEstimate, PhaseDTO } from '@/shared/types/core';
+
+describe('PlanBaseline', () => {
+  const day = (date: number, month = 2) => new Date(2026, month, date);
+
+  const project = (overrides: Partial<BaselineProjectSource> = {}): BaselineProjectSource => ({
+    id: 'p1',
+    name: 'Website',
+    startDate: day(2),
+    endDate: day(13),
+    continuous: false,
+    estimatedHours: 40,
+    ...overrides
+  });
+
+  const phase = (overrides: Partial<PhaseDTO> = {}): PhaseDTO => ({
+    id: 'ph1',
+    name: 'Design',
+    projectId: 'p1',
+    startDate: day(2),
+    endDate: day(6),
+    dueDate: day(6),
+    timeAllocationHours: 20,
+    timeAllocation: 20,
+    userId: 'user-1',
+    createdAt: day(1),
+    updatedAt: day(1),
+    ...overrides
+  });
+
+  const estimates = (projectId: string, hours: number[], startDate = 2): DayEstimate[] =>
+    hours.map((h, index) => ({
+      date: day(startDate + index),
+      projectId,
+      hours: h,
+      source: 'milestone-allocation',
+      isWorkingDay: true
+    }));
+
+  describe('createPlanBaselineSnapshot', () => {
+    it('should freeze dates as keys and sum estimates per day', () => {
+      const snapshot = createPlanBaselineSnapshot({
+        projects: [project()],
+        phases: [phase()],
+        dayEstimates: [...estimates('p1', [4, 4]), ...estimates('p1', [2], 2)],
+        capturedAt: day(1)
+      });
+
+      expect(snapshot.projects).toEqual([{
+        id: 'p1', name: 'Website', startDate: '2026-03-02', endDate: '2026-03-13', continuous: false, estimatedHours: 40
+      }]);
+      expect(snapshot.phases[0]).toMatchObject({ startDate: '2026-03-02', endDate: '2026-03-06', timeAllocationHours: 20 });
+      expect(snapshot.dayEstimates).toEqual([
+        { projectId: 'p1', date: '2026-03-02', hours: 6, source: 'milestone-allocation' },
+        { projectId: 'p1', date: '2026-03-03', hours: 4, source: 'milestone-allocation' }
+      ]);
+    });
+
+    it('should leave out phases and estimates of other projects', () => {
+      const snapshot = createPlanBaselineSnapshot({
+        projects: [project()],
+        phases: [phase(), phase({ id: 'ph2', projectId: 'p2' })],
+        dayEstimates: [...estimates('p1', [4]), ...estimates('p2', [8])]
+      });
+
+      expect(snapshot.phases.map(p => p.id)).toEqual(['ph1']);
+      expect(snapshot.dayEstimates.map(e => e.projectId)).toEqual(['p1']);
+    });
+
+    it('should store no end date for continuous projects', () => {
+      const snapshot = createPlanBaselineSnapshot({
+        projects: [project({ continuous: true, endDate: day(13) })],
+        phases: [],
+        dayEstimates: []
+      });
+
+      expect(snapshot.projects[0].endDate).toBeNull();
+    });
+  });
+
+  describe('getBaselineEstimateWindow', () => {
+    it('should use the project dates for time-limited projects', () => {
+      expect(getBaselineEstimateWindow(project(), day(20))).toEqual({ start: day(2), end: day(13) });
+    });
+
+    it('should run a year from the capture date for continuous projects', () => {
+      const window = getBaselineEstimateWindow(project({ continuous: true, endDate: null }), day(10));
+      expect(window.start).toEqual(day(2));
+      expect(window.end).toEqual(new Date(2027, 2, 9));
+    });
+  });
+
+  describe('comparePlanToBaseline', () => {
+    const baseline = createPlanBaselineSnapshot({
+      projects: [project()],
+      phases: [phase()],
+      dayEstimates: estimates('p1', [4, 4, 4, 4, 4])
+    });
+
+    it('should report an untouched plan as unchanged', () => {
+      const comparison = comparePlanToBaseline(baseline, baseline);
+
+      expect(comparison.driftedProjectCount).toBe(0);
+      expect(comparison.projects[0]).toMatchObject({
+        status: 'unchanged',
+        startShiftDays: 0,
+        endShiftDays: 0,
+        estimatedHoursDelta: 0
+      });
+    });
+
+    it('should measure date slips and hour changes', () => {
+      const current = createPlanBaselineSnapshot({
+        projects: [project({ endDate: day(20), estimatedHours: 50 })],
+        phases: [phase({ endDate: day(9), dueDate: day(9) })],
+        dayEstimates: estimates('p1', [4, 4, 4, 4, 4, 5, 5])
+      });
+
+      const [variance] = comparePlanToBaseline(baseline, current).projects;
+
+      expect(variance).toMatchObject({
+        status: 'changed',
+        startShiftDays: 0,
+        endShiftDays: 7,
+        baselineBudgetHours: 40,
+        currentBudgetHours: 50,
+        baselineEstimatedHours: 20,
+        currentEstimatedHours: 30,
+        estimatedHoursDelta: 10
+      });
+      expect(variance.baselineEndDate).toEqual(day(13));
+      expect(variance.currentEndDate).toEqual(day(20));
+      expect(variance.phases).toEqual([expect.objectContaining({ status: 'changed', startShiftDays: 0, endShiftDays: 3 })]);
+    });
+
+    it('should count projects moved earlier as negative shifts', () => {
+      const current = createPlanBaselineSnapshot({
+        projects: [project({ startDate: day(1, 2), endDate: day(11) })],
+        phases: [phase()],
+        dayEstimates: estimates('p1', [4, 4, 4, 4, 4])
+      });
+
+      expect(comparePlanToBaseline(baseline, current).projects[0]).toMatchObject({ startShiftDays: -1, endShiftDays: -2 });
+    });
+
+    it('should list added and removed projects', () => {
+      const current = createPlanBaselineSnapshot({
+        projects: [project({ id: 'p2', name: 'App' })],
+        phases: [],
+        dayEstimates: estimates('p2', [8])
+      });
+
+      const comparison = comparePlanToBaseline(baseline, current);
+
+      expect(comparison.projects.map(p => [p.projectId, p.status])).toEqual([['p1', 'removed'], ['p2', 'added']]);
+      expect(comparison.projects[0]).toMatchObject({ currentStartDate: null, startShiftDays: null, currentEstimatedHours: 0 });
+      expect(comparison.driftedProjectCount).toBe(2);
+      expect(comparison.totalBaselineHours).toBe(20);
+      expect(comparison.totalCurrentHours).toBe(8);
+    });
+
+    it('should flag a project whose phase was added', () => {
+      const current = createPlanBaselineSnapshot({
+        projects: [project()],
+        phases: [phase(), phase({ id: 'ph2', name: 'Build', startDate: day(9), endDate: day(13), dueDate: day(13) })],
+        dayEstimates: estimates('p1', [4, 4, 4, 4, 4])
+      });
+
+      const [variance] = comparePlanToBaseline(baseline, current).projects;
+
+      expect(variance.status).toBe('changed');
+      expect(variance.phases.map(p => [p.phaseId, p.status])).toEqual([['ph1', 'unchanged'], ['ph2', 'added']]);
+    });
+  });
+
+  describe('validatePlanBaselineName', () => {
+    const existing = [{ id: 'b1', name: 'Client sign-off' }];
+
+    it('should require a name', () => {
+      expect(validatePlanBaselineName('  ', existing).isValid).toBe(false);
+    });
+
+    it('should reject duplicate names regardless of case', () => {
+      expect(validatePlanBaselineName('client SIGN-OFF', existing).errors).toEqual(['A baseline named "client SIGN-OFF" already exists']);
+    });
+
+    it('should allow a baseline to keep its own name', () => {
+      expect(validatePlanBaselineName('Client sign-off', existing, 'b1').isValid).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Project Filter Tests
+ *
+ * Tests for saved project filters and view grouping including:
+ * - Matching clients, labels and statuses (any within a field, all across fields)
+ * - Normalizing queries read from JSON
+ * - Grouping by group, client, label and status
+ * - Saved filter validation
+ *
+ * @see src/domain/rules/filters/ProjectFilters.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  EMPTY_PROJECT_FILTER,
+  filterProjects,
+  groupProjects,
+  normalizeProjectFilterQuery,
+  validateSavedFilter,
+  type ProjectClassificationSources
+} from '@/domain/rules/filters/ProjectFilters';
+import type { Project } from '@/shared/types/core';
+
+describe('ProjectFilters', () => {
+  const createProject = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    name: 'Website',
+    client: '',
+    clientId: 'acme',
+    groupId: 'work',
+    startDate: new Date(2026, 2, 2),
+    endDate: new Date(2026, 2, 27),
+    estimatedHours: 40,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides
+  });
+
+  const website = createProject();
+  const app = createProject({ id: 'p2', name: 'App', clientId: 'globex', startDate: new Date(2026, 3, 1), endDate: new Date(2026, 3, 30) });
+  const blog = createProject({ id: 'p3', name: 'Blog', clientId: 'acme', groupId: 'personal', startDate: new Date(2026, 0, 5), endDate: new Date(2026, 0, 30) });
+  const projects = [website, app, blog];
+
+  const sources: ProjectClassificationSources = {
+    groups: [{ id: 'work', name: 'Work' }, { id: 'personal', name: 'Personal' }, { id: 'empty', name: 'Empty' }],
+    clients: [{ id: 'globex', name: 'Globex' }, { id: 'acme', name: 'Acme' }],
+    labels: [{ id: 'urgent', name: 'Urgent', color: '#ff0000' }, { id: 'design', name: 'Design' }],
+    labelIdsByProject: new Map([['p1', ['urgent', 'design']], ['p2', ['urgent']]])
+  };
+
+  // Statuses are measured against today: Blog is past, Website active, App future
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 2, 10, 12));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('filterProjects', () => {
+    it('should return every project for an empty query', () => {
+      expect(filterProjects(projects, EMPTY_PROJECT_FILTER, sources.labelIdsByProject)).toEqual(projects);
+      expect(filterProjects(projects, null, sources.labelIdsByProject)).toEqual(projects);
+    });
+
+    it('should match any listed value within a field', () => {
+      const result = filterProjects(projects, { ...EMPTY_PROJECT_FILTER, statuses: ['current', 'future'] }, sources.labelIdsByProject);
+
+      expect(result.map(p => p.id)).toEqual(['p1', 'p2']);
+    });
+
+    it('should require every non-empty field to match', () => {
+      const result = filterProjects(
+        projects,
+        { clientIds: ['acme'], labelIds: ['urgent'], statuses: [] },
+        sources.labelIdsByProject
+      );
+
+      expect(result.map(p => p.id)).toEqual(['p1']);
+    });
+  });
+
+  describe('normalizeProjectFilterQuery', () => {
+    it('should drop unknown values and duplicates', () => {
+      expect(normalizeProjectFilterQuery({ clientIds: ['acme', 'acme', 3], statuses: ['future', 'deleted'] })).toEqual({
+        clientIds: ['acme'],
+        labelIds: [],
+        statuses: ['future']
+      });
+      expect(normalizeProjectFilterQuery(null)).toEqual(EMPTY_PROJECT_FILTER);
+    });
+  });
+
+  describe('groupProjects', () => {
+    it('should keep every group in order when grouping by group', () => {
+      const sections = groupProjects(projects, 'group', sources);
+
+      expect(sections.map(s => [s.id, s.projects.map(p => p.id)])).toEqual([
+        ['work', ['p1', 'p2']],
+        ['personal', ['p3']],
+        ['empty', []]
+      ]);
+    });
+
+    it('should sort clients by name and keep legacy client names', () => {
+      const legacy = createProject({ id: 'p4', clientId: '', client: 'Initech' });
+      const unassigned = createProject({ id: 'p5', clientId: '', client: '' });
+
+      const sections = groupProjects([...projects, legacy, unassigned], 'client', sources);
+
+      expect(sections.map(s => s.name)).toEqual(['Acme', 'Globex', 'Initech', 'No client']);
+      expect(sections[0]).toMatchObject({ id: 'client:acme', projects: [website, blog] });
+    });
+
+    it('should place a project under its first label only', () => {
+      const sections = groupProjects(projects, 'label', sources);
+
+      expect(sections.map(s => [s.name, s.projects.map(p => p.id)])).toEqual([
+        ['Design', ['p1']],
+        ['Urgent', ['p2']],
+        ['No label', ['p3']]
+      ]);
+    });
+
+    it('should order status sections active, future, past', () => {
+      const sections = groupProjects(projects, 'status', sources);
+
+      expect(sections.map(s => [s.name, s.projects.map(p => p.id)])).toEqual([
+        ['Active', ['p1']],
+        ['Future', ['p2']],
+        ['Past', ['p3']]
+      ]);
+    });
+  });
+
+  describe('validateSavedFilter', () => {
+    const query = { ...EMPTY_PROJECT_FILTER, clientIds: ['acme'] };
+
+    it('should accept a named, non-empty query', () => {
+      expect(validateSavedFilter('Acme work', query, []).isValid).toBe(true);
+    });
+
+    it('should reject duplicate names except its own', () => {
+      const existing = [{ id: 'f1', name: 'Acme work' }];
+
+      expect(validateSavedFilter('acme work ', query, existing).errors).toEqual(['A filter named "acme work" already exists']);
+      expect(validateSavedFilter('Acme work', query, existing, 'f1').isValid).toBe(true);
+    });
+
+    it('should reject an empty query', () => {
+      expect(validateSavedFilter('Everything', EMPTY_PROJECT_FILTER, []).errors).toEqual(['Pick at least one client, label or status']);
+    });
+  });
+});
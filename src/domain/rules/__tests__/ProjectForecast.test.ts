@@ -0,0 +1,131 @@
+/**
+ * Project Forecast Tests
+ *
+ * Tests for velocity-based finish date forecasting including:
+ * - Weekly velocity from completed and tracked work only
+ * - Projected finish date skipping non-working days and holidays
+ * - Confidence range from uneven weekly pace
+ * - Deadline risk classification
+ *
+ * @see src/domain/rules/projects/ProjectForecast.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, Holiday, Project, Settings } from '@/shared/types/core';
+import { calculateProjectVelocity, forecastProjectCompletion } from '@/domain/rules/projects/ProjectForecast';
+
+describe('ProjectForecast', () => {
+  // Sunday after four full weeks of work (project started Monday 5 January 2026)
+  const referenceDate = new Date(2026, 1, 1, 12);
+
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const settings: Settings = {
+    weeklyWorkHours: {
+      monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+    },
+  };
+
+  const createProject = (overrides: Partial<Project> = {}): Project => ({
+    id: 'p1',
+    name: 'Website',
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 2, 27),
+    estimatedHours: 100,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  // One tracked block on the Monday of each week starting 5 January
+  const createWeeklyWork = (hoursPerWeek: number[]): CalendarEvent[] =>
+    hoursPerWeek.map((hours, week) => ({
+      id: `event-${week}`,
+      title: 'Work',
+      startTime: new Date(2026, 0, 5 + week * 7, 9),
+      endTime: new Date(2026, 0, 5 + week * 7, 9 + hours),
+      projectId: 'p1',
+      color: '#000000',
+      type: 'tracked',
+    }));
+
+  const forecast = (project: Project, events: CalendarEvent[], holidays: Holiday[] = []) =>
+    forecastProjectCompletion({ project, events, settings, holidays, referenceDate });
+
+  describe('calculateProjectVelocity', () => {
+    it('should count completed work per week and ignore planned time', () => {
+      const events: CalendarEvent[] = [
+        ...createWeeklyWork([5, 15, 5, 15]),
+        {
+          id: 'planned', title: 'Plan', startTime: new Date(2026, 0, 28, 9), endTime: new Date(2026, 0, 28, 17),
+          projectId: 'p1', color: '#000000', type: 'planned',
+        },
+      ];
+
+      const velocity = calculateProjectVelocity(createProject(), events, referenceDate);
+
+      expect(velocity.weeklyHours).toEqual([5, 15, 5, 15]);
+      expect(velocity.averageWeeklyHours).toBe(10);
+      expect(velocity.standardDeviation).toBeCloseTo(5.77, 2);
+    });
+
+    it('should only include weeks since the project started', () => {
+      const velocity = calculateProjectVelocity(createProject({ startDate: new Date(2026, 0, 19) }), createWeeklyWork([0, 0, 8, 8]), referenceDate);
+
+      expect(velocity.weeklyHours).toEqual([8, 8]);
+    });
+
+    it('should average over the part of a week the project has run', () => {
+      // Wednesday 21 January: 17 days since the start, two full weeks and three days
+      const velocity = calculateProjectVelocity(createProject(), createWeeklyWork([10, 10, 10]), new Date(2026, 0, 21, 12));
+
+      expect(velocity.weeklyHours).toEqual([10, 10, 10]);
+      expect(velocity.averageWeeklyHours).toBeCloseTo(30 / (17 / 7), 5);
+    });
+  });
+
+  describe('forecastProjectCompletion', () => {
+    it('should project the finish date from a steady pace', () => {
+      // 60h remaining at 10h/week = 2h per working day = 30 working days from Monday 2 February
+      const result = forecast(createProject(), createWeeklyWork([10, 10, 10, 10]));
+
+      expect(result).toMatchObject({ risk: 'on-track', completedHours: 40, remainingHours: 60, passesDeadline: false });
+      expect(result.projectedFinish).toEqual(new Date(2026, 2, 13));
+      expect(result.latestFinish).toEqual(new Date(2026, 2, 13));
+    });
+
+    it('should push the finish date past holidays', () => {
+      const result = forecast(createProject(), createWeeklyWork([10, 10, 10, 10]), [
+        { id: 'h1', title: 'Ski trip', startDate: new Date(2026, 2, 9), endDate: new Date(2026, 2, 13) },
+      ]);
+
+      expect(result.projectedFinish).toEqual(new Date(2026, 2, 20));
+    });
+
+    it('should flag projects projected to pass the end date', () => {
+      const result = forecast(createProject({ endDate: new Date(2026, 2, 6) }), createWeeklyWork([10, 10, 10, 10]));
+
+      expect(result).toMatchObject({ risk: 'late', passesDeadline: true, daysLate: 7 });
+    });
+
+    it('should mark a project at risk when an uneven pace may miss the end date', () => {
+      const result = forecast(createProject(), createWeeklyWork([5, 15, 5, 15]));
+
+      expect(result.risk).toBe('at-risk');
+      expect(result.earliestFinish!.getTime()).toBeLessThan(result.projectedFinish!.getTime());
+      expect(result.latestFinish!.getTime()).toBeGreaterThan(new Date(2026, 2, 27).getTime());
+    });
+
+    it('should not forecast without enough history or remaining work', () => {
+      expect(forecastProjectCompletion({
+        project: createProject(), events: createWeeklyWork([10]), settings, holidays: [], referenceDate: new Date(2026, 0, 9),
+      }).risk).toBe('insufficient-data');
+      expect(forecast(createProject({ estimatedHours: 40 }), createWeeklyWork([10, 10, 10, 10])).risk).toBe('complete');
+      expect(forecast(createProject({ continuous: true }), createWeeklyWork([10, 10, 10, 10])).risk).toBe('no-deadline');
+    });
+  });
+});
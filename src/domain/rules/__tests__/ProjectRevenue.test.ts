@@ -0,0 +1,224 @@
+/**
+ * Project Revenue Tests
+ *
+ * Tests for billing rates and revenue including:
+ * - Rate validation and phase → project → client resolution
+ * - Earned-to-date and forecast revenue for hourly and fixed-fee work
+ * - Phase rate overrides and budget burn
+ * - Totals per currency
+ *
+ * @see src/domain/rules/projects/ProjectRevenue.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, Client, DayEstimate, PhaseDTO, Project } from '@/shared/types/core';
+import {
+  calculateProjectRevenue,
+  isValidCurrencyCode,
+  resolveBillingRate,
+  summarizeRevenueByCurrency,
+  validateBillingRate
+} from '@/domain/rules/projects/ProjectRevenue';
+
+describe('ProjectRevenue', () => {
+  const client: Client = {
+    id: 'client-1',
+    name: 'Acme',
+    status: 'active',
+    currency: 'EUR',
+    defaultRate: { type: 'hourly', amount: 100 },
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  };
+
+  const createProject = (overrides: Partial<Project> = {}): Project => ({
+    id: 'project-1',
+    name: 'Website',
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 1),
+    endDate: new Date(2026, 1, 28),
+    estimatedHours: 100,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  const createEvent = (
+    id: string,
+    start: Date,
+    hours: number,
+    overrides: Partial<CalendarEvent> = {}
+  ): CalendarEvent => ({
+    id,
+    title: `Event ${id}`,
+    startTime: start,
+    endTime: new Date(start.getTime() + hours * 60 * 60 * 1000),
+    projectId: 'project-1',
+    color: '#000000',
+    type: 'planned',
+    ...overrides,
+  });
+
+  const createEstimate = (date: Date, hours: number, source: DayEstimate['source'] = 'project-auto-estimate'): DayEstimate => ({
+    date,
+    projectId: 'project-1',
+    hours,
+    source,
+    isWorkingDay: true,
+  });
+
+  const referenceDate = new Date(2026, 1, 2);
+
+  // 15h done in January, 4h planned ahead, 20h auto-estimated ahead
+  const events: CalendarEvent[] = [
+    createEvent('done', new Date(2026, 0, 12, 9), 10, { type: 'completed', completed: true }),
+    createEvent('tracked', new Date(2026, 0, 13, 9), 5, { type: 'tracked' }),
+    createEvent('planned', new Date(2026, 1, 10, 9), 4),
+    createEvent('missed', new Date(2026, 0, 20, 9), 2),
+    createEvent('task', new Date(2026, 0, 14, 9), 1, { category: 'task', completed: true }),
+    createEvent('other', new Date(2026, 0, 14, 9), 3, { projectId: 'project-2', type: 'tracked' }),
+  ];
+  const estimates: DayEstimate[] = [
+    createEstimate(new Date(2026, 1, 3), 12),
+    createEstimate(new Date(2026, 1, 4), 8, 'milestone-allocation'),
+    createEstimate(new Date(2026, 0, 30), 6),
+    createEstimate(new Date(2026, 1, 10), 4, 'event'),
+  ];
+
+  const createPhase = (overrides: Partial<PhaseDTO> = {}): PhaseDTO => ({
+    id: 'phase-1',
+    name: 'Discovery',
+    projectId: 'project-1',
+    startDate: new Date(2026, 0, 1),
+    endDate: new Date(2026, 0, 31),
+    dueDate: new Date(2026, 0, 31),
+    timeAllocation: 20,
+    timeAllocationHours: 20,
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  describe('rates', () => {
+    it('should validate rates and currency codes', () => {
+      expect(validateBillingRate(undefined)).toEqual([]);
+      expect(validateBillingRate({ type: 'fixed', amount: 5000 })).toEqual([]);
+      expect(validateBillingRate({ type: 'hourly', amount: -1 })).toHaveLength(1);
+      expect(validateBillingRate({ type: 'hourly', amount: Number.NaN })).toHaveLength(1);
+      expect(validateBillingRate({ type: 'daily' as never, amount: 10 })).toHaveLength(1);
+      expect(isValidCurrencyCode('EUR')).toBe(true);
+      expect(isValidCurrencyCode('eur')).toBe(false);
+      expect(isValidCurrencyCode('EURO')).toBe(false);
+    });
+
+    it('should resolve phase, then project, then client rates', () => {
+      const phaseRate = { type: 'hourly' as const, amount: 150 };
+      const projectRate = { type: 'fixed' as const, amount: 8000 };
+
+      expect(resolveBillingRate(client, { billingRate: projectRate }, { billingRate: phaseRate }))
+        .toEqual({ ...phaseRate, source: 'phase' });
+      expect(resolveBillingRate(client, { billingRate: projectRate }, {}))
+        .toEqual({ ...projectRate, source: 'project' });
+      expect(resolveBillingRate(client, {}, {})).toEqual({ type: 'hourly', amount: 100, source: 'client' });
+      expect(resolveBillingRate(undefined, {}, {})).toBeUndefined();
+    });
+  });
+
+  describe('calculateProjectRevenue', () => {
+    it('should report earned and forecast revenue at the client hourly rate', () => {
+      const revenue = calculateProjectRevenue({ project: createProject(), client, events, estimates, referenceDate });
+
+      expect(revenue.currency).toBe('EUR');
+      expect(revenue.rate?.source).toBe('client');
+      expect(revenue.completedHours).toBe(15);
+      expect(revenue.forecastHours).toBe(15 + 4 + 12 + 8);
+      expect(revenue.earned).toBe(1500);
+      expect(revenue.forecast).toBe(3900);
+      expect(revenue.budget).toBe(10000);
+      expect(revenue.burnPercentage).toBe(15);
+      expect(revenue.effectiveHourlyRate).toBe(100);
+    });
+
+    it('should earn a fixed fee by percent complete', () => {
+      const revenue = calculateProjectRevenue({
+        project: createProject({ billingRate: { type: 'fixed', amount: 8000 } }),
+        client,
+        events,
+        estimates,
+        referenceDate,
+      });
+
+      expect(revenue.rate?.source).toBe('project');
+      expect(revenue.earned).toBe(1200);
+      expect(revenue.forecast).toBe(8000);
+      expect(revenue.budget).toBe(8000);
+      expect(revenue.effectiveHourlyRate).toBeCloseTo(8000 / 39);
+    });
+
+    it('should cap fixed-fee earnings and show the overrun as burn', () => {
+      const revenue = calculateProjectRevenue({
+        project: createProject({ estimatedHours: 10, billingRate: { type: 'fixed', amount: 1000 } }),
+        client,
+        events,
+        referenceDate,
+      });
+
+      expect(revenue.earned).toBe(1000);
+      expect(revenue.burned).toBe(1500);
+      expect(revenue.burnPercentage).toBe(150);
+    });
+
+    it('should bill time within a phase at the phase rate', () => {
+      const revenue = calculateProjectRevenue({
+        project: createProject(),
+        client,
+        phases: [createPhase({ billingRate: { type: 'hourly', amount: 150 } }), createPhase({ id: 'phase-2' })],
+        events,
+        estimates,
+        referenceDate,
+      });
+
+      expect(revenue.phases).toHaveLength(1);
+      expect(revenue.phases[0]).toMatchObject({ phaseId: 'phase-1', completedHours: 15, earned: 2250, budget: 3000 });
+      expect(revenue.earned).toBe(2250);
+      expect(revenue.forecast).toBe(2250 + 24 * 100);
+      expect(revenue.budget).toBe(3000 + 80 * 100);
+    });
+
+    it('should report no money for unbilled projects', () => {
+      const revenue = calculateProjectRevenue({ project: createProject(), events, referenceDate });
+
+      expect(revenue.rate).toBeUndefined();
+      expect(revenue.currency).toBe('USD');
+      expect(revenue.completedHours).toBe(15);
+      expect(revenue.earned).toBe(0);
+      expect(revenue.effectiveHourlyRate).toBeUndefined();
+    });
+  });
+
+  describe('summarizeRevenueByCurrency', () => {
+    it('should total billed projects per currency', () => {
+      const eur = calculateProjectRevenue({ project: createProject(), client, events, referenceDate });
+      const usd = calculateProjectRevenue({
+        project: createProject({ billingRate: { type: 'fixed', amount: 500 } }),
+        client: { ...client, currency: 'USD' },
+        events,
+        referenceDate,
+      });
+      const unbilled = calculateProjectRevenue({ project: createProject(), events, referenceDate });
+
+      const totals = summarizeRevenueByCurrency([usd, eur, eur, unbilled]);
+
+      expect(totals.map(total => [total.currency, total.projectCount, total.earned])).toEqual([
+        ['EUR', 2, 3000],
+        ['USD', 1, 75],
+      ]);
+    });
+  });
+});
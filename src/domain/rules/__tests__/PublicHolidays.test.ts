@@ -0,0 +1,118 @@
+/**
+ * Public Holiday Tests
+ *
+ * Tests for the bundled public holiday calendars including:
+ * - Easter and nth-weekday date calculations
+ * - Nationwide vs regional rules and first years
+ * - Weekend observance (substitute days, nearest weekday, Saturday before)
+ *
+ * @see src/domain/rules/holidays/PublicHolidays.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateEasterSunday,
+  generatePublicHolidays,
+  getNthWeekdayOfMonth,
+  getPublicHolidayCalendarLabel
+} from '@/domain/rules/holidays/PublicHolidays';
+
+describe('PublicHolidays', () => {
+  const find = (countryCode: string, regionCode: string | undefined, year: number, title: string) =>
+    generatePublicHolidays(countryCode, regionCode, year).find(h => h.title === title)?.date;
+
+  describe('calculateEasterSunday', () => {
+    it('should compute Gregorian Easter', () => {
+      expect(calculateEasterSunday(2000)).toEqual(new Date(2000, 3, 23));
+      expect(calculateEasterSunday(2024)).toEqual(new Date(2024, 2, 31));
+      expect(calculateEasterSunday(2025)).toEqual(new Date(2025, 3, 20));
+      expect(calculateEasterSunday(2026)).toEqual(new Date(2026, 3, 5));
+    });
+  });
+
+  describe('getNthWeekdayOfMonth', () => {
+    it('should find the nth and last weekday', () => {
+      expect(getNthWeekdayOfMonth(2026, 11, 4, 4)).toEqual(new Date(2026, 10, 26)); // Thanksgiving
+      expect(getNthWeekdayOfMonth(2026, 5, 1, -1)).toEqual(new Date(2026, 4, 25)); // Last Monday of May
+    });
+
+    it('should count from a given day', () => {
+      // Wednesday on or after 16 November
+      expect(getNthWeekdayOfMonth(2026, 11, 3, 1, 16)).toEqual(new Date(2026, 10, 18));
+      expect(getNthWeekdayOfMonth(2025, 11, 3, 1, 16)).toEqual(new Date(2025, 10, 19));
+    });
+  });
+
+  describe('generatePublicHolidays', () => {
+    it('should return holidays in date order', () => {
+      const holidays = generatePublicHolidays('DE', undefined, 2026);
+
+      expect(holidays.map(h => h.title)).toEqual([
+        "New Year's Day",
+        'Good Friday',
+        'Easter Monday',
+        'Labour Day',
+        'Ascension Day',
+        'Whit Monday',
+        'German Unity Day',
+        'Christmas Day',
+        'Second Day of Christmas',
+      ]);
+      expect(holidays[1].date).toEqual(new Date(2026, 3, 3));
+    });
+
+    it('should add regional holidays only for that region', () => {
+      expect(generatePublicHolidays('DE', 'BY', 2026)).toHaveLength(12);
+      expect(find('DE', 'BY', 2026, 'Corpus Christi')).toEqual(new Date(2026, 5, 4));
+      expect(find('DE', 'BE', 2026, 'Corpus Christi')).toBeUndefined();
+    });
+
+    it('should respect the first year of a holiday', () => {
+      expect(find('DE', 'HH', 2017, 'Reformation Day')).toBeUndefined();
+      expect(find('DE', 'HH', 2018, 'Reformation Day')).toEqual(new Date(2018, 9, 31));
+      expect(find('US', undefined, 2020, 'Juneteenth')).toBeUndefined();
+    });
+
+    it('should return nothing for an unknown country', () => {
+      expect(generatePublicHolidays('XX', undefined, 2026)).toEqual([]);
+    });
+  });
+
+  describe('weekend observance', () => {
+    it('should move US federal holidays to the nearest weekday', () => {
+      expect(find('US', undefined, 2026, 'Independence Day')).toEqual(new Date(2026, 6, 3));
+      expect(find('US', undefined, 2027, 'Independence Day')).toEqual(new Date(2027, 6, 5));
+    });
+
+    it('should give UK substitute days that skip other holidays', () => {
+      const christmas2021 = generatePublicHolidays('GB', 'ENG', 2021).slice(-2);
+      expect(christmas2021).toEqual([
+        { title: 'Christmas Day (substitute day)', date: new Date(2021, 11, 27) },
+        { title: 'Boxing Day (substitute day)', date: new Date(2021, 11, 28) },
+      ]);
+
+      // Boxing Day on Monday keeps its day; Christmas moves past it
+      expect(find('GB', 'ENG', 2022, 'Christmas Day (substitute day)')).toEqual(new Date(2022, 11, 27));
+      expect(find('GB', 'ENG', 2022, 'Boxing Day')).toEqual(new Date(2022, 11, 26));
+    });
+
+    it('should chain substitute days at the start of the Scottish year', () => {
+      expect(generatePublicHolidays('GB', 'SCT', 2022).slice(0, 2).map(h => h.date)).toEqual([
+        new Date(2022, 0, 3),
+        new Date(2022, 0, 4),
+      ]);
+    });
+
+    it('should move Dutch King\'s Day to Saturday when it falls on Sunday', () => {
+      expect(find('NL', undefined, 2025, "King's Day")).toEqual(new Date(2025, 3, 26));
+      expect(find('NL', undefined, 2026, "King's Day")).toEqual(new Date(2026, 3, 27));
+    });
+  });
+
+  describe('getPublicHolidayCalendarLabel', () => {
+    it('should name the country and region', () => {
+      expect(getPublicHolidayCalendarLabel('DE', 'BY')).toBe('Germany – Bavaria');
+      expect(getPublicHolidayCalendarLabel('NL')).toBe('Netherlands');
+    });
+  });
+});
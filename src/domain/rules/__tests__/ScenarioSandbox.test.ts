@@ -0,0 +1,162 @@
+/**
+ * Scenario Sandbox Tests
+ *
+ * Tests for what-if scenarios including:
+ * - Cloning reality without sharing state
+ * - Hypothetical project, phase, holiday and work hour changes
+ * - Diffing a scenario against reality
+ * - Conflicts with edits made to reality after the scenario started
+ *
+ * @see src/domain/rules/scenarios/ScenarioSandbox.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PhaseDTO, Project, Settings } from '@/shared/types/core';
+import {
+  addScenarioHoliday,
+  addScenarioProject,
+  createScenario,
+  diffScenario,
+  findScenarioConflicts,
+  removeScenarioProject,
+  updateScenarioPhase,
+  updateScenarioProject,
+  updateScenarioWorkHours,
+  type ScenarioSnapshot
+} from '@/domain/rules/scenarios/ScenarioSandbox';
+
+describe('ScenarioSandbox', () => {
+  const createProject = (id: string, overrides: Partial<Project> = {}): Project => ({
+    id,
+    name: `Project ${id}`,
+    client: '',
+    clientId: 'client-1',
+    groupId: 'group-1',
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 1, 27),
+    estimatedHours: 80,
+    color: '#000000',
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+    ...overrides,
+  });
+
+  const createPhase = (id: string, projectId: string): PhaseDTO => ({
+    id,
+    name: `Phase ${id}`,
+    projectId,
+    startDate: new Date(2026, 0, 5),
+    endDate: new Date(2026, 0, 30),
+    dueDate: new Date(2026, 0, 30),
+    timeAllocation: 40,
+    timeAllocationHours: 40,
+    userId: 'user-1',
+    createdAt: new Date(2026, 0, 1),
+    updatedAt: new Date(2026, 0, 1),
+  });
+
+  const slot = { id: 'slot-1', startTime: '09:00', endTime: '17:00', duration: 8 };
+  const weeklyWorkHours: Settings['weeklyWorkHours'] = {
+    monday: [slot], tuesday: [slot], wednesday: [slot], thursday: [slot], friday: [slot], saturday: [], sunday: [],
+  };
+
+  const createSnapshot = (): ScenarioSnapshot => ({
+    projects: [createProject('p1'), createProject('p2')],
+    phases: [createPhase('ph1', 'p1'), createPhase('ph2', 'p2')],
+    holidays: [{ id: 'h1', title: 'Conference', startDate: new Date(2026, 0, 19), endDate: new Date(2026, 0, 20) }],
+    weeklyWorkHours,
+  });
+
+  it('should clone reality without sharing state', () => {
+    const reality = createSnapshot();
+    const scenario = createScenario(reality, 'Take on Acme');
+
+    scenario.current.projects[0].name = 'Renamed';
+    scenario.current.weeklyWorkHours.monday.push(slot);
+
+    expect(reality.projects[0].name).toBe('Project p1');
+    expect(reality.weeklyWorkHours.monday).toHaveLength(1);
+    expect(scenario.baseline.projects[0].name).toBe('Project p1');
+    expect(scenario.baseline.projects[0].startDate).toBeInstanceOf(Date);
+    expect(diffScenario(createScenario(reality)).changeCount).toBe(0);
+  });
+
+  it('should report added, updated and removed entities', () => {
+    let scenario = createScenario(createSnapshot());
+    scenario = addScenarioProject(scenario, createProject('p3', { name: 'Acme rebrand' }));
+    scenario = updateScenarioProject(scenario, 'p1', { endDate: new Date(2026, 2, 13), updatedAt: new Date() });
+    scenario = removeScenarioProject(scenario, 'p2');
+    scenario = addScenarioHoliday(scenario, {
+      id: 'h2', title: 'Summer', startDate: new Date(2026, 6, 1), endDate: new Date(2026, 6, 14),
+    });
+
+    const diff = diffScenario(scenario);
+
+    expect(diff.projects.map(change => [change.type, change.id, change.fields])).toEqual([
+      ['updated', 'p1', ['endDate']],
+      ['added', 'p3', []],
+      ['removed', 'p2', []],
+    ]);
+    expect(diff.phases.map(change => [change.type, change.id])).toEqual([['removed', 'ph2']]);
+    expect(diff.holidays.map(change => [change.type, change.name])).toEqual([['added', 'Summer']]);
+    expect(diff.changeCount).toBe(5);
+    expect(scenario.baseline.projects).toHaveLength(2);
+  });
+
+  it('should keep phase deadline and allocation mirrors in sync', () => {
+    const scenario = updateScenarioPhase(createScenario(createSnapshot()), 'ph1', {
+      dueDate: new Date(2026, 1, 13),
+      timeAllocationHours: 60,
+    });
+    const phase = scenario.current.phases.find(p => p.id === 'ph1')!;
+
+    expect(phase.endDate).toEqual(new Date(2026, 1, 13));
+    expect(phase.dueDate).toEqual(new Date(2026, 1, 13));
+    expect(phase.timeAllocation).toBe(60);
+    expect(diffScenario(scenario).phases[0].fields).toEqual(['endDate', 'timeAllocationHours']);
+  });
+
+  it('should detect work hour changes', () => {
+    const scenario = updateScenarioWorkHours(createScenario(createSnapshot()), { ...weeklyWorkHours, friday: [] });
+
+    expect(diffScenario(scenario)).toMatchObject({ workHoursChanged: true, changeCount: 1 });
+  });
+
+  describe('findScenarioConflicts', () => {
+    it('should flag entities edited or deleted in reality since the scenario started', () => {
+      let scenario = createScenario(createSnapshot());
+      scenario = updateScenarioProject(scenario, 'p1', { estimatedHours: 120 });
+      scenario = updateScenarioProject(scenario, 'p2', { estimatedHours: 40 });
+      scenario = addScenarioProject(scenario, createProject('p3'));
+
+      const latest = createSnapshot();
+      latest.projects = [{ ...latest.projects[0], updatedAt: new Date(2026, 0, 2) }];
+
+      expect(findScenarioConflicts(scenario, latest)).toEqual([
+        'Project "Project p1" was edited after the scenario started',
+        'Project "Project p2" was deleted after the scenario started',
+      ]);
+    });
+
+    it('should flag work hour changes made before a schedule template changed', () => {
+      const scenario = updateScenarioWorkHours(createScenario(createSnapshot()), { ...weeklyWorkHours, friday: [] });
+      const latest = {
+        ...createSnapshot(),
+        workSchedules: [{ id: 'summer', name: 'Summer', weeks: [weeklyWorkHours], effectiveFrom: '2026-06-01' }],
+      };
+
+      expect(findScenarioConflicts(scenario, latest)).toEqual(['Work schedules were edited after the scenario started']);
+      expect(findScenarioConflicts(createScenario(createSnapshot()), latest)).toEqual([]);
+    });
+
+    it('should ignore edits to entities the scenario leaves alone', () => {
+      const scenario = updateScenarioProject(createScenario(createSnapshot()), 'p1', { estimatedHours: 120 });
+      const latest = createSnapshot();
+      latest.projects[1] = { ...latest.projects[1], updatedAt: new Date(2026, 0, 2) };
+      latest.holidays = [];
+
+      expect(findScenarioConflicts(scenario, latest)).toEqual([]);
+    });
+  });
+});
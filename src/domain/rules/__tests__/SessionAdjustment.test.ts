@@ -0,0 +1,143 @@
+/**
+ * Session Adjustment Tests
+ *
+ * Tests for correcting tracked time including:
+ * - Detecting idle spans within a session
+ * - Keeping, discarding or reassigning idle time
+ * - Splitting a session and validating segments
+ * - Turning segments into event changes
+ *
+ * @see src/domain/rules/time-tracking/SessionAdjustment.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent } from '@/shared/types/core';
+import {
+  detectIdleSpan,
+  mergeSegments,
+  planSessionAdjustment,
+  resolveIdleSegments,
+  splitSessionAt,
+  validateSessionSegments
+} from '@/domain/rules/time-tracking/SessionAdjustment';
+
+describe('SessionAdjustment', () => {
+  const at = (hour: number, minute = 0) => new Date(2026, 2, 2, hour, minute);
+  const session = { startTime: at(9), endTime: at(12), projectId: 'project-1' };
+
+  describe('detectIdleSpan', () => {
+    it('should report a gap at or over the threshold', () => {
+      expect(detectIdleSpan(at(10), at(10, 14))).toBeNull();
+      expect(detectIdleSpan(at(10), at(10, 40))).toEqual({ startTime: at(10), endTime: at(10, 40), minutes: 40 });
+    });
+
+    it('should not count time before tracking started', () => {
+      expect(detectIdleSpan(at(9), at(10, 5), at(10))).toBeNull();
+      expect(detectIdleSpan(at(9), at(10, 30), at(10))?.startTime).toEqual(at(10));
+    });
+  });
+
+  describe('resolveIdleSegments', () => {
+    const idle = { startTime: at(10), endTime: at(11) };
+
+    it('should keep the whole session', () => {
+      expect(resolveIdleSegments(session, idle, 'keep')).toEqual([
+        { startTime: at(9), endTime: at(12), projectId: 'project-1' }
+      ]);
+    });
+
+    it('should discard or reassign the idle span', () => {
+      expect(resolveIdleSegments(session, idle, 'discard').map(s => s.projectId)).toEqual(['project-1', null, 'project-1']);
+      expect(resolveIdleSegments(session, idle, 'reassign', 'project-2')).toEqual([
+        { startTime: at(9), endTime: at(10), projectId: 'project-1' },
+        { startTime: at(10), endTime: at(11), projectId: 'project-2' },
+        { startTime: at(11), endTime: at(12), projectId: 'project-1' }
+      ]);
+    });
+
+    it('should clip idle time to the session', () => {
+      const segments = resolveIdleSegments(session, { startTime: at(11), endTime: at(13) }, 'discard');
+
+      expect(segments).toEqual([
+        { startTime: at(9), endTime: at(11), projectId: 'project-1' },
+        { startTime: at(11), endTime: at(12), projectId: null }
+      ]);
+    });
+  });
+
+  describe('splitSessionAt', () => {
+    it('should cut at boundaries inside the session, in order', () => {
+      const segments = splitSessionAt(session, [at(11), at(8), at(10)]);
+
+      expect(segments.map(s => [s.startTime.getHours(), s.endTime.getHours()])).toEqual([[9, 10], [10, 11], [11, 12]]);
+    });
+  });
+
+  describe('validateSessionSegments', () => {
+    it('should require back-to-back segments covering the session', () => {
+      expect(validateSessionSegments(session, splitSessionAt(session, [at(10)])).isValid).toBe(true);
+
+      const gap = [
+        { startTime: at(9), endTime: at(10), projectId: 'project-1' },
+        { startTime: at(10, 30), endTime: at(11, 30), projectId: 'project-1' }
+      ];
+      expect(validateSessionSegments(session, gap).errors).toEqual([
+        'Segments must cover the whole session',
+        'Segments must follow each other without gaps or overlaps'
+      ]);
+    });
+
+    it('should reject segments shorter than a minute', () => {
+      const segments = [
+        { startTime: at(9), endTime: new Date(2026, 2, 2, 9, 0, 30), projectId: 'project-1' },
+        { startTime: new Date(2026, 2, 2, 9, 0, 30), endTime: at(12), projectId: 'project-1' }
+      ];
+
+      expect(validateSessionSegments(session, segments).errors).toEqual(['Each segment must be at least 1 minute long']);
+    });
+  });
+
+  describe('mergeSegments', () => {
+    it('should join neighbours of the same project', () => {
+      const merged = mergeSegments(splitSessionAt(session, [at(10), at(11)]));
+
+      expect(merged).toEqual([{ startTime: at(9), endTime: at(12), projectId: 'project-1' }]);
+    });
+  });
+
+  describe('planSessionAdjustment', () => {
+    const event: CalendarEvent = {
+      id: 'e1',
+      title: 'Tracked Time',
+      description: '🔴 Website',
+      startTime: at(9),
+      endTime: at(12),
+      projectId: 'project-1',
+      color: '#f00',
+      duration: 3,
+      completed: true,
+      type: 'completed'
+    };
+    const projects = [
+      { id: 'project-1', name: 'Website', color: '#f00' },
+      { id: 'project-2', name: 'Admin', color: '#00f' }
+    ];
+
+    it('should keep the first segment on the event and create the rest', () => {
+      const plan = planSessionAdjustment(event, resolveIdleSegments(session, { startTime: at(10), endTime: at(11) }, 'reassign', 'project-2'), projects);
+
+      expect(plan.deleteOriginal).toBe(false);
+      expect(plan.update).toEqual({ startTime: at(9), endTime: at(10), duration: 1 });
+      expect(plan.create.map(e => [e.projectId, e.color, e.description, e.startTime.getHours(), e.type])).toEqual([
+        ['project-2', '#00f', '🔴 Admin', 10, 'completed'],
+        ['project-1', '#f00', '🔴 Website', 11, 'completed']
+      ]);
+    });
+
+    it('should delete the event when everything is discarded', () => {
+      const plan = planSessionAdjustment(event, [{ startTime: at(9), endTime: at(12), projectId: null }], projects);
+
+      expect(plan).toEqual({ update: null, create: [], deleteOriginal: true });
+    });
+  });
+});
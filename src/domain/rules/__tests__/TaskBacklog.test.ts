@@ -0,0 +1,155 @@
+/**
+ * Task Backlog Tests
+ *
+ * Tests for the project task backlog including:
+ * - Task validation
+ * - Backlog membership (scheduled only while the planned event exists)
+ * - Unscheduled hours per project
+ * - Placement in free work slot time before the due date
+ * - Placing several tasks without overlap
+ *
+ * @see src/domain/rules/tasks/TaskBacklog.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, ProjectTask, WorkHour } from '@/shared/types/core';
+import {
+  calculateBacklogHours,
+  findTaskSlot,
+  getBacklogTasks,
+  isTaskOverdue,
+  planTaskPlacements,
+  validateTask
+} from '@/domain/rules/tasks/TaskBacklog';
+
+describe('TaskBacklog', () => {
+  // Monday 2 March 2026, 9:00
+  const monday = new Date(2026, 2, 2, 9);
+
+  const createTask = (overrides: Partial<ProjectTask> = {}): ProjectTask => ({
+    id: 'task-1',
+    projectId: 'project-1',
+    title: 'Write report',
+    estimatedHours: 2,
+    completed: false,
+    sortOrder: 0,
+    userId: 'u1',
+    createdAt: new Date(2026, 1, 1),
+    updatedAt: new Date(2026, 1, 1),
+    ...overrides
+  });
+
+  const createEvent = (id: string, day: number, startHour: number, endHour: number): CalendarEvent => ({
+    id,
+    title: 'Meeting',
+    startTime: new Date(2026, 2, day, startHour),
+    endTime: new Date(2026, 2, day, endHour),
+    color: '#000',
+    category: 'event',
+    type: 'planned'
+  });
+
+  // 9:00-13:00 work slot on weekdays
+  const getWorkHours = (date: Date): WorkHour[] => {
+    const weekday = date.getDay();
+    if (weekday === 0 || weekday === 6) return [];
+    const startTime = new Date(date);
+    startTime.setHours(9, 0, 0, 0);
+    const endTime = new Date(date);
+    endTime.setHours(13, 0, 0, 0);
+    return [{ id: `wh-${date.getDate()}`, title: 'Work', startTime, endTime, duration: 4, type: 'work' }];
+  };
+
+  describe('validateTask', () => {
+    it('should require a title and a positive estimate of at most a day', () => {
+      expect(validateTask({ title: 'Plan', estimatedHours: 1.5 }).isValid).toBe(true);
+      expect(validateTask({ title: '  ', estimatedHours: 0 }).errors).toEqual([
+        'Task title is required',
+        'Estimate must be greater than zero'
+      ]);
+      expect(validateTask({ title: 'Plan', estimatedHours: 30 }).errors).toEqual(['Estimate cannot exceed 24 hours']);
+    });
+  });
+
+  describe('getBacklogTasks', () => {
+    it('should return open tasks whose planned event does not exist, earliest due first', () => {
+      const tasks = [
+        createTask({ id: 'no-due' }),
+        createTask({ id: 'scheduled', scheduledEventId: 'e1' }),
+        createTask({ id: 'event-deleted', scheduledEventId: 'gone', dueDate: new Date(2026, 2, 6) }),
+        createTask({ id: 'done', completed: true }),
+        createTask({ id: 'due-soon', dueDate: new Date(2026, 2, 3) }),
+      ];
+
+      const backlog = getBacklogTasks(tasks, [{ id: 'e1' }]);
+
+      expect(backlog.map(task => task.id)).toEqual(['due-soon', 'event-deleted', 'no-due']);
+    });
+  });
+
+  describe('calculateBacklogHours', () => {
+    it('should sum unscheduled open estimates of one project', () => {
+      const tasks = [
+        createTask({ id: 'a', estimatedHours: 2 }),
+        createTask({ id: 'b', estimatedHours: 1.5 }),
+        createTask({ id: 'c', estimatedHours: 3, scheduledEventId: 'e1' }),
+        createTask({ id: 'd', estimatedHours: 4, projectId: 'project-2' }),
+      ];
+
+      expect(calculateBacklogHours(tasks, [{ id: 'e1' }], 'project-1')).toBe(3.5);
+    });
+  });
+
+  describe('isTaskOverdue', () => {
+    it('should be overdue from the day after the due date', () => {
+      const task = createTask({ dueDate: new Date(2026, 2, 2) });
+
+      expect(isTaskOverdue(task, new Date(2026, 2, 2, 18))).toBe(false);
+      expect(isTaskOverdue(task, new Date(2026, 2, 3))).toBe(true);
+      expect(isTaskOverdue({ ...task, completed: true }, new Date(2026, 2, 3))).toBe(false);
+    });
+  });
+
+  describe('findTaskSlot', () => {
+    it('should use the first free gap long enough for the estimate', () => {
+      const events = [createEvent('e1', 2, 10, 12)];
+
+      const block = findTaskSlot(createTask({ estimatedHours: 1.5 }), events, getWorkHours, monday);
+
+      // 9-10 is too short, 12-13 too; Tuesday 9:00 fits
+      expect(block?.startTime).toEqual(new Date(2026, 2, 3, 9));
+      expect(block?.endTime).toEqual(new Date(2026, 2, 3, 10, 30));
+    });
+
+    it('should not start before the reference time', () => {
+      const block = findTaskSlot(createTask({ estimatedHours: 1 }), [], getWorkHours, new Date(2026, 2, 2, 11, 30));
+
+      expect(block?.startTime).toEqual(new Date(2026, 2, 2, 11, 30));
+    });
+
+    it('should give up after the due date', () => {
+      const events = [createEvent('e1', 2, 9, 13), createEvent('e2', 3, 9, 12)];
+      const task = createTask({ estimatedHours: 2, dueDate: new Date(2026, 2, 3) });
+
+      expect(findTaskSlot(task, events, getWorkHours, monday)).toBeNull();
+    });
+  });
+
+  describe('planTaskPlacements', () => {
+    it('should place tasks by due date without overlapping each other', () => {
+      const tasks = [
+        createTask({ id: 'later', estimatedHours: 3 }),
+        createTask({ id: 'sooner', estimatedHours: 2, dueDate: new Date(2026, 2, 2) }),
+        createTask({ id: 'too-big', estimatedHours: 5, dueDate: new Date(2026, 2, 4) }),
+      ];
+
+      const placements = planTaskPlacements(tasks, [], getWorkHours, monday);
+
+      expect(placements.map(p => [p.taskId, p.block?.startTime.getDate(), p.block?.startTime.getHours()])).toEqual([
+        ['sooner', 2, 9],
+        ['too-big', undefined, undefined],
+        ['later', 3, 9],
+      ]);
+    });
+  });
+});
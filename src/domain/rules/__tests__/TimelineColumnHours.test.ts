@@ -0,0 +1,85 @@
+/**
+ * Timeline Column Hours Tests
+ *
+ * Tests for month and quarter column bars including:
+ * - Summing day estimates into the column containing each date
+ * - Splitting planned, completed and auto-estimated hours
+ * - Average hours per active day and the dominant allocation type
+ *
+ * @see src/domain/rules/timeline/TimelineColumnHours.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateDayEstimatesByColumn } from '@/domain/rules/timeline/TimelineColumnHours';
+import type { DayEstimate } from '@/shared/types/core';
+
+describe('TimelineColumnHours', () => {
+  const estimate = (date: Date, hours: number, overrides: Partial<DayEstimate> = {}): DayEstimate => ({
+    date,
+    projectId: 'p1',
+    hours,
+    source: 'project-auto-estimate',
+    isWorkingDay: true,
+    ...overrides
+  });
+
+  const months = [
+    { start: new Date(2026, 0, 1), end: new Date(2026, 0, 31) },
+    { start: new Date(2026, 1, 1), end: new Date(2026, 1, 28) },
+    { start: new Date(2026, 2, 1), end: new Date(2026, 2, 31) }
+  ];
+
+  describe('aggregateDayEstimatesByColumn', () => {
+    it('should sum estimates into the column containing their date', () => {
+      const columns = aggregateDayEstimatesByColumn([
+        estimate(new Date(2026, 0, 5), 4),
+        estimate(new Date(2026, 0, 31, 15), 2),
+        estimate(new Date(2026, 1, 1), 3)
+      ], months);
+
+      expect(columns.map(column => column.totalHours)).toEqual([6, 3, 0]);
+      expect(columns[0]).toMatchObject({ activeDays: 2, averageDailyHours: 3, allocationType: 'auto-estimate' });
+      expect(columns[2]).toMatchObject({ activeDays: 0, averageDailyHours: 0, allocationType: 'none' });
+    });
+
+    it('should split planned, completed and estimated hours', () => {
+      const [column] = aggregateDayEstimatesByColumn([
+        estimate(new Date(2026, 0, 5), 2),
+        estimate(new Date(2026, 0, 6), 3, { source: 'event', isPlannedEvent: true }),
+        estimate(new Date(2026, 0, 7), 1, { source: 'event', isCompletedEvent: true }),
+        estimate(new Date(2026, 0, 8), 1, { source: 'event', isPlannedEvent: true, isCompletedEvent: true })
+      ], months);
+
+      expect(column).toMatchObject({ plannedHours: 4, completedHours: 1, estimatedHours: 2, totalHours: 7 });
+      expect(column.allocationType).toBe('planned');
+    });
+
+    it('should count a day once for the average when it has several estimates', () => {
+      const [column] = aggregateDayEstimatesByColumn([
+        estimate(new Date(2026, 0, 5), 2),
+        estimate(new Date(2026, 0, 5), 4, { source: 'event', isCompletedEvent: true })
+      ], months);
+
+      expect(column).toMatchObject({ activeDays: 1, averageDailyHours: 6 });
+    });
+
+    it('should prefer completed time when hours tie', () => {
+      const [column] = aggregateDayEstimatesByColumn([
+        estimate(new Date(2026, 0, 5), 2, { source: 'event', isPlannedEvent: true }),
+        estimate(new Date(2026, 0, 6), 2, { source: 'event', isCompletedEvent: true })
+      ], months);
+
+      expect(column.allocationType).toBe('completed');
+    });
+
+    it('should ignore estimates outside every column and empty hours', () => {
+      const columns = aggregateDayEstimatesByColumn([
+        estimate(new Date(2025, 11, 31), 8),
+        estimate(new Date(2026, 3, 1), 8),
+        estimate(new Date(2026, 0, 5), 0)
+      ], months);
+
+      expect(columns.every(column => column.totalHours === 0 && column.activeDays === 0)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Timesheet Tests
+ *
+ * Tests for the weekly hour matrix including:
+ * - Which events count as logged time
+ * - Building rows, day totals and the week total
+ * - Comparing day totals with work hours
+ * - Planning cell edits (shrink, remove, extend, add, unplaced time)
+ *
+ * @see src/domain/rules/events/Timesheet.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { CalendarEvent, Project, WorkHour } from '@/shared/types/core';
+import {
+  buildTimesheetGrid,
+  getTimesheetDayStatus,
+  isLoggedTime,
+  planTimesheetCellChange,
+  toTimesheetEvents,
+  validateTimesheetHours
+} from '@/domain/rules/events/Timesheet';
+
+describe('Timesheet', () => {
+  // Monday 2 March 2026
+  const monday = new Date(2026, 2, 2);
+  const at = (day: number, hour: number, minute = 0) => new Date(2026, 2, day, hour, minute);
+
+  const createEvent = (id: string, start: Date, end: Date, overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id,
+    title: 'Work',
+    startTime: start,
+    endTime: end,
+    projectId: 'project-1',
+    color: '#000',
+    completed: true,
+    category: 'event',
+    type: 'completed',
+    ...overrides
+  });
+
+  // 9:00-17:00 work slot
+  const workHours = (day: number): WorkHour[] => [
+    { id: `wh-${day}`, title: 'Work', startTime: at(day, 9), endTime: at(day, 17), duration: 8, type: 'work' }
+  ];
+
+  describe('isLoggedTime', () => {
+    it('should count completed events but not running sessions, plans or habits', () => {
+      expect(isLoggedTime(createEvent('a', at(2, 9), at(2, 10)))).toBe(true);
+      expect(isLoggedTime(createEvent('b', at(2, 9), at(2, 10), { type: 'tracked' }))).toBe(false);
+      expect(isLoggedTime(createEvent('c', at(2, 9), at(2, 10), { type: 'planned', completed: false }))).toBe(false);
+      expect(isLoggedTime(createEvent('d', at(2, 9), at(2, 10), { category: 'habit' }))).toBe(false);
+    });
+  });
+
+  describe('buildTimesheetGrid', () => {
+    it('should sum logged hours per project and day', () => {
+      const events = [
+        createEvent('a', at(2, 9), at(2, 11)),
+        createEvent('b', at(2, 13), at(2, 14, 30)),
+        createEvent('c', at(4, 9), at(4, 10), { projectId: 'project-2' }),
+        createEvent('d', at(4, 10), at(4, 11), { projectId: undefined }),
+        createEvent('e', at(9, 9), at(9, 10)), // Next week
+      ];
+
+      const timesheet = buildTimesheetGrid(events, monday, ['project-3']);
+
+      expect(timesheet.days).toHaveLength(7);
+      expect(timesheet.rows.map(row => [row.projectId, row.hours, row.total])).toEqual([
+        ['project-3', [0, 0, 0, 0, 0, 0, 0], 0],
+        ['project-1', [3.5, 0, 0, 0, 0, 0, 0], 3.5],
+        ['project-2', [0, 0, 1, 0, 0, 0, 0], 1],
+      ]);
+      expect(timesheet.dayTotals).toEqual([3.5, 0, 2, 0, 0, 0, 0]);
+      expect(timesheet.total).toBe(5.5);
+    });
+  });
+
+  describe('getTimesheetDayStatus', () => {
+    it('should compare logged hours with work hours', () => {
+      expect(getTimesheetDayStatus(7.5, 8)).toBe('under');
+      expect(getTimesheetDayStatus(8, 8)).toBe('full');
+      expect(getTimesheetDayStatus(8.25, 8)).toBe('over');
+    });
+  });
+
+  describe('validateTimesheetHours', () => {
+    it('should accept zero up to a full day', () => {
+      expect(validateTimesheetHours(0)).toBeNull();
+      expect(validateTimesheetHours(-1)).toBe('Hours must be zero or more');
+      expect(validateTimesheetHours(25)).toBe('Hours cannot exceed 24');
+    });
+  });
+
+  describe('planTimesheetCellChange', () => {
+    const change = (hours: number) => ({ date: monday, projectId: 'project-1', hours });
+
+    it('should remove and shrink the latest entries first', () => {
+      const events = [
+        createEvent('early', at(2, 9), at(2, 11)),
+        createEvent('late', at(2, 14), at(2, 15)),
+      ];
+
+      const plan = planTimesheetCellChange(change(1.5), events, workHours(2));
+
+      expect(plan.remove).toEqual(['late']);
+      expect(plan.resize).toEqual([{ id: 'early', startTime: at(2, 9), endTime: at(2, 10, 30), duration: 1.5 }]);
+      expect(plan.add).toEqual([]);
+    });
+
+    it('should remove everything when set to zero', () => {
+      const events = [createEvent('a', at(2, 9), at(2, 11)), createEvent('b', at(2, 14), at(2, 15))];
+
+      expect(planTimesheetCellChange(change(0), events, workHours(2)).remove).toEqual(['b', 'a']);
+    });
+
+    it('should extend an entry followed by free time', () => {
+      const events = [
+        createEvent('a', at(2, 9), at(2, 10)),
+        createEvent('meeting', at(2, 11), at(2, 12), { projectId: undefined, type: 'planned', completed: false }),
+      ];
+
+      const plan = planTimesheetCellChange(change(3), events, workHours(2));
+
+      expect(plan.resize).toEqual([{ id: 'a', startTime: at(2, 9), endTime: at(2, 11), duration: 2 }]);
+      expect(plan.add).toEqual([{ startTime: at(2, 12), endTime: at(2, 13) }]);
+      expect(plan.unplacedHours).toBe(0);
+    });
+
+    it('should report time that does not fit in the work slots', () => {
+      const plan = planTimesheetCellChange(change(10), [], workHours(2));
+
+      expect(plan.add).toEqual([{ startTime: at(2, 9), endTime: at(2, 17) }]);
+      expect(plan.unplacedHours).toBe(2);
+    });
+  });
+
+  describe('toTimesheetEvents', () => {
+    it('should create completed project events', () => {
+      const project = { id: 'project-1', name: 'Website', color: '#f00' } as Project;
+
+      expect(toTimesheetEvents([{ startTime: at(2, 9), endTime: at(2, 10, 30) }], project)).toEqual([{
+        title: 'Website',
+        startTime: at(2, 9),
+        endTime: at(2, 10, 30),
+        duration: 1.5,
+        projectId: 'project-1',
+        color: '#f00',
+        completed: true,
+        category: 'event',
+        type: 'completed'
+      }]);
+    });
+  });
+});
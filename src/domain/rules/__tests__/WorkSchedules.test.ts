@@ -0,0 +1,158 @@
+/**
+ * Work Schedule Tests
+ *
+ * Tests for schedule templates and per-date resolution including:
+ * - Effective date ranges and precedence between templates
+ * - n-week rotations counted from the rotation start
+ * - Day slots and generated work hours following the resolved template
+ * - Edits landing in the resolved template week
+ * - Template validation
+ *
+ * @see src/domain/rules/work-slots/WorkSchedules.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EMPTY_WEEKLY_WORK_HOURS,
+  getActiveWorkSchedule,
+  getNextWorkScheduleChange,
+  getRotationWeekIndex,
+  replaceWorkWeekOn,
+  resolveWorkWeek,
+  validateWorkScheduleTemplate
+} from '@/domain/rules/work-slots/WorkSchedules';
+import { calculateTotalDayWorkHours, generateWorkHoursFromSettings } from '@/domain/rules/availability/WorkHourGeneration';
+import type { Settings, WorkScheduleTemplate, WorkSlot } from '@/shared/types/core';
+
+describe('WorkSchedules', () => {
+  const slot = (id: string, startTime: string, endTime: string, duration: number): WorkSlot => ({ id, startTime, endTime, duration });
+
+  const week = (mondaySlots: WorkSlot[]): Settings['weeklyWorkHours'] => ({ ...EMPTY_WEEKLY_WORK_HOURS, monday: mondaySlots });
+
+  const defaultWeek = week([slot('d1', '09:00', '17:00', 8)]);
+  const weekA = week([slot('a1', '09:00', '13:00', 4)]);
+  const weekB = week([]);
+
+  // A/B rotation starting Monday 5 January 2026
+  const alternating: WorkScheduleTemplate = {
+    id: 'ab',
+    name: 'Alternating weeks',
+    weeks: [weekA, weekB],
+    effectiveFrom: '2026-01-05'
+  };
+
+  const summer: WorkScheduleTemplate = {
+    id: 'summer',
+    name: 'Summer hours',
+    weeks: [week([slot('s1', '08:00', '14:00', 6)])],
+    effectiveFrom: '2026-07-01',
+    effectiveTo: '2026-08-31'
+  };
+
+  const settings: Settings = { weeklyWorkHours: defaultWeek, workSchedules: [alternating, summer] };
+
+  describe('getActiveWorkSchedule', () => {
+    it('should fall back to no template outside every range', () => {
+      expect(getActiveWorkSchedule(new Date(2025, 11, 29), settings.workSchedules)).toBeNull();
+    });
+
+    it('should prefer the template that started latest', () => {
+      expect(getActiveWorkSchedule(new Date(2026, 5, 29), settings.workSchedules)?.id).toBe('ab');
+      expect(getActiveWorkSchedule(new Date(2026, 6, 6), settings.workSchedules)?.id).toBe('summer');
+      expect(getActiveWorkSchedule(new Date(2026, 8, 7), settings.workSchedules)?.id).toBe('ab');
+    });
+  });
+
+  describe('getRotationWeekIndex', () => {
+    it('should alternate weeks from the rotation start', () => {
+      expect(getRotationWeekIndex(new Date(2026, 0, 5), alternating)).toBe(0);
+      expect(getRotationWeekIndex(new Date(2026, 0, 11), alternating)).toBe(0); // Sunday, same week
+      expect(getRotationWeekIndex(new Date(2026, 0, 12), alternating)).toBe(1);
+      expect(getRotationWeekIndex(new Date(2026, 0, 19), alternating)).toBe(0);
+    });
+
+    it('should count across daylight saving changes', () => {
+      expect(getRotationWeekIndex(new Date(2026, 3, 6), alternating)).toBe(1); // 13 weeks later
+    });
+
+    it('should use the rotation start over the effective start', () => {
+      expect(getRotationWeekIndex(new Date(2026, 0, 5), { ...alternating, rotationStart: '2025-12-29' })).toBe(1);
+    });
+  });
+
+  describe('resolveWorkWeek', () => {
+    it('should return the template week and index', () => {
+      const resolved = resolveWorkWeek(new Date(2026, 0, 12), settings);
+
+      expect(resolved.schedule?.id).toBe('ab');
+      expect(resolved.weekIndex).toBe(1);
+      expect(resolved.weeklyWorkHours).toBe(weekB);
+    });
+
+    it('should drive day work hours', () => {
+      expect(calculateTotalDayWorkHours(new Date(2025, 11, 29), settings)).toBe(8);
+      expect(calculateTotalDayWorkHours(new Date(2026, 0, 5), settings)).toBe(4);
+      expect(calculateTotalDayWorkHours(new Date(2026, 0, 12), settings)).toBe(0);
+      expect(calculateTotalDayWorkHours(new Date(2026, 6, 6), settings)).toBe(6);
+    });
+  });
+
+  describe('generateWorkHoursFromSettings', () => {
+    it('should repeat rotation slots every n weeks until the schedule changes', () => {
+      const [workHour] = generateWorkHoursFromSettings({
+        weekStartDate: new Date(2026, 5, 22),
+        weeklyWorkHours: defaultWeek,
+        workSchedules: settings.workSchedules
+      });
+
+      expect(workHour.slotId).toBe('a1');
+      expect(workHour.rrule).toMatch(/^FREQ=WEEKLY;INTERVAL=2;BYDAY=MO;UNTIL=\d{8}T\d{6}Z$/);
+    });
+
+    it('should keep weekly slots without templates', () => {
+      const [workHour] = generateWorkHoursFromSettings({ weekStartDate: new Date(2026, 0, 5), weeklyWorkHours: defaultWeek });
+      expect(workHour.rrule).toBe('FREQ=WEEKLY;BYDAY=MO');
+    });
+  });
+
+  describe('getNextWorkScheduleChange', () => {
+    it('should find the next template start or the day after an end', () => {
+      expect(getNextWorkScheduleChange(new Date(2026, 5, 15), settings.workSchedules)).toEqual(new Date(2026, 6, 1));
+      expect(getNextWorkScheduleChange(new Date(2026, 6, 6), settings.workSchedules)).toEqual(new Date(2026, 8, 1));
+      expect(getNextWorkScheduleChange(new Date(2026, 8, 7), settings.workSchedules)).toBeNull();
+    });
+  });
+
+  describe('replaceWorkWeekOn', () => {
+    const addSlot = (target: Settings['weeklyWorkHours']) => ({ ...target, tuesday: [slot('new', '09:00', '10:00', 1)] });
+
+    it('should edit the rotation week in effect on the date', () => {
+      const updates = replaceWorkWeekOn(new Date(2026, 0, 13), settings, addSlot);
+
+      expect(updates.weeklyWorkHours).toBeUndefined();
+      expect(updates.workSchedules?.[0].weeks[1].tuesday).toHaveLength(1);
+      expect(updates.workSchedules?.[0].weeks[0].tuesday).toHaveLength(0);
+    });
+
+    it('should edit the default week outside every template', () => {
+      const updates = replaceWorkWeekOn(new Date(2025, 11, 30), settings, addSlot);
+      expect(updates.weeklyWorkHours?.tuesday).toHaveLength(1);
+      expect(updates.workSchedules).toBeUndefined();
+    });
+  });
+
+  describe('validateWorkScheduleTemplate', () => {
+    it('should accept valid templates', () => {
+      expect(validateWorkScheduleTemplate(alternating)).toEqual([]);
+      expect(validateWorkScheduleTemplate(summer)).toEqual([]);
+    });
+
+    it('should reject bad names, ranges and unanchored rotations', () => {
+      expect(validateWorkScheduleTemplate({ ...summer, name: ' ' })).toHaveLength(1);
+      expect(validateWorkScheduleTemplate({ ...summer, effectiveTo: '2026-06-01' })).toHaveLength(1);
+      expect(validateWorkScheduleTemplate({ ...summer, effectiveFrom: '2026-02-30' })).toHaveLength(1);
+      expect(validateWorkScheduleTemplate({ ...alternating, effectiveFrom: undefined })).toHaveLength(1);
+      expect(validateWorkScheduleTemplate({ ...summer, weeks: [] })).toHaveLength(1);
+    });
+  });
+});
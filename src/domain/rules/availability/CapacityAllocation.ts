@@ -0,0 +1,260 @@
+/**
+ * Capacity Allocation Service
+ *
+ * KEYWORDS: rebalancing, dynamic rebalancing, global allocation, auto-schedule,
+ *           daily limit, over capacity, demand exceeds supply, shortfall,
+ *           earliest deadline first, priority scheduling
+ *
+ * Distributes the auto-estimated hours of ALL projects under each day's capacity.
+ * calculateProjectDayEstimates() spreads every project on its own, so three
+ * overlapping projects can each claim 6h of the same 8h day. The allocator takes
+ * those per-project estimates as demand and places them one demand at a time
+ * (by deadline or priority), spreading evenly over the demand's own working
+ * days and never past what is left of a day.
+ *
+ * USE WHEN:
+ * - Rebalancing auto-estimates across projects
+ * - Finding where requested hours exceed available hours
+ * - Finding which projects cannot be fitted before their deadline
+ *
+ * RELATED FILES:
+ * - DayEstimate.ts - Per-project estimates (the demand)
+ * - DailyMetrics.ts - Available hours per day (the supply)
+ */
+
+import type { DayEstimate } from '@/shared/types';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+// ===== CONFIGURATION =====
+
+export const CAPACITY_ALLOCATION_CONFIG = {
+  HORIZON_DAYS: 365, // Allocate this far ahead; later estimates are left as they are
+  EPSILON: 1e-6 // Hours below this count as zero
+} as const;
+
+// ===== INTERFACES =====
+
+/**
+ * - deadline: earliest deadline first, ties by priority
+ * - priority: lowest priority number first, ties by deadline
+ */
+export type AllocationOrder = 'deadline' | 'priority';
+
+/**
+ * Hours one project (or one of its phases) needs, and the days they may go on
+ */
+export interface AllocationDemand {
+  id: string;
+  projectId: string;
+  phaseId?: string;
+  source: 'milestone-allocation' | 'project-auto-estimate';
+  hours: number;
+  requestedByDate: Map<string, number>; // Unconstrained even spread (YYYY-MM-DD → hours)
+  deadline: Date; // Last day the hours may go on
+  priority: number; // Lower goes first
+}
+
+export interface DayAllocation {
+  date: string; // YYYY-MM-DD
+  capacityHours: number;
+  requestedHours: number;
+  allocatedHours: number;
+  isOvercommitted: boolean; // Requested more than the day has
+}
+
+export interface DemandShortfall {
+  demandId: string;
+  projectId: string;
+  phaseId?: string;
+  requestedHours: number;
+  allocatedHours: number;
+  unallocatedHours: number;
+  deadline: Date;
+}
+
+export interface CapacityAllocationResult {
+  estimates: DayEstimate[];
+  days: DayAllocation[];
+  shortfalls: DemandShortfall[];
+  overcommittedDates: string[];
+  totalRequestedHours: number;
+  totalAllocatedHours: number;
+}
+
+// ===== DEMAND =====
+
+/**
+ * Turn one project's auto-estimates into allocation demands
+ *
+ * Estimates of one phase (or of the project budget) form one demand that may move
+ * between that phase's days. Phases listed in fixedPhaseIds (recurring phases)
+ * keep each day's hours on that day: every occurrence is its own time box.
+ * Event estimates are not demand; they are already subtracted from capacity.
+ */
+export function buildAllocationDemands(
+  projectId: string,
+  estimates: DayEstimate[],
+  priority: number,
+  fixedPhaseIds: Set<string> = new Set()
+): AllocationDemand[] {
+  const demands = new Map<string, AllocationDemand>();
+
+  estimates
+    .filter(estimate => estimate.source !== 'event' && estimate.projectId === projectId && estimate.hours > 0)
+    .forEach(estimate => {
+      const phaseId = estimate.source === 'milestone-allocation' ? estimate.milestoneId : undefined;
+      const dateKey = getDateKey(estimate.date);
+      const id = phaseId && fixedPhaseIds.has(phaseId)
+        ? `${projectId}:${phaseId}:${dateKey}`
+        : `${projectId}:${phaseId ?? 'project'}`;
+
+      let demand = demands.get(id);
+      if (!demand) {
+        demand = {
+          id,
+          projectId,
+          phaseId,
+          source: estimate.source as AllocationDemand['source'],
+          hours: 0,
+          requestedByDate: new Map(),
+          deadline: new Date(estimate.date),
+          priority
+        };
+        demands.set(id, demand);
+      }
+
+      demand.hours += estimate.hours;
+      demand.requestedByDate.set(dateKey, (demand.requestedByDate.get(dateKey) ?? 0) + estimate.hours);
+      if (estimate.date > demand.deadline) demand.deadline = new Date(estimate.date);
+    });
+
+  return Array.from(demands.values());
+}
+
+/**
+ * Order in which demands claim capacity
+ */
+export function orderAllocationDemands(demands: AllocationDemand[], order: AllocationOrder): AllocationDemand[] {
+  const byDeadline = (a: AllocationDemand, b: AllocationDemand) => a.deadline.getTime() - b.deadline.getTime();
+  const byPriority = (a: AllocationDemand, b: AllocationDemand) => a.priority - b.priority;
+  const [first, second] = order === 'deadline' ? [byDeadline, byPriority] : [byPriority, byDeadline];
+
+  return [...demands].sort((a, b) => first(a, b) || second(a, b) || a.id.localeCompare(b.id));
+}
+
+// ===== ALLOCATION =====
+
+/**
+ * Spread hours evenly over the given days without exceeding what is left of each
+ *
+ * Days that fill up drop out and their share goes to the remaining days.
+ * Mutates remainingCapacity.
+ */
+function fillEvenly(
+  hours: number,
+  dateKeys: string[],
+  remainingCapacity: Map<string, number>
+): Map<string, number> {
+  const { EPSILON } = CAPACITY_ALLOCATION_CONFIG;
+  const allocated = new Map<string, number>();
+  let remaining = hours;
+  let open = dateKeys.filter(key => (remainingCapacity.get(key) ?? 0) > EPSILON);
+
+  while (remaining > EPSILON && open.length > 0) {
+    const share = remaining / open.length;
+    const stillOpen: string[] = [];
+
+    open.forEach(key => {
+      const free = remainingCapacity.get(key) ?? 0;
+      const given = Math.min(share, free);
+      allocated.set(key, (allocated.get(key) ?? 0) + given);
+      remainingCapacity.set(key, free - given);
+      remaining -= given;
+      if (free - given > EPSILON) stillOpen.push(key);
+    });
+
+    // Nothing filled up: every day took its full share and the hours are placed
+    if (stillOpen.length === open.length) break;
+    open = stillOpen;
+  }
+
+  return allocated;
+}
+
+/**
+ * Allocate all demands under per-day capacity
+ *
+ * @param capacityByDate - Hours still free per day (YYYY-MM-DD) after events
+ * @returns Allocated estimates, per-day supply vs. demand, and demands that did not fit
+ */
+export function allocateCapacity(
+  demands: AllocationDemand[],
+  capacityByDate: Map<string, number>,
+  order: AllocationOrder = 'deadline'
+): CapacityAllocationResult {
+  const { EPSILON } = CAPACITY_ALLOCATION_CONFIG;
+  const remainingCapacity = new Map(capacityByDate);
+  const requestedByDate = new Map<string, number>();
+  const allocatedByDate = new Map<string, number>();
+  const estimates: DayEstimate[] = [];
+  const shortfalls: DemandShortfall[] = [];
+
+  orderAllocationDemands(demands, order).forEach(demand => {
+    const dateKeys = Array.from(demand.requestedByDate.keys()).sort();
+    demand.requestedByDate.forEach((hours, key) => {
+      requestedByDate.set(key, (requestedByDate.get(key) ?? 0) + hours);
+    });
+
+    const allocated = fillEvenly(demand.hours, dateKeys, remainingCapacity);
+    let allocatedHours = 0;
+
+    dateKeys.forEach(key => {
+      const hours = allocated.get(key) ?? 0;
+      if (hours <= EPSILON) return;
+      allocatedHours += hours;
+      allocatedByDate.set(key, (allocatedByDate.get(key) ?? 0) + hours);
+      estimates.push({
+        date: new Date(`${key}T00:00:00`),
+        projectId: demand.projectId,
+        hours,
+        source: demand.source,
+        milestoneId: demand.phaseId,
+        isWorkingDay: true
+      });
+    });
+
+    const unallocatedHours = demand.hours - allocatedHours;
+    if (unallocatedHours > EPSILON) {
+      shortfalls.push({
+        demandId: demand.id,
+        projectId: demand.projectId,
+        phaseId: demand.phaseId,
+        requestedHours: demand.hours,
+        allocatedHours,
+        unallocatedHours,
+        deadline: demand.deadline
+      });
+    }
+  });
+
+  const days: DayAllocation[] = Array.from(requestedByDate.keys()).sort().map(date => {
+    const capacityHours = capacityByDate.get(date) ?? 0;
+    const requestedHours = requestedByDate.get(date) ?? 0;
+    return {
+      date,
+      capacityHours,
+      requestedHours,
+      allocatedHours: allocatedByDate.get(date) ?? 0,
+      isOvercommitted: requestedHours > capacityHours + EPSILON
+    };
+  });
+
+  return {
+    estimates,
+    days,
+    shortfalls,
+    overcommittedDates: days.filter(day => day.isOvercommitted).map(day => day.date),
+    totalRequestedHours: days.reduce((sum, day) => sum + day.requestedHours, 0),
+    totalAllocatedHours: days.reduce((sum, day) => sum + day.allocatedHours, 0)
+  };
+}
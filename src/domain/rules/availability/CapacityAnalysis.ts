@@ -25,6 +25,7 @@ import { calculateTimeOverlapMinutes, addDaysToDate, normalizeToMidnight } from
 import { calculateEventDurationOnDate } from '../events/EventCalculations';
 import { calculateWorkHoursTotal, calculateDayWorkHours } from './WorkHourGeneration';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+import { getHolidayAvailableHours, isFullHolidayDate, limitWorkHoursToAvailable } from '../holidays/HolidayCapacity';
 
 // Import from eventWorkHourIntegration - same module now
 import { 
@@ -269,24 +270,16 @@ export function analyzeUtilizationEfficiency(capacity: WorkHourCapacity): Utiliz
 // ===== HOLIDAY INTEGRATION =====
 
 /**
- * Check if a date is a holiday
+ * Check if a date is a holiday that removes the whole day's capacity
+ * Partial-day holidays only reduce capacity; see getHolidayAvailableHours()
  */
 export function isHolidayDateCapacity(date: Date, holidays: Holiday[]): boolean {
-  return holidays.some(holiday => {
-    const holidayStart = new Date(holiday.startDate);
-    const holidayEnd = new Date(holiday.endDate);
-    
-    // Normalize dates to avoid time zone issues
-    const checkDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-    const startDate = new Date(holidayStart.getFullYear(), holidayStart.getMonth(), holidayStart.getDate());
-    const endDate = new Date(holidayEnd.getFullYear(), holidayEnd.getMonth(), holidayEnd.getDate());
-    
-    return checkDate >= startDate && checkDate <= endDate;
-  });
+  return isFullHolidayDate(date, holidays);
 }
 
 /**
  * Calculate work hour capacity with holiday considerations
+ * Partial-day holidays keep the day's earliest work hours, up to the hours still available.
  */
 export function calculateWorkHourCapacityWithHolidays(
   workHours: WorkHour[],
@@ -303,6 +296,14 @@ export function calculateWorkHourCapacityWithHolidays(
       events: []
     };
   }
+
+  const dateKey = getDateKey(date);
+  const dayWorkHours = workHours.filter(wh => getDateKey(wh.startTime) === dateKey);
+  const normalHours = dayWorkHours.reduce((sum, wh) => sum + wh.duration, 0);
+  const holidayHours = getHolidayAvailableHours(date, holidays, normalHours);
+  if (holidayHours !== null) {
+    return calculateWorkHourCapacity(limitWorkHoursToAvailable(dayWorkHours, holidayHours), events, date);
+  }
   
   return calculateWorkHourCapacity(workHours, events, date);
 }
@@ -22,33 +22,30 @@
  * Note: isWorkingDay is already in dateCalculations.ts and is authoritative
  */
 
-import { getDayName, isWorkingDay } from '@/presentation/utils/dateCalculations';
+import { isWorkingDay } from '@/presentation/utils/dateCalculations';
 import { 
   isHolidayDateCapacity, 
   calculateAvailabilityReduction,
   generateWorkHoursForDate 
 } from './CapacityAnalysis';
-import { calculateWorkHoursTotal } from './WorkHourGeneration';
+import { calculateDayWorkHours, calculateWorkHoursTotal } from './WorkHourGeneration';
+import { getHolidayAvailableHours, isPartialHoliday } from '../holidays/HolidayCapacity';
 import { calculateProjectDayEstimates } from '../projects/DayEstimate';
 import type { Project, CalendarEvent, PhaseDTO, Settings, Holiday } from '@/shared/types/core';
 
 /**
  * Get total work hours for a specific day
- * Returns 0 for holidays or days without configured work hours
+ * Returns 0 for holidays or days without configured work hours; a partial-day
+ * holiday leaves the hours it keeps available
  */
 export function getWorkHoursForDay(date: Date, holidays: Holiday[], settings: Settings): number {
   if (isHolidayDateCapacity(date, holidays)) {
     return 0;
   }
   
-  const dayName = getDayName(date);
-  const dayData = settings.weeklyWorkHours[dayName];
-  
-  if (Array.isArray(dayData)) {
-    return calculateWorkHoursTotal(dayData);
-  }
-  
-  return typeof dayData === 'number' ? dayData : 0;
+  const normalHours = calculateWorkHoursTotal(calculateDayWorkHours(date, settings));
+
+  return getHolidayAvailableHours(date, holidays, normalHours) ?? normalHours;
 }
 
 /**
@@ -65,8 +62,8 @@ export function calculateDailyProjectHours(
 ): number {
   let totalHours = 0;
   
-  // Use isWorkingDay from dateCalculations with holiday dates
-  const holidayDates = holidays.map(h => new Date(h.startDate));
+  // Use isWorkingDay from dateCalculations with holiday dates (partial days still count)
+  const holidayDates = holidays.filter(h => !isPartialHoliday(h)).map(h => new Date(h.startDate));
   if (!isWorkingDay(date, settings, holidayDates)) {
     return 0;
   }
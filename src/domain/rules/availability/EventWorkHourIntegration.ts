@@ -31,6 +31,8 @@ import {
 } from '@/presentation/utils/dateCalculations';
 
 import { WorkHour, CalendarEvent, Settings, Holiday, Project, WorkSlot } from '@/shared/types';
+import { getHolidayAvailableHours, isFullHolidayDate, limitWorkHoursToAvailable } from '../holidays/HolidayCapacity';
+import { calculateDayWorkHours } from './WorkHourGeneration';
 
 const timelineCalculationDateCache = timelineCalculationCache as Parameters<
   typeof memoizeExpensiveCalculation<
@@ -195,36 +197,27 @@ export function calculateAvailabilityReduction(
  * @param date - Date to generate work hours for
  * @param settings - User settings containing weekly work schedule
  * @param holidays - Array of holiday definitions (optional)
- * @returns Array of work hour objects for the date (empty if date is a holiday)
+ * @returns Array of work hour objects for the date (empty on a full holiday, trimmed on a partial day)
  */
 export function generateWorkHoursForDate(
   date: Date,
   settings: Settings,
   holidays: Holiday[] = []
 ): WorkHour[] {
-  // Check if the date is a holiday - holidays override work hours
-  const isHolidayDate = holidays.some(holiday => {
-    const holidayStart = normalizeToMidnight(new Date(holiday.startDate));
-    const holidayEnd = new Date(holiday.endDate);
-    holidayEnd.setHours(23, 59, 59, 999);
-    const checkDate = normalizeToMidnight(new Date(date));
-    return checkDate >= holidayStart && checkDate <= holidayEnd;
-  });
-
-  // If it's a holiday, return no work hours
-  if (isHolidayDate) {
+  // Holidays override work hours; a full holiday leaves none
+  if (isFullHolidayDate(date, holidays)) {
     return [];
   }
 
   const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayName = dayNames[date.getDay()] as keyof typeof settings.weeklyWorkHours;
-  const workSlots = settings.weeklyWorkHours[dayName] || [];
+  const dayName = dayNames[date.getDay()];
+  const workSlots = calculateDayWorkHours(date, settings);
 
   if (!Array.isArray(workSlots)) {
     return [];
   }
 
-  return workSlots.map((slot, index) => {
+  const workHours = workSlots.map((slot, index) => {
     const startTime = new Date(date);
     const [startHour, startMin] = slot.startTime.split(':').map(Number);
     startTime.setHours(startHour, startMin, 0, 0);
@@ -242,6 +235,11 @@ export function generateWorkHoursForDate(
       type: 'work' as const
     };
   });
+
+  // A partial-day holiday keeps the earliest work hours, up to the hours still available
+  const normalHours = workHours.reduce((sum, workHour) => sum + workHour.duration, 0);
+  const holidayHours = getHolidayAvailableHours(date, holidays, normalHours);
+  return holidayHours === null ? workHours : limitWorkHoursToAvailable(workHours, holidayHours);
 }
 
 /**
@@ -259,7 +257,6 @@ export function calculateProjectWorkingDays(
   settings: Settings,
   holidays: Holiday[]
 ): ProjectWorkingDaysResult {
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
   const workingDays: Date[] = [];
   let totalDays = 0;
   let holidayCount = 0;
@@ -267,8 +264,7 @@ export function calculateProjectWorkingDays(
   for (let d = new Date(projectStart); d <= projectEnd; d = addDaysToDate(d, 1)) {
     totalDays++;
     const checkDate = new Date(d);
-    const checkDayName = dayNames[checkDate.getDay()] as keyof typeof settings.weeklyWorkHours;
-    const checkWorkSlots = settings.weeklyWorkHours[checkDayName] || [];
+    const checkWorkSlots = calculateDayWorkHours(checkDate, settings);
     
     const checkIsHoliday = holidays.some(holiday => 
       checkDate >= new Date(holiday.startDate) && checkDate <= new Date(holiday.endDate)
@@ -305,7 +301,7 @@ export const memoizedProjectWorkingDays = memoizeExpensiveCalculation(
     const settingsHash = Object.keys(settings.weeklyWorkHours || {}).map(day => {
       const slots = settings.weeklyWorkHours[day as keyof Settings['weeklyWorkHours']];
       return Array.isArray(slots) ? slots.reduce((sum, slot: WorkSlot) => sum + slot.duration, 0) : 0;
-    }).join('-');
+    }).join('-') + JSON.stringify(settings.workSchedules ?? []);
     
     const holidaysHash = holidays.map(h => `${h.id}`).join(',');
     
@@ -349,9 +345,7 @@ export function getProjectTimeAllocation(
   }
   
   // Now check if it's a working day (only affects auto-estimate)
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayName = dayNames[date.getDay()] as keyof typeof settings.weeklyWorkHours;
-  const workSlots = settings.weeklyWorkHours[dayName] || [];
+  const workSlots = calculateDayWorkHours(date, settings);
   
   // Check if it's a holiday
   const isHoliday = holidays.some(holiday => 
@@ -442,7 +436,7 @@ export const memoizedGetProjectTimeAllocation = memoizeExpensiveCalculation(
     const settingsHash = Object.keys(settings.weeklyWorkHours || {}).map(day => {
       const slots = settings.weeklyWorkHours[day];
       return Array.isArray(slots) ? slots.reduce((sum, slot) => sum + slot.duration, 0) : (slots || 0);
-    }).join('-');
+    }).join('-') + JSON.stringify(settings.workSchedules ?? []);
     
     const holidaysHash = holidays.map(h => `${h.id}`).join(',');
     
@@ -30,6 +30,12 @@ import {
 } from '@/presentation/utils/timeCalculations';
 
 import { Settings, WorkHour, WorkSlot } from '@/shared/types/core';
+import {
+  getNextWorkScheduleChange,
+  resolveDayWorkSlots,
+  resolveWorkWeek,
+  type WorkScheduleSettings
+} from '@/domain/rules/work-slots/WorkSchedules';
 
 export type WorkHourLike = Pick<WorkHour, 'duration'> | Pick<WorkSlot, 'duration'>;
 
@@ -45,6 +51,7 @@ export interface WeekOverrideManager {
 export interface WorkHourGenerationParams {
   weekStartDate: Date;
   weeklyWorkHours?: Settings['weeklyWorkHours'] | null;
+  workSchedules?: Settings['workSchedules'];
 }
 
 export interface WorkHourMergeParams {
@@ -104,21 +111,19 @@ export function calculateWorkHoursTotal(workHours: WorkHourLike[]): number {
 
 /**
  * Calculate work hours for a specific day from settings
- * Extracts the work hours array for the given day of week
+ * Extracts the work hours array for the given day of week from the schedule
+ * template in effect on that date (see WorkSchedules.ts)
  */
-export function calculateDayWorkHours(date: Date, settings?: Pick<Settings, 'weeklyWorkHours'> | null): WorkSlot[] {
+export function calculateDayWorkHours(date: Date, settings?: WorkScheduleSettings | null): WorkSlot[] {
   if (!settings?.weeklyWorkHours) return [];
-
-  const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-  const dayName = dayNames[date.getDay()] as keyof typeof settings.weeklyWorkHours;
-  return settings.weeklyWorkHours[dayName] || [];
+  return resolveDayWorkSlots(date, settings);
 }
 
 /**
  * Calculate total work hours for a specific day
  * Combines calculateDayWorkHours + calculateWorkHoursTotal
  */
-export function calculateTotalDayWorkHours(date: Date, settings?: Pick<Settings, 'weeklyWorkHours'> | null): number {
+export function calculateTotalDayWorkHours(date: Date, settings?: WorkScheduleSettings | null): number {
   const dayWorkHours = calculateDayWorkHours(date, settings);
   return calculateWorkHoursTotal(dayWorkHours);
 }
@@ -128,9 +133,12 @@ export function calculateTotalDayWorkHours(date: Date, settings?: Pick<Settings,
 /**
  * Generate work hours from settings as RRULE-based recurring events
  * Creates one master work hour event per slot that repeats infinitely
+ *
+ * With schedule templates, each day uses the template week in effect on that
+ * date: slots repeat once per rotation and stop before the schedule changes.
  */
 export function generateWorkHoursFromSettings(params: WorkHourGenerationParams): WorkHour[] {
-  const { weekStartDate, weeklyWorkHours } = params;
+  const { weekStartDate, weeklyWorkHours, workSchedules } = params;
   
   if (!weeklyWorkHours) return [];
   
@@ -140,14 +148,17 @@ export function generateWorkHoursFromSettings(params: WorkHourGenerationParams):
   const dayNames = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
   
   dayNames.forEach((dayName, dayIndex) => {
-    const daySlots = weeklyWorkHours[dayName as keyof typeof weeklyWorkHours] || [];
+    // Create a reference date for this day of the week
+    // Use the week start date as the base
+    const workHourDate = new Date(weekStartDate);
+    workHourDate.setDate(weekStartDate.getDate() + dayIndex); // Monday + 0 = Monday, etc.
+
+    const { weeklyWorkHours: week, schedule } = resolveWorkWeek(workHourDate, { weeklyWorkHours, workSchedules });
+    const daySlots = week[dayName as keyof typeof week] || [];
+    const rotationWeeks = schedule?.weeks.length ?? 1;
+    const nextChange = getNextWorkScheduleChange(workHourDate, workSchedules);
     
     daySlots.forEach((slot: WorkSlot) => {
-      // Create a reference date for this day of the week
-      // Use the week start date as the base
-      const workHourDate = new Date(weekStartDate);
-      workHourDate.setDate(weekStartDate.getDate() + dayIndex); // Monday + 0 = Monday, etc.
-      
       // Parse time strings
       const [startHour, startMin] = slot.startTime.split(':').map(Number);
       const [endHour, endMin] = slot.endTime.split(':').map(Number);
@@ -163,13 +174,21 @@ export function generateWorkHoursFromSettings(params: WorkHourGenerationParams):
       const rruleDays = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
       const rruleDay = rruleDays[dayIndex];
       
-      // RRULE: Every week on this specific day (e.g., FREQ=WEEKLY;BYDAY=MO)
-      const rrule = `FREQ=WEEKLY;BYDAY=${rruleDay}`;
+      // RRULE: Every week on this specific day (e.g., FREQ=WEEKLY;BYDAY=MO),
+      // every n weeks in an n-week rotation, until the schedule changes
+      const interval = rotationWeeks > 1 ? `;INTERVAL=${rotationWeeks}` : '';
+      // UNTIL in UTC, one second before the local midnight the schedule changes on
+      const until = nextChange
+        ? `;UNTIL=${new Date(nextChange.getTime() - 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}Z$/, 'Z')}`
+        : '';
+      const rrule = `FREQ=WEEKLY${interval};BYDAY=${rruleDay}${until}`;
       
       workHours.push({
         id: `settings-${dayName}-${slot.id}`, // Stable ID not based on timestamp
         title: `Work Hours`,
-        description: `Default ${dayName} work hours`,
+        description: schedule
+          ? `${schedule.name} ${dayName} work hours`
+          : `Default ${dayName} work hours`,
         startTime: startDateTime,
         endTime: endDateTime,
         duration: slot.duration,
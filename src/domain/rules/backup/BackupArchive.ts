@@ -0,0 +1,383 @@
+/**
+ * Backup Archive Rules
+ *
+ * Pure rules for the portable JSON backup format:
+ * - Versioned archive structure covering every user table
+ * - Reading archives (including the legacy profile export) and validating their shape
+ * - Restore order and foreign keys between tables
+ * - Remapping row IDs and references when restoring into an account,
+ *   including the IDs inside plan baseline snapshots and saved filter queries
+ *
+ * Database access and entity validation happen in DataBackupOrchestrator.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export const BACKUP_ARCHIVE_FORMAT = 'budgi-backup';
+export const BACKUP_ARCHIVE_VERSION = 1;
+
+/**
+ * Every table in the database schema, in export order
+ */
+export const BACKUP_TABLES = [
+  'profiles',
+  'settings',
+  'groups',
+  'clients',
+  'labels',
+  'rows',
+  'projects',
+  'project_labels',
+  'phases',
+  'dependencies',
+  'calendar_events',
+  'calendar_event_exceptions',
+  'project_tasks',
+  'holidays',
+  'work_slot_exceptions',
+  'habit_targets',
+  'plan_baselines',
+  'saved_filters',
+  'calendar_connections',
+  'calendar_import_history',
+  'feedback',
+  'feedback_attachments',
+  'usage_analytics',
+  'milestones_backup_20251018'
+] as const;
+
+export type BackupTableName = typeof BACKUP_TABLES[number];
+
+export type BackupRow = Record<string, unknown>;
+
+export type BackupTables = Partial<Record<BackupTableName, BackupRow[]>>;
+
+export interface BackupArchive {
+  format: typeof BACKUP_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  tables: BackupTables;
+}
+
+export interface BackupArchiveParseResult {
+  archive?: BackupArchive;
+  errors: string[];
+  warnings: string[];
+}
+
+interface BackupForeignKey {
+  column: string;
+  table: BackupTableName;
+  optional?: boolean; // Nullable column: cleared instead of skipping the row
+  kind?: string; // Polymorphic column: only applies to rows whose kind matches
+}
+
+/**
+ * Tables restored into an account, parents before children
+ * (the restore_backup database function follows the same order)
+ */
+export const BACKUP_RESTORE_ORDER: BackupTableName[] = [
+  'groups',
+  'clients',
+  'labels',
+  'rows',
+  'projects',
+  'project_labels',
+  'phases',
+  'dependencies',
+  'calendar_events',
+  'calendar_event_exceptions',
+  'project_tasks',
+  'holidays',
+  'work_slot_exceptions',
+  'habit_targets',
+  'plan_baselines',
+  'saved_filters',
+  'settings',
+  'profiles'
+];
+
+/**
+ * Tables kept in the archive but not restored, with the reason shown to the user
+ */
+export const BACKUP_EXPORT_ONLY_TABLES: Partial<Record<BackupTableName, string>> = {
+  calendar_connections: 'Calendar connections must be set up again after restoring',
+  calendar_import_history: 'Import history is not restored',
+  feedback: 'Feedback is not restored',
+  feedback_attachments: 'Feedback is not restored',
+  usage_analytics: 'Usage analytics are not restored',
+  milestones_backup_20251018: 'Legacy milestone backup is not restored'
+};
+
+/**
+ * References between restored tables
+ */
+export const BACKUP_FOREIGN_KEYS: Partial<Record<BackupTableName, BackupForeignKey[]>> = {
+  rows: [{ column: 'group_id', table: 'groups' }],
+  projects: [
+    { column: 'group_id', table: 'groups' },
+    { column: 'client_id', table: 'clients' },
+    { column: 'row_id', table: 'rows', optional: true }
+  ],
+  project_labels: [
+    { column: 'project_id', table: 'projects' },
+    { column: 'label_id', table: 'labels' }
+  ],
+  phases: [{ column: 'project_id', table: 'projects' }],
+  dependencies: [
+    { column: 'predecessor_id', table: 'projects', kind: 'project' },
+    { column: 'successor_id', table: 'projects', kind: 'project' },
+    { column: 'predecessor_id', table: 'phases', kind: 'phase' },
+    { column: 'successor_id', table: 'phases', kind: 'phase' }
+  ],
+  calendar_events: [
+    { column: 'project_id', table: 'projects', optional: true },
+    // Connections are not restored: subscribed events become plain imported events
+    { column: 'connection_id', table: 'calendar_connections', optional: true }
+  ],
+  calendar_event_exceptions: [{ column: 'master_event_id', table: 'calendar_events' }],
+  project_tasks: [
+    { column: 'project_id', table: 'projects' },
+    { column: 'scheduled_event_id', table: 'calendar_events', optional: true }
+  ]
+};
+
+/**
+ * Tables with one row per user: restoring replaces the existing row
+ */
+export const BACKUP_SINGLETON_TABLES: BackupTableName[] = ['settings', 'profiles'];
+
+// ============================================================================
+// ARCHIVE CREATION & PARSING
+// ============================================================================
+
+/**
+ * Build an archive from exported table rows
+ */
+export function createBackupArchive(tables: BackupTables, exportedAt: Date = new Date()): BackupArchive {
+  return {
+    format: BACKUP_ARCHIVE_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    tables
+  };
+}
+
+/**
+ * Read and validate an archive
+ *
+ * Accepts current archives and the legacy profile export
+ * ({ profile, projects, calendarEvents, settings, exportDate }).
+ */
+export function parseBackupArchive(raw: unknown): BackupArchiveParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    return { errors: ['Backup file is not a JSON object'], warnings };
+  }
+
+  if (raw.format === undefined && Array.isArray(raw.projects) && Array.isArray(raw.calendarEvents)) {
+    warnings.push('Legacy export: only projects, events and profile are included');
+    return { archive: upgradeLegacyExport(raw), errors, warnings };
+  }
+
+  if (raw.format !== BACKUP_ARCHIVE_FORMAT) {
+    return { errors: ['Not a backup archive'], warnings };
+  }
+
+  if (typeof raw.version !== 'number' || raw.version < 1) {
+    errors.push('Backup archive version is missing or invalid');
+  } else if (raw.version > BACKUP_ARCHIVE_VERSION) {
+    errors.push(`Backup archive version ${raw.version} is newer than supported version ${BACKUP_ARCHIVE_VERSION}`);
+  }
+
+  if (!isPlainObject(raw.tables)) {
+    errors.push('Backup archive has no tables');
+    return { errors, warnings };
+  }
+
+  const tables: BackupTables = {};
+  Object.entries(raw.tables).forEach(([name, rows]) => {
+    if (!isBackupTableName(name)) {
+      warnings.push(`Unknown table "${name}" ignored`);
+      return;
+    }
+    if (!Array.isArray(rows) || !rows.every(isPlainObject)) {
+      errors.push(`Table "${name}" must be a list of rows`);
+      return;
+    }
+    tables[name] = rows;
+  });
+
+  if (errors.length > 0) {
+    return { errors, warnings };
+  }
+
+  return {
+    archive: {
+      format: BACKUP_ARCHIVE_FORMAT,
+      version: raw.version as number,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      tables
+    },
+    errors,
+    warnings
+  };
+}
+
+/**
+ * Row count per table
+ */
+export function getBackupRowCounts(archive: BackupArchive): Partial<Record<BackupTableName, number>> {
+  const counts: Partial<Record<BackupTableName, number>> = {};
+  BACKUP_TABLES.forEach(table => {
+    const rows = archive.tables[table];
+    if (rows?.length) counts[table] = rows.length;
+  });
+  return counts;
+}
+
+function upgradeLegacyExport(raw: Record<string, unknown>): BackupArchive {
+  const tables: BackupTables = {
+    projects: (raw.projects as unknown[]).filter(isPlainObject),
+    calendar_events: (raw.calendarEvents as unknown[]).filter(isPlainObject)
+  };
+  if (isPlainObject(raw.profile)) {
+    tables.profiles = [raw.profile];
+  }
+
+  return {
+    format: BACKUP_ARCHIVE_FORMAT,
+    version: BACKUP_ARCHIVE_VERSION,
+    exportedAt: typeof raw.exportDate === 'string' ? raw.exportDate : '',
+    tables
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBackupTableName(name: string): name is BackupTableName {
+  return (BACKUP_TABLES as readonly string[]).includes(name);
+}
+
+// ============================================================================
+// ID REMAPPING
+// ============================================================================
+
+/**
+ * Old → new row IDs per table
+ */
+export class BackupIdMap {
+  private readonly ids = new Map<string, string>();
+
+  set(table: BackupTableName, oldId: string, newId: string): void {
+    this.ids.set(`${table}:${oldId}`, newId);
+  }
+
+  get(table: BackupTableName, oldId: string): string | undefined {
+    return this.ids.get(`${table}:${oldId}`);
+  }
+}
+
+export interface RemappedBackupRow {
+  row: BackupRow;
+  missingReferences: string[]; // "column → table" for required references that could not be resolved
+}
+
+/**
+ * Rewrite a row for insertion into another account
+ *
+ * - `id` and `user_id` are replaced
+ * - Foreign keys point at the new IDs; unresolved optional references are cleared
+ * - Polymorphic keys (dependencies) follow the row's kind
+ */
+export function remapBackupRow(
+  table: BackupTableName,
+  row: BackupRow,
+  idMap: BackupIdMap,
+  userId: string,
+  newId?: string
+): RemappedBackupRow {
+  const remapped: BackupRow = { ...row, user_id: userId };
+  if (newId) {
+    remapped.id = newId;
+  } else {
+    delete remapped.id;
+  }
+
+  const missingReferences: string[] = [];
+  (BACKUP_FOREIGN_KEYS[table] || []).forEach(({ column, table: referenced, optional, kind }) => {
+    if (kind !== undefined && row.kind !== kind) return;
+    const oldValue = row[column];
+    if (oldValue === null || oldValue === undefined || oldValue === '') return;
+
+    const mapped = idMap.get(referenced, String(oldValue));
+    if (mapped) {
+      remapped[column] = mapped;
+    } else if (optional) {
+      remapped[column] = null;
+    } else {
+      missingReferences.push(`${column} → ${referenced}`);
+    }
+  });
+
+  return { row: remapped, missingReferences };
+}
+
+/**
+ * Point a plan baseline snapshot at the restored projects and phases
+ *
+ * Snapshots are JSON, so references are not foreign keys. Items that were not
+ * restored keep their old IDs and compare as removed.
+ */
+export function remapBaselineSnapshot(snapshot: unknown, idMap: BackupIdMap): unknown {
+  if (!isPlainObject(snapshot)) return snapshot;
+
+  const mapId = (table: BackupTableName, value: unknown) =>
+    typeof value === 'string' ? idMap.get(table, value) ?? value : value;
+  const mapItems = (items: unknown, remap: (item: BackupRow) => BackupRow) =>
+    Array.isArray(items) ? items.map(item => (isPlainObject(item) ? remap(item) : item)) : items;
+
+  return {
+    ...snapshot,
+    projects: mapItems(snapshot.projects, item => ({ ...item, id: mapId('projects', item.id) })),
+    phases: mapItems(snapshot.phases, item => ({
+      ...item,
+      id: mapId('phases', item.id),
+      projectId: mapId('projects', item.projectId)
+    })),
+    dayEstimates: mapItems(snapshot.dayEstimates, item => ({ ...item, projectId: mapId('projects', item.projectId) }))
+  };
+}
+
+/**
+ * Point a saved filter query at the restored clients and labels
+ *
+ * Clients and labels that were not restored are dropped from the query.
+ */
+export function remapFilterQuery(query: unknown, idMap: BackupIdMap): BackupRow {
+  const source = isPlainObject(query) ? query : {};
+  const mapIds = (table: BackupTableName, ids: unknown) =>
+    (Array.isArray(ids) ? ids : [])
+      .map(id => idMap.get(table, String(id)))
+      .filter((id): id is string => id !== undefined);
+
+  return {
+    ...source,
+    clientIds: mapIds('clients', source.clientIds),
+    labelIds: mapIds('labels', source.labelIds),
+    statuses: Array.isArray(source.statuses) ? source.statuses : []
+  };
+}
+
+/**
+ * Case-insensitive key for name uniqueness (clients, groups, labels)
+ */
+export function getBackupNameKey(name: unknown): string {
+  return String(name ?? '').trim().toLowerCase();
+}
@@ -0,0 +1,8 @@
+/**
+ * Backup Domain Rules
+ * 
+ * Exports all backup-related business rules:
+ * - BackupArchive.ts - Archive format, parsing and ID remapping
+ */
+
+export * from './BackupArchive';
@@ -0,0 +1,335 @@
+/**
+ * Plan Baseline Rules
+ *
+ * Named baselines freeze the plan once a client signed off on it:
+ * - Project dates and budgets, phase dates and allocations
+ * - The day estimates calculateProjectDayEstimates produced at that moment
+ *
+ * Comparing a baseline with the live plan (captured the same way) gives the
+ * drift per project: how many days the start and end moved and how the
+ * estimated hours changed, with the same breakdown for each phase.
+ *
+ * Baselines are stored as JSON, so dates are kept as 'YYYY-MM-DD' keys.
+ * Building estimates from live data lives in PlanBaselineAggregate.
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see src/application/queries/PlanBaselineAggregate.ts - Capturing the live plan
+ */
+
+import type {
+  BaselineDayEstimate,
+  BaselinePhaseSnapshot,
+  BaselineProjectSnapshot,
+  DayEstimate,
+  PhaseDTO,
+  PlanBaseline,
+  PlanBaselineSnapshot
+} from '@/shared/types/core';
+import { addDaysToDate, calculateDayDifference, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Project fields a baseline keeps (a subset of Project.getSnapshot())
+ */
+export interface BaselineProjectSource {
+  id: string;
+  name: string;
+  startDate: Date;
+  endDate: Date | null; // null for continuous projects
+  continuous: boolean;
+  estimatedHours: number;
+}
+
+export interface PlanBaselineSnapshotSources {
+  projects: BaselineProjectSource[];
+  phases: PhaseDTO[];
+  dayEstimates: DayEstimate[];
+  capturedAt?: Date;
+}
+
+export type BaselineVarianceStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface BaselinePhaseVariance {
+  phaseId: string;
+  name: string;
+  status: BaselineVarianceStatus;
+  startShiftDays: number | null; // Positive = later than the baseline
+  endShiftDays: number | null;
+  baselineHours: number | null;
+  currentHours: number | null;
+}
+
+export interface BaselineProjectVariance {
+  projectId: string;
+  name: string;
+  status: BaselineVarianceStatus;
+  baselineStartDate: Date | null;
+  baselineEndDate: Date | null; // null when added or continuous
+  currentStartDate: Date | null;
+  currentEndDate: Date | null;
+  startShiftDays: number | null; // Positive = later than the baseline
+  endShiftDays: number | null;
+  baselineBudgetHours: number | null;
+  currentBudgetHours: number | null;
+  baselineEstimatedHours: number; // Sum of the day estimates
+  currentEstimatedHours: number;
+  estimatedHoursDelta: number;
+  phases: BaselinePhaseVariance[];
+}
+
+export interface PlanBaselineComparison {
+  projects: BaselineProjectVariance[];
+  driftedProjectCount: number; // Changed, added and removed projects
+  totalBaselineHours: number;
+  totalCurrentHours: number;
+}
+
+export interface PlanBaselineNameValidation {
+  isValid: boolean;
+  errors: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PLAN_BASELINE_CONFIG = {
+  MAX_NAME_LENGTH: 80,
+  CONTINUOUS_WINDOW_DAYS: 365, // Continuous projects have no end; estimates are frozen for this long
+  HOURS_TOLERANCE: 0.01
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const parseDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const roundHours = (hours: number): number => Math.round(hours * 100) / 100;
+
+const hoursDiffer = (a: number | null, b: number | null): boolean =>
+  a !== null && b !== null && Math.abs(a - b) > PLAN_BASELINE_CONFIG.HOURS_TOLERANCE;
+
+const shiftDays = (baselineKey: string | null, current: string | null): number | null =>
+  baselineKey && current ? calculateDayDifference(parseDateKey(baselineKey), parseDateKey(current)) : null;
+
+/**
+ * Line up baseline and current items by id: baseline order first, then added items
+ */
+function matchById<T extends { id: string }>(baseline: T[], current: T[]): Array<{ before?: T; after?: T }> {
+  const currentById = new Map(current.map(item => [item.id, item]));
+  const baselineIds = new Set(baseline.map(item => item.id));
+  return [
+    ...baseline.map(before => ({ before, after: currentById.get(before.id) })),
+    ...current.filter(after => !baselineIds.has(after.id)).map(after => ({ after }))
+  ];
+}
+
+// ============================================================================
+// CAPTURING A BASELINE
+// ============================================================================
+
+/**
+ * Validate a baseline name (required, short, unique per user)
+ */
+export function validatePlanBaselineName(
+  name: string,
+  existing: Array<Pick<PlanBaseline, 'id' | 'name'>>,
+  ownId?: string
+): PlanBaselineNameValidation {
+  const errors: string[] = [];
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    errors.push('Baseline name is required');
+  } else if (trimmed.length > PLAN_BASELINE_CONFIG.MAX_NAME_LENGTH) {
+    errors.push(`Baseline name must be ${PLAN_BASELINE_CONFIG.MAX_NAME_LENGTH} characters or less`);
+  } else if (existing.some(baseline => baseline.id !== ownId && baseline.name.trim().toLowerCase() === trimmed.toLowerCase())) {
+    errors.push(`A baseline named "${trimmed}" already exists`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Days whose estimates a baseline freezes for a project
+ * Continuous projects run from their start (or the capture date, if later)
+ * for CONTINUOUS_WINDOW_DAYS.
+ */
+export function getBaselineEstimateWindow(
+  project: Pick<BaselineProjectSource, 'startDate' | 'endDate' | 'continuous'>,
+  referenceDate: Date
+): { start: Date; end: Date } {
+  const start = normalizeToMidnight(new Date(project.startDate));
+  if (!project.continuous && project.endDate) {
+    return { start, end: normalizeToMidnight(new Date(project.endDate)) };
+  }
+  const reference = normalizeToMidnight(new Date(referenceDate));
+  const windowStart = reference > start ? reference : start;
+  return { start, end: addDaysToDate(windowStart, PLAN_BASELINE_CONFIG.CONTINUOUS_WINDOW_DAYS - 1) };
+}
+
+/**
+ * Freeze projects, their phases and their day estimates into a snapshot
+ * Estimates are summed per project, day and source.
+ */
+export function createPlanBaselineSnapshot(sources: PlanBaselineSnapshotSources): PlanBaselineSnapshot {
+  const capturedAt = sources.capturedAt ?? new Date();
+  const projectIds = new Set(sources.projects.map(project => project.id));
+
+  const projects: BaselineProjectSnapshot[] = sources.projects.map(project => ({
+    id: project.id,
+    name: project.name,
+    startDate: getDateKey(new Date(project.startDate)),
+    endDate: project.continuous || !project.endDate ? null : getDateKey(new Date(project.endDate)),
+    continuous: project.continuous,
+    estimatedHours: project.estimatedHours
+  }));
+
+  const phases: BaselinePhaseSnapshot[] = sources.phases
+    .filter(phase => projectIds.has(phase.projectId))
+    .map(phase => ({
+      id: phase.id,
+      projectId: phase.projectId,
+      name: phase.name,
+      startDate: phase.startDate ? getDateKey(new Date(phase.startDate)) : null,
+      endDate: getDateKey(new Date(phase.endDate || phase.dueDate)),
+      timeAllocationHours: phase.timeAllocationHours ?? phase.timeAllocation
+    }));
+
+  const estimates = new Map<string, BaselineDayEstimate>();
+  sources.dayEstimates
+    .filter(estimate => projectIds.has(estimate.projectId) && estimate.hours > 0)
+    .forEach(estimate => {
+      const date = getDateKey(new Date(estimate.date));
+      const key = `${estimate.projectId}|${date}|${estimate.source}`;
+      const existing = estimates.get(key);
+      if (existing) {
+        existing.hours += estimate.hours;
+      } else {
+        estimates.set(key, { projectId: estimate.projectId, date, hours: estimate.hours, source: estimate.source });
+      }
+    });
+
+  return {
+    capturedAt: capturedAt.toISOString(),
+    projects,
+    phases,
+    dayEstimates: Array.from(estimates.values())
+      .map(estimate => ({ ...estimate, hours: roundHours(estimate.hours) }))
+      .sort((a, b) => a.projectId.localeCompare(b.projectId) || a.date.localeCompare(b.date))
+  };
+}
+
+// ============================================================================
+// COMPARING WITH THE LIVE PLAN
+// ============================================================================
+
+/**
+ * Total estimated hours per project
+ */
+export function sumBaselineHoursByProject(dayEstimates: BaselineDayEstimate[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  dayEstimates.forEach(estimate => {
+    totals.set(estimate.projectId, (totals.get(estimate.projectId) ?? 0) + estimate.hours);
+  });
+  return totals;
+}
+
+function comparePhases(baseline: BaselinePhaseSnapshot[], current: BaselinePhaseSnapshot[]): BaselinePhaseVariance[] {
+  return matchById(baseline, current).map(({ before, after }) => {
+    const startShiftDays = shiftDays(before?.startDate ?? null, after?.startDate ?? null);
+    const endShiftDays = shiftDays(before?.endDate ?? null, after?.endDate ?? null);
+    const baselineHours = before?.timeAllocationHours ?? null;
+    const currentHours = after?.timeAllocationHours ?? null;
+
+    let status: BaselineVarianceStatus;
+    if (!before) status = 'added';
+    else if (!after) status = 'removed';
+    else if (
+      !!startShiftDays || !!endShiftDays ||
+      (before.startDate === null) !== (after.startDate === null) ||
+      hoursDiffer(baselineHours, currentHours)
+    ) status = 'changed';
+    else status = 'unchanged';
+
+    return {
+      phaseId: (after ?? before)!.id,
+      name: (after ?? before)!.name,
+      status,
+      startShiftDays,
+      endShiftDays,
+      baselineHours,
+      currentHours
+    };
+  });
+}
+
+/**
+ * Drift of the live plan from a baseline, per project
+ * Both sides must be captured the same way (createPlanBaselineSnapshot).
+ */
+export function comparePlanToBaseline(
+  baseline: PlanBaselineSnapshot,
+  current: PlanBaselineSnapshot
+): PlanBaselineComparison {
+  const baselineHours = sumBaselineHoursByProject(baseline.dayEstimates);
+  const currentHours = sumBaselineHoursByProject(current.dayEstimates);
+
+  const projects = matchById(baseline.projects, current.projects).map(({ before, after }): BaselineProjectVariance => {
+    const id = (after ?? before)!.id;
+    const phases = comparePhases(
+      baseline.phases.filter(phase => phase.projectId === id),
+      current.phases.filter(phase => phase.projectId === id)
+    );
+    const baselineEstimatedHours = before ? roundHours(baselineHours.get(id) ?? 0) : 0;
+    const currentEstimatedHours = after ? roundHours(currentHours.get(id) ?? 0) : 0;
+    const startShiftDays = shiftDays(before?.startDate ?? null, after?.startDate ?? null);
+    const endShiftDays = shiftDays(before?.endDate ?? null, after?.endDate ?? null);
+
+    let status: BaselineVarianceStatus;
+    if (!before) status = 'added';
+    else if (!after) status = 'removed';
+    else if (
+      !!startShiftDays || !!endShiftDays ||
+      before.continuous !== after.continuous ||
+      hoursDiffer(before.estimatedHours, after.estimatedHours) ||
+      hoursDiffer(baselineEstimatedHours, currentEstimatedHours) ||
+      phases.some(phase => phase.status !== 'unchanged')
+    ) status = 'changed';
+    else status = 'unchanged';
+
+    return {
+      projectId: id,
+      name: (after ?? before)!.name,
+      status,
+      baselineStartDate: before ? parseDateKey(before.startDate) : null,
+      baselineEndDate: before?.endDate ? parseDateKey(before.endDate) : null,
+      currentStartDate: after ? parseDateKey(after.startDate) : null,
+      currentEndDate: after?.endDate ? parseDateKey(after.endDate) : null,
+      startShiftDays,
+      endShiftDays,
+      baselineBudgetHours: before?.estimatedHours ?? null,
+      currentBudgetHours: after?.estimatedHours ?? null,
+      baselineEstimatedHours,
+      currentEstimatedHours,
+      estimatedHoursDelta: roundHours(currentEstimatedHours - baselineEstimatedHours),
+      phases
+    };
+  });
+
+  return {
+    projects,
+    driftedProjectCount: projects.filter(project => project.status !== 'unchanged').length,
+    totalBaselineHours: roundHours(projects.reduce((sum, project) => sum + project.baselineEstimatedHours, 0)),
+    totalCurrentHours: roundHours(projects.reduce((sum, project) => sum + project.currentEstimatedHours, 0))
+  };
+}
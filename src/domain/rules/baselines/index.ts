@@ -0,0 +1,8 @@
+/**
+ * Baseline Domain Rules
+ * 
+ * Exports all plan baseline business rules:
+ * - PlanBaseline.ts - Freezing the plan and measuring drift from it
+ */
+
+export * from './PlanBaseline';
@@ -10,6 +10,7 @@
  */
 
 import type { Client, Project } from '@/shared/types/core';
+import { isValidCurrencyCode, validateBillingRate } from '@/domain/rules/projects/ProjectRevenue';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -184,6 +185,12 @@ export class ClientRules {
       errors.push('Client phone contains invalid characters');
     }
 
+    // Billing validation
+    if (client.currency !== undefined && !isValidCurrencyCode(client.currency)) {
+      errors.push('Client currency must be a 3-letter currency code (e.g. EUR)');
+    }
+    errors.push(...validateBillingRate(client.defaultRate));
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -0,0 +1,154 @@
+/**
+ * Dependency Cascade Rules
+ *
+ * Finish-to-start and start-to-start dependencies between projects or phases.
+ * When a predecessor moves later, its dependents have to move with it:
+ * - finish-to-start: successor starts on or after predecessor end + 1 day + lag
+ * - start-to-start: successor starts on or after predecessor start + lag
+ *
+ * A dependent that would start too early is shifted (start and end keep their
+ * distance) and its own dependents are checked in turn, the same forward walk
+ * as PhaseHierarchyRules.cascadePhaseAdjustments. Items that share a sequence
+ * (the phases of one project) stay back to back while they are shifted.
+ * Dependents are never pulled back when a predecessor moves earlier.
+ *
+ * Cycle validation lives with the project rules (ProjectRules.validateDependencies).
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see PhaseHierarchy.ts - cascadePhaseAdjustments
+ * @see ProjectValidation.ts - dependency cycle validation
+ */
+
+import type { Dependency } from '@/shared/types/core';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface DependencyScheduleItem {
+  id: string;
+  startDate: Date;
+  endDate?: Date; // Undefined for open-ended (continuous) projects
+  sequenceId?: string; // Items of one sequence stay back to back (phases of a project)
+}
+
+export interface DependencyShift {
+  id: string;
+  startDate: Date;
+  endDate?: Date;
+  daysShifted: number;
+}
+
+export type DependencyLink = Pick<Dependency, 'predecessorId' | 'successorId' | 'type' | 'lagDays'>;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// ============================================================================
+// CONSTRAINTS
+// ============================================================================
+
+/**
+ * Earliest start a dependency allows for its successor
+ * Finish-to-start on an open-ended predecessor never constrains (returns null).
+ */
+export function calculateEarliestSuccessorStart(
+  dependency: Pick<DependencyLink, 'type' | 'lagDays'>,
+  predecessor: Pick<DependencyScheduleItem, 'startDate' | 'endDate'>
+): Date | null {
+  const lag = Math.max(0, dependency.lagDays || 0);
+
+  if (dependency.type === 'start-to-start') {
+    return addDaysToDate(normalizeToMidnight(new Date(predecessor.startDate)), lag);
+  }
+
+  if (!predecessor.endDate) return null;
+  return addDaysToDate(normalizeToMidnight(new Date(predecessor.endDate)), 1 + lag);
+}
+
+/**
+ * Links implied by sequences: each item waits for the one before it (by start date)
+ */
+function getSequenceLinks(items: DependencyScheduleItem[]): DependencyLink[] {
+  const sequences = new Map<string, DependencyScheduleItem[]>();
+  items.forEach(item => {
+    if (!item.sequenceId) return;
+    sequences.set(item.sequenceId, [...(sequences.get(item.sequenceId) || []), item]);
+  });
+
+  const links: DependencyLink[] = [];
+  sequences.forEach(sequence => {
+    const sorted = [...sequence].sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+    for (let i = 1; i < sorted.length; i++) {
+      links.push({ predecessorId: sorted[i - 1].id, successorId: sorted[i].id, type: 'finish-to-start', lagDays: 0 });
+    }
+  });
+  return links;
+}
+
+// ============================================================================
+// CASCADE
+// ============================================================================
+
+/**
+ * Plan the shifts that keep every dependent of a moved item valid
+ *
+ * @param items - Projects or phases (one kind), with their current dates
+ * @param dependencies - Dependencies of that kind
+ * @param movedId - The item that was moved or resized
+ * @param movedDates - Its new dates
+ * @returns Shifted dependents in the order they were reached (the moved item is not included)
+ */
+export function planDependencyCascade(
+  items: DependencyScheduleItem[],
+  dependencies: DependencyLink[],
+  movedId: string,
+  movedDates: Pick<DependencyScheduleItem, 'startDate' | 'endDate'>
+): DependencyShift[] {
+  const current = new Map(items.map(item => [item.id, { ...item }]));
+  const moved = current.get(movedId);
+  if (!moved) return [];
+  current.set(movedId, { ...moved, ...movedDates });
+
+  const links = [...dependencies, ...getSequenceLinks(items)];
+  const shifts = new Map<string, DependencyShift>();
+  const queue = [movedId];
+  // Dependents only move later, so the walk settles; the cap guards against cycles
+  let remainingSteps = (items.length + 1) * (links.length + 1);
+
+  while (queue.length > 0 && remainingSteps-- > 0) {
+    const predecessor = current.get(queue.shift()!)!;
+
+    links
+      .filter(link => link.predecessorId === predecessor.id && link.successorId !== movedId)
+      .forEach(link => {
+        const successor = current.get(link.successorId);
+        const earliestStart = calculateEarliestSuccessorStart(link, predecessor);
+        if (!successor || !earliestStart) return;
+
+        const successorStart = normalizeToMidnight(new Date(successor.startDate));
+        if (successorStart >= earliestStart) return;
+
+        // Shift both start and end dates
+        const daysToShift = Math.round((earliestStart.getTime() - successorStart.getTime()) / MS_PER_DAY);
+        const shifted = {
+          ...successor,
+          startDate: earliestStart,
+          endDate: successor.endDate ? addDaysToDate(new Date(successor.endDate), daysToShift) : undefined
+        };
+        current.set(successor.id, shifted);
+
+        const previous = shifts.get(successor.id);
+        shifts.set(successor.id, {
+          id: successor.id,
+          startDate: shifted.startDate,
+          endDate: shifted.endDate,
+          daysShifted: (previous?.daysShifted || 0) + daysToShift
+        });
+        queue.push(successor.id);
+      });
+  }
+
+  return [...shifts.values()];
+}
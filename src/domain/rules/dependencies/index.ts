@@ -0,0 +1,8 @@
+/**
+ * Dependency Domain Rules
+ * 
+ * Exports all project and phase dependency business rules:
+ * - DependencyCascade.ts - Dependency constraints and cascading date shifts
+ */
+
+export * from './DependencyCascade';
@@ -0,0 +1,174 @@
+/**
+ * Estimate Materialization Rules
+ *
+ * Turns a project's auto-estimated time for a day into concrete planned
+ * events placed in the free gaps of that day's work slots:
+ * - Gaps are work slot time not covered by any event (planned work, habits, meetings)
+ * - Blocks fill the earliest gaps first and sum to the estimate
+ * - Nothing is placed before `from` (today's estimate starts from now)
+ * - Never schedules more than the day's net availability
+ * - A week is planned day by day; each block is seen by the next plan
+ *
+ * @see CapacityAnalysis.ts - calculateNetAvailability() (work slots minus habits and
+ *      calculatePlannedTimeNotOverlappingHabits())
+ * @see DayEstimateAggregate.ts - Where the per-day estimates come from
+ */
+
+import type { CalendarEvent, Project, WorkHour } from '@/shared/types/core';
+import { calculateNetAvailability } from '@/domain/rules/availability/CapacityAnalysis';
+import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const MATERIALIZATION_CONFIG = {
+  MIN_GAP_MINUTES: 15, // Shorter gaps are too small to hold a block of work
+  MINUTE_MS: 60 * 1000
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TimeBlock {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface MaterializationRequest {
+  date: Date;
+  projectId: string;
+  hours: number;
+}
+
+export interface MaterializationPlan extends MaterializationRequest {
+  blocks: TimeBlock[];
+  scheduledHours: number;
+  unscheduledHours: number; // Did not fit in the day's free time
+}
+
+// ============================================================================
+// FREE TIME
+// ============================================================================
+
+/**
+ * Work slot time on a day that no event occupies
+ *
+ * Every event counts as occupied, whatever its category: planned and completed
+ * work, habits, tasks and non-project meetings. With `from`, time before it is
+ * not free.
+ */
+export function findFreeGaps(events: CalendarEvent[], workHours: WorkHour[], from?: Date): TimeBlock[] {
+  const { MIN_GAP_MINUTES, MINUTE_MS } = MATERIALIZATION_CONFIG;
+  const gaps: TimeBlock[] = [];
+
+  [...workHours]
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .forEach(slot => {
+      if (from && slot.endTime <= from) return;
+      const busy = events
+        .filter(event => event.startTime < slot.endTime && event.endTime > slot.startTime)
+        .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+      let cursor = from && from > slot.startTime ? from : slot.startTime;
+      busy.forEach(event => {
+        if (event.startTime > cursor) gaps.push({ startTime: cursor, endTime: event.startTime });
+        if (event.endTime > cursor) cursor = event.endTime;
+      });
+      if (cursor < slot.endTime) gaps.push({ startTime: cursor, endTime: slot.endTime });
+    });
+
+  return gaps.filter(gap => gap.endTime.getTime() - gap.startTime.getTime() >= MIN_GAP_MINUTES * MINUTE_MS);
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * Place one project's estimate for a day into that day's free gaps
+ *
+ * The estimate is rounded to whole minutes. Blocks start no earlier than
+ * `from`. What exceeds the day's net availability or its free gaps is
+ * reported as unscheduled.
+ */
+export function planEstimateMaterialization(
+  request: MaterializationRequest,
+  events: CalendarEvent[],
+  workHours: WorkHour[],
+  from: Date
+): MaterializationPlan {
+  const { MINUTE_MS } = MATERIALIZATION_CONFIG;
+  const netAvailability = Math.max(0, calculateNetAvailability(request.date, events, workHours));
+  let remainingMinutes = Math.round(Math.min(request.hours, netAvailability) * 60);
+  const blocks: TimeBlock[] = [];
+
+  for (const gap of findFreeGaps(events, workHours, from)) {
+    if (remainingMinutes <= 0) break;
+    const gapMinutes = Math.floor((gap.endTime.getTime() - gap.startTime.getTime()) / MINUTE_MS);
+    const minutes = Math.min(gapMinutes, remainingMinutes);
+    blocks.push({
+      startTime: new Date(gap.startTime),
+      endTime: new Date(gap.startTime.getTime() + minutes * MINUTE_MS)
+    });
+    remainingMinutes -= minutes;
+  }
+
+  const scheduledHours = blocks.reduce((sum, block) => sum + calculateDurationHours(block.startTime, block.endTime), 0);
+  return {
+    ...request,
+    blocks,
+    scheduledHours,
+    unscheduledHours: Math.max(0, request.hours - scheduledHours)
+  };
+}
+
+/**
+ * Plan several estimates (e.g. a whole week) without overlapping each other
+ *
+ * Requests are planned in the given order; blocks of earlier plans occupy
+ * time for later ones exactly like existing events do.
+ */
+export function planMaterializations(
+  requests: MaterializationRequest[],
+  events: CalendarEvent[],
+  getWorkHours: (date: Date) => WorkHour[],
+  from: Date
+): MaterializationPlan[] {
+  const occupied = [...events];
+
+  return requests.map(request => {
+    const plan = planEstimateMaterialization(request, occupied, getWorkHours(request.date), from);
+    plan.blocks.forEach((block, index) => {
+      occupied.push({
+        id: `materialized-${request.projectId}-${block.startTime.getTime()}-${index}`,
+        title: '',
+        startTime: block.startTime,
+        endTime: block.endTime,
+        projectId: request.projectId,
+        color: '',
+        category: 'event',
+        type: 'planned'
+      });
+    });
+    return plan;
+  });
+}
+
+/**
+ * Planned events for the blocks of a plan
+ */
+export function toPlannedEvents(plan: MaterializationPlan, project: Project): Omit<CalendarEvent, 'id'>[] {
+  return plan.blocks.map(block => ({
+    title: project.name,
+    startTime: block.startTime,
+    endTime: block.endTime,
+    duration: calculateDurationHours(block.startTime, block.endTime),
+    projectId: project.id,
+    color: project.color,
+    completed: false,
+    category: 'event',
+    type: 'planned'
+  }));
+}
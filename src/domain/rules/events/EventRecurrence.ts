@@ -0,0 +1,271 @@
+/**
+ * Event Recurrence Rules
+ *
+ * Pure recurrence logic for RRULE-based calendar events:
+ * - Timezone-aware expansion of a series into concrete occurrences
+ * - Applying deleted/modified instance exceptions (EXDATE / RECURRENCE-ID)
+ * - Stable per-day keys for calendar_event_exceptions.exception_date
+ * - A zone's offset changes, for the VTIMEZONE of exported series
+ *
+ * Occurrences are expanded on the wall clock of the series' IANA time zone and
+ * converted back to absolute instants, so a 09:00 Europe/Berlin meeting stays at
+ * 09:00 local time across daylight-saving changes. Without a time zone the
+ * series is expanded in UTC (the behaviour FullCalendar's rrule plugin uses).
+ *
+ * Uses rrule.js, same as PhaseRecurrence.
+ */
+
+import { RRule } from 'rrule';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type RecurrenceExceptionType = 'deleted' | 'modified';
+
+/**
+ * A single overridden or removed instance of a series
+ */
+export interface RecurrenceException {
+  originalStart: Date; // Start of the occurrence as generated by the RRULE
+  type: RecurrenceExceptionType;
+  modified?: {
+    title?: string;
+    description?: string;
+    startTime?: Date;
+    endTime?: Date;
+  };
+}
+
+export interface RecurringEventSeries {
+  startTime: Date; // DTSTART of the first occurrence
+  endTime: Date; // DTEND of the first occurrence
+  rrule: string; // RRULE value without the "RRULE:" prefix
+  timeZone?: string; // IANA zone the series recurs in
+  exceptions?: RecurrenceException[];
+}
+
+export interface RecurrenceOccurrence {
+  startTime: Date;
+  endTime: Date;
+  originalStart: Date;
+  isModified: boolean;
+  title?: string;
+  description?: string;
+}
+
+/** Hard cap on generated occurrences per expansion */
+export const MAX_RECURRENCE_OCCURRENCES = 1000;
+
+// ============================================================================
+// TIME ZONE HELPERS
+// ============================================================================
+
+/**
+ * Check that a time zone identifier is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string | undefined): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Represent an instant's wall-clock time in `timeZone` as a "floating" UTC date
+ * (e.g. 09:00 in Berlin → 09:00Z)
+ */
+export function toWallClock(instant: Date, timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return new Date(Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')));
+}
+
+/**
+ * Convert a floating wall-clock date back to the absolute instant in `timeZone`
+ * Wall-clock times skipped by a DST jump resolve to the later offset.
+ */
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  let instant = new Date(wallClock.getTime());
+  // Two passes settle the offset on both sides of a DST transition
+  for (let i = 0; i < 2; i++) {
+    const offsetMs = toWallClock(instant, timeZone).getTime() - instant.getTime();
+    instant = new Date(wallClock.getTime() - offsetMs);
+  }
+  return instant;
+}
+
+/**
+ * UTC offset of `timeZone` at an instant, in minutes (e.g. 60 for Berlin in winter)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  return Math.round((toWallClock(instant, timeZone).getTime() - instant.getTime()) / 60000);
+}
+
+export interface TimeZoneTransition {
+  at: Date; // First instant on the new offset
+  offsetFrom: number; // Minutes
+  offsetTo: number; // Minutes
+}
+
+/**
+ * Offset changes (DST and rule changes) of `timeZone` between two instants
+ * The zone is sampled weekly, so two changes less than a week apart collapse into one.
+ */
+export function getTimeZoneTransitions(timeZone: string, rangeStart: Date, rangeEnd: Date): TimeZoneTransition[] {
+  const MINUTE_MS = 60000;
+  const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+  const transitions: TimeZoneTransition[] = [];
+
+  let previous = Math.floor(rangeStart.getTime() / MINUTE_MS) * MINUTE_MS;
+  let previousOffset = getTimeZoneOffset(new Date(previous), timeZone);
+  while (previous < rangeEnd.getTime()) {
+    const sample = Math.min(previous + WEEK_MS, rangeEnd.getTime());
+    const offset = getTimeZoneOffset(new Date(sample), timeZone);
+    if (offset !== previousOffset) {
+      // Narrow the change down to the minute
+      let low = previous;
+      let high = sample;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.max(MINUTE_MS, Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS);
+        if (getTimeZoneOffset(new Date(middle), timeZone) === previousOffset) low = middle;
+        else high = middle;
+      }
+      transitions.push({ at: new Date(high), offsetFrom: previousOffset, offsetTo: offset });
+    }
+    previous = sample;
+    previousOffset = offset;
+  }
+  return transitions;
+}
+
+/**
+ * YYYY-MM-DD of an occurrence in the series' time zone
+ * Used as calendar_event_exceptions.exception_date (one exception per day)
+ */
+export function getOccurrenceDateKey(originalStart: Date, timeZone?: string): string {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  return toWallClock(originalStart, zone).toISOString().split('T')[0];
+}
+
+/**
+ * Two occurrence starts refer to the same instance (minute precision)
+ */
+export function isSameOccurrence(a: Date, b: Date): boolean {
+  return Math.floor(a.getTime() / 60000) === Math.floor(b.getTime() / 60000);
+}
+
+// ============================================================================
+// EXPANSION
+// ============================================================================
+
+/**
+ * Generate the raw RRULE occurrence starts (before exceptions) in a window
+ */
+function generateOccurrenceStarts(series: RecurringEventSeries, windowStart: Date, windowEnd: Date): Date[] {
+  const zone = isValidTimeZone(series.timeZone) ? series.timeZone : 'UTC';
+  const options = RRule.parseString(series.rrule.replace(/^RRULE:/i, ''));
+
+  // UNTIL is an absolute instant; move it onto the same floating wall clock as DTSTART
+  if (options.until) {
+    options.until = toWallClock(options.until, zone);
+  }
+
+  const rule = new RRule({
+    ...options,
+    dtstart: toWallClock(series.startTime, zone)
+  });
+
+  const starts: Date[] = [];
+  rule.between(toWallClock(windowStart, zone), toWallClock(windowEnd, zone), true, (date) => {
+    starts.push(fromWallClock(date, zone));
+    return starts.length < MAX_RECURRENCE_OCCURRENCES;
+  });
+  return starts;
+}
+
+/**
+ * Expand a recurring series into occurrences that overlap [rangeStart, rangeEnd]
+ *
+ * - Deleted exceptions (EXDATE, cancelled instances) are removed
+ * - Modified exceptions (RECURRENCE-ID overrides) replace their instance, and
+ *   are included when moved into the range from outside it
+ */
+export function expandRecurringEvent(
+  series: RecurringEventSeries,
+  rangeStart: Date,
+  rangeEnd: Date
+): RecurrenceOccurrence[] {
+  const durationMs = series.endTime.getTime() - series.startTime.getTime();
+  const exceptions = series.exceptions || [];
+  const findException = (originalStart: Date) =>
+    exceptions.find(ex => isSameOccurrence(ex.originalStart, originalStart));
+
+  // Start the window one duration early so occurrences that began before the range still overlap it
+  const starts = generateOccurrenceStarts(series, new Date(rangeStart.getTime() - durationMs), rangeEnd);
+  const occurrences: RecurrenceOccurrence[] = [];
+  const handled = new Set<RecurrenceException>();
+
+  const overlapsRange = (start: Date, end: Date) => start <= rangeEnd && end >= rangeStart;
+
+  for (const originalStart of starts) {
+    const exception = findException(originalStart);
+    if (exception) handled.add(exception);
+    if (exception?.type === 'deleted') continue;
+
+    const occurrence = buildOccurrence(originalStart, durationMs, exception);
+    if (overlapsRange(occurrence.startTime, occurrence.endTime)) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  // Modified instances moved into the range from an original slot outside it
+  for (const exception of exceptions) {
+    if (handled.has(exception) || exception.type !== 'modified') continue;
+    const occurrence = buildOccurrence(exception.originalStart, durationMs, exception);
+    if (overlapsRange(occurrence.startTime, occurrence.endTime)) {
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+function buildOccurrence(
+  originalStart: Date,
+  durationMs: number,
+  exception?: RecurrenceException
+): RecurrenceOccurrence {
+  const modified = exception?.type === 'modified' ? exception.modified : undefined;
+  const startTime = modified?.startTime ?? originalStart;
+  const endTime = modified?.endTime ?? new Date(startTime.getTime() + durationMs);
+
+  return {
+    startTime,
+    endTime,
+    originalStart,
+    isModified: !!modified,
+    ...(modified?.title !== undefined && { title: modified.title }),
+    ...(modified?.description !== undefined && { description: modified.description })
+  };
+}
+
+/**
+ * Whether any occurrence of the series overlaps the range
+ */
+export function hasOccurrenceInRange(series: RecurringEventSeries, rangeStart: Date, rangeEnd: Date): boolean {
+  return expandRecurringEvent(series, rangeStart, rangeEnd).length > 0;
+}
@@ -6,7 +6,9 @@
  */
 
 import { 
-  calculateDurationHours 
+  calculateDurationHours,
+  normalizeToMidnight,
+  addDaysToDate
 } from '@/presentation/utils/dateCalculations';
 import type { CalendarEvent } from '@/shared/types/core';
 
@@ -140,6 +142,43 @@ export function processEventOverlaps(
   };
 }
 
+/**
+ * Split an event that crosses midnight into one part per calendar day
+ *
+ * Parts keep the original event's data, get `${id}-split-${n}` IDs and carry
+ * `originalEventId`/`isSplitEvent`. Events within a single day are returned as-is.
+ */
+export function splitEventAtMidnight(event: Event): Event[] {
+  const eventStart = new Date(event.startTime);
+  const eventEnd = new Date(event.endTime);
+  const nextMidnight = addDaysToDate(normalizeToMidnight(new Date(eventStart)), 1);
+
+  if (eventEnd <= nextMidnight) {
+    return [event];
+  }
+
+  const parts: Event[] = [];
+  let partStart = eventStart;
+  let partEnd = nextMidnight;
+
+  while (partStart < eventEnd) {
+    const end = partEnd < eventEnd ? partEnd : eventEnd;
+    parts.push({
+      ...event,
+      id: `${event.id}-split-${parts.length}`,
+      startTime: new Date(partStart),
+      endTime: new Date(end),
+      duration: calculateDurationHours(partStart, end),
+      originalEventId: event.id,
+      isSplitEvent: true
+    });
+    partStart = partEnd;
+    partEnd = addDaysToDate(partEnd, 1);
+  }
+
+  return parts;
+}
+
 /**
  * Calculate elapsed time in hours
  */
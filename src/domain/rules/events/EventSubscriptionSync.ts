@@ -0,0 +1,171 @@
+/**
+ * Event Subscription Sync Rules
+ *
+ * Pure rules for recurring ICS feed subscriptions:
+ * - Diffing a freshly fetched feed against the snapshot from the previous sync
+ * - Deciding when a subscription is due for its next sync
+ * - Normalising and validating feed URLs
+ *
+ * Events are matched by UID. LAST-MODIFIED decides whether a known UID changed.
+ * The snapshot is persisted by the orchestrator in calendar_import_history.
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * Minimal shape of a feed event needed for diffing
+ */
+export interface SubscriptionFeedEvent {
+  externalId: string;
+  externalLastModified?: Date;
+}
+
+/**
+ * UID → LAST-MODIFIED (ISO string, or null when the feed omits it)
+ */
+export type SubscriptionSnapshot = Record<string, string | null>;
+
+export interface SubscriptionDiff<T extends SubscriptionFeedEvent> {
+  toCreate: T[];
+  toUpdate: T[];
+  unchanged: T[];
+  toDelete: string[]; // UIDs that disappeared from the feed
+}
+
+export interface FeedUrlValidation {
+  isValid: boolean;
+  normalizedUrl?: string;
+  error?: string;
+}
+
+/** Default re-fetch interval when a connection has no sync_frequency */
+export const DEFAULT_SUBSCRIPTION_SYNC_MINUTES = 60;
+
+/** Lower bound so a misconfigured connection cannot hammer the feed host */
+export const MIN_SUBSCRIPTION_SYNC_MINUTES = 15;
+
+// ============================================================================
+// SNAPSHOT & DIFF
+// ============================================================================
+
+/**
+ * Build the snapshot stored after a successful sync
+ */
+export function buildSubscriptionSnapshot(events: SubscriptionFeedEvent[]): SubscriptionSnapshot {
+  const snapshot: SubscriptionSnapshot = {};
+  for (const event of events) {
+    snapshot[event.externalId] = event.externalLastModified
+      ? event.externalLastModified.toISOString()
+      : null;
+  }
+  return snapshot;
+}
+
+/**
+ * Decide whether a known UID needs updating
+ *
+ * Without LAST-MODIFIED on either side we cannot prove the event is unchanged,
+ * so it is re-written.
+ */
+export function hasSubscriptionEventChanged(
+  previousLastModified: string | null | undefined,
+  incomingLastModified: Date | undefined
+): boolean {
+  if (!incomingLastModified || !previousLastModified) return true;
+  return incomingLastModified.getTime() > new Date(previousLastModified).getTime();
+}
+
+/**
+ * Diff the incoming feed against the previous snapshot
+ *
+ * - UID not in snapshot → create
+ * - UID in snapshot with newer LAST-MODIFIED → update
+ * - UID in snapshot but missing from feed → delete
+ *
+ * Duplicate UIDs in the feed are collapsed (last one wins).
+ */
+export function diffSubscriptionEvents<T extends SubscriptionFeedEvent>(
+  previous: SubscriptionSnapshot | null | undefined,
+  incoming: T[]
+): SubscriptionDiff<T> {
+  const known = previous || {};
+  const byUid = new Map<string, T>();
+  for (const event of incoming) {
+    if (!event.externalId) continue;
+    byUid.set(event.externalId, event);
+  }
+
+  const diff: SubscriptionDiff<T> = { toCreate: [], toUpdate: [], unchanged: [], toDelete: [] };
+
+  byUid.forEach((event, uid) => {
+    if (!(uid in known)) {
+      diff.toCreate.push(event);
+    } else if (hasSubscriptionEventChanged(known[uid], event.externalLastModified)) {
+      diff.toUpdate.push(event);
+    } else {
+      diff.unchanged.push(event);
+    }
+  });
+
+  for (const uid of Object.keys(known)) {
+    if (!byUid.has(uid)) diff.toDelete.push(uid);
+  }
+
+  return diff;
+}
+
+// ============================================================================
+// SCHEDULING
+// ============================================================================
+
+/**
+ * Effective sync interval in minutes, clamped to the allowed minimum
+ */
+export function getSubscriptionSyncInterval(frequencyMinutes: number | null | undefined): number {
+  if (!frequencyMinutes || frequencyMinutes <= 0) return DEFAULT_SUBSCRIPTION_SYNC_MINUTES;
+  return Math.max(frequencyMinutes, MIN_SUBSCRIPTION_SYNC_MINUTES);
+}
+
+/**
+ * A subscription is due when it has never synced or its interval has elapsed
+ */
+export function isSubscriptionSyncDue(
+  lastSyncAt: Date | null | undefined,
+  frequencyMinutes: number | null | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!lastSyncAt) return true;
+  const intervalMs = getSubscriptionSyncInterval(frequencyMinutes) * 60 * 1000;
+  return now.getTime() - lastSyncAt.getTime() >= intervalMs;
+}
+
+// ============================================================================
+// FEED URL
+// ============================================================================
+
+/**
+ * Validate a feed URL and normalise webcal:// to https://
+ */
+export function validateFeedUrl(rawUrl: string): FeedUrlValidation {
+  const trimmed = (rawUrl || '').trim();
+  if (!trimmed) {
+    return { isValid: false, error: 'Feed URL is required' };
+  }
+
+  const normalized = trimmed.replace(/^webcals?:\/\//i, 'https://');
+
+  let parsed: URL;
+  try {
+    parsed = new URL(normalized);
+  } catch {
+    return { isValid: false, error: 'Feed URL is not a valid URL' };
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return { isValid: false, error: 'Feed URL must use http, https or webcal' };
+  }
+
+  return { isValid: true, normalizedUrl: parsed.toString() };
+}
@@ -0,0 +1,205 @@
+/**
+ * Timesheet Rules
+ *
+ * A week-by-project matrix of logged hours for end-of-week catch-up:
+ * - A cell is the completed time logged for one project on one day
+ * - Changing a cell resizes, deletes or adds completed events of that
+ *   project and day; new time goes into the day's free work slot time
+ * - Day totals are compared with the day's work hours
+ *
+ * @see EstimateMaterialization.ts - findFreeGaps() (where new time is placed)
+ * @see DailyMetrics.ts - getWorkHoursForDay() (the day's capacity)
+ */
+
+import type { CalendarEvent, Project, WorkHour } from '@/shared/types/core';
+import { addDaysToDate, calculateDurationHours, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { findFreeGaps, type TimeBlock } from './EstimateMaterialization';
+import { EventClassificationRules } from './EventClassification';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const TIMESHEET_CONFIG = {
+  MAX_CELL_HOURS: 24,
+  DAYS_PER_WEEK: 7,
+  MINUTE_MS: 60 * 1000
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TimesheetRow {
+  projectId: string;
+  hours: number[]; // One entry per day
+  total: number;
+}
+
+export interface TimesheetGrid {
+  days: Date[];
+  rows: TimesheetRow[];
+  dayTotals: number[]; // All logged time of the day, including non-project time
+  total: number;
+}
+
+export interface TimesheetCellChange {
+  date: Date;
+  projectId: string;
+  hours: number;
+}
+
+export interface TimesheetCellPlan {
+  resize: { id: string; startTime: Date; endTime: Date; duration: number }[];
+  remove: string[];
+  add: TimeBlock[];
+  unplacedHours: number; // Did not fit in the day's free work slot time
+}
+
+export type TimesheetDayStatus = 'under' | 'full' | 'over';
+
+// ============================================================================
+// READING
+// ============================================================================
+
+/**
+ * Logged time: completed events, except a tracking session still running
+ * Habits and tasks are not timesheet time.
+ */
+export function isLoggedTime(event: CalendarEvent): boolean {
+  return EventClassificationRules.isCompletedTime(event)
+    && event.type !== 'tracked'
+    && (event.category ?? 'event') === 'event';
+}
+
+const isSameDay = (a: Date, b: Date) => normalizeToMidnight(a).getTime() === normalizeToMidnight(b).getTime();
+
+/**
+ * The logged events of one cell, earliest first
+ */
+export function getTimesheetCellEvents(events: CalendarEvent[], date: Date, projectId: string): CalendarEvent[] {
+  return events
+    .filter(event => event.projectId === projectId && isLoggedTime(event) && isSameDay(new Date(event.startTime), date))
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+}
+
+const sumHours = (events: CalendarEvent[]) =>
+  events.reduce((sum, event) => sum + calculateDurationHours(new Date(event.startTime), new Date(event.endTime)), 0);
+
+/**
+ * Hours matrix for the week starting at weekStart
+ * Rows are the given projects plus any project with logged time that week.
+ */
+export function buildTimesheetGrid(events: CalendarEvent[], weekStart: Date, projectIds: string[] = []): TimesheetGrid {
+  const start = normalizeToMidnight(weekStart);
+  const days = Array.from({ length: TIMESHEET_CONFIG.DAYS_PER_WEEK }, (_, i) => addDaysToDate(start, i));
+  const end = addDaysToDate(start, TIMESHEET_CONFIG.DAYS_PER_WEEK);
+  const logged = events.filter(event => {
+    const eventStart = new Date(event.startTime);
+    return isLoggedTime(event) && eventStart >= start && eventStart < end;
+  });
+
+  const rowIds = [...projectIds];
+  logged.forEach(event => {
+    if (event.projectId && !rowIds.includes(event.projectId)) rowIds.push(event.projectId);
+  });
+
+  const rows = rowIds.map(projectId => {
+    const hours = days.map(day => sumHours(getTimesheetCellEvents(logged, day, projectId)));
+    return { projectId, hours, total: hours.reduce((sum, h) => sum + h, 0) };
+  });
+  const dayTotals = days.map(day => sumHours(logged.filter(event => isSameDay(new Date(event.startTime), day))));
+
+  return { days, rows, dayTotals, total: dayTotals.reduce((sum, h) => sum + h, 0) };
+}
+
+/**
+ * Compare a day's logged hours with its work hours
+ */
+export function getTimesheetDayStatus(loggedHours: number, workHours: number): TimesheetDayStatus {
+  const loggedMinutes = Math.round(loggedHours * 60);
+  const workMinutes = Math.round(workHours * 60);
+  if (loggedMinutes > workMinutes) return 'over';
+  return loggedMinutes === workMinutes ? 'full' : 'under';
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+export function validateTimesheetHours(hours: number): string | null {
+  if (!Number.isFinite(hours) || hours < 0) return 'Hours must be zero or more';
+  if (hours > TIMESHEET_CONFIG.MAX_CELL_HOURS) return `Hours cannot exceed ${TIMESHEET_CONFIG.MAX_CELL_HOURS}`;
+  return null;
+}
+
+/**
+ * Event changes that make a cell hold the requested hours
+ *
+ * Less time: the latest entries shrink or go first. More time: the day's free
+ * work slot gaps fill from the earliest; a gap right after an entry extends it.
+ * Hours are rounded to whole minutes.
+ */
+export function planTimesheetCellChange(
+  change: TimesheetCellChange,
+  events: CalendarEvent[],
+  workHours: WorkHour[]
+): TimesheetCellPlan {
+  const { MINUTE_MS } = TIMESHEET_CONFIG;
+  const cellEvents = getTimesheetCellEvents(events, change.date, change.projectId);
+  const currentMinutes = Math.round(sumHours(cellEvents) * 60);
+  const plan: TimesheetCellPlan = { resize: [], remove: [], add: [], unplacedHours: 0 };
+  let delta = Math.round(change.hours * 60) - currentMinutes;
+
+  // Less time: trim from the end of the day
+  for (const event of [...cellEvents].reverse()) {
+    if (delta >= 0) break;
+    const start = new Date(event.startTime);
+    const minutes = Math.round((new Date(event.endTime).getTime() - start.getTime()) / MINUTE_MS);
+    if (minutes <= -delta) {
+      plan.remove.push(event.id);
+      delta += minutes;
+    } else {
+      const endTime = new Date(start.getTime() + (minutes + delta) * MINUTE_MS);
+      plan.resize.push({ id: event.id, startTime: start, endTime, duration: calculateDurationHours(start, endTime) });
+      delta = 0;
+    }
+  }
+
+  // More time: fill free work slot time
+  for (const gap of findFreeGaps(events, workHours)) {
+    if (delta <= 0) break;
+    const gapMinutes = Math.floor((gap.endTime.getTime() - gap.startTime.getTime()) / MINUTE_MS);
+    const minutes = Math.min(gapMinutes, delta);
+    const endTime = new Date(gap.startTime.getTime() + minutes * MINUTE_MS);
+    const adjoining = cellEvents.find(event => new Date(event.endTime).getTime() === gap.startTime.getTime());
+
+    if (adjoining && !plan.resize.some(r => r.id === adjoining.id)) {
+      const startTime = new Date(adjoining.startTime);
+      plan.resize.push({ id: adjoining.id, startTime, endTime, duration: calculateDurationHours(startTime, endTime) });
+    } else {
+      plan.add.push({ startTime: new Date(gap.startTime), endTime });
+    }
+    delta -= minutes;
+  }
+
+  plan.unplacedHours = Math.max(0, delta) / 60;
+  return plan;
+}
+
+/**
+ * Completed events for added timesheet time
+ */
+export function toTimesheetEvents(blocks: TimeBlock[], project: Project): Omit<CalendarEvent, 'id'>[] {
+  return blocks.map(block => ({
+    title: project.name,
+    startTime: block.startTime,
+    endTime: block.endTime,
+    duration: calculateDurationHours(block.startTime, block.endTime),
+    projectId: project.id,
+    color: project.color,
+    completed: true,
+    category: 'event',
+    type: 'completed'
+  }));
+}
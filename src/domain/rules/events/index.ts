@@ -9,11 +9,16 @@
  * Structure:
  * - EventValidation.ts - Core validation logic (from CalendarEventRules.ts)
  * - EventClassification.ts - Planned vs completed logic (from EventClassificationRules.ts)
- * - EventRecurrence.ts - Recurring event logic (TODO: extract from unified services)
+ * - EventSubscriptionSync.ts - ICS feed subscription diffing and scheduling
+ * - EventRecurrence.ts - RRULE expansion, time zones and instance exceptions
+ * - EstimateMaterialization.ts - Auto-estimates into planned events in free work slot time
+ * - Timesheet.ts - Week-by-project logged hours and cell edits
  */
 
 // Re-export all event rules
 export * from './EventValidation';
 export * from './EventClassification';
-
-// TODO: Create EventRecurrence.ts for recurring event logic
+export * from './EventSubscriptionSync';
+export * from './EventRecurrence';
+export * from './EstimateMaterialization';
+export * from './Timesheet';
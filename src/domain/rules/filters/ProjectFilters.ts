@@ -0,0 +1,259 @@
+/**
+ * Project Filter and Grouping Rules
+ *
+ * Saved filters narrow the projects every view works with:
+ * - A query lists clients, labels and statuses
+ * - A project matches a field when it has any of the listed values
+ * - Every non-empty field must match; an empty query matches everything
+ *
+ * Grouping splits projects into sections (timeline rows, timesheet sections,
+ * overview lists) by group, client, label or status. A project sits in exactly
+ * one section: with several labels it goes under the first by label name, so
+ * bars and hours are never shown twice.
+ *
+ * Filters are stored as JSON, so queries read from the database are normalized
+ * before use.
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see src/presentation/contexts/ProjectFilterContext.tsx - The shared active filter
+ */
+
+import type { Client, Group, Label, Project, ProjectFilterQuery, ProjectStatus, SavedFilter } from '@/shared/types/core';
+import { getEffectiveProjectStatus } from '../projects/ProjectMetrics';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type ProjectGrouping = 'group' | 'client' | 'label' | 'status';
+
+/**
+ * Names and memberships needed to classify projects
+ */
+export interface ProjectClassificationSources {
+  groups: Array<Pick<Group, 'id' | 'name'>>;
+  clients: Array<Pick<Client, 'id' | 'name'>>;
+  labels: Array<Pick<Label, 'id' | 'name' | 'color'>>;
+  labelIdsByProject: Map<string, string[]>;
+}
+
+export interface ProjectSection {
+  id: string; // Group id when grouping by group, otherwise "{grouping}:{key}"
+  name: string;
+  grouping: ProjectGrouping;
+  color?: string;
+  projects: Project[];
+}
+
+export interface SavedFilterValidation {
+  isValid: boolean;
+  errors: string[];
+}
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PROJECT_FILTER_CONFIG = {
+  MAX_NAME_LENGTH: 60,
+  NO_CLIENT_KEY: 'none',
+  NO_LABEL_KEY: 'none'
+} as const;
+
+export const PROJECT_GROUPING_LABELS: Record<ProjectGrouping, string> = {
+  group: 'Group',
+  client: 'Client',
+  label: 'Label',
+  status: 'Status'
+};
+
+// Overview wording: current projects are "active", archived ones "past"
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  current: 'Active',
+  future: 'Future',
+  archived: 'Past'
+};
+
+const STATUS_ORDER: ProjectStatus[] = ['current', 'future', 'archived'];
+
+export const EMPTY_PROJECT_FILTER: ProjectFilterQuery = { clientIds: [], labelIds: [], statuses: [] };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const byName = <T extends { name: string }>(a: T, b: T) => a.name.localeCompare(b.name);
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? [...new Set(value.filter((item): item is string => typeof item === 'string'))] : [];
+
+/**
+ * The labels of a project that still exist, ordered by name
+ */
+function getProjectLabels(
+  projectId: string,
+  sources: Pick<ProjectClassificationSources, 'labels' | 'labelIdsByProject'>
+): Array<Pick<Label, 'id' | 'name' | 'color'>> {
+  const labelIds = sources.labelIdsByProject.get(projectId) ?? [];
+  return sources.labels.filter(label => labelIds.includes(label.id)).sort(byName);
+}
+
+// ============================================================================
+// FILTER QUERIES
+// ============================================================================
+
+/**
+ * Read a query stored as JSON, dropping unknown fields and values
+ */
+export function normalizeProjectFilterQuery(value: unknown): ProjectFilterQuery {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  return {
+    clientIds: toStringList(raw.clientIds),
+    labelIds: toStringList(raw.labelIds),
+    statuses: toStringList(raw.statuses).filter((status): status is ProjectStatus =>
+      STATUS_ORDER.includes(status as ProjectStatus)
+    )
+  };
+}
+
+export function isProjectFilterEmpty(query: ProjectFilterQuery): boolean {
+  return query.clientIds.length === 0 && query.labelIds.length === 0 && query.statuses.length === 0;
+}
+
+/**
+ * Check a project against a query
+ */
+export function matchesProjectFilter(
+  project: Project,
+  query: ProjectFilterQuery,
+  labelIdsByProject: Map<string, string[]>
+): boolean {
+  if (query.clientIds.length > 0 && !query.clientIds.includes(project.clientId)) {
+    return false;
+  }
+  if (query.labelIds.length > 0) {
+    const labelIds = labelIdsByProject.get(project.id) ?? [];
+    if (!labelIds.some(labelId => query.labelIds.includes(labelId))) return false;
+  }
+  if (query.statuses.length > 0 && !query.statuses.includes(getEffectiveProjectStatus(project))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Projects matching a query (all projects when there is no query)
+ */
+export function filterProjects(
+  projects: Project[],
+  query: ProjectFilterQuery | null,
+  labelIdsByProject: Map<string, string[]>
+): Project[] {
+  if (!query || isProjectFilterEmpty(query)) return projects;
+  return projects.filter(project => matchesProjectFilter(project, query, labelIdsByProject));
+}
+
+/**
+ * Validate a saved filter (name required, short and unique; query not empty)
+ */
+export function validateSavedFilter(
+  name: string,
+  query: ProjectFilterQuery,
+  existing: Array<Pick<SavedFilter, 'id' | 'name'>>,
+  ownId?: string
+): SavedFilterValidation {
+  const errors: string[] = [];
+  const trimmed = name.trim();
+
+  if (!trimmed) {
+    errors.push('Filter name is required');
+  } else if (trimmed.length > PROJECT_FILTER_CONFIG.MAX_NAME_LENGTH) {
+    errors.push(`Filter name must be ${PROJECT_FILTER_CONFIG.MAX_NAME_LENGTH} characters or less`);
+  } else if (existing.some(filter => filter.id !== ownId && filter.name.trim().toLowerCase() === trimmed.toLowerCase())) {
+    errors.push(`A filter named "${trimmed}" already exists`);
+  }
+
+  if (isProjectFilterEmpty(query)) {
+    errors.push('Pick at least one client, label or status');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+/**
+ * Split projects into sections, keeping the given project order within each
+ *
+ * - group: every group in its own order, including empty ones (projects of
+ *   unknown groups are left out, as on the timeline)
+ * - client: clients by name, then "No client"
+ * - label: labels by name, then "No label"; a project goes under its first label
+ * - status: Active, Future, Past
+ *
+ * Only group sections are kept when empty.
+ */
+export function groupProjects(
+  projects: Project[],
+  grouping: ProjectGrouping,
+  sources: ProjectClassificationSources
+): ProjectSection[] {
+  if (grouping === 'group') {
+    return sources.groups.map(group => ({
+      id: group.id,
+      name: group.name,
+      grouping,
+      projects: projects.filter(project => project.groupId === group.id)
+    }));
+  }
+
+  const sections = new Map<string, ProjectSection>();
+  const addTo = (key: string, name: string, project: Project, color?: string) => {
+    const id = `${grouping}:${key}`;
+    const section = sections.get(id) ?? { id, name, grouping, color, projects: [] };
+    section.projects.push(project);
+    sections.set(id, section);
+  };
+
+  if (grouping === 'status') {
+    projects.forEach(project => {
+      const status = getEffectiveProjectStatus(project);
+      addTo(status, PROJECT_STATUS_LABELS[status], project);
+    });
+    return STATUS_ORDER
+      .map(status => sections.get(`status:${status}`))
+      .filter((section): section is ProjectSection => !!section);
+  }
+
+  if (grouping === 'client') {
+    const clientsById = new Map(sources.clients.map(client => [client.id, client]));
+    projects.forEach(project => {
+      const client = clientsById.get(project.clientId);
+      if (client) {
+        addTo(client.id, client.name, project);
+      } else if (project.client) {
+        // Legacy projects only carry the client name
+        addTo(`name:${project.client.toLowerCase()}`, project.client, project);
+      } else {
+        addTo(PROJECT_FILTER_CONFIG.NO_CLIENT_KEY, 'No client', project);
+      }
+    });
+  } else {
+    projects.forEach(project => {
+      const [label] = getProjectLabels(project.id, sources);
+      if (label) {
+        addTo(label.id, label.name, project, label.color);
+      } else {
+        addTo(PROJECT_FILTER_CONFIG.NO_LABEL_KEY, 'No label', project);
+      }
+    });
+  }
+
+  const noneId = `${grouping}:none`;
+  const named = [...sections.values()].filter(section => section.id !== noneId).sort(byName);
+  const none = sections.get(noneId);
+  return none ? [...named, none] : named;
+}
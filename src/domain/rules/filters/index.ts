@@ -0,0 +1,8 @@
+/**
+ * Filter Domain Rules
+ * 
+ * Exports all project filter business rules:
+ * - ProjectFilters.ts - Saved client/label/status queries and view grouping
+ */
+
+export * from './ProjectFilters';
@@ -0,0 +1,296 @@
+/**
+ * Habit Adherence Rules
+ *
+ * Streaks and adherence for habits (calendar events with category 'habit'):
+ * - Events with the same title (case-insensitive) are one habit
+ * - A session counts when it is done (completed, tracked or completed type)
+ * - A target sets the goal per period: e.g. 3 sessions per week, 30 minutes daily
+ * - Without a target, every day the habit was scheduled is a period that is met
+ *   by doing at least one session that day
+ * - The period containing the reference date is still in progress: it extends
+ *   a streak once met, but never breaks one
+ *
+ * @see EventClassification.ts - isCompletedTime() (what counts as done)
+ */
+
+import type { CalendarEvent, HabitTarget } from '@/shared/types/core';
+import { EventClassificationRules } from '@/domain/rules/events/EventClassification';
+import { getWeekStart } from '@/domain/rules/availability/WorkHourGeneration';
+import { addDaysToDate, calculateDurationMinutes, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const HABIT_ADHERENCE_CONFIG = {
+  HISTORY_WEEKS: 12, // Default range for heatmaps and streaks
+  MAX_SESSIONS_PER_DAY: 24,
+  MAX_MINUTES_PER_DAY: 24 * 60
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type HabitGoal = Pick<HabitTarget, 'frequency' | 'metric' | 'target'>;
+
+export interface HabitDay {
+  date: Date;
+  dateKey: string;
+  scheduledSessions: number; // All of the habit's events starting that day
+  sessions: number; // Done sessions
+  minutes: number; // Minutes of done sessions
+}
+
+export interface HabitPeriod {
+  start: Date;
+  end: Date; // Last day of the period (midnight)
+  sessions: number;
+  minutes: number;
+  progress: number; // 0-1 toward the goal
+  achieved: boolean;
+  inProgress: boolean; // Contains the reference date
+}
+
+export interface HabitStreak {
+  current: number; // Consecutive met periods up to the reference date
+  longest: number;
+  unit: 'day' | 'week';
+}
+
+export interface HabitSummary {
+  habitKey: string;
+  habitName: string;
+  goal?: HabitGoal;
+  days: HabitDay[]; // Every day of the range, oldest first
+  periods: HabitPeriod[];
+  streak: HabitStreak;
+  adherence: number; // 0-1: met periods / periods that count
+}
+
+export interface HabitValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+// ============================================================================
+// IDENTITY & SESSIONS
+// ============================================================================
+
+/**
+ * Key shared by every event of a habit
+ */
+export function getHabitKey(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+export function isHabitEvent(event: CalendarEvent): boolean {
+  return event.category === 'habit';
+}
+
+/**
+ * Habit events grouped by habit key
+ */
+export function groupHabitEvents(events: CalendarEvent[]): Map<string, CalendarEvent[]> {
+  const groups = new Map<string, CalendarEvent[]>();
+  events.filter(isHabitEvent).forEach(event => {
+    const key = getHabitKey(event.title);
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  });
+  return groups;
+}
+
+/**
+ * Validate a habit target before saving
+ */
+export function validateHabitGoal(goal: HabitGoal): HabitValidationResult {
+  const errors: string[] = [];
+  const { MAX_SESSIONS_PER_DAY, MAX_MINUTES_PER_DAY } = HABIT_ADHERENCE_CONFIG;
+
+  if (!Number.isFinite(goal.target) || goal.target <= 0) {
+    errors.push('Target must be greater than zero');
+  } else {
+    const perDay = goal.metric === 'sessions' ? MAX_SESSIONS_PER_DAY : MAX_MINUTES_PER_DAY;
+    const max = goal.frequency === 'daily' ? perDay : perDay * 7;
+    if (goal.target > max) {
+      errors.push(`Target cannot exceed ${max} ${goal.metric} per ${goal.frequency === 'daily' ? 'day' : 'week'}`);
+    }
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// DAYS & PERIODS
+// ============================================================================
+
+/**
+ * One entry per day from rangeStart to rangeEnd (inclusive)
+ */
+export function calculateHabitDays(events: CalendarEvent[], rangeStart: Date, rangeEnd: Date): HabitDay[] {
+  const byDate = new Map<string, CalendarEvent[]>();
+  events.forEach(event => {
+    const key = getDateKey(new Date(event.startTime));
+    byDate.set(key, [...(byDate.get(key) ?? []), event]);
+  });
+
+  const days: HabitDay[] = [];
+  const last = normalizeToMidnight(new Date(rangeEnd));
+  for (let date = normalizeToMidnight(new Date(rangeStart)); date <= last; date = addDaysToDate(date, 1)) {
+    const dateKey = getDateKey(date);
+    const dayEvents = byDate.get(dateKey) ?? [];
+    const done = dayEvents.filter(event => EventClassificationRules.isCompletedTime(event));
+    days.push({
+      date,
+      dateKey,
+      scheduledSessions: dayEvents.length,
+      sessions: done.length,
+      minutes: done.reduce((sum, event) => sum + calculateDurationMinutes(new Date(event.startTime), new Date(event.endTime)), 0)
+    });
+  }
+  return days;
+}
+
+/**
+ * Group days into goal periods (days or Monday-based weeks)
+ */
+export function calculateHabitPeriods(days: HabitDay[], goal: HabitGoal | undefined, referenceDate: Date): HabitPeriod[] {
+  const today = getDateKey(referenceDate);
+
+  if (!goal) {
+    return days
+      .filter(day => day.scheduledSessions > 0 && day.dateKey <= today)
+      .map(day => ({
+        start: day.date,
+        end: day.date,
+        sessions: day.sessions,
+        minutes: day.minutes,
+        progress: day.sessions > 0 ? 1 : 0,
+        achieved: day.sessions > 0,
+        inProgress: day.dateKey === today
+      }));
+  }
+
+  const groups = new Map<string, HabitDay[]>();
+  days
+    .filter(day => day.dateKey <= today)
+    .forEach(day => {
+      const key = goal.frequency === 'daily' ? day.dateKey : getDateKey(getWeekStart(day.date));
+      groups.set(key, [...(groups.get(key) ?? []), day]);
+    });
+
+  return Array.from(groups.values()).map(periodDays => {
+    const sessions = periodDays.reduce((sum, day) => sum + day.sessions, 0);
+    const minutes = periodDays.reduce((sum, day) => sum + day.minutes, 0);
+    const value = goal.metric === 'sessions' ? sessions : minutes;
+    const start = goal.frequency === 'daily' ? periodDays[0].date : getWeekStart(periodDays[0].date);
+    const end = goal.frequency === 'daily' ? periodDays[0].date : addDaysToDate(start, 6);
+    return {
+      start,
+      end,
+      sessions,
+      minutes,
+      progress: Math.min(1, value / goal.target),
+      achieved: value >= goal.target,
+      inProgress: today >= getDateKey(start) && today <= getDateKey(end)
+    };
+  });
+}
+
+// ============================================================================
+// STREAKS & ADHERENCE
+// ============================================================================
+
+/**
+ * Current and longest run of met periods
+ * An unmet period that is still in progress does not break the current streak.
+ */
+export function calculateHabitStreak(periods: HabitPeriod[], unit: HabitStreak['unit']): HabitStreak {
+  let longest = 0;
+  let run = 0;
+  periods.forEach(period => {
+    run = period.achieved ? run + 1 : 0;
+    longest = Math.max(longest, run);
+  });
+
+  let current = 0;
+  for (let index = periods.length - 1; index >= 0; index--) {
+    const period = periods[index];
+    if (period.achieved) {
+      current++;
+    } else if (!period.inProgress) {
+      break;
+    }
+  }
+
+  return { current, longest, unit };
+}
+
+/**
+ * Share of periods in which the goal was met (0-1)
+ * An unmet period still in progress is left out.
+ */
+export function calculateHabitAdherence(periods: HabitPeriod[]): number {
+  const counted = periods.filter(period => period.achieved || !period.inProgress);
+  if (counted.length === 0) return 0;
+  return counted.filter(period => period.achieved).length / counted.length;
+}
+
+/**
+ * Heatmap days, periods, streak and adherence for one habit
+ */
+export function summarizeHabit(
+  habitName: string,
+  events: CalendarEvent[],
+  goal: HabitGoal | undefined,
+  rangeStart: Date,
+  referenceDate: Date
+): HabitSummary {
+  const days = calculateHabitDays(events, rangeStart, referenceDate);
+  const periods = calculateHabitPeriods(days, goal, referenceDate);
+  return {
+    habitKey: getHabitKey(habitName),
+    habitName,
+    goal,
+    days,
+    periods,
+    streak: calculateHabitStreak(periods, goal?.frequency === 'weekly' ? 'week' : 'day'),
+    adherence: calculateHabitAdherence(periods)
+  };
+}
+
+/**
+ * Summaries for every habit with events in the range or a target
+ * Habits are named after their most recent event; sorted by name.
+ */
+export function summarizeHabits(
+  events: CalendarEvent[],
+  targets: HabitTarget[],
+  referenceDate: Date = new Date(),
+  rangeStart: Date = addDaysToDate(getWeekStart(referenceDate), -7 * (HABIT_ADHERENCE_CONFIG.HISTORY_WEEKS - 1))
+): HabitSummary[] {
+  const rangeEnd = addDaysToDate(normalizeToMidnight(new Date(referenceDate)), 1);
+  const inRange = events.filter(event => {
+    const start = new Date(event.startTime);
+    return start >= rangeStart && start < rangeEnd;
+  });
+  const groups = groupHabitEvents(inRange);
+  const targetsByKey = new Map(targets.map(target => [getHabitKey(target.habitName), target]));
+
+  targetsByKey.forEach((_, key) => {
+    if (!groups.has(key)) groups.set(key, []);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, habitEvents]) => {
+      const latest = habitEvents.reduce<CalendarEvent | undefined>(
+        (last, event) => (!last || new Date(event.startTime) > new Date(last.startTime) ? event : last),
+        undefined
+      );
+      const target = targetsByKey.get(key);
+      const name = latest?.title.trim() ?? target?.habitName ?? key;
+      return summarizeHabit(name, habitEvents, target, rangeStart, referenceDate);
+    })
+    .sort((a, b) => a.habitName.localeCompare(b.habitName));
+}
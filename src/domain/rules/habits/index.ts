@@ -0,0 +1,8 @@
+/**
+ * Habit Domain Rules
+ * 
+ * Exports all habit business rules:
+ * - HabitAdherence.ts - Habit targets, streaks, adherence and heatmap days
+ */
+
+export * from './HabitAdherence';
@@ -0,0 +1,138 @@
+/**
+ * Holiday Capacity Rules
+ *
+ * A holiday removes a day's work hours unless it is a partial day:
+ * - capacityFraction: share of the normal work hours still available (0.5 = half day)
+ * - availableHours: explicit hours still available (reduced hours during school holidays)
+ *
+ * At most one of the two is set. Where holidays overlap, the one leaving the
+ * least time wins.
+ *
+ * @see CapacityAnalysis.ts - calculateWorkHourCapacityWithHolidays()
+ * @see DailyMetrics.ts - getWorkHoursForDay()
+ * @see DayEstimate.ts - auto-estimate distribution
+ */
+
+import type { Holiday, WorkHour } from '@/shared/types/core';
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const HOLIDAY_CAPACITY_CONFIG = {
+  MAX_AVAILABLE_HOURS: 24,
+  HALF_DAY_FRACTION: 0.5
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type HolidayCapacityInput = Pick<Holiday, 'capacityFraction' | 'availableHours'>;
+
+type HolidayOnDate = Pick<Holiday, 'startDate' | 'endDate'> & HolidayCapacityInput;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * True when some work time is left on the holiday's days
+ */
+export function isPartialHoliday(holiday: HolidayCapacityInput): boolean {
+  return (holiday.capacityFraction ?? 0) > 0 || (holiday.availableHours ?? 0) > 0;
+}
+
+export function getHolidaysOnDate<T extends HolidayOnDate>(date: Date, holidays: T[]): T[] {
+  const day = normalizeToMidnight(new Date(date)).getTime();
+  return holidays.filter(holiday =>
+    day >= normalizeToMidnight(new Date(holiday.startDate)).getTime()
+    && day <= normalizeToMidnight(new Date(holiday.endDate)).getTime()
+  );
+}
+
+/**
+ * Work hours left on a date after its holidays
+ *
+ * @param normalHours - The day's work hours without holidays
+ * @returns null when the date is not a holiday
+ */
+export function getHolidayAvailableHours(date: Date, holidays: HolidayOnDate[], normalHours: number): number | null {
+  const onDate = getHolidaysOnDate(date, holidays);
+  if (onDate.length === 0) return null;
+
+  return Math.min(...onDate.map(holiday => {
+    if ((holiday.availableHours ?? 0) > 0) return Math.min(holiday.availableHours!, normalHours);
+    if ((holiday.capacityFraction ?? 0) > 0) return normalHours * Math.min(holiday.capacityFraction!, 1);
+    return 0;
+  }));
+}
+
+/**
+ * True when a holiday removes the whole day (no partial-day holiday)
+ */
+export function isFullHolidayDate(date: Date, holidays: HolidayOnDate[]): boolean {
+  return getHolidaysOnDate(date, holidays).some(holiday => !isPartialHoliday(holiday));
+}
+
+/**
+ * Share of a day's normal work hours still available: 1 on normal days, 0 on full holidays
+ */
+export function getHolidayCapacityFactor(date: Date, holidays: HolidayOnDate[], normalHours: number): number {
+  if (normalHours <= 0) return 0;
+  const available = getHolidayAvailableHours(date, holidays, normalHours);
+  return available === null ? 1 : available / normalHours;
+}
+
+/**
+ * Trim a day's work slots to the hours still available, cutting from the end of the day
+ */
+export function limitWorkHoursToAvailable(workHours: WorkHour[], availableHours: number): WorkHour[] {
+  let remainingMinutes = Math.round(availableHours * 60);
+  const sorted = [...workHours].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  return sorted.flatMap(workHour => {
+    if (remainingMinutes <= 0) return [];
+    const minutes = Math.round(workHour.duration * 60);
+    if (minutes <= remainingMinutes) {
+      remainingMinutes -= minutes;
+      return [workHour];
+    }
+    const endTime = new Date(workHour.startTime.getTime() + remainingMinutes * 60000);
+    const trimmed = { ...workHour, endTime, duration: remainingMinutes / 60 };
+    remainingMinutes = 0;
+    return [trimmed];
+  });
+}
+
+// ============================================================================
+// VALIDATION & DISPLAY
+// ============================================================================
+
+export function validateHolidayCapacity(input: HolidayCapacityInput): string[] {
+  const errors: string[] = [];
+  const { capacityFraction, availableHours } = input;
+
+  if (capacityFraction !== undefined && availableHours !== undefined) {
+    errors.push('Set either a capacity fraction or available hours, not both');
+  }
+  if (capacityFraction !== undefined && (!Number.isFinite(capacityFraction) || capacityFraction < 0 || capacityFraction >= 1)) {
+    errors.push('Capacity fraction must be at least 0 and less than 1');
+  }
+  if (availableHours !== undefined && (!Number.isFinite(availableHours) || availableHours < 0 || availableHours > HOLIDAY_CAPACITY_CONFIG.MAX_AVAILABLE_HOURS)) {
+    errors.push(`Available hours must be between 0 and ${HOLIDAY_CAPACITY_CONFIG.MAX_AVAILABLE_HOURS}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Short label for a partial day, e.g. "½ day", "25%" or "4h"; null for a day off
+ */
+export function formatHolidayCapacity(holiday: HolidayCapacityInput): string | null {
+  if (!isPartialHoliday(holiday)) return null;
+  if ((holiday.availableHours ?? 0) > 0) return `${Math.round(holiday.availableHours! * 100) / 100}h`;
+  if (holiday.capacityFraction === HOLIDAY_CAPACITY_CONFIG.HALF_DAY_FRACTION) return '½ day';
+  return `${Math.round(holiday.capacityFraction! * 100)}%`;
+}
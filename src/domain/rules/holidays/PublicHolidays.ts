@@ -0,0 +1,305 @@
+/**
+ * Public Holiday Rules
+ *
+ * Bundled public holiday calendars, computed offline for any year:
+ * - Fixed dates (1 January), optionally moved off weekends
+ * - Easter-relative dates (Good Friday = Easter - 2)
+ * - Nth-weekday dates (4th Thursday of November, last Monday of May,
+ *   first Monday on or after 18 May)
+ *
+ * Regional rules only apply when that region is chosen. One-off holidays
+ * (royal events, jubilees) are not part of the rule sets.
+ *
+ * @see HolidayOrchestrator.importPublicHolidaysWorkflow() - creates Holiday records
+ */
+
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * How a holiday falling on a weekend is observed
+ * - substitute: next weekday not already a holiday (UK substitute days)
+ * - nearest-weekday: Saturday → Friday, Sunday → Monday (US federal)
+ * - saturday-if-sunday: Sunday → Saturday before (Dutch King's Day)
+ */
+export type PublicHolidayObservance = 'substitute' | 'nearest-weekday' | 'saturday-if-sunday';
+
+interface PublicHolidayRuleBase {
+  name: string;
+  regions?: string[]; // Only these regions; omitted = nationwide
+  fromYear?: number; // First year the holiday exists
+  observance?: PublicHolidayObservance;
+}
+
+export type PublicHolidayRule = PublicHolidayRuleBase & (
+  | { type: 'fixed'; month: number; day: number } // month is 1-12
+  | { type: 'easter'; offset: number } // Days from Easter Sunday
+  | { type: 'nth-weekday'; month: number; weekday: number; n: number; fromDay?: number } // weekday 0 = Sunday; n = -1 is the last
+);
+
+export interface PublicHolidayRegion {
+  code: string;
+  name: string;
+}
+
+export interface PublicHolidayCalendar {
+  countryCode: string;
+  name: string;
+  regions: PublicHolidayRegion[];
+  rules: PublicHolidayRule[];
+}
+
+export interface GeneratedPublicHoliday {
+  title: string;
+  date: Date;
+}
+
+// ============================================================================
+// BUNDLED CALENDARS
+// ============================================================================
+
+const GB_ENGLAND = 'ENG';
+const GB_SCOTLAND = 'SCT';
+const GB_NORTHERN_IRELAND = 'NIR';
+
+export const PUBLIC_HOLIDAY_CALENDARS: PublicHolidayCalendar[] = [
+  {
+    countryCode: 'US',
+    name: 'United States (federal)',
+    regions: [],
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observance: 'nearest-weekday' },
+      { type: 'nth-weekday', name: 'Martin Luther King Jr. Day', month: 1, weekday: 1, n: 3 },
+      { type: 'nth-weekday', name: "Washington's Birthday", month: 2, weekday: 1, n: 3 },
+      { type: 'nth-weekday', name: 'Memorial Day', month: 5, weekday: 1, n: -1 },
+      { type: 'fixed', name: 'Juneteenth', month: 6, day: 19, fromYear: 2021, observance: 'nearest-weekday' },
+      { type: 'fixed', name: 'Independence Day', month: 7, day: 4, observance: 'nearest-weekday' },
+      { type: 'nth-weekday', name: 'Labor Day', month: 9, weekday: 1, n: 1 },
+      { type: 'nth-weekday', name: 'Columbus Day', month: 10, weekday: 1, n: 2 },
+      { type: 'fixed', name: 'Veterans Day', month: 11, day: 11, observance: 'nearest-weekday' },
+      { type: 'nth-weekday', name: 'Thanksgiving Day', month: 11, weekday: 4, n: 4 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observance: 'nearest-weekday' },
+    ]
+  },
+  {
+    countryCode: 'GB',
+    name: 'United Kingdom',
+    regions: [
+      { code: GB_ENGLAND, name: 'England and Wales' },
+      { code: GB_SCOTLAND, name: 'Scotland' },
+      { code: GB_NORTHERN_IRELAND, name: 'Northern Ireland' },
+    ],
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1, observance: 'substitute' },
+      { type: 'fixed', name: '2nd January', month: 1, day: 2, regions: [GB_SCOTLAND], observance: 'substitute' },
+      { type: 'fixed', name: "St Patrick's Day", month: 3, day: 17, regions: [GB_NORTHERN_IRELAND], observance: 'substitute' },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', offset: 1, regions: [GB_ENGLAND, GB_NORTHERN_IRELAND] },
+      { type: 'nth-weekday', name: 'Early May bank holiday', month: 5, weekday: 1, n: 1 },
+      { type: 'nth-weekday', name: 'Spring bank holiday', month: 5, weekday: 1, n: -1 },
+      { type: 'fixed', name: 'Battle of the Boyne', month: 7, day: 12, regions: [GB_NORTHERN_IRELAND], observance: 'substitute' },
+      { type: 'nth-weekday', name: 'Summer bank holiday', month: 8, weekday: 1, n: 1, regions: [GB_SCOTLAND] },
+      { type: 'nth-weekday', name: 'Summer bank holiday', month: 8, weekday: 1, n: -1, regions: [GB_ENGLAND, GB_NORTHERN_IRELAND] },
+      { type: 'fixed', name: "St Andrew's Day", month: 11, day: 30, regions: [GB_SCOTLAND], observance: 'substitute' },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25, observance: 'substitute' },
+      { type: 'fixed', name: 'Boxing Day', month: 12, day: 26, observance: 'substitute' },
+    ]
+  },
+  {
+    countryCode: 'DE',
+    name: 'Germany',
+    regions: [
+      { code: 'BW', name: 'Baden-Württemberg' },
+      { code: 'BY', name: 'Bavaria' },
+      { code: 'BE', name: 'Berlin' },
+      { code: 'BB', name: 'Brandenburg' },
+      { code: 'HB', name: 'Bremen' },
+      { code: 'HH', name: 'Hamburg' },
+      { code: 'HE', name: 'Hesse' },
+      { code: 'MV', name: 'Mecklenburg-Vorpommern' },
+      { code: 'NI', name: 'Lower Saxony' },
+      { code: 'NW', name: 'North Rhine-Westphalia' },
+      { code: 'RP', name: 'Rhineland-Palatinate' },
+      { code: 'SL', name: 'Saarland' },
+      { code: 'SN', name: 'Saxony' },
+      { code: 'ST', name: 'Saxony-Anhalt' },
+      { code: 'SH', name: 'Schleswig-Holstein' },
+      { code: 'TH', name: 'Thuringia' },
+    ],
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { type: 'fixed', name: 'Epiphany', month: 1, day: 6, regions: ['BW', 'BY', 'ST'] },
+      { type: 'fixed', name: "International Women's Day", month: 3, day: 8, regions: ['BE'], fromYear: 2019 },
+      { type: 'fixed', name: "International Women's Day", month: 3, day: 8, regions: ['MV'], fromYear: 2023 },
+      { type: 'easter', name: 'Good Friday', offset: -2 },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'fixed', name: 'Labour Day', month: 5, day: 1 },
+      { type: 'easter', name: 'Ascension Day', offset: 39 },
+      { type: 'easter', name: 'Whit Monday', offset: 50 },
+      { type: 'easter', name: 'Corpus Christi', offset: 60, regions: ['BW', 'BY', 'HE', 'NW', 'RP', 'SL'] },
+      { type: 'fixed', name: 'Assumption Day', month: 8, day: 15, regions: ['SL'] },
+      { type: 'fixed', name: "World Children's Day", month: 9, day: 20, regions: ['TH'], fromYear: 2019 },
+      { type: 'fixed', name: 'German Unity Day', month: 10, day: 3 },
+      { type: 'fixed', name: 'Reformation Day', month: 10, day: 31, regions: ['BB', 'MV', 'SN', 'ST', 'TH'] },
+      { type: 'fixed', name: 'Reformation Day', month: 10, day: 31, regions: ['HB', 'HH', 'NI', 'SH'], fromYear: 2018 },
+      { type: 'fixed', name: "All Saints' Day", month: 11, day: 1, regions: ['BW', 'BY', 'NW', 'RP', 'SL'] },
+      { type: 'nth-weekday', name: 'Day of Repentance and Prayer', month: 11, weekday: 3, n: 1, fromDay: 16, regions: ['SN'] },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { type: 'fixed', name: 'Second Day of Christmas', month: 12, day: 26 },
+    ]
+  },
+  {
+    countryCode: 'FR',
+    name: 'France',
+    regions: [
+      { code: 'AM', name: 'Alsace-Moselle' },
+    ],
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { type: 'easter', name: 'Good Friday', offset: -2, regions: ['AM'] },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'fixed', name: 'Labour Day', month: 5, day: 1 },
+      { type: 'fixed', name: 'Victory in Europe Day', month: 5, day: 8 },
+      { type: 'easter', name: 'Ascension Day', offset: 39 },
+      { type: 'easter', name: 'Whit Monday', offset: 50 },
+      { type: 'fixed', name: 'Bastille Day', month: 7, day: 14 },
+      { type: 'fixed', name: 'Assumption Day', month: 8, day: 15 },
+      { type: 'fixed', name: "All Saints' Day", month: 11, day: 1 },
+      { type: 'fixed', name: 'Armistice Day', month: 11, day: 11 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { type: 'fixed', name: "St Stephen's Day", month: 12, day: 26, regions: ['AM'] },
+    ]
+  },
+  {
+    countryCode: 'NL',
+    name: 'Netherlands',
+    regions: [],
+    rules: [
+      { type: 'fixed', name: "New Year's Day", month: 1, day: 1 },
+      { type: 'easter', name: 'Easter Monday', offset: 1 },
+      { type: 'fixed', name: "King's Day", month: 4, day: 27, fromYear: 2014, observance: 'saturday-if-sunday' },
+      { type: 'easter', name: 'Ascension Day', offset: 39 },
+      { type: 'easter', name: 'Whit Monday', offset: 50 },
+      { type: 'fixed', name: 'Christmas Day', month: 12, day: 25 },
+      { type: 'fixed', name: 'Second Day of Christmas', month: 12, day: 26 },
+    ]
+  },
+];
+
+// ============================================================================
+// DATE CALCULATIONS
+// ============================================================================
+
+/**
+ * Easter Sunday (Gregorian calendar, anonymous algorithm)
+ */
+export function calculateEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * The nth weekday of a month, counted from fromDay (n = -1: the last one)
+ */
+export function getNthWeekdayOfMonth(year: number, month: number, weekday: number, n: number, fromDay: number = 1): Date {
+  if (n < 0) {
+    const lastDay = new Date(year, month, 0);
+    const back = (lastDay.getDay() - weekday + 7) % 7;
+    return addDaysToDate(lastDay, -back - (Math.abs(n) - 1) * 7);
+  }
+  const first = new Date(year, month - 1, fromDay);
+  const forward = (weekday - first.getDay() + 7) % 7;
+  return addDaysToDate(first, forward + (n - 1) * 7);
+}
+
+function getRuleDate(rule: PublicHolidayRule, year: number): Date {
+  switch (rule.type) {
+    case 'fixed':
+      return new Date(year, rule.month - 1, rule.day);
+    case 'easter':
+      return addDaysToDate(calculateEasterSunday(year), rule.offset);
+    case 'nth-weekday':
+      return getNthWeekdayOfMonth(year, rule.month, rule.weekday, rule.n, rule.fromDay);
+  }
+}
+
+const isWeekend = (date: Date) => date.getDay() === 0 || date.getDay() === 6;
+const dayKey = (date: Date) => normalizeToMidnight(date).getTime();
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+export function getPublicHolidayCalendar(countryCode: string): PublicHolidayCalendar | undefined {
+  return PUBLIC_HOLIDAY_CALENDARS.find(calendar => calendar.countryCode === countryCode);
+}
+
+/**
+ * Label for a country/region choice, e.g. "Germany – Bavaria"
+ */
+export function getPublicHolidayCalendarLabel(countryCode: string, regionCode?: string): string {
+  const calendar = getPublicHolidayCalendar(countryCode);
+  if (!calendar) return countryCode;
+  const region = calendar.regions.find(r => r.code === regionCode);
+  return region ? `${calendar.name} – ${region.name}` : calendar.name;
+}
+
+/**
+ * Public holidays of a country (and optional region) in a year, by date
+ *
+ * Weekend holidays with an observance move to their observed day; substitute
+ * days skip weekdays that are already a holiday (Christmas and Boxing Day on
+ * a weekend become Monday and Tuesday).
+ */
+export function generatePublicHolidays(countryCode: string, regionCode: string | undefined, year: number): GeneratedPublicHoliday[] {
+  const calendar = getPublicHolidayCalendar(countryCode);
+  if (!calendar) return [];
+
+  const applicable = calendar.rules
+    .filter(rule => !rule.regions || (regionCode !== undefined && rule.regions.includes(regionCode)))
+    .filter(rule => !rule.fromYear || year >= rule.fromYear)
+    .map(rule => ({ rule, date: getRuleDate(rule, year) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  // Holidays that stay put claim their day before any substitute is placed
+  const taken = new Set(
+    applicable.filter(({ rule, date }) => !rule.observance || !isWeekend(date)).map(({ date }) => dayKey(date))
+  );
+
+  const holidays = applicable.map(({ rule, date }) => {
+    if (!rule.observance || !isWeekend(date)) return { title: rule.name, date };
+
+    let observed = date;
+    if (rule.observance === 'nearest-weekday') {
+      observed = addDaysToDate(date, date.getDay() === 6 ? -1 : 1);
+    } else if (rule.observance === 'saturday-if-sunday') {
+      observed = date.getDay() === 0 ? addDaysToDate(date, -1) : date;
+    } else {
+      do {
+        observed = addDaysToDate(observed, 1);
+      } while (isWeekend(observed) || taken.has(dayKey(observed)));
+    }
+    taken.add(dayKey(observed));
+
+    const isMoved = observed.getTime() !== date.getTime();
+    return { title: isMoved && rule.observance === 'substitute' ? `${rule.name} (substitute day)` : rule.name, date: observed };
+  });
+
+  return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -22,3 +22,11 @@ export * from './clients'; // Client and Label rules + ClientDeletionImpact
 export * from './groups'; // Group rules + GroupDeletionImpact
 export * from './work-slots'; // Work slot rules
 export * from './time-tracking'; // Time tracking business logic helpers
+export * from './backup'; // Backup archive format and restore rules
+export * from './scenarios'; // What-if scenario sandbox
+export * from './habits'; // Habit targets, streaks and adherence
+export * from './tasks'; // Project task backlog and scheduling
+export * from './offline'; // Offline outbox and replay conflict resolution
+export * from './dependencies'; // Project and phase dependencies and cascading shifts
+export * from './baselines'; // Named plan baselines and drift comparison
+export * from './filters'; // Saved project filters and client/label/status grouping
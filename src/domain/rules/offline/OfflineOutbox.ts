@@ -0,0 +1,191 @@
+/**
+ * Offline Outbox Rules
+ *
+ * Pure rules for changes made without a connection:
+ * - Queueing a change, folding it into a change already queued for the same row
+ * - Applying queued changes to locally cached rows (reads stay consistent offline)
+ * - Resolving a queued change against the server row on replay (last write wins)
+ * - Holding changes the server rejected until they are retried or discarded
+ *
+ * Conflict resolution compares the server row's updated_at with the time the
+ * change was made offline. A server row edited after the local change wins and
+ * the local change is discarded; otherwise the local change is written.
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see OfflineSyncOrchestrator.ts - local store, outbox persistence and replay
+ */
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type OfflineTable = 'projects' | 'phases' | 'calendar_events' | 'holidays' | 'settings';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export type OfflineRow = Record<string, unknown> & { id: string; updated_at?: string | null };
+
+export interface OutboxEntry {
+  id: string;
+  sequence: number; // Replay order (a merged entry keeps the position of the first change)
+  table: OfflineTable;
+  operation: OutboxOperation;
+  rowId: string;
+  payload: Record<string, unknown>; // Whole row for inserts, changed columns for updates, empty for deletes
+  changedAt: string; // ISO time of the latest local change
+  failedAt?: string; // ISO time the server rejected the change on replay
+  error?: string; // Why the server rejected it
+}
+
+export type OutboxResolution =
+  | { action: 'apply' }
+  | { action: 'discard'; reason: 'remote-newer' | 'remote-deleted' | 'already-deleted' };
+
+export const OFFLINE_TABLES: OfflineTable[] = ['settings', 'projects', 'phases', 'holidays', 'calendar_events'];
+
+// ============================================================================
+// QUEUEING
+// ============================================================================
+
+/**
+ * Add a change to the outbox, folding it into a change queued earlier for the same row
+ *
+ * - insert + update → one insert with the updated columns
+ * - insert + delete → nothing (the row never reached the server)
+ * - update + update → one update with both sets of columns
+ * - update + delete → one delete, queued last so child deletes replay first
+ */
+export function queueOutboxEntry(queue: OutboxEntry[], entry: OutboxEntry): OutboxEntry[] {
+  const index = queue.findIndex(queued => queued.table === entry.table && queued.rowId === entry.rowId);
+  if (index === -1) return [...queue, entry];
+
+  const previous = queue[index];
+  const without = queue.filter((_, i) => i !== index);
+
+  if (entry.operation === 'delete') {
+    return previous.operation === 'insert' ? without : [...without, entry];
+  }
+
+  if (entry.operation === 'update' && previous.operation !== 'delete') {
+    const merged: OutboxEntry = {
+      ...previous,
+      payload: { ...previous.payload, ...entry.payload },
+      changedAt: entry.changedAt
+    };
+    return queue.map((queued, i) => (i === index ? merged : queued));
+  }
+
+  return [...queue, entry];
+}
+
+/**
+ * Queued changes of one table, in replay order
+ */
+export function getTableOutbox(queue: OutboxEntry[], table: OfflineTable): OutboxEntry[] {
+  return queue.filter(entry => entry.table === table).sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * Whole outbox in replay order
+ */
+export function sortOutbox(queue: OutboxEntry[]): OutboxEntry[] {
+  return [...queue].sort((a, b) => a.sequence - b.sequence);
+}
+
+// ============================================================================
+// FAILED CHANGES
+// ============================================================================
+
+/**
+ * Mark a change the server rejected; it stays queued until retried or discarded
+ */
+export function markOutboxEntryFailed(entry: OutboxEntry, error: string, failedAt: string): OutboxEntry {
+  return { ...entry, failedAt, error };
+}
+
+/**
+ * A change ready to be retried
+ */
+export function clearOutboxFailure(entry: OutboxEntry): OutboxEntry {
+  const { failedAt: _failedAt, error: _error, ...cleared } = entry;
+  return cleared;
+}
+
+/**
+ * Changes the server rejected, in replay order
+ */
+export function getFailedOutbox(queue: OutboxEntry[]): OutboxEntry[] {
+  return sortOutbox(queue).filter(entry => entry.failedAt);
+}
+
+/**
+ * True when a change is not replayed: it failed, or an earlier change to the
+ * same row failed (replaying it alone would apply half of the local edits)
+ */
+export function isOutboxEntryHeld(queue: OutboxEntry[], entry: OutboxEntry): boolean {
+  return queue.some(queued =>
+    queued.failedAt
+    && queued.table === entry.table
+    && queued.rowId === entry.rowId
+    && queued.sequence <= entry.sequence
+  );
+}
+
+// ============================================================================
+// LOCAL ROWS
+// ============================================================================
+
+/**
+ * Apply a queued change to cached rows
+ * Updated rows take the time of the change as their updated_at.
+ */
+export function applyOutboxEntry<T extends OfflineRow>(rows: T[], entry: OutboxEntry): T[] {
+  switch (entry.operation) {
+    case 'insert':
+      return [...rows.filter(row => row.id !== entry.rowId), { ...entry.payload, id: entry.rowId } as T];
+    case 'update':
+      return rows.map(row =>
+        row.id === entry.rowId ? { ...row, ...entry.payload, id: row.id, updated_at: entry.changedAt } : row
+      );
+    case 'delete':
+      return rows.filter(row => row.id !== entry.rowId);
+  }
+}
+
+/**
+ * Cached rows with every queued change of their table applied on top
+ */
+export function applyOutbox<T extends OfflineRow>(rows: T[], queue: OutboxEntry[], table: OfflineTable): T[] {
+  return getTableOutbox(queue, table).reduce((current, entry) => applyOutboxEntry(current, entry), rows);
+}
+
+// ============================================================================
+// CONFLICT RESOLUTION
+// ============================================================================
+
+const toTime = (value: string | null | undefined): number => {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+/**
+ * Decide whether a queued change is still written when it replays
+ *
+ * @param remote - The server row (id and updated_at), or null when it does not exist
+ */
+export function resolveOutboxConflict(
+  entry: OutboxEntry,
+  remote: Pick<OfflineRow, 'id' | 'updated_at'> | null
+): OutboxResolution {
+  if (!remote) {
+    if (entry.operation === 'insert') return { action: 'apply' };
+    return { action: 'discard', reason: entry.operation === 'delete' ? 'already-deleted' : 'remote-deleted' };
+  }
+
+  if (toTime(remote.updated_at) > toTime(entry.changedAt)) {
+    return { action: 'discard', reason: 'remote-newer' };
+  }
+
+  return { action: 'apply' };
+}
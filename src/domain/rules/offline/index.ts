@@ -0,0 +1,8 @@
+/**
+ * Offline Domain Rules
+ *
+ * Exports all offline business rules:
+ * - OfflineOutbox.ts - Queued offline changes, local application and replay conflicts
+ */
+
+export * from './OfflineOutbox';
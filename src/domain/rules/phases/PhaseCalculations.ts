@@ -29,6 +29,7 @@
 import { Holiday, PhaseDTO, Settings } from '@/shared/types/core';
 import * as DateCalculations from '@/presentation/utils/dateCalculations';
 import { PhaseRecurrenceService, RecurringPhaseConfig as DomainRecurringConfig, RecurringOccurrenceParams } from '@/domain/rules/phases/PhaseRecurrence';
+import { calculateDayWorkHours } from '@/domain/rules/availability/WorkHourGeneration';
 
 /**
  * Calculate total time allocation across phases
@@ -633,12 +634,8 @@ export function calculateProjectWorkingDays(
   const currentDate = new Date(startDate);
   
   while (currentDate <= endDate) {
-    const dayOfWeek = currentDate.getDay();
-    const dayNames = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
-    const dayName = dayNames[dayOfWeek];
-    
-    // Check if it's a working day in settings
-    const isWorkDay = settings?.weeklyWorkHours?.[dayName]?.length > 0;
+    // Check if it's a working day in the work hours in effect on that date
+    const isWorkDay = calculateDayWorkHours(currentDate, settings).length > 0;
     
     // Check if it's a holiday
     const isHoliday = holidays.some(h => {
@@ -15,6 +15,8 @@ import { calculatePlannedTimeForDate } from '../availability/EventWorkHourIntegr
 import { TimelineRules } from '@/domain/rules/timeline/TimelineDisplay';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
 import { PhaseRecurrenceService } from '@/domain/rules/phases/PhaseRecurrence';
+import { getHolidayCapacityFactor, isFullHolidayDate } from '@/domain/rules/holidays/HolidayCapacity';
+import { calculateDayWorkHours } from '@/domain/rules/availability/WorkHourGeneration';
 
 /**
  * Sum planned + completed event hours within an inclusive date range
@@ -48,7 +50,7 @@ function sumCompletedEventHoursInRange(
  * Check if a date is a working day based on settings and holidays (for day estimates)
  * 
  * Project-specific estimation logic that checks:
- * 1. Not a holiday
+ * 1. Not a full-day holiday (partial days are working days with less weight)
  * 2. Enabled in project.autoEstimateDays (if project provided)
  * 3. Fallback: has work hours configured in settings
  * 
@@ -61,15 +63,8 @@ export function isWorkingDayForEstimates(
   holidays: Holiday[],
   project?: Project
 ): boolean {
-  // Check if it's a holiday
-  const isHoliday = holidays.some(h => {
-    const holidayStart = new Date(h.startDate);
-    const holidayEnd = new Date(h.endDate);
-    holidayStart.setHours(0, 0, 0, 0);
-    holidayEnd.setHours(23, 59, 59, 999);
-    return date >= holidayStart && date <= holidayEnd;
-  });
-  if (isHoliday) return false;
+  // Check if it's a full-day holiday
+  if (isFullHolidayDate(date, holidays)) return false;
   // Check against project's autoEstimateDays if available
   if (project?.autoEstimateDays) {
     const dayOfWeek = date.getDay();
@@ -79,13 +74,32 @@ export function isWorkingDayForEstimates(
     const dayName = dayNames[dayOfWeek];
     return project.autoEstimateDays[dayName] === true;
   }
-  // Fallback to settings work hours
-  const dayOfWeek = date.getDay();
-  const dayNames: Array<keyof Settings['weeklyWorkHours']> = [
-    'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'
-  ];
-  const dayName = dayNames[dayOfWeek];
-  return (settings.weeklyWorkHours[dayName]?.length || 0) > 0;
+  // Fallback to the work hours in effect on that date
+  return calculateDayWorkHours(date, settings).length > 0;
+}
+/**
+ * Share of a normal day's estimate a working day takes
+ * 1 on normal days; a partial-day holiday scales it by the work hours it leaves.
+ * Days without work slots (enabled only in autoEstimateDays) keep a full share.
+ */
+export function getEstimateDayWeight(date: Date, settings: Settings, holidays: Holiday[]): number {
+  const slots = calculateDayWorkHours(date, settings);
+  const normalHours = slots.reduce((sum, slot) => sum + (Number(slot.duration) || 0), 0);
+  return normalHours > 0 ? getHolidayCapacityFactor(date, holidays, normalHours) : 1;
+}
+
+/**
+ * Split hours across days in proportion to each day's estimate weight
+ */
+export function distributeHoursByDayWeight(
+  totalHours: number,
+  days: Date[],
+  settings: Settings,
+  holidays: Holiday[]
+): number[] {
+  const weights = days.map(day => getEstimateDayWeight(day, settings, holidays));
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  return weights.map(weight => (totalWeight > 0 ? (totalHours * weight) / totalWeight : 0));
 }
 /**
  * Get working days between two dates
@@ -144,13 +158,13 @@ export function calculatePhaseDayEstimates(
   if (workingDays.length === 0 || !Number.isFinite(timeAllocationHours) || timeAllocationHours <= 0) {
     return estimates;
   }
-  // Distribute hours evenly across working days
-  const hoursPerDay = timeAllocationHours / workingDays.length;
-  workingDays.forEach(date => {
+  // Distribute hours across working days; partial-day holidays take a smaller share
+  const hoursPerDay = distributeHoursByDayWeight(timeAllocationHours, workingDays, settings, holidays);
+  workingDays.forEach((date, index) => {
     estimates.push({
       date: new Date(date),
       projectId: project.id,
-      hours: hoursPerDay,
+      hours: hoursPerDay[index],
       source: 'milestone-allocation', // Legacy field name; represents phase allocation
       milestoneId: phase.id, // Legacy field name; represents phaseId
       isWorkingDay: true
@@ -245,14 +259,14 @@ export function calculateRecurringPhaseDayEstimates(
       continue;
     }
 
-    const hoursPerDay = remainingAllocation / workingDays.length;
+    const hoursPerDay = distributeHoursByDayWeight(remainingAllocation, workingDays, settings, holidays);
     
     
-    workingDays.forEach(date => {
+    workingDays.forEach((date, index) => {
       estimates.push({
         date: new Date(date),
         projectId: project.id,
-        hours: hoursPerDay,
+        hours: hoursPerDay[index],
         source: 'milestone-allocation', // Legacy field name; represents phase allocation
         milestoneId: phase.id, // Legacy field name; represents phaseId
         isWorkingDay: true
@@ -455,10 +469,15 @@ export function calculateProjectDayEstimates(
     // already allocates per-period hours; re-spreading across all occurrences collapses hours.
     let redistributedEstimates = filteredEstimates;
     if (!phase.isRecurring && filteredEstimates.length > 0) {
-      const redistributedHoursPerDay = remainingAllocation / filteredEstimates.length;
-      redistributedEstimates = filteredEstimates.map(est => ({
+      const redistributedHoursPerDay = distributeHoursByDayWeight(
+        remainingAllocation,
+        filteredEstimates.map(est => est.date),
+        settings,
+        holidays
+      );
+      redistributedEstimates = filteredEstimates.map((est, index) => ({
         ...est,
-        hours: redistributedHoursPerDay
+        hours: redistributedHoursPerDay[index]
       }));
     }
 
@@ -504,12 +523,12 @@ export function calculateProjectDayEstimates(
       return allEstimates;
     }
 
-    const hoursPerDay = remainingBudget / filteredWorkingDays.length;
-    filteredWorkingDays.forEach(date => {
+    const hoursPerDay = distributeHoursByDayWeight(remainingBudget, filteredWorkingDays, settings, holidays);
+    filteredWorkingDays.forEach((date, index) => {
       allEstimates.push({
         date: new Date(date),
         projectId: project.id,
-        hours: hoursPerDay,
+        hours: hoursPerDay[index],
         source: 'project-auto-estimate',
         isWorkingDay: true
       });
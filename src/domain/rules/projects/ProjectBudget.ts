@@ -5,6 +5,8 @@
  */
 
 import { Project } from '@/shared/types';
+import type { WorkScheduleTemplate } from '@/shared/types/core';
+import { getActiveWorkSchedule, getRotationWeekIndex } from '@/domain/rules/work-slots/WorkSchedules';
 import { 
   calculateDurationDays,
   formatDuration as coreFormatDuration
@@ -35,6 +37,7 @@ export interface ProjectHoliday {
 
 export interface ProjectWorkingDaysSettings {
   weeklyWorkHours?: ProjectWeeklyWorkHours;
+  workSchedules?: WorkScheduleTemplate[];
 }
 
 const DAY_NAMES: (keyof ProjectWeeklyWorkHours)[] = [
@@ -294,8 +297,11 @@ function isWorkingDay(
   }
   
   // Project-specific: Check if it's a day with work hours configured
+  // (in the schedule template in effect on that date, if any)
   const dayName = DAY_NAMES[date.getDay()];
-  const workSlots = settings.weeklyWorkHours?.[dayName] || [];
+  const schedule = getActiveWorkSchedule(date, settings.workSchedules);
+  const week = schedule ? schedule.weeks[getRotationWeekIndex(date, schedule)] : settings.weeklyWorkHours;
+  const workSlots = week?.[dayName] || [];
   
   const hasWorkHours = Array.isArray(workSlots) && 
     workSlots.reduce((sum, slot) => sum + slot.duration, 0) > 0;
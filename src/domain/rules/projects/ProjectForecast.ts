@@ -0,0 +1,218 @@
+/**
+ * Project Forecast Rules
+ *
+ * Projects when a project will actually finish at the pace work has been
+ * completed so far, instead of assuming the budget is spread evenly:
+ * - Weekly velocity from completed and tracked events (recent weeks only)
+ * - Projected finish date from remaining hours and the project's working days
+ * - Confidence range from week-to-week variation in velocity
+ * - Deadline risk when the projection passes the project end date
+ *
+ * @see DayEstimate.ts - Even spreading of remaining hours (the plan)
+ * @see ProjectMetrics.ts - Progress and time metrics
+ */
+
+import type { CalendarEvent, Holiday, Project, Settings } from '@/shared/types/core';
+import { EventClassificationRules } from '@/domain/rules/events/EventClassification';
+import { addDaysToDate, calculateDurationHours, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { isWorkingDayForEstimates } from './DayEstimate';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const PROJECT_FORECAST_CONFIG = {
+  LOOKBACK_WEEKS: 8, // Only recent pace predicts the near future
+  MIN_HISTORY_WEEKS: 2, // Less history than this is too noisy to forecast
+  MAX_FORECAST_DAYS: 3 * 365, // Stop projecting beyond this horizon
+  DAYS_PER_WEEK: 7
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+/**
+ * - complete: no hours remaining
+ * - on-track: even the slow end of the range finishes by the end date
+ * - at-risk: projection finishes in time, the slow end of the range does not
+ * - late: projection passes the end date
+ * - no-deadline: continuous project, projection only
+ * - insufficient-data: not enough completed work to measure a pace
+ */
+export type DeadlineRisk = 'complete' | 'on-track' | 'at-risk' | 'late' | 'no-deadline' | 'insufficient-data';
+
+export interface ProjectVelocity {
+  weeklyHours: number[]; // Completed hours per week, oldest first
+  averageWeeklyHours: number;
+  standardDeviation: number;
+}
+
+export interface ProjectForecast {
+  projectId: string;
+  risk: DeadlineRisk;
+  completedHours: number;
+  remainingHours: number;
+  velocity: ProjectVelocity;
+  projectedFinish?: Date;
+  earliestFinish?: Date; // At average + one standard deviation
+  latestFinish?: Date; // At average - one standard deviation (undefined when that pace is zero)
+  passesDeadline: boolean;
+  daysLate: number; // Calendar days the projection passes the end date
+}
+
+export interface ProjectForecastInput {
+  project: Project;
+  events: CalendarEvent[];
+  settings: Settings;
+  holidays: Holiday[];
+  referenceDate?: Date;
+}
+
+// ============================================================================
+// VELOCITY
+// ============================================================================
+
+function isCompletedProjectWork(event: CalendarEvent, projectId: string): boolean {
+  return event.projectId === projectId &&
+    event.category !== 'task' &&
+    EventClassificationRules.isCompletedTime(event);
+}
+
+/**
+ * Completed hours per week over the lookback window, ending at the reference date
+ *
+ * Weeks before the project started are left out, so a new project is not
+ * penalised for time it did not exist. The average is taken over the days the
+ * project has run (at least one), so a partial first week counts as part of a week.
+ */
+export function calculateProjectVelocity(
+  project: Project,
+  events: CalendarEvent[],
+  referenceDate: Date = new Date(),
+  lookbackWeeks: number = PROJECT_FORECAST_CONFIG.LOOKBACK_WEEKS
+): ProjectVelocity {
+  const windowEnd = addDaysToDate(normalizeToMidnight(referenceDate), 1);
+  const projectStart = normalizeToMidnight(new Date(project.startDate));
+  const daysSinceStart = Math.round((windowEnd.getTime() - projectStart.getTime()) / DAY_MS);
+  const weekCount = Math.min(lookbackWeeks, Math.max(0, Math.ceil(daysSinceStart / PROJECT_FORECAST_CONFIG.DAYS_PER_WEEK)));
+  const elapsedWeeks = Math.min(lookbackWeeks, Math.max(1, daysSinceStart) / PROJECT_FORECAST_CONFIG.DAYS_PER_WEEK);
+  const windowStart = addDaysToDate(windowEnd, -weekCount * PROJECT_FORECAST_CONFIG.DAYS_PER_WEEK);
+  const weeklyHours = new Array<number>(weekCount).fill(0);
+
+  events
+    .filter(event => isCompletedProjectWork(event, project.id))
+    .forEach(event => {
+      const start = new Date(event.startTime);
+      if (start < windowStart || start >= windowEnd) return;
+      const day = Math.round((normalizeToMidnight(start).getTime() - windowStart.getTime()) / DAY_MS);
+      const week = Math.floor(day / PROJECT_FORECAST_CONFIG.DAYS_PER_WEEK);
+      weeklyHours[week] += calculateDurationHours(start, new Date(event.endTime));
+    });
+
+  const totalHours = weeklyHours.reduce((sum, hours) => sum + hours, 0);
+  const averageWeeklyHours = weekCount > 0 ? totalHours / elapsedWeeks : 0;
+  const meanBucketHours = weekCount > 0 ? totalHours / weekCount : 0;
+  const variance = weekCount > 1
+    ? weeklyHours.reduce((sum, hours) => sum + (hours - meanBucketHours) ** 2, 0) / (weekCount - 1)
+    : 0;
+
+  return { weeklyHours, averageWeeklyHours, standardDeviation: Math.sqrt(variance) };
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Number of the project's working days in a normal week (ignores holidays)
+ */
+function getWorkingDaysPerWeek(project: Project, settings: Settings): number {
+  const monday = new Date(2024, 0, 1);
+  let count = 0;
+  for (let day = 0; day < PROJECT_FORECAST_CONFIG.DAYS_PER_WEEK; day++) {
+    if (isWorkingDayForEstimates(addDaysToDate(monday, day), settings, [], project)) count++;
+  }
+  return count;
+}
+
+/**
+ * The working day on which the remaining hours are done at a weekly pace
+ *
+ * Work starts the day after the reference date (today's completed time is
+ * already counted). Holidays and non-working days add no progress.
+ *
+ * @returns undefined when the pace is zero or the finish is beyond the forecast horizon
+ */
+export function projectFinishDate(
+  remainingHours: number,
+  weeklyHours: number,
+  project: Project,
+  settings: Settings,
+  holidays: Holiday[],
+  referenceDate: Date = new Date()
+): Date | undefined {
+  const today = normalizeToMidnight(referenceDate);
+  if (remainingHours <= 0) return today;
+
+  const workingDaysPerWeek = getWorkingDaysPerWeek(project, settings);
+  if (weeklyHours <= 0 || workingDaysPerWeek === 0) return undefined;
+
+  const hoursPerWorkingDay = weeklyHours / workingDaysPerWeek;
+  let remaining = remainingHours;
+  for (let offset = 1; offset <= PROJECT_FORECAST_CONFIG.MAX_FORECAST_DAYS; offset++) {
+    const date = addDaysToDate(today, offset);
+    if (!isWorkingDayForEstimates(date, settings, holidays, project)) continue;
+    remaining -= hoursPerWorkingDay;
+    if (remaining <= 1e-9) return date;
+  }
+  return undefined;
+}
+
+/**
+ * Forecast a project's finish date and deadline risk from its recent pace
+ */
+export function forecastProjectCompletion(input: ProjectForecastInput): ProjectForecast {
+  const { project, events, settings, holidays } = input;
+  const referenceDate = input.referenceDate ?? new Date();
+
+  const completedHours = events
+    .filter(event => isCompletedProjectWork(event, project.id))
+    .reduce((sum, event) => sum + calculateDurationHours(new Date(event.startTime), new Date(event.endTime)), 0);
+  const remainingHours = Math.max(0, project.estimatedHours - completedHours);
+  const velocity = calculateProjectVelocity(project, events, referenceDate);
+
+  const base = { projectId: project.id, completedHours, remainingHours, velocity, passesDeadline: false, daysLate: 0 };
+
+  if (remainingHours <= 0) {
+    return { ...base, risk: 'complete' };
+  }
+  if (velocity.weeklyHours.length < PROJECT_FORECAST_CONFIG.MIN_HISTORY_WEEKS || velocity.averageWeeklyHours <= 0) {
+    return { ...base, risk: 'insufficient-data' };
+  }
+
+  const finishAt = (weeklyHours: number) =>
+    projectFinishDate(remainingHours, weeklyHours, project, settings, holidays, referenceDate);
+  const projectedFinish = finishAt(velocity.averageWeeklyHours);
+  const earliestFinish = finishAt(velocity.averageWeeklyHours + velocity.standardDeviation);
+  const latestFinish = finishAt(velocity.averageWeeklyHours - velocity.standardDeviation);
+  const forecast = { ...base, projectedFinish, earliestFinish, latestFinish };
+
+  if (project.continuous) {
+    return { ...forecast, risk: 'no-deadline' };
+  }
+
+  const deadline = normalizeToMidnight(new Date(project.endDate));
+  // No finish within the horizon counts as passing the deadline
+  const passesDeadline = !projectedFinish || projectedFinish > deadline;
+  const daysLate = projectedFinish && passesDeadline
+    ? Math.round((projectedFinish.getTime() - deadline.getTime()) / DAY_MS)
+    : 0;
+  const risk: DeadlineRisk = passesDeadline
+    ? 'late'
+    : !latestFinish || latestFinish > deadline ? 'at-risk' : 'on-track';
+
+  return { ...forecast, risk, passesDeadline, daysLate };
+}
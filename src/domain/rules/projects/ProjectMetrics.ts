@@ -274,12 +274,14 @@ export function buildPlannedTimeMap(
 /**
  * Calculate comprehensive project time metrics
  * CRITICAL: Continuous projects have no fixed end date or duration
+ * backlogHours: estimates of unscheduled tasks, counted as planned but not completed
  */
 export function calculateProjectTimeMetrics(
   project: Project,
   events: ProjectEvent[],
   phasesOrHolidays?: PhaseWithProgress[] | Holiday[],
-  currentDate: Date = new Date()
+  currentDate: Date = new Date(),
+  backlogHours: number = 0
 ): ComprehensiveProjectTimeMetrics {
   const phases = Array.isArray(phasesOrHolidays)
     ? phasesOrHolidays.filter((item): item is PhaseWithProgress =>
@@ -290,7 +292,7 @@ export function calculateProjectTimeMetrics(
   const projectStart = new Date(project.startDate);
   
   // Calculate total planned and completed hours
-  let totalPlannedHours = 0;
+  let totalPlannedHours = backlogHours;
   let totalCompletedHours = 0;
   
   for (const event of projectEvents) {
@@ -854,18 +856,4 @@ export function generateProgressDataPoints(
   return [];
 }
 
-export function calculateProjectVelocity(
-  project: Project,
-  events: ProjectEvent[]
-): number {
-  // Implementation would go here - placeholder for now
-  return 0;
-}
-
-export function estimateProjectCompletionDate(
-  project: Project,
-  events: ProjectEvent[]
-): Date | null {
-  // Implementation would go here - placeholder for now
-  return null;
-}
+// Velocity and completion date forecasting: see ProjectForecast.ts
@@ -0,0 +1,294 @@
+/**
+ * Project Revenue Rules
+ *
+ * Money on top of the hours model:
+ * - Billing rate validation and resolution (phase → project → client default)
+ * - Earned-to-date revenue from completed and tracked events
+ * - Forecast revenue from planned events and auto-estimates
+ * - Budget burn in currency
+ *
+ * Fixed fees are earned in proportion to completed hours against budgeted hours
+ * (percent complete), capped at the fee. Hours beyond the budget still burn the
+ * budget, which shows the overrun as a lower effective hourly rate.
+ *
+ * @see ProjectBudget.ts - Hour-based budget calculations
+ */
+
+import type {
+  BillingRate,
+  CalendarEvent,
+  Client,
+  DayEstimate,
+  PhaseDTO,
+  Project
+} from '@/shared/types/core';
+import { calculateTotalTrackedHours } from '@/domain/rules/insights/AnalyticsCalculations';
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// ===== INTERFACES =====
+
+export const DEFAULT_CURRENCY = 'USD';
+
+const MAX_RATE_AMOUNT = 10_000_000;
+
+export type BillingRateSource = 'phase' | 'project' | 'client';
+
+export interface ResolvedBillingRate extends BillingRate {
+  source: BillingRateSource;
+}
+
+export interface RevenueFigures {
+  budgetHours: number;
+  completedHours: number;
+  forecastHours: number; // Completed + remaining planned and auto-estimated hours
+  budget: number; // Budgeted hours × rate, or the fixed fee
+  earned: number; // Revenue earned to date
+  forecast: number; // Expected revenue once remaining work is done
+  burned: number; // Completed hours valued at the rate (fixed fees: fee / budgeted hours)
+  burnPercentage: number; // burned / budget × 100, can exceed 100
+}
+
+export interface PhaseRevenue extends RevenueFigures {
+  phaseId: string;
+  phaseName: string;
+  rate: ResolvedBillingRate;
+}
+
+export interface ProjectRevenue extends RevenueFigures {
+  projectId: string;
+  currency: string;
+  rate?: ResolvedBillingRate; // Project-level rate; undefined = not billed
+  phases: PhaseRevenue[]; // Phases with their own rate
+  effectiveHourlyRate?: number; // forecast / forecastHours
+}
+
+export interface ProjectRevenueInput {
+  project: Project;
+  client?: Client; // Falls back to project.clientData
+  phases?: PhaseDTO[];
+  events: CalendarEvent[];
+  estimates?: DayEstimate[]; // From calculateProjectDayEstimates; only auto-estimates are used
+  referenceDate?: Date; // "Today" for splitting done from remaining work
+}
+
+export interface RevenueTotals {
+  currency: string;
+  projectCount: number;
+  budget: number;
+  earned: number;
+  forecast: number;
+  burned: number;
+}
+
+// ===== RATE VALIDATION & RESOLUTION =====
+
+/**
+ * Validate a billing rate
+ * @returns Validation errors (empty when valid or when no rate is set)
+ */
+export function validateBillingRate(rate: BillingRate | null | undefined): string[] {
+  if (!rate) return [];
+
+  const errors: string[] = [];
+  if (rate.type !== 'hourly' && rate.type !== 'fixed') {
+    errors.push('Billing rate must be hourly or a fixed fee');
+  }
+  if (!Number.isFinite(rate.amount) || rate.amount < 0) {
+    errors.push('Billing rate amount must be 0 or greater');
+  } else if (rate.amount > MAX_RATE_AMOUNT) {
+    errors.push('Billing rate amount is too large');
+  }
+  return errors;
+}
+
+/**
+ * Check for an ISO 4217 style currency code (e.g. "EUR")
+ */
+export function isValidCurrencyCode(code: string | null | undefined): boolean {
+  return typeof code === 'string' && /^[A-Z]{3}$/.test(code);
+}
+
+/**
+ * Resolve the rate that applies: phase → project → client default
+ */
+export function resolveBillingRate(
+  client?: Pick<Client, 'defaultRate'>,
+  project?: Pick<Project, 'billingRate'>,
+  phase?: Pick<PhaseDTO, 'billingRate'>
+): ResolvedBillingRate | undefined {
+  if (phase?.billingRate) return { ...phase.billingRate, source: 'phase' };
+  if (project?.billingRate) return { ...project.billingRate, source: 'project' };
+  if (client?.defaultRate) return { ...client.defaultRate, source: 'client' };
+  return undefined;
+}
+
+// ===== REVENUE CALCULATIONS =====
+
+interface RevenueSegment {
+  phase?: PhaseDTO;
+  start?: Date;
+  end?: Date;
+  budgetHours: number;
+  completedHours: number;
+  remainingHours: number;
+}
+
+/**
+ * Calculate earned, forecast and budget revenue for a project
+ *
+ * Time within a phase that has its own rate is billed at that rate;
+ * all other time uses the project rate (or the client default).
+ */
+export function calculateProjectRevenue(input: ProjectRevenueInput): ProjectRevenue {
+  const { project, events, estimates = [] } = input;
+  const client = input.client ?? project.clientData;
+  const today = normalizeToMidnight(input.referenceDate ?? new Date());
+
+  const phaseSegments: RevenueSegment[] = (input.phases ?? [])
+    .filter(phase => phase.projectId === project.id && phase.billingRate)
+    .map(phase => ({
+      phase,
+      start: normalizeToMidnight(new Date(phase.startDate ?? project.startDate)),
+      end: normalizeToMidnight(new Date(phase.endDate ?? phase.dueDate)),
+      budgetHours: phase.timeAllocationHours ?? phase.timeAllocation ?? 0,
+      completedHours: 0,
+      remainingHours: 0
+    }));
+  const projectSegment: RevenueSegment = {
+    budgetHours: Math.max(0, project.estimatedHours - sumBy(phaseSegments, segment => segment.budgetHours)),
+    completedHours: 0,
+    remainingHours: 0
+  };
+
+  const getSegment = (date: Date | string): RevenueSegment => {
+    const day = normalizeToMidnight(new Date(date));
+    return phaseSegments.find(segment => day >= segment.start! && day <= segment.end!) ?? projectSegment;
+  };
+
+  events
+    .filter(event => event.projectId === project.id && event.category !== 'task')
+    .forEach(event => {
+      const hours = calculateTotalTrackedHours([event]);
+      // Same "done" rule as Insights and timesheets
+      if (event.completed || event.type === 'tracked') {
+        getSegment(event.startTime).completedHours += hours;
+      } else if (new Date(event.startTime) >= today) {
+        getSegment(event.startTime).remainingHours += hours;
+      }
+    });
+
+  estimates
+    .filter(estimate => estimate.projectId === project.id && estimate.source !== 'event')
+    .filter(estimate => normalizeToMidnight(new Date(estimate.date)) >= today)
+    .forEach(estimate => {
+      getSegment(estimate.date).remainingHours += estimate.hours;
+    });
+
+  const rate = resolveBillingRate(client, project);
+  const phases: PhaseRevenue[] = phaseSegments.map(segment => {
+    const phaseRate = resolveBillingRate(client, project, segment.phase)!;
+    return {
+      phaseId: segment.phase!.id,
+      phaseName: segment.phase!.name,
+      rate: phaseRate,
+      ...calculateRevenueFigures(phaseRate, segment)
+    };
+  });
+
+  const figures = [calculateRevenueFigures(rate, projectSegment), ...phases];
+  const totals: RevenueFigures = {
+    budgetHours: project.estimatedHours,
+    completedHours: sumBy(figures, item => item.completedHours),
+    forecastHours: sumBy(figures, item => item.forecastHours),
+    budget: sumBy(figures, item => item.budget),
+    earned: sumBy(figures, item => item.earned),
+    forecast: sumBy(figures, item => item.forecast),
+    burned: sumBy(figures, item => item.burned),
+    burnPercentage: 0
+  };
+  totals.burnPercentage = totals.budget > 0 ? (totals.burned / totals.budget) * 100 : 0;
+
+  return {
+    projectId: project.id,
+    currency: client?.currency ?? DEFAULT_CURRENCY,
+    rate,
+    phases,
+    effectiveHourlyRate: totals.forecastHours > 0 && totals.forecast > 0
+      ? totals.forecast / totals.forecastHours
+      : undefined,
+    ...totals
+  };
+}
+
+/**
+ * Revenue figures for one block of hours billed at a single rate
+ */
+export function calculateRevenueFigures(
+  rate: BillingRate | undefined,
+  hours: { budgetHours: number; completedHours: number; remainingHours: number }
+): RevenueFigures {
+  const { budgetHours, completedHours, remainingHours } = hours;
+  const forecastHours = completedHours + remainingHours;
+  const base = { budgetHours, completedHours, forecastHours };
+
+  if (!rate) {
+    return { ...base, budget: 0, earned: 0, forecast: 0, burned: 0, burnPercentage: 0 };
+  }
+
+  if (rate.type === 'hourly') {
+    const budget = budgetHours * rate.amount;
+    const burned = completedHours * rate.amount;
+    return {
+      ...base,
+      budget,
+      earned: burned,
+      forecast: forecastHours * rate.amount,
+      burned,
+      burnPercentage: budget > 0 ? (burned / budget) * 100 : 0
+    };
+  }
+
+  // Fixed fee: earned by percent complete; without budgeted hours, earned once work starts
+  const progress = budgetHours > 0 ? completedHours / budgetHours : (completedHours > 0 ? 1 : 0);
+  const burned = rate.amount * progress;
+  return {
+    ...base,
+    budget: rate.amount,
+    earned: rate.amount * Math.min(1, progress),
+    forecast: rate.amount,
+    burned,
+    burnPercentage: rate.amount > 0 ? progress * 100 : 0
+  };
+}
+
+/**
+ * Total revenue per currency (amounts in different currencies are never added up)
+ */
+export function summarizeRevenueByCurrency(revenues: ProjectRevenue[]): RevenueTotals[] {
+  const totals = new Map<string, RevenueTotals>();
+
+  revenues
+    .filter(revenue => revenue.rate || revenue.phases.length > 0)
+    .forEach(revenue => {
+      const current = totals.get(revenue.currency) ?? {
+        currency: revenue.currency,
+        projectCount: 0,
+        budget: 0,
+        earned: 0,
+        forecast: 0,
+        burned: 0
+      };
+      current.projectCount += 1;
+      current.budget += revenue.budget;
+      current.earned += revenue.earned;
+      current.forecast += revenue.forecast;
+      current.burned += revenue.burned;
+      totals.set(revenue.currency, current);
+    });
+
+  return Array.from(totals.values()).sort((a, b) => a.currency.localeCompare(b.currency));
+}
+
+function sumBy<T>(items: T[], getValue: (item: T) => number): number {
+  return items.reduce((total, item) => total + getValue(item), 0);
+}
@@ -10,7 +10,7 @@
  * @see docs/core/Business Logic.md for complete rule documentation
  */
 
-import type { Project, PhaseDTO } from '@/shared/types/core';
+import type { Dependency, DependencyKind, Project, PhaseDTO } from '@/shared/types/core';
 import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';;
 
 // ============================================================================
@@ -42,6 +42,13 @@ export interface ProjectDateValidation {
   errors: string[];
 }
 
+export type DependencyCandidate = Pick<Dependency, 'kind' | 'predecessorId' | 'successorId' | 'type' | 'lagDays'>;
+
+export interface DependencyValidation {
+  isValid: boolean;
+  errors: string[];
+}
+
 // ============================================================================
 // PROJECT BUSINESS RULES
 // ============================================================================
@@ -497,5 +504,110 @@ export class ProjectRules {
     // Return the later of the two dates
     return minEndDate > currentEndDate ? minEndDate : currentEndDate;
   }
+
+  // ==========================================================================
+  // RULE 5: DEPENDENCIES MUST NOT FORM CYCLES
+  // ==========================================================================
+
+  /**
+   * RULE 5a: Find a dependency cycle among projects or phases of one kind
+   * 
+   * @param dependencies - Dependencies to check
+   * @param kind - Only dependencies of this kind are followed
+   * @returns Item ids along the first cycle found (first id repeated at the end), or null
+   */
+  static findDependencyCycle(
+    dependencies: DependencyCandidate[],
+    kind: DependencyKind
+  ): string[] | null {
+    const successors = new Map<string, string[]>();
+    dependencies
+      .filter(dependency => dependency.kind === kind)
+      .forEach(dependency => {
+        successors.set(dependency.predecessorId, [...(successors.get(dependency.predecessorId) || []), dependency.successorId]);
+      });
+
+    const done = new Set<string>();
+    const path: string[] = [];
+
+    const visit = (id: string): string[] | null => {
+      const index = path.indexOf(id);
+      if (index !== -1) return [...path.slice(index), id];
+      if (done.has(id)) return null;
+
+      path.push(id);
+      for (const next of successors.get(id) || []) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+      path.pop();
+      done.add(id);
+      return null;
+    };
+
+    for (const id of successors.keys()) {
+      const cycle = visit(id);
+      if (cycle) return cycle;
+    }
+    return null;
+  }
+
+  /**
+   * RULE 5b: Validate a new dependency against the existing ones
+   * 
+   * Rejects self-dependencies, duplicates, negative lag and links that would
+   * close a cycle. With phases given, a phase cannot wait on a later phase of
+   * its own project (phases of a project already run in order).
+   * 
+   * @param candidate - The dependency to add
+   * @param existing - Dependencies already defined
+   * @param phases - Phases, to check phases of the same project
+   * @returns Validation result with errors
+   */
+  static validateDependency(
+    candidate: DependencyCandidate,
+    existing: DependencyCandidate[],
+    phases: PhaseDTO[] = []
+  ): DependencyValidation {
+    const errors: string[] = [];
+
+    if (candidate.predecessorId === candidate.successorId) {
+      errors.push(`A ${candidate.kind} cannot depend on itself`);
+    }
+
+    if (!Number.isInteger(candidate.lagDays) || candidate.lagDays < 0) {
+      errors.push('Lag must be a whole number of days (0 or more)');
+    }
+
+    const isDuplicate = existing.some(dependency =>
+      dependency.kind === candidate.kind &&
+      dependency.predecessorId === candidate.predecessorId &&
+      dependency.successorId === candidate.successorId
+    );
+    if (isDuplicate) {
+      errors.push('This dependency already exists');
+    }
+
+    if (candidate.kind === 'phase') {
+      const predecessor = phases.find(phase => phase.id === candidate.predecessorId);
+      const successor = phases.find(phase => phase.id === candidate.successorId);
+      if (
+        predecessor && successor &&
+        predecessor.projectId === successor.projectId &&
+        new Date(successor.startDate || successor.endDate) < new Date(predecessor.startDate || predecessor.endDate)
+      ) {
+        errors.push('A phase cannot depend on a later phase of the same project');
+      }
+    }
+
+    if (errors.length === 0 && this.findDependencyCycle([...existing, candidate], candidate.kind)) {
+      errors.push(`This dependency would create a cycle between ${candidate.kind === 'project' ? 'projects' : 'phases'}`);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
 }
 
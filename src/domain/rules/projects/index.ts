@@ -8,6 +8,8 @@
  * - ProjectBudget.ts - Budget calculations and tracking (migrated from domain-services)
  * - ProjectIntegrity.ts - Project referential integrity validation ✅
  * - ProjectDeletionImpact.ts - Project deletion cascade analysis ✅
+ * - ProjectRevenue.ts - Billing rates, earned and forecast revenue
+ * - ProjectForecast.ts - Velocity, projected finish date and deadline risk
  */
 
 // Core validation rules
@@ -21,3 +23,9 @@ export * from './ProjectIntegrity';
 
 // Deletion impact analysis
 export * from './ProjectDeletionImpact';
+
+// Billing rates and revenue
+export * from './ProjectRevenue';
+
+// Velocity and deadline-risk forecasting
+export * from './ProjectForecast';
@@ -0,0 +1,298 @@
+/**
+ * Scenario Sandbox Rules
+ *
+ * Pure rules for "what-if" capacity planning:
+ * - Cloning projects, phases, holidays and work slots into an in-memory scenario
+ * - Hypothetical changes (add projects, stretch deadlines, add holidays, ...)
+ * - Diffing a scenario against the reality it was cloned from
+ * - Detecting conflicts with changes made to reality since the scenario started
+ *
+ * Work hours resolve like everywhere else (resolveWorkWeek): schedule templates
+ * replace the default weekly work hours on the dates they cover. Templates are
+ * read-only in a scenario; work hour changes edit the default week.
+ *
+ * Scenarios never touch the database. Capacity comparison lives in
+ * ScenarioCapacityAggregate and applying a scenario in ScenarioOrchestrator.
+ */
+
+import type { Holiday, PhaseDTO, Project, Settings, WorkScheduleTemplate } from '@/shared/types/core';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface ScenarioSnapshot {
+  projects: Project[];
+  phases: PhaseDTO[];
+  holidays: Holiday[];
+  weeklyWorkHours: Settings['weeklyWorkHours']; // Default week
+  workSchedules?: WorkScheduleTemplate[]; // Templates replacing the default week on their dates
+}
+
+export interface Scenario {
+  name: string;
+  createdAt: Date;
+  baseline: ScenarioSnapshot; // Reality when the scenario started (never modified)
+  current: ScenarioSnapshot; // Reality plus hypothetical changes
+}
+
+export type ScenarioChangeType = 'added' | 'updated' | 'removed';
+
+export interface ScenarioEntityChange<T> {
+  type: ScenarioChangeType;
+  id: string;
+  name: string;
+  fields: string[]; // Changed fields (updates only)
+  before?: T;
+  after?: T;
+}
+
+export interface ScenarioDiff {
+  projects: ScenarioEntityChange<Project>[];
+  phases: ScenarioEntityChange<PhaseDTO>[];
+  holidays: ScenarioEntityChange<Holiday>[];
+  workHoursChanged: boolean;
+  changeCount: number;
+}
+
+/**
+ * Fields that never count as a hypothetical change
+ * (metadata, joined data and legacy mirrors of other fields)
+ */
+const IGNORED_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'userId',
+  'clientData',
+  'phases',
+  'status',
+  'dueDate',
+  'timeAllocation'
+]);
+
+// ============================================================================
+// CREATING A SCENARIO
+// ============================================================================
+
+/**
+ * Clone reality into a new scenario
+ */
+export function createScenario(snapshot: ScenarioSnapshot, name: string = 'What if'): Scenario {
+  return {
+    name,
+    createdAt: new Date(),
+    baseline: cloneSnapshot(snapshot),
+    current: cloneSnapshot(snapshot)
+  };
+}
+
+function cloneSnapshot(snapshot: ScenarioSnapshot): ScenarioSnapshot {
+  return structuredClone({
+    projects: snapshot.projects,
+    phases: snapshot.phases,
+    holidays: snapshot.holidays,
+    weeklyWorkHours: snapshot.weeklyWorkHours,
+    workSchedules: snapshot.workSchedules ?? []
+  });
+}
+
+function withCurrent(scenario: Scenario, changes: Partial<ScenarioSnapshot>): Scenario {
+  return { ...scenario, current: { ...scenario.current, ...changes } };
+}
+
+// ============================================================================
+// HYPOTHETICAL CHANGES
+// ============================================================================
+
+export function addScenarioProject(scenario: Scenario, project: Project): Scenario {
+  return withCurrent(scenario, { projects: [...scenario.current.projects, project] });
+}
+
+export function updateScenarioProject(scenario: Scenario, id: string, updates: Partial<Project>): Scenario {
+  return withCurrent(scenario, {
+    projects: scenario.current.projects.map(project =>
+      project.id === id ? { ...project, ...updates, id } : project
+    )
+  });
+}
+
+/**
+ * Remove a project and its phases
+ */
+export function removeScenarioProject(scenario: Scenario, id: string): Scenario {
+  return withCurrent(scenario, {
+    projects: scenario.current.projects.filter(project => project.id !== id),
+    phases: scenario.current.phases.filter(phase => phase.projectId !== id)
+  });
+}
+
+export function addScenarioPhase(scenario: Scenario, phase: PhaseDTO): Scenario {
+  return withCurrent(scenario, { phases: [...scenario.current.phases, phase] });
+}
+
+/**
+ * Update a phase, keeping the legacy dueDate/timeAllocation mirrors in sync
+ */
+export function updateScenarioPhase(scenario: Scenario, id: string, updates: Partial<PhaseDTO>): Scenario {
+  const endDate = updates.endDate ?? updates.dueDate;
+  const hours = updates.timeAllocationHours ?? updates.timeAllocation;
+  const normalized: Partial<PhaseDTO> = {
+    ...updates,
+    ...(endDate !== undefined && { endDate, dueDate: endDate }),
+    ...(hours !== undefined && { timeAllocationHours: hours, timeAllocation: hours })
+  };
+
+  return withCurrent(scenario, {
+    phases: scenario.current.phases.map(phase =>
+      phase.id === id ? { ...phase, ...normalized, id } : phase
+    )
+  });
+}
+
+export function removeScenarioPhase(scenario: Scenario, id: string): Scenario {
+  return withCurrent(scenario, { phases: scenario.current.phases.filter(phase => phase.id !== id) });
+}
+
+export function addScenarioHoliday(scenario: Scenario, holiday: Holiday): Scenario {
+  return withCurrent(scenario, { holidays: [...scenario.current.holidays, holiday] });
+}
+
+export function updateScenarioHoliday(scenario: Scenario, id: string, updates: Partial<Holiday>): Scenario {
+  return withCurrent(scenario, {
+    holidays: scenario.current.holidays.map(holiday =>
+      holiday.id === id ? { ...holiday, ...updates, id } : holiday
+    )
+  });
+}
+
+export function removeScenarioHoliday(scenario: Scenario, id: string): Scenario {
+  return withCurrent(scenario, { holidays: scenario.current.holidays.filter(holiday => holiday.id !== id) });
+}
+
+/**
+ * Change the default week (dates covered by a schedule template keep the template's week)
+ */
+export function updateScenarioWorkHours(
+  scenario: Scenario,
+  weeklyWorkHours: Settings['weeklyWorkHours']
+): Scenario {
+  return withCurrent(scenario, { weeklyWorkHours });
+}
+
+// ============================================================================
+// DIFF & CONFLICTS
+// ============================================================================
+
+/**
+ * Compare a scenario against the reality it was cloned from
+ */
+export function diffScenario(scenario: Scenario): ScenarioDiff {
+  const { baseline, current } = scenario;
+  const projects = diffEntities(baseline.projects, current.projects, project => project.name);
+  const phases = diffEntities(baseline.phases, current.phases, phase => phase.name);
+  const holidays = diffEntities(baseline.holidays, current.holidays, holiday => holiday.title);
+  const workHoursChanged = !valuesEqual(baseline.weeklyWorkHours, current.weeklyWorkHours);
+
+  return {
+    projects,
+    phases,
+    holidays,
+    workHoursChanged,
+    changeCount: projects.length + phases.length + holidays.length + (workHoursChanged ? 1 : 0)
+  };
+}
+
+function diffEntities<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  getName: (entity: T) => string
+): ScenarioEntityChange<T>[] {
+  const beforeById = new Map(before.map(entity => [entity.id, entity]));
+  const afterById = new Map(after.map(entity => [entity.id, entity]));
+  const changes: ScenarioEntityChange<T>[] = [];
+
+  after.forEach(entity => {
+    const original = beforeById.get(entity.id);
+    if (!original) {
+      changes.push({ type: 'added', id: entity.id, name: getName(entity), fields: [], after: entity });
+      return;
+    }
+    const fields = getChangedFields(original, entity);
+    if (fields.length > 0) {
+      changes.push({ type: 'updated', id: entity.id, name: getName(entity), fields, before: original, after: entity });
+    }
+  });
+
+  before.forEach(entity => {
+    if (!afterById.has(entity.id)) {
+      changes.push({ type: 'removed', id: entity.id, name: getName(entity), fields: [], before: entity });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Fields whose values differ between two versions of an entity
+ */
+export function getChangedFields<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(keys)
+    .filter(key => !IGNORED_FIELDS.has(key))
+    .filter(key => !valuesEqual(before[key as keyof T], after[key as keyof T]))
+    .sort();
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+  }
+  if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return a === b;
+}
+
+/**
+ * Find scenario changes that would overwrite changes made to reality
+ * since the scenario was created
+ *
+ * @param latest - Reality as it is now
+ * @returns Human-readable conflicts (empty when safe to apply)
+ */
+export function findScenarioConflicts(scenario: Scenario, latest: ScenarioSnapshot): string[] {
+  const diff = diffScenario(scenario);
+  const conflicts: string[] = [];
+
+  const check = <T extends { id: string; updatedAt?: Date }>(
+    changes: ScenarioEntityChange<T>[],
+    latestEntities: T[],
+    label: string
+  ) => {
+    const latestById = new Map(latestEntities.map(entity => [entity.id, entity]));
+    changes
+      .filter(change => change.type !== 'added')
+      .forEach(change => {
+        const now = latestById.get(change.id);
+        if (!now) {
+          conflicts.push(`${label} "${change.name}" was deleted after the scenario started`);
+        } else if (change.before?.updatedAt && now.updatedAt && !valuesEqual(change.before.updatedAt, now.updatedAt)) {
+          conflicts.push(`${label} "${change.name}" was edited after the scenario started`);
+        }
+      });
+  };
+
+  check(diff.projects, latest.projects, 'Project');
+  check(diff.phases, latest.phases, 'Phase');
+  check(diff.holidays, latest.holidays, 'Holiday');
+
+  if (diff.workHoursChanged && !valuesEqual(scenario.baseline.weeklyWorkHours, latest.weeklyWorkHours)) {
+    conflicts.push('Work hours were edited after the scenario started');
+  }
+  // The edited default week was planned around the templates of that time
+  if (diff.workHoursChanged && !valuesEqual(scenario.baseline.workSchedules ?? [], latest.workSchedules ?? [])) {
+    conflicts.push('Work schedules were edited after the scenario started');
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,8 @@
+/**
+ * Scenario Domain Rules
+ * 
+ * Exports all what-if scenario business rules:
+ * - ScenarioSandbox.ts - In-memory scenarios, hypothetical changes, diff and conflicts
+ */
+
+export * from './ScenarioSandbox';
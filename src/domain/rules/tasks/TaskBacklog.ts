@@ -0,0 +1,208 @@
+/**
+ * Task Backlog Rules
+ *
+ * Unscheduled project tasks with estimates and due dates:
+ * - A task is scheduled while its planned event exists; deleting the event puts
+ *   the task back in the backlog
+ * - Open, unscheduled estimates count as unscheduled planned time of the project
+ *   (scheduled tasks are already counted through their events)
+ * - Auto-placement puts each task in one free work slot gap long enough for its
+ *   estimate, before its due date, earliest due date first
+ *
+ * @see EstimateMaterialization.ts - findFreeGaps() (free work slot time)
+ */
+
+import type { CalendarEvent, Project, ProjectTask, WorkHour } from '@/shared/types/core';
+import { findFreeGaps, type TimeBlock } from '@/domain/rules/events/EstimateMaterialization';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const TASK_BACKLOG_CONFIG = {
+  MAX_ESTIMATE_HOURS: 24, // A task has to fit in one day
+  MAX_TITLE_LENGTH: 200,
+  HORIZON_DAYS: 14, // How far ahead tasks without a due date are placed
+  HOUR_MS: 60 * 60 * 1000
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export interface TaskInput {
+  title: string;
+  estimatedHours: number;
+  dueDate?: Date;
+}
+
+export interface TaskValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface TaskPlacement {
+  taskId: string;
+  block: TimeBlock | null; // null = no free gap long enough before the due date
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function validateTask(input: TaskInput): TaskValidationResult {
+  const errors: string[] = [];
+  const { MAX_ESTIMATE_HOURS, MAX_TITLE_LENGTH } = TASK_BACKLOG_CONFIG;
+
+  if (!input.title.trim()) {
+    errors.push('Task title is required');
+  } else if (input.title.length > MAX_TITLE_LENGTH) {
+    errors.push(`Task title cannot exceed ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  if (!Number.isFinite(input.estimatedHours) || input.estimatedHours <= 0) {
+    errors.push('Estimate must be greater than zero');
+  } else if (input.estimatedHours > MAX_ESTIMATE_HOURS) {
+    errors.push(`Estimate cannot exceed ${MAX_ESTIMATE_HOURS} hours`);
+  }
+
+  if (input.dueDate && isNaN(input.dueDate.getTime())) {
+    errors.push('Due date is invalid');
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// BACKLOG
+// ============================================================================
+
+/**
+ * Whether the task's planned event still exists
+ */
+export function isTaskScheduled(task: ProjectTask, eventIds: Set<string>): boolean {
+  return !!task.scheduledEventId && eventIds.has(task.scheduledEventId);
+}
+
+/**
+ * Due on or before the given day and not done
+ */
+export function isTaskOverdue(task: ProjectTask, referenceDate: Date = new Date()): boolean {
+  if (task.completed || !task.dueDate) return false;
+  return normalizeToMidnight(new Date(task.dueDate)) < normalizeToMidnight(new Date(referenceDate));
+}
+
+/**
+ * Earliest due date first; tasks without a due date last, then by sort order
+ */
+export function sortTasksByDueDate(tasks: ProjectTask[]): ProjectTask[] {
+  return [...tasks].sort((a, b) => {
+    const aDue = a.dueDate ? new Date(a.dueDate).getTime() : Infinity;
+    const bDue = b.dueDate ? new Date(b.dueDate).getTime() : Infinity;
+    if (aDue !== bDue) return aDue - bDue;
+    return a.sortOrder - b.sortOrder;
+  });
+}
+
+/**
+ * Open tasks that are not on the calendar, earliest due date first
+ */
+export function getBacklogTasks(tasks: ProjectTask[], events: Pick<CalendarEvent, 'id'>[]): ProjectTask[] {
+  const eventIds = new Set(events.map(event => event.id));
+  return sortTasksByDueDate(tasks.filter(task => !task.completed && !isTaskScheduled(task, eventIds)));
+}
+
+/**
+ * Unscheduled planned hours of a project's backlog
+ */
+export function calculateBacklogHours(
+  tasks: ProjectTask[],
+  events: Pick<CalendarEvent, 'id'>[],
+  projectId: string
+): number {
+  return getBacklogTasks(tasks.filter(task => task.projectId === projectId), events)
+    .reduce((sum, task) => sum + task.estimatedHours, 0);
+}
+
+// ============================================================================
+// PLACEMENT
+// ============================================================================
+
+/**
+ * First free gap that fits the whole estimate, from `from` up to the due date
+ */
+export function findTaskSlot(
+  task: ProjectTask,
+  events: CalendarEvent[],
+  getWorkHours: (date: Date) => WorkHour[],
+  from: Date
+): TimeBlock | null {
+  const { HORIZON_DAYS, HOUR_MS } = TASK_BACKLOG_CONFIG;
+  const lastDay = task.dueDate
+    ? normalizeToMidnight(new Date(task.dueDate))
+    : addDaysToDate(normalizeToMidnight(new Date(from)), HORIZON_DAYS - 1);
+  const needed = task.estimatedHours * HOUR_MS;
+
+  for (let date = normalizeToMidnight(new Date(from)); date <= lastDay; date = addDaysToDate(date, 1)) {
+    const dayEnd = addDaysToDate(date, 1);
+    const dayEvents = events.filter(event => event.startTime < dayEnd && event.endTime > date);
+
+    for (const gap of findFreeGaps(dayEvents, getWorkHours(date))) {
+      const start = gap.startTime < from ? from : gap.startTime;
+      if (gap.endTime.getTime() - start.getTime() >= needed) {
+        return { startTime: new Date(start), endTime: new Date(start.getTime() + needed) };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Place several tasks without overlapping each other
+ * Tasks are placed earliest due date first; each placement occupies its time.
+ */
+export function planTaskPlacements(
+  tasks: ProjectTask[],
+  events: CalendarEvent[],
+  getWorkHours: (date: Date) => WorkHour[],
+  from: Date
+): TaskPlacement[] {
+  const occupied = [...events];
+
+  return sortTasksByDueDate(tasks).map(task => {
+    const block = findTaskSlot(task, occupied, getWorkHours, from);
+    if (block) {
+      occupied.push({
+        id: `task-${task.id}`,
+        title: task.title,
+        startTime: block.startTime,
+        endTime: block.endTime,
+        projectId: task.projectId,
+        color: '',
+        category: 'event',
+        type: 'planned'
+      });
+    }
+    return { taskId: task.id, block };
+  });
+}
+
+/**
+ * Planned project event for a scheduled task
+ */
+export function toTaskEvent(task: ProjectTask, startTime: Date, project: Project): Omit<CalendarEvent, 'id'> {
+  const endTime = new Date(startTime.getTime() + task.estimatedHours * TASK_BACKLOG_CONFIG.HOUR_MS);
+  return {
+    title: task.title,
+    description: task.notes,
+    startTime,
+    endTime,
+    duration: task.estimatedHours,
+    projectId: project.id,
+    color: project.color,
+    completed: false,
+    category: 'event',
+    type: 'planned'
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Task Domain Rules
+ * 
+ * Exports all project task business rules:
+ * - TaskBacklog.ts - Task validation, backlog hours, due dates and auto-placement
+ */
+
+export * from './TaskBacklog';
@@ -0,0 +1,207 @@
+/**
+ * Focus Session Rules
+ *
+ * Pomodoro-style focus mode on top of time tracking:
+ * - A work interval is tracked against the project like any tracked time
+ * - When the work interval ends, tracking auto-pauses and a break starts
+ *   (every Nth break is a long break)
+ * - When the break ends the session waits ('ready') for the next work interval
+ * - Breaks can be logged as separate non-project events
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Starting/stopping the tracked event (timeTrackingOrchestrator handles this)
+ * - Timers (the TimeTracker component ticks and asks for the next phase)
+ */
+
+import type { CalendarEvent } from '@/shared/types/core';
+import type {
+  FocusSessionState,
+  FocusSettings,
+  SerializedFocusSessionState
+} from '@/shared/types/timeTracking';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const FOCUS_SESSION_CONFIG = {
+  DEFAULT_SETTINGS: {
+    workMinutes: 25,
+    breakMinutes: 5,
+    longBreakMinutes: 15,
+    sessionsBeforeLongBreak: 4,
+    autoLogBreaks: false
+  } as FocusSettings,
+  MAX_WORK_MINUTES: 180,
+  MAX_BREAK_MINUTES: 60,
+  MAX_SESSIONS_BEFORE_LONG_BREAK: 12,
+  WORK_EVENT_TITLE: 'Focus Session', // Default title of tracked work intervals (marked by focusSession)
+  BREAK_EVENT_TITLE: 'Break',
+  BREAK_EVENT_COLOR: '#9CA3AF', // gray-400
+  MIN_LOGGED_BREAK_MS: 60 * 1000 // Shorter breaks are not logged
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface FocusSettingsValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function validateFocusSettings(settings: FocusSettings): FocusSettingsValidationResult {
+  const errors: string[] = [];
+  const { MAX_WORK_MINUTES, MAX_BREAK_MINUTES, MAX_SESSIONS_BEFORE_LONG_BREAK } = FOCUS_SESSION_CONFIG;
+  const isWholeInRange = (value: number, max: number) => Number.isInteger(value) && value >= 1 && value <= max;
+
+  if (!isWholeInRange(settings.workMinutes, MAX_WORK_MINUTES)) {
+    errors.push(`Work interval must be between 1 and ${MAX_WORK_MINUTES} minutes`);
+  }
+  if (!isWholeInRange(settings.breakMinutes, MAX_BREAK_MINUTES)) {
+    errors.push(`Break must be between 1 and ${MAX_BREAK_MINUTES} minutes`);
+  }
+  if (!isWholeInRange(settings.longBreakMinutes, MAX_BREAK_MINUTES)) {
+    errors.push(`Long break must be between 1 and ${MAX_BREAK_MINUTES} minutes`);
+  }
+  if (!isWholeInRange(settings.sessionsBeforeLongBreak, MAX_SESSIONS_BEFORE_LONG_BREAK)) {
+    errors.push(`Long break interval must be between 1 and ${MAX_SESSIONS_BEFORE_LONG_BREAK} sessions`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+// ============================================================================
+// PHASES
+// ============================================================================
+
+/**
+ * Whether the current break is a long break (every Nth completed work interval)
+ */
+export function isLongBreak(session: FocusSessionState): boolean {
+  return session.phase === 'break'
+    && session.completedSessions > 0
+    && session.completedSessions % session.settings.sessionsBeforeLongBreak === 0;
+}
+
+/**
+ * Length of the current phase in milliseconds (null while waiting in 'ready')
+ */
+export function getFocusPhaseDurationMs(session: FocusSessionState): number | null {
+  if (session.phase === 'work') return session.settings.workMinutes * MINUTE_MS;
+  if (session.phase === 'break') {
+    const minutes = isLongBreak(session) ? session.settings.longBreakMinutes : session.settings.breakMinutes;
+    return minutes * MINUTE_MS;
+  }
+  return null;
+}
+
+/**
+ * When the current phase ends (null while waiting in 'ready')
+ */
+export function getFocusPhaseEnd(session: FocusSessionState): Date | null {
+  const duration = getFocusPhaseDurationMs(session);
+  return duration === null ? null : new Date(session.phaseStartedAt.getTime() + duration);
+}
+
+/**
+ * Whole seconds left in the current phase (0 once it has ended or while 'ready')
+ */
+export function getFocusRemainingSeconds(session: FocusSessionState, now: Date = new Date()): number {
+  const end = getFocusPhaseEnd(session);
+  if (!end) return 0;
+  return Math.max(0, Math.ceil((end.getTime() - now.getTime()) / 1000));
+}
+
+export function isFocusPhaseComplete(session: FocusSessionState, now: Date = new Date()): boolean {
+  const end = getFocusPhaseEnd(session);
+  return !!end && now >= end;
+}
+
+/**
+ * Begin a focus session with a work interval
+ */
+export function startFocusSession(
+  settings: FocusSettings,
+  project: FocusSessionState['project'],
+  now: Date = new Date()
+): FocusSessionState {
+  return { settings, phase: 'work', phaseStartedAt: now, completedSessions: 0, project };
+}
+
+/**
+ * Move to the next phase once the current one has ended
+ * Work → break → ready. The next phase starts at the scheduled end of the
+ * current one, so a late timer tick does not shift the schedule.
+ */
+export function completeFocusPhase(session: FocusSessionState): FocusSessionState {
+  const end = getFocusPhaseEnd(session);
+  if (!end) return session;
+
+  if (session.phase === 'work') {
+    return { ...session, phase: 'break', phaseStartedAt: end, completedSessions: session.completedSessions + 1 };
+  }
+  return { ...session, phase: 'ready', phaseStartedAt: end };
+}
+
+/**
+ * Start the next work interval (from 'ready', or skipping the rest of a break)
+ */
+export function resumeFocusSession(session: FocusSessionState, now: Date = new Date()): FocusSessionState {
+  return { ...session, phase: 'work', phaseStartedAt: now };
+}
+
+/**
+ * Break time to log when a break ends or is cut short (null if too short or not logged)
+ */
+export function getBreakToLog(session: FocusSessionState, now: Date = new Date()): { startTime: Date; endTime: Date } | null {
+  if (session.phase !== 'break' || !session.settings.autoLogBreaks) return null;
+  const end = getFocusPhaseEnd(session)!;
+  const endTime = now < end ? now : end;
+  if (endTime.getTime() - session.phaseStartedAt.getTime() < FOCUS_SESSION_CONFIG.MIN_LOGGED_BREAK_MS) return null;
+  return { startTime: new Date(session.phaseStartedAt), endTime };
+}
+
+// ============================================================================
+// SESSION COUNTS
+// ============================================================================
+
+/**
+ * Finished focus work intervals per project (events marked as focus sessions,
+ * whatever their title)
+ */
+export function countFocusSessionsByProject(
+  events: Pick<CalendarEvent, 'focusSession' | 'projectId' | 'startTime' | 'type'>[],
+  from?: Date,
+  to?: Date
+): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const event of events) {
+    if (!event.focusSession || !event.projectId) continue;
+    if (event.type === 'planned') continue;
+    const start = new Date(event.startTime);
+    if ((from && start < from) || (to && start >= to)) continue;
+    counts.set(event.projectId, (counts.get(event.projectId) || 0) + 1);
+  }
+  return counts;
+}
+
+// ============================================================================
+// SERIALIZATION (time_tracking_state JSON)
+// ============================================================================
+
+export function serializeFocusSession(session: FocusSessionState | null | undefined): SerializedFocusSessionState | null {
+  if (!session) return null;
+  return { ...session, phaseStartedAt: session.phaseStartedAt.toISOString() };
+}
+
+export function deserializeFocusSession(session: SerializedFocusSessionState | null | undefined): FocusSessionState | null {
+  if (!session) return null;
+  return {
+    ...session,
+    settings: { ...FOCUS_SESSION_CONFIG.DEFAULT_SETTINGS, ...session.settings },
+    phaseStartedAt: new Date(session.phaseStartedAt)
+  };
+}
@@ -0,0 +1,221 @@
+/**
+ * Session Adjustment Rules
+ *
+ * Correcting tracked time after the fact:
+ * - Idle detection: a gap without activity while tracking is an idle span
+ * - Idle time can be kept, discarded or reassigned to another project
+ * - A finished session can be split into several project segments
+ *
+ * Both flows describe the session as contiguous segments; a segment without a
+ * project is discarded time. The segments are then turned into event changes.
+ *
+ * NOT RESPONSIBLE FOR:
+ * - Listening for activity (useIdleDetection hook)
+ * - Stopping the tracker or writing events (orchestrators)
+ */
+
+import type { CalendarEvent } from '@/shared/types/core';
+import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const SESSION_ADJUSTMENT_CONFIG = {
+  IDLE_THRESHOLD_MINUTES: 15, // Away at least this long before asking
+  MIN_SEGMENT_MINUTES: 1
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface IdleSpan {
+  startTime: Date;
+  endTime: Date;
+  minutes: number;
+}
+
+export type IdleResolution = 'keep' | 'discard' | 'reassign';
+
+export interface SessionSegment {
+  startTime: Date;
+  endTime: Date;
+  projectId: string | null; // null = discarded time
+}
+
+export interface SessionSpan {
+  startTime: Date;
+  endTime: Date;
+  projectId?: string;
+}
+
+export interface SessionSegmentValidationResult {
+  isValid: boolean;
+  errors: string[];
+}
+
+export interface SessionAdjustmentPlan {
+  update: Partial<CalendarEvent> | null; // Changes to the original event
+  create: Omit<CalendarEvent, 'id'>[];
+  deleteOriginal: boolean; // Nothing of the session is kept
+}
+
+// ============================================================================
+// IDLE DETECTION
+// ============================================================================
+
+/**
+ * Idle span between the last activity and now, if long enough to ask about
+ * Time before the session started is not idle time of the session.
+ */
+export function detectIdleSpan(
+  lastActivityAt: Date,
+  now: Date,
+  trackingStart: Date | null = null,
+  thresholdMinutes: number = SESSION_ADJUSTMENT_CONFIG.IDLE_THRESHOLD_MINUTES
+): IdleSpan | null {
+  const startTime = trackingStart && trackingStart > lastActivityAt ? trackingStart : lastActivityAt;
+  const minutes = Math.floor((now.getTime() - startTime.getTime()) / MINUTE_MS);
+  if (minutes < thresholdMinutes) return null;
+  return { startTime: new Date(startTime), endTime: new Date(now), minutes };
+}
+
+/**
+ * Segments of a session after resolving an idle span inside it
+ */
+export function resolveIdleSegments(
+  session: SessionSpan,
+  idle: Pick<IdleSpan, 'startTime' | 'endTime'>,
+  resolution: IdleResolution,
+  reassignProjectId?: string
+): SessionSegment[] {
+  const projectId = session.projectId ?? null;
+  if (resolution === 'keep') {
+    return [{ startTime: new Date(session.startTime), endTime: new Date(session.endTime), projectId }];
+  }
+
+  const idleStart = idle.startTime > session.startTime ? idle.startTime : session.startTime;
+  const idleEnd = idle.endTime < session.endTime ? idle.endTime : session.endTime;
+  const idleProjectId = resolution === 'reassign' ? reassignProjectId ?? null : null;
+
+  return mergeSegments([
+    { startTime: new Date(session.startTime), endTime: new Date(idleStart), projectId },
+    { startTime: new Date(idleStart), endTime: new Date(idleEnd), projectId: idleProjectId },
+    { startTime: new Date(idleEnd), endTime: new Date(session.endTime), projectId }
+  ]);
+}
+
+// ============================================================================
+// SPLITTING
+// ============================================================================
+
+/**
+ * Split a session at the given times, every part keeping the session's project
+ */
+export function splitSessionAt(session: SessionSpan, boundaries: Date[]): SessionSegment[] {
+  const cuts = boundaries
+    .filter(time => time > session.startTime && time < session.endTime)
+    .sort((a, b) => a.getTime() - b.getTime());
+  const edges = [session.startTime, ...cuts, session.endTime];
+
+  return edges.slice(1).map((endTime, i) => ({
+    startTime: new Date(edges[i]),
+    endTime: new Date(endTime),
+    projectId: session.projectId ?? null
+  }));
+}
+
+/**
+ * Segments must cover the session back to back, each at least a minute long
+ */
+export function validateSessionSegments(session: SessionSpan, segments: SessionSegment[]): SessionSegmentValidationResult {
+  const errors: string[] = [];
+  const minMs = SESSION_ADJUSTMENT_CONFIG.MIN_SEGMENT_MINUTES * MINUTE_MS;
+
+  if (segments.length === 0) {
+    return { isValid: false, errors: ['At least one segment is required'] };
+  }
+  if (segments[0].startTime.getTime() !== session.startTime.getTime()
+    || segments[segments.length - 1].endTime.getTime() !== session.endTime.getTime()) {
+    errors.push('Segments must cover the whole session');
+  }
+  if (segments.some((segment, i) => i > 0 && segment.startTime.getTime() !== segments[i - 1].endTime.getTime())) {
+    errors.push('Segments must follow each other without gaps or overlaps');
+  }
+  if (segments.some(segment => segment.endTime.getTime() - segment.startTime.getTime() < minMs)) {
+    errors.push(`Each segment must be at least ${SESSION_ADJUSTMENT_CONFIG.MIN_SEGMENT_MINUTES} minute long`);
+  }
+
+  return { isValid: errors.length === 0, errors };
+}
+
+/**
+ * Join neighbouring segments of the same project and drop empty ones
+ */
+export function mergeSegments(segments: SessionSegment[]): SessionSegment[] {
+  const merged: SessionSegment[] = [];
+  for (const segment of segments) {
+    if (segment.endTime <= segment.startTime) continue;
+    const previous = merged[merged.length - 1];
+    if (previous && previous.projectId === segment.projectId && previous.endTime.getTime() === segment.startTime.getTime()) {
+      previous.endTime = new Date(segment.endTime);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+// ============================================================================
+// EVENT CHANGES
+// ============================================================================
+
+/**
+ * Turn segments of a tracked event into event changes
+ * The first kept segment stays on the original event; other kept segments
+ * become new completed events with the same look as tracked time.
+ */
+export function planSessionAdjustment(
+  event: CalendarEvent,
+  segments: SessionSegment[],
+  projects: { id: string; name: string; color: string }[]
+): SessionAdjustmentPlan {
+  const kept = mergeSegments(segments).filter(segment => segment.projectId !== null);
+  if (kept.length === 0) {
+    return { update: null, create: [], deleteOriginal: true };
+  }
+
+  const toEventFields = (segment: SessionSegment): Partial<CalendarEvent> => {
+    const fields: Partial<CalendarEvent> = {
+      startTime: new Date(segment.startTime),
+      endTime: new Date(segment.endTime),
+      duration: calculateDurationHours(segment.startTime, segment.endTime)
+    };
+    if (segment.projectId !== event.projectId) {
+      const project = projects.find(p => p.id === segment.projectId);
+      fields.projectId = segment.projectId ?? undefined;
+      fields.color = project?.color ?? event.color;
+      fields.description = project ? `🔴 ${project.name}` : event.description;
+    }
+    return fields;
+  };
+
+  const [first, ...rest] = kept;
+  return {
+    update: toEventFields(first),
+    create: rest.map(segment => ({
+      title: event.title,
+      description: event.description,
+      projectId: event.projectId,
+      color: event.color,
+      category: event.category,
+      type: 'completed',
+      completed: true,
+      ...toEventFields(segment)
+    }) as Omit<CalendarEvent, 'id'>),
+    deleteOriginal: false
+  };
+}
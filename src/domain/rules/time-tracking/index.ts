@@ -3,3 +3,5 @@
  */
 
 export * from './TimeTrackerHelpers';
+export * from './FocusSession';
+export * from './SessionAdjustment';
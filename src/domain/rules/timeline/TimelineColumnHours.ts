@@ -0,0 +1,110 @@
+/**
+ * Timeline Column Hours Rules
+ *
+ * VIEW-SPECIFIC rules for timeline columns that span several days (months,
+ * quarters). A column shows one bar summarising the day estimates inside it:
+ * - Total hours, split into planned, completed and auto-estimated time
+ * - Average hours per active day (days that carry any hours), used for the bar height
+ * - The dominant allocation type (most hours), used for the bar style
+ *
+ * Day estimates are the single source of truth; this rule only sums them.
+ * Event estimates count as completed when completed and not planned (matching
+ * the per-day classification), other event estimates count as planned.
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see TimelineDisplay.ts - per-day mutual exclusivity of events and estimates
+ * @see TimelineViewportService.ts - month and quarter column layout
+ */
+
+import type { DayEstimate } from '@/shared/types/core';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type TimelineColumnAllocationType = 'planned' | 'completed' | 'auto-estimate' | 'none';
+
+export interface TimelineColumnRange {
+  start: Date; // First day of the column
+  end: Date; // Last day of the column (inclusive)
+}
+
+export interface TimelineColumnHours extends TimelineColumnRange {
+  totalHours: number;
+  plannedHours: number;
+  completedHours: number;
+  estimatedHours: number;
+  activeDays: number;
+  averageDailyHours: number;
+  allocationType: TimelineColumnAllocationType;
+}
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+type HourKind = 'planned' | 'completed' | 'auto-estimate';
+
+function classifyEstimate(estimate: DayEstimate): HourKind {
+  if (estimate.source !== 'event') return 'auto-estimate';
+  return estimate.isCompletedEvent && !estimate.isPlannedEvent ? 'completed' : 'planned';
+}
+
+/**
+ * Allocation type with the most hours; ties prefer completed, then planned
+ */
+function getDominantAllocationType(column: Pick<TimelineColumnHours, 'plannedHours' | 'completedHours' | 'estimatedHours'>): TimelineColumnAllocationType {
+  const ranked: Array<[TimelineColumnAllocationType, number]> = [
+    ['completed', column.completedHours],
+    ['planned', column.plannedHours],
+    ['auto-estimate', column.estimatedHours]
+  ];
+  const [type, hours] = ranked.reduce((best, current) => (current[1] > best[1] ? current : best));
+  return hours > 0 ? type : 'none';
+}
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+const toDayTime = (date: Date): number => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+/**
+ * Sum day estimates into the columns that contain their dates
+ * Estimates outside every column are ignored; columns without hours are returned empty.
+ */
+export function aggregateDayEstimatesByColumn(
+  estimates: DayEstimate[],
+  columns: TimelineColumnRange[]
+): TimelineColumnHours[] {
+  const bounds = columns.map(column => ({ start: toDayTime(column.start), end: toDayTime(column.end) }));
+  const totals = columns.map(() => ({ planned: 0, completed: 0, 'auto-estimate': 0, days: new Set<number>() }));
+
+  estimates.forEach(estimate => {
+    if (!estimate || estimate.hours <= 0) return;
+    const day = toDayTime(new Date(estimate.date));
+    const index = bounds.findIndex(bound => day >= bound.start && day <= bound.end);
+    if (index === -1) return;
+
+    totals[index][classifyEstimate(estimate)] += estimate.hours;
+    totals[index].days.add(day);
+  });
+
+  return columns.map((column, index) => {
+    const { planned, completed, days } = totals[index];
+    const estimated = totals[index]['auto-estimate'];
+    const totalHours = planned + completed + estimated;
+    const hours = { plannedHours: planned, completedHours: completed, estimatedHours: estimated };
+
+    return {
+      start: column.start,
+      end: column.end,
+      totalHours,
+      ...hours,
+      activeDays: days.size,
+      averageDailyHours: days.size > 0 ? totalHours / days.size : 0,
+      allocationType: getDominantAllocationType(hours)
+    };
+  });
+}
@@ -35,10 +35,11 @@ export interface TimelineLayout {
 
 export interface TimelineAutoRowInput {
   projects: Project[];
-  groups: Group[];
+  groups: Array<Pick<Group, 'id' | 'name'>>; // Group rows, or client/label/status sections
   dateRange: { start: Date; end: Date };
   sortBy?: 'startDate' | 'alphabetical';
   minGapDays?: number;
+  getSectionId?: (project: Project) => string; // Defaults to the project's group
 }
 
 /**
@@ -159,15 +160,16 @@ function assignProjectsToRows(projects: Project[], minGapDays: number): VisualRo
  * Calculate layout for a single group
  */
 function calculateGroupLayout(
-  group: Group,
+  group: Pick<Group, 'id' | 'name'>,
   projects: Project[],
   dateRange: { start: Date; end: Date },
   sortBy: 'startDate' | 'alphabetical',
-  minGapDays: number
+  minGapDays: number,
+  getSectionId: (project: Project) => string
 ): GroupLayout {
   // Filter projects for this group and visible date range
   const groupProjects = projects.filter(
-    p => p.groupId === group.id && isProjectVisible(p, dateRange)
+    p => getSectionId(p) === group.id && isProjectVisible(p, dateRange)
   );
   
   // Sort projects
@@ -191,6 +193,7 @@ function calculateGroupLayout(
  * Main function: Calculate complete timeline row arrangement
  * 
  * Automatically arranges projects into visual rows within groups based on date overlaps.
+ * Sections other than groups (client, label, status) pass getSectionId.
  * - Projects sorted by start date (primary) or alphabetically (secondary)
  * - Minimum 2-day gap enforced between projects on the same visual row
  * - Dynamic row count based on concurrent projects in visible date range
@@ -201,12 +204,13 @@ export function calculateTimelineRows(input: TimelineAutoRowInput): TimelineLayo
     groups,
     dateRange,
     sortBy = 'startDate',
-    minGapDays = MIN_GAP_DAYS
+    minGapDays = MIN_GAP_DAYS,
+    getSectionId = (project: Project) => project.groupId
   } = input;
   
   // Calculate layout for each group
   const groupLayouts = groups.map(group =>
-    calculateGroupLayout(group, projects, dateRange, sortBy, minGapDays)
+    calculateGroupLayout(group, projects, dateRange, sortBy, minGapDays, getSectionId)
   );
   
   return {
@@ -1,2 +1,3 @@
 // Timeline view-specific display rules
 export * from './TimelineDisplay';
+export * from './TimelineColumnHours';
@@ -0,0 +1,254 @@
+/**
+ * Work Schedule Rules
+ *
+ * Resolves which weekly work pattern applies on a date. Settings.weeklyWorkHours
+ * is the default week; named schedule templates replace it for their effective
+ * date range and can rotate through several weeks (A/B weeks, 3-week shifts).
+ *
+ * Resolution for a date:
+ * 1. Templates whose effective range contains the date are candidates
+ * 2. The candidate that started latest wins (a seasonal template inside an
+ *    open-ended rotation), later templates in the list break ties
+ * 3. The rotation week is counted in whole weeks (Monday to Monday) from the
+ *    template's rotationStart, or effectiveFrom when that is not set
+ * 4. Without a candidate, the default weekly work hours apply
+ *
+ * This is the domain layer - pure business logic with no external dependencies.
+ *
+ * @see WorkHourGeneration.ts - calculateDayWorkHours(), generateWorkHoursFromSettings()
+ * @see WorkSlotOrchestrator.ts - template slot edits land in the resolved week
+ */
+
+import type { Settings, WorkScheduleTemplate, WorkSlot } from '@/shared/types/core';
+import type { DayOfWeek } from './WorkSlotValidation';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export const WORK_SCHEDULE_CONFIG = {
+  MAX_ROTATION_WEEKS: 8,
+  MAX_NAME_LENGTH: 60
+} as const;
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+export type WeeklyWorkHours = Settings['weeklyWorkHours'];
+
+export type WorkScheduleSettings = Pick<Settings, 'weeklyWorkHours' | 'workSchedules'>;
+
+export interface ResolvedWorkWeek {
+  weeklyWorkHours: WeeklyWorkHours;
+  /** The template in effect, or null for the default weekly work hours */
+  schedule: WorkScheduleTemplate | null;
+  /** Zero-based rotation week within the template (always 0 for the default) */
+  weekIndex: number;
+}
+
+const DAY_NAMES: DayOfWeek[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+export const EMPTY_WEEKLY_WORK_HOURS: WeeklyWorkHours = {
+  monday: [], tuesday: [], wednesday: [], thursday: [], friday: [], saturday: [], sunday: []
+};
+
+// ============================================================================
+// DATE HELPERS
+// ============================================================================
+
+/**
+ * Parse a YYYY-MM-DD schedule date as local midnight
+ */
+export function parseScheduleDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.getMonth() === Number(match[2]) - 1 ? date : null;
+}
+
+/**
+ * Format a date as a YYYY-MM-DD schedule date (local time)
+ */
+export function formatScheduleDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function toMidnight(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function toMonday(date: Date): Date {
+  const monday = toMidnight(date);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+}
+
+export function getDayOfWeek(date: Date): DayOfWeek {
+  return DAY_NAMES[date.getDay()];
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+/**
+ * True when the date falls within the template's effective range
+ */
+export function isScheduleEffectiveOn(schedule: WorkScheduleTemplate, date: Date): boolean {
+  const day = toMidnight(date).getTime();
+  const from = schedule.effectiveFrom ? parseScheduleDate(schedule.effectiveFrom) : null;
+  const to = schedule.effectiveTo ? parseScheduleDate(schedule.effectiveTo) : null;
+  return (!from || day >= from.getTime()) && (!to || day <= to.getTime());
+}
+
+/**
+ * The template in effect on a date (see resolution rules above)
+ */
+export function getActiveWorkSchedule(
+  date: Date,
+  schedules: WorkScheduleTemplate[] | undefined
+): WorkScheduleTemplate | null {
+  let active: WorkScheduleTemplate | null = null;
+  let activeFrom = -Infinity;
+
+  for (const schedule of schedules || []) {
+    if (schedule.weeks.length === 0 || !isScheduleEffectiveOn(schedule, date)) continue;
+    const from = schedule.effectiveFrom ? parseScheduleDate(schedule.effectiveFrom)?.getTime() ?? -Infinity : -Infinity;
+    if (from >= activeFrom) {
+      active = schedule;
+      activeFrom = from;
+    }
+  }
+
+  return active;
+}
+
+/**
+ * Zero-based rotation week of a date within a template
+ */
+export function getRotationWeekIndex(date: Date, schedule: WorkScheduleTemplate): number {
+  const length = schedule.weeks.length;
+  if (length <= 1) return 0;
+
+  const anchorValue = schedule.rotationStart || schedule.effectiveFrom;
+  const anchor = anchorValue ? parseScheduleDate(anchorValue) : null;
+  if (!anchor) return 0;
+
+  // Round to absorb daylight saving shifts between the two Mondays
+  const weeks = Math.round((toMonday(date).getTime() - toMonday(anchor).getTime()) / MS_PER_WEEK);
+  return ((weeks % length) + length) % length;
+}
+
+/**
+ * The weekly pattern in effect on a date, with the template and rotation week it came from
+ */
+export function resolveWorkWeek(date: Date, settings: WorkScheduleSettings | null | undefined): ResolvedWorkWeek {
+  const schedule = getActiveWorkSchedule(date, settings?.workSchedules);
+  if (!schedule) {
+    return {
+      weeklyWorkHours: settings?.weeklyWorkHours || EMPTY_WEEKLY_WORK_HOURS,
+      schedule: null,
+      weekIndex: 0
+    };
+  }
+
+  const weekIndex = getRotationWeekIndex(date, schedule);
+  return { weeklyWorkHours: schedule.weeks[weekIndex], schedule, weekIndex };
+}
+
+/**
+ * The work slots in effect on a date
+ */
+export function resolveDayWorkSlots(date: Date, settings: WorkScheduleSettings | null | undefined): WorkSlot[] {
+  return resolveWorkWeek(date, settings).weeklyWorkHours[getDayOfWeek(date)] || [];
+}
+
+/**
+ * First day after the given date on which a different template may take over
+ * (a template starting or ending), or null when the schedule never changes
+ */
+export function getNextWorkScheduleChange(date: Date, schedules: WorkScheduleTemplate[] | undefined): Date | null {
+  const day = toMidnight(date).getTime();
+  let next: Date | null = null;
+
+  for (const schedule of schedules || []) {
+    const from = schedule.effectiveFrom ? parseScheduleDate(schedule.effectiveFrom) : null;
+    const to = schedule.effectiveTo ? parseScheduleDate(schedule.effectiveTo) : null;
+    const dayAfterTo = to ? new Date(to.getFullYear(), to.getMonth(), to.getDate() + 1) : null;
+
+    for (const boundary of [from, dayAfterTo]) {
+      if (boundary && boundary.getTime() > day && (!next || boundary < next)) {
+        next = boundary;
+      }
+    }
+  }
+
+  return next;
+}
+
+// ============================================================================
+// UPDATES
+// ============================================================================
+
+/**
+ * Replace the weekly pattern that is in effect on a date
+ *
+ * Returns the settings changes: the default weekly work hours, or the
+ * template list with the resolved rotation week replaced.
+ */
+export function replaceWorkWeekOn(
+  date: Date,
+  settings: WorkScheduleSettings,
+  update: (week: WeeklyWorkHours) => WeeklyWorkHours
+): Partial<WorkScheduleSettings> {
+  const { schedule, weekIndex, weeklyWorkHours } = resolveWorkWeek(date, settings);
+  if (!schedule) {
+    return { weeklyWorkHours: update(weeklyWorkHours) };
+  }
+
+  return {
+    workSchedules: (settings.workSchedules || []).map(template =>
+      template.id === schedule.id
+        ? { ...template, weeks: template.weeks.map((week, index) => (index === weekIndex ? update(week) : week)) }
+        : template
+    )
+  };
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+export function validateWorkScheduleTemplate(schedule: WorkScheduleTemplate): string[] {
+  const errors: string[] = [];
+
+  if (!schedule.name.trim()) {
+    errors.push('Schedule name is required');
+  } else if (schedule.name.length > WORK_SCHEDULE_CONFIG.MAX_NAME_LENGTH) {
+    errors.push(`Schedule name must be ${WORK_SCHEDULE_CONFIG.MAX_NAME_LENGTH} characters or less`);
+  }
+
+  if (schedule.weeks.length === 0 || schedule.weeks.length > WORK_SCHEDULE_CONFIG.MAX_ROTATION_WEEKS) {
+    errors.push(`A schedule rotates through 1 to ${WORK_SCHEDULE_CONFIG.MAX_ROTATION_WEEKS} weeks`);
+  }
+
+  const from = schedule.effectiveFrom ? parseScheduleDate(schedule.effectiveFrom) : null;
+  const to = schedule.effectiveTo ? parseScheduleDate(schedule.effectiveTo) : null;
+  if ((schedule.effectiveFrom && !from) || (schedule.effectiveTo && !to)) {
+    errors.push('Effective dates must be valid dates');
+  } else if (from && to && from > to) {
+    errors.push('Schedule must end on or after its start date');
+  }
+
+  if (schedule.rotationStart && !parseScheduleDate(schedule.rotationStart)) {
+    errors.push('Rotation start must be a valid date');
+  } else if (schedule.weeks.length > 1 && !schedule.rotationStart && !schedule.effectiveFrom) {
+    errors.push('A rotating schedule needs a start date to count weeks from');
+  }
+
+  return errors;
+}
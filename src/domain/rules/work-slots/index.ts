@@ -5,6 +5,8 @@
  * 
  * Structure:
  * - WorkSlotValidation.ts - Work slot validation logic (from WorkSlotRules.ts)
+ * - WorkSchedules.ts - Schedule templates, rotations and per-date resolution
  */
 
 export * from './WorkSlotValidation';
+export * from './WorkSchedules';
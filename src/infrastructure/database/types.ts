@@ -22,6 +22,7 @@ export type Database = {
           connection_type: string
           created_at: string
           external_calendar_id: string
+          feed_url: string | null
           id: string
           is_active: boolean | null
           last_auth_at: string | null
@@ -37,6 +38,7 @@ export type Database = {
           connection_type: string
           created_at?: string
           external_calendar_id: string
+          feed_url?: string | null
           id?: string
           is_active?: boolean | null
           last_auth_at?: string | null
@@ -52,6 +54,7 @@ export type Database = {
           connection_type?: string
           created_at?: string
           external_calendar_id?: string
+          feed_url?: string | null
           id?: string
           is_active?: boolean | null
           last_auth_at?: string | null
@@ -108,6 +111,7 @@ export type Database = {
           category: string | null
           color: string
           completed: boolean | null
+          connection_id: string | null
           created_at: string
           description: string | null
           duration: number | null
@@ -117,9 +121,11 @@ export type Database = {
           external_last_modified: string | null
           external_source: string | null
           external_url: string | null
+          focus_session: boolean
           id: string
           is_external_event: boolean | null
           project_id: string | null
+          recurrence_timezone: string | null
           recurring_count: number | null
           recurring_end_date: string | null
           recurring_group_id: string | null
@@ -135,6 +141,7 @@ export type Database = {
           category?: string | null
           color: string
           completed?: boolean | null
+          connection_id?: string | null
           created_at?: string
           description?: string | null
           duration?: number | null
@@ -144,9 +151,11 @@ export type Database = {
           external_last_modified?: string | null
           external_source?: string | null
           external_url?: string | null
+          focus_session?: boolean
           id?: string
           is_external_event?: boolean | null
           project_id?: string | null
+          recurrence_timezone?: string | null
           recurring_count?: number | null
           recurring_end_date?: string | null
           recurring_group_id?: string | null
@@ -162,6 +171,7 @@ export type Database = {
           category?: string | null
           color?: string
           completed?: boolean | null
+          connection_id?: string | null
           created_at?: string
           description?: string | null
           duration?: number | null
@@ -171,9 +181,11 @@ export type Database = {
           external_last_modified?: string | null
           external_source?: string | null
           external_url?: string | null
+          focus_session?: boolean
           id?: string
           is_external_event?: boolean | null
           project_id?: string | null
+          recurrence_timezone?: string | null
           recurring_count?: number | null
           recurring_end_date?: string | null
           recurring_group_id?: string | null
@@ -186,6 +198,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "calendar_events_connection_id_fkey"
+            columns: ["connection_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_connections"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "calendar_events_project_id_fkey"
             columns: ["project_id"]
@@ -200,6 +219,7 @@ export type Database = {
           connection_id: string | null
           created_at: string
           error_message: string | null
+          events_deleted: number | null
           events_failed: number | null
           events_imported: number | null
           events_updated: number | null
@@ -210,12 +230,14 @@ export type Database = {
           import_source: string
           import_status: string | null
           import_type: string
+          synced_events: Json | null
           user_id: string
         }
         Insert: {
           connection_id?: string | null
           created_at?: string
           error_message?: string | null
+          events_deleted?: number | null
           events_failed?: number | null
           events_imported?: number | null
           events_updated?: number | null
@@ -226,12 +248,14 @@ export type Database = {
           import_source: string
           import_status?: string | null
           import_type: string
+          synced_events?: Json | null
           user_id: string
         }
         Update: {
           connection_id?: string | null
           created_at?: string
           error_message?: string | null
+          events_deleted?: number | null
           events_failed?: number | null
           events_imported?: number | null
           events_updated?: number | null
@@ -242,6 +266,7 @@ export type Database = {
           import_source?: string
           import_status?: string | null
           import_type?: string
+          synced_events?: Json | null
           user_id?: string
         }
         Relationships: [
@@ -260,9 +285,12 @@ export type Database = {
           contact_email: string | null
           contact_phone: string | null
           created_at: string
+          currency: string
           id: string
           name: string
           notes: string | null
+          rate_amount: number | null
+          rate_type: string | null
           status: string
           updated_at: string
           user_id: string
@@ -272,9 +300,12 @@ export type Database = {
           contact_email?: string | null
           contact_phone?: string | null
           created_at?: string
+          currency?: string
           id?: string
           name: string
           notes?: string | null
+          rate_amount?: number | null
+          rate_type?: string | null
           status?: string
           updated_at?: string
           user_id: string
@@ -284,15 +315,54 @@ export type Database = {
           contact_email?: string | null
           contact_phone?: string | null
           created_at?: string
+          currency?: string
           id?: string
           name?: string
           notes?: string | null
+          rate_amount?: number | null
+          rate_type?: string | null
           status?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      dependencies: {
+        Row: {
+          created_at: string
+          id: string
+          kind: string
+          lag_days: number
+          predecessor_id: string
+          successor_id: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: string
+          lag_days?: number
+          predecessor_id: string
+          successor_id: string
+          type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: string
+          lag_days?: number
+          predecessor_id?: string
+          successor_id?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       feedback: {
         Row: {
           created_at: string | null
@@ -394,8 +464,43 @@ export type Database = {
         }
         Relationships: []
       }
+      habit_targets: {
+        Row: {
+          created_at: string
+          frequency: string
+          habit_name: string
+          id: string
+          metric: string
+          target: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          frequency: string
+          habit_name: string
+          id?: string
+          metric: string
+          target: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          frequency?: string
+          habit_name?: string
+          id?: string
+          metric?: string
+          target?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       holidays: {
         Row: {
+          available_hours: number | null
+          capacity_fraction: number | null
           created_at: string
           end_date: string
           id: string
@@ -406,6 +511,8 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          available_hours?: number | null
+          capacity_fraction?: number | null
           created_at?: string
           end_date: string
           id?: string
@@ -416,6 +523,8 @@ export type Database = {
           user_id: string
         }
         Update: {
+          available_hours?: number | null
+          capacity_fraction?: number | null
           created_at?: string
           end_date?: string
           id?: string
@@ -498,6 +607,8 @@ export type Database = {
           is_recurring: boolean | null
           name: string
           project_id: string
+          rate_amount: number | null
+          rate_type: string | null
           recurring_config: Json | null
           start_date: string
           time_allocation: number
@@ -512,6 +623,8 @@ export type Database = {
           is_recurring?: boolean | null
           name: string
           project_id: string
+          rate_amount?: number | null
+          rate_type?: string | null
           recurring_config?: Json | null
           start_date: string
           time_allocation: number
@@ -526,6 +639,8 @@ export type Database = {
           is_recurring?: boolean | null
           name?: string
           project_id?: string
+          rate_amount?: number | null
+          rate_type?: string | null
           recurring_config?: Json | null
           start_date?: string
           time_allocation?: number
@@ -543,6 +658,33 @@ export type Database = {
           },
         ]
       }
+      plan_baselines: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          snapshot: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          snapshot: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          snapshot?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -603,6 +745,66 @@ export type Database = {
           },
         ]
       }
+      project_tasks: {
+        Row: {
+          completed: boolean
+          created_at: string
+          due_date: string | null
+          estimated_hours: number
+          id: string
+          notes: string | null
+          project_id: string
+          scheduled_event_id: string | null
+          sort_order: number
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          due_date?: string | null
+          estimated_hours?: number
+          id?: string
+          notes?: string | null
+          project_id: string
+          scheduled_event_id?: string | null
+          sort_order?: number
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          due_date?: string | null
+          estimated_hours?: number
+          id?: string
+          notes?: string | null
+          project_id?: string
+          scheduled_event_id?: string | null
+          sort_order?: number
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_tasks_scheduled_event_id_fkey"
+            columns: ["scheduled_event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
           client: string
@@ -617,6 +819,8 @@ export type Database = {
           id: string
           name: string
           notes: string | null
+          rate_amount: number | null
+          rate_type: string | null
           row_id: string | null
           start_date: string
           updated_at: string
@@ -636,6 +840,8 @@ export type Database = {
           id?: string
           name: string
           notes?: string | null
+          rate_amount?: number | null
+          rate_type?: string | null
           row_id?: string | null
           start_date: string
           updated_at?: string
@@ -655,6 +861,8 @@ export type Database = {
           id?: string
           name?: string
           notes?: string | null
+          rate_amount?: number | null
+          rate_type?: string | null
           row_id?: string | null
           start_date?: string
           updated_at?: string
@@ -723,30 +931,63 @@ export type Database = {
           },
         ]
       }
+      saved_filters: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          query: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          query?: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          query?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       settings: {
         Row: {
           created_at: string
           id: string
+          public_holiday_calendar: Json | null
           time_tracking_state: Json | null
           updated_at: string
           user_id: string
           weekly_work_hours: Json
+          work_schedules: Json
         }
         Insert: {
           created_at?: string
           id?: string
+          public_holiday_calendar?: Json | null
           time_tracking_state?: Json | null
           updated_at?: string
           user_id: string
           weekly_work_hours?: Json
+          work_schedules?: Json
         }
         Update: {
           created_at?: string
           id?: string
+          public_holiday_calendar?: Json | null
           time_tracking_state?: Json | null
           updated_at?: string
           user_id?: string
           weekly_work_hours?: Json
+          work_schedules?: Json
         }
         Relationships: []
       }
@@ -821,7 +1062,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_scenario: { Args: { changes: Json }; Returns: undefined }
       hash_user_id: { Args: { user_uuid: string }; Returns: string }
+      mark_public_holiday_years: { Args: { years: number[]; imported?: boolean }; Returns: number[] }
+      restore_backup: { Args: { backup: Json; replace_existing?: boolean }; Returns: undefined }
     }
     Enums: {
       [_ in never]: never
@@ -10,7 +10,7 @@
  */
 
 import * as DateCalculations from '@/presentation/utils/dateCalculations';
-import type { Holiday, Settings, WorkSlot } from '@/shared/types/core';
+import type { Holiday, Settings, TimelineMode, WorkSlot } from '@/shared/types/core';
 
 interface CacheStats {
   hits: number;
@@ -111,7 +111,7 @@ export class CachedDateCalculationService {
   /**
    * Get timeline viewport with caching
    */
-  static getTimelineViewport(currentDate: Date, mode: 'days' | 'weeks', count: number): { start: Date; end: Date } {
+  static getTimelineViewport(currentDate: Date, mode: TimelineMode, count: number): { start: Date; end: Date } {
     const cacheKey = `viewport_${currentDate.toISOString()}_${mode}_${count}`;
     
     let result = DateCache.getCachedCalculation<{ start: Date; end: Date }>(cacheKey);
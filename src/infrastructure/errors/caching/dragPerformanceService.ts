@@ -6,6 +6,7 @@
  */
 
 import { ErrorHandlingService } from '../ErrorHandlingService';
+import type { TimelineMode } from '@/shared/types/core';
 
 let lastDragUpdateTime = 0;
 let dragUpdateQueue: (() => Promise<void>)[] = [];
@@ -96,10 +97,10 @@ let pendingVisualUpdate: ReturnType<typeof setTimeout> | null = null;
  */
 export function throttledVisualUpdate(
   updateFunction: () => void,
-  timelineMode: 'days' | 'weeks'
+  timelineMode: TimelineMode
 ): void {
   const now = performance.now();
-  const throttleMs = timelineMode === 'weeks' ? 16 : 8; // 60fps for weeks, 120fps for days
+  const throttleMs = timelineMode === 'days' ? 8 : 16; // 120fps for days, 60fps for weeks and longer columns
   const timeSinceLastUpdate = now - lastVisualUpdateTime;
 
   // Clear any pending update
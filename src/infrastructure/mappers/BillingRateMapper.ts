@@ -0,0 +1,41 @@
+/**
+ * Billing Rate Data Mapper
+ * 
+ * Handles transformation between the rate columns shared by clients, projects
+ * and phases (rate_type, rate_amount) and the BillingRate DTO.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ NULL rate_type ↔ no rate (client: not billed, project/phase: inherit)
+ */
+
+import type { BillingRate, BillingRateType } from '@/shared/types/core';
+
+type BillingRateColumns = {
+  rate_type: string | null;
+  rate_amount: number | null;
+};
+
+export const BillingRateMapper = {
+  /**
+   * Convert rate columns to a BillingRate (undefined when no rate is set)
+   */
+  fromDatabase(rateType: string | null | undefined, rateAmount: number | null | undefined): BillingRate | undefined {
+    if (rateType !== 'hourly' && rateType !== 'fixed') {
+      return undefined;
+    }
+    return {
+      type: rateType as BillingRateType,
+      amount: Number(rateAmount ?? 0),
+    };
+  },
+
+  /**
+   * Convert a BillingRate to rate columns (null clears the rate)
+   */
+  toDatabase(rate: BillingRate | null | undefined): BillingRateColumns {
+    return {
+      rate_type: rate?.type ?? null,
+      rate_amount: rate ? rate.amount : null,
+    };
+  },
+};
@@ -15,10 +15,13 @@
  */
 
 import type { Database } from '@/infrastructure/database/types';
-import type { CalendarEvent } from '@/shared/types/core';
+import type { CalendarEvent, CalendarEventException } from '@/shared/types/core';
 
 // Database types
-type CalendarEventRow = Database['public']['Tables']['calendar_events']['Row'];
+type CalendarEventExceptionRow = Database['public']['Tables']['calendar_event_exceptions']['Row'];
+type CalendarEventRow = Database['public']['Tables']['calendar_events']['Row'] & {
+  calendar_event_exceptions?: CalendarEventExceptionRow[]; // Embedded when selected with the event
+};
 type CalendarEventInsert = Database['public']['Tables']['calendar_events']['Insert'];
 type CalendarEventUpdate = Database['public']['Tables']['calendar_events']['Update'];
 
@@ -62,9 +65,14 @@ export const CalendarEventMapper = {
       duration: row.duration ?? undefined,
       type: row.event_type as CalendarEvent['type'] | undefined,
       category: row.category as CalendarEvent['category'] | undefined,
+      focusSession: row.focus_session ?? undefined,
       
       // Recurring fields (NEW system)
       rrule: row.rrule ?? undefined,
+      recurrenceTimeZone: row.recurrence_timezone ?? undefined,
+      ...(row.calendar_event_exceptions && {
+        recurrenceExceptions: CalendarEventMapper.exceptionsFromDatabase(row.calendar_event_exceptions)
+      }),
       recurringGroupId: row.recurring_group_id ?? undefined,
       
       // Recurring fields (LEGACY system)
@@ -72,6 +80,34 @@ export const CalendarEventMapper = {
     };
   },
 
+  /**
+   * Convert calendar_event_exceptions rows to series exceptions
+   *
+   * modified_data holds the instance's original start (and, for moved or
+   * edited instances, the overridden fields). Rows without an original start
+   * cannot be matched to an instance and are left out.
+   */
+  exceptionsFromDatabase(rows: CalendarEventExceptionRow[]): CalendarEventException[] {
+    return rows.flatMap(row => {
+      const data = (row.modified_data ?? {}) as Record<string, string | null | undefined>;
+      if (!data.original_start_time) return [];
+
+      const exception: CalendarEventException = {
+        originalStart: new Date(data.original_start_time),
+        type: row.exception_type === 'modified' ? 'modified' : 'deleted'
+      };
+      if (exception.type === 'modified') {
+        exception.modified = {
+          ...(data.title && { title: data.title }),
+          ...(data.description && { description: data.description }),
+          ...(data.start_time && { startTime: new Date(data.start_time) }),
+          ...(data.end_time && { endTime: new Date(data.end_time) })
+        };
+      }
+      return [exception];
+    });
+  },
+
   /**
    * Convert domain DTO to database insert payload
    * 
@@ -103,9 +139,11 @@ export const CalendarEventMapper = {
       ...(event.duration !== undefined && { duration: event.duration }),
       ...(event.type !== undefined && { event_type: event.type }),
       ...(event.category !== undefined && { category: event.category }),
+      ...(event.focusSession !== undefined && { focus_session: event.focusSession }),
       
       // Recurring fields (NEW system)
       ...(event.rrule !== undefined && { rrule: event.rrule }),
+      ...(event.recurrenceTimeZone !== undefined && { recurrence_timezone: event.recurrenceTimeZone }),
       ...(event.recurringGroupId !== undefined && { recurring_group_id: event.recurringGroupId }),
     };
 
@@ -157,9 +195,11 @@ export const CalendarEventMapper = {
     if (updates.duration !== undefined) payload.duration = updates.duration;
     if (updates.type !== undefined) payload.event_type = updates.type;
     if (updates.category !== undefined) payload.category = updates.category;
+    if (updates.focusSession !== undefined) payload.focus_session = updates.focusSession;
     
     // Recurring fields (NEW system)
     if (updates.rrule !== undefined) payload.rrule = updates.rrule;
+    if (updates.recurrenceTimeZone !== undefined) payload.recurrence_timezone = updates.recurrenceTimeZone;
     if (updates.recurringGroupId !== undefined) payload.recurring_group_id = updates.recurringGroupId;
     
     // Recurring fields (LEGACY system)
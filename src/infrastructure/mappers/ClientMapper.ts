@@ -15,6 +15,7 @@
 
 import type { Database } from '@/infrastructure/database/types';
 import type { Client, ClientStatus } from '@/shared/types/core';
+import { BillingRateMapper } from './BillingRateMapper';
 
 // Database types
 type ClientRow = Database['public']['Tables']['clients']['Row'];
@@ -39,6 +40,8 @@ export const ClientMapper = {
       contactPhone: row.contact_phone ?? undefined,
       billingAddress: row.billing_address ?? undefined,
       notes: row.notes ?? undefined,
+      currency: row.currency,
+      defaultRate: BillingRateMapper.fromDatabase(row.rate_type, row.rate_amount),
       userId: row.user_id,
       createdAt: new Date(row.created_at),
       updatedAt: new Date(row.updated_at),
@@ -57,6 +60,8 @@ export const ClientMapper = {
       ...(client.contactPhone !== undefined && { contact_phone: client.contactPhone }),
       ...(client.billingAddress !== undefined && { billing_address: client.billingAddress }),
       ...(client.notes !== undefined && { notes: client.notes }),
+      ...(client.currency !== undefined && { currency: client.currency }),
+      ...(client.defaultRate !== undefined && BillingRateMapper.toDatabase(client.defaultRate)),
     };
   },
 
@@ -72,6 +77,8 @@ export const ClientMapper = {
     if (updates.contactPhone !== undefined) payload.contact_phone = updates.contactPhone;
     if (updates.billingAddress !== undefined) payload.billing_address = updates.billingAddress;
     if (updates.notes !== undefined) payload.notes = updates.notes;
+    if (updates.currency !== undefined) payload.currency = updates.currency;
+    if ('defaultRate' in updates) Object.assign(payload, BillingRateMapper.toDatabase(updates.defaultRate));
 
     return payload;
   },
@@ -0,0 +1,62 @@
+/**
+ * Dependency Data Mapper
+ * 
+ * Handles transformation between dependencies rows and Dependency DTOs.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ Handles field name translations (predecessor_id ↔ predecessorId, lag_days ↔ lagDays)
+ * ✅ Handles type conversions (TEXT kind/type ↔ unions, string dates ↔ Date objects)
+ */
+
+import type { Database } from '@/infrastructure/database/types';
+import type { Dependency, DependencyKind, DependencyType } from '@/shared/types/core';
+
+// Database types
+type DependencyRow = Database['public']['Tables']['dependencies']['Row'];
+type DependencyInsert = Database['public']['Tables']['dependencies']['Insert'];
+type DependencyUpdate = Database['public']['Tables']['dependencies']['Update'];
+
+export const DependencyMapper = {
+  /**
+   * Convert database row to domain DTO
+   */
+  fromDatabase(row: DependencyRow): Dependency {
+    return {
+      id: row.id,
+      kind: row.kind as DependencyKind,
+      predecessorId: row.predecessor_id,
+      successorId: row.successor_id,
+      type: row.type as DependencyType,
+      lagDays: row.lag_days,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  },
+
+  /**
+   * Convert domain DTO to database insert payload
+   */
+  toDatabase(dependency: Pick<Dependency, 'kind' | 'predecessorId' | 'successorId' | 'userId'> & Partial<Pick<Dependency, 'type' | 'lagDays'>>): DependencyInsert {
+    return {
+      kind: dependency.kind,
+      predecessor_id: dependency.predecessorId,
+      successor_id: dependency.successorId,
+      user_id: dependency.userId,
+      ...(dependency.type !== undefined && { type: dependency.type }),
+      ...(dependency.lagDays !== undefined && { lag_days: dependency.lagDays }),
+    };
+  },
+
+  /**
+   * Convert domain DTO updates to database update payload
+   */
+  toUpdatePayload(updates: Partial<Pick<Dependency, 'type' | 'lagDays'>>): DependencyUpdate {
+    const payload: DependencyUpdate = {};
+
+    if (updates.type !== undefined) payload.type = updates.type;
+    if (updates.lagDays !== undefined) payload.lag_days = updates.lagDays;
+
+    return payload;
+  },
+};
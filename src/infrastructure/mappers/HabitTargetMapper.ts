@@ -0,0 +1,47 @@
+/**
+ * Habit Target Data Mapper
+ * 
+ * Handles transformation between habit_targets rows and HabitTarget DTOs.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ Handles field name translations (habit_name ↔ habitName)
+ * ✅ Handles type conversions (NUMERIC target, string dates ↔ Date objects)
+ */
+
+import type { Database } from '@/infrastructure/database/types';
+import type { HabitTarget, HabitTargetFrequency, HabitTargetMetric } from '@/shared/types/core';
+
+// Database types
+type HabitTargetRow = Database['public']['Tables']['habit_targets']['Row'];
+type HabitTargetInsert = Database['public']['Tables']['habit_targets']['Insert'];
+
+export const HabitTargetMapper = {
+  /**
+   * Convert database row to domain DTO
+   */
+  fromDatabase(row: HabitTargetRow): HabitTarget {
+    return {
+      id: row.id,
+      habitName: row.habit_name,
+      frequency: row.frequency as HabitTargetFrequency,
+      metric: row.metric as HabitTargetMetric,
+      target: Number(row.target),
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  },
+
+  /**
+   * Convert domain DTO to database insert payload
+   */
+  toDatabase(target: Pick<HabitTarget, 'habitName' | 'frequency' | 'metric' | 'target' | 'userId'>): HabitTargetInsert {
+    return {
+      habit_name: target.habitName,
+      frequency: target.frequency,
+      metric: target.metric,
+      target: target.target,
+      user_id: target.userId,
+    };
+  },
+};
@@ -37,6 +37,8 @@ export const HolidayMapper = {
       startDate: new Date(row.start_date),
       endDate: new Date(row.end_date),
       notes: row.notes ?? undefined,
+      capacityFraction: row.capacity_fraction ?? undefined,
+      availableHours: row.available_hours ?? undefined,
     };
   },
 
@@ -58,6 +60,8 @@ export const HolidayMapper = {
       end_date: endDateIso,
       user_id: holiday.userId,
       ...(holiday.notes !== undefined && { notes: holiday.notes }),
+      ...(holiday.capacityFraction !== undefined && { capacity_fraction: holiday.capacityFraction }),
+      ...(holiday.availableHours !== undefined && { available_hours: holiday.availableHours }),
     };
   },
 
@@ -69,6 +73,8 @@ export const HolidayMapper = {
 
     if (updates.title !== undefined) payload.title = updates.title;
     if (updates.notes !== undefined) payload.notes = updates.notes;
+    if ('capacityFraction' in updates) payload.capacity_fraction = updates.capacityFraction ?? null;
+    if ('availableHours' in updates) payload.available_hours = updates.availableHours ?? null;
     
     if (updates.startDate !== undefined) {
       payload.start_date = updates.startDate instanceof Date
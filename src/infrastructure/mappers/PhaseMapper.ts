@@ -16,6 +16,7 @@
 
 import type { Database } from '@/infrastructure/database/types';
 import type { PhaseDTO } from '@/shared/types/core';
+import { BillingRateMapper } from './BillingRateMapper';
 
 // Database types
 type PhaseRow = Database['public']['Tables']['phases']['Row'];
@@ -60,6 +61,9 @@ export const PhaseMapper = {
       isRecurring: row.is_recurring ?? false,
       recurringConfig: row.recurring_config ? (row.recurring_config as unknown as PhaseDTO['recurringConfig']) : undefined,
       
+      // BILLING
+      billingRate: BillingRateMapper.fromDatabase(row.rate_type, row.rate_amount),
+      
       // METADATA
       userId: row.user_id,
       createdAt,
@@ -106,6 +110,7 @@ export const PhaseMapper = {
       // Optional recurring fields
       ...(phase.isRecurring !== undefined && { is_recurring: phase.isRecurring }),
       ...(phase.recurringConfig && { recurring_config: phase.recurringConfig as unknown as Database['public']['Tables']['phases']['Insert']['recurring_config'] }),
+      ...(phase.billingRate && BillingRateMapper.toDatabase(phase.billingRate)),
     };
   },
 
@@ -150,6 +155,11 @@ export const PhaseMapper = {
       payload.recurring_config = updates.recurringConfig as unknown as Database['public']['Tables']['phases']['Update']['recurring_config'];
     }
 
+    // Billing rate (undefined value clears the override)
+    if ('billingRate' in updates) {
+      Object.assign(payload, BillingRateMapper.toDatabase(updates.billingRate));
+    }
+
     return payload;
   },
 };
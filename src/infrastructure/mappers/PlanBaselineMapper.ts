@@ -0,0 +1,56 @@
+/**
+ * Plan Baseline Data Mapper
+ * 
+ * Handles transformation between plan_baselines rows and PlanBaseline DTOs.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ Handles field name translations (user_id ↔ userId, created_at ↔ createdAt)
+ * ✅ Handles type conversions (JSONB snapshot ↔ PlanBaselineSnapshot, string dates ↔ Date objects)
+ */
+
+import type { Database, Json } from '@/infrastructure/database/types';
+import type { PlanBaseline, PlanBaselineSnapshot } from '@/shared/types/core';
+
+// Database types
+type PlanBaselineRow = Database['public']['Tables']['plan_baselines']['Row'];
+type PlanBaselineInsert = Database['public']['Tables']['plan_baselines']['Insert'];
+type PlanBaselineUpdate = Database['public']['Tables']['plan_baselines']['Update'];
+
+export const PlanBaselineMapper = {
+  /**
+   * Convert database row to domain DTO
+   */
+  fromDatabase(row: PlanBaselineRow): PlanBaseline {
+    return {
+      id: row.id,
+      name: row.name,
+      snapshot: row.snapshot as unknown as PlanBaselineSnapshot,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  },
+
+  /**
+   * Convert domain DTO to database insert payload
+   */
+  toDatabase(baseline: Pick<PlanBaseline, 'name' | 'snapshot' | 'userId'>): PlanBaselineInsert {
+    return {
+      name: baseline.name,
+      snapshot: baseline.snapshot as unknown as Json,
+      user_id: baseline.userId,
+    };
+  },
+
+  /**
+   * Convert domain DTO updates to database update payload
+   * The snapshot is frozen; only the name can change.
+   */
+  toUpdatePayload(updates: Partial<Pick<PlanBaseline, 'name'>>): PlanBaselineUpdate {
+    const payload: PlanBaselineUpdate = {};
+
+    if (updates.name !== undefined) payload.name = updates.name;
+
+    return payload;
+  },
+};
@@ -16,6 +16,7 @@
 
 import type { Database } from '@/infrastructure/database/types';
 import type { Project, ProjectStatus } from '@/shared/types/core';
+import { BillingRateMapper } from './BillingRateMapper';
 
 // Database types
 type ProjectRow = Database['public']['Tables']['projects']['Row'];
@@ -68,6 +69,9 @@ export const ProjectMapper = {
         ? (row.working_day_overrides as unknown as Project['autoEstimateDays'])
         : undefined,
       
+      // BILLING
+      billingRate: BillingRateMapper.fromDatabase(row.rate_type, row.rate_amount),
+      
       // METADATA
       userId: row.user_id,
       createdAt,
@@ -111,6 +115,7 @@ export const ProjectMapper = {
       ...(project.autoEstimateDays && { 
         working_day_overrides: project.autoEstimateDays as unknown as Database['public']['Tables']['projects']['Insert']['working_day_overrides']
       }),
+      ...(project.billingRate && BillingRateMapper.toDatabase(project.billingRate)),
     };
   },
 
@@ -166,6 +171,11 @@ export const ProjectMapper = {
       payload.working_day_overrides = updates.autoEstimateDays as unknown as Database['public']['Tables']['projects']['Update']['working_day_overrides'];
     }
 
+    // Billing rate (undefined value clears the override)
+    if ('billingRate' in updates) {
+      Object.assign(payload, BillingRateMapper.toDatabase(updates.billingRate));
+    }
+
     return payload;
   },
 };
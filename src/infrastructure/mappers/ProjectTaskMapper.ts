@@ -0,0 +1,74 @@
+/**
+ * Project Task Data Mapper
+ * 
+ * Handles transformation between project_tasks rows and ProjectTask DTOs.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ Handles field name translations (estimated_hours ↔ estimatedHours)
+ * ✅ Handles type conversions (NUMERIC estimate, string dates ↔ Date objects)
+ */
+
+import type { Database } from '@/infrastructure/database/types';
+import type { ProjectTask } from '@/shared/types/core';
+
+// Database types
+type ProjectTaskRow = Database['public']['Tables']['project_tasks']['Row'];
+type ProjectTaskInsert = Database['public']['Tables']['project_tasks']['Insert'];
+type ProjectTaskUpdate = Database['public']['Tables']['project_tasks']['Update'];
+
+export const ProjectTaskMapper = {
+  /**
+   * Convert database row to domain DTO
+   */
+  fromDatabase(row: ProjectTaskRow): ProjectTask {
+    return {
+      id: row.id,
+      projectId: row.project_id,
+      title: row.title,
+      notes: row.notes ?? undefined,
+      estimatedHours: Number(row.estimated_hours),
+      dueDate: row.due_date ? new Date(row.due_date) : undefined,
+      completed: row.completed,
+      scheduledEventId: row.scheduled_event_id ?? undefined,
+      sortOrder: row.sort_order,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  },
+
+  /**
+   * Convert domain DTO to database insert payload
+   */
+  toDatabase(task: Partial<ProjectTask> & { projectId: string; title: string; userId: string }): ProjectTaskInsert {
+    return {
+      project_id: task.projectId,
+      title: task.title,
+      user_id: task.userId,
+      ...(task.notes !== undefined && { notes: task.notes }),
+      ...(task.estimatedHours !== undefined && { estimated_hours: task.estimatedHours }),
+      ...(task.dueDate !== undefined && { due_date: task.dueDate.toISOString() }),
+      ...(task.completed !== undefined && { completed: task.completed }),
+      ...(task.sortOrder !== undefined && { sort_order: task.sortOrder }),
+    };
+  },
+
+  /**
+   * Convert domain DTO updates to database update payload
+   * A null dueDate / scheduledEventId clears the column.
+   */
+  toUpdatePayload(updates: Partial<Omit<ProjectTask, 'dueDate' | 'scheduledEventId'>> & { dueDate?: Date | null; scheduledEventId?: string | null }): ProjectTaskUpdate {
+    const payload: ProjectTaskUpdate = {};
+
+    if (updates.projectId !== undefined) payload.project_id = updates.projectId;
+    if (updates.title !== undefined) payload.title = updates.title;
+    if (updates.notes !== undefined) payload.notes = updates.notes;
+    if (updates.estimatedHours !== undefined) payload.estimated_hours = updates.estimatedHours;
+    if (updates.dueDate !== undefined) payload.due_date = updates.dueDate ? updates.dueDate.toISOString() : null;
+    if (updates.completed !== undefined) payload.completed = updates.completed;
+    if (updates.scheduledEventId !== undefined) payload.scheduled_event_id = updates.scheduledEventId;
+    if (updates.sortOrder !== undefined) payload.sort_order = updates.sortOrder;
+
+    return payload;
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Saved Filter Data Mapper
+ * 
+ * Handles transformation between saved_filters rows and SavedFilter DTOs.
+ * 
+ * ✅ ONLY does data transformation (no business logic)
+ * ✅ Handles field name translations (user_id ↔ userId, created_at ↔ createdAt)
+ * ✅ Handles type conversions (JSONB query ↔ ProjectFilterQuery, string dates ↔ Date objects)
+ */
+
+import type { Database, Json } from '@/infrastructure/database/types';
+import type { ProjectFilterQuery, SavedFilter } from '@/shared/types/core';
+
+// Database types
+type SavedFilterRow = Database['public']['Tables']['saved_filters']['Row'];
+type SavedFilterInsert = Database['public']['Tables']['saved_filters']['Insert'];
+type SavedFilterUpdate = Database['public']['Tables']['saved_filters']['Update'];
+
+export const SavedFilterMapper = {
+  /**
+   * Convert database row to domain DTO
+   */
+  fromDatabase(row: SavedFilterRow): SavedFilter {
+    return {
+      id: row.id,
+      name: row.name,
+      query: row.query as unknown as ProjectFilterQuery,
+      userId: row.user_id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+    };
+  },
+
+  /**
+   * Convert domain DTO to database insert payload
+   */
+  toDatabase(filter: Pick<SavedFilter, 'name' | 'query' | 'userId'>): SavedFilterInsert {
+    return {
+      name: filter.name,
+      query: filter.query as unknown as Json,
+      user_id: filter.userId,
+    };
+  },
+
+  /**
+   * Convert domain DTO updates to database update payload
+   */
+  toUpdatePayload(updates: Partial<Pick<SavedFilter, 'name' | 'query'>>): SavedFilterUpdate {
+    const payload: SavedFilterUpdate = {};
+
+    if (updates.name !== undefined) payload.name = updates.name;
+    if (updates.query !== undefined) payload.query = updates.query as unknown as Json;
+
+    return payload;
+  },
+};
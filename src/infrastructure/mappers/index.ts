@@ -11,3 +11,9 @@ export { CalendarEventMapper } from './CalendarEventMapper';
 export { HolidayMapper } from './HolidayMapper';
 export { ClientMapper } from './ClientMapper';
 export { GroupMapper } from './GroupMapper';
+export { BillingRateMapper } from './BillingRateMapper';
+export { HabitTargetMapper } from './HabitTargetMapper';
+export { ProjectTaskMapper } from './ProjectTaskMapper';
+export { DependencyMapper } from './DependencyMapper';
+export { PlanBaselineMapper } from './PlanBaselineMapper';
+export { SavedFilterMapper } from './SavedFilterMapper';
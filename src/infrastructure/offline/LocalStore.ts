@@ -0,0 +1,181 @@
+/**
+ * Offline Local Store
+ *
+ * Browser-side copy of the user's rows for offline use, one object store per
+ * table plus the outbox of changes waiting to be written to Supabase.
+ *
+ * IndexedDB backs the store in the browser. Where IndexedDB is missing
+ * (private browsing in some browsers, tests) the in-memory store keeps the
+ * app working for the session.
+ */
+
+import type { OfflineTable } from '@/domain/rules/offline/OfflineOutbox';
+
+export type LocalStoreName = OfflineTable | 'outbox';
+
+type StoredRecord = { id: string };
+
+export interface LocalStore {
+  get<T extends StoredRecord>(storeName: LocalStoreName, id: string): Promise<T | null>;
+  getAll<T extends StoredRecord>(storeName: LocalStoreName): Promise<T[]>;
+  /** Replace the rows of a store; with a scope, only the rows matching it */
+  replaceAll<T extends StoredRecord>(storeName: LocalStoreName, rows: T[], scope?: (row: T) => boolean): Promise<void>;
+  put<T extends StoredRecord>(storeName: LocalStoreName, row: T): Promise<void>;
+  delete(storeName: LocalStoreName, id: string): Promise<void>;
+  /** Remove every row of every store (sign out) */
+  clear(): Promise<void>;
+}
+
+const STORE_NAMES: LocalStoreName[] = ['projects', 'phases', 'calendar_events', 'holidays', 'settings', 'outbox'];
+
+export const LOCAL_STORE_CONFIG = {
+  DATABASE_NAME: 'project-content-vault-offline',
+  VERSION: 1
+} as const;
+
+// ============================================================================
+// INDEXEDDB
+// ============================================================================
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export class IndexedDbLocalStore implements LocalStore {
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly factory: IDBFactory = indexedDB) {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = this.factory.open(LOCAL_STORE_CONFIG.DATABASE_NAME, LOCAL_STORE_CONFIG.VERSION);
+        request.onupgradeneeded = () => {
+          STORE_NAMES.forEach(storeName => {
+            if (!request.result.objectStoreNames.contains(storeName)) {
+              request.result.createObjectStore(storeName, { keyPath: 'id' });
+            }
+          });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Run work in one transaction; resolves once the transaction has committed
+   */
+  private async transaction<T>(
+    storeNames: LocalStoreName[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T
+  ): Promise<T> {
+    const database = await this.open();
+    const transaction = database.transaction(storeNames, mode);
+    const completed = new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+    const [result] = await Promise.all([work(transaction), completed]);
+    return result;
+  }
+
+  get<T extends StoredRecord>(storeName: LocalStoreName, id: string): Promise<T | null> {
+    return this.transaction([storeName], 'readonly', async transaction =>
+      (await requestToPromise(transaction.objectStore(storeName).get(id) as IDBRequest<T | undefined>)) ?? null
+    );
+  }
+
+  getAll<T extends StoredRecord>(storeName: LocalStoreName): Promise<T[]> {
+    return this.transaction([storeName], 'readonly', transaction =>
+      requestToPromise(transaction.objectStore(storeName).getAll() as IDBRequest<T[]>)
+    );
+  }
+
+  replaceAll<T extends StoredRecord>(storeName: LocalStoreName, rows: T[], scope?: (row: T) => boolean): Promise<void> {
+    return this.transaction([storeName], 'readwrite', async transaction => {
+      const store = transaction.objectStore(storeName);
+      if (scope) {
+        const existing = await requestToPromise(store.getAll() as IDBRequest<T[]>);
+        existing.filter(scope).forEach(row => store.delete(row.id));
+      } else {
+        store.clear();
+      }
+      rows.forEach(row => store.put(row));
+    });
+  }
+
+  put<T extends StoredRecord>(storeName: LocalStoreName, row: T): Promise<void> {
+    return this.transaction([storeName], 'readwrite', transaction => {
+      transaction.objectStore(storeName).put(row);
+    });
+  }
+
+  delete(storeName: LocalStoreName, id: string): Promise<void> {
+    return this.transaction([storeName], 'readwrite', transaction => {
+      transaction.objectStore(storeName).delete(id);
+    });
+  }
+
+  clear(): Promise<void> {
+    return this.transaction(STORE_NAMES, 'readwrite', transaction => {
+      STORE_NAMES.forEach(storeName => transaction.objectStore(storeName).clear());
+    });
+  }
+}
+
+// ============================================================================
+// IN MEMORY
+// ============================================================================
+
+export class MemoryLocalStore implements LocalStore {
+  private stores = new Map<LocalStoreName, Map<string, StoredRecord>>();
+
+  private store(storeName: LocalStoreName): Map<string, StoredRecord> {
+    if (!this.stores.has(storeName)) this.stores.set(storeName, new Map());
+    return this.stores.get(storeName)!;
+  }
+
+  async get<T extends StoredRecord>(storeName: LocalStoreName, id: string): Promise<T | null> {
+    const row = this.store(storeName).get(id);
+    return row ? (structuredClone(row) as T) : null;
+  }
+
+  async getAll<T extends StoredRecord>(storeName: LocalStoreName): Promise<T[]> {
+    return Array.from(this.store(storeName).values(), row => structuredClone(row) as T);
+  }
+
+  async replaceAll<T extends StoredRecord>(storeName: LocalStoreName, rows: T[], scope?: (row: T) => boolean): Promise<void> {
+    const store = this.store(storeName);
+    if (scope) {
+      Array.from(store.values()).filter(row => scope(row as T)).forEach(row => store.delete(row.id));
+    } else {
+      store.clear();
+    }
+    rows.forEach(row => store.set(row.id, structuredClone(row)));
+  }
+
+  async put<T extends StoredRecord>(storeName: LocalStoreName, row: T): Promise<void> {
+    this.store(storeName).set(row.id, structuredClone(row));
+  }
+
+  async delete(storeName: LocalStoreName, id: string): Promise<void> {
+    this.store(storeName).delete(id);
+  }
+
+  async clear(): Promise<void> {
+    this.stores.clear();
+  }
+}
+
+/**
+ * IndexedDB store when the browser has IndexedDB, in-memory store otherwise
+ */
+export function createLocalStore(): LocalStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDbLocalStore() : new MemoryLocalStore();
+}
@@ -0,0 +1,2 @@
+export { createLocalStore, IndexedDbLocalStore, MemoryLocalStore, LOCAL_STORE_CONFIG } from './LocalStore';
+export type { LocalStore, LocalStoreName } from './LocalStore';
@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/presentation/components/shadcn/card';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/presentation/components/shadcn/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { Flame, Target } from 'lucide-react';
+import type { CalendarEvent, HabitTarget, HabitTargetFrequency, HabitTargetMetric } from '@/shared/types/core';
+import { summarizeHabits, type HabitDay, type HabitGoal, type HabitSummary } from '@/domain/rules/habits/HabitAdherence';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+
+interface HabitAdherenceCardProps {
+  events: CalendarEvent[];
+  targets: HabitTarget[];
+  onSaveTarget: (habitName: string, goal: HabitGoal) => Promise<unknown>;
+  onRemoveTarget: (habitName: string) => Promise<void>;
+}
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', 'Sun'];
+
+const describeGoal = (goal?: HabitGoal) => {
+  if (!goal) return 'Every scheduled day';
+  const amount = goal.metric === 'sessions' ? `${goal.target}×` : `${goal.target} min`;
+  return `${amount} ${goal.frequency === 'daily' ? 'daily' : 'per week'}`;
+};
+
+// Get intensity color for heatmap visualization (same scale as My Average Day)
+const getIntensityColor = (intensity: number) => {
+  if (intensity === 0) return 'rgb(243, 244, 246)'; // gray-100
+  const alpha = Math.max(0.1, intensity);
+  return `rgba(59, 130, 246, ${alpha})`; // blue-500 with varying alpha
+};
+
+/**
+ * Completion heatmap: one column per week, one row per weekday
+ */
+const HabitHeatmap: React.FC<{ summary: HabitSummary }> = ({ summary }) => {
+  const value = (day: HabitDay) => (summary.goal?.metric === 'minutes' ? day.minutes : day.sessions);
+  const maxValue = Math.max(0, ...summary.days.map(value));
+
+  // Pad the first week so columns start on Monday
+  const leading = summary.days.length > 0 ? (summary.days[0].date.getDay() + 6) % 7 : 0;
+  const cells: (HabitDay | null)[] = [...Array(leading).fill(null), ...summary.days];
+  const weeks: (HabitDay | null)[][] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+
+  return (
+    <div className="flex gap-1">
+      <div className="flex flex-col gap-1 mr-1">
+        {WEEKDAY_LABELS.map((label, index) => (
+          <div key={index} className="h-3 text-[10px] leading-3 text-gray-500">{label}</div>
+        ))}
+      </div>
+      {weeks.map((week, weekIndex) => (
+        <div key={weekIndex} className="flex flex-col gap-1">
+          {week.map((day, dayIndex) => day ? (
+            <div
+              key={day.dateKey}
+              className={`w-3 h-3 rounded-sm ${day.scheduledSessions > 0 && day.sessions === 0 ? 'ring-1 ring-inset ring-gray-300' : ''}`}
+              style={{ backgroundColor: getIntensityColor(maxValue > 0 ? value(day) / maxValue : 0) }}
+              title={`${formatDateShort(day.date)}: ${day.sessions}/${day.scheduledSessions} sessions, ${Math.round(day.minutes)} min`}
+            />
+          ) : (
+            <div key={`empty-${dayIndex}`} className="w-3 h-3" />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Target editor for one habit
+ */
+const HabitTargetPopover: React.FC<{
+  summary: HabitSummary;
+  onSave: (goal: HabitGoal) => Promise<unknown>;
+  onRemove: () => Promise<void>;
+}> = ({ summary, onSave, onRemove }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [frequency, setFrequency] = useState<HabitTargetFrequency>(summary.goal?.frequency ?? 'weekly');
+  const [metric, setMetric] = useState<HabitTargetMetric>(summary.goal?.metric ?? 'sessions');
+  const [target, setTarget] = useState(String(summary.goal?.target ?? 3));
+
+  const handleSave = async () => {
+    await onSave({ frequency, metric, target: Number(target) });
+    setIsOpen(false);
+  };
+
+  const handleRemove = async () => {
+    await onRemove();
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-gray-600 flex items-center gap-1">
+          <Target className="h-3 w-3" />
+          {describeGoal(summary.goal)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="end">
+        <div className="text-sm font-medium">Target for {summary.habitName}</div>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={1}
+            value={target}
+            onChange={e => setTarget(e.target.value)}
+            className="h-8 w-20"
+          />
+          <Select value={metric} onValueChange={(value: HabitTargetMetric) => setMetric(value)}>
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sessions">sessions</SelectItem>
+              <SelectItem value="minutes">minutes</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Select value={frequency} onValueChange={(value: HabitTargetFrequency) => setFrequency(value)}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="daily">per day</SelectItem>
+            <SelectItem value="weekly">per week</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex justify-between">
+          <Button variant="ghost" size="sm" onClick={handleRemove} disabled={!summary.goal}>
+            Remove
+          </Button>
+          <Button size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export const HabitAdherenceCard: React.FC<HabitAdherenceCardProps> = ({
+  events,
+  targets,
+  onSaveTarget,
+  onRemoveTarget
+}) => {
+  const summaries = useMemo(() => summarizeHabits(events, targets), [events, targets]);
+
+  return (
+    <Card className="relative">
+      <CardHeader>
+        <CardTitle className="text-base">Habits</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {summaries.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Add habits in the planner to track streaks and adherence here.
+          </p>
+        ) : (
+          summaries.map(summary => (
+            <div key={summary.habitKey} className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="text-sm font-medium truncate">{summary.habitName}</span>
+                  <span className="flex items-center gap-1 text-xs text-gray-600 whitespace-nowrap">
+                    <Flame className="h-3 w-3" />
+                    {summary.streak.current} {summary.streak.unit}{summary.streak.current === 1 ? '' : 's'}
+                    <span className="text-gray-400">(best {summary.streak.longest})</span>
+                  </span>
+                  <span className="text-xs text-gray-600 whitespace-nowrap">
+                    {Math.round(summary.adherence * 100)}% adherence
+                  </span>
+                </div>
+                <HabitTargetPopover
+                  key={`${summary.habitKey}-${describeGoal(summary.goal)}`}
+                  summary={summary}
+                  onSave={goal => onSaveTarget(summary.habitName, goal)}
+                  onRemove={() => onRemoveTarget(summary.habitName)}
+                />
+              </div>
+              <div className="overflow-x-auto">
+                <HabitHeatmap summary={summary} />
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
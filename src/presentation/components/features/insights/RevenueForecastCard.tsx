@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/presentation/components/shadcn/card';
+import type { CalendarEvent, Client, Holiday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import { getRevenueOverview } from '@/application/queries/ProjectRevenueAggregate';
+import { formatCurrency } from '@/presentation/utils/dateFormatUtils';
+
+interface RevenueForecastCardProps {
+  projects: Project[];
+  phases: PhaseDTO[];
+  clients: Client[];
+  events: CalendarEvent[];
+  settings: Settings;
+  holidays: Holiday[];
+}
+
+export const RevenueForecastCard: React.FC<RevenueForecastCardProps> = ({
+  projects,
+  phases,
+  clients,
+  events,
+  settings,
+  holidays
+}) => {
+  const overview = useMemo(
+    () => getRevenueOverview({ projects, phases, clients, events, settings, holidays }),
+    [projects, phases, clients, events, settings, holidays]
+  );
+
+  const projectNames = useMemo(
+    () => new Map(projects.map(project => [project.id, project.name])),
+    [projects]
+  );
+
+  return (
+    <Card className="relative">
+      <CardHeader>
+        <CardTitle className="text-base">Revenue</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overview.totals.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Set a default rate on a client or a rate on a project to see earned and forecast revenue.
+          </p>
+        ) : (
+          <>
+            {overview.totals.map(total => (
+              <div key={total.currency} className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-gray-600">Earned</div>
+                  <div className="text-lg font-bold">{formatCurrency(total.earned, total.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-600">Forecast</div>
+                  <div className="text-lg font-bold">{formatCurrency(total.forecast, total.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-600">Budget</div>
+                  <div className="text-lg font-bold">{formatCurrency(total.budget, total.currency)}</div>
+                </div>
+                <div>
+                  <div className="text-gray-600">Budget burn</div>
+                  <div className="text-lg font-bold">
+                    {total.budget > 0 ? `${((total.burned / total.budget) * 100).toFixed(0)}%` : '—'}
+                  </div>
+                </div>
+              </div>
+            ))}
+
+            <div className="space-y-2 text-sm border-t pt-3">
+              {overview.projects.map(revenue => (
+                <div key={revenue.projectId} className="flex justify-between items-center gap-4">
+                  <span className="text-gray-600 truncate">{projectNames.get(revenue.projectId)}</span>
+                  <span className="font-medium whitespace-nowrap">
+                    {formatCurrency(revenue.earned, revenue.currency)}
+                    <span className="text-gray-500"> / {formatCurrency(revenue.forecast, revenue.currency)}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/presentation/components/shadcn/card';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { Download, Printer } from 'lucide-react';
+import type { CalendarEvent, Client, Project } from '@/shared/types/core';
+import {
+  buildTimesheet,
+  generateTimesheetCsv,
+  generateTimesheetSummaryHtml,
+  getTimesheetExportFileName,
+  type TimesheetPeriod,
+  type TimesheetRoundingMinutes
+} from '@/application/queries/exports/timesheetExport';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+interface TimesheetExportCardProps {
+  events: CalendarEvent[];
+  projects: Project[];
+  clients: Client[];
+}
+
+const ALL = 'all';
+
+const getMonthStart = () => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+const createBlobUrl = (content: string, type: string) => URL.createObjectURL(new Blob([content], { type }));
+
+export const TimesheetExportCard: React.FC<TimesheetExportCardProps> = ({
+  events,
+  projects,
+  clients
+}) => {
+  const [rangeStart, setRangeStart] = useState(() => getDateKey(getMonthStart()));
+  const [rangeEnd, setRangeEnd] = useState(() => getDateKey(new Date()));
+  const [period, setPeriod] = useState<TimesheetPeriod>('day');
+  const [rounding, setRounding] = useState('0');
+  const [clientId, setClientId] = useState(ALL);
+
+  const timesheet = useMemo(() => {
+    if (!rangeStart || !rangeEnd) return null;
+    return buildTimesheet({ events, projects, clients }, {
+      rangeStart: new Date(`${rangeStart}T00:00:00`),
+      rangeEnd: new Date(`${rangeEnd}T23:59:59.999`),
+      period,
+      roundingMinutes: Number(rounding) as TimesheetRoundingMinutes,
+      clientIds: clientId === ALL ? undefined : [clientId]
+    });
+  }, [events, projects, clients, rangeStart, rangeEnd, period, rounding, clientId]);
+
+  const handleDownloadCsv = () => {
+    if (!timesheet) return;
+    const url = createBlobUrl(generateTimesheetCsv(timesheet), 'text/csv;charset=utf-8');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getTimesheetExportFileName(timesheet);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handlePrint = () => {
+    if (!timesheet) return;
+    const url = createBlobUrl(generateTimesheetSummaryHtml(timesheet), 'text/html;charset=utf-8');
+    const printWindow = window.open(url, '_blank');
+    printWindow?.addEventListener('load', () => {
+      printWindow.print();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  return (
+    <Card className="relative">
+      <CardHeader>
+        <CardTitle className="text-base">Timesheet</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="timesheet-from" className="text-xs">From</Label>
+            <Input id="timesheet-from" type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="timesheet-to" className="text-xs">To</Label>
+            <Input id="timesheet-to" type="date" value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="timesheet-client" className="text-xs">Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger id="timesheet-client">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All clients</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="timesheet-period" className="text-xs">Group by</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as TimesheetPeriod)}>
+              <SelectTrigger id="timesheet-period">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Day</SelectItem>
+                <SelectItem value="week">Week</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="timesheet-rounding" className="text-xs">Round up to</Label>
+            <Select value={rounding} onValueChange={setRounding}>
+              <SelectTrigger id="timesheet-rounding">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="0">No rounding</SelectItem>
+                <SelectItem value="6">6 minutes</SelectItem>
+                <SelectItem value="15">15 minutes</SelectItem>
+                <SelectItem value="30">30 minutes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {timesheet && (
+          <div className="space-y-2 text-sm">
+            {timesheet.clients.map(client => (
+              <div key={client.clientId ?? 'none'} className="flex justify-between items-center">
+                <span className="text-gray-600">{client.clientName}</span>
+                <span className="font-medium">{client.roundedHours.toFixed(2)}h</span>
+              </div>
+            ))}
+            <div className="flex justify-between items-center border-t pt-2">
+              <span className="font-medium">Total</span>
+              <span className="font-bold">{timesheet.roundedTotalHours.toFixed(2)}h</span>
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleDownloadCsv} disabled={!timesheet} size="sm">
+            <Download className="h-4 w-4 mr-2" />
+            Download CSV
+          </Button>
+          <Button onClick={handlePrint} disabled={!timesheet} size="sm" variant="outline">
+            <Printer className="h-4 w-4 mr-2" />
+            Print summary
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,6 +6,9 @@ export { TimeDistributionCard } from './TimeDistributionCard';
 export { AvailabilityUsedCard } from './AvailabilityUsedCard';
 export { FutureCommitmentsCard } from './FutureCommitmentsCard';
 export { AverageDayHeatmapCard } from './AverageDayHeatmapCard';
+export { TimesheetExportCard } from './TimesheetExportCard';
+export { RevenueForecastCard } from './RevenueForecastCard';
+export { HabitAdherenceCard } from './HabitAdherenceCard';
 
 // Internal components (not exported):
 // - FilterModal.tsx - Filter dialog used by AverageDayHeatmapCard
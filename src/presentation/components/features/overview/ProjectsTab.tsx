@@ -2,18 +2,25 @@ import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/presentation/components/shadcn/card';
 import { Badge } from '@/presentation/components/shadcn/badge';
 import { Button } from '@/presentation/components/shadcn/button';
-import { Calendar, Clock, Trash2, Users, Search, Folder, Building2, Tag } from 'lucide-react';
-import { Project, Group } from '@/shared/types';
+import { Calendar, Clock, Trash2, Users, Search, Folder, Building2, Tag, CircleDot } from 'lucide-react';
+import { Project } from '@/shared/types';
 import { getEffectiveProjectStatus } from '@/domain/rules/projects/ProjectMetrics';
 import { DurationFormattingService } from '@/domain/rules/projects/ProjectBudget';;
+import { groupProjects, type ProjectClassificationSources, type ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
 
 type FilterByStatus = 'all' | 'active' | 'future' | 'past';
-type OrganizeBy = 'group' | 'tag' | 'client';
+
+const SECTION_ICONS: Record<ProjectGrouping, typeof Folder> = {
+  group: Folder,
+  client: Building2,
+  label: Tag,
+  status: CircleDot
+};
 
 interface ProjectsTabProps {
   projects: Project[];
-  groups: Group[];
-  organizeBy: OrganizeBy;
+  classification: ProjectClassificationSources;
+  organizeBy: ProjectGrouping;
   filterByStatus: FilterByStatus;
   searchQuery: string;
   filterByDate: Date | undefined;
@@ -24,7 +31,7 @@ interface ProjectsTabProps {
 
 export const ProjectsTab = ({
   projects,
-  groups,
+  classification,
   organizeBy,
   filterByStatus,
   searchQuery,
@@ -81,44 +88,11 @@ export const ProjectsTab = ({
     return filtered;
   }, [projects, filterByStatus, searchQuery, filterByDate]);
 
-  // Organize filtered projects
-  const organizedProjects = useMemo(() => {
-    if (organizeBy === 'group') {
-      // Group by group
-      const byGroup: { [key: string]: { group: Group; projects: Project[] } } = {};
-      groups.forEach(group => {
-        byGroup[group.id] = { group, projects: [] };
-      });
-      filteredProjects.forEach(project => {
-        if (byGroup[project.groupId]) {
-          byGroup[project.groupId].projects.push(project);
-        }
-      });
-      return Object.values(byGroup).filter(g => g.projects.length > 0);
-    } else if (organizeBy === 'client') {
-      // Group by client
-      const byClient: { [key: string]: Project[] } = {};
-      filteredProjects.forEach(project => {
-        const clientName = project.clientData?.name || project.client || 'No Client';
-        if (!byClient[clientName]) {
-          byClient[clientName] = [];
-        }
-        byClient[clientName].push(project);
-      });
-      return Object.entries(byClient).map(([clientName, projects]) => ({
-        key: clientName,
-        label: clientName,
-        projects
-      }));
-    } else {
-      // Group by tag (placeholder - would need tag implementation)
-      return [{
-        key: 'all',
-        label: 'All Projects',
-        projects: filteredProjects
-      }];
-    }
-  }, [organizeBy, filteredProjects, groups]);
+  // Organize filtered projects into non-empty sections
+  const organizedProjects = useMemo(
+    () => groupProjects(filteredProjects, organizeBy, classification).filter(section => section.projects.length > 0),
+    [organizeBy, filteredProjects, classification]
+  );
 
   // Render project in list format
   const renderListProject = (project: Project) => (
@@ -196,54 +170,26 @@ export const ProjectsTab = ({
       {/* Organized Projects Display */}
       {organizedProjects.length > 0 ? (
         <div className="space-y-6">
-          {organizedProjects.map((section, index) => {
-            // Handle group organization
-            if ('group' in section) {
-              const groupData = section as { group: Group; projects: Project[] };
-              return (
-                <div key={`group-${groupData.group.id}`} className="space-y-3">
-                  {/* Group Header */}
-                  <div className="flex items-center gap-3">
-                    <Folder className="w-4 h-4 text-gray-500" />
-                    <h3 className="text-lg font-medium text-gray-900">{groupData.group.name}</h3>
-                    <Badge variant="outline" className="text-xs">
-                      {groupData.projects.length}
-                    </Badge>
-                  </div>
-                  {/* Projects Display */}
-                  <div className="space-y-2">
-                    {groupData.projects.map((project) =>
-                      renderListProject(project)
-                    )}
-                  </div>
+          {organizedProjects.map((section) => {
+            const SectionIcon = SECTION_ICONS[section.grouping];
+            return (
+              <div key={section.id} className="space-y-3">
+                {/* Section Header */}
+                <div className="flex items-center gap-3">
+                  <SectionIcon className="w-4 h-4 text-gray-500" />
+                  <h3 className="text-lg font-medium text-gray-900">{section.name}</h3>
+                  <Badge variant="outline" className="text-xs">
+                    {section.projects.length}
+                  </Badge>
                 </div>
-              );
-            } else {
-              // Handle client or tag organization
-              const sectionData = section as { key: string; label: string; projects: Project[] };
-              return (
-                <div key={`section-${sectionData.key}`} className="space-y-3">
-                  {/* Section Header */}
-                  <div className="flex items-center gap-3">
-                    {organizeBy === 'client' ? (
-                      <Building2 className="w-4 h-4 text-gray-500" />
-                    ) : (
-                      <Tag className="w-4 h-4 text-gray-500" />
-                    )}
-                    <h3 className="text-lg font-medium text-gray-900">{sectionData.label}</h3>
-                    <Badge variant="outline" className="text-xs">
-                      {sectionData.projects.length}
-                    </Badge>
-                  </div>
-                  {/* Projects Display */}
-                  <div className="space-y-2">
-                    {section.projects.map((project) =>
-                      renderListProject(project)
-                    )}
-                  </div>
+                {/* Projects Display */}
+                <div className="space-y-2">
+                  {section.projects.map((project) =>
+                    renderListProject(project)
+                  )}
                 </div>
-              );
-            }
+              </div>
+            );
           })}
         </div>
       ) : (
@@ -3,16 +3,18 @@
  *
  * A compact row above the calendar showing project summaries for each day.
  * Each day column shows the count of projects with estimated time and total hours.
- * Clicking opens a tooltip with project details. Labels are draggable to create events.
+ * Clicking opens a tooltip with project details. Labels are draggable to create events,
+ * or can be scheduled into the day's free work time (one project, one day or the whole week).
  */
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
 import { Project, PhaseDTO, CalendarEvent, Settings, Holiday } from '@/shared/types/core';
 import { getDailyProjectSummaries } from '@/application/queries/DayEstimateAggregate';
 import { Popover, PopoverContent, PopoverTrigger } from '@/presentation/components/shadcn/popover';
+import type { MaterializationRequest } from '@/domain/rules/events/EstimateMaterialization';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
 //
-import { ClockArrowDown } from 'lucide-react';
+import { CalendarPlus, ClockArrowDown } from 'lucide-react';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
 import * as DateCalculations from '@/presentation/utils/dateCalculations';
@@ -36,6 +38,8 @@ interface EstimatedTimeCardProps {
   onDragStart?: (projectId: string, date: Date, estimatedHours: number) => void;
   /** Callback when drag ends */
   onDragEnd?: () => void;
+  /** Schedule estimated time into planned events (one project, a day or the whole view) */
+  onMaterialize?: (requests: MaterializationRequest[]) => void;
   /** Width of calendar scroller's vertical scrollbar (px) to align right edge */
   scrollbarWidth?: number;
 }
@@ -52,6 +56,7 @@ export function EstimatedTimeCard({
   viewMode,
   onDragStart,
   onDragEnd,
+  onMaterialize,
   scrollbarWidth = 0,
 }: EstimatedTimeCardProps) {
   const [openPopoverId, setOpenPopoverId] = useState<string | null>(null);
@@ -172,6 +177,18 @@ export function EstimatedTimeCard({
     }
   }, [onDragEnd]);
 
+  // Schedule estimates of the given dates, optionally one project only
+  const handleMaterialize = useCallback((materializeDates: Date[], projectId?: string) => {
+    if (!onMaterialize) return;
+    const requests = materializeDates.flatMap(date =>
+      (summariesByDate.get(getDateKey(date)) || [])
+        .filter(summary => !projectId || summary.projectId === projectId)
+        .map(summary => ({ date, projectId: summary.projectId, hours: summary.estimatedHours }))
+    );
+    setOpenPopoverId(null);
+    if (requests.length > 0) onMaterialize(requests);
+  }, [onMaterialize, summariesByDate]);
+
   // Render a single day column
   const renderDayColumn = (date: Date, index: number) => {
     const dateKey = getDateKey(date);
@@ -227,10 +244,18 @@ export function EstimatedTimeCard({
             sideOffset={4}
           >
             <div className="max-h-96 overflow-y-auto">
-              <div className="px-3 py-2 border-b border-gray-200 bg-gray-50">
+              <div className="px-3 py-2 border-b border-gray-200 bg-gray-50 flex items-center justify-between gap-2">
                 <p className="text-xs font-semibold text-gray-700">
                   Projects for {date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
                 </p>
+                {onMaterialize && (
+                  <button
+                    className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                    onClick={() => handleMaterialize([date])}
+                  >
+                    Schedule all
+                  </button>
+                )}
               </div>
               <div className="divide-y divide-gray-100">
                 {summaries.map((summary) => (
@@ -252,10 +277,19 @@ export function EstimatedTimeCard({
                           </p>
                         )}
                       </div>
-                      <div className="flex-shrink-0">
+                      <div className="flex-shrink-0 flex items-center gap-1">
                         <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-800">
                           {DateCalculations.formatDuration(summary.estimatedHours)}
                         </span>
+                        {onMaterialize && (
+                          <button
+                            className="p-1 rounded text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                            title="Schedule into free time"
+                            onClick={() => handleMaterialize([date], summary.projectId)}
+                          >
+                            <CalendarPlus className="h-3.5 w-3.5" />
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -284,15 +318,25 @@ export function EstimatedTimeCard({
         <TooltipProvider>
           <Tooltip>
             <TooltipTrigger asChild>
-              <div 
-                className="flex-shrink-0 border-r border-gray-200 bg-gray-50 flex items-center justify-center"
-                style={{ width: `${timeAxisWidth}px` }}
-              >
-                <ClockArrowDown className="h-4 w-4 text-gray-600" />
-              </div>
+              {onMaterialize ? (
+                <button
+                  className="flex-shrink-0 border-r border-gray-200 bg-gray-50 hover:bg-gray-100 flex items-center justify-center"
+                  style={{ width: `${timeAxisWidth}px` }}
+                  onClick={() => handleMaterialize(dates)}
+                >
+                  <CalendarPlus className="h-4 w-4 text-gray-600" />
+                </button>
+              ) : (
+                <div 
+                  className="flex-shrink-0 border-r border-gray-200 bg-gray-50 flex items-center justify-center"
+                  style={{ width: `${timeAxisWidth}px` }}
+                >
+                  <ClockArrowDown className="h-4 w-4 text-gray-600" />
+                </div>
+              )}
             </TooltipTrigger>
             <TooltipContent>
-              <p>Estimated time</p>
+              <p>{onMaterialize ? `Schedule all estimated time this ${viewMode}` : 'Estimated time'}</p>
             </TooltipContent>
           </Tooltip>
         </TooltipProvider>
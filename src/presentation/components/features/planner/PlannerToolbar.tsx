@@ -3,7 +3,12 @@ import { Button } from '@/presentation/components/shadcn/button';
 import { ToggleGroup, ToggleGroupItem } from '@/presentation/components/shadcn/toggle-group';
 import { DatePickerButton } from '@/presentation/components/shared/DatePickerButton';
 import { HelpButton } from '@/presentation/components/shared/HelpButton';
-import { ChevronLeft, ChevronRight, MapPin, ChevronsDownUp, ChevronsUpDown } from 'lucide-react';
+import { ProjectGroupingSelect } from '@/presentation/components/shared/ProjectGroupingSelect';
+import { SavedFilterSelect } from '@/presentation/components/shared/SavedFilterSelect';
+import { PlanExportMenu } from '@/presentation/components/shared/PlanExportMenu';
+import type { PlanExport } from '@/application/queries/exports/planExport';
+import type { ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
+import { ChevronLeft, ChevronRight, MapPin, ChevronsDownUp, ChevronsUpDown, ListTodo, Sheet } from 'lucide-react';
 import { LayersPopover } from './LayersPopover';
 
 interface LayerVisibility {
@@ -28,7 +33,14 @@ interface PlannerToolbarProps {
   onToggleLayer: (layer: keyof LayerVisibility) => void;
   isCompactView: boolean;
   onToggleCompactView: () => void;
+  isBacklogOpen: boolean;
+  onToggleBacklog: () => void;
+  isTimesheetOpen: boolean;
+  onToggleTimesheet: () => void;
   onHelpClick: () => void;
+  timesheetGrouping?: ProjectGrouping;
+  onTimesheetGroupingChange?: (grouping: ProjectGrouping) => void;
+  buildExport?: () => PlanExport | null;
 }
 
 export function PlannerToolbar({
@@ -46,7 +58,14 @@ export function PlannerToolbar({
   onToggleLayer,
   isCompactView,
   onToggleCompactView,
+  isBacklogOpen,
+  onToggleBacklog,
+  isTimesheetOpen,
+  onToggleTimesheet,
   onHelpClick,
+  timesheetGrouping = 'group',
+  onTimesheetGroupingChange,
+  buildExport,
 }: PlannerToolbarProps) {
   return (
     <div className="px-6 p-[21px]">
@@ -109,6 +128,39 @@ export function PlannerToolbar({
               <ChevronsDownUp className="w-4 h-4" />
             )}
           </Button>
+
+          {/* Task Backlog Toggle */}
+          <Button
+            variant={isBacklogOpen ? 'secondary' : 'outline'}
+            className="h-9 gap-2"
+            onClick={onToggleBacklog}
+            title={isBacklogOpen ? "Hide task backlog" : "Show task backlog"}
+          >
+            <ListTodo className="w-4 h-4" />
+            Tasks
+          </Button>
+
+          {/* Timesheet Toggle */}
+          <Button
+            variant={isTimesheetOpen ? 'secondary' : 'outline'}
+            className="h-9 gap-2"
+            onClick={onToggleTimesheet}
+            title={isTimesheetOpen ? "Back to calendar" : "Log the week's hours per project"}
+          >
+            <Sheet className="w-4 h-4" />
+            Timesheet
+          </Button>
+
+          {/* Timesheet row sections */}
+          {isTimesheetOpen && onTimesheetGroupingChange && (
+            <ProjectGroupingSelect value={timesheetGrouping} onChange={onTimesheetGroupingChange} />
+          )}
+
+          {/* Saved filter - shared with the other views */}
+          <SavedFilterSelect />
+
+          {/* Week picture for clients */}
+          {buildExport && <PlanExportMenu buildExport={buildExport} />}
         </div>
         
         {/* Right side navigation */}
@@ -0,0 +1,224 @@
+/**
+ * TaskBacklogPanel Component
+ *
+ * Planner sidebar listing the unscheduled tasks of each project, earliest due date first.
+ * Tasks are dragged onto the calendar grid to schedule them, or auto-placed into
+ * free work time before their due dates.
+ */
+
+import React, { useMemo, useState } from 'react';
+import type { CalendarEvent, Project, ProjectTask } from '@/shared/types/core';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Checkbox } from '@/presentation/components/shadcn/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { CalendarClock, Plus, Trash2, X } from 'lucide-react';
+import { getBacklogTasks, isTaskOverdue } from '@/domain/rules/tasks/TaskBacklog';
+import type { TaskCreationInput } from '@/application/orchestrators/TaskOrchestrator';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+import { formatDuration } from '@/presentation/utils/dateCalculations';
+
+interface TaskBacklogPanelProps {
+  tasks: ProjectTask[];
+  projects: Project[];
+  events: CalendarEvent[];
+  onAddTask: (input: TaskCreationInput) => Promise<ProjectTask | null>;
+  onCompleteTask: (task: ProjectTask) => Promise<boolean>;
+  onDeleteTask: (task: ProjectTask) => Promise<boolean>;
+  onAutoSchedule: (tasks: ProjectTask[]) => Promise<void>;
+  onClose: () => void;
+}
+
+/**
+ * Inline form for adding a task to a project
+ */
+const AddTaskForm: React.FC<{
+  projects: Project[];
+  onAdd: (input: TaskCreationInput) => Promise<ProjectTask | null>;
+}> = ({ projects, onAdd }) => {
+  const [projectId, setProjectId] = useState(projects[0]?.id ?? '');
+  const [title, setTitle] = useState('');
+  const [estimate, setEstimate] = useState('1');
+  const [dueDate, setDueDate] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!projectId) return;
+    const added = await onAdd({
+      projectId,
+      title,
+      estimatedHours: Number(estimate),
+      // Date inputs give a calendar date; keep it as a local date
+      dueDate: dueDate ? new Date(`${dueDate}T00:00:00`) : undefined
+    });
+    if (added) {
+      setTitle('');
+      setDueDate('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2 p-3 border-b border-gray-200">
+      <Select value={projectId} onValueChange={setProjectId}>
+        <SelectTrigger className="h-8 text-sm">
+          <SelectValue placeholder="Project" />
+        </SelectTrigger>
+        <SelectContent>
+          {projects.map(project => (
+            <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={title}
+        onChange={e => setTitle(e.target.value)}
+        placeholder="New task"
+        className="h-8 text-sm"
+      />
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0.25}
+          step={0.25}
+          value={estimate}
+          onChange={e => setEstimate(e.target.value)}
+          className="h-8 w-20 text-sm"
+          title="Estimate (hours)"
+        />
+        <Input
+          type="date"
+          value={dueDate}
+          onChange={e => setDueDate(e.target.value)}
+          className="h-8 text-sm"
+          title="Due date"
+        />
+        <Button type="submit" size="icon" className="h-8 w-8 flex-shrink-0" disabled={!projectId || !title.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const TaskBacklogPanel: React.FC<TaskBacklogPanelProps> = ({
+  tasks,
+  projects,
+  events,
+  onAddTask,
+  onCompleteTask,
+  onDeleteTask,
+  onAutoSchedule,
+  onClose
+}) => {
+  const [isScheduling, setIsScheduling] = useState(false);
+  const backlog = useMemo(() => getBacklogTasks(tasks, events), [tasks, events]);
+
+  // Group by project, keeping each project's earliest due date first
+  const groups = useMemo(() => {
+    const byProject = new Map<string, ProjectTask[]>();
+    for (const task of backlog) {
+      byProject.set(task.projectId, [...(byProject.get(task.projectId) || []), task]);
+    }
+    return Array.from(byProject.entries())
+      .map(([projectId, projectTasks]) => ({ project: projects.find(p => p.id === projectId), tasks: projectTasks }))
+      .filter((group): group is { project: Project; tasks: ProjectTask[] } => !!group.project);
+  }, [backlog, projects]);
+
+  const handleDragStart = (e: React.DragEvent, task: ProjectTask) => {
+    e.dataTransfer.effectAllowed = 'copy';
+    e.dataTransfer.setData('application/json', JSON.stringify({
+      type: 'project-task',
+      taskId: task.id,
+      projectId: task.projectId,
+      estimatedHours: task.estimatedHours
+    }));
+  };
+
+  const handleAutoSchedule = async () => {
+    setIsScheduling(true);
+    try {
+      await onAutoSchedule(backlog);
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  return (
+    <div className="h-full w-72 flex flex-col bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200">
+        <span className="text-sm font-semibold text-gray-900">Tasks</span>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs gap-1"
+            onClick={handleAutoSchedule}
+            disabled={backlog.length === 0 || isScheduling}
+            title="Place tasks in free work time before their due dates"
+          >
+            <CalendarClock className="h-3.5 w-3.5" />
+            Auto-schedule
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Hide task backlog">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      {projects.length > 0 && <AddTaskForm projects={projects} onAdd={onAddTask} />}
+      <div className="flex-1 overflow-y-auto">
+        {groups.length === 0 ? (
+          <p className="p-3 text-sm text-gray-500">
+            No unscheduled tasks. Add tasks with an estimate, then drag them onto the calendar.
+          </p>
+        ) : (
+          groups.map(({ project, tasks: projectTasks }) => (
+            <div key={project.id} className="border-b border-gray-100">
+              <div className="flex items-center gap-2 px-3 pt-3 pb-1">
+                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+                <span className="text-xs font-medium text-gray-600 truncate">{project.name}</span>
+              </div>
+              {projectTasks.map(task => {
+                const overdue = isTaskOverdue(task);
+                return (
+                  <div
+                    key={task.id}
+                    className="group flex items-start gap-2 px-3 py-2 hover:bg-gray-50 cursor-grab active:cursor-grabbing"
+                    draggable
+                    onDragStart={e => handleDragStart(e, task)}
+                  >
+                    <Checkbox
+                      className="mt-0.5"
+                      checked={task.completed}
+                      onCheckedChange={() => onCompleteTask(task)}
+                      aria-label="Complete task"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{task.title}</p>
+                      <div className="flex items-center gap-2 mt-0.5 text-xs">
+                        <span className="px-1.5 rounded bg-gray-100 text-gray-700">
+                          {formatDuration(task.estimatedHours)}
+                        </span>
+                        {task.dueDate && (
+                          <span className={overdue ? 'text-red-600 font-medium' : 'text-gray-500'}>
+                            {overdue ? 'Overdue' : 'Due'} {formatDateShort(task.dueDate)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                    <button
+                      className="p-1 rounded text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600 hover:bg-red-50"
+                      title="Delete task"
+                      onClick={() => onDeleteTask(task)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,214 @@
+/**
+ * TimesheetGrid Component
+ *
+ * Week-by-project hour matrix for catching up on logged time. Each cell shows the
+ * completed hours of a project on a day; typing new hours resizes, removes or adds
+ * completed events in that day's work slots. Day totals are checked against the
+ * day's work hours. Rows can be sectioned by group, client, label or status.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CalendarEvent, Holiday, Project, Settings } from '@/shared/types/core';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { cn } from '@/presentation/lib/utils';
+import { buildTimesheetGrid, getTimesheetDayStatus, type TimesheetCellChange } from '@/domain/rules/events/Timesheet';
+import { getWorkHoursForDay } from '@/domain/rules/availability/DailyMetrics';
+import { groupProjects, type ProjectClassificationSources, type ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+
+interface TimesheetGridProps {
+  weekStart: Date;
+  events: CalendarEvent[];
+  projects: Project[];
+  holidays: Holiday[];
+  settings: Settings;
+  onCellChange: (change: TimesheetCellChange) => Promise<void>;
+  grouping?: ProjectGrouping; // Section rows; unsectioned when omitted
+  classification?: ProjectClassificationSources;
+}
+
+// Hours as typed: "1.5", "1,5" or "1:30"
+const parseHours = (value: string): number => {
+  const trimmed = value.trim();
+  if (trimmed === '') return 0;
+  if (trimmed.includes(':')) {
+    const [hours, minutes] = trimmed.split(':').map(Number);
+    return hours + (minutes || 0) / 60;
+  }
+  return Number(trimmed.replace(',', '.'));
+};
+
+const formatHours = (hours: number): string => (hours === 0 ? '' : String(Math.round(hours * 100) / 100));
+
+/**
+ * One editable cell; commits on blur or Enter
+ */
+const HoursCell: React.FC<{
+  hours: number;
+  onCommit: (hours: number) => Promise<void>;
+}> = ({ hours, onCommit }) => {
+  const [value, setValue] = useState(formatHours(hours));
+
+  useEffect(() => {
+    setValue(formatHours(hours));
+  }, [hours]);
+
+  const commit = async () => {
+    const parsed = parseHours(value);
+    if (!Number.isFinite(parsed) || Math.round(parsed * 60) === Math.round(hours * 60)) {
+      setValue(formatHours(hours));
+      return;
+    }
+    await onCommit(parsed);
+  };
+
+  return (
+    <Input
+      value={value}
+      inputMode="decimal"
+      className="h-8 text-right tabular-nums"
+      onChange={e => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') (e.target as HTMLInputElement).blur();
+        if (e.key === 'Escape') setValue(formatHours(hours));
+      }}
+    />
+  );
+};
+
+export const TimesheetGrid: React.FC<TimesheetGridProps> = ({
+  weekStart,
+  events,
+  projects,
+  holidays,
+  settings,
+  onCellChange,
+  grouping,
+  classification
+}) => {
+  const [addedProjectIds, setAddedProjectIds] = useState<string[]>([]);
+
+  const timesheet = useMemo(
+    () => buildTimesheetGrid(events, weekStart, addedProjectIds),
+    [events, weekStart, addedProjectIds]
+  );
+  const capacity = useMemo(
+    () => timesheet.days.map(day => getWorkHoursForDay(day, holidays, settings)),
+    [timesheet.days, holidays, settings]
+  );
+
+  const availableProjects = projects.filter(project => !timesheet.rows.some(row => row.projectId === project.id));
+
+  // Rows of shown projects, in sections when grouped
+  const sections = useMemo(() => {
+    const rowsByProject = new Map(timesheet.rows.map(row => [row.projectId, row]));
+    const rowProjects = timesheet.rows
+      .map(row => projects.find(p => p.id === row.projectId))
+      .filter((project): project is Project => !!project);
+    const grouped = grouping && classification
+      ? groupProjects(rowProjects, grouping, classification).filter(section => section.projects.length > 0)
+      : [{ id: 'all', name: '', projects: rowProjects }];
+    return grouped.map(section => {
+      const rows = section.projects.map(project => ({ project, row: rowsByProject.get(project.id)! }));
+      return { id: section.id, name: section.name, rows, total: rows.reduce((sum, { row }) => sum + row.total, 0) };
+    });
+  }, [timesheet.rows, projects, grouping, classification]);
+
+  return (
+    <div className="h-full overflow-auto p-4">
+      <table className="w-full border-collapse text-sm">
+        <thead>
+          <tr className="text-muted-foreground">
+            <th className="text-left font-medium pb-2 pr-3">Project</th>
+            {timesheet.days.map(day => (
+              <th key={day.toISOString()} className="font-medium pb-2 px-1 w-20 text-right">
+                <div>{day.toLocaleDateString('en-US', { weekday: 'short' })}</div>
+                <div className="text-xs font-normal">{formatDateShort(day)}</div>
+              </th>
+            ))}
+            <th className="font-medium pb-2 pl-3 w-16 text-right">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {sections.map(section => (
+            <React.Fragment key={section.id}>
+              {section.name && (
+                <tr className="border-t border-gray-200">
+                  <td className="pt-3 pb-1 pr-3 text-xs font-medium text-gray-700" colSpan={timesheet.days.length + 1}>
+                    {section.name}
+                  </td>
+                  <td className="pt-3 pb-1 pl-3 text-right text-xs tabular-nums text-gray-700">
+                    {formatHours(section.total) || '0'}
+                  </td>
+                </tr>
+              )}
+              {section.rows.map(({ project, row }) => (
+                <tr key={row.projectId} className="border-t border-gray-100">
+                  <td className="py-1 pr-3">
+                    <span className="flex items-center gap-2 min-w-0">
+                      <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+                      <span className="truncate">{project.name}</span>
+                    </span>
+                  </td>
+                  {row.hours.map((hours, dayIndex) => (
+                    <td key={dayIndex} className="py-1 px-1">
+                      <HoursCell
+                        hours={hours}
+                        onCommit={newHours => onCellChange({ date: timesheet.days[dayIndex], projectId: row.projectId, hours: newHours })}
+                      />
+                    </td>
+                  ))}
+                  <td className="py-1 pl-3 text-right tabular-nums font-medium">{formatHours(row.total) || '0'}</td>
+                </tr>
+              ))}
+            </React.Fragment>
+          ))}
+          <tr className="border-t border-gray-100">
+            <td className="py-2 pr-3" colSpan={timesheet.days.length + 2}>
+              <Select
+                value=""
+                onValueChange={projectId => setAddedProjectIds(prev => [...prev, projectId])}
+                disabled={availableProjects.length === 0}
+              >
+                <SelectTrigger className="h-8 w-56">
+                  <SelectValue placeholder="Add project row" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableProjects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </td>
+          </tr>
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-gray-300">
+            <td className="pt-2 pr-3 font-medium">Logged / work hours</td>
+            {timesheet.dayTotals.map((total, dayIndex) => {
+              const status = getTimesheetDayStatus(total, capacity[dayIndex]);
+              return (
+                <td
+                  key={dayIndex}
+                  className={cn(
+                    'pt-2 px-1 text-right tabular-nums',
+                    status === 'over' && 'text-red-600 font-medium',
+                    status === 'full' && 'text-emerald-700'
+                  )}
+                  title={status === 'over' ? 'More time logged than the day\'s work hours' : undefined}
+                >
+                  {formatHours(total) || '0'} / {formatHours(capacity[dayIndex]) || '0'}
+                </td>
+              );
+            })}
+            <td className="pt-2 pl-3 text-right tabular-nums font-medium">
+              {formatHours(timesheet.total) || '0'} / {formatHours(capacity.reduce((sum, h) => sum + h, 0)) || '0'}
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
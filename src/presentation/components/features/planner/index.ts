@@ -4,4 +4,6 @@ export { PlannerInsightCard } from './PlannerInsightCard';
 export { HoverablePlannerDateCell } from './HoverablePlannerDateCell';
 export { EstimatedTimeCard } from './EstimatedTimeCard';
 export { WeekNavigationBar } from './WeekNavigationBar';
+export { TaskBacklogPanel } from './TaskBacklogPanel';
 export * from './eventContent';
+export { TimesheetGrid } from './TimesheetGrid';
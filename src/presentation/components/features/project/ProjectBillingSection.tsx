@@ -0,0 +1,119 @@
+import React from 'react';
+import { Banknote } from 'lucide-react';
+import { Label } from '@/presentation/components/shadcn/label';
+import { BillingRateInput } from '@/presentation/components/shared';
+import type { BillingRate, CalendarEvent, Holiday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import { getProjectRevenue } from '@/application/queries/ProjectRevenueAggregate';
+import { DEFAULT_CURRENCY } from '@/domain/rules/projects/ProjectRevenue';
+import { formatCurrency } from '@/presentation/utils/dateFormatUtils';
+
+interface ProjectBillingSectionProps {
+  project: Project;
+  phases: PhaseDTO[];
+  events: CalendarEvent[];
+  holidays: Holiday[];
+  settings: Settings;
+  onProjectRateChange: (rate: BillingRate | undefined) => void;
+  onPhaseRateChange: (phaseId: string, rate: BillingRate | undefined) => void;
+}
+
+export const ProjectBillingSection: React.FC<ProjectBillingSectionProps> = ({
+  project,
+  phases,
+  events,
+  holidays,
+  settings,
+  onProjectRateChange,
+  onPhaseRateChange,
+}) => {
+  const client = project.clientData;
+  const currency = client?.currency ?? DEFAULT_CURRENCY;
+
+  const revenue = React.useMemo(() => getProjectRevenue(project, {
+    phases,
+    clients: client ? [client] : [],
+    events,
+    settings,
+    holidays,
+  }), [project, phases, client, events, settings, holidays]);
+
+  const isBilled = !!revenue.rate || revenue.phases.length > 0;
+  const format = (amount: number) => formatCurrency(amount, currency);
+  const clientRateLabel = client?.defaultRate
+    ? `Client rate (${client.defaultRate.type === 'hourly' ? `${format(client.defaultRate.amount)}/h` : format(client.defaultRate.amount)})`
+    : 'Not billed';
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="project-rate" className="text-sm font-medium">Project Rate</Label>
+        <BillingRateInput
+          id="project-rate"
+          value={project.billingRate}
+          onChange={onProjectRateChange}
+          noneLabel={clientRateLabel}
+          currency={currency}
+        />
+      </div>
+
+      {phases.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Phase Rates</Label>
+          {phases.map(phase => (
+            <div key={phase.id} className="grid grid-cols-[10rem_1fr] items-center gap-3">
+              <span className="text-sm truncate">{phase.name}</span>
+              <BillingRateInput
+                id={`phase-rate-${phase.id}`}
+                value={phase.billingRate}
+                onChange={(rate) => onPhaseRateChange(phase.id, rate)}
+                noneLabel="Use project rate"
+                currency={currency}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isBilled && (
+        <div className="bg-card rounded-lg p-4 border space-y-3">
+          <div className="flex items-center gap-2">
+            <Banknote className="w-4 h-4 text-green-600" />
+            <h3 className="font-medium">Revenue</h3>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Earned</div>
+              <div className="text-lg font-bold">{format(revenue.earned)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Forecast</div>
+              <div className="text-lg font-bold">{format(revenue.forecast)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Budget</div>
+              <div className="text-lg font-bold">{format(revenue.budget)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Effective rate</div>
+              <div className="text-lg font-bold">
+                {revenue.effectiveHourlyRate !== undefined ? `${format(revenue.effectiveHourlyRate)}/h` : '—'}
+              </div>
+            </div>
+          </div>
+          <div>
+            <div className="flex justify-between text-xs text-muted-foreground mb-1">
+              <span>Budget burn</span>
+              <span>{revenue.burnPercentage.toFixed(0)}%</span>
+            </div>
+            <div className="w-full bg-secondary rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${revenue.burnPercentage > 100 ? 'bg-red-500' : 'bg-primary'}`}
+                style={{ width: `${Math.min(100, revenue.burnPercentage)}%` }}
+              />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { Link2, X } from 'lucide-react';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import type { DependencyCreationInput } from '@/application/orchestrators/DependencyOrchestrator';
+import type { Dependency, DependencyType, PhaseDTO, Project } from '@/shared/types/core';
+
+interface ProjectDependenciesSectionProps {
+  project: Project;
+  projects: Project[];
+  phases: PhaseDTO[];
+  dependencies: Dependency[];
+  onAddDependency: (input: DependencyCreationInput) => Promise<unknown>;
+  onRemoveDependency: (dependency: Dependency) => void;
+}
+
+const TYPE_LABELS: Record<DependencyType, string> = {
+  'finish-to-start': 'Starts after it finishes',
+  'start-to-start': 'Starts with it'
+};
+
+const PROJECT_TARGET = 'project';
+
+export const ProjectDependenciesSection: React.FC<ProjectDependenciesSectionProps> = ({
+  project,
+  projects,
+  phases,
+  dependencies,
+  onAddDependency,
+  onRemoveDependency,
+}) => {
+  // The successor: the project itself or one of its phases
+  const [target, setTarget] = useState(PROJECT_TARGET);
+  const [predecessorId, setPredecessorId] = useState('');
+  const [type, setType] = useState<DependencyType>('finish-to-start');
+  const [lagDays, setLagDays] = useState(0);
+
+  const projectPhases = phases.filter(phase => phase.projectId === project.id && !phase.isRecurring);
+  const projectPhaseIds = new Set(projectPhases.map(phase => phase.id));
+  const kind = target === PROJECT_TARGET ? 'project' : 'phase';
+
+  const names = new Map<string, string>([
+    ...projects.map(p => [p.id, p.name] as [string, string]),
+    ...phases.map(phase => {
+      const owner = projects.find(p => p.id === phase.projectId);
+      return [phase.id, owner && owner.id !== project.id ? `${owner.name} · ${phase.name}` : phase.name] as [string, string];
+    })
+  ]);
+
+  const predecessorOptions = kind === 'project'
+    ? projects.filter(p => p.id !== project.id).map(p => p.id)
+    : phases.filter(phase => phase.id !== target && !phase.isRecurring).map(phase => phase.id);
+
+  const waitsOn = dependencies.filter(dependency =>
+    (dependency.kind === 'project' && dependency.successorId === project.id) ||
+    (dependency.kind === 'phase' && projectPhaseIds.has(dependency.successorId))
+  );
+  const followedBy = dependencies.filter(dependency =>
+    (dependency.kind === 'project' && dependency.predecessorId === project.id) ||
+    (dependency.kind === 'phase' && projectPhaseIds.has(dependency.predecessorId))
+  );
+
+  const handleAdd = async () => {
+    if (!predecessorId) return;
+    const added = await onAddDependency({
+      kind,
+      predecessorId,
+      successorId: kind === 'project' ? project.id : target,
+      type,
+      lagDays
+    });
+    if (added) {
+      setPredecessorId('');
+      setLagDays(0);
+    }
+  };
+
+  // Phase links are prefixed with the phase of this project they belong to
+  const renderDependency = (dependency: Dependency, ownId: string, otherId: string) => (
+    <div key={dependency.id} className="flex items-center justify-between gap-3 text-sm bg-card border rounded-md px-3 py-2">
+      <div className="min-w-0">
+        <div className="truncate">
+          {dependency.kind === 'phase' && <span className="text-muted-foreground">{names.get(ownId)}: </span>}
+          {names.get(otherId) ?? 'Removed item'}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          {TYPE_LABELS[dependency.type]}{dependency.lagDays > 0 ? `, ${dependency.lagDays} day${dependency.lagDays === 1 ? '' : 's'} lag` : ''}
+        </div>
+      </div>
+      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => onRemoveDependency(dependency)}>
+        <X className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Waits On</Label>
+        {waitsOn.length === 0
+          ? <p className="text-sm text-muted-foreground">Nothing - this project can be moved freely.</p>
+          : waitsOn.map(dependency => renderDependency(dependency, dependency.successorId, dependency.predecessorId))}
+      </div>
+
+      {followedBy.length > 0 && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Followed By</Label>
+          {followedBy.map(dependency => renderDependency(dependency, dependency.predecessorId, dependency.successorId))}
+        </div>
+      )}
+
+      <div className="bg-card rounded-lg p-4 border space-y-3">
+        <div className="flex items-center gap-2">
+          <Link2 className="w-4 h-4 text-muted-foreground" />
+          <h3 className="font-medium">Add Dependency</h3>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">This</Label>
+            <Select value={target} onValueChange={(value) => { setTarget(value); setPredecessorId(''); }}>
+              <SelectTrigger className="h-9 text-sm !bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PROJECT_TARGET}>Project "{project.name}"</SelectItem>
+                {projectPhases.map(phase => (
+                  <SelectItem key={phase.id} value={phase.id}>Phase "{phase.name}"</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Waits on</Label>
+            <Select value={predecessorId || undefined} onValueChange={setPredecessorId}>
+              <SelectTrigger className="h-9 text-sm !bg-white">
+                <SelectValue placeholder={kind === 'project' ? 'Select project' : 'Select phase'} />
+              </SelectTrigger>
+              <SelectContent>
+                {predecessorOptions.map(id => (
+                  <SelectItem key={id} value={id}>{names.get(id)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as DependencyType)}>
+              <SelectTrigger className="h-9 text-sm !bg-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="finish-to-start">Finish to start - {TYPE_LABELS['finish-to-start'].toLowerCase()}</SelectItem>
+                <SelectItem value="start-to-start">Start to start - {TYPE_LABELS['start-to-start'].toLowerCase()}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="dependency-lag" className="text-xs">Lag (days)</Label>
+            <Input
+              id="dependency-lag"
+              type="number"
+              min={0}
+              step={1}
+              value={lagDays}
+              onChange={(e) => setLagDays(Math.max(0, Math.round(Number(e.target.value) || 0)))}
+              className="h-9 text-sm"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={!predecessorId}>
+            Add Dependency
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
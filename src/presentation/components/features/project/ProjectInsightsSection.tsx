@@ -1,21 +1,36 @@
 import React from 'react';
-import { Clock, TrendingUp, Calendar, Target } from 'lucide-react';
+import { Clock, TrendingUp, Calendar, Target, Gauge } from 'lucide-react';
 import { ProjectProgressGraph } from './ProjectProgressGraph';
-import { Project, CalendarEvent, Holiday } from '@/shared/types';
+import { Project, CalendarEvent, Holiday, Settings } from '@/shared/types';
 import { formatDuration } from '@/presentation/utils/dateCalculations';;
 import { calculateProjectTimeMetrics } from '@/domain/rules/projects/ProjectMetrics';;
 import type { ProjectEvent } from '@/domain/rules/projects/ProjectMetrics';
+import { forecastProjectCompletion, type DeadlineRisk } from '@/domain/rules/projects/ProjectForecast';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+
+const RISK_LABELS: Record<DeadlineRisk, { label: string; className: string }> = {
+  'complete': { label: 'Complete', className: 'text-green-600' },
+  'on-track': { label: 'On track', className: 'text-green-600' },
+  'at-risk': { label: 'At risk', className: 'text-amber-600' },
+  'late': { label: 'Projected late', className: 'text-red-600' },
+  'no-deadline': { label: 'Continuous', className: 'text-muted-foreground' },
+  'insufficient-data': { label: 'Not enough history', className: 'text-muted-foreground' },
+};
 
 interface ProjectInsightsSectionProps {
   project: Project;
   events: CalendarEvent[];
   holidays: Holiday[];
+  settings: Settings;
+  backlogHours?: number; // Estimates of unscheduled tasks
 }
 
 export const ProjectInsightsSection: React.FC<ProjectInsightsSectionProps> = ({
   project,
   events,
   holidays,
+  settings,
+  backlogHours = 0,
 }) => {
   // Calculate project metrics using the standard function
   const projectEventsForMetrics = React.useMemo<ProjectEvent[]>(() => {
@@ -36,8 +51,13 @@ export const ProjectInsightsSection: React.FC<ProjectInsightsSectionProps> = ({
 
   const metrics = React.useMemo(() => {
     if (!project || !projectEventsForMetrics || !holidays) return null;
-    return calculateProjectTimeMetrics(project, projectEventsForMetrics, holidays, new Date());
-  }, [project, projectEventsForMetrics, holidays]);
+    return calculateProjectTimeMetrics(project, projectEventsForMetrics, holidays, new Date(), backlogHours);
+  }, [project, projectEventsForMetrics, holidays, backlogHours]);
+
+  const forecast = React.useMemo(() => {
+    if (!settings) return null;
+    return forecastProjectCompletion({ project, events: events || [], settings, holidays: holidays || [] });
+  }, [project, events, settings, holidays]);
 
   if (!metrics) {
     return (
@@ -85,6 +105,55 @@ export const ProjectInsightsSection: React.FC<ProjectInsightsSectionProps> = ({
         </div>
       </div>
 
+      {/* Finish Date Forecast */}
+      {forecast && (
+        <div className="bg-card rounded-lg p-4 border">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2">
+              <Gauge className="w-4 h-4 text-purple-500" />
+              <h3 className="font-medium">Forecast</h3>
+            </div>
+            <span className={`text-sm font-medium ${RISK_LABELS[forecast.risk].className}`}>
+              {RISK_LABELS[forecast.risk].label}
+            </span>
+          </div>
+          {forecast.risk === 'insufficient-data' ? (
+            <p className="text-sm text-muted-foreground">
+              Complete work on this project for at least two weeks to forecast a finish date.
+            </p>
+          ) : forecast.risk !== 'complete' && (
+            <div className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Projected finish:</span>
+                <span className="font-medium">
+                  {forecast.projectedFinish ? formatDateShort(forecast.projectedFinish) : 'Not within 3 years'}
+                </span>
+              </div>
+              {forecast.earliestFinish && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Likely range:</span>
+                  <span className="font-medium">
+                    {formatDateShort(forecast.earliestFinish)} – {forecast.latestFinish ? formatDateShort(forecast.latestFinish) : 'open'}
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Recent pace:</span>
+                <span className="font-medium">{formatDuration(forecast.velocity.averageWeeklyHours)} / week</span>
+              </div>
+              {forecast.daysLate > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Past end date:</span>
+                  <span className="font-medium text-red-600">
+                    {forecast.daysLate} day{forecast.daysLate === 1 ? '' : 's'}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Project Progress Graph */}
       <div className="bg-card rounded-lg p-4 border">
         <div className="flex items-center gap-2 mb-4">
@@ -20,6 +20,7 @@ import {
   PhaseConfigDialog
 } from '../phases';
 import { PhaseOrchestrator } from '@/application/orchestrators/PhaseOrchestrator';
+import { commandHistory } from '@/application/orchestrators/CommandHistoryOrchestrator';
 import { addDaysToDate } from '@/presentation/utils/dateCalculations';;
 import { PhaseRules } from '@/domain/rules/phases/PhaseRules';
 
@@ -524,12 +525,10 @@ export function ProjectPhaseSection({
     if (isCreatingProject && localPhasesState) {
       localPhasesState.setPhases([]);
     } else {
-      // Delete all phases in parallel for faster response
-      const deletePromises = projectPhases
-        .filter(p => p.id)
-        .map(p => deletePhase(p.id!));
-      
-      await Promise.all(deletePromises);
+      // Delete all phases in parallel for faster response (one undo step)
+      await commandHistory.transaction('Delete all phases', transaction => Promise.all(
+        projectPhases.filter(p => p.id).map(p => deletePhase(p.id!, { transaction }))
+      ));
       
       // Force refetch to ensure state is in sync
       await refetchPhases();
@@ -778,9 +777,9 @@ export function ProjectPhaseSection({
                       
                       // Delete everything and start fresh
                       const allPhases = projectPhases.filter(p => p.id);
-                      const deletePromises = allPhases.map(p => deletePhase(p.id!));
-                      
-                      await Promise.all(deletePromises);
+                      await commandHistory.transaction('Delete all phases', transaction => Promise.all(
+                        allPhases.map(p => deletePhase(p.id!, { transaction }))
+                      ));
                       await refetchPhases();
                       
                       setLocalPhases([]);
@@ -1022,12 +1021,10 @@ export function ProjectPhaseSection({
           if (isCreatingProject && localPhasesState) {
             localPhasesState.setPhases([]);
           } else {
-            // Delete all phases in parallel for faster response
-            const deletePromises = projectPhases
-              .filter(p => p.id)
-              .map(p => deletePhase(p.id!));
-            
-            await Promise.all(deletePromises);
+            // Delete all phases in parallel for faster response (one undo step)
+            await commandHistory.transaction('Delete all phases', transaction => Promise.all(
+              projectPhases.filter(p => p.id).map(p => deletePhase(p.id!, { transaction }))
+            ));
             
             // Force refetch to ensure state is in sync
             await refetchPhases();
@@ -1062,12 +1059,10 @@ export function ProjectPhaseSection({
           if (isCreatingProject && localPhasesState) {
             localPhasesState.setPhases([]);
           } else {
-            // Delete all phases in parallel for faster response
-            const deletePromises = projectPhases
-              .filter(p => p.id)
-              .map(p => deletePhase(p.id!));
-            
-            await Promise.all(deletePromises);
+            // Delete all phases in parallel for faster response (one undo step)
+            await commandHistory.transaction('Delete all phases', transaction => Promise.all(
+              projectPhases.filter(p => p.id).map(p => deletePhase(p.id!, { transaction }))
+            ));
             
             // Force refetch to ensure state is in sync
             await refetchPhases();
@@ -5,6 +5,8 @@ export { ProjectInsightsSection } from './ProjectInsightsSection';
 export { ProjectPhaseSection } from './ProjectPhaseSection';
 export { ProjectNotesSection } from './ProjectNotesSection';
 export { ProjectProgressGraph } from './ProjectProgressGraph';
+export { ProjectBillingSection } from './ProjectBillingSection';
+export { ProjectDependenciesSection } from './ProjectDependenciesSection';
 
 // UI Components (shared)
 export { RichTextEditor } from '@/presentation/components/shadcn/rich-text-editor';
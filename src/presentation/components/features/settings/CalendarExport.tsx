@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/presentation/components/shadcn/card';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Checkbox } from '@/presentation/components/shadcn/checkbox';
+import { Switch } from '@/presentation/components/shadcn/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { Download } from 'lucide-react';
+import type { EventTimeType } from '@/domain/rules/events/EventClassification';
+import {
+  generateICalExport,
+  getICalExportFileName,
+  type ICalExportOptions
+} from '@/application/queries/exports/calendarExport';
+import { CalendarEventMapper } from '@/infrastructure/mappers/CalendarEventMapper';
+import { useEvents } from '@/presentation/hooks/data/useEvents';
+import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { useClients } from '@/presentation/hooks/data/useClients';
+import { useProjectContext } from '@/presentation/contexts/ProjectContext';
+import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+
+const ALL = 'all';
+
+const addMonths = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + months);
+  return next;
+};
+
+export function CalendarExport() {
+  const { events: rawEvents } = useEvents();
+  const { holidays } = useHolidays();
+  const { clients } = useClients();
+  const { projects, groups, phases } = useProjectContext();
+  const { settings } = useSettingsContext();
+  const { toast } = useToast();
+
+  const [projectId, setProjectId] = useState(ALL);
+  const [clientId, setClientId] = useState(ALL);
+  const [groupId, setGroupId] = useState(ALL);
+  const [rangeStart, setRangeStart] = useState(() => getDateKey(addMonths(new Date(), -1)));
+  const [rangeEnd, setRangeEnd] = useState(() => getDateKey(addMonths(new Date(), 6)));
+  const [includePlanned, setIncludePlanned] = useState(true);
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+  const [includeHolidays, setIncludeHolidays] = useState(true);
+  const [includeEstimates, setIncludeEstimates] = useState(false);
+  const [availabilityOnly, setAvailabilityOnly] = useState(false);
+
+  const events = useMemo(() => rawEvents.map(row => CalendarEventMapper.fromDatabase(row)), [rawEvents]);
+
+  const handleDownload = () => {
+    try {
+      const eventTimeTypes: EventTimeType[] = [
+        ...(includePlanned ? ['planned' as const] : []),
+        ...(includeCompleted ? ['completed' as const] : [])
+      ];
+      const options: ICalExportOptions = {
+        calendarName: availabilityOnly ? 'Availability' : 'Budgi plan',
+        projectIds: projectId === ALL ? undefined : [projectId],
+        clientIds: clientId === ALL ? undefined : [clientId],
+        groupIds: groupId === ALL ? undefined : [groupId],
+        rangeStart: rangeStart ? new Date(`${rangeStart}T00:00:00`) : undefined,
+        rangeEnd: rangeEnd ? new Date(`${rangeEnd}T23:59:59`) : undefined,
+        includeEvents: eventTimeTypes.length > 0,
+        eventTimeTypes,
+        includeHolidays,
+        includeEstimates,
+        availabilityOnly
+      };
+
+      const content = generateICalExport({ events, holidays, projects, phases, settings }, options);
+
+      const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getICalExportFileName(options);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "Calendar exported",
+        description: "Import the .ics file into Google Calendar, Outlook or Apple Calendar",
+      });
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'CalendarExport', action: 'Error exporting calendar:' });
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export calendar",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Download className="h-5 w-5" />
+          Export Calendar
+        </CardTitle>
+        <CardDescription>
+          Download your plan as an .ics file to overlay it in other calendar apps
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="export-project">Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger id="export-project">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-client">Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger id="export-client">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All clients</SelectItem>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-group">Group</Label>
+            <Select value={groupId} onValueChange={setGroupId}>
+              <SelectTrigger id="export-group">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All groups</SelectItem>
+                {groups.map(group => (
+                  <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="export-from">From</Label>
+            <Input id="export-from" type="date" value={rangeStart} onChange={(e) => setRangeStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-to">To</Label>
+            <Input id="export-to" type="date" value={rangeEnd} onChange={(e) => setRangeEnd(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={includePlanned} onCheckedChange={(checked) => setIncludePlanned(checked === true)} />
+            Planned events
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={includeCompleted} onCheckedChange={(checked) => setIncludeCompleted(checked === true)} />
+            Tracked &amp; completed time
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={includeHolidays} onCheckedChange={(checked) => setIncludeHolidays(checked === true)} />
+            Holidays
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox checked={includeEstimates} onCheckedChange={(checked) => setIncludeEstimates(checked === true)} />
+            Daily auto-estimates
+          </label>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="space-y-1">
+            <Label>Availability only</Label>
+            <p className="text-sm text-muted-foreground">Show busy blocks without titles or project details</p>
+          </div>
+          <Switch checked={availabilityOnly} onCheckedChange={setAvailabilityOnly} />
+        </div>
+
+        <Button onClick={handleDownload} className="w-full">
+          <Download className="h-4 w-4 mr-2" />
+          Download .ics
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,9 +7,9 @@ import { Progress } from '@/presentation/components/shadcn/progress';
 import { Alert, AlertDescription } from '@/presentation/components/shadcn/alert';
 import { Badge } from '@/presentation/components/shadcn/badge';
 import { Separator } from '@/presentation/components/shadcn/separator';
-import { Upload, Calendar, CheckCircle, XCircle, Clock, FileText } from 'lucide-react';
+import { Upload, Calendar, CheckCircle, XCircle, Clock, FileText, Link2, RefreshCw, Trash2 } from 'lucide-react';
 import { parseICalFile, type ImportResult } from '@/application/queries/imports/calendarImport';
-import { CalendarImportOrchestrator } from '@/application/orchestrators/CalendarImportOrchestrator';
+import { CalendarImportOrchestrator, ICS_SUBSCRIPTION_CONNECTION_TYPE } from '@/application/orchestrators/CalendarImportOrchestrator';
 import { useCalendarConnections } from '@/presentation/hooks/calendar/useCalendarConnections';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
@@ -19,9 +19,49 @@ export function CalendarImport() {
   const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [importProgress, setImportProgress] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { importHistory, refetch } = useCalendarConnections();
+  const [subscriptionName, setSubscriptionName] = useState('');
+  const [subscriptionUrl, setSubscriptionUrl] = useState('');
+  const [subscribing, setSubscribing] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const {
+    connections,
+    importHistory,
+    refetch,
+    addSubscription,
+    syncSubscription,
+    deleteConnection
+  } = useCalendarConnections();
   const { toast } = useToast();
 
+  const subscriptions = connections.filter(
+    connection => connection.connection_type === ICS_SUBSCRIPTION_CONNECTION_TYPE
+  );
+
+  const handleAddSubscription = async () => {
+    setSubscribing(true);
+    try {
+      const connection = await addSubscription({
+        name: subscriptionName,
+        feedUrl: subscriptionUrl
+      });
+      if (connection) {
+        setSubscriptionName('');
+        setSubscriptionUrl('');
+      }
+    } finally {
+      setSubscribing(false);
+    }
+  };
+
+  const handleSyncSubscription = async (connectionId: string) => {
+    setSyncingId(connectionId);
+    try {
+      await syncSubscription(connectionId);
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -148,6 +188,7 @@ export function CalendarImport() {
   const getSourceLabel = (source: string) => {
     switch (source) {
       case 'ical_file': return 'iCal File';
+      case 'ical_subscription': return 'iCal Subscription';
       case 'google': return 'Google Calendar';
       case 'outlook': return 'Outlook Calendar';
       default: return source;
@@ -238,6 +279,89 @@ export function CalendarImport() {
         </CardContent>
       </Card>
 
+      {/* iCal Feed Subscriptions */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Calendar Subscriptions
+          </CardTitle>
+          <CardDescription>
+            Subscribe to a shared calendar feed (.ics or webcal:// URL). Moved, added and cancelled meetings are picked up automatically.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-[1fr_2fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <Label htmlFor="subscription-name">Name</Label>
+              <Input
+                id="subscription-name"
+                placeholder="Team calendar"
+                value={subscriptionName}
+                onChange={(e) => setSubscriptionName(e.target.value)}
+                disabled={subscribing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="subscription-url">Feed URL</Label>
+              <Input
+                id="subscription-url"
+                placeholder="webcal://example.com/calendar.ics"
+                value={subscriptionUrl}
+                onChange={(e) => setSubscriptionUrl(e.target.value)}
+                disabled={subscribing}
+              />
+            </div>
+            <Button
+              onClick={handleAddSubscription}
+              disabled={subscribing || !subscriptionName.trim() || !subscriptionUrl.trim()}
+            >
+              Subscribe
+            </Button>
+          </div>
+
+          {subscriptions.length > 0 && (
+            <div className="space-y-3">
+              {subscriptions.map((connection) => (
+                <div key={connection.id} className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{connection.connection_name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{connection.feed_url}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {connection.last_sync_at
+                        ? `Last synced ${new Date(connection.last_sync_at).toLocaleString()}`
+                        : 'Not synced yet'}
+                      {connection.connection_status === 'error' && connection.auth_error_message && (
+                        <span className="text-destructive ml-2">{connection.auth_error_message}</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleSyncSubscription(connection.id)}
+                      disabled={syncingId === connection.id}
+                    >
+                      <RefreshCw className={`h-4 w-4 mr-2 ${syncingId === connection.id ? 'animate-spin' : ''}`} />
+                      Sync now
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteConnection(connection.id)}
+                      aria-label={`Remove ${connection.connection_name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Import History */}
       <Card>
         <CardHeader>
@@ -285,6 +409,9 @@ export function CalendarImport() {
                   <div className="flex items-center gap-4 text-sm text-muted-foreground ml-7">
                     <span>Imported: {record.events_imported}</span>
                     <span>Updated: {record.events_updated}</span>
+                    {record.events_deleted > 0 && (
+                      <span>Removed: {record.events_deleted}</span>
+                    )}
                     {record.events_failed > 0 && (
                       <span className="text-destructive">Failed: {record.events_failed}</span>
                     )}
@@ -2,14 +2,61 @@ import React from 'react';
 import { Button } from '@/presentation/components/shadcn/button';
 import { Label } from '@/presentation/components/shadcn/label';
 import { Badge } from '@/presentation/components/shadcn/badge';
-import { Download, Check, Smartphone } from 'lucide-react';
+import { Download, Check, Smartphone, RefreshCw, WifiOff, AlertTriangle, Trash2 } from 'lucide-react';
 import { usePWAInstall } from '@/presentation/hooks/ui/usePWAInstall';
+import { useOfflineSync } from '@/presentation/hooks/ui/useOfflineSync';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
+import type { OfflineSyncResult } from '@/application/orchestrators/OfflineSyncOrchestrator';
+import type { OfflineTable, OutboxEntry, OutboxOperation } from '@/domain/rules/offline/OfflineOutbox';
+
+const TABLE_LABELS: Record<OfflineTable, string> = {
+  projects: 'project',
+  phases: 'phase',
+  calendar_events: 'event',
+  holidays: 'holiday',
+  settings: 'settings'
+};
+
+const OPERATION_LABELS: Record<OutboxOperation, string> = {
+  insert: 'New',
+  update: 'Changed',
+  delete: 'Deleted'
+};
+
+const describeChange = (change: OutboxEntry): string => {
+  const name = change.payload.name ?? change.payload.title;
+  const label = `${OPERATION_LABELS[change.operation]} ${TABLE_LABELS[change.table]}`;
+  return typeof name === 'string' ? `${label} "${name}"` : label;
+};
 
 export function PWASettings() {
   const { isInstalled, isInstallable, install } = usePWAInstall();
+  const { isOnline, isSyncing, pendingCount, failedChanges, lastSyncedAt, syncNow, retryFailed, discardFailed } = useOfflineSync();
   const { toast } = useToast();
 
+  const showSyncResult = (result: OfflineSyncResult) => {
+    if (result.success) {
+      toast({
+        title: "Offline changes synced",
+        description: result.discardedCount > 0
+          ? `${result.syncedCount} saved, ${result.discardedCount} skipped (changed elsewhere more recently)`
+          : `${result.syncedCount} change${result.syncedCount === 1 ? '' : 's'} saved`,
+      });
+    } else {
+      toast({
+        title: "Sync incomplete",
+        description: result.failedCount > 0
+          ? `${result.failedCount} change${result.failedCount === 1 ? ' was' : 's were'} rejected and kept for review below`
+          : result.errors[0],
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSyncNow = async () => showSyncResult(await syncNow());
+
+  const handleRetryFailed = async () => showSyncResult(await retryFailed());
+
   const handleInstall = async () => {
     const result = await install();
     
@@ -94,6 +141,86 @@ export function PWASettings() {
           )}
         </div>
 
+        {/* Offline data */}
+        <div className="p-4 border rounded-lg">
+          <div className="flex items-center justify-between mb-3">
+            <Label className="text-base">Offline Data</Label>
+            {isOnline ? (
+              <Badge variant="default" className="bg-green-600">
+                Online
+              </Badge>
+            ) : (
+              <Badge variant="secondary">
+                <WifiOff className="w-3 h-3 mr-1" />
+                Offline
+              </Badge>
+            )}
+          </div>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Projects, phases, events, holidays and settings are kept on this device. Changes made offline
+              are saved to your account when the connection is back; where the same item was changed elsewhere
+              later, that change is kept.
+            </p>
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-gray-500">
+                {pendingCount > 0
+                  ? `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`
+                  : 'All changes synced'}
+                {lastSyncedAt && ` · Last synced ${lastSyncedAt.toLocaleTimeString()}`}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleSyncNow}
+                disabled={!isOnline || isSyncing || pendingCount === 0}
+              >
+                <RefreshCw className={`w-3 h-3 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                Sync now
+              </Button>
+            </div>
+
+            {failedChanges.length > 0 && (
+              <div className="p-3 border border-red-200 bg-red-50 rounded-lg space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <p className="flex items-center gap-1 text-sm font-medium text-red-900">
+                    <AlertTriangle className="w-4 h-4" />
+                    {failedChanges.length} change{failedChanges.length === 1 ? '' : 's'} could not be saved
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRetryFailed}
+                    disabled={!isOnline || isSyncing}
+                  >
+                    <RefreshCw className="w-3 h-3 mr-1" />
+                    Retry
+                  </Button>
+                </div>
+                <ul className="space-y-1">
+                  {failedChanges.map(change => (
+                    <li key={change.id} className="flex items-center justify-between gap-3 text-xs text-red-800">
+                      <span>
+                        {describeChange(change)}
+                        {change.error && ` · ${change.error}`}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2"
+                        onClick={() => discardFailed(change.id)}
+                        aria-label="Discard change"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Benefits Section */}
         <div className="space-y-3">
           <Label className="text-base">Benefits of Installing</Label>
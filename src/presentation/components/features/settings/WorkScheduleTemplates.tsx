@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Badge } from '@/presentation/components/shadcn/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { WorkSlotOrchestrator, type DayOfWeek } from '@/application/orchestrators/WorkSlotOrchestrator';
+import { formatScheduleDate, isScheduleEffectiveOn } from '@/domain/rules/work-slots/WorkSchedules';
+import { calculateWeekTotalHours, createNewWorkSlot, generateTimeOptions, updateWorkSlot } from '@/presentation/utils/settingsCalculations';
+import { formatDuration } from '@/presentation/utils/dateCalculations';
+import type { Settings, WorkScheduleTemplate, WorkSlot } from '@/shared/types/core';
+
+const DAYS: { key: DayOfWeek; label: string }[] = [
+  { key: 'monday', label: 'Mon' },
+  { key: 'tuesday', label: 'Tue' },
+  { key: 'wednesday', label: 'Wed' },
+  { key: 'thursday', label: 'Thu' },
+  { key: 'friday', label: 'Fri' },
+  { key: 'saturday', label: 'Sat' },
+  { key: 'sunday', label: 'Sun' }
+];
+
+const ROTATION_OPTIONS = [1, 2, 3, 4];
+
+const weekLabel = (index: number) => `Week ${String.fromCharCode(65 + index)}`;
+
+const describeRange = (schedule: WorkScheduleTemplate) => {
+  if (schedule.effectiveFrom && schedule.effectiveTo) return `${schedule.effectiveFrom} – ${schedule.effectiveTo}`;
+  if (schedule.effectiveFrom) return `From ${schedule.effectiveFrom}`;
+  if (schedule.effectiveTo) return `Until ${schedule.effectiveTo}`;
+  return 'Always';
+};
+
+/**
+ * Copy a weekly pattern with fresh slot ids, so every rotation week edits independently
+ */
+const copyWeek = (week: Settings['weeklyWorkHours'], suffix: string): Settings['weeklyWorkHours'] =>
+  Object.fromEntries(
+    DAYS.map(({ key }) => [key, (week[key] || []).map((slot, index) => ({ ...slot, id: `slot-${suffix}-${key}${index}` }))])
+  ) as Settings['weeklyWorkHours'];
+
+export function WorkScheduleTemplates() {
+  const { settings, updateSettings } = useSettingsContext();
+  const { toast } = useToast();
+  const timeOptions = generateTimeOptions(true);
+  const schedules = settings.workSchedules || [];
+
+  const [name, setName] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(formatScheduleDate(new Date()));
+  const [effectiveTo, setEffectiveTo] = useState('');
+  const [rotationWeeks, setRotationWeeks] = useState(2);
+  const [selectedWeeks, setSelectedWeeks] = useState<Record<string, number>>({});
+
+  const persist = async (action: Promise<{ success: boolean; error?: string; errors?: string[] }>) => {
+    const result = await action;
+    if (!result.success) {
+      toast({
+        title: 'Cannot save schedule',
+        description: result.error || result.errors?.join(', '),
+        variant: 'destructive',
+      });
+    }
+    return result.success;
+  };
+
+  const saveSchedule = (schedule: WorkScheduleTemplate) =>
+    persist(WorkSlotOrchestrator.saveWorkSchedule(schedule, async updates => { await updateSettings(updates); }, settings));
+
+  const handleAddSchedule = async () => {
+    const id = Date.now().toString();
+    const schedule: WorkScheduleTemplate = {
+      id,
+      name,
+      weeks: Array.from({ length: rotationWeeks }, (_, index) => copyWeek(settings.weeklyWorkHours, `${id}-${index}`)),
+      effectiveFrom,
+      effectiveTo
+    };
+
+    if (await saveSchedule(schedule)) {
+      setName('');
+      setEffectiveTo('');
+    }
+  };
+
+  const updateDaySlots = (
+    schedule: WorkScheduleTemplate,
+    weekIndex: number,
+    day: DayOfWeek,
+    update: (slots: WorkSlot[]) => WorkSlot[]
+  ) => saveSchedule({
+    ...schedule,
+    weeks: schedule.weeks.map((week, index) =>
+      index === weekIndex ? { ...week, [day]: update(week[day] || []) } : week
+    )
+  });
+
+  const handleAddSlot = (schedule: WorkScheduleTemplate, weekIndex: number, day: DayOfWeek) => {
+    const result = createNewWorkSlot(day, schedule.weeks[weekIndex][day] || []);
+    if (!result.success) {
+      toast({ title: 'Cannot add work slot', description: result.error, variant: 'destructive' });
+      return;
+    }
+    updateDaySlots(schedule, weekIndex, day, slots => [...slots, result.slot!]);
+  };
+
+  const handleDeleteSchedule = (schedule: WorkScheduleTemplate) => {
+    if (!confirm(`Delete the "${schedule.name}" schedule? Its dates go back to your weekly work schedule.`)) return;
+    persist(WorkSlotOrchestrator.deleteWorkSchedule(schedule.id, async updates => { await updateSettings(updates); }, settings));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Schedule Templates</Label>
+        <p className="text-sm text-gray-600">
+          Replace the weekly schedule for a date range, or rotate between weeks (A/B weeks, shift patterns).
+          Where templates overlap, the one that started last applies.
+        </p>
+      </div>
+
+      {schedules.map(schedule => {
+        const weekIndex = Math.min(selectedWeeks[schedule.id] ?? 0, schedule.weeks.length - 1);
+        const week = schedule.weeks[weekIndex];
+
+        return (
+          <div key={schedule.id} className="p-4 border rounded-lg space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2 min-w-0">
+                <span className="font-medium truncate">{schedule.name}</span>
+                <Badge variant="secondary" className="text-xs">
+                  {schedule.weeks.length > 1 ? `${schedule.weeks.length}-week rotation` : 'Every week'}
+                </Badge>
+                {isScheduleEffectiveOn(schedule, new Date()) && (
+                  <Badge variant="outline" className="text-xs">In effect</Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500">{describeRange(schedule)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDeleteSchedule(schedule)}
+                  className="h-8 w-8 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                  title="Delete schedule"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+
+            {schedule.weeks.length > 1 && (
+              <div className="flex items-center gap-2">
+                {schedule.weeks.map((rotationWeek, index) => (
+                  <Button
+                    key={index}
+                    variant={index === weekIndex ? 'default' : 'outline'}
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => setSelectedWeeks(prev => ({ ...prev, [schedule.id]: index }))}
+                  >
+                    {weekLabel(index)} · {formatDuration(calculateWeekTotalHours(rotationWeek))}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {DAYS.map(({ key, label }) => {
+                const slots = week[key] || [];
+                return (
+                  <div key={key} className="flex items-center gap-2 flex-wrap">
+                    <span className="w-10 text-xs font-medium text-gray-600">{label}</span>
+                    {slots.length === 0 && <span className="text-xs text-gray-400">Off</span>}
+                    {slots.map(slot => (
+                      <div key={slot.id} className="flex items-center gap-1 px-1.5 py-1 bg-gray-50 rounded-md">
+                        {(['startTime', 'endTime'] as const).map(field => (
+                          <Select
+                            key={field}
+                            value={slot[field]}
+                            onValueChange={value => updateDaySlots(schedule, weekIndex, key, daySlots =>
+                              daySlots.map(s => (s.id === slot.id ? updateWorkSlot(s, { [field]: value }) : s))
+                            )}
+                          >
+                            <SelectTrigger className="w-20 h-7 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {timeOptions.map(time => (
+                                <SelectItem key={time.value} value={time.value} className="text-xs">
+                                  {time.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ))}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0 text-red-500 hover:text-red-700 hover:bg-red-50"
+                          onClick={() => updateDaySlots(schedule, weekIndex, key, daySlots => daySlots.filter(s => s.id !== slot.id))}
+                        >
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={slots.length >= 6}
+                      onClick={() => handleAddSlot(schedule, weekIndex, key)}
+                    >
+                      <Plus className="w-3 h-3" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+
+      {/* New template: starts as a copy of the weekly schedule in every rotation week */}
+      <div className="p-4 border-2 border-dashed border-gray-200 rounded-lg space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="schedule-name" className="text-xs">Name</Label>
+            <Input
+              id="schedule-name"
+              value={name}
+              onChange={e => setName(e.target.value)}
+              placeholder="e.g. Alternating weeks, Summer hours"
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Rotation</Label>
+            <Select value={String(rotationWeeks)} onValueChange={value => setRotationWeeks(Number(value))}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROTATION_OPTIONS.map(weeks => (
+                  <SelectItem key={weeks} value={String(weeks)}>
+                    {weeks === 1 ? 'Same every week' : `Rotate every ${weeks} weeks`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-from" className="text-xs">From (week A starts this week)</Label>
+            <Input id="schedule-from" type="date" value={effectiveFrom} onChange={e => setEffectiveFrom(e.target.value)} className="h-8" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="schedule-to" className="text-xs">Until (optional)</Label>
+            <Input id="schedule-to" type="date" value={effectiveTo} onChange={e => setEffectiveTo(e.target.value)} className="h-8" />
+          </div>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleAddSchedule} disabled={!name.trim()}>
+          <Plus className="w-3 h-3 mr-1" />
+          Add Schedule
+        </Button>
+      </div>
+    </div>
+  );
+}
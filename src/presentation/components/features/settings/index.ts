@@ -1,3 +1,5 @@
 // Settings feature components
 export { CalendarImport } from './CalendarImport';
+export { CalendarExport } from './CalendarExport';
 export { PWASettings } from './PWASettings';
+export { WorkScheduleTemplates } from './WorkScheduleTemplates';
@@ -0,0 +1,51 @@
+import React, { useMemo } from 'react';
+import { getTimelinePositions } from '@/presentation/services/ProjectBarPositioning';
+import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
+import { formatDate } from '@/presentation/utils/dateFormatUtils';
+import type { BaselineProjectVariance } from '@/domain/rules/baselines/PlanBaseline';
+import type { TimelineMode } from '@/shared/types/core';
+
+interface BaselineGhostBarProps {
+  variance: BaselineProjectVariance;
+  dates: Date[];
+  viewportStart: Date;
+  viewportEnd: Date;
+  mode: TimelineMode;
+}
+
+/**
+ * BaselineGhostBar - Dashed outline of where a project sat in the active baseline,
+ * drawn behind its ProjectBar when the dates have drifted
+ */
+export function BaselineGhostBar({ variance, dates, viewportStart, viewportEnd, mode }: BaselineGhostBarProps) {
+  const position = useMemo(() => {
+    if (!variance.baselineStartDate) return null;
+    const end = variance.baselineEndDate ?? new Date(viewportEnd); // Continuous in the baseline
+    const { baselineStartPx, baselineWidthPx } = getTimelinePositions(
+      variance.baselineStartDate, end, viewportStart, viewportEnd, dates, mode
+    );
+    return baselineWidthPx > 0 ? { left: baselineStartPx, width: baselineWidthPx } : null;
+  }, [variance.baselineStartDate, variance.baselineEndDate, dates, viewportStart, viewportEnd, mode]);
+
+  if (!position) return null;
+
+  const hasDrifted = !!variance.startShiftDays || !!variance.endShiftDays;
+  if (!hasDrifted) return null;
+
+  return (
+    <div
+      className="absolute pointer-events-none"
+      title={`Baseline: ${formatDate(variance.baselineStartDate!)}${variance.baselineEndDate ? ` – ${formatDate(variance.baselineEndDate)}` : ''}`}
+      style={{
+        left: `${position.left}px`,
+        width: `${position.width}px`,
+        top: '0px',
+        height: '48px',
+        zIndex: 0,
+        borderRadius: '6px',
+        border: `1.5px dashed ${NEUTRAL_COLORS.gray400}`,
+        backgroundColor: 'rgba(163, 163, 163, 0.08)'
+      }}
+    />
+  );
+}
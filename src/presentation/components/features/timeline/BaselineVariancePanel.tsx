@@ -0,0 +1,142 @@
+import React from 'react';
+import { Flag, Trash2, X } from 'lucide-react';
+import { Button } from '@/presentation/components/shadcn/button';
+import type { BaselineProjectVariance, PlanBaselineComparison } from '@/domain/rules/baselines/PlanBaseline';
+import type { PlanBaseline } from '@/shared/types/core';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+import { formatDuration } from '@/presentation/utils/dateCalculations';
+
+interface BaselineVariancePanelProps {
+  baseline: PlanBaseline | null;
+  comparison: PlanBaselineComparison | null;
+  onClose: () => void;
+  onDelete: (baseline: PlanBaseline) => void;
+}
+
+const STATUS_LABELS: Record<BaselineProjectVariance['status'], string> = {
+  unchanged: 'On baseline',
+  changed: 'Drifted',
+  added: 'New since baseline',
+  removed: 'Removed since baseline'
+};
+
+/**
+ * Signed day shift, e.g. "+3d" (later) or "-2d" (earlier)
+ */
+const formatShift = (days: number | null) => {
+  if (days === null || days === 0) return null;
+  return `${days > 0 ? '+' : '-'}${Math.abs(days)}d`;
+};
+
+const formatHoursDelta = (hours: number) => {
+  if (Math.abs(hours) < 0.01) return null;
+  return `${hours > 0 ? '+' : '-'}${formatDuration(Math.abs(hours))}`;
+};
+
+function DateCell({ date, shift }: { date: Date | null; shift: number | null }) {
+  const label = formatShift(shift);
+  return (
+    <td className="py-1 px-2 whitespace-nowrap">
+      {date ? formatDateShort(date) : '—'}
+      {label && <span className={`ml-1 text-xs ${shift! > 0 ? 'text-red-700' : 'text-green-700'}`}>{label}</span>}
+    </td>
+  );
+}
+
+/**
+ * Drift of the live plan from the selected baseline: per-project start and
+ * end dates and hours, baseline values next to current ones.
+ */
+export function BaselineVariancePanel({ baseline, comparison, onClose, onDelete }: BaselineVariancePanelProps) {
+  if (!baseline || !comparison) return null;
+
+  const drifted = comparison.projects.filter(project => project.status !== 'unchanged');
+  const hoursDelta = formatHoursDelta(comparison.totalCurrentHours - comparison.totalBaselineHours);
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-200 bg-white p-4 text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <Flag className="w-4 h-4 text-gray-600" />
+        <span className="font-medium">Baseline "{baseline.name}"</span>
+        <span className="text-gray-600">
+          — saved {formatDateShort(new Date(baseline.snapshot.capturedAt))},{' '}
+          {formatDuration(comparison.totalCurrentHours)} estimated vs {formatDuration(comparison.totalBaselineHours)}
+          {hoursDelta ? ` (${hoursDelta})` : ''}
+        </span>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => onDelete(baseline)}
+            title="Delete this baseline"
+          >
+            <Trash2 className="w-3 h-3" />
+          </Button>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} title="Stop comparing">
+            <X className="w-3 h-3" />
+          </Button>
+        </div>
+      </div>
+
+      {drifted.length === 0 ? (
+        <div className="text-green-700">Every project is still on its baseline dates and hours.</div>
+      ) : (
+        <div className="max-h-56 overflow-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="text-muted-foreground text-xs">
+                <th className="text-left font-medium pb-1 pr-2">Project</th>
+                <th className="text-left font-medium pb-1 px-2">Baseline start</th>
+                <th className="text-left font-medium pb-1 px-2">Start</th>
+                <th className="text-left font-medium pb-1 px-2">Baseline end</th>
+                <th className="text-left font-medium pb-1 px-2">End</th>
+                <th className="text-right font-medium pb-1 px-2">Budget</th>
+                <th className="text-right font-medium pb-1 px-2">Baseline hours</th>
+                <th className="text-right font-medium pb-1 pl-2">Estimated hours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {drifted.map(project => {
+                const delta = formatHoursDelta(project.estimatedHoursDelta);
+                const budgetChanged = project.baselineBudgetHours !== null && project.currentBudgetHours !== null &&
+                  project.baselineBudgetHours !== project.currentBudgetHours;
+                return (
+                  <tr key={project.projectId} className="border-t border-gray-100">
+                    <td className="py-1 pr-2">
+                      <div className="truncate max-w-[220px]">{project.name}</div>
+                      <div className="text-xs text-muted-foreground">{STATUS_LABELS[project.status]}</div>
+                    </td>
+                    <td className="py-1 px-2 whitespace-nowrap text-muted-foreground">
+                      {project.baselineStartDate ? formatDateShort(project.baselineStartDate) : '—'}
+                    </td>
+                    <DateCell date={project.currentStartDate} shift={project.startShiftDays} />
+                    <td className="py-1 px-2 whitespace-nowrap text-muted-foreground">
+                      {project.baselineEndDate ? formatDateShort(project.baselineEndDate) : '—'}
+                    </td>
+                    <DateCell date={project.currentEndDate} shift={project.endShiftDays} />
+                    <td className="py-1 px-2 text-right tabular-nums whitespace-nowrap">
+                      {budgetChanged && (
+                        <span className="text-muted-foreground line-through mr-1">{formatDuration(project.baselineBudgetHours!)}</span>
+                      )}
+                      {project.currentBudgetHours !== null ? formatDuration(project.currentBudgetHours) : '—'}
+                    </td>
+                    <td className="py-1 px-2 text-right tabular-nums text-muted-foreground">
+                      {formatDuration(project.baselineEstimatedHours)}
+                    </td>
+                    <td className="py-1 pl-2 text-right tabular-nums whitespace-nowrap">
+                      {formatDuration(project.currentEstimatedHours)}
+                      {delta && (
+                        <span className={`ml-1 text-xs ${project.estimatedHoursDelta > 0 ? 'text-red-700' : 'text-green-700'}`}>{delta}</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import type { ProjectCapacityAllocation } from '@/application/queries/CapacityAllocationAggregate';
+import type { CapacityBalancing } from '@/presentation/contexts/TimelineContext';
+import type { PhaseDTO, Project } from '@/shared/types/core';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+import { formatDuration } from '@/presentation/utils/dateCalculations';
+
+const MAX_LISTED_DAYS = 5;
+
+interface CapacityBalancePanelProps {
+  allocation: ProjectCapacityAllocation | null;
+  balancing: CapacityBalancing;
+  projects: Project[];
+  phases: PhaseDTO[];
+}
+
+const parseDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+/**
+ * Summary shown while capacity balancing is on: days where projects ask for
+ * more than the day has, and work that no longer fits before its deadline.
+ */
+export function CapacityBalancePanel({ allocation, balancing, projects, phases }: CapacityBalancePanelProps) {
+  if (!allocation || balancing === 'off') return null;
+
+  const { shortfalls, overcommittedDates } = allocation;
+  const projectName = (projectId: string) => projects.find(p => p.id === projectId)?.name ?? 'Unknown project';
+  const phaseName = (phaseId?: string) => phaseId ? phases.find(p => p.id === phaseId)?.name : undefined;
+
+  // Recurring phases report each occurrence day separately; list them once per phase
+  const groupedShortfalls = new Map<string, { projectId: string; phaseId?: string; hours: number; deadline: Date }>();
+  shortfalls.forEach(shortfall => {
+    const key = `${shortfall.projectId}:${shortfall.phaseId ?? ''}`;
+    const existing = groupedShortfalls.get(key);
+    if (existing) {
+      existing.hours += shortfall.unallocatedHours;
+      if (shortfall.deadline > existing.deadline) existing.deadline = shortfall.deadline;
+    } else {
+      groupedShortfalls.set(key, {
+        projectId: shortfall.projectId,
+        phaseId: shortfall.phaseId,
+        hours: shortfall.unallocatedHours,
+        deadline: shortfall.deadline
+      });
+    }
+  });
+
+  const listedDays = overcommittedDates.slice(0, MAX_LISTED_DAYS).map(key => formatDateShort(parseDateKey(key))).join(', ');
+  const moreDays = overcommittedDates.length - MAX_LISTED_DAYS;
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-200 bg-white p-4 text-sm space-y-2">
+      <div className="flex items-center gap-2">
+        <Scale className="w-4 h-4 text-gray-600" />
+        <span className="font-medium">
+          Balancing by {balancing === 'deadline' ? 'deadline' : 'priority (group order)'}
+        </span>
+        <span className="text-gray-600">
+          — {formatDuration(allocation.totalAllocatedHours)} of {formatDuration(allocation.totalRequestedHours)} estimated hours fit
+        </span>
+      </div>
+
+      {overcommittedDates.length > 0 ? (
+        <div className="text-amber-700">
+          Projects ask for more than the day has on {overcommittedDates.length} day{overcommittedDates.length === 1 ? '' : 's'}:{' '}
+          {listedDays}{moreDays > 0 ? ` +${moreDays} more` : ''}
+        </div>
+      ) : (
+        <div className="text-green-700">Every day has room for the estimated work.</div>
+      )}
+
+      {groupedShortfalls.size > 0 && (
+        <ul className="list-disc pl-5 text-red-700 space-y-0.5">
+          {Array.from(groupedShortfalls.entries()).map(([key, shortfall]) => {
+            const phase = phaseName(shortfall.phaseId);
+            return (
+              <li key={key}>
+                {projectName(shortfall.projectId)}{phase ? ` – ${phase}` : ''}:{' '}
+                {formatDuration(shortfall.hours)} does not fit before {formatDateShort(shortfall.deadline)}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
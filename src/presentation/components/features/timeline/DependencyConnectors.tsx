@@ -0,0 +1,145 @@
+import React, { useMemo } from 'react';
+import { getTimelinePositions } from '@/presentation/services/ProjectBarPositioning';
+import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import type { Dependency, PhaseDTO, Project, TimelineMode } from '@/shared/types/core';
+
+interface DependencyConnectorsProps {
+  dependencies: Dependency[];
+  phases: PhaseDTO[];
+  groups: Array<{ id: string }>;
+  groupLayouts: Array<{ visualRows: Array<{ projects: Project[] }> }>;
+  collapsedGroups: Set<string>;
+  dates: Date[];
+  viewportStart: Date;
+  viewportEnd: Date;
+  mode: TimelineMode;
+  width: number;
+}
+
+// Row geometry of TimelineCard: group header, visual rows, empty-group row, bar inside a row
+const GROUP_HEADER_HEIGHT = 32;
+const VISUAL_ROW_HEIGHT = 54;
+const EMPTY_GROUP_HEIGHT = 52;
+const BAR_CENTER_OFFSET = 26; // 2px row padding + half the 48px bar
+const ELBOW = 8;
+
+interface ItemAnchor {
+  startPx: number;
+  endPx: number;
+  centerY: number;
+}
+
+/**
+ * Elbow path from the predecessor anchor to the start of the successor
+ * Goes around when the successor starts left of the anchor.
+ */
+function buildConnectorPath(fromX: number, fromY: number, toX: number, toY: number): string {
+  if (toX - fromX >= ELBOW * 2) {
+    const midX = fromX + ELBOW;
+    return `M ${fromX} ${fromY} H ${midX} V ${toY} H ${toX}`;
+  }
+  const betweenY = fromY === toY ? fromY - BAR_CENTER_OFFSET : (fromY + toY) / 2;
+  return `M ${fromX} ${fromY} H ${fromX + ELBOW} V ${betweenY} H ${toX - ELBOW} V ${toY} H ${toX}`;
+}
+
+/**
+ * DependencyConnectors - Draws finish-to-start and start-to-start links between
+ * project bars (and phases within them) as an overlay on the timeline rows
+ */
+export function DependencyConnectors({
+  dependencies,
+  phases,
+  groups,
+  groupLayouts,
+  collapsedGroups,
+  dates,
+  viewportStart,
+  viewportEnd,
+  mode,
+  width
+}: DependencyConnectorsProps) {
+  const connectors = useMemo(() => {
+    if (dependencies.length === 0) return [];
+
+    const position = (start: Date, end: Date) => {
+      try {
+        const { baselineStartPx, baselineWidthPx } = getTimelinePositions(start, end, viewportStart, viewportEnd, dates, mode);
+        return { startPx: baselineStartPx, endPx: baselineStartPx + baselineWidthPx };
+      } catch (error) {
+        ErrorHandlingService.handle(error, { source: 'DependencyConnectors', action: 'Error getting timeline positions:' });
+        return null;
+      }
+    };
+
+    // Anchor every visible project (and its phases) on its row
+    const anchors = new Map<string, ItemAnchor>();
+    let rowTop = 0;
+    groups.forEach((group, groupIndex) => {
+      const layout = groupLayouts[groupIndex];
+      if (!layout) return;
+      rowTop += GROUP_HEADER_HEIGHT;
+      if (collapsedGroups.has(group.id)) return;
+      if (layout.visualRows.length === 0) {
+        rowTop += EMPTY_GROUP_HEIGHT;
+        return;
+      }
+
+      layout.visualRows.forEach(visualRow => {
+        const centerY = rowTop + BAR_CENTER_OFFSET;
+        visualRow.projects.forEach(project => {
+          const projectEnd = project.continuous ? new Date(viewportEnd) : new Date(project.endDate);
+          const projectPosition = position(new Date(project.startDate), projectEnd);
+          if (projectPosition) anchors.set(project.id, { ...projectPosition, centerY });
+
+          phases
+            .filter(phase => phase.projectId === project.id && !phase.isRecurring)
+            .forEach(phase => {
+              const phasePosition = position(new Date(phase.startDate || phase.endDate), new Date(phase.endDate || phase.dueDate));
+              if (phasePosition) anchors.set(phase.id, { ...phasePosition, centerY });
+            });
+        });
+        rowTop += VISUAL_ROW_HEIGHT;
+      });
+    });
+
+    return dependencies.flatMap(dependency => {
+      const predecessor = anchors.get(dependency.predecessorId);
+      const successor = anchors.get(dependency.successorId);
+      if (!predecessor || !successor) return [];
+
+      const fromX = dependency.type === 'start-to-start' ? predecessor.startPx : predecessor.endPx;
+      return [{
+        id: dependency.id,
+        type: dependency.type,
+        path: buildConnectorPath(fromX, predecessor.centerY, successor.startPx, successor.centerY)
+      }];
+    });
+  }, [dependencies, phases, groups, groupLayouts, collapsedGroups, dates, viewportStart, viewportEnd, mode]);
+
+  if (connectors.length === 0) return null;
+
+  return (
+    <svg
+      className="absolute top-0 left-0 pointer-events-none"
+      style={{ width: `${width}px`, height: '100%', zIndex: 3, overflow: 'visible' }}
+    >
+      <defs>
+        <marker id="dependency-arrow" viewBox="0 0 6 6" refX="6" refY="3" markerWidth="6" markerHeight="6" orient="auto">
+          <path d="M 0 0 L 6 3 L 0 6 z" fill={NEUTRAL_COLORS.gray500} />
+        </marker>
+      </defs>
+      {connectors.map(connector => (
+        <path
+          key={connector.id}
+          d={connector.path}
+          fill="none"
+          stroke={NEUTRAL_COLORS.gray500}
+          strokeWidth={1.25}
+          strokeDasharray={connector.type === 'start-to-start' ? '3 2' : undefined}
+          markerEnd="url(#dependency-arrow)"
+        />
+      ))}
+    </svg>
+  );
+}
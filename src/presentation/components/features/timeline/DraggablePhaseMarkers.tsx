@@ -1,11 +1,12 @@
 import React from 'react';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '@/presentation/components/shadcn/tooltip';
-import type { Project, PhaseDTO } from '@/shared/types/core';
+import type { Project, PhaseDTO, TimelineMode } from '@/shared/types/core';
 import { getTimelinePositions } from '@/presentation/services/ProjectBarPositioning';
-import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';;
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
 import { getPhasesSortedByEndDate } from '@/domain/rules/phases/PhaseRules';
 import type { DragState } from '@/presentation/services/DragPositioning';
 import type { TimelinePositionCalculation } from '@/presentation/services/ProjectBarPositioning';
+import { getTimelineDayWidth } from '@/presentation/services/TimelineViewportService';
 
 interface DraggablePhaseMarkersProps {
   project: Project;
@@ -13,7 +14,7 @@ interface DraggablePhaseMarkersProps {
   viewportStart: Date;
   viewportEnd: Date;
   dates: Date[];
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   isDragging: boolean;
   dragState: DragState | null;
   calculateBaselineVisualOffsets: (
@@ -21,7 +22,7 @@ interface DraggablePhaseMarkersProps {
     isDragging: boolean,
     dragState: DragState | null,
     projectId: string,
-    mode: 'days' | 'weeks'
+    mode: TimelineMode
   ) => TimelinePositionCalculation;
   onPhaseResizeMouseDown?: (e: React.MouseEvent, projectId: string, phaseId: string, action: 'resize-phase-start' | 'resize-phase-end') => void;
 }
@@ -229,7 +230,8 @@ export function DraggablePhaseMarkers({
             // Calculate the width of the actual day rectangle (not the column)
             // In weeks mode: rectangles are 21px, columns are 22px (21px + 1px gap) except last day (21px)
             // In days mode: rectangles are 50px, columns are 52px
-            const dayRectWidth = mode === 'weeks' ? 21 : 50;
+            // In months/quarters mode: days have no gap, the rectangle is the day width
+            const dayRectWidth = mode === 'weeks' ? 21 : mode === 'days' ? 50 : getTimelineDayWidth(mode);
             
             // Position at the right edge of the day rectangle
             // In weeks mode, there's a consistent offset that needs correction (likely from baseline padding)
@@ -1,10 +1,12 @@
 import React, { useState, useRef, useCallback, useMemo } from 'react';
 import { Plus } from 'lucide-react';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { useScenarioHolidays } from '@/presentation/contexts/ScenarioContext';
 import { ParasolIcon } from '@/shared/assets';
-import { normalizeToMidnight, normalizeToEndOfDay, addDaysToDate, calculateOccupiedHolidayIndices, convertIndicesToDates } from '@/presentation/utils/dateCalculations';
-import { convertMousePositionToTimelineIndex } from '@/presentation/services/ProjectBarPositioning';;
-import type { Holiday } from '@/shared/types/core';
+import { normalizeToMidnight, normalizeToEndOfDay, addDaysToDate, calculateOccupiedHolidayIndices, convertIndicesToDates, calculateTimelineDayOffset, getTimelineColumnEnd } from '@/presentation/utils/dateCalculations';
+import { convertMousePositionToTimelineIndex } from '@/presentation/services/ProjectBarPositioning';
+import { calculateTimelineColumnLayout, getTimelineDayWidth, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
+import { formatHolidayCapacity } from '@/domain/rules/holidays/HolidayCapacity';
+import type { Holiday, TimelineMode } from '@/shared/types/core';
 import type { DragState } from '@/presentation/services/DragPositioning';
 import type { TimelinePositionCalculation } from '@/presentation/services/ProjectBarPositioning';
 
@@ -15,6 +17,8 @@ type HolidaySegment = {
   dayCount: number;
   id: string;
   title: string;
+  // Partial-day label (e.g. "½ day", "4h"); null for a full day off
+  capacityLabel: string | null;
   weekMode: boolean;
   actualStartWeek?: number;
   actualEndWeek?: number;
@@ -30,7 +34,7 @@ interface HolidayBarProps {
   isDragging?: boolean;
   dragState?: DragState | null;
   handleHolidayMouseDown?: (e: HolidayMouseEvent, holidayId: string, action: HolidayDragAction) => void;
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
   // Modal handlers - passed from parent to control holiday modal
   onCreateHoliday?: (startDate: Date, endDate: Date) => void;
   onEditHoliday?: (holidayId: string) => void;
@@ -89,7 +93,7 @@ function calculateVisualHolidayDates(
 }
 
 export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHolidayMouseDown, mode = 'days', onCreateHoliday, onEditHoliday }: HolidayBarProps) {
-  const { holidays: globalHolidays, addHoliday } = useHolidays();
+  const { holidays: globalHolidays, addHoliday } = useScenarioHolidays();
   
   // Wrapper to use prop callback if provided
   const setCreatingNewHoliday = useCallback((data: { startDate: Date; endDate: Date }) => {
@@ -113,6 +117,20 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
   const dragStartRef = useRef<number | null>(null);
   const dragEndRef = useRef<number | null>(null);
   
+  // Day-level indices cover every day of the visible columns
+  const dayIndexCount = useMemo(() => {
+    if (dates.length === 0) return 0;
+    if (mode === 'days') return dates.length;
+    if (mode === 'weeks') return dates.length * 7;
+    return calculateTimelineDayOffset(getTimelineColumnEnd(dates[dates.length - 1], mode), dates[0]) + 1;
+  }, [dates, mode]);
+
+  // Month and quarter columns vary in width
+  const columnLayout = useMemo(
+    () => (isAggregatedTimelineMode(mode) ? calculateTimelineColumnLayout(dates, mode) : null),
+    [dates, mode]
+  );
+
   // Convert global holidays to timeline format with visual drag feedback
   // CRITICAL: Must recalculate whenever dragState changes for smooth drag visual feedback
   const timelineHolidays = useMemo<HolidaySegment[]>(() => {
@@ -168,12 +186,14 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
         dayCount,
         id: holiday.id,
         title: holiday.title,
+        capacityLabel: formatHolidayCapacity(holiday),
         weekMode: true,
         actualStartWeek: startWeekIndex,
         actualEndWeek: endWeekIndex
       });
     } else {
-      // Days mode: Calculate position relative to viewport, but maintain full holiday width
+      // Days, months and quarters: Calculate position relative to viewport, but maintain full holiday width
+      // (in months and quarters the index is the day offset from the first column)
       const holidayStart = normalizeToMidnight(new Date(visualStartDate));
       // Use midnight for end as well to match overlay logic and avoid DST off-by-one
       const holidayEnd = normalizeToMidnight(new Date(visualEndDate));
@@ -181,7 +201,6 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
   if (dates.length === 0) return;
       
       const firstVisibleDate = dates[0];
-      const lastVisibleDate = dates[dates.length - 1];
       const msPerDay = 24 * 60 * 60 * 1000;
       
       // Calculate the actual start index relative to the first visible date
@@ -193,7 +212,7 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
       
       // Check if holiday is completely outside viewport (optimization)
       const holidayEndIndex = startIndex + dayCount - 1;
-      const lastVisibleIndex = dates.length - 1;
+      const lastVisibleIndex = dayIndexCount - 1;
       
       if (holidayEndIndex < 0 || startIndex > lastVisibleIndex) {
         return;
@@ -204,13 +223,14 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
         dayCount,
         id: holiday.id,
         title: holiday.title,
+        capacityLabel: formatHolidayCapacity(holiday),
         weekMode: false
       });
     }
     });
 
     return segments;
-  }, [globalHolidays, dates, mode, isDragging, dragState]);
+  }, [globalHolidays, dates, mode, dayIndexCount, isDragging, dragState]);
   
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -283,7 +303,7 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
     }
     
     // Calculate the index directly in mouse down in case hover didn't update
-    const targetIndex = (clickIndex >= 0 && clickIndex < (mode === 'weeks' ? dates.length * 7 : dates.length)) ? clickIndex : hoveredIndex;
+    const targetIndex = (clickIndex >= 0 && clickIndex < dayIndexCount) ? clickIndex : hoveredIndex;
     
     if (targetIndex === null || occupiedIndices.includes(targetIndex)) {
       return;
@@ -354,7 +374,7 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
 
     document.addEventListener('mousemove', handleMouseMoveGlobal);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [hoveredIndex, occupiedIndices, dates, mode, handleCreateHoliday]);
+  }, [hoveredIndex, occupiedIndices, dates, mode, dayIndexCount, handleCreateHoliday]);
 
   // Render preview of where holiday would be created
   const renderPreview = () => {
@@ -391,9 +411,9 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
     
     let width: number, left: number;
     
-    if (mode === 'weeks') {
-      // For week mode with day-level precision
-      const dayWidth = 22; // 22px effective spacing (21px + 1px gap)
+    if (mode !== 'days') {
+      // For week, month and quarter modes with day-level precision
+      const dayWidth = getTimelineDayWidth(mode); // 22px effective spacing in weeks (21px + 1px gap)
       width = (endIndex - startIndex + 1) * dayWidth;
       left = startIndex * dayWidth;
     } else {
@@ -478,6 +498,13 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
               dayIndex <= h.actualEndWeek! &&
               dayIndex === h.actualStartWeek // Only render in the first week to avoid duplicates
             );
+          } else if (columnLayout) {
+            // Month and quarter modes: render each holiday once, in the column holding its first visible day
+            const column = columnLayout[dayIndex];
+            holidays = timelineHolidays.filter(h => {
+              const firstVisibleDay = Math.max(h.startIndex, 0);
+              return firstVisibleDay >= column.dayOffset && firstVisibleDay < column.dayOffset + column.dayCount;
+            });
           } else {
             // Days mode: dayIndex represents actual day index
             // Show all holidays in each day it spans
@@ -492,9 +519,11 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
           }
           
           // Add 1px to first column to account for alignment offset
-          const columnWidth = mode === 'weeks' 
-            ? (dayIndex === 0 ? 154 : 153)
-            : 52;
+          const columnWidth = columnLayout
+            ? columnLayout[dayIndex].widthPx
+            : mode === 'weeks' 
+              ? (dayIndex === 0 ? 154 : 153)
+              : 52;
           
           return (
             <div 
@@ -514,6 +543,7 @@ export function HolidayBar({ dates, collapsed, isDragging, dragState, handleHoli
                   dragState={dragState}
                   handleHolidayMouseDown={handleHolidayMouseDown}
                   mode={mode}
+                  columnDayOffset={columnLayout?.[dayIndex].dayOffset}
                 />
               ))}
             </div>
@@ -532,7 +562,8 @@ interface IndividualHolidayBarProps {
   isDragging?: boolean;
   dragState?: DragState | null;
   handleHolidayMouseDown?: (e: HolidayMouseEvent, holidayId: string, action: HolidayDragAction) => void;
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
+  columnDayOffset?: number; // Months and quarters: day offset of this column from the first column
 }
 
 function IndividualHolidayBar({ 
@@ -543,7 +574,8 @@ function IndividualHolidayBar({
   isDragging,
   dragState,
   handleHolidayMouseDown,
-  mode = 'days'
+  mode = 'days',
+  columnDayOffset = 0
 }: IndividualHolidayBarProps) {
   const [mouseDownTime, setMouseDownTime] = useState<number | null>(null);
   const [mouseDownPos, setMouseDownPos] = useState<{ x: number; y: number } | null>(null);
@@ -598,18 +630,30 @@ function IndividualHolidayBar({
   if (!holiday) {
     return null;
   }
+
+  // Partial days keep some work time: dashed, striped and lighter than a day off
+  const isPartial = holiday.capacityLabel !== null;
+  const fillClass = isPartial
+    ? 'border-dashed border-orange-400/70 bg-[repeating-linear-gradient(135deg,rgb(254_215_170_/_0.6)_0px,rgb(254_215_170_/_0.6)_6px,rgb(255_247_237_/_0.6)_6px,rgb(255_247_237_/_0.6)_12px)]'
+    : 'border-orange-300/50';
+  const backgroundClass = isPartial
+    ? (isDragging && dragState?.holidayId === holiday.id ? 'opacity-90 shadow-lg' : 'hover:brightness-95')
+    : (isDragging && dragState?.holidayId === holiday.id ? 'opacity-90 shadow-lg bg-orange-200/80' : 'hover:bg-orange-300/80 bg-orange-200/80');
   
   return (
     <>
       {/* Existing holiday display - show if holiday exists for this column */}
       <div
-        className={`absolute top-1/2 -translate-y-1/2 h-10 border border-orange-300/50 rounded-md flex items-center justify-center text-orange-800 text-sm shadow-sm z-[1] ${
-          isDragging && dragState?.holidayId === holiday.id 
-            ? 'opacity-90 shadow-lg bg-orange-200/80' 
-            : 'hover:bg-orange-300/80 bg-orange-200/80'
-        }`}
+        className={`absolute top-1/2 -translate-y-1/2 h-10 border ${fillClass} rounded-md flex items-center justify-center text-orange-800 text-sm shadow-sm z-[1] ${backgroundClass}`}
         style={(() => {
-          if (mode === 'weeks') {
+          if (isAggregatedTimelineMode(mode)) {
+            // Month and quarter modes: one bar measured in days from this column's first day
+            const dayWidth = getTimelineDayWidth(mode);
+            return {
+              left: `${(holiday.startIndex - columnDayOffset) * dayWidth + 1}px`,
+              width: `${Math.max(4, holiday.dayCount * dayWidth - 2)}px`,
+            };
+          } else if (mode === 'weeks') {
             // For week mode, calculate the precise positioning within week columns
             const dayWidth = 22; // 22px effective spacing (21px + 1px gap)
             
@@ -642,11 +686,14 @@ function IndividualHolidayBar({
             };
           }
         })()}
-        title={`${holiday.title} - Click to edit, drag sides to resize, drag center to move`}
+        title={`${holiday.title}${isPartial ? ` (${holiday.capacityLabel} available)` : ''} - Click to edit, drag sides to resize, drag center to move`}
       >
           {/* Holiday title */}
           <span className="truncate px-2 pointer-events-none select-none">
             🏖️ {holiday.title}
+            {isPartial && (
+              <span className="ml-1 text-xs font-medium text-orange-700/80">· {holiday.capacityLabel}</span>
+            )}
           </span>
 
           {/* Left resize handle */}
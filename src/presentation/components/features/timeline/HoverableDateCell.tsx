@@ -2,11 +2,12 @@ import React, { useState } from 'react';
 import { Calendar } from 'lucide-react';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
-import { addDaysToDate } from '@/presentation/utils/dateCalculations';;
+import { addDaysToDate } from '@/presentation/utils/dateCalculations';
+import type { TimelineMode } from '@/shared/types/core';
 
 interface HoverableDateCellProps {
   date: Date;
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   children: React.ReactNode;
   width: number;
 }
@@ -24,7 +25,7 @@ export function HoverableDateCell({ date, mode, children, width }: HoverableDate
       const dayIndex = Math.floor(x / dayWidth);
       setHoveredDayIndex(dayIndex >= 0 && dayIndex < 7 ? dayIndex : null);
     } else {
-      setHoveredDayIndex(0); // In days mode, treat as single day
+      setHoveredDayIndex(0); // Other modes treat the cell as a single target (the column start)
     }
   };
 
@@ -1,11 +1,12 @@
 import React from 'react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
-import type { Project, PhaseDTO } from '@/shared/types/core';
+import type { Project, PhaseDTO, TimelineMode } from '@/shared/types/core';
 import { getTimelinePositions } from '@/presentation/services/ProjectBarPositioning';
-import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';;
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
 import { getPhasesSortedByEndDate } from '@/domain/rules/phases/PhaseRules';
 import type { DragState } from '@/presentation/services/DragPositioning';
 import type { TimelinePositionCalculation } from '@/presentation/services/ProjectBarPositioning';
+import { getTimelineDayWidth } from '@/presentation/services/TimelineViewportService';
 
 interface PhaseMarkersProps {
   project: Project;
@@ -13,7 +14,7 @@ interface PhaseMarkersProps {
   viewportStart: Date;
   viewportEnd: Date;
   dates: Date[];
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   isDragging: boolean;
   dragState: DragState | null;
   calculateBaselineVisualOffsets: (
@@ -21,7 +22,7 @@ interface PhaseMarkersProps {
     isDragging: boolean,
     dragState: DragState | null,
     projectId: string,
-    mode: 'days' | 'weeks'
+    mode: TimelineMode
   ) => TimelinePositionCalculation;
 }
 
@@ -94,8 +95,8 @@ export function PhaseMarkers({
         );
 
         // In weeks mode, each day is 22px wide within the 153px week column
-        // In days mode, each day column is 52px wide
-        const dayWidth = mode === 'weeks' ? 22 : 52;
+        // In days mode, each day column is 52px wide; months and quarters use their per-day width
+        const dayWidth = getTimelineDayWidth(mode);
         // Position marker at the right edge of the phase end date
         const markerPosition = adjustedPositions.baselineStartPx + dayWidth;
 
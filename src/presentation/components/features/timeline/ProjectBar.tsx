@@ -3,16 +3,17 @@ import React, { memo, useMemo } from 'react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
 import { useEvents } from '@/presentation/hooks/data/useEvents';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
-import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
-import { isSameDate } from '@/presentation/utils/dateFormatUtils';
-import type { Project, PhaseDTO, CalendarEvent } from '@/shared/types/core';
+import { useScenarioHolidays, useScenarioSettings } from '@/presentation/contexts/ScenarioContext';
+import { useCapacityAllocation } from '@/presentation/contexts/TimelineContext';
+import { formatDateShort, formatMonthYear, formatQuarter, isSameDate } from '@/presentation/utils/dateFormatUtils';
+import type { Project, PhaseDTO, CalendarEvent, TimelineMode } from '@/shared/types/core';
 import { calculateBaselineVisualOffsets as baselineOffsets, calculateVisualProjectDates as visualDates, getTimelinePositions } from '@/presentation/services/ProjectBarPositioning';
-import { getTimelineBarData } from '@/application/queries/TimelineAggregator';
+import { getTimelineBarData, getTimelineColumnHours } from '@/application/queries/TimelineAggregator';
 import { ColorCalculationService } from '@/presentation/services/ColorCalculations';
 import type { TimelineAllocationType } from '@/presentation/constants/styles';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
-import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { calculateTimelineDayOffset, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { calculateTimelineColumnLayout, calculateTimelineContentWidth, getTimelineColumnWidth, getTimelineDayWidth, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
 import { getPhasesSortedByEndDate } from '@/domain/rules/phases/PhaseRules';
 import { ProjectIconIndicator } from './ProjectIconIndicator';
 import { DraggablePhaseMarkers } from './DraggablePhaseMarkers';
@@ -25,6 +26,7 @@ import { calculateWorkHoursTotal } from '@/domain/rules/availability/WorkHourGen
 import { isHolidayDateCapacity } from '@/domain/rules/availability/CapacityAnalysis';
 import { getPhaseSegmentForDate } from '@/domain/rules/phases/PhaseCalculations';
 import { calculateRectangleHeight } from '@/presentation/services/ProjectBarPositioning';
+import { forecastProjectCompletion } from '@/domain/rules/projects/ProjectForecast';
 
 interface ProjectBarProps {
   project: Project;
@@ -33,9 +35,10 @@ interface ProjectBarProps {
   viewportEnd: Date;
   isDragging: boolean;
   dragState: DragState | null;
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
   isMultiProjectRow?: boolean;
   collapsed: boolean;
+  backlogHours?: number; // Estimates of the project's unscheduled tasks
   onPhaseDrag?: (phaseId: string, newDate: Date) => void;
   onPhaseDragEnd?: () => void;
   onProjectResizeMouseDown?: (e: React.MouseEvent, projectId: string, action: 'resize-start-date' | 'resize-end-date') => void;
@@ -47,7 +50,7 @@ function calculateBaselineVisualOffsets(
   isDragging: boolean,
   dragState: DragState | null,
   projectId: string,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ) {
   try {
     return baselineOffsets(positions, isDragging, dragState, projectId, mode);
@@ -78,9 +81,10 @@ export const ProjectBar = memo(function ProjectBar({
   viewportEnd, 
   isDragging, 
   dragState, 
-  mode,
+  mode = 'days',
   isMultiProjectRow,
   collapsed,
+  backlogHours = 0,
   onPhaseDrag,
   onPhaseDragEnd,
   onProjectResizeMouseDown,
@@ -88,9 +92,10 @@ export const ProjectBar = memo(function ProjectBar({
 }: ProjectBarProps) {
   // Always call ALL hooks first, before any early returns (React Rules of Hooks)
   const {phases} = useProjectContext();
-  const { holidays } = useHolidays();
+  const { holidays } = useScenarioHolidays();
   const { events: rawEvents } = useEvents();
-  const { settings } = useSettingsContext();
+  const { settings } = useScenarioSettings();
+  const capacityAllocation = useCapacityAllocation();
 
   // Transform raw events to CalendarEvent format
   const events: CalendarEvent[] = useMemo(() => rawEvents.map(e => ({
@@ -146,14 +151,16 @@ export const ProjectBar = memo(function ProjectBar({
   }, [project, isDragging, dragState]);
   // Get comprehensive timeline bar data - MUST be before early returns
   const timelineData = useMemo<ReturnType<typeof getTimelineBarData>>(() => {
+    // While resizing, the bar previews this project's own estimates for the new dates
     const options = visualProjectDates
       ? {
           visualProjectDates: {
             startDate: visualProjectDates.visualProjectStart,
             endDate: visualProjectDates.visualProjectEnd
-          }
+          },
+          backlogHours
         }
-      : undefined;
+      : { dayEstimates: capacityAllocation?.estimatesByProject.get(project.id), backlogHours };
 
     return getTimelineBarData(
       project,
@@ -181,8 +188,16 @@ export const ProjectBar = memo(function ProjectBar({
     dragState,
     events,
     visualProjectDates,
-    isWorkingDayChecker
+    isWorkingDayChecker,
+    capacityAllocation,
+    backlogHours
   ]);
+  // Deadline risk from the pace of completed work - only drawn when it threatens the end date
+  const forecast = useMemo(() => {
+    if (!project || project.continuous || !settings) return null;
+    const result = forecastProjectCompletion({ project, events, settings, holidays });
+    return result.risk === 'late' || result.risk === 'at-risk' ? result : null;
+  }, [project, events, settings, holidays]);
   // Extract data for use in component
   const {
     projectDays,
@@ -196,6 +211,11 @@ export const ProjectBar = memo(function ProjectBar({
     getPerDateSummary
   } = timelineData;
   const { exactDailyHours, dailyHours, dailyMinutes, heightInPixels, workingDaysCount } = projectMetrics;
+  // Month and quarter columns show one bar per column summarising its day estimates
+  const columnHours = useMemo(
+    () => (isAggregatedTimelineMode(mode) ? getTimelineColumnHours(dayEstimates, dates, mode) : null),
+    [dayEstimates, dates, mode]
+  );
   
   // Debug logging removed
   
@@ -210,6 +230,16 @@ export const ProjectBar = memo(function ProjectBar({
   // Add buffer for partial column in days mode
   const columnWidth = mode === 'weeks' ? 153 : 52;
   const bufferWidth = mode === 'days' ? columnWidth : 0;
+  const aggregatedDayWidth = getTimelineDayWidth(mode);
+  // Tooltips use a light, desaturated tint of the project color
+  const tooltipBackgroundColor = (() => {
+    const match = project.color.match(/oklch\(([0-9.]+) ([0-9.]+) ([0-9.]+)\)/);
+    if (!match) return project.color;
+    const [, lightness, chroma, hue] = match;
+    const newLightness = Math.min(1, parseFloat(lightness) + 0.25);
+    const newChroma = Math.max(0, parseFloat(chroma) * 0.3);
+    return `oklch(${newLightness} ${newChroma} ${hue})`;
+  })();
   
   try {
     // ✅ Main return - AFTER all hooks
@@ -459,7 +489,7 @@ export const ProjectBar = memo(function ProjectBar({
                     );
                     
                     // Position line from end of current occurrence to start of next occurrence
-                    const dayRectWidth = mode === 'weeks' ? 21 : 50;
+                    const dayRectWidth = mode === 'weeks' ? 21 : mode === 'days' ? 50 : aggregatedDayWidth;
                     const weeksModeOffset = mode === 'weeks' ? 4 : 0;
                     const lineStart = adjustedEndPos.baselineStartPx + dayRectWidth + weeksModeOffset;
                     const lineEnd = adjustedStartPos.baselineStartPx;
@@ -673,7 +703,7 @@ export const ProjectBar = memo(function ProjectBar({
                     );
                     
                     // Position line from end of current phase to start of next phase
-                    const dayRectWidth = mode === 'weeks' ? 21 : 50;
+                    const dayRectWidth = mode === 'weeks' ? 21 : mode === 'days' ? 50 : aggregatedDayWidth;
                     const weeksModeOffset = mode === 'weeks' ? 4 : 0;
                     const lineStart = adjustedEndPos.baselineStartPx + dayRectWidth + weeksModeOffset;
                     const lineEnd = adjustedStartPos.baselineStartPx;
@@ -815,10 +845,16 @@ export const ProjectBar = memo(function ProjectBar({
             
             // Calculate days from viewport start to furthest estimate
             const daysDiff = Math.ceil((furthestDateNormalized.getTime() - viewportStartNormalized.getTime()) / (1000 * 60 * 60 * 24));
-            const furthestColumnPx = daysDiff * columnWidth;
+            // Month and quarter columns place days on a shared day axis from the first column
+            const furthestColumnPx = isAggregatedTimelineMode(mode)
+              ? calculateTimelineDayOffset(furthestDateNormalized, dates[0]) * aggregatedDayWidth
+              : daysDiff * columnWidth;
+            const continuationPx = isAggregatedTimelineMode(mode)
+              ? getTimelineColumnWidth(dates[0], mode)
+              : columnWidth * 10;
             
             // Extend a bit beyond the furthest estimate to show continuation
-            widthPx = Math.max(widthPx, furthestColumnPx - leftPx + (columnWidth * 10));
+            widthPx = Math.max(widthPx, furthestColumnPx - leftPx + continuationPx);
           }
           
           // Calculate border radius
@@ -862,7 +898,7 @@ export const ProjectBar = memo(function ProjectBar({
         <div 
           className="flex w-full relative z-20 flex-1 pointer-events-none" 
           style={{ 
-            minWidth: `${dates.length * columnWidth + bufferWidth}px`,
+            minWidth: `${calculateTimelineContentWidth(dates, mode) + bufferWidth}px`,
             zIndex: 20,
             gap: 0
           }}
@@ -872,6 +908,85 @@ export const ProjectBar = memo(function ProjectBar({
             const { visualProjectStart, visualProjectEnd } = visualProjectDates
               ?? calculateVisualProjectDates(project, isDragging, dragState);
             
+            // Month and quarter modes - one bar per column, clipped to the project's days in it
+            if (columnHours) {
+              const projectStartOffset = calculateTimelineDayOffset(visualProjectStart, dates[0]);
+              const projectEndOffset = project.continuous
+                ? Infinity
+                : calculateTimelineDayOffset(visualProjectEnd, dates[0]);
+              const formatHours = (hours: number) => {
+                const wholeHours = Math.floor(hours);
+                const minutes = Math.round((hours - wholeHours) * 60);
+                return minutes > 0 ? `${wholeHours}h${minutes.toString().padStart(2, '0')}` : `${wholeHours}h`;
+              };
+
+              return calculateTimelineColumnLayout(dates, mode).map((column, columnIndex) => {
+                const hours = columnHours[columnIndex];
+                const firstDay = Math.max(projectStartOffset, column.dayOffset);
+                const lastDay = Math.min(projectEndOffset, column.dayOffset + column.dayCount - 1);
+                const hasBar = hours && hours.allocationType !== 'none' && lastDay >= firstDay;
+
+                // Leave a 1px gap on both sides so neighbouring column bars stay distinct
+                const barLeftPx = (firstDay - column.dayOffset) * aggregatedDayWidth + 1;
+                const barWidthPx = Math.max(2, (lastDay - firstDay + 1) * aggregatedDayWidth - 2);
+                const timelineStyle = hasBar
+                  ? ColorCalculationService.getTimelineAllocationStyle(hours.allocationType as TimelineAllocationType, colorScheme)
+                  : null;
+                const columnLabel = mode === 'quarters'
+                  ? `${formatQuarter(column.date)} ${column.date.getFullYear()}`
+                  : formatMonthYear(column.date);
+
+                return (
+                  <div
+                    key={`column-${columnIndex}`}
+                    className="relative h-full"
+                    style={{ minWidth: `${column.widthPx}px`, width: `${column.widthPx}px` }}
+                  >
+                    {hasBar && timelineStyle && (
+                      <Tooltip delayDuration={100}>
+                        <TooltipTrigger asChild>
+                          <div
+                            className={`absolute pointer-events-auto ${
+                              isDragging && dragState?.projectId === project.id ? 'opacity-90' : ''
+                            }`}
+                            style={{
+                              ...timelineStyle,
+                              left: `${barLeftPx}px`,
+                              width: `${barWidthPx}px`,
+                              height: `${calculateRectangleHeight(hours.averageDailyHours)}px`,
+                              bottom: '3px',
+                              borderRadius: '4px',
+                              zIndex: 0
+                            }}
+                          />
+                        </TooltipTrigger>
+                        <TooltipContent backgroundColor={tooltipBackgroundColor} textColor={NEUTRAL_COLORS.gray800}>
+                          <div className="text-xs">
+                            <div className="font-semibold mb-1">
+                              {project.name} • {columnLabel}
+                            </div>
+                            <div className="font-medium">{formatHours(hours.totalHours)} total</div>
+                            {hours.completedHours > 0 && (
+                              <div className="text-gray-600">Completed: {formatHours(hours.completedHours)}</div>
+                            )}
+                            {hours.plannedHours > 0 && (
+                              <div className="text-gray-600">Planned: {formatHours(hours.plannedHours)}</div>
+                            )}
+                            {hours.estimatedHours > 0 && (
+                              <div className="text-gray-600">Auto-Estimate: {formatHours(hours.estimatedHours)}</div>
+                            )}
+                            <div className="text-gray-500">
+                              {formatHours(hours.averageDailyHours)}/day over {hours.activeDays} {hours.activeDays === 1 ? 'day' : 'days'}
+                            </div>
+                          </div>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+                  </div>
+                );
+              });
+            }
+            
             // In weeks mode, expand each week date into 7 individual days
             // In days mode, use dates as-is
             const individualDates = mode === 'weeks' 
@@ -1105,14 +1220,7 @@ export const ProjectBar = memo(function ProjectBar({
                         </div>
                       </TooltipTrigger>
                       <TooltipContent
-                        backgroundColor={(() => {
-                          const match = project.color.match(/oklch\(([0-9.]+) ([0-9.]+) ([0-9.]+)\)/);
-                          if (!match) return project.color;
-                          const [, lightness, chroma, hue] = match;
-                          const newLightness = Math.min(1, parseFloat(lightness) + 0.25);
-                          const newChroma = Math.max(0, parseFloat(chroma) * 0.3);
-                          return `oklch(${newLightness} ${newChroma} ${hue})`;
-                        })()}
+                        backgroundColor={tooltipBackgroundColor}
                         textColor={NEUTRAL_COLORS.gray800}
                       >
                         <div className="text-xs">
@@ -1250,6 +1358,59 @@ export const ProjectBar = memo(function ProjectBar({
           );
         })()}
         
+        {/* Projected finish marker - shown when the forecast passes (or may pass) the end date */}
+        {forecast && (() => {
+          const finish = forecast.projectedFinish;
+          if (!finish || finish < viewportStart || finish > viewportEnd) return null;
+
+          const positions = (() => {
+            try {
+              return getTimelinePositions(finish, finish, viewportStart, viewportEnd, dates, mode);
+            } catch (error) {
+              ErrorHandlingService.handle(error, { source: 'ProjectBar', action: 'Error getting forecast position:' });
+              return null;
+            }
+          })();
+
+          if (!positions) return null;
+
+          const isLate = forecast.risk === 'late';
+          const markerLeft = positions.baselineStartPx + (mode === 'days' ? columnWidth / 2 : 0) - 5;
+
+          return (
+            <Tooltip delayDuration={100}>
+              <TooltipTrigger asChild>
+                <div
+                  className="absolute z-40 pointer-events-auto flex flex-col items-center"
+                  style={{ left: `${markerLeft}px`, top: '4px', width: '10px', height: '40px' }}
+                >
+                  <div className={`w-2.5 h-2.5 rotate-45 ${isLate ? 'bg-red-500' : 'bg-amber-400'}`} />
+                  <div
+                    className={`flex-1 border-l-2 border-dashed ${isLate ? 'border-red-500' : 'border-amber-400'}`}
+                  />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent side="top">
+                <div className="text-xs space-y-0.5">
+                  <div className="font-medium">
+                    {isLate ? 'Projected to finish late' : 'At risk of finishing late'}
+                  </div>
+                  <div>Projected finish: {formatDateShort(finish)}</div>
+                  {forecast.earliestFinish && (
+                    <div>
+                      Range: {formatDateShort(forecast.earliestFinish)} – {forecast.latestFinish ? formatDateShort(forecast.latestFinish) : 'open'}
+                    </div>
+                  )}
+                  {forecast.daysLate > 0 && <div>{forecast.daysLate} days past the end date</div>}
+                  <div className="text-muted-foreground">
+                    Based on {forecast.velocity.averageWeeklyHours.toFixed(1)}h/week over the last {forecast.velocity.weeklyHours.length} weeks
+                  </div>
+                </div>
+              </TooltipContent>
+            </Tooltip>
+          );
+        })()}
+
         {/* Resize handles for project bar start/end dates */}
         {(() => {
           const projectStart = new Date(project.startDate);
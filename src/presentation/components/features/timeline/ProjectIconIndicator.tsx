@@ -2,11 +2,11 @@ import React, { useState } from 'react';
 import { Folder, Edit3, Briefcase, Zap, Target, Lightbulb, Rocket, Star, Heart, Gift, Music, Camera, Code, Book, Gamepad2, Coffee, Home, Building, Car, Plane, Map, Globe } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
-import { Project } from '@/shared/types/core';
+import { Project, type TimelineMode } from '@/shared/types/core';
 
 interface ProjectIconIndicatorProps {
   project: Project;
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
 }
 
 type IconComponent = React.ComponentType<{ className?: string }>;
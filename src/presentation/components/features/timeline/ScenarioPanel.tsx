@@ -0,0 +1,179 @@
+import React, { useMemo } from 'react';
+import { FlaskConical } from 'lucide-react';
+import { Button } from '@/presentation/components/shadcn/button';
+import { useScenarioContext } from '@/presentation/contexts/ScenarioContext';
+import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { compareScenarioCapacity } from '@/application/queries/ScenarioCapacityAggregate';
+import type { DayOfWeek } from '@/domain/rules/work-slots/WorkSlotValidation';
+import { updateScenarioWorkHours, type Scenario, type ScenarioEntityChange } from '@/domain/rules/scenarios/ScenarioSandbox';
+import type { CalendarEvent } from '@/shared/types/core';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+import { formatDateShort } from '@/presentation/utils/dateFormatUtils';
+import { createNewWorkSlot } from '@/presentation/utils/settingsCalculations';
+
+const CAPACITY_WEEKS = 12;
+const MAX_LISTED_DAYS = 5;
+
+const CHANGE_VERBS = { added: 'Added', updated: 'Changed', removed: 'Removed' } as const;
+
+const DAYS: { key: DayOfWeek; label: string }[] = [
+  { key: 'monday', label: 'Mon' },
+  { key: 'tuesday', label: 'Tue' },
+  { key: 'wednesday', label: 'Wed' },
+  { key: 'thursday', label: 'Thu' },
+  { key: 'friday', label: 'Fri' },
+  { key: 'saturday', label: 'Sat' },
+  { key: 'sunday', label: 'Sun' }
+];
+
+interface ScenarioPanelProps {
+  events: CalendarEvent[];
+}
+
+const formatHours = (hours: number) => `${hours > 0 ? '+' : ''}${hours.toFixed(1)}h`;
+
+const formatDays = (dateKeys: string[]) => {
+  const listed = dateKeys
+    .slice(0, MAX_LISTED_DAYS)
+    .map(key => {
+      const [y, m, d] = key.split('-').map(Number);
+      return formatDateShort(new Date(y, m - 1, d));
+    })
+    .join(', ');
+  return dateKeys.length > MAX_LISTED_DAYS ? `${listed} +${dateKeys.length - MAX_LISTED_DAYS} more` : listed;
+};
+
+/**
+ * Turn a day of the scenario's default week off, or back on with its
+ * original slots (9–5 if it had none)
+ */
+function toggleWorkDay(scenario: Scenario, day: DayOfWeek): Scenario {
+  const week = scenario.current.weeklyWorkHours;
+  const original = scenario.baseline.weeklyWorkHours[day] ?? [];
+  const defaultSlot = createNewWorkSlot(day, []).slot;
+  const slots = week[day]?.length ? [] : original.length > 0 ? original : defaultSlot ? [defaultSlot] : [];
+  return updateScenarioWorkHours(scenario, { ...week, [day]: slots });
+}
+
+function describeChange<T>(label: string, change: ScenarioEntityChange<T>) {
+  const fields = change.type === 'updated' ? ` (${change.fields.join(', ')})` : '';
+  return `${CHANGE_VERBS[change.type]} ${label} "${change.name}"${fields}`;
+}
+
+/**
+ * Banner shown while a what-if scenario is active: the changes made so far,
+ * how capacity compares with reality, and Discard / Apply actions.
+ */
+export function ScenarioPanel({ events }: ScenarioPanelProps) {
+  const { scenario, diff, isApplying, discardScenario, applyScenario, updateScenario } = useScenarioContext();
+  const { holidays: realHolidays } = useHolidays();
+
+  const comparison = useMemo(() => {
+    if (!scenario) return null;
+    const start = normalizeToMidnight(new Date());
+    return compareScenarioCapacity(scenario, events, { start, end: addDaysToDate(start, CAPACITY_WEEKS * 7 - 1) });
+  }, [scenario, events]);
+
+  if (!scenario || !diff || !comparison) return null;
+
+  const changes = [
+    ...diff.projects.map(change => describeChange('project', change)),
+    ...diff.phases.map(change => describeChange('phase', change)),
+    ...diff.holidays.map(change => describeChange('holiday', change)),
+    ...(diff.workHoursChanged ? ['Changed work hours'] : [])
+  ];
+
+  return (
+    <div className="mb-3 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-amber-700" />
+          <span className="font-medium">{scenario.name}</span>
+          <span className="text-gray-600">
+            — edits on the timeline are not saved until you apply them
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={discardScenario} disabled={isApplying}>
+            Discard
+          </Button>
+          <Button
+            size="sm"
+            onClick={() => void applyScenario(realHolidays)}
+            disabled={isApplying || diff.changeCount === 0}
+          >
+            {isApplying ? 'Applying…' : `Apply ${diff.changeCount} change${diff.changeCount === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <div className="text-gray-600">Capacity (next {CAPACITY_WEEKS} weeks)</div>
+          <div className="font-bold">
+            {comparison.scenario.totalCapacity.toFixed(0)}h{' '}
+            <span className="font-normal text-gray-600">{formatHours(comparison.capacityDelta)}</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Planned load</div>
+          <div className="font-bold">
+            {comparison.scenario.totalLoad.toFixed(0)}h{' '}
+            <span className="font-normal text-gray-600">{formatHours(comparison.loadDelta)}</span>
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Utilization</div>
+          <div className="font-bold">
+            {comparison.reality.utilization.toFixed(0)}% → {comparison.scenario.utilization.toFixed(0)}%
+          </div>
+        </div>
+        <div>
+          <div className="text-gray-600">Overbooked days</div>
+          <div className="font-bold">
+            {comparison.reality.overbookedDays.length} → {comparison.scenario.overbookedDays.length}
+          </div>
+        </div>
+      </div>
+
+      {comparison.newlyOverbookedDays.length > 0 && (
+        <div className="text-red-700">Newly overbooked: {formatDays(comparison.newlyOverbookedDays)}</div>
+      )}
+      {comparison.resolvedOverbookedDays.length > 0 && (
+        <div className="text-green-700">No longer overbooked: {formatDays(comparison.resolvedOverbookedDays)}</div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">Work days</span>
+        {DAYS.map(({ key, label }) => {
+          const isWorkDay = (scenario.current.weeklyWorkHours[key]?.length ?? 0) > 0;
+          return (
+            <Button
+              key={key}
+              variant={isWorkDay ? 'default' : 'outline'}
+              size="sm"
+              className="h-7 px-2"
+              onClick={() => updateScenario(current => toggleWorkDay(current, key))}
+              disabled={isApplying}
+            >
+              {label}
+            </Button>
+          );
+        })}
+        {(scenario.current.workSchedules?.length ?? 0) > 0 && (
+          <span className="text-gray-600">Dates covered by a work schedule keep the schedule's week.</span>
+        )}
+      </div>
+
+      {changes.length > 0 ? (
+        <ul className="list-disc pl-5 text-gray-700 space-y-0.5">
+          {changes.map(change => <li key={change}>{change}</li>)}
+        </ul>
+      ) : (
+        <p className="text-gray-600">
+          Drag projects, phases and holidays, add projects, extend deadlines or change work days to see the effect on capacity.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 import React, { memo } from 'react';
-import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
-import { calculateTimelineColumnMarkerData } from '@/presentation/services/ProjectBarPositioning';;
+import { normalizeToMidnight, addDaysToDate, calculateTimelineDayOffset } from '@/presentation/utils/dateCalculations';
+import { calculateTimelineColumnMarkerData } from '@/presentation/services/ProjectBarPositioning';
+import { calculateTimelineContentWidth, getTimelineDayWidth, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
+import type { TimelineMode } from '@/shared/types/core';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
 
 interface TimelineBackgroundProps {
   dates: Date[];
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   holidays?: Array<{ id: string; startDate: Date | string; endDate?: Date | string | null }>;
 }
 
@@ -15,20 +17,20 @@ interface TimelineBackgroundProps {
  * This component handles both the main timeline and availability card overlays
  */
 export const TimelineBackground = memo(function TimelineBackground({ dates, mode, holidays }: TimelineBackgroundProps) {
-  const columnWidth = mode === 'weeks' ? 153 : 52;
-  const dayWidth = mode === 'weeks' ? 22 : columnWidth; // 22px effective spacing (21px + 1px gap)
+  const dayWidth = getTimelineDayWidth(mode); // 22px effective spacing in weeks mode (21px + 1px gap)
+  const isAggregated = isAggregatedTimelineMode(mode);
   
   // Use service to calculate column marker data (borders, today indicator)
   const columnData = calculateTimelineColumnMarkerData(dates, mode);
   const bufferWidth = mode === 'days' ? columnData[0]?.columnWidth || 52 : 0;
 
   return (
-    <div className="absolute inset-0 pointer-events-none" style={{ minWidth: `${dates.length * columnData[0]?.columnWidth + bufferWidth}px`, zIndex: 10 }}>
+    <div className="absolute inset-0 pointer-events-none" style={{ minWidth: `${calculateTimelineContentWidth(dates, mode) + bufferWidth}px`, zIndex: 10 }}>
       {/* Column markers with borders and today indicator */}
       <div className="flex h-full">
         {columnData.map((column) => (
           <div 
-            key={column.mode === 'weeks' ? `week-${column.index}` : `day-${column.index}`}
+            key={`${column.mode}-${column.index}`}
             className={`h-full relative ${column.isNewMonth ? 'border-l-2 border-gray-300' : column.isNewWeek ? 'border-l border-gray-200' : ''}`}
             style={{
               minWidth: `${column.columnWidth}px`,
@@ -42,8 +44,8 @@ export const TimelineBackground = memo(function TimelineBackground({ dates, mode
                 style={{
                   backgroundColor: 'oklch(0.92 0.05 232 / 0.5)',
                   zIndex: 2,
-                  left: column.mode === 'weeks' ? `${column.todayPositionPx}px` : '0px',
-                  width: column.mode === 'weeks' ? '22px' : '100%'
+                  left: column.mode === 'days' ? '0px' : `${column.todayPositionPx}px`,
+                  width: column.mode === 'days' ? '100%' : `${dayWidth}px`
                 }}
               />
             )}
@@ -53,7 +55,7 @@ export const TimelineBackground = memo(function TimelineBackground({ dates, mode
               <div 
                 className="absolute top-0 bottom-0 pointer-events-none border-l-2 border-dashed"
                 style={{
-                  left: column.mode === 'weeks' ? `${column.todayPositionPx}px` : '0px',
+                  left: column.mode === 'days' ? '0px' : `${column.todayPositionPx}px`,
                   zIndex: 5,
                   borderColor: 'oklch(0.50 0.127 232)'
                 }}
@@ -63,8 +65,8 @@ export const TimelineBackground = memo(function TimelineBackground({ dates, mode
         ))}
       </div>
 
-      {/* Weekend overlays */}
-      {dates.map((date, dateIndex) => {
+      {/* Weekend overlays (month and quarter days are too narrow to shade) */}
+      {!isAggregated && dates.map((date, dateIndex) => {
         if (mode === 'weeks') {
           // Week mode - render weekend overlays for each day in the week
           const dayOfWeek = date.getDay();
@@ -124,11 +126,30 @@ export const TimelineBackground = memo(function TimelineBackground({ dates, mode
         const normalizedHolidayEnd = normalizeToMidnight(holidayEnd);
         
         // Using NEUTRAL_COLORS.gray500 with 20% opacity (33 in hex)
-        const backgroundPattern = mode === 'weeks' 
-          ? `repeating-linear-gradient(-45deg, ${NEUTRAL_COLORS.gray500}33 0 1.5px, transparent 1.5px 4px)`
-          : `repeating-linear-gradient(-45deg, ${NEUTRAL_COLORS.gray500}33 0 2px, transparent 2px 6px)`;
+        const backgroundPattern = mode === 'days' 
+          ? `repeating-linear-gradient(-45deg, ${NEUTRAL_COLORS.gray500}33 0 2px, transparent 2px 6px)`
+          : `repeating-linear-gradient(-45deg, ${NEUTRAL_COLORS.gray500}33 0 1.5px, transparent 1.5px 4px)`;
         
-        if (mode === 'weeks') {
+        if (isAggregated) {
+          // Month and quarter modes - one overlay spanning the holiday's days
+          if (dates.length === 0) return null;
+          const startOffset = calculateTimelineDayOffset(normalizedHolidayStart, dates[0]);
+          const endOffset = calculateTimelineDayOffset(normalizedHolidayEnd, dates[0]);
+
+          return (
+            <div
+              key={`holiday-${holiday.id}`}
+              className="absolute top-0"
+              style={{
+                left: `${startOffset * dayWidth}px`,
+                width: `${(endOffset - startOffset + 1) * dayWidth}px`,
+                height: '100%',
+                backgroundImage: backgroundPattern,
+                pointerEvents: 'none'
+              }}
+            />
+          );
+        } else if (mode === 'weeks') {
           // Week mode - render holiday overlay for each day in affected weeks
           const holidayOverlays = [];
           
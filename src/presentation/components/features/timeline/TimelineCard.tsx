@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { ChevronRight, ChevronDown, Plus, X } from 'lucide-react';
 import { ProjectBar } from './ProjectBar';
+import { BaselineGhostBar } from './BaselineGhostBar';
 import { Button } from '@/presentation/components/shadcn/button';
 import { Input } from '@/presentation/components/shadcn/input';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
-import { Project } from '@/shared/types/core';
+import { Project, type TimelineMode } from '@/shared/types/core';
 import type { DragState } from '@/presentation/services/DragPositioning';
+import type { BaselineProjectVariance } from '@/domain/rules/baselines/PlanBaseline';
 
 interface TimelineCardProps {
   groups: Array<{ id: string; name: string }>;
@@ -20,9 +22,12 @@ interface TimelineCardProps {
   handlePhaseDragEnd: () => void;
   handleProjectResizeMouseDown?: (e: React.MouseEvent, projectId: string, action: 'resize-start-date' | 'resize-end-date') => void;
   handlePhaseResizeMouseDown?: (e: React.MouseEvent, projectId: string, phaseId: string, action: 'resize-phase-start' | 'resize-phase-end') => void;
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   collapsed: boolean;
   onToggleGroupCollapse: (groupId: string) => void;
+  baselineVariances?: Map<string, BaselineProjectVariance>; // Drift from the active baseline, by project
+  backlogHoursByProject?: Map<string, number>; // Estimates of unscheduled tasks, by project
+  canAddGroup?: boolean; // Off when rows are sectioned by client, label or status
 }
 
 /**
@@ -43,7 +48,10 @@ export function TimelineCard({
   handlePhaseResizeMouseDown,
   mode,
   collapsed,
-  onToggleGroupCollapse
+  onToggleGroupCollapse,
+  baselineVariances,
+  backlogHoursByProject,
+  canAddGroup = true
 }: TimelineCardProps) {
   const { addGroup } = useProjectContext();
   const [isAddingGroup, setIsAddingGroup] = useState(false);
@@ -101,8 +109,19 @@ export function TimelineCard({
                     
                     {/* Render all projects in this visual row - positioned absolutely to overlay */}
                     {visualRow.projects.map((project: Project) => {
+                      const baselineVariance = baselineVariances?.get(project.id);
                       return (
                         <div key={project.id} className="absolute inset-0 pointer-events-none">
+                          {/* Where the project sat in the active baseline, behind the live bar */}
+                          {baselineVariance && (
+                            <BaselineGhostBar
+                              variance={baselineVariance}
+                              dates={dates}
+                              viewportStart={viewportStart}
+                              viewportEnd={viewportEnd}
+                              mode={mode}
+                            />
+                          )}
                           <ProjectBar
                             project={project}
                             dates={dates}
@@ -113,6 +132,7 @@ export function TimelineCard({
                             mode={mode}
                             isMultiProjectRow={true}
                             collapsed={collapsed}
+                            backlogHours={backlogHoursByProject?.get(project.id)}
                             onPhaseDrag={handlePhaseDrag}
                             onPhaseDragEnd={handlePhaseDragEnd}
                             onProjectResizeMouseDown={handleProjectResizeMouseDown}
@@ -143,7 +163,7 @@ export function TimelineCard({
       })}
       
       {/* Add Group Row */}
-      {isAddingGroup ? (
+      {!canAddGroup ? null : isAddingGroup ? (
         <form onSubmit={handleSubmit} className="flex items-center h-12 px-4 py-2 border-b border-gray-100 bg-green-50/30">
           <div className="w-6 h-6 mr-2"></div>
           <div className="w-2 h-2 rounded-full mr-3 bg-gray-300"></div>
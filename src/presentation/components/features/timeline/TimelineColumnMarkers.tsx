@@ -1,9 +1,11 @@
 import React, { memo } from 'react';
-import { calculateTimelineColumnMarkerData } from '@/presentation/services/ProjectBarPositioning';;
+import { calculateTimelineColumnMarkerData } from '@/presentation/services/ProjectBarPositioning';
+import { calculateTimelineContentWidth, getTimelineDayWidth } from '@/presentation/services/TimelineViewportService';
+import type { TimelineMode } from '@/shared/types/core';
 
 interface TimelineColumnMarkersProps {
   dates: Date[];
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
 }
 
 export const TimelineColumnMarkers = memo(function TimelineColumnMarkers({ dates, mode = 'days' }: TimelineColumnMarkersProps) {
@@ -14,13 +16,13 @@ export const TimelineColumnMarkers = memo(function TimelineColumnMarkers({ dates
   const bufferWidth = mode === 'days' ? columnData[0]?.columnWidth || 52 : 0;
   
   return (
-    <div className="absolute inset-0 pointer-events-none" style={{ minWidth: `${dates.length * columnData[0]?.columnWidth + bufferWidth}px`, zIndex: 10 }}>
+    <div className="absolute inset-0 pointer-events-none" style={{ minWidth: `${calculateTimelineContentWidth(dates, mode) + bufferWidth}px`, zIndex: 10 }}>
       <div className="flex h-full">
         {columnData.map((column) => {
-          if (column.mode === 'weeks') {
+          if (column.mode !== 'days') {
             return (
               <div 
-                key={`week-${column.index}`} 
+                key={`${column.mode}-${column.index}`} 
                 className={`h-full relative ${column.isNewMonth ? 'border-l-2 border-gray-300' : column.isNewWeek ? 'border-l border-gray-200' : ''}`}
                 style={{
                   minWidth: `${column.columnWidth}px`,
@@ -35,12 +37,12 @@ export const TimelineColumnMarkers = memo(function TimelineColumnMarkers({ dates
                       backgroundColor: 'oklch(0.92 0.05 232 / 0.5)',
                       zIndex: 2,
                       left: `${column.todayPositionPx}px`,
-                      width: '22px'
+                      width: `${getTimelineDayWidth(column.mode)}px`
                     }}
                   />
                 )}
 
-                {/* Today position line within week */}
+                {/* Today position line within the column */}
                 {column.isToday && (
                   <div 
                     className="absolute top-0 bottom-0 pointer-events-none border-l-2 border-dashed"
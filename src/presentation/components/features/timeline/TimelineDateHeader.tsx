@@ -1,13 +1,15 @@
 import React, { memo, useState } from 'react';
 import { Calendar } from 'lucide-react';
-import { formatMonthYear } from '@/presentation/utils/dateFormatUtils';
-import { addDaysToDate, groupDatesByMonth, isTodayInWeek, isToday as isTodayDate, isWeekendDate, formatWeekDateRange } from '@/presentation/utils/dateCalculations';;
+import { formatMonth, formatQuarter } from '@/presentation/utils/dateFormatUtils';
+import { addDaysToDate, groupDatesByMonth, groupDatesByYear, isTodayInColumn, isTodayInWeek, isToday as isTodayDate, isWeekendDate, formatWeekDateRange } from '@/presentation/utils/dateCalculations';
+import { calculateTimelineColumnLayout, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
+import type { TimelineMode } from '@/shared/types/core';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/presentation/components/shadcn/tooltip';
 
 interface TimelineDateHeaderProps {
   dates: Date[];
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
 }
 
 export const TimelineDateHeader = memo(function TimelineDateHeader({ dates, mode = 'days' }: TimelineDateHeaderProps) {
@@ -87,6 +89,71 @@ export const TimelineDateHeader = memo(function TimelineDateHeader({ dates, mode
     );
   };
 
+  if (isAggregatedTimelineMode(mode)) {
+    // Month and quarter columns vary in width: year labels on top, one label per column below
+    const columns = calculateTimelineColumnLayout(dates, mode);
+    const yearGroups = groupDatesByYear(dates);
+
+    return (
+      <div className="h-12 border-b border-gray-200 bg-gray-50 relative">
+        {/* Sticky year labels layer - positioned at top */}
+        <div className="absolute top-0 left-0 right-0 h-6 overflow-hidden">
+          {yearGroups.map(group => {
+            const hasToday = columns
+              .slice(group.startIndex, group.endIndex + 1)
+              .some(column => isTodayInColumn(column.date, mode));
+            const leftPositionPx = columns[group.startIndex].leftPx;
+            const yearWidthPx = columns[group.endIndex].leftPx + columns[group.endIndex].widthPx - leftPositionPx;
+
+            return (
+              <div
+                key={`year-group-${group.year}`}
+                className="absolute top-0 h-full"
+                style={{
+                  left: `${leftPositionPx}px`,
+                  width: `${yearWidthPx}px`,
+                }}
+              >
+                <div className="sticky left-0 bg-gray-50 h-full flex items-center" style={{ width: 'fit-content' }}>
+                  <div
+                    className={`text-xs pl-4 pr-4 py-1 whitespace-nowrap ${hasToday ? 'font-medium' : 'text-gray-600'}`}
+                    style={hasToday ? { color: 'oklch(0.50 0.127 232)' } : undefined}
+                  >
+                    {group.year}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Month or quarter labels layer - aligned to bottom */}
+        <div className="flex h-full items-end pb-2" style={{ minWidth: 'fit-content', gap: 0 }}>
+          {columns.map((column, index) => {
+            const isCurrentColumn = isTodayInColumn(column.date, mode);
+
+            return (
+              <div
+                key={index}
+                className={`text-center ${index < columns.length - 1 ? 'border-r border-gray-200' : ''}`}
+                style={{ minWidth: `${column.widthPx}px`, width: `${column.widthPx}px` }}
+              >
+                {renderDateCell(column.date, index, column.widthPx,
+                  <div
+                    className={`text-xs px-1 truncate ${isCurrentColumn ? 'font-medium' : 'text-gray-700'}`}
+                    style={isCurrentColumn ? { color: 'oklch(0.50 0.127 232)' } : undefined}
+                  >
+                    {mode === 'quarters' ? formatQuarter(column.date) : formatMonth(column.date)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
   if (mode === 'weeks') {
     // Group dates by month to create sticky headers using service
     const monthGroups = groupDatesByMonth(dates);
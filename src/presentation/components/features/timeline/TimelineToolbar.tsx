@@ -3,15 +3,23 @@ import { Button } from '@/presentation/components/shadcn/button';
 import { ToggleGroup, ToggleGroupItem } from '@/presentation/components/shadcn/toggle-group';
 import { DatePickerButton } from '@/presentation/components/shared/DatePickerButton';
 import { HelpButton } from '@/presentation/components/shared/HelpButton';
-import { ChevronLeft, ChevronRight, MapPin, Plus } from 'lucide-react';
+import { ProjectGroupingSelect } from '@/presentation/components/shared/ProjectGroupingSelect';
+import { SavedFilterSelect } from '@/presentation/components/shared/SavedFilterSelect';
+import { PlanExportMenu } from '@/presentation/components/shared/PlanExportMenu';
+import { BookmarkPlus, ChevronLeft, ChevronRight, FlaskConical, Flag, MapPin, Plus, Scale } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import type { CapacityBalancing } from '@/presentation/contexts/TimelineContext';
+import type { ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
+import type { PlanExport } from '@/application/queries/exports/planExport';
 import { type SmoothAnimationConfig, createSmoothDragAnimation } from '@/presentation/services/DragPositioning';
 import { TimelineViewport } from '@/presentation/services/TimelineViewportService';
 import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
 import { TIMELINE_CONSTANTS, BRAND_COLORS } from '@/presentation/constants';
 import { AppPageLayout } from '@/presentation/components/layout/AppPageLayout';
+import type { TimelineMode } from '@/shared/types/core';
 
 interface TimelineToolbarProps {
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
   currentDate: Date;
   viewportStart: Date;
   actualViewportStart: Date;
@@ -21,14 +29,28 @@ interface TimelineToolbarProps {
   mainSidebarCollapsed: boolean;
   isAnimating: boolean;
   groups: Array<{ id: string }>;
-  onTimelineModeChange: (mode: 'days' | 'weeks') => void;
+  onTimelineModeChange: (mode: TimelineMode) => void;
   onCurrentDateChange: (date: Date) => void;
   onViewportStartChange: (date: Date) => void;
   onAnimatingChange: (isAnimating: boolean) => void;
   onCreateNewProject: (groupId: string | null) => void;
   onHelpClick: () => void;
+  isScenarioActive?: boolean;
+  onStartScenario?: () => void;
+  capacityBalancing?: CapacityBalancing;
+  onCapacityBalancingChange?: (balancing: CapacityBalancing) => void;
+  baselines?: Array<{ id: string; name: string }>;
+  activeBaselineId?: string | null;
+  onActiveBaselineChange?: (baselineId: string | null) => void;
+  onSaveBaseline?: () => void;
+  grouping?: ProjectGrouping;
+  onGroupingChange?: (grouping: ProjectGrouping) => void;
+  buildExport?: () => PlanExport | null;
 }
 
+// Select value for "compare against nothing"
+const NO_BASELINE = 'none';
+
 export function TimelineToolbar({
   timelineMode,
   currentDate,
@@ -45,7 +67,18 @@ export function TimelineToolbar({
   onViewportStartChange,
   onAnimatingChange,
   onCreateNewProject,
-  onHelpClick
+  onHelpClick,
+  isScenarioActive = false,
+  onStartScenario,
+  capacityBalancing = 'off',
+  onCapacityBalancingChange,
+  baselines = [],
+  activeBaselineId = null,
+  onActiveBaselineChange,
+  onSaveBaseline,
+  grouping = 'group',
+  onGroupingChange,
+  buildExport
 }: TimelineToolbarProps) {
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
 
@@ -196,13 +229,82 @@ export function TimelineToolbar({
             <Plus className="w-4 h-4" />
             Add Project
           </Button>
+          {onStartScenario && (
+            <Button
+              variant="outline"
+              onClick={onStartScenario}
+              disabled={isScenarioActive}
+              className="h-9 gap-2 px-3"
+              title="Try changes in a sandbox before saving them"
+            >
+              <FlaskConical className="w-4 h-4" />
+              What if
+            </Button>
+          )}
+          {onGroupingChange && (
+            <>
+              <ProjectGroupingSelect value={grouping} onChange={onGroupingChange} />
+              <SavedFilterSelect />
+            </>
+          )}
+          {onCapacityBalancingChange && (
+            <Select
+              value={capacityBalancing}
+              onValueChange={(value) => onCapacityBalancingChange(value as CapacityBalancing)}
+            >
+              <SelectTrigger
+                className="h-9 w-[190px] gap-2"
+                title="Fit auto-estimates of all projects into each day's available hours"
+              >
+                <Scale className="w-4 h-4 shrink-0" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">No balancing</SelectItem>
+                <SelectItem value="deadline">Balance by deadline</SelectItem>
+                <SelectItem value="priority">Balance by priority</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+          {onActiveBaselineChange && (
+            <div className="flex items-center gap-1">
+              <Select
+                value={activeBaselineId ?? NO_BASELINE}
+                onValueChange={(value) => onActiveBaselineChange(value === NO_BASELINE ? null : value)}
+              >
+                <SelectTrigger
+                  className="h-9 w-[180px] gap-2"
+                  title="Show how the plan drifted from a saved baseline"
+                >
+                  <Flag className="w-4 h-4 shrink-0" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_BASELINE}>No baseline</SelectItem>
+                  {baselines.map(baseline => (
+                    <SelectItem key={baseline.id} value={baseline.id}>{baseline.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {onSaveBaseline && (
+                <Button
+                  variant="ghost"
+                  className="h-9 w-9 px-0"
+                  onClick={onSaveBaseline}
+                  title="Save the current plan as a baseline"
+                >
+                  <BookmarkPlus className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          )}
           <ToggleGroup
             type="single"
             value={timelineMode}
             onValueChange={(value) => {
               if (value) {
                 console.time(`⏱️ Timeline mode change to ${value}`);
-                onTimelineModeChange(value as 'days' | 'weeks');
+                onTimelineModeChange(value as TimelineMode);
                 // Use setTimeout to measure after render
                 setTimeout(() => {
                   console.timeEnd(`⏱️ Timeline mode change to ${value}`);
@@ -212,6 +314,12 @@ export function TimelineToolbar({
             variant="outline"
             className="border border-gray-200 rounded-lg h-9 p-1"
           >
+            <ToggleGroupItem value="quarters" aria-label="Quarters mode" className="px-3 py-1 h-7">
+              Quarters
+            </ToggleGroupItem>
+            <ToggleGroupItem value="months" aria-label="Months mode" className="px-3 py-1 h-7">
+              Months
+            </ToggleGroupItem>
             <ToggleGroupItem value="weeks" aria-label="Weeks mode" className="px-3 py-1 h-7">
               Weeks
             </ToggleGroupItem>
@@ -229,6 +337,7 @@ export function TimelineToolbar({
             isOpen={isDatePickerOpen}
             onOpenChange={setIsDatePickerOpen}
           />
+          {buildExport && <PlanExportMenu buildExport={buildExport} />}
         </div>
         {/* Navigation Controls */}
         <div className="flex items-center gap-3">
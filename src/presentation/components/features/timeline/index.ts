@@ -10,6 +10,11 @@ export { TimelineDateHeader } from './TimelineDateHeader';
 export { TimelineCard } from './TimelineCard';
 export { TimelineBackground } from './TimelineBackground';
 export { TimelineToolbar } from './TimelineToolbar';
+export { ScenarioPanel } from './ScenarioPanel';
+export { CapacityBalancePanel } from './CapacityBalancePanel';
+export { DependencyConnectors } from './DependencyConnectors';
+export { BaselineGhostBar } from './BaselineGhostBar';
+export { BaselineVariancePanel } from './BaselineVariancePanel';
 
 // Cleaned up - removed empty/deprecated files:
 // ✅ Removed: DraggableHolidayBar.tsx (deprecated, functionality moved to AddProjectRow)
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Timer, Coffee, Play, Square } from 'lucide-react';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Switch } from '@/presentation/components/shadcn/switch';
+import { Popover, PopoverContent, PopoverTrigger } from '@/presentation/components/shadcn/popover';
+import type { CalendarEvent, Project } from '@/shared/types/core';
+import type { FocusSessionState, FocusSettings } from '@/shared/types/timeTracking';
+import {
+  FOCUS_SESSION_CONFIG,
+  countFocusSessionsByProject,
+  isLongBreak
+} from '@/domain/rules/time-tracking/FocusSession';
+import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';
+
+// Last used intervals (the running session carries its own copy in the synced state)
+const SETTINGS_STORAGE_KEY = 'focusSettings';
+
+const loadStoredSettings = (): FocusSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored
+      ? { ...FOCUS_SESSION_CONFIG.DEFAULT_SETTINGS, ...JSON.parse(stored) }
+      : FOCUS_SESSION_CONFIG.DEFAULT_SETTINGS;
+  } catch {
+    return FOCUS_SESSION_CONFIG.DEFAULT_SETTINGS;
+  }
+};
+
+const formatCountdown = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+};
+
+const PHASE_LABELS: Record<FocusSessionState['phase'], string> = {
+  work: 'Focus',
+  break: 'Break',
+  ready: 'Break over'
+};
+
+interface FocusModeControlsProps {
+  focusSession: FocusSessionState | null;
+  remainingSeconds: number;
+  isTimeTracking: boolean;
+  events: CalendarEvent[];
+  projects: Project[];
+  onStart: (settings: FocusSettings) => Promise<boolean>;
+  onResume: () => void;
+  onEnd: () => void;
+}
+
+/**
+ * Pomodoro/focus mode: interval settings, current phase countdown and
+ * today's focus sessions per project
+ */
+export function FocusModeControls({
+  focusSession,
+  remainingSeconds,
+  isTimeTracking,
+  events,
+  projects,
+  onStart,
+  onResume,
+  onEnd
+}: FocusModeControlsProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [settings, setSettings] = useState<FocusSettings>(loadStoredSettings);
+
+  const todayCounts = useMemo(() => {
+    const counts = countFocusSessionsByProject(events, normalizeToMidnight(new Date()));
+    return Array.from(counts.entries())
+      .map(([projectId, count]) => ({ project: projects.find(p => p.id === projectId), count }))
+      .filter(entry => !!entry.project)
+      .sort((a, b) => b.count - a.count);
+  }, [events, projects]);
+
+  const updateMinutes = (key: keyof Omit<FocusSettings, 'autoLogBreaks'>) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSettings(prev => ({ ...prev, [key]: Number(e.target.value) }));
+  };
+
+  const handleStart = async () => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    if (await onStart(settings)) {
+      setIsOpen(false);
+    }
+  };
+
+  const phase = focusSession?.phase;
+  const isOnBreak = phase === 'break' || phase === 'ready';
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={`h-8 px-2 gap-1 tabular-nums ${isOnBreak ? 'text-emerald-700' : phase === 'work' ? 'text-red-600' : 'text-muted-foreground'}`}
+          title="Focus mode"
+        >
+          {isOnBreak ? <Coffee className="h-4 w-4" /> : <Timer className="h-4 w-4" />}
+          {phase && phase !== 'ready' && formatCountdown(remainingSeconds)}
+          {phase === 'ready' && PHASE_LABELS.ready}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="end">
+        {focusSession ? (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-sm font-medium">
+                  {isLongBreak(focusSession) ? 'Long break' : PHASE_LABELS[focusSession.phase]}
+                  {focusSession.project && <span className="text-muted-foreground"> · {focusSession.project.name}</span>}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {focusSession.completedSessions} session{focusSession.completedSessions === 1 ? '' : 's'} done
+                </div>
+              </div>
+              {focusSession.phase !== 'ready' && (
+                <div className="text-2xl font-semibold tabular-nums">{formatCountdown(remainingSeconds)}</div>
+              )}
+            </div>
+            <div className="flex justify-between">
+              <Button variant="ghost" size="sm" className="gap-1" onClick={onEnd}>
+                <Square className="h-3 w-3" fill="currentColor" />
+                End session
+              </Button>
+              {isOnBreak && (
+                <Button size="sm" className="gap-1" onClick={onResume}>
+                  <Play className="h-3 w-3" />
+                  {focusSession.phase === 'break' ? 'Skip break' : 'Next session'}
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <div className="text-sm font-medium">Focus mode</div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Work (min)</Label>
+                <Input type="number" min={1} value={settings.workMinutes} onChange={updateMinutes('workMinutes')} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Break (min)</Label>
+                <Input type="number" min={1} value={settings.breakMinutes} onChange={updateMinutes('breakMinutes')} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Long break (min)</Label>
+                <Input type="number" min={1} value={settings.longBreakMinutes} onChange={updateMinutes('longBreakMinutes')} className="h-8" />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Long break every</Label>
+                <Input type="number" min={1} value={settings.sessionsBeforeLongBreak} onChange={updateMinutes('sessionsBeforeLongBreak')} className="h-8" />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="focus-log-breaks" className="text-xs">Log breaks in the calendar</Label>
+              <Switch
+                id="focus-log-breaks"
+                checked={settings.autoLogBreaks}
+                onCheckedChange={checked => setSettings(prev => ({ ...prev, autoLogBreaks: checked }))}
+              />
+            </div>
+            <Button size="sm" className="w-full gap-1" onClick={handleStart} disabled={isTimeTracking}>
+              <Play className="h-3 w-3" />
+              Start focus session
+            </Button>
+            {isTimeTracking && (
+              <p className="text-xs text-muted-foreground">Stop the running timer to start a focus session.</p>
+            )}
+          </div>
+        )}
+        {todayCounts.length > 0 && (
+          <div className="border-t pt-3 space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">Focus sessions today</div>
+            {todayCounts.map(({ project, count }) => (
+              <div key={project!.id} className="flex items-center justify-between text-sm">
+                <span className="flex items-center gap-2 min-w-0">
+                  <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: project!.color }} />
+                  <span className="truncate">{project!.name}</span>
+                </span>
+                <span className="tabular-nums">{count}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { StandardModal } from '@/presentation/components/modals/StandardModal';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Label } from '@/presentation/components/shadcn/label';
+import { Checkbox } from '@/presentation/components/shadcn/checkbox';
+import { RadioGroup, RadioGroupItem } from '@/presentation/components/shadcn/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import type { Project } from '@/shared/types/core';
+import {
+  mergeSegments,
+  splitSessionAt,
+  validateSessionSegments,
+  type IdleResolution,
+  type IdleSpan,
+  type SessionSegment,
+  type SessionSpan
+} from '@/domain/rules/time-tracking/SessionAdjustment';
+import { formatTime, formatTimeForValidation } from '@/presentation/utils/timeCalculations';
+
+const DISCARD_VALUE = '__discard__';
+
+const formatMinutes = (start: Date, end: Date): string => {
+  const minutes = Math.round((end.getTime() - start.getTime()) / 60000);
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+// "HH:mm" on the day of `after`, rolled to the next day when earlier than `after`
+const parseTimeAfter = (value: string, after: Date): Date | null => {
+  const [hours, minutes] = value.split(':').map(Number);
+  if (!Number.isFinite(hours) || !Number.isFinite(minutes)) return null;
+  const time = new Date(after);
+  time.setHours(hours, minutes, 0, 0);
+  if (time < after) time.setDate(time.getDate() + 1);
+  return time;
+};
+
+function ProjectSelect({ value, projects, allowDiscard, onChange }: {
+  value: string | null;
+  projects: Project[];
+  allowDiscard?: boolean;
+  onChange: (projectId: string | null) => void;
+}) {
+  return (
+    <Select value={value ?? DISCARD_VALUE} onValueChange={v => onChange(v === DISCARD_VALUE ? null : v)}>
+      <SelectTrigger className="h-8">
+        <SelectValue placeholder="Choose a project" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowDiscard && <SelectItem value={DISCARD_VALUE}>Discard</SelectItem>}
+        {projects.map(project => (
+          <SelectItem key={project.id} value={project.id}>
+            <span className="flex items-center gap-2">
+              <span className="w-2 h-2 rounded-full" style={{ backgroundColor: project.color }} />
+              {project.name}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface IdleModeProps {
+  mode: 'idle';
+  idle: IdleSpan;
+  projectName: string;
+  onResolve: (resolution: IdleResolution, options: { reassignProjectId?: string; resume: boolean }) => void;
+}
+
+interface SplitModeProps {
+  mode: 'split';
+  session: SessionSpan;
+  onApply: (segments: SessionSegment[]) => void;
+}
+
+type SessionAdjustmentDialogProps = (IdleModeProps | SplitModeProps) & {
+  isOpen: boolean;
+  onClose: () => void;
+  projects: Project[];
+};
+
+/**
+ * Correct tracked time: resolve idle time on return, or split a finished
+ * session into project segments
+ */
+export function SessionAdjustmentDialog(props: SessionAdjustmentDialogProps) {
+  const { isOpen, onClose, projects } = props;
+
+  // Idle mode
+  const [resolution, setResolution] = useState<IdleResolution>('discard');
+  const [reassignProjectId, setReassignProjectId] = useState<string | null>(null);
+  const [resume, setResume] = useState(true);
+
+  // Split mode
+  const [segments, setSegments] = useState<SessionSegment[]>([]);
+
+  const session = props.mode === 'split' ? props.session : null;
+  useEffect(() => {
+    if (isOpen && session) {
+      setSegments(splitSessionAt(session, []));
+    }
+    if (isOpen) {
+      setResolution('discard');
+      setReassignProjectId(null);
+      setResume(true);
+    }
+    // Reset only when the dialog opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  if (props.mode === 'idle') {
+    const { idle, projectName, onResolve } = props;
+    const canApply = resolution !== 'reassign' || !!reassignProjectId;
+
+    return (
+      <StandardModal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="You were away"
+        description={`No activity from ${formatTime(idle.startTime)} to ${formatTime(idle.endTime)} (${formatMinutes(idle.startTime, idle.endTime)}) while tracking ${projectName}.`}
+        primaryAction={{
+          label: 'Confirm',
+          onClick: () => onResolve(resolution, { reassignProjectId: reassignProjectId ?? undefined, resume }),
+          disabled: !canApply
+        }}
+        secondaryAction={{ label: 'Cancel', onClick: onClose }}
+      >
+        <div className="space-y-4">
+          <RadioGroup value={resolution} onValueChange={value => setResolution(value as IdleResolution)} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="keep" id="idle-keep" />
+              <Label htmlFor="idle-keep">Keep the idle time</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="discard" id="idle-discard" />
+              <Label htmlFor="idle-discard">Discard the idle time</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="reassign" id="idle-reassign" />
+              <Label htmlFor="idle-reassign">Assign the idle time to another project</Label>
+            </div>
+          </RadioGroup>
+          {resolution === 'reassign' && (
+            <ProjectSelect value={reassignProjectId} projects={projects} onChange={setReassignProjectId} />
+          )}
+          {resolution !== 'keep' && (
+            <div className="flex items-center gap-2">
+              <Checkbox id="idle-resume" checked={resume} onCheckedChange={checked => setResume(checked === true)} />
+              <Label htmlFor="idle-resume">Continue tracking {projectName} from now</Label>
+            </div>
+          )}
+        </div>
+      </StandardModal>
+    );
+  }
+
+  const { onApply } = props;
+  const validation = validateSessionSegments(props.session, segments);
+
+  const updateSegment = (index: number, changes: Partial<SessionSegment>) => {
+    setSegments(prev => prev.map((segment, i) => {
+      if (i === index) return { ...segment, ...changes };
+      // Keep segments back to back when an end time moves
+      if (i === index + 1 && changes.endTime) return { ...segment, startTime: changes.endTime };
+      return segment;
+    }));
+  };
+
+  const addSplit = () => {
+    setSegments(prev => {
+      const last = prev[prev.length - 1];
+      const middle = new Date((last.startTime.getTime() + last.endTime.getTime()) / 2);
+      middle.setSeconds(0, 0);
+      return [...prev.slice(0, -1), ...splitSessionAt({ ...last, projectId: last.projectId ?? undefined }, [middle])];
+    });
+  };
+
+  const removeSegment = (index: number) => {
+    // The removed segment's time goes to the one before it
+    setSegments(prev => prev
+      .map((segment, i) => (i === index - 1 ? { ...segment, endTime: prev[index].endTime } : segment))
+      .filter((_, i) => i !== index));
+  };
+
+  return (
+    <StandardModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Split tracked time"
+      description={`${formatTime(props.session.startTime)} – ${formatTime(props.session.endTime)} (${formatMinutes(props.session.startTime, props.session.endTime)})`}
+      size="md"
+      primaryAction={{
+        label: 'Save',
+        onClick: () => onApply(mergeSegments(segments)),
+        disabled: !validation.isValid
+      }}
+      secondaryAction={{ label: 'Cancel', onClick: onClose }}
+    >
+      <div className="space-y-2">
+        {segments.map((segment, index) => {
+          const isLast = index === segments.length - 1;
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-sm tabular-nums text-muted-foreground w-16">{formatTime(segment.startTime)}</span>
+              <span className="text-muted-foreground">–</span>
+              {isLast ? (
+                <span className="text-sm tabular-nums w-28">{formatTime(segment.endTime)}</span>
+              ) : (
+                <Input
+                  type="time"
+                  className="h-8 w-28"
+                  value={formatTimeForValidation(segment.endTime)}
+                  onChange={e => {
+                    const endTime = parseTimeAfter(e.target.value, segment.startTime);
+                    if (endTime) updateSegment(index, { endTime });
+                  }}
+                />
+              )}
+              <div className="flex-1">
+                <ProjectSelect
+                  value={segment.projectId}
+                  projects={projects}
+                  allowDiscard
+                  onChange={projectId => updateSegment(index, { projectId })}
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                onClick={() => removeSegment(index)}
+                disabled={index === 0}
+                title="Merge into the previous segment"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          );
+        })}
+        <Button variant="ghost" size="sm" className="gap-1" onClick={addSplit}>
+          <Plus className="h-4 w-4" />
+          Add split
+        </Button>
+        {!validation.isValid && segments.length > 0 && (
+          <p className="text-sm text-destructive">{validation.errors[0]}</p>
+        )}
+      </div>
+    </StandardModal>
+  );
+}
@@ -23,7 +23,12 @@ import type { TrackingState } from '@/infrastructure/errors/TimeTrackerStorage';
 import type { TimeTrackerWorkflowContext } from '@/application/orchestrators/timeTrackingOrchestrator';
 import { supabase } from '@/infrastructure/database/client'; // Used for event existence check in DB sync
 import { ConflictDialog } from './ConflictDialog';
-import type { TimeTrackingState } from '@/shared/types/timeTracking';
+import { FocusModeControls } from './FocusModeControls';
+import { SessionAdjustmentDialog } from './SessionAdjustmentDialog';
+import { useIdleDetection } from '@/presentation/hooks/ui/useIdleDetection';
+import type { IdleResolution, IdleSpan } from '@/domain/rules/time-tracking/SessionAdjustment';
+import type { FocusSettings, TimeTrackingState } from '@/shared/types/timeTracking';
+import { getFocusPhaseEnd, getFocusRemainingSeconds, isFocusPhaseComplete } from '@/domain/rules/time-tracking/FocusSession';
 import { toast } from '@/presentation/hooks/ui/use-toast';
 import { ProjectModal } from '@/presentation/components/modals/ProjectModal';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
@@ -36,7 +41,7 @@ interface TimeTrackerProps {
 export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fadeBorder = false }: TimeTrackerProps) {
   const { projects, groups } = useProjectContext();
   const { events: rawEvents, addEvent: addEventRaw, updateEvent: updateEventRaw, deleteEvent: deleteEventRaw } = useEvents();
-  const { isTimeTracking, setIsTimeTracking, currentTrackingEventId, setCurrentTrackingEventId: setGlobalTrackingEventId } = useSettingsContext();
+  const { isTimeTracking, setIsTimeTracking, currentTrackingEventId, setCurrentTrackingEventId: setGlobalTrackingEventId, focusSession } = useSettingsContext();
   const { clients } = useClients();
 
   // Transform raw database events to UI format
@@ -52,6 +57,7 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
     duration: e.duration,
     category: (e.category || 'event') as 'event' | 'habit' | 'task',
     type: (e.event_type || 'planned') as 'planned' | 'tracked' | 'completed',
+    focusSession: e.focus_session ?? false,
     recurringGroupId: e.recurring_group_id || undefined
   }));
 
@@ -67,7 +73,8 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
       completed: eventData.completed ?? false,
       duration: eventData.duration,
       category: eventData.category || 'event',
-      event_type: eventData.type || 'tracked'
+      event_type: eventData.type || 'tracked',
+      focus_session: eventData.focusSession ?? false
     }, { silent: true });
     // Transform the result back to CalendarEvent format
     return result ? {
@@ -81,7 +88,8 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
       completed: result.completed ?? false,
       duration: result.duration,
       category: (result.category || 'event') as 'event' | 'habit' | 'task',
-      type: (result.event_type || 'planned') as 'planned' | 'tracked' | 'completed'
+      type: (result.event_type || 'planned') as 'planned' | 'tracked' | 'completed',
+      focusSession: result.focus_session ?? false
     } : undefined;
   };
 
@@ -121,6 +129,9 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
   const [showConflictDialog, setShowConflictDialog] = useState(false);
   const [conflictingSession, setConflictingSession] = useState<TimeTrackingState | null>(null);
   const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
+  const [focusRemainingSeconds, setFocusRemainingSeconds] = useState(0);
+  const [idleSpan, setIdleSpan] = useState<IdleSpan | null>(null);
+  const isAdvancingFocusRef = useRef(false); // Phase change in flight - don't advance twice
   const intervalRef = useRef<NodeJS.Timeout | null>(null); // UI timer (1s)
   const dbSyncIntervalRef = useRef<NodeJS.Timeout | null>(null); // DB sync (30s)
   const startTimeRef = useRef<Date | null>(null);
@@ -589,6 +600,142 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
       setAffectedPlannedEvents([]);
     }
   };
+  const createWorkflowContext = (): TimeTrackerWorkflowContext => ({
+    selectedProject,
+    searchQuery,
+    addEvent,
+    setCurrentEventId,
+    setIsTimeTracking,
+    setSeconds,
+    setSelectedProject,
+    setSearchQuery,
+    startTimeRef,
+    intervalRef,
+    dbSyncIntervalRef,
+    currentStateRef,
+    updateEvent,
+    deleteEvent
+  });
+  // Focus mode (pomodoro): work intervals are tracked, breaks auto-pause tracking
+  const handleStartFocus = async (settings: FocusSettings): Promise<boolean> => {
+    if (!selectedProject) {
+      setShowSearchDropdown(true);
+      toast({ title: "Pick a project", description: "Choose what you'll focus on first." });
+      return false;
+    }
+    const activeSession = await timeTrackingOrchestrator.checkForConflict();
+    if (activeSession) {
+      setConflictingSession(activeSession);
+      setShowConflictDialog(true);
+      return false;
+    }
+    const result = await timeTrackingOrchestrator.startFocusWorkflow(createWorkflowContext(), settings);
+    if (!result.success) {
+      toast({ title: "Couldn't start focus session", description: result.error, variant: "destructive" });
+      return false;
+    }
+    if (result.eventId) {
+      setGlobalTrackingEventId(result.eventId);
+      startOptimizedIntervals(result.eventId, startTimeRef.current || new Date());
+    }
+    return true;
+  };
+  const handleResumeFocus = async () => {
+    const result = await timeTrackingOrchestrator.resumeFocusWorkflow(createWorkflowContext());
+    if (!result.success) {
+      toast({ title: "Couldn't resume focus session", description: result.error, variant: "destructive" });
+      return;
+    }
+    if (result.eventId) {
+      setGlobalTrackingEventId(result.eventId);
+      startOptimizedIntervals(result.eventId, startTimeRef.current || new Date());
+    }
+  };
+  const handleEndFocus = async () => {
+    // Stopping a running work interval ends the session too
+    if (isTimeTracking) {
+      await handleToggleTracking();
+      return;
+    }
+    const result = await timeTrackingOrchestrator.endFocusWorkflow(addEvent);
+    if (!result.success) {
+      toast({ title: "Couldn't end focus session", description: result.error, variant: "destructive" });
+    }
+  };
+  const advanceFocusPhase = async () => {
+    if (!focusSession || isAdvancingFocusRef.current) return;
+    isAdvancingFocusRef.current = true;
+    try {
+      if (focusSession.phase === 'work') {
+        const trackedFrom = startTimeRef.current;
+        const stopTime = getFocusPhaseEnd(focusSession);
+        const result = await timeTrackingOrchestrator.completeFocusWorkWorkflow(createWorkflowContext());
+        if (!result.success) {
+          ErrorHandlingService.handle(result.error, { source: 'TimeTracker', action: 'Failed to complete focus interval:' });
+          return;
+        }
+        // The stop clears the state ref; if it is still set another window advanced the session
+        if (trackedFrom && stopTime && !currentStateRef.current) {
+          setGlobalTrackingEventId(null);
+          handlePlannedEventOverlapsCallback(trackedFrom, stopTime);
+          setAffectedPlannedEvents([]);
+        }
+        toast({ title: "Time for a break", description: `Focus session ${focusSession.completedSessions + 1} done.` });
+      } else if (focusSession.phase === 'break') {
+        await timeTrackingOrchestrator.completeFocusBreakWorkflow(addEvent);
+        toast({ title: "Break over", description: "Start the next focus session when you're ready." });
+      }
+    } finally {
+      isAdvancingFocusRef.current = false;
+    }
+  };
+  // Tick the focus countdown; every window may advance, only the first conditional write to the synced state wins
+  useEffect(() => {
+    if (!focusSession) {
+      setFocusRemainingSeconds(0);
+      return;
+    }
+    const tick = () => {
+      setFocusRemainingSeconds(getFocusRemainingSeconds(focusSession));
+      if (isFocusPhaseComplete(focusSession)) {
+        advanceFocusPhase();
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+    // advanceFocusPhase reads the latest state through refs; restart only when the session changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusSession]);
+  // Idle detection: on return, ask what to do with the time away before it is written as tracked time
+  useIdleDetection({
+    enabled: isTimeTracking && !idleSpan,
+    trackingStart: startTimeRef.current,
+    onIdle: setIdleSpan
+  });
+  const handleResolveIdle = async (resolution: IdleResolution, options: { reassignProjectId?: string; resume: boolean }) => {
+    const idle = idleSpan;
+    setIdleSpan(null);
+    if (!idle || resolution === 'keep') return;
+    const trackedFrom = startTimeRef.current;
+    const result = await timeTrackingOrchestrator.resolveIdleWorkflow(createWorkflowContext(), idle, resolution, {
+      reassignProject: projects.find(p => p.id === options.reassignProjectId) ?? null,
+      resume: options.resume
+    });
+    if (!result.success) {
+      toast({ title: "Couldn't adjust idle time", description: result.error, variant: "destructive" });
+      return;
+    }
+    // Planned events only give way to the time actually worked
+    if (trackedFrom && idle.startTime > trackedFrom) {
+      handlePlannedEventOverlapsCallback(trackedFrom, idle.startTime);
+    }
+    setAffectedPlannedEvents([]);
+    setGlobalTrackingEventId(result.eventId ?? null);
+    if (result.eventId) {
+      startOptimizedIntervals(result.eventId, startTimeRef.current || new Date());
+    }
+  };
   // Handle click outside to close dropdown
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -761,6 +908,16 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
                 </div>
               )}
             </div>
+            <FocusModeControls
+              focusSession={focusSession}
+              remainingSeconds={focusRemainingSeconds}
+              isTimeTracking={isTimeTracking && !focusSession}
+              events={events}
+              projects={projects}
+              onStart={handleStartFocus}
+              onResume={handleResumeFocus}
+              onEnd={handleEndFocus}
+            />
             {/* Timer Display */}
             <div className="text-lg font-semibold tabular-nums text-foreground min-w-[5.5rem] text-center">
               {formatTime(seconds)}
@@ -784,6 +941,17 @@ export function TimeTracker({ className, isExpanded = true, onToggleExpanded, fa
               )}
             </Button>
           </div>
+          {idleSpan && (
+            <SessionAdjustmentDialog
+              mode="idle"
+              isOpen={!!idleSpan}
+              onClose={() => setIdleSpan(null)}
+              idle={idleSpan}
+              projectName={selectedProject?.name || searchQuery || 'this project'}
+              projects={projects}
+              onResolve={handleResolveIdle}
+            />
+          )}
           {conflictingSession && (
             <ConflictDialog
               isOpen={showConflictDialog}
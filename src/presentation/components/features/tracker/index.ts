@@ -2,3 +2,5 @@
 export { TimeTracker } from './TimeTracker';
 export { TimeTrackerBookmark } from './TimeTrackerBookmark';
 export { ConflictDialog } from './ConflictDialog';
+export { FocusModeControls } from './FocusModeControls';
+export { SessionAdjustmentDialog } from './SessionAdjustmentDialog';
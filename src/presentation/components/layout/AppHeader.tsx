@@ -5,20 +5,11 @@ import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { Button } from '../shadcn/button';
 import { Menu } from 'lucide-react';
-
-import { CalendarEvent } from '@/shared/types';
-
-type LastAction = {
-  type: 'update' | 'create' | 'delete';
-  eventId: string;
-  previousState?: Partial<CalendarEvent>;
-  event?: CalendarEvent;
-};
+import { HistoryPanel } from './HistoryPanel';
 
 interface AppHeaderProps {
   currentView: string;
   viewTitle: string;
-  lastAction?: LastAction;
   isTrackerExpanded?: boolean;
   onToggleTracker?: () => void;
   setMobileMenuOpen: (open: boolean) => void;
@@ -27,7 +18,6 @@ interface AppHeaderProps {
 export function AppHeader({ 
   currentView, 
   viewTitle, 
-  lastAction,
   isTrackerExpanded = false,
   onToggleTracker,
   setMobileMenuOpen
@@ -105,8 +95,11 @@ export function AppHeader({
           <h1 className="text-lg font-semibold text-foreground">{viewTitle}</h1>
         </div>
         
-        {/* Desktop TimeTracker */}
-        {!isTablet && <TimeTracker />}
+        <div className="flex items-center gap-4">
+          <HistoryPanel />
+          {/* Desktop TimeTracker */}
+          {!isTablet && <TimeTracker />}
+        </div>
       </div>
     </>
   );
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/presentation/components/shadcn/popover';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Undo2, Redo2, History } from 'lucide-react';
+import { useCommandHistory } from '@/presentation/hooks/ui/useCommandHistory';
+import { formatTime } from '@/presentation/utils/timeCalculations';
+
+/**
+ * Undo/redo buttons with a popover listing the shared command history
+ *
+ * Clicking a past entry undoes everything back to and including it;
+ * clicking an undone entry redoes everything up to and including it.
+ */
+export function HistoryPanel() {
+  const { undoStack, redoStack, canUndo, canRedo, isReplaying, undo, redo, undoTo, redoTo } = useCommandHistory();
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Newest first in both lists
+  const pastEntries = [...undoStack].reverse();
+  const undoneEntries = [...redoStack].reverse();
+
+  return (
+    <div className="flex items-center gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={!canUndo}
+        onClick={() => undo()}
+        title="Undo (Cmd+Z)"
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0"
+        disabled={!canRedo}
+        onClick={() => redo()}
+        title="Redo (Cmd+Shift+Z)"
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-8 p-0" title="History">
+            <History className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-2" align="end">
+          {pastEntries.length === 0 && undoneEntries.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-muted-foreground">No changes yet</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {undoneEntries.length > 0 && (
+                <>
+                  <p className="px-3 pt-1 text-xs font-medium text-muted-foreground">Undone</p>
+                  {undoneEntries.map(entry => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      disabled={isReplaying}
+                      onClick={() => redoTo(entry.id)}
+                      className="w-full flex items-center justify-between px-3 py-1.5 rounded-md text-sm text-muted-foreground line-through hover:bg-accent disabled:opacity-50"
+                    >
+                      <span className="truncate">{entry.label}</span>
+                      <span className="ml-2 text-xs shrink-0">{formatTime(entry.timestamp)}</span>
+                    </button>
+                  ))}
+                </>
+              )}
+              {pastEntries.length > 0 && (
+                <>
+                  <p className="px-3 pt-1 text-xs font-medium text-muted-foreground">Changes</p>
+                  {pastEntries.map(entry => (
+                    <button
+                      key={entry.id}
+                      type="button"
+                      disabled={isReplaying}
+                      onClick={() => undoTo(entry.id)}
+                      className="w-full flex items-center justify-between px-3 py-1.5 rounded-md text-sm hover:bg-accent disabled:opacity-50"
+                    >
+                      <span className="truncate">{entry.label}</span>
+                      <span className="ml-2 text-xs text-muted-foreground shrink-0">{formatTime(entry.timestamp)}</span>
+                    </button>
+                  ))}
+                </>
+              )}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -3,7 +3,12 @@ import { Sidebar } from './Sidebar';
 import { AppHeader } from './AppHeader';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { ScenarioScope } from '@/presentation/contexts/ScenarioContext';
 import { useFavicon } from '@/presentation/hooks/ui/useFavicon';
+import { useUndoRedoShortcuts } from '@/presentation/hooks/ui/useCommandHistory';
+import { useOfflineSyncLifecycle } from '@/presentation/hooks/ui/useOfflineSync';
+import { useCalendarSubscriptionSync } from '@/presentation/hooks/calendar/useCalendarSubscriptionSync';
+import { usePublicHolidaySync } from '@/presentation/hooks/data/usePublicHolidaySync';
 
 // Lazy load views for better performance
 const PlannerView = React.lazy(() => import('../views/PlannerView').then(module => ({ default: module.PlannerView })));
@@ -40,8 +45,6 @@ const ViewLoader = () => (
 export function MainAppLayout() {
   const { currentView } = useTimelineContext();
   const { isTimeTracking } = useSettingsContext();
-  // Note: lastAction removed since undo is handled in PlannerView
-  const lastAction = null;
   const [isTrackerExpanded, setIsTrackerExpanded] = useState(false);
   const [isTablet, setIsTablet] = useState(false);
   const [isMobile, setIsMobile] = useState(false);
@@ -52,6 +55,18 @@ export function MainAppLayout() {
   
   // Use favicon hook to monitor global time tracking state
   useFavicon(isTimeTracking);
+
+  // Keep ICS feed subscriptions up to date in the background
+  useCalendarSubscriptionSync();
+
+  // Add each new year's public holidays for an imported calendar
+  usePublicHolidaySync();
+
+  // App-wide undo/redo (Cmd+Z / Cmd+Shift+Z)
+  useUndoRedoShortcuts();
+
+  // Replay changes made offline when the connection is back
+  useOfflineSyncLifecycle();
   
   // Detect mobile and tablet sizes
   useEffect(() => {
@@ -86,7 +101,11 @@ export function MainAppLayout() {
   const renderCurrentView = () => {
     switch (currentView) {
       case 'timeline':
-        return <TimelineView mainSidebarCollapsed={mainSidebarCollapsed} />;
+        return (
+          <ScenarioScope>
+            <TimelineView mainSidebarCollapsed={mainSidebarCollapsed} />
+          </ScenarioScope>
+        );
       case 'calendar':
         return <PlannerView />;
       case 'insights':
@@ -132,7 +151,6 @@ export function MainAppLayout() {
           <AppHeader 
             currentView={currentView}
             viewTitle={getViewTitle()}
-            lastAction={lastAction}
             isTrackerExpanded={isTrackerExpanded}
             onToggleTracker={() => setIsTrackerExpanded(!isTrackerExpanded)}
             setMobileMenuOpen={setMobileMenuOpen}
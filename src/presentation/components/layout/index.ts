@@ -2,3 +2,4 @@ export { AppPageLayout } from './AppPageLayout';
 export { Sidebar } from './Sidebar';
 export { MainAppLayout } from './MainAppLayout';
 export { AppHeader } from './AppHeader';
+export { HistoryPanel } from './HistoryPanel';
@@ -9,7 +9,9 @@ import { Badge } from '../shadcn/badge';
 import { Card, CardContent } from '../shadcn/card';
 import { Building2, Folder, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
-import type { Client } from '@/shared/types/core';
+import type { BillingRate, Client } from '@/shared/types/core';
+import { BillingRateInput } from '../shared';
+import { DEFAULT_CURRENCY, isValidCurrencyCode } from '@/domain/rules/projects/ProjectRevenue';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 
 interface ClientModalProps {
@@ -24,6 +26,8 @@ export function ClientModal({ isOpen, onClose, clientId }: ClientModalProps) {
   const { toast } = useToast();
 
   const [localName, setLocalName] = useState('');
+  const [localCurrency, setLocalCurrency] = useState(DEFAULT_CURRENCY);
+  const [localRate, setLocalRate] = useState<BillingRate | undefined>(undefined);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
@@ -40,8 +44,12 @@ export function ClientModal({ isOpen, onClose, clientId }: ClientModalProps) {
   useEffect(() => {
     if (client) {
       setLocalName(client.name);
+      setLocalCurrency(client.currency ?? DEFAULT_CURRENCY);
+      setLocalRate(client.defaultRate);
     } else if (isOpen && isCreating) {
       setLocalName('');
+      setLocalCurrency(DEFAULT_CURRENCY);
+      setLocalRate(undefined);
     }
   }, [client, isOpen, isCreating]);
 
@@ -56,10 +64,23 @@ export function ClientModal({ isOpen, onClose, clientId }: ClientModalProps) {
       return;
     }
 
+    if (!isValidCurrencyCode(localCurrency)) {
+      toast({
+        title: "Error",
+        description: "Currency must be a 3-letter code such as USD or EUR",
+        variant: "destructive"
+      });
+      return;
+    }
+
     setIsSubmitting(true);
     try {
       if (isCreating) {
-        const createdClient = await addClient({ name: localName.trim() });
+        const createdClient = await addClient({
+          name: localName.trim(),
+          currency: localCurrency,
+          defaultRate: localRate
+        });
         if (!createdClient) {
           // Validation failed - error toast already shown by useClients
           setIsSubmitting(false);
@@ -70,7 +91,11 @@ export function ClientModal({ isOpen, onClose, clientId }: ClientModalProps) {
           description: "Client created successfully"
         });
       } else if (client) {
-        await updateClient(client.id, { name: localName.trim() });
+        await updateClient(client.id, {
+          name: localName.trim(),
+          currency: localCurrency,
+          defaultRate: localRate
+        });
         toast({
           title: "Success",
           description: "Client updated successfully"
@@ -178,6 +203,32 @@ export function ClientModal({ isOpen, onClose, clientId }: ClientModalProps) {
             </div>
           </div>
 
+          {/* Billing Section */}
+          <div className="grid grid-cols-[6rem_1fr] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="client-currency" className="text-sm font-medium">
+                Currency
+              </Label>
+              <Input
+                id="client-currency"
+                value={localCurrency}
+                onChange={(e) => setLocalCurrency(e.target.value.toUpperCase().slice(0, 3))}
+                placeholder={DEFAULT_CURRENCY}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="client-rate" className="text-sm font-medium">
+                Default Rate
+              </Label>
+              <BillingRateInput
+                id="client-rate"
+                value={localRate}
+                onChange={setLocalRate}
+                currency={localCurrency}
+              />
+            </div>
+          </div>
+
           {/* Associated Projects Section - only show when editing */}
           {!isCreating && (
             <div className="space-y-3">
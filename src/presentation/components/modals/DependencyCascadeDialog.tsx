@@ -0,0 +1,58 @@
+import React from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/presentation/components/shadcn/alert-dialog';
+import { formatDate } from '@/presentation/utils/dateFormatUtils';
+import type { PendingDependencyCascade } from '@/presentation/hooks/timeline/useDependencyCascade';
+
+interface DependencyCascadeDialogProps {
+  cascade: PendingDependencyCascade | null;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export function DependencyCascadeDialog({
+  cascade,
+  onConfirm,
+  onClose
+}: DependencyCascadeDialogProps) {
+  const itemLabel = cascade?.kind === 'phase' ? 'phase' : 'project';
+  const count = cascade?.shifts.length ?? 0;
+
+  return (
+    <AlertDialog open={!!cascade} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Shift Dependent {itemLabel === 'phase' ? 'Phases' : 'Projects'}?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {count === 1 ? `One ${itemLabel} depends` : `${count} ${itemLabel}s depend`} on "{cascade?.predecessorName}" and would now start too early.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="space-y-1 text-sm">
+          {cascade?.shifts.map(shift => (
+            <li key={shift.id} className="flex justify-between gap-4">
+              <span className="truncate">{shift.name}</span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                +{shift.daysShifted} {shift.daysShifted === 1 ? 'day' : 'days'} · {formatDate(shift.startDate)}
+                {shift.endDate ? ` – ${formatDate(shift.endDate)}` : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onClose}>Keep Dates</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm}>
+            Shift {count === 1 ? itemLabel : `${count} ${itemLabel}s`}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -4,13 +4,14 @@ import { useEvents } from '@/presentation/hooks/data/useEvents';
 import { CalendarEvent } from '@/shared/types/core';
 import { calculateDurationHours, formatDuration, addHoursToDate } from '@/presentation/utils/dateCalculations';;
 import { calendarEventOrchestrator, type EventFormData, type EventFormErrors } from '@/application/orchestrators/CalendarEventOrchestrator';
+import type { HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
 import { Button } from '../shadcn/button';
 import { Input } from '../shadcn/input';
 import { Label } from '../shadcn/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../shadcn/select';
 import { Textarea } from '../shadcn/textarea';
 import { Checkbox } from '../shadcn/checkbox';
-import { Calendar as CalendarIcon, Clock, Repeat, Trash2, CheckCircle2, CalendarDays } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, Repeat, Trash2, CheckCircle2, CalendarDays, Scissors } from 'lucide-react';
 import { HABIT_ICON, TASK_ICON } from '@/presentation/constants/icons';
 import { Switch } from '../shadcn/switch';
 import { ToggleGroup, ToggleGroupItem } from '../shadcn/toggle-group';
@@ -22,6 +23,8 @@ import { StandardModal } from './StandardModal';
 import { ProjectSearchInput } from '../shared/ProjectSearchInput';
 import { ProjectModal } from './ProjectModal';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { SessionAdjustmentDialog } from '@/presentation/components/features/tracker/SessionAdjustmentDialog';
+import type { SessionSegment } from '@/domain/rules/time-tracking/SessionAdjustment';
 
 // Habit color constant
 const HABIT_BROWN_COLOR = OKLCH_HABIT_BROWN;
@@ -133,7 +136,7 @@ export function EventModal({
   }));
 
   // Wrapper functions to convert UI format to database format
-  const addEvent = async (eventData: Omit<CalendarEvent, 'id'>) => {
+  const addEvent = async (eventData: Omit<CalendarEvent, 'id'>, options?: HistoryRecordOptions) => {
     return addEventRaw({
       title: eventData.title,
       description: eventData.description || null,
@@ -150,10 +153,10 @@ export function EventModal({
       recurring_end_date: eventData.recurring?.endDate?.toISOString() || null,
       recurring_count: eventData.recurring?.count || null,
       recurring_group_id: eventData.recurringGroupId || null
-    }, { silent: true });
+    }, { ...options, silent: true });
   };
 
-  const updateEvent = async (id: string, updates: Partial<CalendarEvent>): Promise<void> => {
+  const updateEvent = async (id: string, updates: Partial<CalendarEvent>, options?: HistoryRecordOptions): Promise<void> => {
     const dbUpdates: Record<string, unknown> = {};
     if (updates.title !== undefined) dbUpdates.title = updates.title;
     if (updates.description !== undefined) dbUpdates.description = updates.description;
@@ -165,11 +168,11 @@ export function EventModal({
     if (updates.duration !== undefined) dbUpdates.duration = updates.duration;
     if (updates.category !== undefined) dbUpdates.category = updates.category;
     if (updates.type !== undefined) dbUpdates.event_type = updates.type;
-    await updateEventRaw(id, dbUpdates, { silent: true });
+    await updateEventRaw(id, dbUpdates, { ...options, silent: true });
   };
 
-  const deleteEvent = async (id: string) => {
-    return deleteEventRaw(id, { silent: true });
+  const deleteEvent = async (id: string, options?: HistoryRecordOptions) => {
+    return deleteEventRaw(id, { ...options, silent: true });
   };
 
   const [formData, setFormData] = useState<EventFormData>({
@@ -208,6 +211,7 @@ export function EventModal({
   const [isCreatingRecurring, setIsCreatingRecurring] = useState(false);
   const [isProjectModalOpen, setIsProjectModalOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isSplitDialogOpen, setIsSplitDialogOpen] = useState(false);
 
   const isEditing = !!eventId;
   let existingEvent = isEditing ? events.find(e => e.id === eventId) : null;
@@ -592,6 +596,28 @@ export function EventModal({
     }
   };
 
+  // Finished time tracking sessions can be split across projects
+  const canSplitSession = isEditing && existingEvent?.type === 'completed' && !existingEvent.recurring;
+
+  const handleSplitSession = async (segments: SessionSegment[]) => {
+    if (!existingEvent) return;
+
+    const result = await calendarEventOrchestrator.adjustTrackedSessionWorkflow(
+      existingEvent,
+      segments,
+      projects,
+      { addEvent, updateEvent, deleteEvent }
+    );
+
+    if (result.success) {
+      setIsSplitDialogOpen(false);
+      onClose();
+    } else if (result.errors) {
+      setErrors({ submit: result.errors.join(', ') });
+      setIsSplitDialogOpen(false);
+    }
+  };
+
   const selectedProject = formData.projectId ? projects.find(p => p.id === formData.projectId) : null;
 
   // Custom close handler to reset any ongoing operations
@@ -810,6 +836,13 @@ export function EventModal({
             </div>
           )}
 
+          {canSplitSession && (
+            <Button type="button" variant="ghost" size="sm" className="gap-2 -mt-2" onClick={() => setIsSplitDialogOpen(true)}>
+              <Scissors className="w-4 h-4" />
+              Split tracked time
+            </Button>
+          )}
+
           {/* Recurring Options */}
           <div className="space-y-3">
             <div className="flex items-center space-x-2">
@@ -1056,6 +1089,22 @@ export function EventModal({
         isRecurring={isRecurringEvent}
       />
 
+      {/* Split a finished tracking session across projects */}
+      {canSplitSession && existingEvent && (
+        <SessionAdjustmentDialog
+          mode="split"
+          isOpen={isSplitDialogOpen}
+          onClose={() => setIsSplitDialogOpen(false)}
+          session={{
+            startTime: new Date(existingEvent.startTime),
+            endTime: new Date(existingEvent.endTime),
+            projectId: existingEvent.projectId
+          }}
+          projects={projects}
+          onApply={handleSplitSession}
+        />
+      )}
+
       {/* Project Modal for adding new projects */}
       <ProjectModal
         isOpen={isProjectModalOpen}
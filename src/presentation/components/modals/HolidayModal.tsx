@@ -4,9 +4,10 @@ import { Button } from '../shadcn/button';
 import { Input } from '../shadcn/input';
 import { Label } from '../shadcn/label';
 import { Textarea } from '../shadcn/textarea';
+import { RadioGroup, RadioGroupItem } from '../shadcn/radio-group';
 import { Popover, PopoverContent, PopoverTrigger } from '../shadcn/popover';
 import { Calendar } from '../shadcn/calendar';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { useScenarioHolidays } from '@/presentation/contexts/ScenarioContext';
 import { StandardModal } from './StandardModal';
 import { HolidayOrchestrator } from '@/application/orchestrators/HolidayOrchestrator';
 
@@ -18,8 +19,13 @@ interface HolidayModalProps {
   defaultEndDate?: Date;
 }
 
+type HolidayAvailability = 'off' | 'fraction' | 'hours';
+
+const DEFAULT_PARTIAL_PERCENT = 50;
+const DEFAULT_AVAILABLE_HOURS = 4;
+
 export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, defaultEndDate }: HolidayModalProps) {
-  const { holidays, addHoliday, updateHoliday, deleteHoliday } = useHolidays();
+  const { holidays, addHoliday, updateHoliday, deleteHoliday } = useScenarioHolidays();
   
   // Find the holiday if editing
   const existingHoliday = holidayId ? holidays.find(h => h.id === holidayId) : null;
@@ -30,6 +36,9 @@ export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, def
   const [startDate, setStartDate] = useState<Date>();
   const [endDate, setEndDate] = useState<Date>();
   const [notes, setNotes] = useState('');
+  const [availability, setAvailability] = useState<HolidayAvailability>('off');
+  const [partialPercent, setPartialPercent] = useState(DEFAULT_PARTIAL_PERCENT);
+  const [availableHours, setAvailableHours] = useState(DEFAULT_AVAILABLE_HOURS);
 
   // Format date for display
   const formatDate = (date: Date) => {
@@ -83,6 +92,13 @@ export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, def
       setStartDate(existingHoliday.startDate);
       setEndDate(existingHoliday.endDate);
       setNotes(existingHoliday.notes || '');
+      setAvailability(
+        existingHoliday.availableHours ? 'hours' : existingHoliday.capacityFraction ? 'fraction' : 'off'
+      );
+      setPartialPercent(
+        existingHoliday.capacityFraction ? Math.round(existingHoliday.capacityFraction * 100) : DEFAULT_PARTIAL_PERCENT
+      );
+      setAvailableHours(existingHoliday.availableHours || DEFAULT_AVAILABLE_HOURS);
     } else {
       // Default values for new holiday
       setTitle('Holiday');
@@ -99,6 +115,9 @@ export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, def
       }
       
       setNotes('');
+      setAvailability('off');
+      setPartialPercent(DEFAULT_PARTIAL_PERCENT);
+      setAvailableHours(DEFAULT_AVAILABLE_HOURS);
     }
   }, [isEditing, existingHoliday, isOpen, defaultStartDate, defaultEndDate]);
 
@@ -112,7 +131,9 @@ export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, def
       title: title.trim(),
       startDate,
       endDate,
-      notes: notes.trim()
+      notes: notes.trim(),
+      capacityFraction: availability === 'fraction' ? partialPercent / 100 : undefined,
+      availableHours: availability === 'hours' ? availableHours : undefined
     };
 
     if (isEditing && holidayId) {
@@ -224,6 +245,58 @@ export function HolidayModal({ isOpen, onClose, holidayId, defaultStartDate, def
               </div>
             </div>
 
+            {/* Availability - a day off or a partial day */}
+            <div className="space-y-2">
+              <Label>Availability</Label>
+              <RadioGroup
+                value={availability}
+                onValueChange={value => setAvailability(value as HolidayAvailability)}
+                className="space-y-2"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="off" id="holiday-availability-off" />
+                  <Label htmlFor="holiday-availability-off" className="font-normal">Day off</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="fraction" id="holiday-availability-fraction" />
+                  <Label htmlFor="holiday-availability-fraction" className="font-normal">Work part of the day</Label>
+                  {availability === 'fraction' && (
+                    <div className="flex items-center gap-1 ml-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={99}
+                        value={partialPercent}
+                        onChange={(e) => setPartialPercent(Number(e.target.value))}
+                        className="w-20 h-8"
+                        aria-label="Percent of normal work hours"
+                      />
+                      <span className="text-sm text-gray-500">% of normal hours</span>
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="hours" id="holiday-availability-hours" />
+                  <Label htmlFor="holiday-availability-hours" className="font-normal">Reduced hours</Label>
+                  {availability === 'hours' && (
+                    <div className="flex items-center gap-1 ml-2">
+                      <Input
+                        type="number"
+                        min={0.25}
+                        max={24}
+                        step={0.25}
+                        value={availableHours}
+                        onChange={(e) => setAvailableHours(Number(e.target.value))}
+                        className="w-20 h-8"
+                        aria-label="Hours available per day"
+                      />
+                      <span className="text-sm text-gray-500">hours per day</span>
+                    </div>
+                  )}
+                </div>
+              </RadioGroup>
+            </div>
+
             {/* Notes Field */}
             <div className="space-y-2">
               <Label htmlFor="holiday-notes">Notes</Label>
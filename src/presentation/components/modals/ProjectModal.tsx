@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Calendar as CalendarIcon, Clock, User, Palette, Trash2, Info, ChevronDown, ChevronRight, Folder, Infinity as InfinityIcon, LineChart, StickyNote } from 'lucide-react';
+import { Calendar as CalendarIcon, Clock, User, Palette, Trash2, Info, ChevronDown, ChevronRight, Folder, Infinity as InfinityIcon, LineChart, StickyNote, Banknote, Link2 } from 'lucide-react';
 import { Input } from '../shadcn/input';
 import { Button } from '../shadcn/button';
 import { Label } from '../shadcn/label';
@@ -12,14 +12,17 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../sha
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../shadcn/select';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../shadcn/alert-dialog';
 import { RichTextEditor } from '../shadcn/rich-text-editor';
-import { ProjectPhaseSection, ProjectInsightsSection, ProjectNotesSection } from '@/presentation/components/features/project';
+import { ProjectPhaseSection, ProjectInsightsSection, ProjectNotesSection, ProjectBillingSection, ProjectDependenciesSection } from '@/presentation/components/features/project';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
 import { useEvents } from '@/presentation/hooks/data/useEvents';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { useProjectTasks } from '@/presentation/hooks/data/useProjectTasks';
+import { useDependencies } from '@/presentation/hooks/data/useDependencies';
+import { useScenarioHolidays } from '@/presentation/contexts/ScenarioContext';
 import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { ClientSearchInput } from '../shared';
 import { calculateProjectTimeMetrics } from '@/domain/rules/projects/ProjectMetrics';
+import { calculateBacklogHours } from '@/domain/rules/tasks/TaskBacklog';
 import { calculateAutoEstimateHoursPerDay, calculateTotalWorkingDays } from '@/domain/rules/projects/ProjectBudget';
 import { expandHolidayDates } from '@/domain/rules/holidays/HolidayCalculations';
 import { clearTimelineCache } from '@/domain/rules/availability/EventWorkHourIntegration';
@@ -50,11 +53,13 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
   // Debug: Identify which modal instance this is
   const modalType = projectId ? 'EDIT' : 'CREATE';
   dlog(`🔍 ${modalType} Modal render:`, { isOpen, projectId, groupId, rowId });
-  const { projects, groups, rows, updateProject, addProject, deleteProject, creatingNewProject, phases, addPhase, deletePhase } = useProjectContext();
+  const { projects, groups, rows, updateProject, addProject, deleteProject, creatingNewProject, phases, addPhase, updatePhase, deletePhase } = useProjectContext();
   type AddPhaseInput = Parameters<typeof addPhase>[0];
   const { setCurrentView } = useTimelineContext();
-  const { holidays } = useHolidays();
+  const { holidays } = useScenarioHolidays();
   const { events: rawEvents } = useEvents();
+  const { tasks } = useProjectTasks();
+  const { dependencies, addDependency, deleteDependency } = useDependencies();
   const { settings } = useSettingsContext();
   const { toast } = useToast();
 
@@ -121,7 +126,7 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   // State for tab navigation
-  const [activeTab, setActiveTab] = useState<'estimate' | 'progress' | 'notes'>('estimate');
+  const [activeTab, setActiveTab] = useState<'estimate' | 'progress' | 'billing' | 'dependencies' | 'notes'>('estimate');
   // State for collapsible sections (kept for backwards compatibility, but no longer used with tabs)
   const [isInsightsExpanded, setIsInsightsExpanded] = useState(false);
   const [isNotesExpanded, setIsNotesExpanded] = useState(true);
@@ -478,6 +483,11 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
   dlog('🎯 Closing modal after save');
     handleClose();
   }, [isCreating, handleCreateProject, handleClose, projectId, groupId, rowId, resolvedGroupId, resolvedRowId, dlog, toast, localValues, originalValues, updateProject]);
+  // Unscheduled task estimates count towards planned time
+  const backlogHours = useMemo(
+    () => (projectId ? calculateBacklogHours(tasks, events, projectId) : 0),
+    [tasks, events, projectId]
+  );
   // Calculate project time metrics using real data
   const metrics = useMemo(() => {
     const fallbackProject: Project = {
@@ -512,8 +522,8 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
         projectId: event.projectId!
       }));
 
-    return calculateProjectTimeMetrics(currentProject, projectEvents, holidays, new Date());
-  }, [project, localValues.name, localValues.client, localValues.startDate, localValues.endDate, localValues.estimatedHours, localValues.color, localValues.notes, localValues.icon, localValues.continuous, localValues.autoEstimateDays, groupId, rowId, events, holidays]);
+    return calculateProjectTimeMetrics(currentProject, projectEvents, holidays, new Date(), backlogHours);
+  }, [project, localValues.name, localValues.client, localValues.startDate, localValues.endDate, localValues.estimatedHours, localValues.color, localValues.notes, localValues.icon, localValues.continuous, localValues.autoEstimateDays, groupId, rowId, events, holidays, backlogHours]);
   // Special TimeMetric component for auto-estimate that shows daily breakdown
   const AutoEstimateTimeMetric = ({ 
     label, 
@@ -1260,6 +1270,26 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
               icon={<LineChart className="w-4 h-4" />}
               height={40}
             />
+            {!isCreating && (
+              <TabComponent
+                label="Billing"
+                value="billing"
+                isActive={activeTab === 'billing'}
+                onClick={() => setActiveTab('billing')}
+                icon={<Banknote className="w-4 h-4" />}
+                height={40}
+              />
+            )}
+            {!isCreating && (
+              <TabComponent
+                label="Dependencies"
+                value="dependencies"
+                isActive={activeTab === 'dependencies'}
+                onClick={() => setActiveTab('dependencies')}
+                icon={<Link2 className="w-4 h-4" />}
+                height={40}
+              />
+            )}
             <TabComponent
               label="Add Notes"
               value="notes"
@@ -1305,6 +1335,8 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
                       project={project}
                       events={events}
                       holidays={holidays}
+                      settings={settings}
+                      backlogHours={backlogHours}
                     />
                   </div>
                 )}
@@ -1315,7 +1347,7 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
                       label="Planned Time"
                       value={metrics.plannedTime}
                       showInfo={true}
-                      tooltip="Planned time is time that has been added to your calendar and connected to this project"
+                      tooltip="Planned time is time that has been added to your calendar and connected to this project, plus estimates of unscheduled tasks"
                       actionIcon={<CalendarIcon className="w-3 h-3" />}
                       onActionClick={() => {
                         setCurrentView('calendar');
@@ -1354,6 +1386,29 @@ export function ProjectModal({ isOpen, onClose, projectId, groupId, rowId }: Pro
                 </div>
               </div>
             )}
+            {/* Billing Tab */}
+            {activeTab === 'billing' && !isCreating && project && (
+              <ProjectBillingSection
+                project={project}
+                phases={phases.filter(phase => phase.projectId === project.id)}
+                events={events}
+                holidays={holidays}
+                settings={settings}
+                onProjectRateChange={(rate) => updateProject(project.id, { billingRate: rate }, { silent: true })}
+                onPhaseRateChange={(phaseId, rate) => updatePhase(phaseId, { billingRate: rate ?? null }, { silent: true })}
+              />
+            )}
+            {/* Dependencies Tab */}
+            {activeTab === 'dependencies' && !isCreating && project && (
+              <ProjectDependenciesSection
+                project={project}
+                projects={projects}
+                phases={phases}
+                dependencies={dependencies}
+                onAddDependency={(input) => addDependency(input, phases)}
+                onRemoveDependency={(dependency) => void deleteDependency(dependency)}
+              />
+            )}
             {/* Notes Tab */}
             {activeTab === 'notes' && (
               <div>
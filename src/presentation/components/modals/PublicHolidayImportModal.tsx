@@ -0,0 +1,193 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Label } from '../shadcn/label';
+import { Checkbox } from '../shadcn/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../shadcn/select';
+import { StandardModal } from './StandardModal';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { HolidayOrchestrator } from '@/application/orchestrators/HolidayOrchestrator';
+import { PUBLIC_HOLIDAY_CALENDARS, getPublicHolidayCalendar } from '@/domain/rules/holidays/PublicHolidays';
+import { getPublicHolidaySyncYears } from '@/presentation/hooks/data/usePublicHolidaySync';
+import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import type { Holiday } from '@/shared/types/core';
+
+interface PublicHolidayImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  holidays: Holiday[];
+  addHoliday: (holiday: Omit<Holiday, 'id'>, options?: { silent?: boolean }) => Promise<unknown>;
+}
+
+const NO_REGION = 'none';
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+export function PublicHolidayImportModal({ isOpen, onClose, holidays, addHoliday }: PublicHolidayImportModalProps) {
+  const { toast } = useToast();
+  const { settings } = useSettingsContext();
+  const storedCalendar = settings.publicHolidayCalendar ?? null;
+  const syncYears = getPublicHolidaySyncYears();
+
+  const [countryCode, setCountryCode] = useState(PUBLIC_HOLIDAY_CALENDARS[0].countryCode);
+  const [regionCode, setRegionCode] = useState<string>(NO_REGION);
+  const [years, setYears] = useState<number[]>([syncYears[0]]);
+  const [keepUpdated, setKeepUpdated] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Start from the calendar chosen last time
+  useEffect(() => {
+    if (!isOpen) return;
+    if (storedCalendar) {
+      setCountryCode(storedCalendar.countryCode);
+      setRegionCode(storedCalendar.regionCode ?? NO_REGION);
+    }
+    setKeepUpdated(true);
+  }, [isOpen, storedCalendar]);
+
+  const calendar = getPublicHolidayCalendar(countryCode);
+  const selection = useMemo(
+    () => ({ countryCode, regionCode: regionCode === NO_REGION ? undefined : regionCode }),
+    [countryCode, regionCode]
+  );
+  const plan = useMemo(
+    () => new HolidayOrchestrator(holidays).planPublicHolidayImport(selection, [...years].sort()),
+    [holidays, selection, years]
+  );
+
+  const toggleYear = (year: number, checked: boolean) => {
+    setYears(prev => (checked ? [...prev, year] : prev.filter(y => y !== year)));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    const orchestrator = new HolidayOrchestrator(holidays);
+    const result = await orchestrator.importPublicHolidaysWorkflow(
+      selection,
+      [...years].sort(),
+      (holiday, options) => addHoliday(holiday, { ...options, silent: true })
+    );
+
+    if (!result.success) {
+      setIsImporting(false);
+      toast({ title: 'Error', description: result.error, variant: 'destructive' });
+      return;
+    }
+
+    if (keepUpdated) {
+      // Years imported here are not generated again by the yearly sync
+      const isSameCalendar = storedCalendar?.countryCode === selection.countryCode && storedCalendar?.regionCode === selection.regionCode;
+      const importedYears = new Set([...(isSameCalendar ? storedCalendar.importedYears : []), ...years]);
+      await orchestrator.savePublicHolidayCalendarWorkflow({ ...selection, importedYears: [...importedYears].sort() });
+    } else if (storedCalendar) {
+      await orchestrator.savePublicHolidayCalendarWorkflow(null);
+    }
+    setIsImporting(false);
+
+    toast({
+      title: 'Public holidays imported',
+      description: `${result.created} added${result.skipped > 0 ? `, ${result.skipped} skipped (already a holiday)` : ''}`,
+    });
+    onClose();
+  };
+
+  return (
+    <StandardModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Public Holidays"
+      size="md"
+      primaryAction={{
+        label: plan.toCreate.length > 0 ? `Import ${plan.toCreate.length} Holidays` : 'Import',
+        onClick: handleImport,
+        disabled: years.length === 0 || (plan.toCreate.length === 0 && !keepUpdated),
+        loading: isImporting
+      }}
+      secondaryAction={{
+        label: 'Cancel',
+        onClick: onClose
+      }}
+    >
+      <div className="space-y-[21px]">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Country</Label>
+            <Select
+              value={countryCode}
+              onValueChange={value => {
+                setCountryCode(value);
+                setRegionCode(NO_REGION);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PUBLIC_HOLIDAY_CALENDARS.map(c => (
+                  <SelectItem key={c.countryCode} value={c.countryCode}>{c.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {calendar && calendar.regions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Region</Label>
+              <Select value={regionCode} onValueChange={setRegionCode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_REGION}>Nationwide only</SelectItem>
+                  {calendar.regions.map(region => (
+                    <SelectItem key={region.code} value={region.code}>{region.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Years</Label>
+          <div className="flex items-center gap-6">
+            {syncYears.map(year => (
+              <label key={year} className="flex items-center gap-2 text-sm">
+                <Checkbox checked={years.includes(year)} onCheckedChange={checked => toggleYear(year, checked === true)} />
+                {year}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm">
+          <Checkbox checked={keepUpdated} onCheckedChange={checked => setKeepUpdated(checked === true)} className="mt-0.5" />
+          <span>
+            Keep up to date
+            <span className="block text-gray-500">Add this calendar's holidays for each new year automatically</span>
+          </span>
+        </label>
+
+        <div className="space-y-2">
+          <Label>Preview</Label>
+          <div className="max-h-60 overflow-y-auto light-scrollbar rounded-md border border-gray-200 divide-y divide-gray-100 text-sm">
+            {plan.toCreate.length === 0 && plan.skipped.length === 0 && (
+              <p className="px-3 py-2 text-gray-500">No holidays for the selected years</p>
+            )}
+            {plan.toCreate.map(holiday => (
+              <div key={`${holiday.title}-${holiday.date.getTime()}`} className="flex justify-between gap-4 px-3 py-1.5">
+                <span>{holiday.title}</span>
+                <span className="text-gray-500 tabular-nums">{formatDate(holiday.date)}</span>
+              </div>
+            ))}
+            {plan.skipped.map(({ holiday, conflictTitle }) => (
+              <div key={`${holiday.title}-${holiday.date.getTime()}`} className="flex justify-between gap-4 px-3 py-1.5 text-gray-400">
+                <span className="line-through">{holiday.title}</span>
+                <span className="tabular-nums" title={`Overlaps "${conflictTitle}"`}>Skipped · {formatDate(holiday.date)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </StandardModal>
+  );
+}
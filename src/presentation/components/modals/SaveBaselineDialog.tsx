@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/presentation/components/shadcn/alert-dialog';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Input } from '@/presentation/components/shadcn/input';
+import { Label } from '@/presentation/components/shadcn/label';
+
+interface SaveBaselineDialogProps {
+  isOpen: boolean;
+  projectCount: number;
+  onSave: (name: string) => Promise<boolean>;
+  onClose: () => void;
+}
+
+export function SaveBaselineDialog({
+  isOpen,
+  projectCount,
+  onSave,
+  onClose
+}: SaveBaselineDialogProps) {
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start with an empty name every time the dialog opens
+  useEffect(() => {
+    if (isOpen) setName('');
+  }, [isOpen]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || isSaving) return;
+    setIsSaving(true);
+    const saved = await onSave(name);
+    setIsSaving(false);
+    if (saved) onClose();
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Save Baseline</AlertDialogTitle>
+            <AlertDialogDescription>
+              Freeze the dates, phase allocations and estimated hours of {projectCount === 1 ? 'your project' : `all ${projectCount} projects`} so
+              later changes can be compared against them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-1">
+            <Label htmlFor="baseline-name" className="text-xs">Name</Label>
+            <Input
+              id="baseline-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Client sign-off"
+              className="h-9 text-sm"
+              autoFocus
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel type="button" onClick={onClose}>Cancel</AlertDialogCancel>
+            <Button type="submit" disabled={!name.trim() || isSaving}>
+              Save Baseline
+            </Button>
+          </AlertDialogFooter>
+        </form>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
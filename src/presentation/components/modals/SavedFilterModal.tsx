@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '../shadcn/label';
+import { Input } from '../shadcn/input';
+import { Checkbox } from '../shadcn/checkbox';
+import { StandardModal } from './StandardModal';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
+import {
+  EMPTY_PROJECT_FILTER,
+  PROJECT_STATUS_LABELS,
+  validateSavedFilter
+} from '@/domain/rules/filters/ProjectFilters';
+import type { ProjectFilterQuery, ProjectStatus, SavedFilter } from '@/shared/types/core';
+
+interface SavedFilterModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  filter: SavedFilter | null; // null creates a new filter
+  onSaved?: (filter: SavedFilter) => void;
+}
+
+const STATUSES = Object.keys(PROJECT_STATUS_LABELS) as ProjectStatus[];
+
+/**
+ * One checkbox list of a query field
+ */
+function OptionList<T extends string>({
+  label,
+  options,
+  selected,
+  onToggle,
+  emptyText
+}: {
+  label: string;
+  options: Array<{ value: T; name: string; color?: string }>;
+  selected: T[];
+  onToggle: (value: T, checked: boolean) => void;
+  emptyText: string;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <div className="max-h-40 overflow-y-auto light-scrollbar rounded-md border border-gray-200 p-2 space-y-1.5">
+        {options.length === 0 && <p className="text-sm text-gray-500">{emptyText}</p>}
+        {options.map(option => (
+          <label key={option.value} className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={selected.includes(option.value)}
+              onCheckedChange={checked => onToggle(option.value, checked === true)}
+            />
+            {option.color && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: option.color }} />}
+            {option.name}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function SavedFilterModal({ isOpen, onClose, filter, onSaved }: SavedFilterModalProps) {
+  const { savedFilters, saveFilter, updateFilter, deleteFilter, classification } = useProjectFilterContext();
+  const [name, setName] = useState('');
+  const [query, setQuery] = useState<ProjectFilterQuery>(EMPTY_PROJECT_FILTER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Start from the edited filter, or blank for a new one
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(filter?.name ?? '');
+    setQuery(filter?.query ?? EMPTY_PROJECT_FILTER);
+  }, [isOpen, filter]);
+
+  const toggle = (field: keyof ProjectFilterQuery, value: string, checked: boolean) => {
+    setQuery(prev => {
+      const values: string[] = prev[field];
+      return { ...prev, [field]: checked ? [...values, value] : values.filter(v => v !== value) };
+    });
+  };
+
+  const validation = validateSavedFilter(name, query, savedFilters, filter?.id);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    if (filter) {
+      const updated = await updateFilter(filter, name, query);
+      setIsSaving(false);
+      if (updated) onClose();
+      return;
+    }
+    const created = await saveFilter(name, query);
+    setIsSaving(false);
+    if (created) {
+      onSaved?.(created);
+      onClose();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!filter) return;
+    if (await deleteFilter(filter)) onClose();
+  };
+
+  return (
+    <StandardModal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={filter ? 'Edit Filter' : 'New Filter'}
+      description="Show only matching projects in the Timeline, Planner, Overview and Insights."
+      size="md"
+      primaryAction={{
+        label: filter ? 'Save Changes' : 'Save Filter',
+        onClick: handleSave,
+        disabled: !validation.isValid,
+        loading: isSaving
+      }}
+      secondaryAction={{
+        label: 'Cancel',
+        onClick: onClose
+      }}
+      destructiveAction={filter ? { label: 'Delete', onClick: handleDelete } : undefined}
+    >
+      <div className="space-y-[21px]">
+        <div className="space-y-2">
+          <Label htmlFor="saved-filter-name">Name</Label>
+          <Input
+            id="saved-filter-name"
+            value={name}
+            onChange={e => setName(e.target.value)}
+            placeholder="e.g. Active client work"
+            autoFocus
+          />
+        </div>
+
+        <div className="grid grid-cols-3 gap-4">
+          <OptionList
+            label="Clients"
+            options={[...classification.clients]
+              .sort((a, b) => a.name.localeCompare(b.name))
+              .map(client => ({ value: client.id, name: client.name }))}
+            selected={query.clientIds}
+            onToggle={(value, checked) => toggle('clientIds', value, checked)}
+            emptyText="No clients yet"
+          />
+          <OptionList
+            label="Labels"
+            options={classification.labels.map(label => ({ value: label.id, name: label.name, color: label.color }))}
+            selected={query.labelIds}
+            onToggle={(value, checked) => toggle('labelIds', value, checked)}
+            emptyText="No labels yet"
+          />
+          <OptionList
+            label="Status"
+            options={STATUSES.map(status => ({ value: status, name: PROJECT_STATUS_LABELS[status] }))}
+            selected={query.statuses}
+            onToggle={(value, checked) => toggle('statuses', value, checked)}
+            emptyText=""
+          />
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Projects match when they have any of the ticked values in each list you use.
+        </p>
+      </div>
+    </StandardModal>
+  );
+}
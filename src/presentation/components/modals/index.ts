@@ -5,6 +5,7 @@ export { FeedbackModal } from './FeedbackModal';
 export { HelpModal } from './HelpModal';
 export { HolidayModal } from './HolidayModal';
 export { ProjectModal } from './ProjectModal';
+export { PublicHolidayImportModal } from './PublicHolidayImportModal';
 export { StandardModal, ConfirmationModal } from './StandardModal';
 export { WorkSlotModal } from './WorkSlotModal';
 
@@ -12,3 +13,6 @@ export { WorkSlotModal } from './WorkSlotModal';
 export { RecurringDeleteDialog } from './RecurringDeleteDialog';
 export { RecurringUpdateDialog } from './RecurringUpdateDialog';
 export { WorkHourScopeDialog } from './WorkHourScopeDialog';
+export { DependencyCascadeDialog } from './DependencyCascadeDialog';
+export { SaveBaselineDialog } from './SaveBaselineDialog';
+export { SavedFilterModal } from './SavedFilterModal';
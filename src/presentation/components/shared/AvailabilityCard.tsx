@@ -5,15 +5,16 @@ import { Button } from '../shadcn/button';
 import { Tooltip, TooltipContent, TooltipTrigger, TooltipProvider } from '../shadcn/tooltip';
 import { Card } from '../shadcn/card';
 import { useEvents } from '@/presentation/hooks/data/useEvents';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
-import { formatDuration } from '@/presentation/utils/dateCalculations';
+import { useScenarioHolidays } from '@/presentation/contexts/ScenarioContext';
+import { addTimelineColumns, formatDuration, generateDateRange, getTimelineColumnEnd } from '@/presentation/utils/dateCalculations';
 import { generateWorkHoursForDate } from '@/domain/rules/availability/EventWorkHourIntegration';
 import { calculateWorkHoursTotal } from '@/domain/rules/availability/WorkHourGeneration';
 import { calculateHabitTimeWithinWorkSlots, calculatePlannedTimeNotOverlappingHabits, calculateTotalPlannedHours, calculateOtherTime } from '@/domain/rules/availability/CapacityAnalysis';
-import { calculateDailyProjectHours } from '@/domain/rules/availability/DailyMetrics';;
-import { formatWeekdayDate, formatDateShort, formatWeekRange } from '@/presentation/utils/dateFormatUtils';
+import { calculateDailyProjectHours } from '@/domain/rules/availability/DailyMetrics';
+import { formatWeekdayDate, formatDateShort, formatWeekRange, formatMonthYear, formatQuarter } from '@/presentation/utils/dateFormatUtils';
+import { getTimelineColumnWidth, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
-import type { Project, Settings, PhaseDTO, CalendarEvent, Holiday } from '@/shared/types/core';
+import type { Project, Settings, PhaseDTO, CalendarEvent, Holiday, TimelineMode } from '@/shared/types/core';
 import { TabComponent } from './TabComponent';
 import { AvailabilityCardSettingsButton } from './AvailabilityCardSettingsButton';
 import { AvailabilityCardModal } from '../modals/AvailabilityCardModal';
@@ -49,7 +50,7 @@ interface AvailabilityCardProps {
   dates: Date[];
   projects: Project[];
   settings: Settings;
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   columnMarkersOverlay?: React.ReactNode;
   context?: 'timeline' | 'planner';
   timeGutterWidth?: number;
@@ -73,7 +74,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
   const [hoveredColumnIndex, setHoveredColumnIndex] = useState<number | null>(null);
   const [settingsModalOpen, setSettingsModalOpen] = useState(false);
   
-  const { holidays } = useHolidays();
+  const { holidays } = useScenarioHolidays();
   const { events: rawEvents } = useEvents();
 
   // Transform raw events to CalendarEvent format
@@ -116,6 +117,33 @@ export const AvailabilityCard = memo(function AvailabilityCard({
   
   const columnWidth = context === 'planner' ? plannerColumnWidth : timelineColumnWidth;
 
+  // Graph columns include one extra column before and after the visible range
+  // Month and quarter columns are as wide as their days, other columns share one width
+  const extendedColumnWidths = useMemo(() => {
+    if (context === 'timeline' && isAggregatedTimelineMode(mode) && dates.length > 0) {
+      const extendedDates = [
+        addTimelineColumns(dates[0], -1, mode),
+        ...dates,
+        addTimelineColumns(dates[dates.length - 1], 1, mode)
+      ];
+      return extendedDates.map(date => getTimelineColumnWidth(date, mode));
+    }
+    return Array.from({ length: dates.length + 2 }, () => columnWidth);
+  }, [context, mode, dates, columnWidth]);
+
+  const extendedColumnCenters = useMemo(() => {
+    let leftPx = 0;
+    return extendedColumnWidths.map(width => {
+      const center = leftPx + width / 2;
+      leftPx += width;
+      return center;
+    });
+  }, [extendedColumnWidths]);
+
+  const leadingColumnWidth = extendedColumnWidths[0];
+  const extendedGraphWidth = extendedColumnWidths.reduce((total, width) => total + width, 0);
+  const visibleColumnsWidth = extendedGraphWidth - leadingColumnWidth - extendedColumnWidths[extendedColumnWidths.length - 1];
+
   const timeSpentRows = [
     {
       type: 'total-planned' as const,
@@ -141,27 +169,42 @@ export const AvailabilityCard = memo(function AvailabilityCard({
     return weekDates;
   }, []);
 
+  // Days summed into one timeline column (the week, month or quarter it starts)
+  // For planner, always the single day (even when mode='weeks')
+  const getColumnDates = useCallback((columnStart: Date) => {
+    if (context !== 'timeline' || mode === 'days') return [columnStart];
+    if (mode === 'weeks') return getWeekDates(columnStart);
+    return generateDateRange(columnStart, getTimelineColumnEnd(columnStart, mode));
+  }, [context, mode, getWeekDates]);
+
+  // Tooltip label of a timeline column
+  const formatColumnLabel = (date: Date) => {
+    switch (mode) {
+      case 'weeks':
+        return `Week of ${formatDateShort(date)}`;
+      case 'months':
+        return formatMonthYear(date);
+      case 'quarters':
+        return `${formatQuarter(date)} ${date.getFullYear()}`;
+      default:
+        return formatWeekdayDate(date);
+    }
+  };
+
   // ===== WORKLOAD GRAPH CALCULATION =====
   const graphData = useMemo(() => {
     const extendedDates = [];
     
     if (dates.length > 0) {
-      const firstDate = dates[0];
-      const prevDate = new Date(firstDate);
-      prevDate.setDate(prevDate.getDate() - (mode === 'weeks' ? 7 : 1));
-      extendedDates.push(prevDate);
+      extendedDates.push(addTimelineColumns(dates[0], -1, mode));
       extendedDates.push(...dates);
-      
-      const lastDate = dates[dates.length - 1];
-      const nextDate = new Date(lastDate);
-      nextDate.setDate(nextDate.getDate() + (mode === 'weeks' ? 7 : 1));
-      extendedDates.push(nextDate);
+      extendedDates.push(addTimelineColumns(dates[dates.length - 1], 1, mode));
     }
     
     return extendedDates.map(date => {
-      // For weeks mode in timeline, calculate totals for the entire week
+      // For weeks, months and quarters in timeline, calculate totals for the entire column
       // For planner, always show daily totals (even when mode='weeks')
-      const datesToProcess = (mode === 'weeks' && context === 'timeline') ? getWeekDates(date) : [date];
+      const datesToProcess = getColumnDates(date);
       
       let totalWorkHours = 0;
       let totalHabitTime = 0;
@@ -209,27 +252,20 @@ export const AvailabilityCard = memo(function AvailabilityCard({
         netAvailability
       };
     });
-  }, [context, dates, holidays, settings, events, projects, phases, mode, getWeekDates]);
+  }, [dates, holidays, settings, events, projects, phases, mode, getColumnDates]);
 
   // ===== CAPACITY VS COMMITTED GRAPH (Availability 2) =====
   const graphData2 = useMemo(() => {
     const extendedDates = [];
     
     if (dates.length > 0) {
-      const firstDate = dates[0];
-      const prevDate = new Date(firstDate);
-      prevDate.setDate(prevDate.getDate() - (mode === 'weeks' ? 7 : 1));
-      extendedDates.push(prevDate);
+      extendedDates.push(addTimelineColumns(dates[0], -1, mode));
       extendedDates.push(...dates);
-      
-      const lastDate = dates[dates.length - 1];
-      const nextDate = new Date(lastDate);
-      nextDate.setDate(nextDate.getDate() + (mode === 'weeks' ? 7 : 1));
-      extendedDates.push(nextDate);
+      extendedDates.push(addTimelineColumns(dates[dates.length - 1], 1, mode));
     }
     
     return extendedDates.map(date => {
-      const datesToProcess = (mode === 'weeks' && context === 'timeline') ? getWeekDates(date) : [date];
+      const datesToProcess = getColumnDates(date);
       
       let capacity = 0; // Work hours (from work slots + overrides)
       let committed = 0; // Total committed time (habit + planned + estimated)
@@ -264,7 +300,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
         isOvercommitted: committed > capacity
       };
     });
-  }, [context, dates, holidays, settings, events, projects, phases, mode, getWeekDates]);
+  }, [dates, holidays, settings, events, projects, phases, mode, getColumnDates]);
 
   // Max value for graph 2 (capacity vs committed) - scale dynamically
   // Ensure the scale is at least capacity + 4 hours so capacity line is never at the top
@@ -299,7 +335,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
     if (graphData.length === 0) return '';
     const centerY = plotHeight / 2;
     const points = graphData.map((d, i) => ({
-      x: i * columnWidth + columnWidth / 2,
+      x: extendedColumnCenters[i],
       y: netAvailabilityToY(d.netAvailability),
       value: d.netAvailability
     }));
@@ -351,12 +387,9 @@ export const AvailabilityCard = memo(function AvailabilityCard({
         : calculateOtherTime(d, events, workHoursForDate);
     };
 
-    // For timeline view in weeks mode, aggregate the week
+    // For timeline view in weeks, months and quarters, aggregate the column
     // For planner view, always show individual days (even when mode is 'weeks')
-    if (mode === 'weeks' && context === 'timeline') {
-      return getWeekDates(date).reduce((total, d) => total + getDailyHours(d), 0);
-    }
-    return getDailyHours(date);
+    return getColumnDates(date).reduce((total, d) => total + getDailyHours(d), 0);
   };
 
   // ===== RENDER FUNCTIONS =====
@@ -365,19 +398,19 @@ export const AvailabilityCard = memo(function AvailabilityCard({
       return <div style={{ height: '96px' }} />;
     }
 
-    const graphWidth = context === 'planner' ? '100%' : mode === 'weeks' ? `${dates.length * columnWidth}px` : `${dates.length * columnWidth + columnWidth}px`;
+    const graphWidth = context === 'planner' ? '100%' : mode === 'days' ? `${visibleColumnsWidth + columnWidth}px` : `${visibleColumnsWidth}px`;
 
     return (
       <TooltipProvider delayDuration={100}>
         <div className="relative flex items-center" style={{ width: graphWidth, height: '96px', overflow: 'visible' }}>
           {/* Graph SVG layer - clipped to container */}
           <div className="absolute inset-0" style={{ overflow: 'hidden', zIndex: 20 }}>
-            <svg width={(dates.length + 2) * columnWidth} height={graphHeight} className="absolute top-0" style={{ pointerEvents: 'none', left: `-${columnWidth}px` }}>
+            <svg width={extendedGraphWidth} height={graphHeight} className="absolute top-0" style={{ pointerEvents: 'none', left: `-${leadingColumnWidth}px` }}>
               <g transform={`translate(0, ${graphPadding.top})`}>
-                <line x1={0} y1={plotHeight / 2} x2={(dates.length + 2) * columnWidth} y2={plotHeight / 2} stroke={NEUTRAL_COLORS.gray400} strokeWidth={1} />
+                <line x1={0} y1={plotHeight / 2} x2={extendedGraphWidth} y2={plotHeight / 2} stroke={NEUTRAL_COLORS.gray400} strokeWidth={1} />
                 <path d={generatePath((v) => v >= 0)} fill="rgb(34, 197, 94)" fillOpacity={0.3} />
                 <path d={generatePath((v) => v <= 0)} fill="rgb(239, 68, 68)" fillOpacity={0.4} />
-                <path d={`M ${columnWidth / 2},${netAvailabilityToY(graphData[0]?.netAvailability || 0)} ${graphData.map((d, i) => `L ${i * columnWidth + columnWidth / 2},${netAvailabilityToY(d.netAvailability)}`).join(' ')}`} fill="none" stroke={NEUTRAL_COLORS.gray400} strokeWidth={2} />
+                <path d={`M ${extendedColumnCenters[0]},${netAvailabilityToY(graphData[0]?.netAvailability || 0)} ${graphData.map((d, i) => `L ${extendedColumnCenters[i]},${netAvailabilityToY(d.netAvailability)}`).join(' ')}`} fill="none" stroke={NEUTRAL_COLORS.gray400} strokeWidth={2} />
               </g>
             </svg>
           </div>
@@ -389,7 +422,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
               const d = graphData[graphDataIndex];
               if (!d) return null;
               
-              const x = dateIndex * columnWidth + columnWidth / 2;
+              const x = extendedColumnCenters[graphDataIndex] - leadingColumnWidth;
               const y = netAvailabilityToY(d.netAvailability) + graphPadding.top;
               const isPositive = d.netAvailability > 0;
               const isNegative = d.netAvailability < 0;
@@ -448,11 +481,11 @@ export const AvailabilityCard = memo(function AvailabilityCard({
             })}
           </div>
           
-          <div className="absolute top-0 left-0 h-full flex" style={{ zIndex: 25, width: context === 'planner' ? '100%' : `${dates.length * columnWidth}px` }}>
+          <div className="absolute top-0 left-0 h-full flex" style={{ zIndex: 25, width: context === 'planner' ? '100%' : `${visibleColumnsWidth}px` }}>
             {dates.map((_, i) => {
               const columnData = graphData[i + 1];
               const columnElement = (
-                <div className={context === 'planner' ? 'flex-1 relative' : 'relative'} style={context === 'timeline' ? { width: `${columnWidth}px`, height: '100%' } : { height: '100%' }} onMouseEnter={() => setHoveredColumnIndex(i)} onMouseLeave={() => setHoveredColumnIndex(null)}>
+                <div className={context === 'planner' ? 'flex-1 relative' : 'relative'} style={context === 'timeline' ? { width: `${extendedColumnWidths[i + 1]}px`, height: '100%' } : { height: '100%' }} onMouseEnter={() => setHoveredColumnIndex(i)} onMouseLeave={() => setHoveredColumnIndex(null)}>
                   <div className={`absolute inset-0 bg-black transition-opacity duration-200 pointer-events-none ${hoveredColumnIndex === i ? 'opacity-[0.04]' : 'opacity-0'}`} />
                 </div>
               );
@@ -467,7 +500,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
                   <TooltipTrigger asChild>{columnElement}</TooltipTrigger>
                   <TooltipContent>
                     <div className="text-xs">
-                      <div className="font-medium text-gray-800">{mode === 'days' ? formatWeekdayDate(columnData.date) : `Week of ${formatDateShort(columnData.date)}`}</div>
+                      <div className="font-medium text-gray-800">{formatColumnLabel(columnData.date)}</div>
                       <div className="text-gray-600 mt-1">Work Hours: {formatDuration(columnData.workHours)}</div>
                       <div className="text-gray-600">Habit Overlap (net): {formatDuration(columnData.habitTime)}</div>
                       <div className="text-gray-600">Planned/Completed: {formatDuration(columnData.plannedTime)}</div>
@@ -511,7 +544,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
 
     // Build points array
     const points = graphData2.map((d, i) => ({
-      x: i * columnWidth + columnWidth / 2,
+      x: extendedColumnCenters[i],
       yCommitted: valueToY3(d.committed),
       yCapacity: valueToY3(d.capacity),
       committed: d.committed,
@@ -652,20 +685,20 @@ export const AvailabilityCard = memo(function AvailabilityCard({
     const { greenPath, redPath } = generateFillPaths3();
     const stoneFillPath3 = generateStoneFillPath3();
 
-    const graphWidth = context === 'planner' ? '100%' : mode === 'weeks' ? `${dates.length * columnWidth}px` : `${dates.length * columnWidth + columnWidth}px`;
+    const graphWidth = context === 'planner' ? '100%' : mode === 'days' ? `${visibleColumnsWidth + columnWidth}px` : `${visibleColumnsWidth}px`;
 
     return (
       <TooltipProvider delayDuration={100}>
         <div className="relative flex items-center" style={{ width: graphWidth, height: '96px', overflow: 'visible' }}>
           {/* Graph SVG layer - clipped to container */}
           <div className="absolute inset-0" style={{ overflow: 'hidden', zIndex: 20 }}>
-            <svg width={(dates.length + 2) * columnWidth} height={graphHeight} className="absolute top-0" style={{ pointerEvents: 'none', left: `-${columnWidth}px` }}>
+            <svg width={extendedGraphWidth} height={graphHeight} className="absolute top-0" style={{ pointerEvents: 'none', left: `-${leadingColumnWidth}px` }}>
               <g>
                 {/* Baseline - light gray line */}
                 <line 
                   x1={0} 
                   y1={baselineY} 
-                  x2={(dates.length + 2) * columnWidth} 
+                  x2={extendedGraphWidth} 
                   y2={baselineY} 
                   stroke={NEUTRAL_COLORS.gray200} 
                   strokeWidth={1}
@@ -707,7 +740,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
               const d = graphData2[graphDataIndex];
               if (!d) return null;
               
-              const x = dateIndex * columnWidth + columnWidth / 2;
+              const x = extendedColumnCenters[graphDataIndex] - leadingColumnWidth;
               const y = valueToY3(d.committed);
               const isOvercommitted = d.committed > d.capacity;
               const isUnderCapacity = d.committed < d.capacity;
@@ -759,11 +792,11 @@ export const AvailabilityCard = memo(function AvailabilityCard({
           </div>
           
           {/* Hover columns with tooltips */}
-          <div className="absolute top-0 left-0 h-full flex" style={{ zIndex: 25, width: context === 'planner' ? '100%' : `${dates.length * columnWidth}px` }}>
+          <div className="absolute top-0 left-0 h-full flex" style={{ zIndex: 25, width: context === 'planner' ? '100%' : `${visibleColumnsWidth}px` }}>
             {dates.map((_, i) => {
               const columnData = graphData2[i + 1];
               const columnElement = (
-                <div className={context === 'planner' ? 'flex-1 relative' : 'relative'} style={context === 'timeline' ? { width: `${columnWidth}px`, height: '100%' } : { height: '100%' }} onMouseEnter={() => setHoveredColumnIndex(i)} onMouseLeave={() => setHoveredColumnIndex(null)}>
+                <div className={context === 'planner' ? 'flex-1 relative' : 'relative'} style={context === 'timeline' ? { width: `${extendedColumnWidths[i + 1]}px`, height: '100%' } : { height: '100%' }} onMouseEnter={() => setHoveredColumnIndex(i)} onMouseLeave={() => setHoveredColumnIndex(null)}>
                   <div className={`absolute inset-0 bg-black transition-opacity duration-200 pointer-events-none ${hoveredColumnIndex === i ? 'opacity-[0.04]' : 'opacity-0'}`} />
                 </div>
               );
@@ -778,7 +811,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
                   <TooltipTrigger asChild>{columnElement}</TooltipTrigger>
                   <TooltipContent>
                     <div className="text-xs">
-                      <div className="font-medium text-gray-800">{mode === 'days' ? formatWeekdayDate(columnData.date) : `Week of ${formatDateShort(columnData.date)}`}</div>
+                      <div className="font-medium text-gray-800">{formatColumnLabel(columnData.date)}</div>
                       <div className="text-gray-600 mt-1">Capacity: {formatDuration(columnData.capacity)}</div>
                       <div className="text-gray-600">Committed: {formatDuration(columnData.committed)}</div>
                       {isOvercommitted && <div className="text-red-600 font-medium mt-1">Overcommitted by: {formatDuration(Math.abs(remaining))}</div>}
@@ -806,7 +839,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
       <TooltipProvider delayDuration={100}>
         {timeSpentRows.map((row, index) => (
           <div key={row.type} className={`h-full relative flex items-center ${index < timeSpentRows.length - 1 ? 'border-b border-gray-100' : ''}`} style={{ height: '48px' }}>
-            <div className="flex w-full" style={context === 'timeline' ? { minWidth: `${dates.length * columnWidth + (mode === 'days' ? columnWidth : 0)}px` } : undefined}>
+            <div className="flex w-full" style={context === 'timeline' ? { minWidth: `${visibleColumnsWidth + (mode === 'days' ? columnWidth : 0)}px` } : undefined}>
               {dates.map((date: Date, dateIndex: number) => {
                 const targetHours = getHours(date, row.type);
                 
@@ -814,7 +847,7 @@ export const AvailabilityCard = memo(function AvailabilityCard({
                   <div 
                     key={dateIndex}
                     className={`flex justify-center items-center relative ${context === 'planner' ? 'flex-1 border-r border-gray-200' : ''}`} 
-                    style={context === 'timeline' ? { width: `${columnWidth}px` } : undefined}
+                    style={context === 'timeline' ? { width: `${extendedColumnWidths[dateIndex + 1]}px` } : undefined}
                   >
                     <div className="relative flex items-center justify-center min-h-[20px]" style={{ zIndex: 10 }}>
                       {targetHours > 0 ? (
@@ -831,7 +864,9 @@ export const AvailabilityCard = memo(function AvailabilityCard({
                               <div className="text-xs text-gray-400">
                                 {context === 'timeline' && mode === 'weeks' 
                                   ? formatWeekRange(date)
-                                  : formatWeekdayDate(date)}
+                                  : context === 'timeline'
+                                    ? formatColumnLabel(date)
+                                    : formatWeekdayDate(date)}
                               </div>
                             </div>
                           </TooltipContent>
@@ -920,9 +955,9 @@ export const AvailabilityCard = memo(function AvailabilityCard({
           <div 
             className="flex-1 flex flex-col bg-gray-50 relative availability-timeline-content" 
             style={{ 
-              minWidth: mode === 'weeks'
-                ? `${dates.length * 153}px`
-                : `${dates.length * 52 + 52}px`, // Extra 52px buffer for smooth rendering at edges
+              minWidth: mode === 'days'
+                ? `${visibleColumnsWidth + 52}px` // Extra 52px buffer for smooth rendering at edges
+                : `${visibleColumnsWidth}px`,
               borderTopLeftRadius: '8px',
               borderTopRightRadius: '8px',
             }}
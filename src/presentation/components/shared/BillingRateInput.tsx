@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '../shadcn/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../shadcn/select';
+import type { BillingRate, BillingRateType } from '@/shared/types/core';
+
+interface BillingRateInputProps {
+  id: string;
+  value?: BillingRate;
+  onChange: (rate: BillingRate | undefined) => void;
+  noneLabel?: string; // Label for "no rate" (e.g. "Use client rate")
+  currency?: string;
+  disabled?: boolean;
+}
+
+const NONE = 'none';
+
+/**
+ * Rate type + amount picker. The amount is committed on blur.
+ */
+export function BillingRateInput({
+  id,
+  value,
+  onChange,
+  noneLabel = 'Not billed',
+  currency,
+  disabled = false
+}: BillingRateInputProps) {
+  const [amount, setAmount] = useState(value ? String(value.amount) : '');
+
+  useEffect(() => {
+    setAmount(value ? String(value.amount) : '');
+  }, [value]);
+
+  const handleTypeChange = (type: string) => {
+    if (type === NONE) {
+      onChange(undefined);
+      return;
+    }
+    onChange({ type: type as BillingRateType, amount: value?.amount ?? 0 });
+  };
+
+  const commitAmount = () => {
+    if (!value) return;
+    const parsed = Number(amount);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      setAmount(String(value.amount));
+      return;
+    }
+    if (parsed !== value.amount) {
+      onChange({ ...value, amount: parsed });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select value={value?.type ?? NONE} onValueChange={handleTypeChange} disabled={disabled}>
+        <SelectTrigger id={id} className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>{noneLabel}</SelectItem>
+          <SelectItem value="hourly">Hourly rate</SelectItem>
+          <SelectItem value="fixed">Fixed fee</SelectItem>
+        </SelectContent>
+      </Select>
+      {value && (
+        <div className="relative flex-1">
+          <Input
+            id={`${id}-amount`}
+            type="number"
+            min={0}
+            step="0.01"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            onBlur={commitAmount}
+            disabled={disabled}
+            className={currency ? 'pr-14' : undefined}
+          />
+          {currency && (
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">
+              {currency}{value.type === 'hourly' ? '/h' : ''}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
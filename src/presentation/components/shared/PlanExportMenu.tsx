@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Download } from 'lucide-react';
+import { Button } from '@/presentation/components/shadcn/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/presentation/components/shadcn/dropdown-menu';
+import {
+  generatePlanPdf,
+  generatePlanSvg,
+  getPlanExportFileName,
+  type PlanExport,
+  type PlanExportFormat
+} from '@/application/queries/exports/planExport';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+interface PlanExportMenuProps {
+  // Built on demand from the view's current range; null when there is nothing to export
+  buildExport: () => PlanExport | null;
+}
+
+// PNGs are drawn at twice the SVG size so text stays sharp
+const PNG_SCALE = 2;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Rasterize the SVG export in the browser
+ */
+const renderPng = (svg: string): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * PNG_SCALE;
+    canvas.height = image.height * PNG_SCALE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      URL.revokeObjectURL(url);
+      reject(new Error('Canvas is not available'));
+      return;
+    }
+    context.scale(PNG_SCALE, PNG_SCALE);
+    context.drawImage(image, 0, 0);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not create the PNG'))), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('Could not draw the SVG'));
+  };
+  image.src = url;
+});
+
+/**
+ * Downloads the current Timeline range or Planner week as SVG, PNG or PDF
+ */
+export function PlanExportMenu({ buildExport }: PlanExportMenuProps) {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: PlanExportFormat) => {
+    const plan = buildExport();
+    if (!plan) return;
+
+    setIsExporting(true);
+    try {
+      const fileName = getPlanExportFileName(plan, format);
+      if (format === 'pdf') {
+        downloadBlob(new Blob([generatePlanPdf(plan)], { type: 'application/pdf' }), fileName);
+      } else if (format === 'png') {
+        downloadBlob(await renderPng(generatePlanSvg(plan)), fileName);
+      } else {
+        downloadBlob(new Blob([generatePlanSvg(plan)], { type: 'image/svg+xml;charset=utf-8' }), fileName);
+      }
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'PlanExportMenu', action: `Failed to export ${format}:` }, {
+        showToast: true,
+        userMessage: 'The export could not be created. Please try again.'
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="h-9 gap-2"
+          disabled={isExporting}
+          title="Download a picture of the plan to share"
+        >
+          <Download className="w-4 h-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={() => void handleExport('pdf')}>PDF (pages)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => void handleExport('svg')}>SVG (vector)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => void handleExport('png')}>PNG (image)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,30 @@
+import React from 'react';
+import { Rows3 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { PROJECT_GROUPING_LABELS, type ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
+
+interface ProjectGroupingSelectProps {
+  value: ProjectGrouping;
+  onChange: (grouping: ProjectGrouping) => void;
+}
+
+const GROUPINGS = Object.keys(PROJECT_GROUPING_LABELS) as ProjectGrouping[];
+
+/**
+ * Picks what project rows are sectioned by: group, client, label or status
+ */
+export function ProjectGroupingSelect({ value, onChange }: ProjectGroupingSelectProps) {
+  return (
+    <Select value={value} onValueChange={(grouping) => onChange(grouping as ProjectGrouping)}>
+      <SelectTrigger className="h-9 w-[160px] gap-2" title="Section rows by group, client, label or status">
+        <Rows3 className="w-4 h-4 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {GROUPINGS.map(grouping => (
+          <SelectItem key={grouping} value={grouping}>By {PROJECT_GROUPING_LABELS[grouping].toLowerCase()}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Filter, Pencil, Plus } from 'lucide-react';
+import { Button } from '@/presentation/components/shadcn/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/presentation/components/shadcn/select';
+import { SavedFilterModal } from '@/presentation/components/modals/SavedFilterModal';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
+import type { SavedFilter } from '@/shared/types/core';
+
+// Select value for "no filter"
+const ALL_PROJECTS = 'all';
+
+/**
+ * Picks the saved filter applied across Timeline, Planner, Overview and
+ * Insights, with buttons to create a filter or edit the active one.
+ */
+export function SavedFilterSelect({ className }: { className?: string }) {
+  const { savedFilters, activeFilter, setActiveFilterId } = useProjectFilterContext();
+  const [editing, setEditing] = useState<{ filter: SavedFilter | null } | null>(null);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={activeFilter?.id ?? ALL_PROJECTS}
+        onValueChange={(value) => setActiveFilterId(value === ALL_PROJECTS ? null : value)}
+      >
+        <SelectTrigger
+          className={className ?? 'h-9 w-[170px] gap-2'}
+          title="Show only projects matching a saved filter"
+        >
+          <Filter className="w-4 h-4 shrink-0" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_PROJECTS}>All projects</SelectItem>
+          {savedFilters.map(filter => (
+            <SelectItem key={filter.id} value={filter.id}>{filter.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {activeFilter ? (
+        <Button
+          variant="ghost"
+          className="h-9 w-9 px-0"
+          onClick={() => setEditing({ filter: activeFilter })}
+          title="Edit this filter"
+        >
+          <Pencil className="w-4 h-4" />
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          className="h-9 w-9 px-0"
+          onClick={() => setEditing({ filter: null })}
+          title="Save a client, label or status filter"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      )}
+      <SavedFilterModal
+        isOpen={editing !== null}
+        filter={editing?.filter ?? null}
+        onClose={() => setEditing(null)}
+        onSaved={(filter) => setActiveFilterId(filter.id)}
+      />
+    </div>
+  );
+}
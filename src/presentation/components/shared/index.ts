@@ -8,3 +8,7 @@ export { DatePickerButton } from './DatePickerButton';
 export { HelpButton } from './HelpButton';
 export { AvailabilityCardSettingsButton } from './AvailabilityCardSettingsButton';
 export { ResizableSplitter } from './ResizableSplitter';
+export { BillingRateInput } from './BillingRateInput';
+export { SavedFilterSelect } from './SavedFilterSelect';
+export { ProjectGroupingSelect } from './ProjectGroupingSelect';
+export { PlanExportMenu } from './PlanExportMenu';
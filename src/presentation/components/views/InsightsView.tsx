@@ -1,20 +1,32 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
 import { useEvents } from '@/presentation/hooks/data/useEvents';
 import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { useClients } from '@/presentation/hooks/data/useClients';
+import { useHolidays } from '@/presentation/hooks/data/useHolidays';
+import { useHabitTargets } from '@/presentation/hooks/data/useHabitTargets';
 import { HelpModal } from '../modals/HelpModal';
+import { SavedFilterSelect } from '../shared/SavedFilterSelect';
 import { 
   TimeDistributionCard,
   AvailabilityUsedCard,
   FutureCommitmentsCard,
-  AverageDayHeatmapCard
+  AverageDayHeatmapCard,
+  TimesheetExportCard,
+  RevenueForecastCard,
+  HabitAdherenceCard
 } from '@/presentation/components/features/insights';
 import type { CalendarEvent } from '@/shared/types/core';
 
 export function InsightsView() {
-  const { projects, groups } = useProjectContext();
+  const { projects, groups, phases } = useProjectContext();
   const { events: rawEvents } = useEvents();
   const { settings } = useSettingsContext();
+  const { clients } = useClients();
+  const { holidays } = useHolidays();
+  const { targets: habitTargets, saveTarget, removeTarget } = useHabitTargets();
+  const { applyFilter, activeFilter } = useProjectFilterContext();
   const [helpModalOpen, setHelpModalOpen] = useState(false);
   const [helpModalInitialTopic, setHelpModalInitialTopic] = useState<string | undefined>();
 
@@ -34,6 +46,13 @@ export function InsightsView() {
     recurringGroupId: e.recurring_group_id || undefined
   }));
 
+  // With a saved filter active, time spent on the other projects is left out as well
+  const shownProjects = useMemo(() => applyFilter(projects), [applyFilter, projects]);
+  const shownProjectIds = new Set(shownProjects.map(project => project.id));
+  const shownEvents = activeFilter
+    ? events.filter(event => !event.projectId || shownProjectIds.has(event.projectId))
+    : events;
+
   // Early return if essential data is not loaded
   if (!projects || !events || !settings) {
     return (
@@ -48,12 +67,17 @@ export function InsightsView() {
       {/* Content */}
       <div className="flex-1 overflow-auto light-scrollbar">
         <div className="p-[21px] space-y-[21px]">
+          {/* Saved filter - shared with the other views */}
+          <div className="flex justify-end">
+            <SavedFilterSelect />
+          </div>
+
           {/* Charts Row */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-[21px]">
             {/* Time Distribution Chart */}
             <TimeDistributionCard
-              events={events}
-              projects={projects}
+              events={shownEvents}
+              projects={shownProjects}
               onHelpClick={() => {
                 setHelpModalInitialTopic('insights-time-distribution');
                 setHelpModalOpen(true);
@@ -62,8 +86,8 @@ export function InsightsView() {
 
             {/* Availability Used Chart */}
             <AvailabilityUsedCard
-              projects={projects}
-              events={events}
+              projects={shownProjects}
+              events={shownEvents}
               weeklyWorkHours={settings.weeklyWorkHours}
               onHelpClick={() => {
                 setHelpModalInitialTopic('insights-availability-used');
@@ -77,9 +101,9 @@ export function InsightsView() {
             {/* Average Day Heatmap Card */}
             <div className="lg:col-span-2">
               <AverageDayHeatmapCard 
-                events={events}
+                events={shownEvents}
                 groups={groups || []}
-                projects={projects || []}
+                projects={shownProjects}
                 onHelpClick={() => {
                   setHelpModalInitialTopic('insights-average-day');
                   setHelpModalOpen(true);
@@ -89,13 +113,38 @@ export function InsightsView() {
 
             {/* Future Commitments Card */}
             <FutureCommitmentsCard
-              projects={projects}
+              projects={shownProjects}
               onHelpClick={() => {
                 setHelpModalInitialTopic('insights-future-commitments');
                 setHelpModalOpen(true);
               }}
             />
           </div>
+
+          {/* Habits */}
+          <HabitAdherenceCard
+            events={shownEvents}
+            targets={habitTargets}
+            onSaveTarget={saveTarget}
+            onRemoveTarget={removeTarget}
+          />
+
+          {/* Revenue */}
+          <RevenueForecastCard
+            projects={shownProjects}
+            phases={phases}
+            clients={clients}
+            events={shownEvents}
+            settings={settings}
+            holidays={holidays}
+          />
+
+          {/* Timesheet Export */}
+          <TimesheetExportCard
+            events={shownEvents}
+            projects={shownProjects}
+            clients={clients}
+          />
         </div>
       </div>
       
@@ -1,10 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
 import { useGroups } from '@/presentation/hooks/data/useGroups';
 import { useHolidays } from '@/presentation/hooks/data/useHolidays';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { supabase } from '@/infrastructure/database/client';
-import { Plus, Edit, Trash2, Calendar, Clock, Users, Folder, GripVertical, Archive, PlayCircle, Clock4, ChevronDown, ChevronRight, Search, Tag, Building2, Mail, Phone, MapPin, FileText } from 'lucide-react';
+import { Plus, Edit, Trash2, Calendar, Clock, Users, Folder, GripVertical, Archive, PlayCircle, Clock4, ChevronDown, ChevronRight, Search, Tag, Building2, CircleDot, Mail, Phone, MapPin, FileText, Download } from 'lucide-react';
 import { Button } from '../shadcn/button';
 import { DatePickerButton } from '../shared/DatePickerButton';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../shadcn/card';
@@ -19,6 +20,7 @@ import { Tabs, TabsList, TabsTrigger, TabsContent } from '../shadcn/tabs';
 import { StandardModal } from '../modals/StandardModal';
 import { ProjectModal } from '../modals/ProjectModal';
 import { HolidayModal } from '../modals/HolidayModal';
+import { PublicHolidayImportModal } from '../modals/PublicHolidayImportModal';
 import { ClientModal } from '../modals/ClientModal';
 import { Group, Project, ProjectStatus, Holiday } from '@/shared/types';
 import { AppPageLayout } from '../layout/AppPageLayout';
@@ -28,10 +30,10 @@ import { normalizeToMidnight } from '@/presentation/utils/dateCalculations';;
 import { GroupOrchestrator } from '@/application/orchestrators/GroupOrchestrator';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
-import { TabComponent } from '../shared';
+import { TabComponent, SavedFilterSelect } from '../shared';
+import type { ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
 import { ClientsTab, HolidaysTab, ProjectsTab } from '@/presentation/components/features/overview';
 type FilterByStatus = 'all' | 'active' | 'future' | 'past';
-type OrganizeBy = 'group' | 'tag' | 'client';
 type MainTab = 'projects' | 'clients' | 'holidays';
 type ClientStatusFilter = 'all' | 'active' | 'archived';
 
@@ -40,10 +42,12 @@ export function OverviewView() {
   const { addGroup, updateGroup, refetch: fetchGroups } = useGroups();
   const { holidays, addHoliday, updateHoliday, deleteHoliday } = useHolidays();
   const { toast } = useToast();
+  const { applyFilter, classification } = useProjectFilterContext();
+  const shownProjects = useMemo(() => applyFilter(projects), [applyFilter, projects]);
   // Main tab state
   const [activeTab, setActiveTab] = useState<MainTab>('projects');
   // Filter and organize state
-  const [organizeBy, setOrganizeBy] = useState<OrganizeBy>('group');
+  const [organizeBy, setOrganizeBy] = useState<ProjectGrouping>('group');
   const [filterByStatus, setFilterByStatus] = useState<FilterByStatus>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [filterByDate, setFilterByDate] = useState<Date | undefined>(undefined);
@@ -52,6 +56,7 @@ export function OverviewView() {
   // Holiday-specific state
   const [holidayStatusFilter, setHolidayStatusFilter] = useState<FilterByStatus>('all');
   const [isHolidayModalOpen, setIsHolidayModalOpen] = useState(false);
+  const [isHolidayImportOpen, setIsHolidayImportOpen] = useState(false);
   const [editingHoliday, setEditingHoliday] = useState<Holiday | null>(null);
   // Modal state for creating new items
   const [isCreatingProject, setIsCreatingProject] = useState(false);
@@ -308,7 +313,7 @@ export function OverviewView() {
                 <ToggleGroup
                   type="single"
                   value={organizeBy}
-                  onValueChange={(value) => value && setOrganizeBy(value as OrganizeBy)}
+                  onValueChange={(value) => value && setOrganizeBy(value as ProjectGrouping)}
                   variant="outline"
                   className="border border-gray-200 rounded-lg h-9 p-1"
                 >
@@ -320,9 +325,13 @@ export function OverviewView() {
                     <Building2 className="w-3 h-3" />
                     Client
                   </ToggleGroupItem>
-                  <ToggleGroupItem value="tag" aria-label="Organize by tag" className="px-3 py-1 h-7 gap-1.5">
+                  <ToggleGroupItem value="label" aria-label="Organize by label" className="px-3 py-1 h-7 gap-1.5">
                     <Tag className="w-3 h-3" />
-                    Tag
+                    Label
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="status" aria-label="Organize by status" className="px-3 py-1 h-7 gap-1.5">
+                    <CircleDot className="w-3 h-3" />
+                    Status
                   </ToggleGroupItem>
                 </ToggleGroup>
                 {/* Status Filter */}
@@ -364,6 +373,8 @@ export function OverviewView() {
                     selected={filterByDate}
                     onSelect={setFilterByDate}
                   />
+                  {/* Saved Filter - shared with the other views */}
+                  <SavedFilterSelect />
                 </div>
               </div>
             </div>
@@ -437,6 +448,14 @@ export function OverviewView() {
                   <Plus className="w-4 h-4" />
                   Add Holiday
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsHolidayImportOpen(true)}
+                  className="h-9 gap-2"
+                >
+                  <Download className="w-4 h-4" />
+                  Import Public Holidays
+                </Button>
                 {/* Status Filter */}
                 <ToggleGroup
                   type="single"
@@ -474,8 +493,8 @@ export function OverviewView() {
           <TabsContent value="projects" className="h-full mt-0">
             <div className="px-[21px] pb-[21px] pt-[35px]">
               <ProjectsTab
-                projects={projects}
-                groups={groups}
+                projects={shownProjects}
+                classification={classification}
                 organizeBy={organizeBy}
                 filterByStatus={filterByStatus}
                 searchQuery={searchQuery}
@@ -549,6 +568,12 @@ export function OverviewView() {
         }}
         holidayId={editingHoliday?.id}
       />
+      <PublicHolidayImportModal
+        isOpen={isHolidayImportOpen}
+        onClose={() => setIsHolidayImportOpen(false)}
+        holidays={holidays}
+        addHoliday={addHoliday}
+      />
     </AppPageLayout>
   );
 }
\ No newline at end of file
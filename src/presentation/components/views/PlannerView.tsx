@@ -7,14 +7,17 @@ import { useEvents } from '@/presentation/hooks/data/useEvents';
 import { useHabits } from '@/presentation/hooks/data/useHabits';
 import { useHolidays } from '@/presentation/hooks/data/useHolidays';
 import { useWorkHours } from '@/presentation/hooks/data/useWorkHours';
+import { useProjectTasks } from '@/presentation/hooks/data/useProjectTasks';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
 import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
 import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
 import type { CalendarEvent } from '@/shared/types';
 import { formatDateLong, formatDateRange as formatDateRangeUtil } from '@/presentation/utils/dateFormatUtils';
-import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
+import { normalizeToMidnight, addDaysToDate, formatDuration } from '@/presentation/utils/dateCalculations';
 import { formatTimeForValidation } from '@/presentation/utils/timeCalculations';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { CalendarEventMapper } from '@/infrastructure/mappers/CalendarEventMapper';
 import { type LayerVisibility } from '@/presentation/services/FullCalendarConfig';
 import { 
   getBusinessHoursConfig,
@@ -31,6 +34,8 @@ import {
   EstimatedTimeCard, 
   WeekNavigationBar, 
   PlannerToolbar,
+  TaskBacklogPanel,
+  TimesheetGrid,
   WorkHourEventContent,
   HabitEventContent,
   TaskEventContent,
@@ -41,6 +46,11 @@ import { HABIT_ICON_SVG } from '@/presentation/constants/icons';
 import { NEUTRAL_COLORS } from '@/presentation/constants/colors';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
 import { createCalendarEventOrchestrator, type PlannerInteractionContext } from '@/application/orchestrators/CalendarEventOrchestrator';
+import type { MaterializationRequest } from '@/domain/rules/events/EstimateMaterialization';
+import type { TimesheetCellChange } from '@/domain/rules/events/Timesheet';
+import { groupProjects, type ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
+import { buildPlanExport } from '@/application/queries/exports/planExport';
+import { generateWorkHoursForDate } from '@/domain/rules/availability/CapacityAnalysis';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { useSwipeNavigation } from '@/presentation/hooks/ui/useSwipeNavigation';
 import { useCalendarKeyboardShortcuts } from '@/presentation/hooks/calendar/useCalendarKeyboardShortcuts';
@@ -51,7 +61,7 @@ import '@/presentation/components/features/planner/fullcalendar-overrides.css';
 const EventModal = React.lazy(() => import('../modals/EventModal').then(module => ({ default: module.EventModal })));
 const HelpModal = React.lazy(() => import('../modals/HelpModal').then(module => ({ default: module.HelpModal })));
 import { WorkHourScopeDialog } from '@/presentation/components/modals';
-import type { PhaseDTO } from '@/shared/types/core';
+import type { PhaseDTO, ProjectTask } from '@/shared/types/core';
 /**
  * PlannerView - FullCalendar-based planner with keyboard shortcuts
  * 
@@ -69,6 +79,7 @@ export function PlannerView() {
   const { 
     events: rawEvents, 
     loading: isEventsLoading, 
+    addEvent: addEventRaw,
     updateEvent, 
     deleteEvent,
     getRecurringGroupEvents,
@@ -97,6 +108,18 @@ export function PlannerView() {
     cancelWorkHourChange
   } = useWorkHours();
   const { projects, phases: projectPhases } = useProjectContext();
+  const { applyFilter, classification } = useProjectFilterContext();
+  // Projects of the active saved filter, for the estimate, timesheet and backlog rows
+  const shownProjects = useMemo(() => applyFilter(projects), [applyFilter, projects]);
+  const [timesheetGrouping, setTimesheetGrouping] = useState<ProjectGrouping>('group');
+  const {
+    tasks,
+    addTask,
+    updateTask,
+    deleteTask,
+    scheduleTask,
+    autoScheduleTasks
+  } = useProjectTasks();
   
   // Transform DB events to UI format (DB uses snake_case, UI uses camelCase)
   const events = useMemo(() => rawEvents.map(e => ({
@@ -112,6 +135,10 @@ export function PlannerView() {
     color: e.color,
     recurringGroupId: e.recurring_group_id || undefined,
     rrule: e.rrule || undefined,
+    recurrenceTimeZone: e.recurrence_timezone || undefined,
+    recurrenceExceptions: e.calendar_event_exceptions
+      ? CalendarEventMapper.exceptionsFromDatabase(e.calendar_event_exceptions)
+      : undefined,
   } satisfies CalendarEvent)), [rawEvents]);
   
   const habits = rawHabits; // habits are used directly as DB format
@@ -123,44 +150,14 @@ export function PlannerView() {
   const [layerMode, setLayerMode] = useState<'events' | 'work-hours' | 'both'>('both');
   const [currentView, setCurrentView] = useState<'week' | 'day'>('week');
   
-  // Undo state - moved from PlannerContext
-  const [lastAction, setLastAction] = useState<{
-    type: 'update' | 'create' | 'delete';
-    eventId: string;
-    previousState?: Partial<CalendarEvent>;
-    event?: CalendarEvent;
-  } | null>(null);
-  
-  // Undo-aware update/delete functions
+  // Event updates/deletes are recorded on the shared command history (undo via Cmd+Z)
   const updateEventWithUndo = useCallback(async (id: string, updates: Partial<CalendarEvent>) => {
-    const event = events.find(e => e.id === id);
-    if (event) {
-      setLastAction({ type: 'update', eventId: id, previousState: event });
-    }
-    await updateEvent(id, updates);
-  }, [events, updateEvent]);
+    await updateEvent(id, CalendarEventMapper.toUpdatePayload(updates));
+  }, [updateEvent]);
   
   const deleteEventWithUndo = useCallback(async (id: string) => {
-    const event = events.find(e => e.id === id);
-    if (event) {
-      setLastAction({ type: 'delete', eventId: id, event });
-    }
     await deleteEvent(id);
-  }, [events, deleteEvent]);
-  
-  const undoLastAction = useCallback(async () => {
-    if (!lastAction) return;
-    
-    if (lastAction.type === 'update' && lastAction.previousState) {
-      await updateEvent(lastAction.eventId, lastAction.previousState);
-    } else if (lastAction.type === 'delete' && lastAction.event) {
-      // Re-create the deleted event
-      // Note: This is a simplified undo - in production you'd call addEvent with the full event data
-      console.warn('Undo delete not fully implemented');
-    }
-    
-    setLastAction(null);
-  }, [lastAction, updateEvent]);
+  }, [deleteEvent]);
   
   // Helper to get events in date range
   const getEventsInDateRange = useCallback((startDate: Date, endDate: Date) => {
@@ -211,6 +208,8 @@ export function PlannerView() {
   const [calendarScrollbarWidth, setCalendarScrollbarWidth] = useState(0);
   const [timeAxisWidth, setTimeAxisWidth] = useState(0);
   const [helpModalOpen, setHelpModalOpen] = useState(false);
+  const [isBacklogOpen, setIsBacklogOpen] = useState(false);
+  const [isTimesheetOpen, setIsTimesheetOpen] = useState(false);
   // Layer visibility state
   const [layerVisibility, setLayerVisibility] = useState({
     events: true,
@@ -239,6 +238,21 @@ export function PlannerView() {
     });
     return map;
   }, [projectPhases]);
+  // Picture of the week for clients, sectioned like the timesheet
+  const buildWeekExport = useCallback(() => {
+    if (!settings) return null;
+    return buildPlanExport(
+      {
+        sections: groupProjects(shownProjects, timesheetGrouping, classification),
+        projects,
+        phases: projectPhases,
+        holidays,
+        events,
+        settings
+      },
+      { view: 'planner', dates: Array.from({ length: 7 }, (_, i) => addDaysToDate(weekStart, i)), mode: 'days' }
+    );
+  }, [settings, shownProjects, timesheetGrouping, classification, projects, projectPhases, holidays, events, weekStart]);
   // Derive summary dates from the latest strings (set by datesSet)
   // Do not compute from fallback values to avoid flash
   // Convert date strings to Date objects (stable based on string keys)
@@ -393,6 +407,98 @@ export function PlannerView() {
   const handleProjectDragEnd = useCallback(() => {
     setIsDraggingProject(false);
   }, []);
+  // Schedule auto-estimates into planned events in free work time (today onwards)
+  const handleMaterializeEstimates = useCallback(async (requests: MaterializationRequest[]) => {
+    const today = normalizeToMidnight(new Date());
+    const upcoming = requests.filter(request => request.date >= today);
+    if (upcoming.length === 0) {
+      toast({ title: 'Nothing to schedule', description: 'Estimated time can only be scheduled from today onwards.' });
+      return;
+    }
+    const result = await plannerOrchestrator.materializeEstimatesWorkflow(
+      upcoming,
+      { projects, events, getWorkHours: date => generateWorkHoursForDate(date, settings, holidays) },
+      eventData => addEventRaw({
+        title: eventData.title,
+        description: eventData.description || null,
+        start_time: eventData.startTime.toISOString(),
+        end_time: eventData.endTime.toISOString(),
+        project_id: eventData.projectId || null,
+        color: eventData.color || null,
+        completed: eventData.completed ?? false,
+        duration: eventData.duration,
+        category: eventData.category || 'event',
+        event_type: eventData.type || 'planned'
+      }, { silent: true })
+    );
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Failed to schedule estimated time', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: result.createdCount > 0 ? 'Estimated time scheduled' : 'No free time found',
+      description: result.unscheduledHours > 0
+        ? `${formatDuration(result.scheduledHours)} planned, ${formatDuration(result.unscheduledHours)} did not fit in free work time.`
+        : `${formatDuration(result.scheduledHours)} planned in ${result.createdCount} block${result.createdCount === 1 ? '' : 's'}.`
+    });
+  }, [plannerOrchestrator, projects, events, settings, holidays, addEventRaw, toast]);
+  // Schedule a backlog task dropped onto the calendar at its full estimate
+  const handleTaskDrop = useCallback(async (taskId: string, startTime: Date) => {
+    const task = tasks.find(t => t.id === taskId);
+    const project = task ? projects.find(p => p.id === task.projectId) : undefined;
+    if (!task || !project) return;
+    if (await scheduleTask(task, startTime, project)) {
+      toast({ title: 'Task scheduled', description: `${task.title} (${formatDuration(task.estimatedHours)})` });
+    }
+  }, [tasks, projects, scheduleTask, toast]);
+  // Place backlog tasks in free work time before their due dates (from now)
+  const handleAutoScheduleTasks = useCallback(async (backlog: ProjectTask[]) => {
+    const result = await autoScheduleTasks(
+      backlog,
+      { projects, events, getWorkHours: date => generateWorkHoursForDate(date, settings, holidays) },
+      new Date()
+    );
+    if (!result.success) return;
+    toast({
+      title: result.scheduledCount > 0 ? 'Tasks scheduled' : 'No free time found',
+      description: result.unplacedTaskIds.length > 0
+        ? `${result.scheduledCount} scheduled, ${result.unplacedTaskIds.length} did not fit in free work time before their due date.`
+        : `${result.scheduledCount} task${result.scheduledCount === 1 ? '' : 's'} placed in free work time.`
+    });
+  }, [autoScheduleTasks, projects, events, settings, holidays, toast]);
+  // Timesheet cell edits become completed events in that day's work slots
+  const handleTimesheetCellChange = useCallback(async (change: TimesheetCellChange) => {
+    const result = await plannerOrchestrator.updateTimesheetCellWorkflow(
+      change,
+      { projects, events, getWorkHours: date => generateWorkHoursForDate(date, settings, holidays) },
+      {
+        addEvent: (eventData, options) => addEventRaw({
+          title: eventData.title,
+          description: eventData.description || null,
+          start_time: eventData.startTime.toISOString(),
+          end_time: eventData.endTime.toISOString(),
+          project_id: eventData.projectId || null,
+          color: eventData.color || null,
+          completed: eventData.completed ?? true,
+          duration: eventData.duration,
+          category: eventData.category || 'event',
+          event_type: eventData.type || 'completed'
+        }, { ...options, silent: true }),
+        updateEvent: (id, updates, options) => updateEvent(id, CalendarEventMapper.toUpdatePayload(updates), { ...options, silent: true }),
+        deleteEvent: (id, options) => deleteEvent(id, { ...options, silent: true })
+      }
+    );
+    if (!result.success) {
+      toast({ title: 'Error', description: result.error || 'Failed to log time', variant: 'destructive' });
+      return;
+    }
+    if (result.unplacedHours > 0) {
+      toast({
+        title: 'Not enough free work time',
+        description: `${formatDuration(result.unplacedHours)} did not fit in that day's free work slots.`
+      });
+    }
+  }, [plannerOrchestrator, projects, events, settings, holidays, addEventRaw, updateEvent, deleteEvent, toast]);
   // Handle download project summary
   // Navigation handlers
   const handleNavigate = useCallback((direction: 'prev' | 'next' | 'today') => {
@@ -464,8 +570,6 @@ export function PlannerView() {
     setIsLayersPopoverOpen,
     selectedEventId,
     currentView,
-    lastAction,
-    undoLastAction,
     deleteEventWithUndo,
     handleNavigate,
     handleViewChange,
@@ -932,7 +1036,8 @@ export function PlannerView() {
     calendarRef,
     events,
     setCreatingNewEvent,
-    toast
+    toast,
+    onTaskDrop: handleTaskDrop
   });
   // Keep FullCalendar sized to its container (e.g., on sidebar toggle)
   useEffect(() => {
@@ -1079,7 +1184,14 @@ export function PlannerView() {
         onToggleLayer={(layer) => setLayerVisibility(prev => ({ ...prev, [layer]: !prev[layer] }))}
         isCompactView={settings?.isCompactView || false}
         onToggleCompactView={handleCompactViewToggle}
+        isBacklogOpen={isBacklogOpen}
+        onToggleBacklog={() => setIsBacklogOpen(prev => !prev)}
+        isTimesheetOpen={isTimesheetOpen}
+        onToggleTimesheet={() => setIsTimesheetOpen(prev => !prev)}
         onHelpClick={() => setHelpModalOpen(true)}
+        timesheetGrouping={timesheetGrouping}
+        onTimesheetGroupingChange={setTimesheetGrouping}
+        buildExport={buildWeekExport}
       />
       {/* Week Navigation Bar - Mobile/Tablet Only */}
       <WeekNavigationBar
@@ -1090,9 +1202,28 @@ export function PlannerView() {
         onDayClick={handleWeekNavDayClick}
         show={currentView === 'week' && (viewportSize === 'mobile' || viewportSize === 'tablet')}
       />
-      {/* Estimated Time Card intentionally hidden */}
+      {/* Estimated Time Card */}
+      {summaryDates.length > 0 && (
+        <div className="px-6 pb-[21px]">
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <EstimatedTimeCard
+              dates={summaryDates}
+              projects={shownProjects}
+              phasesMap={phasesMap}
+              events={events}
+              settings={settings}
+              holidays={holidays}
+              viewMode={currentView}
+              onDragStart={handleProjectDragStart}
+              onDragEnd={handleProjectDragEnd}
+              onMaterialize={handleMaterializeEstimates}
+              scrollbarWidth={calendarScrollbarWidth}
+            />
+          </div>
+        </div>
+      )}
       {/* Calendar Content */}
-      <div className="flex-1 px-6 pb-[21px] min-h-0">
+      <div className="flex-1 px-6 pb-[21px] min-h-0 flex" style={{ gap: '21px' }}>
         <div
           ref={(el) => {
             calendarCardRef.current = el;
@@ -1100,16 +1231,44 @@ export function PlannerView() {
               swipeRef.current = el;
             }
           }}
-          className={`planner-calendar-card h-full bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden ${settings?.isCompactView ? 'planner-compact' : ''}`}
+          className={`planner-calendar-card flex-1 min-w-0 h-full bg-white border border-gray-200 rounded-lg shadow-sm overflow-hidden ${settings?.isCompactView ? 'planner-compact' : ''}`}
           style={{ '--planner-scrollbar-width': `${calendarScrollbarWidth}px` } as React.CSSProperties}
         >
-          <FullCalendar
-            key={`${currentView}-${viewportSize}-${settings?.isCompactView ? 'compact' : 'normal'}`}
-            ref={calendarRef}
-            {...calendarConfig}
-            height="100%"
-          />
+          {/* Calendar stays mounted under the timesheet so navigation keeps working */}
+          <div className={isTimesheetOpen ? 'hidden' : 'h-full'}>
+            <FullCalendar
+              key={`${currentView}-${viewportSize}-${settings?.isCompactView ? 'compact' : 'normal'}`}
+              ref={calendarRef}
+              {...calendarConfig}
+              height="100%"
+            />
+          </div>
+          {isTimesheetOpen && (
+            <TimesheetGrid
+              weekStart={weekStart}
+              events={events}
+              projects={shownProjects}
+              holidays={holidays}
+              settings={settings}
+              onCellChange={handleTimesheetCellChange}
+              grouping={timesheetGrouping}
+              classification={classification}
+            />
+          )}
         </div>
+        {/* Task Backlog Sidebar */}
+        {isBacklogOpen && (
+          <TaskBacklogPanel
+            tasks={tasks}
+            projects={shownProjects}
+            events={events}
+            onAddTask={addTask}
+            onCompleteTask={task => updateTask(task, { completed: true })}
+            onDeleteTask={deleteTask}
+            onAutoSchedule={handleAutoScheduleTasks}
+            onClose={() => setIsBacklogOpen(false)}
+          />
+        )}
       </div>
       {/* Calendar Insight Card */}
       <div className="px-6 pb-[21px]">
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useAuth } from '@/presentation/contexts/AuthContext';
 import { Button } from '../shadcn/button';
 import { Input } from '../shadcn/input';
@@ -13,6 +13,8 @@ import { cn } from '@/presentation/lib/utils';
 import { SidebarLayout } from '../shared/SidebarLayout';
 import { OrphanedPhasesCleaner } from '../debug';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { ProfileOrchestrator } from '@/application/orchestrators/ProfileOrchestrator';
+import { DataBackupOrchestrator } from '@/application/orchestrators/DataBackupOrchestrator';
 import { 
   CreditCard, 
   Crown, 
@@ -42,6 +44,8 @@ export function ProfileView() {
   const [loading, setLoading] = useState(false);
   const [profile, setProfile] = useState<{ user_id?: string; display_name?: string; avatar_url?: string } | null>(null);
   const [activeTab, setActiveTab] = useState('account');
+  const [replaceOnRestore, setReplaceOnRestore] = useState(false);
+  const backupInputRef = useRef<HTMLInputElement>(null);
   
   // Form states
   const [emailForm, setEmailForm] = useState({
@@ -369,37 +373,19 @@ export function ProfileView() {
   const handleExportData = async () => {
     setLoading(true);
     try {
-      // Fetch all user data
-      const { data: projects, error: projectsError } = await supabase
-        .from('projects')
-        .select('*')
-        .eq('user_id', user?.id);
-
-      const { data: calendarEvents, error: eventsError } = await supabase
-        .from('calendar_events')
-        .select('*')
-        .eq('user_id', user?.id);
-
-      if (projectsError || eventsError) {
+      // Versioned archive covering every table
+      const archive = await ProfileOrchestrator.exportUserData();
+      if (!archive) {
         throw new Error('Failed to fetch data');
       }
 
-      // Create export object
-      const exportData = {
-        profile,
-        projects,
-        calendarEvents,
-        settings: accountSettings,
-        exportDate: new Date().toISOString()
-      };
-
       // Convert to JSON and download
-      const dataStr = JSON.stringify(exportData, null, 2);
+      const dataStr = JSON.stringify(archive, null, 2);
       const dataBlob = new Blob([dataStr], { type: 'application/json' });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `budgi-data-export-${new Date().toISOString().split('T')[0]}.json`;
+      link.download = `budgi-backup-${new Date().toISOString().split('T')[0]}.json`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -421,6 +407,62 @@ export function ProfileView() {
     }
   };
 
+  const handleImportData = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setLoading(true);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error('Backup file is not valid JSON');
+      }
+
+      // Validate everything first and show what will happen
+      const preview = await DataBackupOrchestrator.importArchive(archive, {
+        dryRun: true,
+        replaceExisting: replaceOnRestore
+      });
+      if (!preview.success) {
+        throw new Error(preview.errors.join('\n') || 'Backup file could not be read');
+      }
+
+      const restoredCount = Object.values(preview.restored).reduce((sum, count) => sum + (count || 0), 0);
+      const skippedCount = Object.values(preview.skipped).reduce((sum, count) => sum + (count || 0), 0);
+      const confirmed = window.confirm(
+        `Restore ${restoredCount} records from this backup?\n\n` +
+        (replaceOnRestore ? '⚠️ Your current projects, events and holidays will be deleted first.\n' : '') +
+        (preview.conflicts.length > 0 ? `• ${preview.conflicts.length} conflicts (existing clients/groups are reused, duplicates skipped)\n` : '') +
+        (skippedCount > 0 ? `• ${skippedCount} invalid records will be skipped\n` : '') +
+        preview.warnings.map(warning => `• ${warning}\n`).join('')
+      );
+      if (!confirmed) return;
+
+      const result = await DataBackupOrchestrator.importArchive(archive, { replaceExisting: replaceOnRestore });
+      if (!result.success) {
+        throw new Error(result.errors.join('\n') || 'Failed to restore backup');
+      }
+
+      toast({
+        title: "Backup restored",
+        description: `${Object.values(result.restored).reduce((sum, count) => sum + (count || 0), 0)} records restored. Reloading…`,
+      });
+      // Contexts load once on mount; reload to pick up the restored data
+      setTimeout(() => window.location.reload(), 1500);
+    } catch (error: unknown) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore backup",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDeleteAccount = async () => {
     const confirmed = window.confirm(
       'Are you absolutely sure you want to delete your account? This action cannot be undone and will permanently delete:\n\n' +
@@ -763,7 +805,7 @@ export function ProfileView() {
                 <div className="space-y-1">
                   <p className="font-medium text-blue-900">Export Account Data</p>
                   <p className="text-sm text-blue-700">
-                    Download a copy of all your projects, events, and settings
+                    Download a complete backup of your projects, phases, clients, events, holidays and settings
                   </p>
                 </div>
                 <Button 
@@ -778,6 +820,38 @@ export function ProfileView() {
                 </Button>
               </div>
 
+              <div className="p-4 border border-blue-200 rounded-lg bg-blue-50 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <p className="font-medium text-blue-900">Restore From Backup</p>
+                    <p className="text-sm text-blue-700">
+                      Import a backup file into this account
+                    </p>
+                  </div>
+                  <input
+                    ref={backupInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleImportData}
+                    className="hidden"
+                  />
+                  <Button 
+                    variant="outline"
+                    size="sm"
+                    onClick={() => backupInputRef.current?.click()}
+                    disabled={loading}
+                    className="border-blue-300 hover:bg-blue-100"
+                  >
+                    <Upload className="w-4 h-4 mr-2" />
+                    Import Backup
+                  </Button>
+                </div>
+                <div className="flex items-center justify-between">
+                  <Label className="text-sm text-blue-800">Replace current data instead of merging</Label>
+                  <Switch checked={replaceOnRestore} onCheckedChange={setReplaceOnRestore} />
+                </div>
+              </div>
+
               <OrphanedPhasesCleaner />
 
               <Separator />
@@ -12,7 +12,9 @@ import { Bell, Palette, Clock, Globe, Shield, Trash2, User, Plus, X, Calendar, F
 import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
 import { WorkSlot } from '@/shared/types/core';
 import { CalendarImport } from '@/presentation/components/features/settings/CalendarImport';
+import { CalendarExport } from '@/presentation/components/features/settings/CalendarExport';
 import { PWASettings } from '@/presentation/components/features/settings/PWASettings';
+import { WorkScheduleTemplates } from '@/presentation/components/features/settings/WorkScheduleTemplates';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { formatDuration } from '@/presentation/utils/dateCalculations';;
 import { AppPageLayout } from '../layout/AppPageLayout';
@@ -482,6 +484,10 @@ export function SettingsView() {
                 </div>
               </div>
             </div>
+
+            <Separator />
+
+            <WorkScheduleTemplates />
           </div>
         );
 
@@ -765,6 +771,7 @@ export function SettingsView() {
         return (
           <div className="space-y-6">
             <CalendarImport />
+            <CalendarExport />
           </div>
         );
 
@@ -4,18 +4,23 @@ import { HTML5Backend } from 'react-dnd-html5-backend';
 import { TooltipProvider } from '../shadcn/tooltip';
 import { Card } from '../shadcn/card';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
-import { useTimelineContext } from '@/presentation/contexts/TimelineContext';
+import { useTimelineContext, CapacityAllocationScope } from '@/presentation/contexts/TimelineContext';
 import { useEvents } from '@/presentation/hooks/data/useEvents';
-import { useHolidays } from '@/presentation/hooks/data/useHolidays';
-import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { useScenarioContext, useScenarioHolidays, useScenarioSettings } from '@/presentation/contexts/ScenarioContext';
+import { useProjectFilterContext } from '@/presentation/contexts/ProjectFilterContext';
 import { type SmoothAnimationConfig, type DragState as ServiceDragState } from '@/presentation/services/DragPositioning';
 import { createSmoothDragAnimation } from '@/presentation/services/DragPositioning';
 import { SystemIntegrity } from '@/domain/rules/SystemIntegrity';
+import { calculateBacklogHours } from '@/domain/rules/tasks/TaskBacklog';
 import { useTimelineData } from '@/presentation/hooks/timeline/useTimelineData';
 import { useDynamicViewportDays } from '@/presentation/hooks/timeline/useDynamicViewportDays';
 import { useHolidayDrag } from '@/presentation/hooks/timeline/useHolidayDrag';
 import { useProjectResize } from '@/presentation/hooks/timeline/useProjectResize';
 import { usePhaseResize } from '@/presentation/hooks/timeline/usePhaseResize';
+import { useDependencyCascade } from '@/presentation/hooks/timeline/useDependencyCascade';
+import { useDependencies } from '@/presentation/hooks/data/useDependencies';
+import { usePlanBaselines } from '@/presentation/hooks/data/usePlanBaselines';
+import { useProjectTasks } from '@/presentation/hooks/data/useProjectTasks';
 import { TimelineDateHeader } from '@/presentation/components/features/timeline/TimelineDateHeader';
 import { TimelineBackground } from '@/presentation/components/features/timeline/TimelineBackground';
 import { TimelineCard } from '@/presentation/components/features/timeline/TimelineCard';
@@ -23,11 +28,21 @@ import { AvailabilityCard } from '../shared/AvailabilityCard';
 import { HolidayBar } from '@/presentation/components/features/timeline/HolidayBar';
 import { AppPageLayout } from '../layout/AppPageLayout';
 import { TimelineToolbar } from '@/presentation/components/features/timeline/TimelineToolbar';
+import { ScenarioPanel } from '@/presentation/components/features/timeline/ScenarioPanel';
+import { CapacityBalancePanel } from '@/presentation/components/features/timeline/CapacityBalancePanel';
+import { DependencyConnectors } from '@/presentation/components/features/timeline/DependencyConnectors';
+import { BaselineVariancePanel } from '@/presentation/components/features/timeline/BaselineVariancePanel';
+import { DependencyCascadeDialog } from '../modals/DependencyCascadeDialog';
+import { SaveBaselineDialog } from '../modals/SaveBaselineDialog';
+import { allocateProjectCapacity } from '@/application/queries/CapacityAllocationAggregate';
+import { capturePlanSnapshot, comparePlanWithBaseline } from '@/application/queries/PlanBaselineAggregate';
+import { buildPlanExport } from '@/application/queries/exports/planExport';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
-import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
-import { TimelineViewport } from '@/presentation/services/TimelineViewportService';
+import { normalizeToMidnight, addDaysToDate, getTimelineColumnStart } from '@/presentation/utils/dateCalculations';
+import { TimelineViewport, calculateTimelineContentWidth, isAggregatedTimelineMode } from '@/presentation/services/TimelineViewportService';
 import { expandHolidayDates } from '@/domain/rules/holidays/HolidayCalculations';
 import { calculateTimelineRows } from '@/domain/rules/timeline/TimelineRowCalculations';
+import { groupProjects } from '@/domain/rules/filters/ProjectFilters';
 import { calculateProjectDayEstimates } from '@/domain/rules/projects/DayEstimate';
 import type { DayEstimate, Project, CalendarEvent } from '@/shared/types/core';
 // Lazy load heavy modals
@@ -111,12 +126,24 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     collapsedGroups,
     toggleGroupCollapse,
     setTimelineMode,
-    setCurrentDate 
+    setCurrentDate,
+    capacityBalancing,
+    setCapacityBalancing,
+    activeBaselineId,
+    setActiveBaselineId,
+    timelineGrouping,
+    setTimelineGrouping
   } = useTimelineContext();
+  const { applyFilter, classification } = useProjectFilterContext();
+  
+  const { scenario, startScenario } = useScenarioContext();
   
   // Load data via hooks
-  const { holidays, updateHoliday } = useHolidays();
+  const { holidays, updateHoliday } = useScenarioHolidays();
   const { events: rawEvents } = useEvents();
+  const { dependencies } = useDependencies();
+  const { baselines, saveBaseline, deleteBaseline } = usePlanBaselines();
+  const { tasks } = useProjectTasks();
   
   // Transform raw events to CalendarEvent format
   const events: CalendarEvent[] = useMemo(() => rawEvents.map(e => ({
@@ -138,10 +165,55 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
   const [creatingNewHoliday, setCreatingNewHoliday] = useState<{ startDate: Date; endDate: Date } | null>(null);
   const [editingHolidayId, setEditingHolidayId] = useState<string | null>(null);
   
-  const { 
-    settings 
-  } = useSettingsContext();
+  // Scenario work days replace the real ones while a scenario is open
+  const { settings } = useScenarioSettings();
   
+  // Rebalance auto-estimates of all projects under daily capacity (computed once for every bar)
+  // Priority order is the timeline order: groups top to bottom, then project start date
+  const capacityAllocation = useMemo(() => {
+    if (capacityBalancing === 'off' || !settings) return null;
+    const groupOrder = new Map(groups.map((group, index) => [group.id, index]));
+    const prioritizedProjects = [...projects].sort((a, b) =>
+      (groupOrder.get(a.groupId) ?? groups.length) - (groupOrder.get(b.groupId) ?? groups.length) ||
+      new Date(a.startDate).getTime() - new Date(b.startDate).getTime()
+    );
+    return allocateProjectCapacity(
+      { projects: prioritizedProjects, phases, events, settings, holidays },
+      capacityBalancing
+    );
+  }, [capacityBalancing, projects, groups, phases, events, settings, holidays]);
+
+  // Drift from the selected baseline: ghost bars and the variance table
+  const [isSavingBaseline, setIsSavingBaseline] = useState(false);
+  const activeBaseline = useMemo(
+    () => baselines.find(baseline => baseline.id === activeBaselineId) ?? null,
+    [baselines, activeBaselineId]
+  );
+  const baselineComparison = useMemo(() => {
+    if (!activeBaseline || !settings) return null;
+    return comparePlanWithBaseline(activeBaseline, { projects, phases, events, settings, holidays });
+  }, [activeBaseline, projects, phases, events, settings, holidays]);
+  const baselineVariances = useMemo(
+    () => baselineComparison
+      ? new Map(baselineComparison.projects.map(variance => [variance.projectId, variance]))
+      : undefined,
+    [baselineComparison]
+  );
+
+  // Unscheduled task estimates count as planned time in the bars' metrics
+  const backlogHoursByProject = useMemo(
+    () => new Map(projects.map(project => [project.id, calculateBacklogHours(tasks, events, project.id)])),
+    [projects, tasks, events]
+  );
+
+  const handleSaveBaseline = useCallback(async (name: string) => {
+    if (!settings) return false;
+    const snapshot = capturePlanSnapshot({ projects, phases, events, settings, holidays });
+    const saved = await saveBaseline(name, snapshot);
+    if (saved) setActiveBaselineId(saved.id);
+    return !!saved;
+  }, [projects, phases, events, settings, holidays, saveBaseline, setActiveBaselineId]);
+
   // Validate project relationships
   React.useEffect(() => {
     if (process.env.NODE_ENV === 'development') {
@@ -252,9 +324,11 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
       }));
     }
   }, [viewportStart, VIEWPORT_DAYS, scrollbarRange]);
+  // Rows show the projects of the active saved filter; capacity and baselines still count every project
+  const shownProjects = useMemo(() => applyFilter(projects), [applyFilter, projects]);
   // Get timeline data using your existing hook
   const { dates, viewportEnd, filteredProjects, mode, actualViewportStart } = useTimelineData(
-    projects, 
+    shownProjects, 
     viewportStart, 
     VIEWPORT_DAYS, 
     timelineMode, 
@@ -263,43 +337,48 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
   );
 
   // ========== TIMELINE 2.0: AUTO-LAYOUT CALCULATION ==========
+  // Sections are the groups, or clients/labels/statuses when grouped by those
+  const sections = useMemo(
+    () => groupProjects(filteredProjects, timelineGrouping, classification),
+    [filteredProjects, timelineGrouping, classification]
+  );
+
   // PERFORMANCE: Create stable cache key to prevent recalculation on every scroll
   // Only recalculates when groups/projects change OR viewport moves >1 week
   const layoutCacheKey = useMemo(() => 
     createLayoutCacheKey(
-      groups.map(g => g.id),
+      sections.map(section => `${section.id}:${section.projects.length}`),
       filteredProjects.map(p => p.id),
       viewportStart.getTime()
     ),
-    [groups, filteredProjects, viewportStart]
+    [sections, filteredProjects, viewportStart]
   );
 
-  // Calculate dynamic visual rows for each group using auto-layout algorithm
+  // Calculate dynamic visual rows for each section using auto-layout algorithm
   const groupLayouts = useMemo(() => {
     console.time('Timeline Layout Calculation');
     
-    const layouts = groups.map(group => {
-      const groupProjects = filteredProjects.filter(p => p.groupId === group.id);
-      
-      if (groupProjects.length === 0) {
+    const layouts = sections.map(section => {
+      if (section.projects.length === 0) {
         // Empty group - return minimal layout
         return {
-          groupId: group.id,
-          groupName: group.name,
+          groupId: section.id,
+          groupName: section.name,
           visualRows: [],
           totalHeight: 52 // One empty row
         };
       }
       
       const layout = calculateTimelineRows({
-        projects: groupProjects,
-        groups: [group],
+        projects: section.projects,
+        groups: [section],
         dateRange: {
           start: viewportStart,
           end: viewportEnd
         },
         sortBy: 'startDate',
-        minGapDays: 2
+        minGapDays: 2,
+        getSectionId: () => section.id
       });
 
       return layout.groups[0]; // Return the first (and only) group layout
@@ -307,11 +386,28 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     
     console.timeEnd('Timeline Layout Calculation');
     return layouts;
-    // layoutCacheKey intentionally encapsulates filteredProjects, groups, viewportStart, viewportEnd
+    // layoutCacheKey intentionally encapsulates filteredProjects, sections, viewportStart, viewportEnd
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [layoutCacheKey]); // ← Only dependency is cache key, not individual props
   // ========== END AUTO-LAYOUT CALCULATION ==========
 
+  // Picture of the visible range for clients, built from the same bar data as the timeline
+  const buildTimelineExport = useCallback(() => {
+    if (!settings || dates.length === 0) return null;
+    return buildPlanExport(
+      {
+        sections,
+        projects,
+        phases,
+        holidays,
+        events,
+        settings,
+        estimatesByProject: capacityAllocation?.estimatesByProject
+      },
+      { view: 'timeline', dates, mode }
+    );
+  }, [settings, dates, mode, sections, projects, phases, holidays, events, capacityAllocation]);
+
   // Expand holiday ranges into individual Date objects for fast lookup by the markers
   const holidayDates = useMemo(() => {
     const holidaysWithName = holidays.map(h => ({ ...h, name: h.title || 'Holiday' }));
@@ -577,6 +673,15 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     return estimates;
   }, [projects, phases, settings, holidays, events, isDragging, dragState, viewportStart, viewportEnd]);
   
+  // Offer to shift dependents after a predecessor was resized
+  const { pendingCascade, offerCascade, applyCascade, dismissCascade } = useDependencyCascade({
+    projects,
+    phases,
+    dependencies,
+    updateProject,
+    updatePhase
+  });
+
   // Project resize handler extracted to custom hook
   const { handleProjectResizeMouseDown } = useProjectResize({
     projects,
@@ -590,7 +695,8 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     stopAutoScroll,
     setIsDragging,
     setDragState,
-    dragState
+    dragState,
+    onProjectDatesChanged: (projectId, dates) => offerCascade('project', projectId, dates)
   });
 
   // Phase boundary resize handler
@@ -606,7 +712,8 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     stopAutoScroll,
     setIsDragging,
     setDragState,
-    dragState
+    dragState,
+    onPhaseDatesChanged: (phaseId, dates) => offerCascade('phase', phaseId, dates)
   });
   
   // Clean up auto-scroll on unmount or when dragging stops
@@ -631,7 +738,10 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
     if (currentDate < currentStart || currentDate > currentEnd) {
       // Center the viewport around the currentDate
       let newViewportStart = new Date(currentDate);
-      if (timelineMode === 'weeks') {
+      if (isAggregatedTimelineMode(timelineMode)) {
+        // In month/quarter modes, start at the column containing the date
+        newViewportStart = getTimelineColumnStart(newViewportStart, timelineMode);
+      } else if (timelineMode === 'weeks') {
         // In weeks mode, align to week boundary  
         const dayOfWeek = newViewportStart.getDay();
         const mondayOffset = dayOfWeek === 0 ? -6 : 1 - dayOfWeek; // Monday = 1
@@ -681,10 +791,39 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
             onAnimatingChange={setIsAnimating}
             onCreateNewProject={setCreatingNewProject}
             onHelpClick={() => setHelpModalOpen(true)}
+            isScenarioActive={!!scenario}
+            onStartScenario={() => startScenario(holidays)}
+            capacityBalancing={capacityBalancing}
+            onCapacityBalancingChange={setCapacityBalancing}
+            baselines={baselines}
+            activeBaselineId={activeBaseline?.id ?? null}
+            onActiveBaselineChange={setActiveBaselineId}
+            onSaveBaseline={() => setIsSavingBaseline(true)}
+            grouping={timelineGrouping}
+            onGroupingChange={setTimelineGrouping}
+            buildExport={buildTimelineExport}
           />
           {/* Main Content Area with Card */}
           <AppPageLayout.Content className="px-6 pb-6">
             <div className="flex flex-col min-h-0 flex-1">
+              {/* What-if scenario banner - timeline edits go to the sandbox while active */}
+              <ScenarioPanel events={events} />
+              {/* Capacity balancing summary - where demand exceeds supply */}
+              <CapacityBalancePanel
+                allocation={capacityAllocation}
+                balancing={capacityBalancing}
+                projects={projects}
+                phases={phases}
+              />
+              {/* Baseline drift - dates and hours against the selected baseline */}
+              <BaselineVariancePanel
+                baseline={activeBaseline}
+                comparison={baselineComparison}
+                onClose={() => setActiveBaselineId(null)}
+                onDelete={(baseline) => {
+                  void deleteBaseline(baseline).then(deleted => deleted && setActiveBaselineId(null));
+                }}
+              />
               {/* Timeline Card - expands to fill remaining space */}
               <Card className="flex-1 flex flex-col overflow-hidden relative timeline-card-container min-h-0">
                 {/* Column Markers removed from here - will be added per-row */}
@@ -693,9 +832,9 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
                   <div className="flex border-b border-gray-200 bg-white relative z-10">
                     {/* Date Headers - full width, no sidebar */}
                     <div className="flex-1 bg-white" style={{ 
-                      minWidth: mode === 'weeks' 
-                        ? `${dates.length * 153}px` // 153px per week column (7 days × 21px + 6 gaps × 1px)
-                        : `${dates.length * 52 + 52}px` // 52px per day + 52px buffer
+                      minWidth: mode === 'days' 
+                        ? `${dates.length * 52 + 52}px` // 52px per day + 52px buffer
+                        : `${calculateTimelineContentWidth(dates, mode)}px` // 153px weeks, month/quarter widths follow their days
                     }}>
                       <TimelineDateHeader dates={dates} mode={mode} />
                     </div>
@@ -711,9 +850,9 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
                       <div 
                         className="absolute top-0 left-0 bottom-0 pointer-events-none" 
                         style={{ 
-                          width: mode === 'weeks' 
-                            ? `${dates.length * 153}px` // 153px per week column (matches headers and components)
-                            : `${dates.length * 52 + 52}px`,
+                          width: mode === 'days' 
+                            ? `${dates.length * 52 + 52}px`
+                            : `${calculateTimelineContentWidth(dates, mode)}px`, // Matches headers and components
                           zIndex: 1
                         }}
                       >
@@ -724,23 +863,43 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
                       {/* Scrollable Content Layer */}
                       <div className="relative">
                         {/* Project Timeline Grid - Organized by Groups and VISUAL ROWS (Auto-Layout) */}
-                        <TimelineCard
-                          groups={groups}
-                          groupLayouts={groupLayouts}
-                          collapsedGroups={collapsedGroups}
-                          dates={dates}
-                          viewportStart={viewportStart}
-                          viewportEnd={viewportEnd}
-                          isDragging={isDragging}
-                          dragState={dragState}
-                          handlePhaseDrag={handlePhaseDrag}
-                          handlePhaseDragEnd={handlePhaseDragEnd}
-                          handleProjectResizeMouseDown={handleProjectResizeMouseDown}
-                          handlePhaseResizeMouseDown={handlePhaseResizeMouseDown}
-                          mode={mode}
-                          collapsed={collapsed}
-                          onToggleGroupCollapse={toggleGroupCollapse}
-                        />
+                        <CapacityAllocationScope value={capacityAllocation}>
+                          <TimelineCard
+                            groups={sections}
+                            groupLayouts={groupLayouts}
+                            collapsedGroups={collapsedGroups}
+                            dates={dates}
+                            viewportStart={viewportStart}
+                            viewportEnd={viewportEnd}
+                            isDragging={isDragging}
+                            dragState={dragState}
+                            handlePhaseDrag={handlePhaseDrag}
+                            handlePhaseDragEnd={handlePhaseDragEnd}
+                            handleProjectResizeMouseDown={handleProjectResizeMouseDown}
+                            handlePhaseResizeMouseDown={handlePhaseResizeMouseDown}
+                            mode={mode}
+                            collapsed={collapsed}
+                            onToggleGroupCollapse={toggleGroupCollapse}
+                            baselineVariances={baselineVariances}
+                            backlogHoursByProject={backlogHoursByProject}
+                            canAddGroup={timelineGrouping === 'group'}
+                          />
+                        </CapacityAllocationScope>
+                        {/* Dependency connector lines between project bars and phases */}
+                        {!isDragging && (
+                          <DependencyConnectors
+                            dependencies={dependencies}
+                            phases={phases}
+                            groups={sections}
+                            groupLayouts={groupLayouts}
+                            collapsedGroups={collapsedGroups}
+                            dates={dates}
+                            viewportStart={viewportStart}
+                            viewportEnd={viewportEnd}
+                            mode={mode}
+                            width={mode === 'days' ? dates.length * 52 + 52 : calculateTimelineContentWidth(dates, mode)}
+                          />
+                        )}
                       </div> {/* End of Scrollable Content Layer */}
                     </div> {/* End of Timeline Content */}
                   </div> {/* End of Scrollable Content Area */}
@@ -843,6 +1002,17 @@ export function TimelineView({ mainSidebarCollapsed }: TimelineViewProps) {
             </div>
           </AppPageLayout.Content>
         </AppPageLayout>
+        <DependencyCascadeDialog
+          cascade={pendingCascade}
+          onConfirm={() => void applyCascade()}
+          onClose={dismissCascade}
+        />
+        <SaveBaselineDialog
+          isOpen={isSavingBaseline}
+          projectCount={projects.length}
+          onSave={handleSaveBaseline}
+          onClose={() => setIsSavingBaseline(false)}
+        />
         <React.Suspense fallback={<div>Loading...</div>}>
           <ProjectModal
             isOpen={!!creatingNewProject}
@@ -2,6 +2,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session, AuthError } from '@supabase/supabase-js';
 import { supabase, isSupabaseConfigured, supabaseConfigError } from '@/infrastructure/database/client';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
 import { SupabaseConfigError } from '../components/debug/SupabaseConfigError';
 
 interface AuthContextType {
@@ -92,6 +93,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       return;
     }
     await supabase.auth.signOut();
+    // The offline copy belongs to the signed-out user
+    await offlineSync.clear();
     window.location.href = '/';
   };
   
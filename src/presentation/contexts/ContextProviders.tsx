@@ -3,6 +3,8 @@ import React from 'react';
 import { ProjectProvider } from './ProjectContext';
 import { TimelineProvider } from './TimelineContext';
 import { SettingsProvider } from './SettingsContext';
+import { ScenarioProvider } from './ScenarioContext';
+import { ProjectFilterProvider } from './ProjectFilterContext';
 
 interface ContextProvidersProps {
   children: React.ReactNode;
@@ -17,7 +19,11 @@ export function ContextProviders({ children }: ContextProvidersProps) {
     <SettingsProvider>
       <TimelineProvider>
         <ProjectProvider>
-          {children}
+          <ProjectFilterProvider>
+            <ScenarioProvider>
+              {children}
+            </ScenarioProvider>
+          </ProjectFilterProvider>
         </ProjectProvider>
       </TimelineProvider>
     </SettingsProvider>
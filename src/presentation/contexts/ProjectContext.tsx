@@ -1,6 +1,6 @@
 /* eslint-disable react-refresh/only-export-components */
 import React, { createContext, useContext, useState, useCallback, useMemo, useRef } from 'react';
-import type { PhaseDTO, Project, Group, Row, Phase } from '@/shared/types/core';
+import type { PhaseDTO, Project, Group, Row, Phase, BillingRate } from '@/shared/types/core';
 import { useProjects as useProjectsHook } from '@/presentation/hooks/data/useProjects';
 import { useGroups } from '@/presentation/hooks/data/useGroups';
 import { useRows } from '@/presentation/hooks/data/useRows';
@@ -8,7 +8,9 @@ import { usePhases } from '@/presentation/hooks/data/usePhases';
 import { getProjectColor, getGroupColor } from '@/presentation/constants';
 import type { Database } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { BillingRateMapper } from '@/infrastructure/mappers/BillingRateMapper';
 import { Group as GroupEntity } from '@/domain/entities/Group';
+import type { HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
 type SupabaseGroupRow = Database['public']['Tables']['groups']['Row'];
 type SupabaseRowRow = Database['public']['Tables']['rows']['Row'];
 // Note: Table renamed to 'phases' in database
@@ -70,10 +72,13 @@ type PhaseCreateInput = {
   isRecurring?: boolean;
   recurringConfig?: PhaseDTO['recurringConfig'];
   order?: number;
+  billingRate?: BillingRate | null; // null clears the phase override
 };
 
 type PhaseUpdateInput = Partial<PhaseCreateInput>;
 
+type MutationOptions = { silent?: boolean } & HistoryRecordOptions;
+
 interface CreatingProjectState {
   groupId: string;
   rowId?: string;
@@ -81,14 +86,15 @@ interface CreatingProjectState {
   endDate?: Date;
 }
 
-interface ProjectContextType {
+export interface ProjectContextType {
   // Projects
   projects: Project[];
   addProject: (project: ProjectCreationInput) => Promise<Project>;
-  updateProject: (id: string, updates: ProjectUpdateInput, options?: { silent?: boolean }) => Promise<Project>;
+  updateProject: (id: string, updates: ProjectUpdateInput, options?: MutationOptions) => Promise<Project>;
   deleteProject: (id: string) => Promise<void>;
   reorderProjects: (groupId: string, fromIndex: number, toIndex: number) => void;
   showProjectSuccessToast: (message?: string) => void;
+  refetchProjects: () => Promise<Project[]>;
 
   // Groups
   groups: ProjectGroup[];
@@ -106,9 +112,9 @@ interface ProjectContextType {
 
   // Phases
   phases: PhaseDTO[];
-  addPhase: (phase: PhaseCreateInput, options?: { silent?: boolean }) => Promise<PhaseDTO | undefined>;
-  updatePhase: (id: string, updates: PhaseUpdateInput, options?: { silent?: boolean }) => Promise<void>;
-  deletePhase: (id: string, options?: { silent?: boolean }) => Promise<void>;
+  addPhase: (phase: PhaseCreateInput, options?: MutationOptions) => Promise<PhaseDTO | undefined>;
+  updatePhase: (id: string, updates: PhaseUpdateInput, options?: MutationOptions) => Promise<void>;
+  deletePhase: (id: string, options?: MutationOptions) => Promise<void>;
   getPhasesForProject: (projectId: string) => PhaseDTO[];
   showPhaseSuccessToast: (message?: string) => void;
   refetchPhases: () => Promise<void>;
@@ -159,6 +165,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     deleteProject: dbDeleteProject,
     reorderProjects: dbReorderProjects,
     showSuccessToast: showProjectSuccessToast,
+    refetch: refetchProjects,
   } = useProjectsHook();
 
   const {
@@ -207,6 +214,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
         recurringConfig: phase.recurring_config
           ? (phase.recurring_config as unknown as PhaseDTO['recurringConfig'])
           : undefined,
+        billingRate: BillingRateMapper.fromDatabase(phase.rate_type, phase.rate_amount),
         userId: phase.user_id || '',
         createdAt: phase.created_at ? new Date(phase.created_at) : new Date(),
         updatedAt: phase.updated_at ? new Date(phase.updated_at) : new Date(),
@@ -261,6 +269,16 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return () => window.removeEventListener('phasesUpdated', handlePhasesUpdated as EventListener);
   }, [refetchPhases]);
 
+  // Undo/redo writes projects directly; refetch afterwards
+  React.useEffect(() => {
+    const handleProjectsUpdated = () => {
+      void refetchProjects();
+    };
+
+    window.addEventListener('projectsUpdated', handleProjectsUpdated as EventListener);
+    return () => window.removeEventListener('projectsUpdated', handleProjectsUpdated as EventListener);
+  }, [refetchProjects]);
+
   const addProject = useCallback(async (project: ProjectCreationInput) => {
     const projectWithColor = {
       ...project,
@@ -271,7 +289,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return dbAddProject(projectWithColor as Parameters<typeof dbAddProject>[0]);
   }, [dbAddProject, getNextProjectColor]);
 
-  const updateProject = useCallback((id: string, updates: ProjectUpdateInput, options?: { silent?: boolean }) => {
+  const updateProject = useCallback((id: string, updates: ProjectUpdateInput, options?: MutationOptions) => {
     return dbUpdateProject(id, updates, options);
   }, [dbUpdateProject]);
 
@@ -344,7 +362,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return processedPhases.filter(phase => phase.projectId === projectId);
   }, [processedPhases]);
 
-  const addPhase = useCallback(async (phase: PhaseCreateInput, options?: { silent?: boolean }) => {
+  const addPhase = useCallback(async (phase: PhaseCreateInput, options?: MutationOptions) => {
     const dueDateSource = phase.dueDate ?? phase.endDate;
     if (!dueDateSource) {
       throw new Error('Phase due date is required.');
@@ -372,6 +390,10 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       payload.recurring_config = phase.recurringConfig as unknown as SupabasePhaseInsert['recurring_config'];
     }
 
+    if (phase.billingRate) {
+      Object.assign(payload, BillingRateMapper.toDatabase(phase.billingRate));
+    }
+
     const result = await dbAddPhase(payload, options);
     await refetchPhases();
     
@@ -397,7 +419,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     return undefined;
   }, [dbAddPhase, refetchPhases]);
 
-  const updatePhase = useCallback(async (id: string, updates: PhaseUpdateInput, options?: { silent?: boolean }) => {
+  const updatePhase = useCallback(async (id: string, updates: PhaseUpdateInput, options?: MutationOptions) => {
     const dbUpdates: SupabasePhaseUpdate = {};
 
   if (updates.name !== undefined) dbUpdates.name = updates.name;
@@ -433,10 +455,14 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
       dbUpdates.recurring_config = updates.recurringConfig as unknown as SupabasePhaseUpdate['recurring_config'];
     }
 
+    if (updates.billingRate !== undefined) {
+      Object.assign(dbUpdates, BillingRateMapper.toDatabase(updates.billingRate));
+    }
+
     await dbUpdatePhase(id, dbUpdates, options);
   }, [dbUpdatePhase]);
 
-  const deletePhase = useCallback(async (id: string, options?: { silent?: boolean }) => {
+  const deletePhase = useCallback(async (id: string, options?: MutationOptions) => {
     await dbDeletePhase(id, options);
   }, [dbDeletePhase]);
 
@@ -449,6 +475,7 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
     deleteProject,
     reorderProjects: dbReorderProjects,
     showProjectSuccessToast,
+    refetchProjects,
     groups: processedGroups,
     addGroup,
     updateGroup,
@@ -480,6 +507,18 @@ export function ProjectProvider({ children }: { children: React.ReactNode }) {
   );
 }
 
+/**
+ * Replace the project context for a subtree (e.g. the timeline while a
+ * what-if scenario is active)
+ */
+export function ProjectContextOverride({ value, children }: { value: ProjectContextType; children: React.ReactNode }) {
+  return (
+    <ProjectContext.Provider value={value}>
+      {children}
+    </ProjectContext.Provider>
+  );
+}
+
 export function useProjectContext() {
   const context = useContext(ProjectContext);
   if (context === undefined) {
@@ -0,0 +1,113 @@
+/* eslint-disable react-refresh/only-export-components */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { Project, SavedFilter } from '@/shared/types/core';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { useProjectContext } from './ProjectContext';
+import { useClients } from '@/presentation/hooks/data/useClients';
+import { useLabels } from '@/presentation/hooks/data/useLabels';
+import { useProjectLabelIds } from '@/presentation/hooks/data/useProjectLabelIds';
+import { useSavedFilters, type UseSavedFiltersReturn } from '@/presentation/hooks/data/useSavedFilters';
+import { filterProjects, type ProjectClassificationSources } from '@/domain/rules/filters/ProjectFilters';
+
+interface ProjectFilterContextType {
+  savedFilters: SavedFilter[];
+  activeFilter: SavedFilter | null; // Applied in Timeline, Planner, Overview and Insights
+  setActiveFilterId: (filterId: string | null) => void;
+  saveFilter: UseSavedFiltersReturn['saveFilter'];
+  updateFilter: UseSavedFiltersReturn['updateFilter'];
+  deleteFilter: UseSavedFiltersReturn['deleteFilter'];
+  classification: ProjectClassificationSources; // Groups, clients and labels for filtering and grouping
+  applyFilter: (projects: Project[]) => Project[];
+}
+
+const ProjectFilterContext = createContext<ProjectFilterContextType | undefined>(undefined);
+
+/**
+ * Shares the saved filters and the active one across views, together with the
+ * client and label data needed to filter and group projects.
+ */
+export function ProjectFilterProvider({ children }: { children: React.ReactNode }) {
+  const { groups } = useProjectContext();
+  const { clients, refetch: refetchClients } = useClients();
+  const { labels, refetch: refetchLabels } = useLabels();
+  const { labelIdsByProject } = useProjectLabelIds();
+  const { savedFilters, saveFilter, updateFilter, deleteFilter } = useSavedFilters();
+
+  const [activeFilterId, setActiveFilterId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem('activeFilterId');
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'ProjectFilterContext', action: 'Failed to load activeFilterId from localStorage:' });
+      return null;
+    }
+  });
+
+  useEffect(() => {
+    try {
+      if (activeFilterId) {
+        localStorage.setItem('activeFilterId', activeFilterId);
+      } else {
+        localStorage.removeItem('activeFilterId');
+      }
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'ProjectFilterContext', action: 'Failed to save activeFilterId to localStorage:' });
+    }
+  }, [activeFilterId]);
+
+  // Clients and labels are created from project forms; pick them up for the filter editor
+  useEffect(() => {
+    const handleProjectsUpdated = () => {
+      void refetchClients();
+    };
+    const handleProjectLabelsUpdated = () => {
+      void refetchLabels();
+    };
+    window.addEventListener('projectsUpdated', handleProjectsUpdated);
+    window.addEventListener('projectLabelsUpdated', handleProjectLabelsUpdated);
+    return () => {
+      window.removeEventListener('projectsUpdated', handleProjectsUpdated);
+      window.removeEventListener('projectLabelsUpdated', handleProjectLabelsUpdated);
+    };
+  }, [refetchClients, refetchLabels]);
+
+  // A deleted filter stops applying
+  const activeFilter = useMemo(
+    () => savedFilters.find(filter => filter.id === activeFilterId) ?? null,
+    [savedFilters, activeFilterId]
+  );
+
+  const classification = useMemo<ProjectClassificationSources>(
+    () => ({ groups, clients, labels, labelIdsByProject }),
+    [groups, clients, labels, labelIdsByProject]
+  );
+
+  const applyFilter = useCallback(
+    (projects: Project[]) => filterProjects(projects, activeFilter?.query ?? null, labelIdsByProject),
+    [activeFilter, labelIdsByProject]
+  );
+
+  const contextValue: ProjectFilterContextType = {
+    savedFilters,
+    activeFilter,
+    setActiveFilterId,
+    saveFilter,
+    updateFilter,
+    deleteFilter,
+    classification,
+    applyFilter,
+  };
+
+  return (
+    <ProjectFilterContext.Provider value={contextValue}>
+      {children}
+    </ProjectFilterContext.Provider>
+  );
+}
+
+export function useProjectFilterContext() {
+  const context = useContext(ProjectFilterContext);
+  if (context === undefined) {
+    throw new Error('useProjectFilterContext must be used within a ProjectFilterProvider');
+  }
+  return context;
+}
@@ -0,0 +1,332 @@
+/* eslint-disable react-refresh/only-export-components */
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { Holiday as CoreHoliday, PhaseDTO, Project, Settings } from '@/shared/types/core';
+import { useProjectContext, ProjectContextOverride, type ProjectContextType } from './ProjectContext';
+import { useSettingsContext } from './SettingsContext';
+import { useHolidays, type Holiday } from '@/presentation/hooks/data/useHolidays';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { getProjectColor } from '@/presentation/constants';
+import { ScenarioOrchestrator, type ScenarioApplyResult } from '@/application/orchestrators/ScenarioOrchestrator';
+import {
+  addScenarioHoliday,
+  addScenarioPhase,
+  addScenarioProject,
+  createScenario,
+  diffScenario,
+  removeScenarioHoliday,
+  removeScenarioPhase,
+  removeScenarioProject,
+  updateScenarioHoliday,
+  updateScenarioPhase,
+  updateScenarioProject,
+  type Scenario,
+  type ScenarioDiff,
+  type ScenarioSnapshot
+} from '@/domain/rules/scenarios/ScenarioSandbox';
+
+type HolidayInput = Pick<CoreHoliday, 'title' | 'capacityFraction' | 'availableHours'> & {
+  startDate: Date | string;
+  endDate: Date | string;
+  notes?: string | null;
+};
+
+interface ScenarioContextType {
+  scenario: Scenario | null;
+  diff: ScenarioDiff | null;
+  isApplying: boolean;
+  appliedVersion: number; // Increments after each successful apply
+  startScenario: (holidays: Holiday[]) => void;
+  discardScenario: () => void;
+  applyScenario: (latestHolidays: Holiday[]) => Promise<ScenarioApplyResult | undefined>;
+  updateScenario: (change: (scenario: Scenario) => Scenario) => void;
+}
+
+const ScenarioContext = createContext<ScenarioContextType | undefined>(undefined);
+
+// True inside the part of the app that shows the scenario instead of reality
+const ScenarioScopeContext = createContext(false);
+
+const toCoreHoliday = (holiday: Holiday): CoreHoliday => ({
+  id: holiday.id,
+  title: holiday.title,
+  startDate: holiday.startDate,
+  endDate: holiday.endDate,
+  notes: holiday.notes ?? undefined,
+  capacityFraction: holiday.capacityFraction,
+  availableHours: holiday.availableHours
+});
+
+const toDate = (value: Date | string): Date => (value instanceof Date ? value : new Date(value));
+
+export function ScenarioProvider({ children }: { children: React.ReactNode }) {
+  const { projects, phases, refetchProjects, refetchPhases } = useProjectContext();
+  const { settings } = useSettingsContext();
+  const { toast } = useToast();
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [appliedVersion, setAppliedVersion] = useState(0);
+
+  const diff = useMemo(() => (scenario ? diffScenario(scenario) : null), [scenario]);
+
+  const getRealitySnapshot = useCallback((holidays: Holiday[]): ScenarioSnapshot => ({
+    projects,
+    phases,
+    holidays: holidays.map(toCoreHoliday),
+    weeklyWorkHours: settings.weeklyWorkHours,
+    workSchedules: settings.workSchedules
+  }), [projects, phases, settings.weeklyWorkHours, settings.workSchedules]);
+
+  const startScenario = useCallback((holidays: Holiday[]) => {
+    setScenario(createScenario(getRealitySnapshot(holidays)));
+  }, [getRealitySnapshot]);
+
+  const discardScenario = useCallback(() => setScenario(null), []);
+
+  const updateScenario = useCallback((change: (scenario: Scenario) => Scenario) => {
+    setScenario(prev => (prev ? change(prev) : prev));
+  }, []);
+
+  const applyScenario = useCallback(async (latestHolidays: Holiday[]) => {
+    if (!scenario) return undefined;
+
+    setIsApplying(true);
+    try {
+      const result = await ScenarioOrchestrator.applyScenarioWorkflow(scenario, getRealitySnapshot(latestHolidays));
+      if (result.success) {
+        await Promise.all([refetchProjects(), refetchPhases()]);
+        setScenario(null);
+        setAppliedVersion(version => version + 1);
+        toast({
+          title: 'Scenario applied',
+          description: `${result.changeCount} change${result.changeCount === 1 ? '' : 's'} saved`,
+        });
+      } else {
+        toast({
+          title: 'Scenario not applied',
+          description: result.conflicts.length > 0 ? result.conflicts.join('\n') : result.error,
+          variant: 'destructive',
+        });
+      }
+      return result;
+    } finally {
+      setIsApplying(false);
+    }
+  }, [scenario, getRealitySnapshot, refetchProjects, refetchPhases, toast]);
+
+  const value: ScenarioContextType = {
+    scenario,
+    diff,
+    isApplying,
+    appliedVersion,
+    startScenario,
+    discardScenario,
+    applyScenario,
+    updateScenario
+  };
+
+  return (
+    <ScenarioContext.Provider value={value}>
+      {children}
+    </ScenarioContext.Provider>
+  );
+}
+
+export function useScenarioContext() {
+  const context = useContext(ScenarioContext);
+  if (context === undefined) {
+    throw new Error('useScenarioContext must be used within a ScenarioProvider');
+  }
+  return context;
+}
+
+/**
+ * Show the active scenario instead of reality within children.
+ *
+ * Project and phase edits made inside go to the scenario; everything
+ * else in the project context is passed through unchanged.
+ */
+export function ScenarioScope({ children }: { children: React.ReactNode }) {
+  const reality = useProjectContext();
+  const { scenario, updateScenario } = useScenarioContext();
+
+  const value = useMemo<ProjectContextType>(() => {
+    if (!scenario) return reality;
+    const { projects, phases } = scenario.current;
+
+    const addProject: ProjectContextType['addProject'] = async (input) => {
+      const now = new Date();
+      const project: Project = {
+        id: crypto.randomUUID(),
+        name: input.name,
+        client: input.client ?? '',
+        clientId: input.clientId ?? '',
+        groupId: input.groupId ?? '',
+        rowId: input.rowId,
+        startDate: input.startDate,
+        endDate: input.endDate ?? new Date(new Date(input.startDate).getTime() + 30 * 24 * 60 * 60 * 1000),
+        estimatedHours: input.estimatedHours,
+        color: input.color ?? getProjectColor(projects.length),
+        notes: input.notes,
+        icon: input.icon,
+        continuous: input.continuous,
+        autoEstimateDays: input.autoEstimateDays,
+        userId: '',
+        createdAt: now,
+        updatedAt: now
+      };
+      updateScenario(current => addScenarioProject(current, project));
+      return project;
+    };
+
+    const updateProject: ProjectContextType['updateProject'] = async (id, updates) => {
+      updateScenario(current => updateScenarioProject(current, id, updates));
+      return { ...projects.find(project => project.id === id)!, ...updates };
+    };
+
+    const addPhase: ProjectContextType['addPhase'] = async (input) => {
+      const now = new Date();
+      const endDate = toDate(input.endDate ?? input.dueDate);
+      const hours = input.timeAllocationHours ?? input.timeAllocation;
+      const phase: PhaseDTO = {
+        id: crypto.randomUUID(),
+        name: input.name,
+        projectId: input.projectId,
+        startDate: input.startDate ? toDate(input.startDate) : endDate,
+        endDate,
+        dueDate: endDate,
+        timeAllocation: hours,
+        timeAllocationHours: hours,
+        isRecurring: input.isRecurring,
+        recurringConfig: input.recurringConfig,
+        billingRate: input.billingRate ?? undefined,
+        userId: '',
+        createdAt: now,
+        updatedAt: now
+      };
+      updateScenario(current => addScenarioPhase(current, phase));
+      return phase;
+    };
+
+    const updatePhase: ProjectContextType['updatePhase'] = async (id, input) => {
+      const { startDate, endDate, dueDate, billingRate, order: _order, ...rest } = input;
+      const updates: Partial<PhaseDTO> = {
+        ...rest,
+        ...(startDate !== undefined && { startDate: toDate(startDate) }),
+        ...(endDate !== undefined && { endDate: toDate(endDate) }),
+        ...(dueDate !== undefined && { dueDate: toDate(dueDate) }),
+        ...(billingRate !== undefined && { billingRate: billingRate ?? undefined })
+      };
+      updateScenario(current => updateScenarioPhase(current, id, updates));
+    };
+
+    return {
+      ...reality,
+      projects,
+      phases,
+      getPhasesForProject: (projectId: string) => phases.filter(phase => phase.projectId === projectId),
+      addProject,
+      updateProject,
+      deleteProject: async (id: string) => updateScenario(current => removeScenarioProject(current, id)),
+      addPhase,
+      updatePhase,
+      deletePhase: async (id: string) => updateScenario(current => removeScenarioPhase(current, id))
+    };
+  }, [reality, scenario, updateScenario]);
+
+  return (
+    <ScenarioScopeContext.Provider value={true}>
+      <ProjectContextOverride value={value}>
+        {children}
+      </ProjectContextOverride>
+    </ScenarioScopeContext.Provider>
+  );
+}
+
+/**
+ * useSettingsContext, but with the active scenario's work week and schedules
+ * inside a ScenarioScope (edited through updateScenarioWorkHours)
+ */
+export function useScenarioSettings() {
+  const reality = useSettingsContext();
+  const context = useContext(ScenarioContext);
+  const inScope = useContext(ScenarioScopeContext);
+  const scenario = inScope ? context?.scenario ?? null : null;
+
+  const scenarioSettings = useMemo<Settings | null>(() => {
+    if (!scenario) return null;
+    return {
+      ...reality.settings,
+      weeklyWorkHours: scenario.current.weeklyWorkHours,
+      workSchedules: scenario.current.workSchedules
+    };
+  }, [scenario, reality.settings]);
+
+  if (!scenarioSettings) return reality;
+  return { ...reality, settings: scenarioSettings };
+}
+
+/**
+ * useHolidays, but showing and editing the active scenario's holidays
+ * inside a ScenarioScope
+ */
+export function useScenarioHolidays() {
+  const reality = useHolidays();
+  const context = useContext(ScenarioContext);
+  const inScope = useContext(ScenarioScopeContext);
+  const scenario = inScope ? context?.scenario ?? null : null;
+  const updateScenario = context?.updateScenario;
+  const appliedVersion = context?.appliedVersion ?? 0;
+  const { refetch } = reality;
+
+  // Each useHolidays instance keeps its own state; reload after an apply
+  useEffect(() => {
+    if (appliedVersion > 0) void refetch();
+  }, [appliedVersion, refetch]);
+
+  const scenarioHolidays = useMemo<Holiday[] | null>(() => {
+    if (!scenario) return null;
+    const realById = new Map(reality.holidays.map(holiday => [holiday.id, holiday]));
+    return scenario.current.holidays.map(holiday => {
+      const real = realById.get(holiday.id);
+      return {
+        ...holiday,
+        created_at: real?.created_at ?? '',
+        updated_at: real?.updated_at ?? '',
+        user_id: real?.user_id ?? ''
+      };
+    });
+  }, [scenario, reality.holidays]);
+
+  if (!scenarioHolidays || !updateScenario) return reality;
+
+  return {
+    ...reality,
+    holidays: scenarioHolidays,
+    addHoliday: async (input: HolidayInput) => {
+      const holiday: CoreHoliday = {
+        id: crypto.randomUUID(),
+        title: input.title,
+        startDate: toDate(input.startDate),
+        endDate: toDate(input.endDate),
+        notes: input.notes ?? undefined,
+        capacityFraction: input.capacityFraction,
+        availableHours: input.availableHours
+      };
+      updateScenario(current => addScenarioHoliday(current, holiday));
+      return holiday;
+    },
+    updateHoliday: async (id: string, input: Partial<HolidayInput>) => {
+      const { startDate, endDate, notes, ...rest } = input;
+      const updates: Partial<CoreHoliday> = {
+        ...rest,
+        ...(startDate !== undefined && { startDate: toDate(startDate) }),
+        ...(endDate !== undefined && { endDate: toDate(endDate) }),
+        ...(notes !== undefined && { notes: notes ?? undefined })
+      };
+      updateScenario(current => updateScenarioHoliday(current, id, updates));
+    },
+    deleteHoliday: async (id: string) => {
+      updateScenario(current => removeScenarioHoliday(current, id));
+    }
+  };
+}
@@ -1,19 +1,23 @@
 /* eslint-disable react-refresh/only-export-components */
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
-import { Settings, WorkHour, WorkHourOverride, TimelineEntry } from '@/shared/types/core';
+import { Settings, WorkHour, WorkHourOverride, TimelineEntry, PublicHolidayCalendarSetting } from '@/shared/types/core';
 import { useSettings as useSettingsHook } from '@/presentation/hooks/settings/useSettings';
 import { timeTrackingOrchestrator } from '@/application/orchestrators/timeTrackingOrchestrator';
 import { supabase } from '@/infrastructure/database/client';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import type { Database } from '@/infrastructure/database/types';
+import type { FocusSessionState } from '@/shared/types/timeTracking';
 
 type SettingsRow = (Database['public']['Tables']['settings']['Row']) & {
   default_view?: string | null;
   is_compact_view?: boolean | null;
   weekly_work_hours?: Settings['weeklyWorkHours'] | null;
+  work_schedules?: Settings['workSchedules'] | null;
+  public_holiday_calendar?: PublicHolidayCalendarSetting | null;
 };
 type SettingsUpdatePayload = Partial<Database['public']['Tables']['settings']['Update']> & {
   weekly_work_hours?: Settings['weeklyWorkHours'];
+  work_schedules?: Settings['workSchedules'];
   default_view?: string;
   is_compact_view?: boolean;
 };
@@ -42,6 +46,7 @@ interface SettingsContextType {
   setIsTimeTracking: (isTracking: boolean) => void;
   currentTrackingEventId: string | null;
   setCurrentTrackingEventId: (eventId: string | null) => void;
+  focusSession: FocusSessionState | null; // Synced pomodoro/focus session, if any
   
   // Loading states
   isLoading: boolean;
@@ -63,6 +68,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [timelineEntries, setTimelineEntries] = useState<TimelineEntryWithId[]>([]);
   const [isTimeTracking, setIsTimeTracking] = useState<boolean>(false);
   const [currentTrackingEventId, setCurrentTrackingEventId] = useState<string | null>(null);
+  const [focusSession, setFocusSession] = useState<FocusSessionState | null>(null);
   const [realtimeSubscription, setRealtimeSubscription] = useState<RealtimeSubscription | null>(null);
 
   // Initialize sync service when user is available
@@ -77,6 +83,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         timeTrackingOrchestrator.setOnStateChangeCallback(async (syncedState) => {
           setIsTimeTracking(syncedState.isTracking);
           setCurrentTrackingEventId(syncedState.eventId || null);
+          setFocusSession(syncedState.focus ?? null);
           
           // If tracking started, ensure UI state is synced by triggering a re-render
           // The TimeTracker components will react to the global state change
@@ -101,6 +108,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
           if (hasCompleteState) {
             setIsTimeTracking(true);
             setCurrentTrackingEventId(dbState.eventId);
+            setFocusSession(dbState.focus ?? null);
           } else if (dbState.isTracking) {
             // We have incomplete tracking state - clean it up
             console.warn('⚠️ Found incomplete tracking state in DB, cleaning up:', {
@@ -115,9 +123,10 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
             setIsTimeTracking(false);
             setCurrentTrackingEventId(null);
           } else {
-            // Tracking is off, ensure state is clean
+            // Tracking is off, ensure state is clean (a focus session may be on a break)
             setIsTimeTracking(false);
             setCurrentTrackingEventId(null);
+            setFocusSession(dbState.focus ?? null);
           }
         }
 
@@ -186,6 +195,8 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
                      'monday' in dbSettingsTyped.weekly_work_hours) 
       ? dbSettingsTyped.weekly_work_hours as unknown as Settings['weeklyWorkHours']
       : defaultSettings.weeklyWorkHours,
+    workSchedules: Array.isArray(dbSettingsTyped.work_schedules) ? dbSettingsTyped.work_schedules : [],
+    publicHolidayCalendar: dbSettingsTyped.public_holiday_calendar ?? null,
     defaultView: dbSettingsTyped.default_view || localDefaultView,
     isCompactView: dbSettingsTyped.is_compact_view ?? localIsCompactView
   } : { ...defaultSettings, defaultView: localDefaultView, isCompactView: localIsCompactView };
@@ -229,6 +240,9 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     if (updates.weeklyWorkHours) {
       dbUpdates.weekly_work_hours = updates.weeklyWorkHours as unknown as SettingsRow['weekly_work_hours'];
     }
+    if (updates.workSchedules) {
+      dbUpdates.work_schedules = updates.workSchedules as unknown as SettingsUpdatePayload['work_schedules'];
+    }
     if (updates.defaultView !== undefined) {
       dbUpdates.default_view = updates.defaultView;
       setLocalDefaultView(updates.defaultView);
@@ -244,7 +258,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
       }
     }
     // Only attempt database update if there are actual DB fields to update
-    if (Object.keys(dbUpdates).length > 0 && updates.weeklyWorkHours) {
+    if (Object.keys(dbUpdates).length > 0 && (updates.weeklyWorkHours || updates.workSchedules)) {
       return dbUpdateSettings(dbUpdates as Partial<Database['public']['Tables']['settings']['Update']>);
     }
     // Return resolved promise for non-DB updates (localStorage only)
@@ -272,6 +286,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     setIsTimeTracking: setIsTimeTrackingWithSync,
     currentTrackingEventId,
     setCurrentTrackingEventId,
+    focusSession,
     
     // Loading states
     isLoading: settingsLoading,
@@ -1,18 +1,30 @@
 /* eslint-disable react-refresh/only-export-components */
 import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
-import { TimelineEntry } from '@/shared/types/core';
+import type { TimelineEntry, TimelineMode } from '@/shared/types/core';
+import type { AllocationOrder } from '@/domain/rules/availability/CapacityAllocation';
+import type { ProjectCapacityAllocation } from '@/application/queries/CapacityAllocationAggregate';
+import type { ProjectGrouping } from '@/domain/rules/filters/ProjectFilters';
 
 type TimelineEntryWithId = TimelineEntry & { id: string };
 
+// 'off' shows each project's own estimates; otherwise estimates are rebalanced in this order
+export type CapacityBalancing = 'off' | AllocationOrder;
+
 interface TimelineContextType {
   // Timeline View State
   currentView: string;
   setCurrentView: (view: string) => void;
-  timelineMode: 'days' | 'weeks';
-  setTimelineMode: (mode: 'days' | 'weeks') => void;
+  timelineMode: TimelineMode;
+  setTimelineMode: (mode: TimelineMode) => void;
   currentDate: Date;
   setCurrentDate: (date: Date) => void;
+  capacityBalancing: CapacityBalancing;
+  setCapacityBalancing: (balancing: CapacityBalancing) => void;
+  activeBaselineId: string | null; // Baseline the timeline shows drift against
+  setActiveBaselineId: (baselineId: string | null) => void;
+  timelineGrouping: ProjectGrouping; // What the timeline rows are sectioned by
+  setTimelineGrouping: (grouping: ProjectGrouping) => void;
   
   // Timeline Entries (legacy - to be refactored)
   timelineEntries: TimelineEntryWithId[];
@@ -45,10 +57,36 @@ export function TimelineProvider({ children }: { children: React.ReactNode }) {
       return 'timeline';
     }
   });
-  const [timelineMode, setTimelineMode] = useState<'days' | 'weeks'>('days');
+  const [timelineMode, setTimelineMode] = useState<TimelineMode>('days');
   const [currentDate, setCurrentDate] = useState<Date>(new Date());
   const [timelineEntries, setTimelineEntries] = useState<TimelineEntryWithId[]>([]);
   const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [capacityBalancing, setCapacityBalancing] = useState<CapacityBalancing>(() => {
+    try {
+      const saved = localStorage.getItem('capacityBalancing');
+      return saved === 'deadline' || saved === 'priority' ? saved : 'off';
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to load capacityBalancing from localStorage:' });
+      return 'off';
+    }
+  });
+  const [activeBaselineId, setActiveBaselineId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem('activeBaselineId');
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to load activeBaselineId from localStorage:' });
+      return null;
+    }
+  });
+  const [timelineGrouping, setTimelineGrouping] = useState<ProjectGrouping>(() => {
+    try {
+      const saved = localStorage.getItem('timelineGrouping');
+      return saved === 'client' || saved === 'label' || saved === 'status' ? saved : 'group';
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to load timelineGrouping from localStorage:' });
+      return 'group';
+    }
+  });
 
   // Persist currentView to localStorage whenever it changes
   useEffect(() => {
@@ -59,6 +97,34 @@ export function TimelineProvider({ children }: { children: React.ReactNode }) {
     }
   }, [currentView]);
 
+  useEffect(() => {
+    try {
+      localStorage.setItem('capacityBalancing', capacityBalancing);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to save capacityBalancing to localStorage:' });
+    }
+  }, [capacityBalancing]);
+
+  useEffect(() => {
+    try {
+      if (activeBaselineId) {
+        localStorage.setItem('activeBaselineId', activeBaselineId);
+      } else {
+        localStorage.removeItem('activeBaselineId');
+      }
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to save activeBaselineId to localStorage:' });
+    }
+  }, [activeBaselineId]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('timelineGrouping', timelineGrouping);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'TimelineContext', action: 'Failed to save timelineGrouping to localStorage:' });
+    }
+  }, [timelineGrouping]);
+
   // Timeline navigation functions
   const navigateToToday = useCallback(() => {
     setCurrentDate(new Date());
@@ -98,7 +164,12 @@ export function TimelineProvider({ children }: { children: React.ReactNode }) {
     const start = new Date(currentDate);
     const end = new Date(currentDate);
     
-    if (timelineMode === 'weeks') {
+    if (timelineMode === 'months' || timelineMode === 'quarters') {
+      // Show the months/quarters either side
+      const monthsEitherSide = timelineMode === 'quarters' ? 6 : 2;
+      start.setMonth(currentDate.getMonth() - monthsEitherSide);
+      end.setMonth(currentDate.getMonth() + monthsEitherSide);
+    } else if (timelineMode === 'weeks') {
       // Show multiple weeks
       start.setDate(currentDate.getDate() - 14); // 2 weeks before
       end.setDate(currentDate.getDate() + 14);   // 2 weeks after
@@ -137,6 +208,12 @@ export function TimelineProvider({ children }: { children: React.ReactNode }) {
     setTimelineMode,
     currentDate,
     setCurrentDate,
+    capacityBalancing,
+    setCapacityBalancing,
+    activeBaselineId,
+    setActiveBaselineId,
+    timelineGrouping,
+    setTimelineGrouping,
     
     // Timeline Entries (legacy)
     timelineEntries,
@@ -170,3 +247,27 @@ export function useTimelineContext() {
   }
   return context;
 }
+
+// Rebalanced estimates for the timeline rows, computed once by the timeline view
+const CapacityAllocationContext = createContext<ProjectCapacityAllocation | null>(null);
+
+export function CapacityAllocationScope({
+  value,
+  children
+}: {
+  value: ProjectCapacityAllocation | null;
+  children: React.ReactNode;
+}) {
+  return (
+    <CapacityAllocationContext.Provider value={value}>
+      {children}
+    </CapacityAllocationContext.Provider>
+  );
+}
+
+/**
+ * Rebalanced estimates while capacity balancing is on, otherwise null
+ */
+export function useCapacityAllocation() {
+  return useContext(CapacityAllocationContext);
+}
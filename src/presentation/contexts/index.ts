@@ -1,7 +1,10 @@
 // Export all context providers and hooks
 export { ProjectProvider, useProjectContext } from './ProjectContext';
-export { TimelineProvider, useTimelineContext } from './TimelineContext';
+export { TimelineProvider, useTimelineContext, CapacityAllocationScope, useCapacityAllocation } from './TimelineContext';
+export type { CapacityBalancing } from './TimelineContext';
 export { SettingsProvider, useSettingsContext } from './SettingsContext';
+export { ProjectFilterProvider, useProjectFilterContext } from './ProjectFilterContext';
+export { ScenarioProvider, ScenarioScope, useScenarioContext, useScenarioHolidays, useScenarioSettings } from './ScenarioContext';
 
 // Auth context
 export { AuthProvider, useAuth } from './AuthContext';
@@ -1,5 +1,6 @@
 // Calendar View Hooks - Calendar/Planner-specific interactions
 export * from './useCalendarConnections';
+export * from './useCalendarSubscriptionSync';
 export * from './useCalendarDragDrop';
 export * from './useCalendarKeyboardShortcuts';
 export * from './useHoverableDateHeaders';
@@ -3,6 +3,7 @@ import { supabase } from '@/infrastructure/database/client';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import type { Database } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { CalendarImportOrchestrator, type SubscriptionInput } from '@/application/orchestrators/CalendarImportOrchestrator';
 
 type CalendarConnection = Database['public']['Tables']['calendar_connections']['Row'];
 type CalendarConnectionInsert = Database['public']['Tables']['calendar_connections']['Insert'];
@@ -151,6 +152,45 @@ export function useCalendarConnections() {
     }
   };
 
+  const addSubscription = async (input: SubscriptionInput) => {
+    const result = await CalendarImportOrchestrator.createSubscriptionWorkflow(input);
+    if (!result.success || !result.connection) {
+      toast({
+        title: "Error",
+        description: result.error || "Failed to add calendar subscription",
+        variant: "destructive",
+      });
+      return null;
+    }
+
+    setConnections(prev => [result.connection, ...prev]);
+    const syncResult = await CalendarImportOrchestrator.syncSubscription(result.connection.id);
+    await fetchConnections();
+    await fetchImportHistory();
+    toast({
+      title: syncResult.success ? "Subscribed" : "Subscription added",
+      description: syncResult.success
+        ? `Imported ${syncResult.imported} events from ${result.connection.connection_name}`
+        : "The feed could not be fetched yet. It will be retried on the next sync.",
+      variant: syncResult.success ? undefined : "destructive",
+    });
+    return result.connection;
+  };
+
+  const syncSubscription = async (connectionId: string) => {
+    const result = await CalendarImportOrchestrator.syncSubscription(connectionId);
+    await fetchConnections();
+    await fetchImportHistory();
+    toast({
+      title: result.success ? "Sync complete" : "Sync failed",
+      description: result.success
+        ? `${result.imported} added, ${result.updated} updated, ${result.deleted ?? 0} removed`
+        : result.errors[0],
+      variant: result.success ? undefined : "destructive",
+    });
+    return result;
+  };
+
   const authenticateConnection = async (connectionId: string) => {
     try {
       const { data: { session } } = await supabase.auth.getSession();
@@ -221,6 +261,8 @@ export function useCalendarConnections() {
     addConnection,
     updateConnection,
     deleteConnection,
+    addSubscription,
+    syncSubscription,
     authenticateConnection,
     revokeConnection,
     refetch: () => {
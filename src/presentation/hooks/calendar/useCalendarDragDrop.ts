@@ -1,7 +1,8 @@
 /**
  * useCalendarDragDrop
  * 
- * Custom hook for handling drag/drop of projects from summary row to calendar.
+ * Custom hook for handling drag/drop of projects from summary row to calendar,
+ * and of backlog tasks from the task sidebar.
  * Coordinates DOM events with calendar API and event creation.
  * 
  * Architecture:
@@ -21,13 +22,15 @@ interface UseCalendarDragDropProps {
   events: CalendarEvent[];
   setCreatingNewEvent: (config: { startTime: Date; endTime: Date } | null) => void;
   toast: (config: { title: string; description: string; variant?: 'default' | 'destructive'; duration?: number }) => void;
+  onTaskDrop?: (taskId: string, startTime: Date) => void;
 }
 
 export function useCalendarDragDrop({
   calendarRef,
   events,
   setCreatingNewEvent,
-  toast
+  toast,
+  onTaskDrop
 }: UseCalendarDragDropProps) {
   useEffect(() => {
     const calendarEl = document.querySelector('.fc-timegrid-body');
@@ -44,10 +47,12 @@ export function useCalendarDragDrop({
       try {
         const data = JSON.parse(e.dataTransfer!.getData('application/json')) as {
           type: string;
-          projectId: string;
-          estimatedHours: number;
+          projectId?: string;
+          estimatedHours?: number;
+          taskId?: string;
         };
-        if (data.type !== 'project-estimate') return;
+        const isTaskDrop = data.type === 'project-task' && !!data.taskId && !!onTaskDrop;
+        if (data.type !== 'project-estimate' && !isTaskDrop) return;
 
         const calendarApi = calendarRef.current?.getApi();
         if (!calendarApi) return;
@@ -95,11 +100,19 @@ export function useCalendarDragDrop({
         }
 
         const startTime = targetDate;
-        
+
+        // Tasks are scheduled at their full estimate by the task workflow
+        if (isTaskDrop) {
+          onTaskDrop!(data.taskId!, startTime);
+          return;
+        }
+
+        const estimatedHours = data.estimatedHours ?? 0;
+
         // Calculate end time based on estimated hours
         const endTime = new Date(startTime);
-        endTime.setHours(endTime.getHours() + Math.floor(data.estimatedHours));
-        endTime.setMinutes(endTime.getMinutes() + Math.round((data.estimatedHours % 1) * 60));
+        endTime.setHours(endTime.getHours() + Math.floor(estimatedHours));
+        endTime.setMinutes(endTime.getMinutes() + Math.round((estimatedHours % 1) * 60));
 
         // Check for overlapping events and compress if needed
         const overlappingEvents = events.filter(event => {
@@ -154,5 +167,5 @@ export function useCalendarDragDrop({
       calendarEl.removeEventListener('dragover', handleDragOver as EventListener);
       calendarEl.removeEventListener('drop', handleDrop as EventListener);
     };
-  }, [calendarRef, events, setCreatingNewEvent, toast]);
+  }, [calendarRef, events, setCreatingNewEvent, toast, onTaskDrop]);
 }
@@ -1,13 +1,5 @@
 import { useEffect } from 'react';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
-import { CalendarEvent } from '@/shared/types/core';
-
-type LastAction = {
-  type: 'update' | 'create' | 'delete';
-  eventId: string;
-  previousState?: Partial<CalendarEvent>;
-  event?: CalendarEvent;
-} | null;
 
 interface CalendarKeyboardShortcutsConfig {
   // State setters
@@ -17,10 +9,8 @@ interface CalendarKeyboardShortcutsConfig {
   // Current state values
   selectedEventId: string | null;
   currentView: 'week' | 'day';
-  lastAction: LastAction;
   
   // Service/action callbacks
-  undoLastAction: () => void;
   deleteEventWithUndo: (id: string) => void;
   handleNavigate: (direction: 'prev' | 'next' | 'today') => void;
   handleViewChange: (view: 'week' | 'day') => void;
@@ -30,13 +20,14 @@ interface CalendarKeyboardShortcutsConfig {
  * Custom hook for managing calendar keyboard shortcuts
  * 
  * Keyboard Shortcuts:
- * - Cmd/Ctrl + Z: Undo last action
  * - Escape: Clear selection
  * - Arrow Left/Right: Navigate prev/next period
  * - Arrow Up/Down: Switch between Week/Day views
  * - T: Go to Today
  * - L: Toggle layers visibility menu
  * - Delete/Backspace: Delete selected event
+ *
+ * Undo/redo (Cmd/Ctrl + Z) is handled app-wide by useUndoRedoShortcuts.
  * 
  * @example
  * ```tsx
@@ -45,8 +36,6 @@ interface CalendarKeyboardShortcutsConfig {
  *   setIsLayersPopoverOpen,
  *   selectedEventId,
  *   currentView,
- *   lastAction,
- *   undoLastAction,
  *   deleteEventWithUndo,
  *   handleNavigate,
  *   handleViewChange
@@ -58,8 +47,6 @@ export function useCalendarKeyboardShortcuts({
   setIsLayersPopoverOpen,
   selectedEventId,
   currentView,
-  lastAction,
-  undoLastAction,
   deleteEventWithUndo,
   handleNavigate,
   handleViewChange,
@@ -77,21 +64,8 @@ export function useCalendarKeyboardShortcuts({
         return;
       }
 
-      // Handle modifier key combinations
+      // Modifier combinations (undo/redo) are handled by useUndoRedoShortcuts
       if (e.metaKey || e.ctrlKey) {
-        switch (e.key.toLowerCase()) {
-          case 'z':
-            e.preventDefault();
-            if (lastAction) {
-              undoLastAction();
-              toast({
-                title: "Action undone",
-                description: "Last change has been reverted",
-                duration: 2000,
-              });
-            }
-            break;
-        }
         return;
       }
 
@@ -159,8 +133,6 @@ export function useCalendarKeyboardShortcuts({
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [
-    lastAction,
-    undoLastAction,
     toast,
     setSelectedEventId,
     selectedEventId,
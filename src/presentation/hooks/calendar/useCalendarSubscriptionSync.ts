@@ -0,0 +1,42 @@
+import { useEffect } from 'react';
+import { CalendarImportOrchestrator } from '@/application/orchestrators/CalendarImportOrchestrator';
+
+/** How often to check for due subscriptions; each connection's own sync_frequency decides if it runs */
+const SUBSCRIPTION_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Background scheduler for ICS feed subscriptions.
+ * Runs once on mount, then periodically and whenever the tab becomes visible again.
+ * Views refetch events after a sync that changed rows.
+ */
+export const useCalendarSubscriptionSync = (enabled: boolean = true) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let isRunning = false;
+    const runDueSyncs = async () => {
+      if (isRunning || !navigator.onLine) return;
+      isRunning = true;
+      try {
+        const results = await CalendarImportOrchestrator.syncDueSubscriptions();
+        const changed = Object.values(results).some(result => result.imported + result.updated + (result.deleted ?? 0) > 0);
+        if (changed) window.dispatchEvent(new CustomEvent('eventsUpdated'));
+      } finally {
+        isRunning = false;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') runDueSyncs();
+    };
+
+    runDueSyncs();
+    const intervalId = setInterval(runDueSyncs, SUBSCRIPTION_CHECK_INTERVAL_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      clearInterval(intervalId);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled]);
+};
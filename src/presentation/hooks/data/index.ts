@@ -7,5 +7,12 @@ export * from './useGroups';
 export * from './useRows';
 export * from './useLabels';
 export * from './useHabits';
+export * from './useHabitTargets';
+export * from './useProjectTasks';
+export * from './useDependencies';
+export * from './usePlanBaselines';
+export * from './useSavedFilters';
+export * from './useProjectLabelIds';
 export * from './useHolidays';
 export * from './useWorkHours';
+export * from './usePublicHolidaySync';
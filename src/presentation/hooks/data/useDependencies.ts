@@ -0,0 +1,103 @@
+/**
+ * useDependencies Hook
+ *
+ * React hook for project and phase dependencies.
+ * Coordinates DependencyOrchestrator for CRUD; refetches on 'dependenciesUpdated'.
+ *
+ * @module useDependencies
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Dependency, PhaseDTO } from '@/shared/types/core';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import {
+  DependencyOrchestrator,
+  type DependencyCreationInput,
+  type DependencyUpdateInput,
+  type DependencyWorkflowResult
+} from '@/application/orchestrators/DependencyOrchestrator';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+export interface UseDependenciesReturn {
+  dependencies: Dependency[];
+  loading: boolean;
+  addDependency: (input: DependencyCreationInput, phases?: PhaseDTO[]) => Promise<Dependency | null>;
+  updateDependency: (dependency: Dependency, updates: DependencyUpdateInput) => Promise<boolean>;
+  deleteDependency: (dependency: Dependency) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for managing dependencies
+ */
+export function useDependencies(): UseDependenciesReturn {
+  const [dependencies, setDependencies] = useState<Dependency[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Fetch all dependencies for the current user
+   */
+  const fetchDependencies = useCallback(async () => {
+    try {
+      setLoading(true);
+      setDependencies(await DependencyOrchestrator.getDependencies());
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useDependencies', action: 'Error fetching dependencies:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchDependencies();
+
+    // Refetch after dependency workflows and undo/redo
+    const handleDependenciesUpdated = () => {
+      void fetchDependencies();
+    };
+    window.addEventListener('dependenciesUpdated', handleDependenciesUpdated);
+    return () => window.removeEventListener('dependenciesUpdated', handleDependenciesUpdated);
+  }, [fetchDependencies]);
+
+  /**
+   * Toast the errors of a failed workflow
+   */
+  const reportFailure = useCallback((result: DependencyWorkflowResult, title: string) => {
+    toast({
+      title,
+      description: result.errors?.join(', '),
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const addDependency = async (input: DependencyCreationInput, phases: PhaseDTO[] = []): Promise<Dependency | null> => {
+    const result = await DependencyOrchestrator.createDependencyWorkflow(input, dependencies, phases);
+    if (!result.success) {
+      reportFailure(result, 'Could not add dependency');
+      return null;
+    }
+    return result.dependency || null;
+  };
+
+  const updateDependency = async (dependency: Dependency, updates: DependencyUpdateInput): Promise<boolean> => {
+    const result = await DependencyOrchestrator.updateDependencyWorkflow(dependency, updates);
+    if (!result.success) reportFailure(result, 'Could not update dependency');
+    return result.success;
+  };
+
+  const deleteDependency = async (dependency: Dependency): Promise<boolean> => {
+    const result = await DependencyOrchestrator.deleteDependencyWorkflow(dependency);
+    if (!result.success) reportFailure(result, 'Could not remove dependency');
+    return result.success;
+  };
+
+  return {
+    dependencies,
+    loading,
+    addDependency,
+    updateDependency,
+    deleteDependency,
+    refetch: fetchDependencies,
+  };
+}
@@ -5,8 +5,14 @@ import type { Database } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { CalendarEvent as CalendarEventEntity } from '@/domain/entities/CalendarEvent';
+import { recordSnapshot, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
 
-type CalendarEvent = Database['public']['Tables']['calendar_events']['Row'];
+type CalendarEventExceptionRow = Database['public']['Tables']['calendar_event_exceptions']['Row'];
+// Rows are loaded with the exceptions of their rrule series
+type CalendarEvent = Database['public']['Tables']['calendar_events']['Row'] & {
+  calendar_event_exceptions?: CalendarEventExceptionRow[];
+};
 type CalendarEventInsert = Database['public']['Tables']['calendar_events']['Insert'];
 type CalendarEventUpdate = Database['public']['Tables']['calendar_events']['Update'];
 
@@ -24,21 +30,31 @@ export function useEvents(options?: UseEventsOptions) {
 
   const fetchEvents = useCallback(async () => {
     try {
-      let query = supabase
-        .from('calendar_events')
-        .select('*');
-      
-      // Apply date range filters if provided
-      if (options?.startDate) {
-        query = query.gte('start_time', options.startDate.toISOString());
-      }
-      if (options?.endDate) {
-        query = query.lte('end_time', options.endDate.toISOString());
-      }
-      
-      const { data, error } = await query.order('start_time', { ascending: true });
-      if (error) throw error;
-      setEvents(data || []);
+      const startDate = options?.startDate;
+      const endDate = options?.endDate;
+      // Served from the offline copy when there is no connection
+      const data = await offlineSync.readThrough<CalendarEvent>('calendar_events', async () => {
+        let query = supabase
+          .from('calendar_events')
+          .select('*, calendar_event_exceptions(*)');
+        
+        // Apply date range filters if provided
+        if (startDate) {
+          query = query.gte('start_time', startDate.toISOString());
+        }
+        if (endDate) {
+          query = query.lte('end_time', endDate.toISOString());
+        }
+        
+        const { data, error } = await query.order('start_time', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      }, {
+        scope: event =>
+          (!startDate || new Date(event.start_time) >= startDate) && (!endDate || new Date(event.end_time) <= endDate),
+        orderBy: 'start_time'
+      });
+      setEvents(data);
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useEvents', action: 'Error fetching events:' });
       toast({
@@ -89,8 +105,11 @@ export function useEvents(options?: UseEventsOptions) {
           (payload: RealtimePostgresChangesPayload<CalendarEvent>) => {
             const updatedEvent = payload.new as CalendarEvent | null;
             if (!updatedEvent?.id) return;
+            // Row changes carry no exceptions: keep the loaded ones
             setEvents(prev => 
-              prev.map(event => event.id === updatedEvent.id ? updatedEvent : event)
+              prev.map(event => event.id === updatedEvent.id
+                ? { ...updatedEvent, calendar_event_exceptions: event.calendar_event_exceptions }
+                : event)
             );
           }
         )
@@ -111,7 +130,13 @@ export function useEvents(options?: UseEventsOptions) {
         .subscribe();
     };
     setupRealtimeSubscription();
+    // Refetch after undo/redo
+    const handleEventsUpdated = () => {
+      void fetchEvents();
+    };
+    window.addEventListener('eventsUpdated', handleEventsUpdated);
     return () => {
+      window.removeEventListener('eventsUpdated', handleEventsUpdated);
       if (channel) {
         supabase.removeChannel(channel);
       }
@@ -120,29 +145,38 @@ export function useEvents(options?: UseEventsOptions) {
 
   const addEvent = async (
     eventData: Omit<CalendarEventInsert, 'user_id'>,
-    options?: { silent?: boolean }
+    options?: { silent?: boolean } & HistoryRecordOptions
   ): Promise<CalendarEvent> => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
+      const userId = await offlineSync.getUserId();
+      if (!userId) {
         ErrorHandlingService.handle('❌ addEvent: User not authenticated', { source: 'useEvents' });
         throw new Error('User not authenticated');
       }
 
-      const { data, error } = await supabase
-        .from('calendar_events')
-        .insert([{ ...eventData, user_id: user.id }])
-        .select()
-        .single();
+      let data: CalendarEvent;
+      if (offlineSync.isOnline()) {
+        const { data: inserted, error } = await supabase
+          .from('calendar_events')
+          .insert([{ ...eventData, user_id: userId }])
+          .select()
+          .single();
 
-      if (error) {
-        ErrorHandlingService.handle(error, { source: 'useEvents', action: '❌ addEvent: Database insert error:' });
-        throw error;
-      }
+        if (error) {
+          ErrorHandlingService.handle(error, { source: 'useEvents', action: '❌ addEvent: Database insert error:' });
+          throw error;
+        }
+
+        if (!inserted) {
+          ErrorHandlingService.handle('❌ addEvent: No data returned from insert', { source: 'useEvents' });
+          throw new Error('No data returned from event creation');
+        }
 
-      if (!data) {
-        ErrorHandlingService.handle('❌ addEvent: No data returned from insert', { source: 'useEvents' });
-        throw new Error('No data returned from event creation');
+        data = inserted;
+        recordSnapshot(`Add event "${data.title}"`, [{ table: 'calendar_events', before: [], after: [data] }], options?.transaction);
+      } else {
+        // Queued until the connection is back
+        data = await offlineSync.queueInsert<CalendarEvent>('calendar_events', { ...eventData, user_id: userId });
       }
 
       setEvents(prev => [...prev, data]);
@@ -171,19 +205,34 @@ export function useEvents(options?: UseEventsOptions) {
   const updateEvent = async (
     id: string,
     updates: CalendarEventUpdate,
-    options?: { silent?: boolean }
+    options?: { silent?: boolean } & HistoryRecordOptions
   ) => {
     try {
-      const { data, error } = await supabase
-        .from('calendar_events')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
+      const previous = events.find(event => event.id === id);
+      let data: CalendarEvent;
+      if (offlineSync.isOnline()) {
+        const { data: updated, error } = await supabase
+          .from('calendar_events')
+          .update(updates)
+          .eq('id', id)
+          .select()
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
+        data = updated;
+
+        recordSnapshot(`Update event "${data.title}"`, [
+          { table: 'calendar_events', before: previous ? [previous] : [], after: [data] }
+        ], options?.transaction);
+      } else {
+        const queued = await offlineSync.queueUpdate<CalendarEvent>('calendar_events', id, updates);
+        if (!queued) throw new Error('Event is not available offline');
+        data = queued;
+      }
 
-      setEvents(prev => prev.map(event => event.id === id ? data : event));
+      setEvents(prev => prev.map(event => event.id === id
+        ? { ...data, calendar_event_exceptions: event.calendar_event_exceptions }
+        : event));
 
       if (!options?.silent) {
         toast({
@@ -206,14 +255,23 @@ export function useEvents(options?: UseEventsOptions) {
     }
   };
 
-  const deleteEvent = async (id: string, options?: { silent?: boolean }) => {
+  const deleteEvent = async (id: string, options?: { silent?: boolean } & HistoryRecordOptions) => {
     try {
-      const { error } = await supabase
-        .from('calendar_events')
-        .delete()
-        .eq('id', id);
+      if (offlineSync.isOnline()) {
+        const { data: deleted, error } = await supabase
+          .from('calendar_events')
+          .delete()
+          .eq('id', id)
+          .select();
 
-      if (error) throw error;
+        if (error) throw error;
+
+        recordSnapshot(`Delete event "${deleted?.[0]?.title ?? 'event'}"`, [
+          { table: 'calendar_events', before: deleted ?? [], after: [] }
+        ], options?.transaction);
+      } else {
+        await offlineSync.queueDelete('calendar_events', id);
+      }
 
       setEvents(prev => prev.filter(event => event.id !== id));
 
@@ -266,20 +324,26 @@ export function useEvents(options?: UseEventsOptions) {
         .eq('id', eventId)
         .single();
       if (targetError || !targetEventData || !targetEventData.recurring_group_id) {
-        const { error } = await supabase
+        const { data: deleted, error } = await supabase
           .from('calendar_events')
           .delete()
-          .eq('id', eventId);
+          .eq('id', eventId)
+          .select();
         if (error) throw error;
+        recordSnapshot('Delete event', [{ table: 'calendar_events', before: deleted ?? [], after: [] }]);
         await fetchEvents();
         return;
       }
-      const { error } = await supabase
+      const { data: deleted, error } = await supabase
         .from('calendar_events')
         .delete()
         .eq('recurring_group_id', targetEventData.recurring_group_id)
-        .gte('start_time', targetEventData.start_time);
+        .gte('start_time', targetEventData.start_time)
+        .select();
       if (error) throw error;
+      recordSnapshot(`Delete future "${targetEventData.title}" events`, [
+        { table: 'calendar_events', before: deleted ?? [], after: [] }
+      ]);
       await fetchEvents();
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useEvents', action: 'Error deleting future recurring events:' });
@@ -295,19 +359,25 @@ export function useEvents(options?: UseEventsOptions) {
         .eq('id', eventId)
         .single();
       if (targetError || !targetEventData || !targetEventData.recurring_group_id) {
-        const { error } = await supabase
+        const { data: deleted, error } = await supabase
           .from('calendar_events')
           .delete()
-          .eq('id', eventId);
+          .eq('id', eventId)
+          .select();
         if (error) throw error;
+        recordSnapshot('Delete event', [{ table: 'calendar_events', before: deleted ?? [], after: [] }]);
         await fetchEvents();
         return;
       }
-      const { error } = await supabase
+      const { data: deleted, error } = await supabase
         .from('calendar_events')
         .delete()
-        .eq('recurring_group_id', targetEventData.recurring_group_id);
+        .eq('recurring_group_id', targetEventData.recurring_group_id)
+        .select();
       if (error) throw error;
+      recordSnapshot(`Delete all "${targetEventData.title}" events`, [
+        { table: 'calendar_events', before: deleted ?? [], after: [] }
+      ]);
       await fetchEvents();
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useEvents', action: 'Error deleting all recurring events:' });
@@ -323,20 +393,34 @@ export function useEvents(options?: UseEventsOptions) {
         .eq('id', eventId)
         .single();
       if (targetError || !targetEventData || !targetEventData.recurring_group_id) {
-        const { error } = await supabase
+        const { data: updated, error } = await supabase
           .from('calendar_events')
           .update(updates)
-          .eq('id', eventId);
+          .eq('id', eventId)
+          .select();
         if (error) throw error;
+        recordSnapshot('Update event', [
+          { table: 'calendar_events', before: targetEventData ? [targetEventData] : [], after: updated ?? [] }
+        ]);
         await fetchEvents();
         return;
       }
-      const { error } = await supabase
+      const { data: before, error: beforeError } = await supabase
         .from('calendar_events')
-        .update(updates)
+        .select('*')
         .eq('recurring_group_id', targetEventData.recurring_group_id)
         .gte('start_time', targetEventData.start_time);
+      if (beforeError) throw beforeError;
+      const { data: updated, error } = await supabase
+        .from('calendar_events')
+        .update(updates)
+        .eq('recurring_group_id', targetEventData.recurring_group_id)
+        .gte('start_time', targetEventData.start_time)
+        .select();
       if (error) throw error;
+      recordSnapshot(`Update future "${targetEventData.title}" events`, [
+        { table: 'calendar_events', before: before ?? [], after: updated ?? [] }
+      ]);
       await fetchEvents();
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useEvents', action: 'Error updating future recurring events:' });
@@ -352,19 +436,32 @@ export function useEvents(options?: UseEventsOptions) {
         .eq('id', eventId)
         .single();
       if (targetError || !targetEventData || !targetEventData.recurring_group_id) {
-        const { error } = await supabase
+        const { data: updated, error } = await supabase
           .from('calendar_events')
           .update(updates)
-          .eq('id', eventId);
+          .eq('id', eventId)
+          .select();
         if (error) throw error;
+        recordSnapshot('Update event', [
+          { table: 'calendar_events', before: targetEventData ? [targetEventData] : [], after: updated ?? [] }
+        ]);
         await fetchEvents();
         return;
       }
-      const { error } = await supabase
+      const { data: before, error: beforeError } = await supabase
         .from('calendar_events')
-        .update(updates)
+        .select('*')
         .eq('recurring_group_id', targetEventData.recurring_group_id);
+      if (beforeError) throw beforeError;
+      const { data: updated, error } = await supabase
+        .from('calendar_events')
+        .update(updates)
+        .eq('recurring_group_id', targetEventData.recurring_group_id)
+        .select();
       if (error) throw error;
+      recordSnapshot(`Update all "${targetEventData.title}" events`, [
+        { table: 'calendar_events', before: before ?? [], after: updated ?? [] }
+      ]);
       await fetchEvents();
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useEvents', action: 'Error updating all recurring events:' });
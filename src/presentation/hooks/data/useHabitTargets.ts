@@ -0,0 +1,143 @@
+/**
+ * useHabitTargets Hook
+ *
+ * React hook for loading and editing habit targets
+ * (e.g. 3 sessions per week, 30 minutes daily).
+ *
+ * @module useHabitTargets
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/infrastructure/database/client';
+import type { HabitTarget } from '@/shared/types/core';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { HabitTargetMapper } from '@/infrastructure/mappers/HabitTargetMapper';
+import { getHabitKey, validateHabitGoal, type HabitGoal } from '@/domain/rules/habits/HabitAdherence';
+
+export interface UseHabitTargetsReturn {
+  targets: HabitTarget[];
+  loading: boolean;
+  saveTarget: (habitName: string, goal: HabitGoal) => Promise<HabitTarget | null>;
+  removeTarget: (habitName: string) => Promise<void>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for managing habit targets
+ */
+export function useHabitTargets(): UseHabitTargetsReturn {
+  const [targets, setTargets] = useState<HabitTarget[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Fetch all habit targets for the current user
+   */
+  const fetchTargets = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      const { data, error } = await supabase
+        .from('habit_targets')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('habit_name', { ascending: true });
+
+      if (error) throw error;
+      setTargets((data || []).map(HabitTargetMapper.fromDatabase));
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useHabitTargets', action: 'Error fetching habit targets:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTargets();
+  }, [fetchTargets]);
+
+  /**
+   * Create or replace the target of a habit
+   */
+  const saveTarget = async (habitName: string, goal: HabitGoal): Promise<HabitTarget | null> => {
+    const validation = validateHabitGoal(goal);
+    if (!validation.isValid) {
+      toast({
+        title: 'Validation Error',
+        description: validation.errors.join(', '),
+        variant: 'destructive',
+      });
+      return null;
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
+      // Replace a target saved under a differently cased name
+      const existing = targets.find(target => getHabitKey(target.habitName) === getHabitKey(habitName));
+      const payload = HabitTargetMapper.toDatabase({ habitName: existing?.habitName ?? habitName, ...goal, userId: user.id });
+
+      const { data, error } = await supabase
+        .from('habit_targets')
+        .upsert(payload, { onConflict: 'user_id,habit_name' })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const saved = HabitTargetMapper.fromDatabase(data);
+      setTargets(prev => [...prev.filter(target => target.id !== saved.id), saved]);
+      return saved;
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useHabitTargets', action: 'Error saving habit target:' });
+      toast({
+        title: 'Error',
+        description: 'Failed to save habit target',
+        variant: 'destructive',
+      });
+      return null;
+    }
+  };
+
+  /**
+   * Remove the target of a habit (back to "every scheduled day")
+   */
+  const removeTarget = async (habitName: string): Promise<void> => {
+    const existing = targets.find(target => getHabitKey(target.habitName) === getHabitKey(habitName));
+    if (!existing) return;
+
+    try {
+      const { error } = await supabase
+        .from('habit_targets')
+        .delete()
+        .eq('id', existing.id);
+
+      if (error) throw error;
+      setTargets(prev => prev.filter(target => target.id !== existing.id));
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useHabitTargets', action: 'Error removing habit target:' });
+      toast({
+        title: 'Error',
+        description: 'Failed to remove habit target',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return {
+    targets,
+    loading,
+    saveTarget,
+    removeTarget,
+    refetch: fetchTargets,
+  };
+}
@@ -4,6 +4,8 @@ import { useToast } from '@/presentation/hooks/ui/use-toast';
 import type { Database } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import { Holiday as HolidayEntity } from '@/domain/entities/Holiday';
+import { recordSnapshot, snapshotRows, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
 
 type HolidayRow = Database['public']['Tables']['holidays']['Row'];
 type HolidayInsert = Database['public']['Tables']['holidays']['Insert'];
@@ -14,6 +16,8 @@ type HolidayInput = {
   startDate: Date | string;
   endDate: Date | string;
   notes?: string | null;
+  capacityFraction?: number;
+  availableHours?: number;
 };
 
 type HolidayUpdates = Partial<HolidayInput>;
@@ -25,6 +29,8 @@ export interface Holiday {
   startDate: Date;
   endDate: Date;
   notes?: string;
+  capacityFraction?: number;
+  availableHours?: number;
   created_at: string;
   updated_at: string;
   user_id: string;
@@ -57,21 +63,27 @@ export function useHolidays() {
 
   const fetchHolidays = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('holidays')
-        .select('*')
-        .order('start_date', { ascending: true });
+      // Served from the offline copy when there is no connection
+      const data = await offlineSync.readThrough<HolidayRow>('holidays', async () => {
+        const { data, error } = await supabase
+          .from('holidays')
+          .select('*')
+          .order('start_date', { ascending: true });
 
-      if (error) throw error;
+        if (error) throw error;
+        return data || [];
+      }, { orderBy: 'start_date' });
       
       // Transform snake_case to camelCase for UI
-      const transformedData = (data || []).map(holiday => ({
+      const transformedData = data.map(holiday => ({
         id: holiday.id,
         title: holiday.title,
         // Parse as local calendar days to avoid UTC shifts
         startDate: parseLocalDate(holiday.start_date as unknown as string),
         endDate: parseLocalDate(holiday.end_date as unknown as string),
         notes: holiday.notes,
+        capacityFraction: holiday.capacity_fraction ?? undefined,
+        availableHours: holiday.available_hours ?? undefined,
         created_at: holiday.created_at,
         updated_at: holiday.updated_at,
         user_id: holiday.user_id
@@ -92,19 +104,26 @@ export function useHolidays() {
 
   useEffect(() => {
     fetchHolidays();
+
+    // Refetch after undo/redo
+    const handleHolidaysUpdated = () => {
+      void fetchHolidays();
+    };
+    window.addEventListener('holidaysUpdated', handleHolidaysUpdated);
     
     // Cleanup timeout on unmount
     return () => {
+      window.removeEventListener('holidaysUpdated', handleHolidaysUpdated);
       if (updateToastTimeoutRef.current) {
         clearTimeout(updateToastTimeoutRef.current);
       }
     };
   }, [fetchHolidays]);
 
-  const addHoliday = async (holidayData: HolidayInput) => {
+  const addHoliday = async (holidayData: HolidayInput, options: { silent?: boolean } & HistoryRecordOptions = {}) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const userId = await offlineSync.getUserId();
+      if (!userId) throw new Error('User not authenticated');
 
       // Transform camelCase to snake_case for database
       const dbHolidayData: Omit<HolidayInsert, 'user_id'> & { user_id: string } = {
@@ -117,16 +136,26 @@ export function useHolidays() {
           ? formatLocalDate(holidayData.endDate)
           : holidayData.endDate,
         notes: holidayData.notes || null,
-        user_id: user.id
+        capacity_fraction: holidayData.capacityFraction ?? null,
+        available_hours: holidayData.availableHours ?? null,
+        user_id: userId
       };
 
-      const { data, error } = await supabase
-        .from('holidays')
-        .insert([dbHolidayData])
-        .select()
-        .single();
+      let data: HolidayRow;
+      if (offlineSync.isOnline()) {
+        const { data: inserted, error } = await supabase
+          .from('holidays')
+          .insert([dbHolidayData])
+          .select()
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
+        data = inserted;
+        recordSnapshot(`Add holiday "${data.title}"`, [{ table: 'holidays', before: [], after: [data] }], options.transaction);
+      } else {
+        // Queued until the connection is back
+        data = await offlineSync.queueInsert<HolidayRow>('holidays', dbHolidayData);
+      }
       
       // Transform database response to camelCase for UI consistency
       const transformedData: Holiday = {
@@ -135,16 +164,20 @@ export function useHolidays() {
         startDate: parseLocalDate(data.start_date as unknown as string),
         endDate: parseLocalDate(data.end_date as unknown as string),
         notes: data.notes,
+        capacityFraction: data.capacity_fraction ?? undefined,
+        availableHours: data.available_hours ?? undefined,
         created_at: data.created_at,
         updated_at: data.updated_at,
         user_id: data.user_id
       };
       
       setHolidays(prev => [...prev, transformedData]);
-      toast({
-        title: "Success",
-        description: "Holiday created successfully",
-      });
+      if (!options.silent) {
+        toast({
+          title: "Success",
+          description: "Holiday created successfully",
+        });
+      }
       return HolidayEntity.fromDatabase(data);
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'useHolidays', action: 'Error adding holiday:' });
@@ -160,7 +193,7 @@ export function useHolidays() {
   const updateHoliday = async (
     id: string,
     updates: HolidayUpdates,
-    options: { silent?: boolean } = {}
+    options: { silent?: boolean } & HistoryRecordOptions = {}
   ) => {
     try {
       // Transform camelCase to snake_case for database if needed
@@ -177,15 +210,28 @@ export function useHolidays() {
           : updates.endDate;
       }
       if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
+      // Present but undefined clears a partial day back to a day off
+      if ('capacityFraction' in updates) dbUpdates.capacity_fraction = updates.capacityFraction ?? null;
+      if ('availableHours' in updates) dbUpdates.available_hours = updates.availableHours ?? null;
 
-      const { data, error } = await supabase
-        .from('holidays')
-        .update(dbUpdates)
-        .eq('id', id)
-        .select()
-        .single();
+      let data: HolidayRow;
+      if (offlineSync.isOnline()) {
+        const before = await snapshotRows('holidays', 'id', [id]);
+        const { data: updated, error } = await supabase
+          .from('holidays')
+          .update(dbUpdates)
+          .eq('id', id)
+          .select()
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
+        data = updated;
+        recordSnapshot(`Update holiday "${data.title}"`, [{ table: 'holidays', before, after: [data] }], options.transaction);
+      } else {
+        const queued = await offlineSync.queueUpdate<HolidayRow>('holidays', id, dbUpdates);
+        if (!queued) throw new Error('Holiday is not available offline');
+        data = queued;
+      }
       
       // Transform database response to camelCase for UI consistency
       const transformedData = {
@@ -194,6 +240,8 @@ export function useHolidays() {
         startDate: parseLocalDate(data.start_date as unknown as string),
         endDate: parseLocalDate(data.end_date as unknown as string),
         notes: data.notes,
+        capacityFraction: data.capacity_fraction ?? undefined,
+        availableHours: data.available_hours ?? undefined,
         created_at: data.created_at,
         updated_at: data.updated_at,
         user_id: data.user_id
@@ -245,12 +293,20 @@ export function useHolidays() {
 
   const deleteHoliday = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from('holidays')
-        .delete()
-        .eq('id', id);
+      if (offlineSync.isOnline()) {
+        const { data: deleted, error } = await supabase
+          .from('holidays')
+          .delete()
+          .eq('id', id)
+          .select();
 
-      if (error) throw error;
+        if (error) throw error;
+        recordSnapshot(`Delete holiday "${deleted?.[0]?.title ?? 'holiday'}"`, [
+          { table: 'holidays', before: deleted ?? [], after: [] }
+        ]);
+      } else {
+        await offlineSync.queueDelete('holidays', id);
+      }
       setHolidays(prev => prev.filter(holiday => holiday.id !== id));
       toast({
         title: "Success",
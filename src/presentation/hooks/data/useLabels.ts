@@ -232,6 +232,7 @@ export function useLabels(): UseLabelsReturn {
           throw insertError;
         }
       }
+      window.dispatchEvent(new CustomEvent('projectLabelsUpdated'));
 
       toast({
         title: 'Label added',
@@ -261,6 +262,7 @@ export function useLabels(): UseLabelsReturn {
         .eq('label_id', labelId);
 
       if (deleteError) throw deleteError;
+      window.dispatchEvent(new CustomEvent('projectLabelsUpdated'));
 
       toast({
         title: 'Label removed',
@@ -5,6 +5,9 @@ import type { Database, Json } from '@/infrastructure/database/types';
 import type { PhaseDTO } from '@/shared/types/core';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import { Phase as PhaseEntity } from '@/domain/entities/Phase';
+import { recordSnapshot, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
+import { DependencyOrchestrator } from '@/application/orchestrators/DependencyOrchestrator';
 // Note: Database table is now 'phases' but table is now 'phases'
 // TODO: After types regenerate, update to use 'phases' key
 type Milestone = Database['public']['Tables']['phases']['Row'];
@@ -36,13 +39,17 @@ export function usePhases(projectId?: string) {
   const updateToastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const fetchPhases = useCallback(async (targetProjectId: string) => {
     try {
-      const { data, error } = await supabase
-        .from('phases')
-        .select('*')
-        .eq('project_id', targetProjectId)
-        .order('end_date', { ascending: true });
-      if (error) throw error;
-      setPhases(data || []);
+      // Served from the offline copy when there is no connection
+      const data = await offlineSync.readThrough<Milestone>('phases', async () => {
+        const { data, error } = await supabase
+          .from('phases')
+          .select('*')
+          .eq('project_id', targetProjectId)
+          .order('end_date', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      }, { scope: phase => phase.project_id === targetProjectId, orderBy: 'end_date' });
+      setPhases(data);
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'usePhases', action: 'Error fetching phases:' });
       toast({
@@ -56,12 +63,15 @@ export function usePhases(projectId?: string) {
   }, [toast]);
   const fetchAllPhases = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('phases')
-        .select('*')
-        .order('end_date', { ascending: true });
-      if (error) throw error;
-      setPhases(data || []);
+      const data = await offlineSync.readThrough<Milestone>('phases', async () => {
+        const { data, error } = await supabase
+          .from('phases')
+          .select('*')
+          .order('end_date', { ascending: true });
+        if (error) throw error;
+        return data || [];
+      }, { orderBy: 'end_date' });
+      setPhases(data);
     } catch (error) {
       ErrorHandlingService.handle(error, { source: 'usePhases', action: 'Error fetching all phases:' });
       toast({
@@ -87,10 +97,10 @@ export function usePhases(projectId?: string) {
       }
     };
   }, [projectId, fetchAllPhases, fetchPhases]);
-  const addPhase = async (phaseData: PhaseInput, options: { silent?: boolean } = {}) => {
+  const addPhase = async (phaseData: PhaseInput, options: { silent?: boolean } & HistoryRecordOptions = {}) => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error('User not authenticated');
+      const userId = await offlineSync.getUserId();
+      if (!userId) throw new Error('User not authenticated');
       
       // Support both endDate and dueDate (dueDate is deprecated but still used in some places)
       const endDateIso = toIsoString(phaseData.endDate || phaseData.end_date || phaseData.dueDate);
@@ -99,7 +109,7 @@ export function usePhases(projectId?: string) {
       
       // Transform camelCase to snake_case for database insertion
       const dbPhaseData: MilestoneInsert = {
-        user_id: user.id,
+        user_id: userId,
         name: phaseData.name,
         project_id: phaseData.projectId ?? phaseData.project_id,
         end_date: endDateIso!,
@@ -113,14 +123,22 @@ export function usePhases(projectId?: string) {
       if (phaseData.recurringConfig || phaseData.recurring_config) {
         dbPhaseData.recurring_config = (phaseData.recurringConfig || phaseData.recurring_config) as Json;
       }
-      const { data, error } = await supabase
-        .from('phases')
-        .insert(dbPhaseData)
-        .select()
-        .single();
-      if (error) {
-        ErrorHandlingService.handle(error, { source: 'usePhases', action: '[usePhases] Database error:' });
-        throw error;
+      let data: Milestone;
+      if (offlineSync.isOnline()) {
+        const { data: inserted, error } = await supabase
+          .from('phases')
+          .insert(dbPhaseData)
+          .select()
+          .single();
+        if (error) {
+          ErrorHandlingService.handle(error, { source: 'usePhases', action: '[usePhases] Database error:' });
+          throw error;
+        }
+        data = inserted;
+        recordSnapshot(`Add phase "${data.name}"`, [{ table: 'phases', before: [], after: [data] }], options.transaction);
+      } else {
+        // Queued until the connection is back
+        data = await offlineSync.queueInsert<Milestone>('phases', dbPhaseData);
       }
       // Insert locally and sort by end_date
       setPhases(prev => [...prev, data].sort((a, b) => new Date(a.end_date).getTime() - new Date(b.end_date).getTime()));
@@ -144,15 +162,27 @@ export function usePhases(projectId?: string) {
       throw error;
     }
   };
-  const updatePhase = async (id: string, updates: PhaseUpdate, options: { silent?: boolean } = {}) => {
+  const updatePhase = async (id: string, updates: PhaseUpdate, options: { silent?: boolean } & HistoryRecordOptions = {}) => {
     try {
-      const { data, error } = await supabase
-        .from('phases')
-        .update(updates)
-        .eq('id', id)
-        .select()
-        .single();
-      if (error) throw error;
+      const previous = phases.find(phase => phase.id === id);
+      let data: Milestone;
+      if (offlineSync.isOnline()) {
+        const { data: updated, error } = await supabase
+          .from('phases')
+          .update(updates)
+          .eq('id', id)
+          .select()
+          .single();
+        if (error) throw error;
+        data = updated;
+        recordSnapshot(`Update phase "${data.name}"`, [
+          { table: 'phases', before: previous ? [previous] : [], after: [data] }
+        ], options.transaction);
+      } else {
+        const queued = await offlineSync.queueUpdate<Milestone>('phases', id, updates);
+        if (!queued) throw new Error('Phase is not available offline');
+        data = queued;
+      }
       setPhases(prev => prev.map(phase => 
         phase.id === id ? data : phase
       ).sort((a, b) => new Date(a.end_date).getTime() - new Date(b.end_date).getTime()));
@@ -188,41 +218,68 @@ export function usePhases(projectId?: string) {
       description: message,
     });
   };
-  const deletePhase = async (id: string, options: { silent?: boolean } = {}) => {
+  const deletePhase = async (id: string, options: { silent?: boolean } & HistoryRecordOptions = {}) => {
     try {
       // First, fetch the phase to check if it's a recurring template
       const phase = phases.find(p => p.id === id);
-      if (phase?.is_recurring === true) {
-        // This is a recurring template - delete all numbered instances first
-        // Numbered instances have names like "Sprint 1", "Sprint 2", etc.
-        const baseName = phase.name;
-        const numberedPattern = `${baseName} `;
-        // Delete all numbered instances (name starts with base name + space + number)
-        const { error: instancesError } = await supabase
+      if (!offlineSync.isOnline()) {
+        // Queued until the connection is back; a recurring template takes its numbered occurrences along
+        const instances = phase?.is_recurring === true
+          ? phases.filter(p => p.project_id === phase.project_id && p.is_recurring === false && p.name.startsWith(`${phase.name} `))
+          : [];
+        for (const instance of instances) {
+          await offlineSync.queueDelete('phases', instance.id);
+        }
+        await offlineSync.queueDelete('phases', id);
+        const instanceIds = new Set(instances.map(instance => instance.id));
+        setPhases(prev => prev.filter(p => !instanceIds.has(p.id)));
+      } else {
+        let removedInstances: Milestone[] = [];
+        // Links of the removed phases are deleted by the database; keep them for undo
+        const instanceIds = phase?.is_recurring === true
+          ? phases.filter(p => p.project_id === phase.project_id && p.is_recurring === false && p.name.startsWith(`${phase.name} `)).map(p => p.id)
+          : [];
+        const dependencies = await DependencyOrchestrator.snapshotItemDependencies([id, ...instanceIds]);
+        if (phase?.is_recurring === true) {
+          // This is a recurring template - delete all numbered instances first
+          // Numbered instances have names like "Sprint 1", "Sprint 2", etc.
+          const baseName = phase.name;
+          const numberedPattern = `${baseName} `;
+          // Delete all numbered instances (name starts with base name + space + number)
+          const { data: deletedInstances, error: instancesError } = await supabase
+            .from('phases')
+            .delete()
+            .eq('project_id', phase.project_id)
+            .eq('is_recurring', false)
+            .like('name', `${numberedPattern}%`)
+            .select();
+          if (instancesError) {
+            ErrorHandlingService.handle(instancesError, { source: 'usePhases', action: '[usePhases] Error deleting phase instances:' });
+            throw instancesError;
+          }
+          removedInstances = deletedInstances ?? [];
+          // Update local state to remove numbered instances
+          setPhases(prev => prev.filter(p => 
+            !(p.project_id === phase.project_id && 
+              p.is_recurring === false && 
+              p.name.startsWith(numberedPattern))
+          ));
+        }
+        // Then delete the phase itself
+        const { data: deleted, error } = await supabase
           .from('phases')
           .delete()
-          .eq('project_id', phase.project_id)
-          .eq('is_recurring', false)
-          .like('name', `${numberedPattern}%`);
-        if (instancesError) {
-          ErrorHandlingService.handle(instancesError, { source: 'usePhases', action: '[usePhases] Error deleting phase instances:' });
-          throw instancesError;
+          .eq('id', id)
+          .select();
+        if (error) {
+          ErrorHandlingService.handle(error, { source: 'usePhases', action: '[usePhases] Error deleting phase:' });
+          throw error;
         }
-        // Update local state to remove numbered instances
-        setPhases(prev => prev.filter(p => 
-          !(p.project_id === phase.project_id && 
-            p.is_recurring === false && 
-            p.name.startsWith(numberedPattern))
-        ));
-      }
-      // Then delete the phase itself
-      const { error } = await supabase
-        .from('phases')
-        .delete()
-        .eq('id', id);
-      if (error) {
-        ErrorHandlingService.handle(error, { source: 'usePhases', action: '[usePhases] Error deleting phase:' });
-        throw error;
+        // A recurring template goes together with its numbered occurrences (one undo step)
+        recordSnapshot(`Delete phase "${phase?.name ?? 'phase'}"`, [
+          { table: 'phases', before: [...(deleted ?? []), ...removedInstances], after: [] },
+          { table: 'dependencies', before: dependencies, after: [] }
+        ], options.transaction);
       }
       setPhases(prev => prev.filter(p => p.id !== id));
       // Only show toast if not in silent mode
@@ -0,0 +1,101 @@
+/**
+ * usePlanBaselines Hook
+ *
+ * React hook for named plan baselines.
+ * Coordinates PlanBaselineOrchestrator for CRUD; refetches on 'baselinesUpdated'.
+ *
+ * @module usePlanBaselines
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { PlanBaseline, PlanBaselineSnapshot } from '@/shared/types/core';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import {
+  PlanBaselineOrchestrator,
+  type PlanBaselineWorkflowResult
+} from '@/application/orchestrators/PlanBaselineOrchestrator';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+export interface UsePlanBaselinesReturn {
+  baselines: PlanBaseline[];
+  loading: boolean;
+  saveBaseline: (name: string, snapshot: PlanBaselineSnapshot) => Promise<PlanBaseline | null>;
+  renameBaseline: (baseline: PlanBaseline, name: string) => Promise<boolean>;
+  deleteBaseline: (baseline: PlanBaseline) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for managing plan baselines
+ */
+export function usePlanBaselines(): UsePlanBaselinesReturn {
+  const [baselines, setBaselines] = useState<PlanBaseline[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Fetch all baselines for the current user
+   */
+  const fetchBaselines = useCallback(async () => {
+    try {
+      setLoading(true);
+      setBaselines(await PlanBaselineOrchestrator.getBaselines());
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'usePlanBaselines', action: 'Error fetching baselines:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBaselines();
+
+    // Refetch after baseline workflows and undo/redo
+    const handleBaselinesUpdated = () => {
+      void fetchBaselines();
+    };
+    window.addEventListener('baselinesUpdated', handleBaselinesUpdated);
+    return () => window.removeEventListener('baselinesUpdated', handleBaselinesUpdated);
+  }, [fetchBaselines]);
+
+  /**
+   * Toast the errors of a failed workflow
+   */
+  const reportFailure = useCallback((result: PlanBaselineWorkflowResult, title: string) => {
+    toast({
+      title,
+      description: result.errors?.join(', '),
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const saveBaseline = async (name: string, snapshot: PlanBaselineSnapshot): Promise<PlanBaseline | null> => {
+    const result = await PlanBaselineOrchestrator.createBaselineWorkflow(name, snapshot, baselines);
+    if (!result.success) {
+      reportFailure(result, 'Could not save baseline');
+      return null;
+    }
+    return result.baseline || null;
+  };
+
+  const renameBaseline = async (baseline: PlanBaseline, name: string): Promise<boolean> => {
+    const result = await PlanBaselineOrchestrator.renameBaselineWorkflow(baseline, name, baselines);
+    if (!result.success) reportFailure(result, 'Could not rename baseline');
+    return result.success;
+  };
+
+  const deleteBaseline = async (baseline: PlanBaseline): Promise<boolean> => {
+    const result = await PlanBaselineOrchestrator.deleteBaselineWorkflow(baseline);
+    if (!result.success) reportFailure(result, 'Could not remove baseline');
+    return result.success;
+  };
+
+  return {
+    baselines,
+    loading,
+    saveBaseline,
+    renameBaseline,
+    deleteBaseline,
+    refetch: fetchBaselines,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * useProjectLabelIds Hook
+ *
+ * Loads every project-label association of the current user at once, for
+ * filtering and grouping projects by label. Refetches on 'projectsUpdated'
+ * (project edits, undo/redo) and 'projectLabelsUpdated' (useLabels).
+ *
+ * @module useProjectLabelIds
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/infrastructure/database/client';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+export interface UseProjectLabelIdsReturn {
+  labelIdsByProject: Map<string, string[]>;
+  loading: boolean;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for the label ids of every project
+ */
+export function useProjectLabelIds(): UseProjectLabelIdsReturn {
+  const [labelIdsByProject, setLabelIdsByProject] = useState<Map<string, string[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const fetchProjectLabelIds = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      // RLS limits project_labels to the user's own projects
+      const { data, error } = await supabase
+        .from('project_labels')
+        .select('project_id, label_id');
+
+      if (error) throw error;
+
+      const byProject = new Map<string, string[]>();
+      (data || []).forEach(row => {
+        byProject.set(row.project_id, [...(byProject.get(row.project_id) ?? []), row.label_id]);
+      });
+      setLabelIdsByProject(byProject);
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useProjectLabelIds', action: 'Error fetching project labels:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProjectLabelIds();
+
+    const handleLabelsChanged = () => {
+      void fetchProjectLabelIds();
+    };
+    window.addEventListener('projectsUpdated', handleLabelsChanged);
+    window.addEventListener('projectLabelsUpdated', handleLabelsChanged);
+    return () => {
+      window.removeEventListener('projectsUpdated', handleLabelsChanged);
+      window.removeEventListener('projectLabelsUpdated', handleLabelsChanged);
+    };
+  }, [fetchProjectLabelIds]);
+
+  return {
+    labelIdsByProject,
+    loading,
+    refetch: fetchProjectLabelIds,
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * useProjectTasks Hook
+ *
+ * React hook for the project task backlog.
+ * Coordinates TaskOrchestrator for CRUD and scheduling; refetches on 'tasksUpdated'.
+ *
+ * @module useProjectTasks
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { Project, ProjectTask } from '@/shared/types/core';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import {
+  TaskOrchestrator,
+  type TaskAutoScheduleResult,
+  type TaskCreationInput,
+  type TaskScheduleSources,
+  type TaskUpdateInput,
+  type TaskWorkflowResult
+} from '@/application/orchestrators/TaskOrchestrator';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+export interface UseProjectTasksReturn {
+  tasks: ProjectTask[];
+  loading: boolean;
+  addTask: (input: TaskCreationInput) => Promise<ProjectTask | null>;
+  updateTask: (task: ProjectTask, updates: TaskUpdateInput) => Promise<boolean>;
+  deleteTask: (task: ProjectTask) => Promise<boolean>;
+  scheduleTask: (task: ProjectTask, startTime: Date, project: Project) => Promise<boolean>;
+  autoScheduleTasks: (tasks: ProjectTask[], sources: TaskScheduleSources, from?: Date) => Promise<TaskAutoScheduleResult>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for managing project tasks
+ */
+export function useProjectTasks(): UseProjectTasksReturn {
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Fetch all tasks for the current user
+   */
+  const fetchTasks = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTasks(await TaskOrchestrator.getTasks());
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useProjectTasks', action: 'Error fetching tasks:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTasks();
+
+    // Refetch after task workflows and undo/redo
+    const handleTasksUpdated = () => {
+      void fetchTasks();
+    };
+    window.addEventListener('tasksUpdated', handleTasksUpdated);
+    return () => window.removeEventListener('tasksUpdated', handleTasksUpdated);
+  }, [fetchTasks]);
+
+  /**
+   * Toast the errors of a failed workflow
+   */
+  const reportFailure = useCallback((result: TaskWorkflowResult, title: string) => {
+    toast({
+      title,
+      description: result.errors?.join(', '),
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const addTask = async (input: TaskCreationInput): Promise<ProjectTask | null> => {
+    const result = await TaskOrchestrator.createTaskWorkflow(input);
+    if (!result.success) {
+      reportFailure(result, 'Could not add task');
+      return null;
+    }
+    return result.task || null;
+  };
+
+  const updateTask = async (task: ProjectTask, updates: TaskUpdateInput): Promise<boolean> => {
+    const result = await TaskOrchestrator.updateTaskWorkflow(task, updates);
+    if (!result.success) reportFailure(result, 'Could not update task');
+    return result.success;
+  };
+
+  const deleteTask = async (task: ProjectTask): Promise<boolean> => {
+    const result = await TaskOrchestrator.deleteTaskWorkflow(task);
+    if (!result.success) reportFailure(result, 'Could not delete task');
+    return result.success;
+  };
+
+  const scheduleTask = async (task: ProjectTask, startTime: Date, project: Project): Promise<boolean> => {
+    const result = await TaskOrchestrator.scheduleTaskWorkflow(task, startTime, project);
+    if (!result.success) reportFailure(result, 'Could not schedule task');
+    return result.success;
+  };
+
+  const autoScheduleTasks = async (
+    tasksToPlace: ProjectTask[],
+    sources: TaskScheduleSources,
+    from?: Date
+  ): Promise<TaskAutoScheduleResult> => {
+    const result = await TaskOrchestrator.autoScheduleTasksWorkflow(tasksToPlace, sources, from);
+    if (!result.success) {
+      toast({
+        title: 'Could not schedule tasks',
+        description: result.error,
+        variant: 'destructive',
+      });
+    }
+    return result;
+  };
+
+  return {
+    tasks,
+    loading,
+    addTask,
+    updateTask,
+    deleteTask,
+    scheduleTask,
+    autoScheduleTasks,
+    refetch: fetchTasks,
+  };
+}
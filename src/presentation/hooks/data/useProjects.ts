@@ -6,10 +6,12 @@ import { Project } from '@/shared/types/core';
 import type { Database } from '@/infrastructure/database/types';
 import { ProjectOrchestrator } from '@/application/orchestrators/ProjectOrchestrator';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { recordSnapshot, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
 
 type SupabaseProjectInsert = Database['public']['Tables']['projects']['Insert'];
 type SupabaseProjectRow = Database['public']['Tables']['projects']['Row'];
-type ProjectToastOptions = { silent?: boolean };
+type ProjectToastOptions = { silent?: boolean } & HistoryRecordOptions;
 
 export type AddProjectInput = {
   name: string;
@@ -114,6 +116,9 @@ export function useProjects() {
   const addProject = useCallback(
     async (projectData: AddProjectInput, options: ProjectToastOptions = {}) => {
       try {
+        // The client is resolved (or created) on the server
+        if (!offlineSync.isOnline()) throw new Error('Creating a project needs a connection');
+
         const { data: auth } = await supabase.auth.getUser();
         const user = auth?.user;
         if (!user) throw new Error('User not authenticated');
@@ -165,6 +170,8 @@ export function useProjects() {
           throw error;
         }
 
+        recordSnapshot(`Add project "${data.name}"`, [{ table: 'projects', before: [], after: [data] }], options.transaction);
+
         const refreshed = await fetchProjects();
         const createdProject =
           refreshed.find((project) => project.id === data.id) ?? transformProjectRow(data as SupabaseProjectRow);
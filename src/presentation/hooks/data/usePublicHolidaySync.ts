@@ -0,0 +1,92 @@
+/**
+ * usePublicHolidaySync Hook
+ *
+ * Keeps an imported public holiday calendar up to date: once a calendar is
+ * chosen in the import dialog, this year's and next year's holidays are
+ * generated whenever they have not been imported yet (so each new year is
+ * added without asking).
+ *
+ * The calendar is stored with the user's settings, so the sync runs on every
+ * device; each year is claimed on the server before it is generated.
+ *
+ * @module usePublicHolidaySync
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useHolidays } from './useHolidays';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import { useSettingsContext } from '@/presentation/contexts/SettingsContext';
+import { HolidayOrchestrator } from '@/application/orchestrators/HolidayOrchestrator';
+import { getPublicHolidayCalendarLabel } from '@/domain/rules/holidays/PublicHolidays';
+import type { PublicHolidayCalendarSetting } from '@/shared/types/core';
+
+// Where earlier versions kept the calendar; moved into settings on first load
+const LEGACY_PUBLIC_HOLIDAY_CALENDAR_KEY = 'publicHolidayCalendar';
+
+const takeLegacyPublicHolidayCalendar = (): PublicHolidayCalendarSetting | null => {
+  try {
+    const stored = localStorage.getItem(LEGACY_PUBLIC_HOLIDAY_CALENDAR_KEY);
+    localStorage.removeItem(LEGACY_PUBLIC_HOLIDAY_CALENDAR_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+/** The years kept imported: the current one and the next */
+export const getPublicHolidaySyncYears = (today: Date = new Date()): number[] =>
+  [today.getFullYear(), today.getFullYear() + 1];
+
+export const usePublicHolidaySync = () => {
+  const { holidays, loading, addHoliday } = useHolidays();
+  const { settings, isLoading: settingsLoading } = useSettingsContext();
+  const { toast } = useToast();
+  const [checkTick, setCheckTick] = useState(0);
+  const isRunningRef = useRef(false);
+  const lastAttemptRef = useRef<string | null>(null);
+
+  // Re-check when the tab comes back, so a new year is picked up without a reload
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') setCheckTick(tick => tick + 1);
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const calendar = settings.publicHolidayCalendar ?? null;
+
+  // Move a calendar chosen before it was stored with the settings
+  // (null: the settings row has no calendar; undefined: no settings row yet)
+  const hasNoStoredCalendar = settings.publicHolidayCalendar === null;
+  useEffect(() => {
+    if (settingsLoading || !hasNoStoredCalendar) return;
+    const legacy = takeLegacyPublicHolidayCalendar();
+    if (legacy) void new HolidayOrchestrator([]).savePublicHolidayCalendarWorkflow(legacy);
+  }, [settingsLoading, hasNoStoredCalendar]);
+
+  useEffect(() => {
+    if (loading || settingsLoading || isRunningRef.current) return;
+    if (!calendar) return;
+
+    const dueYears = getPublicHolidaySyncYears().filter(year => !calendar.importedYears.includes(year));
+    const attemptKey = `${calendar.countryCode}-${calendar.regionCode ?? ''}-${dueYears.join(',')}`;
+    // One attempt per session for the same years; a failed import is not retried in a loop
+    if (dueYears.length === 0 || lastAttemptRef.current === attemptKey) return;
+
+    isRunningRef.current = true;
+    lastAttemptRef.current = attemptKey;
+    new HolidayOrchestrator(holidays)
+      .syncPublicHolidayCalendarWorkflow(calendar, dueYears, (holiday, options) => addHoliday(holiday, { ...options, silent: true }))
+      .then(result => {
+        if (!result.success || result.created === 0) return;
+        toast({
+          title: 'Public holidays added',
+          description: `${result.created} ${getPublicHolidayCalendarLabel(calendar.countryCode, calendar.regionCode)} holidays for ${result.years.join(' and ')}`,
+        });
+      })
+      .finally(() => {
+        isRunningRef.current = false;
+      });
+  }, [loading, settingsLoading, calendar, holidays, addHoliday, toast, checkTick]);
+};
@@ -0,0 +1,101 @@
+/**
+ * useSavedFilters Hook
+ *
+ * React hook for saved project filters.
+ * Coordinates SavedFilterOrchestrator for CRUD; refetches on 'savedFiltersUpdated'.
+ *
+ * @module useSavedFilters
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ProjectFilterQuery, SavedFilter } from '@/shared/types/core';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+import {
+  SavedFilterOrchestrator,
+  type SavedFilterWorkflowResult
+} from '@/application/orchestrators/SavedFilterOrchestrator';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+
+export interface UseSavedFiltersReturn {
+  savedFilters: SavedFilter[];
+  loading: boolean;
+  saveFilter: (name: string, query: ProjectFilterQuery) => Promise<SavedFilter | null>;
+  updateFilter: (filter: SavedFilter, name: string, query: ProjectFilterQuery) => Promise<boolean>;
+  deleteFilter: (filter: SavedFilter) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook for managing saved filters
+ */
+export function useSavedFilters(): UseSavedFiltersReturn {
+  const [savedFilters, setSavedFilters] = useState<SavedFilter[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  /**
+   * Fetch all saved filters for the current user
+   */
+  const fetchSavedFilters = useCallback(async () => {
+    try {
+      setLoading(true);
+      setSavedFilters(await SavedFilterOrchestrator.getSavedFilters());
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useSavedFilters', action: 'Error fetching saved filters:' });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSavedFilters();
+
+    // Refetch after filter workflows and undo/redo
+    const handleSavedFiltersUpdated = () => {
+      void fetchSavedFilters();
+    };
+    window.addEventListener('savedFiltersUpdated', handleSavedFiltersUpdated);
+    return () => window.removeEventListener('savedFiltersUpdated', handleSavedFiltersUpdated);
+  }, [fetchSavedFilters]);
+
+  /**
+   * Toast the errors of a failed workflow
+   */
+  const reportFailure = useCallback((result: SavedFilterWorkflowResult, title: string) => {
+    toast({
+      title,
+      description: result.errors?.join(', '),
+      variant: 'destructive',
+    });
+  }, [toast]);
+
+  const saveFilter = async (name: string, query: ProjectFilterQuery): Promise<SavedFilter | null> => {
+    const result = await SavedFilterOrchestrator.createSavedFilterWorkflow(name, query, savedFilters);
+    if (!result.success) {
+      reportFailure(result, 'Could not save filter');
+      return null;
+    }
+    return result.filter || null;
+  };
+
+  const updateFilter = async (filter: SavedFilter, name: string, query: ProjectFilterQuery): Promise<boolean> => {
+    const result = await SavedFilterOrchestrator.updateSavedFilterWorkflow(filter, name, query, savedFilters);
+    if (!result.success) reportFailure(result, 'Could not update filter');
+    return result.success;
+  };
+
+  const deleteFilter = async (filter: SavedFilter): Promise<boolean> => {
+    const result = await SavedFilterOrchestrator.deleteSavedFilterWorkflow(filter);
+    if (!result.success) reportFailure(result, 'Could not remove filter');
+    return result.success;
+  };
+
+  return {
+    savedFilters,
+    loading,
+    saveFilter,
+    updateFilter,
+    deleteFilter,
+    refetch: fetchSavedFilters,
+  };
+}
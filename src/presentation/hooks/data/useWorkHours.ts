@@ -74,9 +74,10 @@ export const useWorkHours = (): UseWorkHoursReturn => {
     
     return WorkHourCalculationService.generateWorkHoursFromSettings({
       weekStartDate,
-      weeklyWorkHours: settings.weeklyWorkHours
+      weeklyWorkHours: settings.weeklyWorkHours,
+      workSchedules: settings.workSchedules
     });
-  }, [settings?.weeklyWorkHours]);
+  }, [settings?.weeklyWorkHours, settings?.workSchedules]);
 
   const fetchWorkHours = useCallback(async (viewDate?: Date) => {
     try {
@@ -336,13 +337,17 @@ export const useWorkHours = (): UseWorkHoursReturn => {
           })()
         : undefined;
 
+      // The schedule week to edit is the one in effect on the slot's date
+      const slotDate = updates.startTime ?? workHours.find(workHour => workHour.id === id)?.startTime;
+
       // Use orchestrator for validation and update
       const result = await WorkSlotOrchestrator.updateTemplateSlot(
         {
           dayOfWeek: dayName as DayOfWeek,
           slotId,
           startTime,
-          endTime
+          endTime,
+          date: slotDate ? new Date(slotDate) : undefined
         },
         async (updates) => { await updateSettings(updates); },
         settings
@@ -374,7 +379,7 @@ export const useWorkHours = (): UseWorkHoursReturn => {
 
     // Use orchestrator for validation and save
     const result = await WorkSlotOrchestrator.saveTemplateSlot(
-      { dayOfWeek: dayName, startTime, endTime },
+      { dayOfWeek: dayName, startTime, endTime, date: startDate },
       async (updates) => { await updateSettings(updates); },
       settings
     );
@@ -407,10 +412,13 @@ export const useWorkHours = (): UseWorkHoursReturn => {
     
     const [, dayName, slotId] = match;
 
+    const slotDate = workHours.find(workHour => workHour.id === id)?.startTime;
+
     const result = await WorkSlotOrchestrator.deleteTemplateSlot(
       {
         dayOfWeek: dayName as DayOfWeek,
-        slotId
+        slotId,
+        date: slotDate ? new Date(slotDate) : undefined
       },
       async (updates) => { await updateSettings(updates); },
       settings
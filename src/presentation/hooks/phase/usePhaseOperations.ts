@@ -1,6 +1,7 @@
 import { useState, useCallback, useMemo } from 'react';
 import { useProjectContext } from '@/presentation/contexts/ProjectContext';
 import { PhaseOrchestrator } from '@/application/orchestrators/PhaseOrchestrator';;
+import { commandHistory, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
 import type { PhaseDTO, Phase, Project } from '@/shared/types/core';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
@@ -98,7 +99,7 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
   // Create a new phase
   const createPhase = useCallback(async (
     phase: LocalPhase,
-    options?: { silent?: boolean }
+    options?: { silent?: boolean } & HistoryRecordOptions
   ): Promise<PhaseDTO> => {
     if (isCreatingProject && localPhasesState) {
       // For local creation, generate a temporary id if not present
@@ -140,7 +141,7 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
   }, [isCreatingProject, localPhasesState, projectId, addPhaseToContext, refetchPhases, toast]);
 
   // Update an existing phase
-  const updatePhase = useCallback(async (phaseId: string, updates: Partial<PhaseDTO>) => {
+  const updatePhase = useCallback(async (phaseId: string, updates: Partial<PhaseDTO>, options?: HistoryRecordOptions) => {
     if (isCreatingProject && localPhasesState) {
       const updated = localPhasesState.phases.map(p =>
         p.id === phaseId ? { ...p, ...updates } : p
@@ -149,7 +150,7 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
       return true;
     } else if (projectId) {
       try {
-        await contextUpdateMilestone(phaseId, updates, { silent: true });
+        await contextUpdateMilestone(phaseId, updates, { ...options, silent: true });
         return true;
       } catch (error) {
         ErrorHandlingService.handle(error, {
@@ -173,14 +174,14 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
   }, [isCreatingProject, localPhasesState, projectId, contextUpdateMilestone, toast]);
 
   // Delete a phase
-  const deletePhase = useCallback(async (phaseId: string) => {
+  const deletePhase = useCallback(async (phaseId: string, options?: HistoryRecordOptions) => {
     if (isCreatingProject && localPhasesState) {
       const filtered = localPhasesState.phases.filter(p => p.id !== phaseId);
       localPhasesState.setPhases(filtered);
       return true;
     } else if (projectId) {
       try {
-        await contextDeleteMilestone(phaseId, { silent: true });
+        await contextDeleteMilestone(phaseId, { ...options, silent: true });
         return true;
       } catch (error) {
         ErrorHandlingService.handle(error, {
@@ -208,7 +209,9 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
     value: PhaseDTO[K]
   ) => {
     const validPhases = projectPhases.filter(p => p.id) as PhaseDTO[];
-    const result = await PhaseOrchestrator.updatePhaseProperty(
+    const phaseName = validPhases.find(p => p.id === phaseId)?.name ?? 'phase';
+    // One undo step for the phase and any project dates it moves
+    const result = await commandHistory.transaction(`Edit phase "${phaseName}"`, transaction => PhaseOrchestrator.updatePhaseProperty(
       phaseId,
       property,
       value,
@@ -218,17 +221,17 @@ export function usePhaseOperations(config: UseMilestoneOperationsConfig) {
         localPhases,
         isCreatingProject,
         localPhasesState,
-        addPhase: createPhase,
+        addPhase: (phase: LocalPhase) => createPhase(phase, { transaction }),
         updatePhase: async (id: string, updates: Partial<PhaseDTO>) => {
-          await updatePhase(id, updates);
+          await updatePhase(id, updates, { transaction });
         },
         setLocalPhases,
         projectId,
         updateProject: async (id: string, updates: Partial<Project>, options?: { silent?: boolean }) => {
-          await contextUpdateProject(id, updates as any, options);
+          await contextUpdateProject(id, updates as any, { ...options, transaction });
         }
       }
-    );
+    ));
 
     if (!result.success) {
       toast({
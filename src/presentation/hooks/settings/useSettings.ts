@@ -3,6 +3,7 @@ import { supabase } from '@/infrastructure/database/client';
 import { useToast } from '@/presentation/hooks/ui/use-toast';
 import type { Database } from '@/infrastructure/database/types';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
 
 type Settings = Database['public']['Tables']['settings']['Row'];
 type SettingsUpdate = Database['public']['Tables']['settings']['Update'];
@@ -46,18 +47,22 @@ export function useSettings() {
 
   const fetchSettings = useCallback(async () => {
     try {
-      const { data, error } = await supabase
-        .from('settings')
-        .select('*')
-        .single();
+      // Served from the offline copy when there is no connection
+      const [data] = await offlineSync.readThrough<Settings>('settings', async () => {
+        const { data, error } = await supabase
+          .from('settings')
+          .select('*')
+          .single();
 
-      if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
-        throw error;
-      }
+        if (error && error.code !== 'PGRST116') { // PGRST116 = no rows found
+          throw error;
+        }
+        return data ? [data] : [];
+      });
       
-      // If no settings found, create default settings
+      // If no settings found, create default settings (offline, defaults apply until online)
       if (!data) {
-        await createDefaultSettings();
+        if (offlineSync.isOnline()) await createDefaultSettings();
       } else {
         setSettings(data);
       }
@@ -75,6 +80,15 @@ export function useSettings() {
 
   useEffect(() => {
     fetchSettings();
+
+    // Refetch after offline changes have synced
+    const handleSettingsUpdated = () => {
+      void fetchSettings();
+    };
+    window.addEventListener('settingsUpdated', handleSettingsUpdated);
+    return () => {
+      window.removeEventListener('settingsUpdated', handleSettingsUpdated);
+    };
   }, [fetchSettings]);
 
   const updateSettings = async (updates: Partial<SettingsUpdate>) => {
@@ -84,14 +98,22 @@ export function useSettings() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('settings')
-        .update(updates)
-        .eq('id', settings.id)
-        .select()
-        .single();
+      let data: Settings;
+      if (offlineSync.isOnline()) {
+        const { data: updated, error } = await supabase
+          .from('settings')
+          .update(updates)
+          .eq('id', settings.id)
+          .select()
+          .single();
 
-      if (error) throw error;
+        if (error) throw error;
+        data = updated;
+      } else {
+        // Queued until the connection is back
+        const queued = await offlineSync.queueUpdate<Settings>('settings', settings.id, updates);
+        data = queued ?? { ...settings, ...updates };
+      }
       setSettings(data);
       toast({
         title: "Success",
@@ -4,3 +4,4 @@ export * from './useProjectResize';
 export * from './usePhaseResize';
 export * from './useHolidayDrag';
 export * from './useDynamicViewportDays';
+export * from './useDependencyCascade';
@@ -0,0 +1,184 @@
+/**
+ * useDependencyCascade Hook
+ *
+ * Offers to shift dependents after a project or phase was resized.
+ * The resize hooks report the predecessor's new dates; DependencyCascade rules
+ * plan which dependents would now start too early and by how much, and the
+ * timeline asks before moving them.
+ *
+ * Following AI Dev Rules pattern:
+ * - Hook manages React state (the pending offer) + coordinates updates
+ * - Domain rules plan the cascade
+ * - All shifts are one undo step
+ */
+import { useCallback, useState } from 'react';
+import { toast } from '@/presentation/hooks/ui/use-toast';
+import { addDaysToDate } from '@/presentation/utils/dateCalculations';
+import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { commandHistory, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { planDependencyCascade, type DependencyScheduleItem, type DependencyShift } from '@/domain/rules/dependencies/DependencyCascade';
+import { ProjectRules } from '@/domain/rules/projects/ProjectValidation';
+import type { Dependency, DependencyKind, PhaseDTO, Project } from '@/shared/types/core';
+
+type UpdateProjectFn = (
+  id: string,
+  updates: Partial<Project>,
+  options?: { silent?: boolean } & HistoryRecordOptions
+) => Promise<unknown>;
+
+type UpdatePhaseFn = (
+  id: string,
+  updates: Partial<PhaseDTO>,
+  options?: { silent?: boolean } & HistoryRecordOptions
+) => Promise<unknown>;
+
+interface UseDependencyCascadeProps {
+  projects: Project[];
+  phases: PhaseDTO[];
+  dependencies: Dependency[];
+  updateProject: UpdateProjectFn;
+  updatePhase: UpdatePhaseFn;
+}
+
+export interface DependencyCascadeShift extends DependencyShift {
+  name: string;
+}
+
+export interface PendingDependencyCascade {
+  kind: DependencyKind;
+  predecessorName: string;
+  shifts: DependencyCascadeShift[];
+}
+
+/**
+ * Projects or phases as schedule items (phases of a project form a sequence)
+ */
+function toScheduleItems(kind: DependencyKind, projects: Project[], phases: PhaseDTO[]): DependencyScheduleItem[] {
+  if (kind === 'project') {
+    return projects.map(project => ({
+      id: project.id,
+      startDate: new Date(project.startDate),
+      endDate: project.continuous ? undefined : new Date(project.endDate)
+    }));
+  }
+  return phases
+    .filter(phase => !phase.isRecurring)
+    .map(phase => ({
+      id: phase.id,
+      startDate: new Date(phase.startDate || phase.endDate),
+      endDate: new Date(phase.endDate || phase.dueDate),
+      sequenceId: phase.projectId
+    }));
+}
+
+/**
+ * Custom hook for cascading a predecessor's new dates to its dependents
+ */
+export function useDependencyCascade({
+  projects,
+  phases,
+  dependencies,
+  updateProject,
+  updatePhase
+}: UseDependencyCascadeProps) {
+  const [pendingCascade, setPendingCascade] = useState<PendingDependencyCascade | null>(null);
+
+  /**
+   * Plan the cascade for a moved predecessor and offer it when dependents are affected
+   */
+  const offerCascade = useCallback((
+    kind: DependencyKind,
+    movedId: string,
+    movedDates: { startDate: Date; endDate?: Date }
+  ) => {
+    const links = dependencies.filter(dependency => dependency.kind === kind);
+    if (!links.some(dependency => dependency.predecessorId === movedId)) return;
+
+    const shifts = planDependencyCascade(toScheduleItems(kind, projects, phases), links, movedId, movedDates);
+    if (shifts.length === 0) return;
+
+    const names = new Map<string, string>(
+      kind === 'project'
+        ? projects.map(project => [project.id, project.name])
+        : phases.map(phase => [phase.id, phase.name])
+    );
+    setPendingCascade({
+      kind,
+      predecessorName: names.get(movedId) ?? '',
+      shifts: shifts.map(shift => ({ ...shift, name: names.get(shift.id) ?? '' }))
+    });
+  }, [projects, phases, dependencies]);
+
+  const dismissCascade = useCallback(() => setPendingCascade(null), []);
+
+  /**
+   * Apply the pending shifts as one undo step
+   * Shifted projects take their phases along; projects grow to fit shifted phases.
+   */
+  const applyCascade = useCallback(async () => {
+    const cascade = pendingCascade;
+    if (!cascade) return;
+    setPendingCascade(null);
+
+    try {
+      await commandHistory.transaction(`Shift dependents of "${cascade.predecessorName}"`, async transaction => {
+        if (cascade.kind === 'project') {
+          for (const shift of cascade.shifts) {
+            await updateProject(shift.id, {
+              startDate: shift.startDate,
+              ...(shift.endDate && { endDate: shift.endDate })
+            }, { silent: true, transaction });
+
+            const projectPhases = phases.filter(phase => phase.projectId === shift.id && !phase.isRecurring);
+            for (const phase of projectPhases) {
+              const endDate = addDaysToDate(new Date(phase.endDate), shift.daysShifted);
+              await updatePhase(phase.id, {
+                ...(phase.startDate && { startDate: addDaysToDate(new Date(phase.startDate), shift.daysShifted) }),
+                endDate,
+                dueDate: endDate // Keep dueDate in sync with endDate
+              }, { silent: true, transaction });
+            }
+          }
+          return;
+        }
+
+        for (const shift of cascade.shifts) {
+          await updatePhase(shift.id, { startDate: shift.startDate, endDate: shift.endDate, dueDate: shift.endDate }, { silent: true, transaction });
+        }
+
+        // Extend projects whose shifted phases now end after the project
+        const shiftedPhases = phases.map(phase => {
+          const shift = cascade.shifts.find(s => s.id === phase.id);
+          return shift ? { ...phase, startDate: shift.startDate, endDate: shift.endDate!, dueDate: shift.endDate! } : phase;
+        });
+        const projectIds = new Set(phases.filter(phase => cascade.shifts.some(s => s.id === phase.id)).map(phase => phase.projectId));
+        for (const projectId of projectIds) {
+          const project = projects.find(p => p.id === projectId);
+          if (!project) continue;
+          const endDate = ProjectRules.adjustProjectEndDateForPhases(
+            project,
+            shiftedPhases.filter(phase => phase.projectId === projectId),
+            new Date(project.endDate)
+          );
+          if (!project.continuous && endDate > new Date(project.endDate)) {
+            await updateProject(projectId, { endDate }, { silent: true, transaction });
+          }
+        }
+      });
+
+      toast({
+        title: "Success",
+        description: `Shifted ${cascade.shifts.length} dependent ${cascade.kind === 'project' ? 'project' : 'phase'}${cascade.shifts.length === 1 ? '' : 's'}`,
+      });
+    } catch (error) {
+      ErrorHandlingService.handle(error, { source: 'useDependencyCascade', action: 'Failed to shift dependents:' });
+      toast({
+        title: "Error",
+        description: "Failed to shift dependent dates",
+        variant: "destructive"
+      });
+    }
+  }, [pendingCascade, projects, phases, updateProject, updatePhase]);
+
+  return { pendingCascade, offerCascade, applyCascade, dismissCascade };
+}
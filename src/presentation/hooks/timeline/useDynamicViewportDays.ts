@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
 import { TimelineViewport } from '@/presentation/services/TimelineViewportService';;
+import type { TimelineMode } from '@/shared/types/core';
 
 export function useDynamicViewportDays(
   timelineSidebarCollapsed: boolean, 
   mainSidebarCollapsed: boolean,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ) {
   const [viewportDays, setViewportDays] = useState(30); // Default fallback
 
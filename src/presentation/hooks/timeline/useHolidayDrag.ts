@@ -1,10 +1,11 @@
 import { useCallback } from 'react';
 import { toast } from '@/presentation/hooks/ui/use-toast';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { commandHistory, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
 import { TimelineDragCoordinatorService } from '@/presentation/services/DragCoordinator';
 import { initializeHolidayDragState } from '@/presentation/services/DragPositioning';
 import { addDaysToDate } from '@/presentation/utils/dateCalculations';;
-import type { Holiday, Project } from '@/shared/types/core';
+import type { Holiday, Project, TimelineMode } from '@/shared/types/core';
 import type { DragState } from '@/presentation/services/DragPositioning';
 
 interface UseHolidayDragProps {
@@ -13,8 +14,8 @@ interface UseHolidayDragProps {
   dates: Date[];
   viewportStart: Date;
   viewportEnd: Date;
-  timelineMode: 'days' | 'weeks';
-  updateHoliday: (id: string, updates: Partial<Holiday>, options?: { silent?: boolean }) => Promise<unknown>;
+  timelineMode: TimelineMode;
+  updateHoliday: (id: string, updates: Partial<Holiday>, options?: { silent?: boolean } & HistoryRecordOptions) => Promise<unknown>;
   checkAutoScroll: (clientX: number) => void;
   stopAutoScroll: () => void;
   setIsDragging: (dragging: boolean) => void;
@@ -155,6 +156,7 @@ export function useHolidayDrag({
         try {
           let newStartDate: Date, newEndDate: Date;
           let isValid = false;
+          const historyLabel = action === 'move' ? 'Move holiday' : 'Resize holiday';
           
           if (action === 'resize-start-date') {
             newStartDate = addDaysToDate(new Date(initialDragState.originalStartDate), daysDelta);
@@ -165,7 +167,9 @@ export function useHolidayDrag({
                       !checkHolidayOverlap(newStartDate, newEndDate, holidayId, holidays);
             
             if (isValid) {
-              await updateHoliday(holidayId, { startDate: newStartDate }, { silent: false });
+              await commandHistory.transaction(historyLabel, transaction =>
+                updateHoliday(holidayId, { startDate: newStartDate }, { silent: false, transaction })
+              );
             }
           } else if (action === 'resize-end-date') {
             newStartDate = new Date(initialDragState.originalStartDate);
@@ -176,7 +180,9 @@ export function useHolidayDrag({
                       !checkHolidayOverlap(newStartDate, newEndDate, holidayId, holidays);
             
             if (isValid) {
-              await updateHoliday(holidayId, { endDate: newEndDate }, { silent: false });
+              await commandHistory.transaction(historyLabel, transaction =>
+                updateHoliday(holidayId, { endDate: newEndDate }, { silent: false, transaction })
+              );
             }
           } else if (action === 'move') {
             newStartDate = addDaysToDate(new Date(initialDragState.originalStartDate), daysDelta);
@@ -186,10 +192,12 @@ export function useHolidayDrag({
             isValid = !checkHolidayOverlap(newStartDate, newEndDate, holidayId, holidays);
             
             if (isValid) {
-              await updateHoliday(holidayId, { 
-                startDate: newStartDate,
-                endDate: newEndDate 
-              }, { silent: false });
+              await commandHistory.transaction(historyLabel, transaction =>
+                updateHoliday(holidayId, { 
+                  startDate: newStartDate,
+                  endDate: newEndDate 
+                }, { silent: false, transaction })
+              );
             }
           }
           
@@ -13,21 +13,23 @@
  * - Hook manages React state + coordinates services
  * - PhaseRules domain class handles validation
  * - Updates only on mouse release (not live)
+ * - Reports the new dates so dependents can be shifted (useDependencyCascade)
  * 
  * Created: November 2025
  */
 import { useCallback } from 'react';
 import { toast } from '@/presentation/hooks/ui/use-toast';
-import { addDaysToDate, normalizeToMidnight, calculateDaysDeltaFromPixels } from '@/presentation/utils/dateCalculations';;
-import type { DragState } from '@/presentation/services/DragPositioning';
+import { addDaysToDate, normalizeToMidnight } from '@/presentation/utils/dateCalculations';;
+import { calculateDaysDelta, type DragState } from '@/presentation/services/DragPositioning';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
+import { commandHistory, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
 import type { Phase } from '@/domain/rules/phases/PhaseRules';
-import type { PhaseDTO, Project } from '@/shared/types/core';
+import type { PhaseDTO, Project, TimelineMode } from '@/shared/types/core';
 
 type UpdatePhaseFn = (
   id: string,
   updates: Partial<PhaseDTO>,
-  options?: { silent?: boolean }
+  options?: { silent?: boolean } & HistoryRecordOptions
 ) => Promise<unknown>;
 
 interface UsePhaseResizeProps {
@@ -36,13 +38,14 @@ interface UsePhaseResizeProps {
   dates: Date[];
   viewportStart: Date;
   viewportEnd: Date;
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
   updatePhase: UpdatePhaseFn;
   checkAutoScroll: (clientX: number) => void;
   stopAutoScroll: () => void;
   setIsDragging: (dragging: boolean) => void;
   setDragState: (state: DragState | null) => void;
   dragState: DragState | null;
+  onPhaseDatesChanged?: (phaseId: string, dates: { startDate: Date; endDate: Date }) => void; // Offers to cascade to dependents
 }
 
 /**
@@ -56,7 +59,7 @@ function initializePhaseResizeDragState(
   startX: number,
   startY: number,
   action: 'resize-phase-start' | 'resize-phase-end',
-  mode: 'days' | 'weeks'
+  mode: TimelineMode
 ): DragState {
   return {
     projectId,
@@ -122,7 +125,8 @@ export function usePhaseResize({
   stopAutoScroll,
   setIsDragging,
   setDragState,
-  dragState
+  dragState,
+  onPhaseDatesChanged
 }: UsePhaseResizeProps) {
   
   const handlePhaseResizeMouseDown = useCallback((
@@ -177,7 +181,7 @@ export function usePhaseResize({
         
         // Calculate days delta from mouse movement
         const deltaX = e.clientX - currentDragStateRef.startX;
-        const daysDelta = calculateDaysDeltaFromPixels(
+        const daysDelta = calculateDaysDelta(
           deltaX,
           currentDragStateRef.mode || 'days'
         );
@@ -247,8 +251,8 @@ export function usePhaseResize({
           updates.dueDate = newEndDate; // Keep dueDate in sync with endDate
         }
         
-        // Update database
-        updatePhase(phaseId, updates, { silent: true })
+        // Update database (one undo step, including any project date follow-up)
+        commandHistory.transaction(`Resize phase "${targetPhase.name}"`, transaction => updatePhase(phaseId, updates, { silent: true, transaction }))
           .then(() => {
             setIsDragging(false);
             setDragState(null);
@@ -256,6 +260,10 @@ export function usePhaseResize({
               title: "Success",
               description: `${targetPhase.name} dates updated successfully`,
             });
+            onPhaseDatesChanged?.(phaseId, {
+              startDate: updates.startDate ?? new Date(currentDragStateRef.originalStartDate),
+              endDate: updates.endDate ?? new Date(currentDragStateRef.originalEndDate)
+            });
           })
           .catch((error: Error) => {
             ErrorHandlingService.handle(error, { source: 'usePhaseResize', action: 'Failed to update phase:' });
@@ -289,7 +297,8 @@ export function usePhaseResize({
     checkAutoScroll,
     stopAutoScroll,
     setIsDragging,
-    setDragState
+    setDragState,
+    onPhaseDatesChanged
   ]);
   
   return { handlePhaseResizeMouseDown };
@@ -8,6 +8,7 @@
  * - Hook manages React state + coordinates services
  * - Services handle calculations
  * - Updates only on mouse release (not live)
+ * - Reports the new dates so dependents can be shifted (useDependencyCascade)
  * 
  * Created: November 2025
  */
@@ -17,11 +18,12 @@ import { TimelineDragCoordinatorService } from '@/presentation/services/DragCoor
 import { addDaysToDate } from '@/presentation/utils/dateCalculations';;
 import type { DragState } from '@/presentation/services/DragPositioning';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
-import type { DayEstimate, Project } from '@/shared/types/core';
+import { commandHistory, type HistoryRecordOptions } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import type { DayEstimate, Project, TimelineMode } from '@/shared/types/core';
 type UpdateProjectFn = (
   id: string,
   updates: Partial<Project>,
-  options?: { silent?: boolean }
+  options?: { silent?: boolean } & HistoryRecordOptions
 ) => Promise<Project>;
 
 interface UseProjectResizeProps {
@@ -29,7 +31,7 @@ interface UseProjectResizeProps {
   dates: Date[];
   viewportStart: Date;
   viewportEnd: Date;
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
   dayEstimates: DayEstimate[]; // DayEstimate[] for validation
   updateProject: UpdateProjectFn;
   checkAutoScroll: (clientX: number) => void;
@@ -37,6 +39,7 @@ interface UseProjectResizeProps {
   setIsDragging: (dragging: boolean) => void;
   setDragState: (state: DragState | null) => void;
   dragState: DragState | null;
+  onProjectDatesChanged?: (projectId: string, dates: { startDate: Date; endDate: Date }) => void; // Offers to cascade to dependents
 }
 /**
  * Initialize drag state for project resize
@@ -48,7 +51,7 @@ function initializeProjectResizeDragState(
   startX: number,
   startY: number,
   action: 'resize-start-date' | 'resize-end-date',
-  mode: 'days' | 'weeks'
+  mode: TimelineMode
 ): DragState {
   return {
     projectId,
@@ -77,7 +80,8 @@ export function useProjectResize({
   stopAutoScroll,
   setIsDragging,
   setDragState,
-  dragState: _dragState
+  dragState: _dragState,
+  onProjectDatesChanged
 }: UseProjectResizeProps) {
   const handleProjectResizeMouseDown = useCallback((
     e: React.MouseEvent, 
@@ -172,7 +176,10 @@ export function useProjectResize({
           }
         })();
         // Update database - keep visual state until update completes
-        updateProject(projectId, finalDates, { silent: true })
+        commandHistory.transaction(
+          `Resize project "${targetProject.name}"`,
+          transaction => updateProject(projectId, finalDates, { silent: true, transaction })
+        )
           .then(() => {
             // Clear drag state AFTER database update completes
             setIsDragging(false);
@@ -181,6 +188,7 @@ export function useProjectResize({
               title: "Success",
               description: "Project dates updated successfully",
             });
+            onProjectDatesChanged?.(projectId, finalDates);
           })
           .catch((error: Error) => {
             ErrorHandlingService.handle(error, { source: 'useProjectResize', action: 'Failed to update project:' });
@@ -234,7 +242,8 @@ export function useProjectResize({
     checkAutoScroll,
     stopAutoScroll,
     setIsDragging,
-    setDragState
+    setDragState,
+    onProjectDatesChanged
   ]);
   return { handleProjectResizeMouseDown };
 }
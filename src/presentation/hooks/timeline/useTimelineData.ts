@@ -1,12 +1,12 @@
 import { useMemo } from 'react';
 import { TimelineViewport } from '@/presentation/services/TimelineViewportService';;
-import type { Project } from '@/shared/types/core';
+import type { Project, TimelineMode } from '@/shared/types/core';
 
 export function useTimelineData(
   projects: Project[], 
   viewportStart: Date, 
   viewportDays: number, 
-  mode: 'days' | 'weeks' = 'days', 
+  mode: TimelineMode = 'days', 
   timelineSidebarCollapsed: boolean = false,
   mainSidebarCollapsed: boolean = false
 ) {
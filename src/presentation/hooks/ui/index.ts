@@ -4,3 +4,6 @@ export * from '@/presentation/hooks/ui/use-toast';
 export * from './useFavicon';
 export * from './usePWAInstall';
 export * from './useSwipeNavigation';
+export * from './useCommandHistory';
+export * from './useOfflineSync';
+export * from './useIdleDetection';
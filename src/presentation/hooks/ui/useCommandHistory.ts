@@ -0,0 +1,74 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { commandHistory, type HistoryEntry } from '@/application/orchestrators/CommandHistoryOrchestrator';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+
+/**
+ * Hook exposing the shared undo/redo history
+ * Re-renders whenever an entry is recorded, undone or redone.
+ */
+export function useCommandHistory() {
+  const state = useSyncExternalStore(
+    listener => commandHistory.subscribe(listener),
+    () => commandHistory.getState()
+  );
+
+  const undo = useCallback(() => commandHistory.undo(), []);
+  const redo = useCallback(() => commandHistory.redo(), []);
+  const undoTo = useCallback((entryId: string) => commandHistory.undoTo(entryId), []);
+  const redoTo = useCallback((entryId: string) => commandHistory.redoTo(entryId), []);
+
+  return {
+    ...state,
+    canUndo: state.undoStack.length > 0 && !state.isReplaying,
+    canRedo: state.redoStack.length > 0 && !state.isReplaying,
+    undo,
+    redo,
+    undoTo,
+    redoTo
+  };
+}
+
+/**
+ * App-wide undo/redo keyboard shortcuts
+ *
+ * - Cmd/Ctrl + Z: Undo
+ * - Cmd/Ctrl + Shift + Z, Ctrl + Y: Redo
+ *
+ * Ignored while typing so text fields keep their own undo.
+ */
+export function useUndoRedoShortcuts() {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const announce = (verb: string, entry: HistoryEntry | null) => {
+      if (!entry) return;
+      toast({
+        title: `${verb}: ${entry.label}`,
+        duration: 2000,
+      });
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey)) return;
+      if (
+        e.target instanceof HTMLInputElement ||
+        e.target instanceof HTMLTextAreaElement ||
+        (e.target as HTMLElement).contentEditable === 'true'
+      ) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        commandHistory.undo().then(entry => announce('Undone', entry));
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        commandHistory.redo().then(entry => announce('Redone', entry));
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [toast]);
+}
@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import { detectIdleSpan, type IdleSpan } from '@/domain/rules/time-tracking/SessionAdjustment';
+
+// Shared by all windows of this browser, so activity in one window isn't idle time in another
+const LAST_ACTIVITY_KEY = 'timeTracker_lastActivity';
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+const ACTIVITY_WRITE_THROTTLE_MS = 15 * 1000;
+
+const readSharedActivity = (): number => {
+  const stored = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return Number.isFinite(stored) ? stored : 0;
+};
+
+interface IdleDetectionOptions {
+  enabled: boolean;
+  trackingStart: Date | null;
+  onIdle: (idle: IdleSpan) => void;
+}
+
+/**
+ * Detect time away from the app while tracking
+ *
+ * Activity is input in any window of the app; hiding the page counts as leaving.
+ * The idle span is reported once, on the first activity (or the page becoming
+ * visible again) after a long enough gap.
+ */
+export const useIdleDetection = ({ enabled, trackingStart, onIdle }: IdleDetectionOptions) => {
+  const lastActivityRef = useRef(Date.now());
+  const lastWriteRef = useRef(0);
+  const onIdleRef = useRef(onIdle);
+  const trackingStartRef = useRef(trackingStart);
+  onIdleRef.current = onIdle;
+  trackingStartRef.current = trackingStart;
+
+  useEffect(() => {
+    if (!enabled) return;
+    lastActivityRef.current = Date.now();
+
+    const markActive = (now: number) => {
+      lastActivityRef.current = now;
+      if (now - lastWriteRef.current >= ACTIVITY_WRITE_THROTTLE_MS) {
+        lastWriteRef.current = now;
+        localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+      }
+    };
+
+    const checkReturn = () => {
+      const now = Date.now();
+      const lastActivity = Math.max(lastActivityRef.current, readSharedActivity());
+      const idle = detectIdleSpan(new Date(lastActivity), new Date(now), trackingStartRef.current);
+      markActive(now);
+      if (idle) {
+        onIdleRef.current(idle);
+      }
+    };
+
+    const handleActivity = () => {
+      const now = Date.now();
+      // Only a long gap needs the full check; otherwise just note the activity
+      if (now - lastActivityRef.current > ACTIVITY_WRITE_THROTTLE_MS) {
+        checkReturn();
+      } else {
+        lastActivityRef.current = now;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        lastWriteRef.current = 0; // Always record the moment the page was left
+        markActive(Date.now());
+      } else {
+        checkReturn();
+      }
+    };
+
+    ACTIVITY_EVENTS.forEach(type => window.addEventListener(type, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(type => window.removeEventListener(type, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { offlineSync } from '@/application/orchestrators/OfflineSyncOrchestrator';
+import { useToast } from '@/presentation/hooks/ui/use-toast';
+
+/**
+ * Hook exposing the connection and the offline outbox
+ * Re-renders when the connection changes or changes are queued / synced.
+ */
+export function useOfflineSync() {
+  const state = useSyncExternalStore(
+    listener => offlineSync.subscribe(listener),
+    () => offlineSync.getState()
+  );
+
+  const syncNow = useCallback(() => offlineSync.sync(), []);
+  const retryFailed = useCallback(() => offlineSync.retryFailed(), []);
+  const discardFailed = useCallback((entryId: string) => offlineSync.discardFailed(entryId), []);
+
+  return { ...state, syncNow, retryFailed, discardFailed };
+}
+
+/**
+ * App-wide offline sync: replays changes made offline when the connection is back
+ */
+export function useOfflineSyncLifecycle() {
+  const { toast } = useToast();
+
+  useEffect(() => offlineSync.start(), []);
+
+  useEffect(() => {
+    let wasOnline = offlineSync.getState().isOnline;
+    return offlineSync.subscribe(() => {
+      const { isOnline, pendingCount } = offlineSync.getState();
+      if (isOnline === wasOnline) return;
+      wasOnline = isOnline;
+      toast({
+        title: isOnline ? 'Back online' : 'You are offline',
+        description: isOnline
+          ? (pendingCount > 0 ? 'Syncing changes made offline' : 'All changes are saved')
+          : 'Changes are saved on this device and sync when you reconnect',
+        duration: 3000,
+      });
+    });
+  }, [toast]);
+}
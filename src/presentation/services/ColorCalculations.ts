@@ -213,6 +213,46 @@ export class ColorCalculationService {
     return `oklch(${textConfig.targetLightness} ${textChroma} ${hue})`;
   }
 
+  /**
+   * Convert an OKLCH, hex or rgb() color to sRGB channels (0-255)
+   * For outputs that don't understand CSS colors, such as PDF drawing
+   */
+  static toRgb(color: string): [number, number, number] | null {
+    const oklch = color.match(/oklch\(([0-9.]+) ([0-9.]+) ([0-9.]+)\)/);
+    if (oklch) {
+      const [lightness, chroma, hue] = oklch.slice(1).map(Number);
+      const a = chroma * Math.cos((hue * Math.PI) / 180);
+      const b = chroma * Math.sin((hue * Math.PI) / 180);
+      // OKLab → linear sRGB
+      const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+      const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+      const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+      const linear = [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+      ];
+      const [red, green, blue] = linear.map(value => {
+        const clamped = Math.min(1, Math.max(0, value));
+        const gamma = clamped <= 0.0031308 ? 12.92 * clamped : 1.055 * clamped ** (1 / 2.4) - 0.055;
+        return Math.round(gamma * 255);
+      });
+      return [red, green, blue];
+    }
+
+    const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].split('').map(d => d + d).join('') : hex[1];
+      return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+    }
+
+    const rgb = color.match(/rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/);
+    if (rgb) {
+      return [Number(rgb[1]), Number(rgb[2]), Number(rgb[3])];
+    }
+    return null;
+  }
+
   /**
    * Calculate event border color for selected state
    */
@@ -16,14 +16,14 @@ import { calculateWorkHoursTotal, calculateDayWorkHours } from '@/domain/rules/a
 import { TimelineViewport as TimelineViewportService } from './TimelineViewportService';
 import * as ProjectBarResizeService from './ProjectBarResizeService';
 import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
-import type { Project, PhaseDTO, DayEstimate } from '@/shared/types/core';
+import type { Project, PhaseDTO, DayEstimate, TimelineMode } from '@/shared/types/core';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 
 export interface TimelineContext {
   projects: Project[];
   viewportStart: Date;
   viewportEnd: Date;
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
   dates: Date[];
   dayEstimates?: DayEstimate[]; // Optional: for resize validation against planned/completed time
 }
@@ -16,7 +16,8 @@
 
 import { calculateDaysDeltaFromPixels, addDaysToDatePure, normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
 import { debounce, throttle, cleanupPerformanceTimers } from '@/presentation/utils/performance';
-import { TimelineViewport } from './TimelineViewportService';
+import { TimelineViewport, getTimelineDayWidth, isAggregatedTimelineMode } from './TimelineViewportService';
+import type { TimelineMode } from '@/shared/types/core';
 
 /**
  * Drag state interface for timeline interactions
@@ -32,7 +33,7 @@ export interface DragState {
   originalStartDate: Date;
   originalEndDate: Date;
   lastDaysDelta: number;
-  mode?: 'days' | 'weeks';
+  mode?: TimelineMode;
   isDynamicWidth?: boolean;
   // Derived/visual fields applied during drag lifecycle
   pixelDeltaX?: number;
@@ -120,6 +121,10 @@ export const DRAG_CONSTANTS = {
   DAYS_MODE_COLUMN_WIDTH: 52,
   WEEKS_MODE_COLUMN_WIDTH: 153,
   WEEKS_MODE_DAY_WIDTH: 22, // 21px day + 1px gap = 22px effective spacing
+  MONTHS_MODE_DAY_WIDTH: 5,
+  QUARTERS_MODE_DAY_WIDTH: 2,
+  // Drags snap to whole days; at 2px a day, quarter view snaps to whole weeks instead
+  SNAP_DAYS: { days: 1, weeks: 1, months: 1, quarters: 7 },
   HOLIDAY_FIXED_WIDTH: 52,
   MIN_PROJECT_DURATION_DAYS: 1,
   MAX_PROJECT_DURATION_DAYS: 365,
@@ -130,6 +135,15 @@ export const DRAG_CONSTANTS = {
   THROTTLE_DELAY_WEEKS_MS: 50
 } as const;
 
+/**
+ * Round a days delta to the snap step of the timeline mode
+ */
+export function snapDaysDelta(daysDelta: number, mode: TimelineMode = 'days'): number {
+  const step = DRAG_CONSTANTS.SNAP_DAYS[mode];
+  const snapped = Math.round(daysDelta / step) * step;
+  return snapped === 0 ? 0 : snapped; // Avoid -0
+}
+
 /**
  * Drag operation types
  */
@@ -157,10 +171,10 @@ export const throttleDragUpdate = throttle;
  */
 export function calculateDaysDelta(
   currentMouseXOrDelta: number,
-  startXOrMode?: number | 'days' | 'weeks',
+  startXOrMode?: number | TimelineMode,
   dates?: Date[],
   allowFractional?: boolean,
-  mode?: 'days' | 'weeks'
+  mode?: TimelineMode
 ): number {
   // Handle legacy signature: calculateDaysDelta(currentMouseX, startX, dates, allowFractional, mode)
   if (typeof startXOrMode === 'number' && dates) {
@@ -173,21 +187,28 @@ export function calculateDaysDelta(
       deltaX,
       timelineMode,
       DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH,
-      DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH
+      DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH,
+      DRAG_CONSTANTS.MONTHS_MODE_DAY_WIDTH,
+      DRAG_CONSTANTS.QUARTERS_MODE_DAY_WIDTH
     );
     
-    return allowFractional ? result : Math.round(result);
+    return allowFractional ? result : snapDaysDelta(result, timelineMode);
   }
   
   // Handle new signature: calculateDaysDelta(deltaX, mode)
   const deltaX = currentMouseXOrDelta;
-  const timelineMode = (startXOrMode as 'days' | 'weeks') || 'days';
+  const timelineMode = (startXOrMode as TimelineMode) || 'days';
   
-  return calculateDaysDeltaFromPixels(
-    deltaX,
-    timelineMode,
-    DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH,
-    DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH
+  return snapDaysDelta(
+    calculateDaysDeltaFromPixels(
+      deltaX,
+      timelineMode,
+      DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH,
+      DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH,
+      DRAG_CONSTANTS.MONTHS_MODE_DAY_WIDTH,
+      DRAG_CONSTANTS.QUARTERS_MODE_DAY_WIDTH
+    ),
+    timelineMode
   );
 }
 
@@ -199,7 +220,7 @@ export function calculateMousePositionChange(
   startY: number,
   currentX: number,
   currentY: number,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): MousePositionCalculation {
   const deltaX = currentX - startX;
   const deltaY = currentY - startY;
@@ -369,11 +390,14 @@ export function createSmoothDragAnimation(
 export function calculateSnapToGrid(
   position: number,
   gridSize: number,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): number {
-  const effectiveGridSize = mode === 'weeks' ? 
-    DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH : 
-    DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH;
+  // Month/quarter grids are the snap step, not the (variable) column width
+  const effectiveGridSize = isAggregatedTimelineMode(mode)
+    ? DRAG_CONSTANTS.SNAP_DAYS[mode] * getTimelineDayWidth(mode)
+    : mode === 'weeks'
+      ? DRAG_CONSTANTS.WEEKS_MODE_COLUMN_WIDTH
+      : DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH;
   
   return Math.round(position / effectiveGridSize) * effectiveGridSize;
 }
@@ -438,7 +462,7 @@ export function initializeDragState(
   action: string,
   startX: number,
   startY: number,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): DragState {
   return {
     projectId: element.id,
@@ -461,7 +485,7 @@ export function initializePhaseDragState(
   phaseDate: Date,
   startX: number,
   startY: number,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): DragState {
   return {
     phaseId,
@@ -478,15 +502,15 @@ export function initializePhaseDragState(
 
 /**
  * Calculate phase drag update with snap behavior
- * Phases snap to day boundaries in days mode, smooth in weeks mode
+ * Phases snap to day boundaries in days mode, smooth in weeks/months/quarters mode
  */
 export function calculatePhaseDragUpdate(
   currentMouseX: number,
   dragState: DragState,
-  mode: 'days' | 'weeks'
+  mode: TimelineMode
 ): DragPositionResult {
   const deltaX = currentMouseX - dragState.startX;
-  const dayWidth = mode === 'weeks' ? DRAG_CONSTANTS.WEEKS_MODE_DAY_WIDTH : DRAG_CONSTANTS.DAYS_MODE_COLUMN_WIDTH;
+  const dayWidth = getTimelineDayWidth(mode);
   
   // Calculate smooth movement
   const smoothDaysDelta = deltaX / dayWidth;
@@ -495,10 +519,10 @@ export function calculatePhaseDragUpdate(
   let visualDelta: number;
   let daysDelta: number;
   
-  if (mode === 'weeks') {
-    // Smooth movement in weeks view
+  if (mode !== 'days') {
+    // Smooth movement in weeks/months/quarters view
     visualDelta = smoothDaysDelta;
-    daysDelta = Math.round(smoothDaysDelta); // Round for final date calculation
+    daysDelta = snapDaysDelta(smoothDaysDelta, mode); // Snap for final date calculation
   } else {
     // Snap to day boundaries in days view
     daysDelta = Math.round(smoothDaysDelta);
@@ -506,7 +530,7 @@ export function calculatePhaseDragUpdate(
   }
   
   // Determine if we should update (changed by at least half a day in weeks, or any in days)
-  const minMovement = mode === 'weeks' ? 0.5 : 1;
+  const minMovement = mode === 'days' ? 1 : 0.5;
   const shouldUpdate = Math.abs(daysDelta - dragState.lastDaysDelta) >= minMovement;
   
   return {
@@ -616,7 +640,7 @@ export function initializeHolidayDragState(
   startX: number,
   startY: number,
   action: 'move' | 'resize-start-date' | 'resize-end-date',
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): DragState {
   return {
     holidayId,
@@ -638,7 +662,7 @@ export function initializeHolidayDragState(
 export function calculateHolidayDragUpdate(
   currentMouseX: number,
   dragState: DragState,
-  mode: 'days' | 'weeks'
+  mode: TimelineMode
 ): DragPositionResult {
   // Calculate pixel delta from start position
   const pixelDeltaX = currentMouseX - dragState.startX;
@@ -776,7 +800,7 @@ export function calculateDragPositionUpdate(
   currentMouseY: number,
   dragState: DragState,
   dates: Date[],
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): DragPositionResult {
   // Calculate pixel delta from start position
   const pixelDeltaX = currentMouseX - dragState.startX;
@@ -3,6 +3,7 @@ import { EventInput } from '@fullcalendar/core';
 import { calculateEventStyle, type EventStyleConfig } from '@/domain/rules/availability/EventWorkHourIntegration';
 import { OKLCH_FALLBACK_GRAY, OKLCH_HABIT_BROWN, NEUTRAL_COLORS } from '@/presentation/constants/colors';
 import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
+import { expandRecurringEvent } from '@/domain/rules/events/EventRecurrence';
 
 /**
  * Event Transformations for FullCalendar
@@ -14,6 +15,7 @@ import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
  * - Transform CalendarEvent ↔ FullCalendar EventInput
  * - Combine events + work hours for FullCalendar display
  * - Handle RRULE exceptions and styling
+ * - Expand imported series (time zone, cancelled and moved instances) into occurrences
  * 
  * NOT responsible for:
  * - Business logic (goes to domain/rules/)
@@ -21,6 +23,10 @@ import { calculateDurationHours } from '@/presentation/utils/dateCalculations';
  * - Database operations (goes to orchestrators/)
  */
 
+// Imported series are expanded from a year back to two years ahead (the same
+// horizon the rrule plugin gets through its UNTIL safety limit)
+const SERIES_EXPANSION_YEARS = { past: 1, future: 2 };
+
 /**
  * Prepare events and work hours for FullCalendar display
  * Combines calendar events, habits, tasks, and work hours into FullCalendar format
@@ -37,14 +43,16 @@ export function prepareEventsForFullCalendar(
   // Add calendar events (all categories: events, habits, tasks)
   if (layerMode === 'events' || layerMode === 'both') {
     events.forEach(event => {
-      const fcEvent = transformCalendarEventToFullCalendar(event, { projects });
-      if (fcEvent) {
+      const eventInputs = needsSeriesExpansion(event)
+        ? expandSeriesForFullCalendar(event, { projects })
+        : [transformCalendarEventToFullCalendar(event, { projects })];
+      eventInputs.forEach(fcEvent => {
         // Highlight selected event
         if (selectedEventId === event.id) {
           fcEvent.className = `${fcEvent.className || ''} selected-event`.trim();
         }
         fcEvents.push(fcEvent);
-      }
+      });
     });
   }
 
@@ -220,6 +228,63 @@ export function transformCalendarEventToFullCalendar(event: CalendarEvent, optio
   };
 }
 
+/**
+ * Whether a series must be expanded here instead of by FullCalendar's rrule plugin
+ * The plugin expands in UTC and knows nothing of calendar_event_exceptions, so
+ * series with a time zone or exceptions would drift across DST, show cancelled
+ * instances and show moved instances twice.
+ */
+function needsSeriesExpansion(event: CalendarEvent): boolean {
+  return !!event.rrule && (!!event.recurrenceTimeZone || !!event.recurrenceExceptions?.length);
+}
+
+/**
+ * Expand a series into one FullCalendar event per occurrence
+ * Occurrences keep the series id and point at the series in originalEvent.
+ */
+export function expandSeriesForFullCalendar(
+  event: CalendarEvent,
+  options: { projects?: Project[] } = {},
+  now: Date = new Date()
+): EventInput[] {
+  const rangeStart = new Date(now);
+  rangeStart.setFullYear(rangeStart.getFullYear() - SERIES_EXPANSION_YEARS.past);
+  const rangeEnd = new Date(now);
+  rangeEnd.setFullYear(rangeEnd.getFullYear() + SERIES_EXPANSION_YEARS.future);
+
+  const occurrences = expandRecurringEvent(
+    {
+      startTime: new Date(event.startTime),
+      endTime: new Date(event.endTime),
+      rrule: event.rrule!,
+      timeZone: event.recurrenceTimeZone,
+      exceptions: event.recurrenceExceptions
+    },
+    rangeStart,
+    rangeEnd
+  );
+
+  return occurrences.map(occurrence => {
+    const fcEvent = transformCalendarEventToFullCalendar({
+      ...event,
+      title: occurrence.title ?? event.title,
+      description: occurrence.description ?? event.description,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime,
+      rrule: undefined
+    }, options);
+    return {
+      ...fcEvent,
+      extendedProps: {
+        ...fcEvent.extendedProps,
+        rrule: event.rrule,
+        originalEvent: event,
+        occurrenceStart: occurrence.originalStart
+      }
+    };
+  });
+}
+
 /**
  * Transform WorkHour to FullCalendar EventInput format
  * Supports both single-instance and RRULE-based work hours
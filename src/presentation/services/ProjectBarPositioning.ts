@@ -21,7 +21,9 @@ import {
   isWeekendDate,
   calculateProjectDaysInViewport,
   convertIndicesToDates,
-  calculateOccupiedHolidayIndices
+  calculateOccupiedHolidayIndices,
+  calculateTimelineDayOffset,
+  isTodayInColumn
 } from '@/presentation/utils/dateCalculations';
 import {
   calculateWorkHoursTotal,
@@ -29,9 +31,10 @@ import {
   calculateTotalDayWorkHours
 } from '@/domain/rules/availability/WorkHourGeneration';
 import { formatDateShort, formatWeekdayDate } from '@/presentation/utils/dateFormatUtils';
-import type { Holiday } from '@/shared/types/core';
+import type { Holiday, TimelineMode } from '@/shared/types/core';
 import { ErrorHandlingService } from '@/infrastructure/errors/ErrorHandlingService';
 import type { DragState } from './DragPositioning';
+import { calculateTimelineColumnLayout, getTimelineDayWidth, isAggregatedTimelineMode } from './TimelineViewportService';
 
 // Re-export date calculation functions for backwards compatibility
 export { 
@@ -55,7 +58,7 @@ export interface TimelineColumnData {
   isToday: boolean;
   isNewMonth: boolean;
   isNewWeek: boolean;
-  mode: 'days' | 'weeks';
+  mode: TimelineMode;
   isWeekend?: boolean;
   weekendDays?: Array<{
     leftPx: number;
@@ -79,10 +82,17 @@ export function calculateTimelinePositions(
   viewportStart: Date,
   viewportEnd: Date,
   dates: Date[],
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): TimelinePositionCalculation {
   try {
-    if (mode === 'weeks') {
+    if (isAggregatedTimelineMode(mode)) {
+      return calculateAggregatedModePositions(
+        projectStart,
+        projectEnd,
+        dates,
+        getTimelineDayWidth(mode)
+      );
+    } else if (mode === 'weeks') {
       return calculateWeeksModePositions(
         projectStart,
         projectEnd,
@@ -190,6 +200,31 @@ function calculateWeeksModePositions(
   return { baselineStartPx, baselineWidthPx };
 }
 
+/**
+ * Calculate positions for months/quarters mode timeline
+ * Columns are as wide as their days, so a date's position is its day offset × day width
+ */
+function calculateAggregatedModePositions(
+  projectStart: Date,
+  projectEnd: Date,
+  dates: Date[],
+  dayWidth: number
+): TimelinePositionCalculation {
+  const firstColumnStart = dates[0];
+  if (!firstColumnStart) {
+    return { baselineStartPx: 0, baselineWidthPx: 0 };
+  }
+
+  const startOffset = calculateTimelineDayOffset(projectStart, firstColumnStart);
+  const endOffset = calculateTimelineDayOffset(projectEnd, firstColumnStart);
+
+  return {
+    baselineStartPx: startOffset * dayWidth,
+    // At least a few pixels so single-day projects stay visible
+    baselineWidthPx: Math.max(4, (endOffset + 1 - startOffset) * dayWidth)
+  };
+}
+
 /**
  * Calculate positions for days mode timeline
  */
@@ -245,7 +280,7 @@ export function getTimelinePositions(
   viewportStart: Date,
   viewportEnd: Date,
   dates: Date[],
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): TimelinePositionCalculation {
   return calculateTimelinePositions(
     projectStart,
@@ -270,13 +305,13 @@ export function calculateBaselineVisualOffsets(
   isDragging: boolean,
   dragState: DragState | null | undefined,
   projectId: string,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): TimelinePositionCalculation {
   let adjustedPositions: TimelinePositionCalculation = { ...positions };
 
   if (isDragging && dragState?.projectId === projectId) {
     // Use lastDaysDelta for consistent snapping across all modes
-    const dayWidth = mode === 'weeks' ? 22 : 52;
+    const dayWidth = getTimelineDayWidth(mode);
     const daysDelta = dragState.lastDaysDelta || 0;
     const dragOffsetPx = daysDelta * dayWidth;
 
@@ -395,8 +430,12 @@ export function calculateProjectDays(
  */
 export function calculateTimelineColumnMarkerData(
   dates: Date[], 
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): TimelineColumnData[] {
+  if (isAggregatedTimelineMode(mode)) {
+    return calculateAggregatedColumnMarkerData(dates, mode);
+  }
+
   const columnWidth = mode === 'weeks' ? 153 : 52;
   const WEEK_DAY_WIDTH_PX = 22; // 21px day + 1px gap
   const today = new Date();
@@ -478,6 +517,32 @@ export function calculateTimelineColumnMarkerData(
   });
 }
 
+/**
+ * Column marker data for month and quarter columns
+ * Every column after the first starts a new month, so each gets the month separator
+ */
+function calculateAggregatedColumnMarkerData(
+  dates: Date[],
+  mode: 'months' | 'quarters'
+): TimelineColumnData[] {
+  const dayWidth = getTimelineDayWidth(mode);
+  const today = new Date();
+
+  return calculateTimelineColumnLayout(dates, mode).map((column, index) => {
+    const isCurrentColumn = isTodayInColumn(column.date, mode);
+    return {
+      date: column.date,
+      index,
+      columnWidth: column.widthPx,
+      isToday: isCurrentColumn,
+      isNewMonth: index > 0,
+      isNewWeek: false,
+      todayPositionPx: isCurrentColumn ? calculateTimelineDayOffset(today, column.date) * dayWidth : 0,
+      mode
+    };
+  });
+}
+
 // ============================================================================
 // LEGACY COMPATIBILITY (DEPRECATED - USE NEW FUNCTIONS ABOVE)
 // ============================================================================
@@ -516,14 +581,20 @@ export function convertMousePositionToTimelineIndex(
   clientX: number,
   containerRect: DOMRect,
   dates: Date[],
-  mode: 'days' | 'weeks' = 'days',
+  mode: TimelineMode = 'days',
   occupiedIndices: number[] = []
 ): { dayIndex: number; isValid: boolean } {
   const relativeX = clientX - containerRect.left;
   let dayIndex: number;
   let maxIndex: number;
   
-  if (mode === 'weeks') {
+  if (isAggregatedTimelineMode(mode)) {
+    // In month/quarter modes, the index is the day offset from the first column
+    const layout = calculateTimelineColumnLayout(dates, mode);
+    const lastColumn = layout[layout.length - 1];
+    dayIndex = Math.floor(relativeX / getTimelineDayWidth(mode));
+    maxIndex = lastColumn ? lastColumn.dayOffset + lastColumn.dayCount : 0;
+  } else if (mode === 'weeks') {
     // In weeks mode, calculate day-level index (21px per day + 1px gap)
     const dayWidth = 22; // 21px day + 1px gap = 22px effective spacing
     dayIndex = Math.floor(relativeX / dayWidth);
@@ -4,8 +4,17 @@
  * Migrated from legacy/timeline/timelineViewportService.ts
  */
 import { formatDateRange } from '@/presentation/utils/dateFormatUtils';
-import { normalizeToMidnight, addDaysToDate } from '@/presentation/utils/dateCalculations';
-import type { Project } from '@/shared/types/core';
+import {
+  normalizeToMidnight,
+  addDaysToDate,
+  addTimelineColumns,
+  calculateTimelineDayOffset,
+  generateTimelineColumnDates,
+  getTimelineColumnDayCount,
+  getTimelineColumnEnd,
+  getTimelineColumnStart
+} from '@/presentation/utils/dateCalculations';
+import type { Project, TimelineMode } from '@/shared/types/core';
 // Types for viewport operations
 export interface ViewportPosition {
   start: Date;
@@ -29,18 +38,18 @@ export interface ViewportNavigationParams {
   currentViewportStart: Date;
   viewportDays: number;
   direction: 'prev' | 'next';
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
 }
 export interface DateSelectionParams {
   selectedDate: Date;
   currentViewportStart: Date;
   viewportDays: number;
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
 }
 export interface ProjectScrollParams {
   projectStartDate: Date;
   currentViewportStart: Date;
-  timelineMode: 'days' | 'weeks';
+  timelineMode: TimelineMode;
 }
 export interface AutoScrollTriggerParams {
   mouseX: number;
@@ -64,8 +73,90 @@ export const TIMELINE_COLUMN_WIDTHS = {
     COLUMN_WIDTH: 153,     // Width of each week column (7 days × 21px + 6 gaps × 1px = 153px)
     DAY_WIDTH: 22,         // Width of each day within a week column (21px day + 1px gap)
     BUFFER_WIDTH: 0        // No buffer needed for weeks mode
+  },
+  MONTHS_MODE: {
+    DAY_WIDTH: 5,          // Month columns are as wide as their days (28-31 days × 5px)
+    BUFFER_WIDTH: 0
+  },
+  QUARTERS_MODE: {
+    DAY_WIDTH: 2,          // Quarter columns are as wide as their days (90-92 days × 2px)
+    BUFFER_WIDTH: 0
   }
 } as const;
+
+/**
+ * Column layout of one timeline column
+ * leftPx/widthPx place the column; dayOffset/dayCount place its days on the shared day axis
+ */
+export interface TimelineColumnLayout {
+  date: Date;
+  endDate: Date;
+  leftPx: number;
+  widthPx: number;
+  dayOffset: number;
+  dayCount: number;
+}
+
+/**
+ * Month and quarter columns summarise many days: hour bars are aggregated per column
+ */
+export function isAggregatedTimelineMode(mode: TimelineMode): mode is 'months' | 'quarters' {
+  return mode === 'months' || mode === 'quarters';
+}
+
+/**
+ * Horizontal space taken by one day in a timeline mode
+ */
+export function getTimelineDayWidth(mode: TimelineMode): number {
+  switch (mode) {
+    case 'weeks':
+      return TIMELINE_COLUMN_WIDTHS.WEEKS_MODE.DAY_WIDTH;
+    case 'months':
+      return TIMELINE_COLUMN_WIDTHS.MONTHS_MODE.DAY_WIDTH;
+    case 'quarters':
+      return TIMELINE_COLUMN_WIDTHS.QUARTERS_MODE.DAY_WIDTH;
+    default:
+      return TIMELINE_COLUMN_WIDTHS.DAYS_MODE.COLUMN_WIDTH;
+  }
+}
+
+/**
+ * Width of the column starting at columnStart (month and quarter widths follow their day count)
+ */
+export function getTimelineColumnWidth(columnStart: Date, mode: TimelineMode): number {
+  if (isAggregatedTimelineMode(mode)) {
+    return getTimelineColumnDayCount(columnStart, mode) * getTimelineDayWidth(mode);
+  }
+  return mode === 'weeks' ? TIMELINE_COLUMN_WIDTHS.WEEKS_MODE.COLUMN_WIDTH : TIMELINE_COLUMN_WIDTHS.DAYS_MODE.COLUMN_WIDTH;
+}
+
+/**
+ * Left edge, width and days of every visible column
+ */
+export function calculateTimelineColumnLayout(dates: Date[], mode: TimelineMode): TimelineColumnLayout[] {
+  const firstColumn = dates[0];
+  let leftPx = 0;
+  return dates.map(date => {
+    const widthPx = getTimelineColumnWidth(date, mode);
+    const layout: TimelineColumnLayout = {
+      date,
+      endDate: getTimelineColumnEnd(date, mode),
+      leftPx,
+      widthPx,
+      dayOffset: calculateTimelineDayOffset(date, firstColumn),
+      dayCount: getTimelineColumnDayCount(date, mode)
+    };
+    leftPx += widthPx;
+    return layout;
+  });
+}
+
+/**
+ * Total width of the visible columns
+ */
+export function calculateTimelineContentWidth(dates: Date[], mode: TimelineMode): number {
+  return dates.reduce((total, date) => total + getTimelineColumnWidth(date, mode), 0);
+}
 /**
  * Timeline Viewport Management Service
  * Provides viewport calculations, navigation, and animation utilities
@@ -78,6 +169,13 @@ export class TimelineViewport {
   private static readonly MAX_VIEWPORT_DAYS = 60;
   private static readonly MIN_VIEWPORT_WEEKS = 4;
   private static readonly MAX_VIEWPORT_WEEKS = 30;
+  private static readonly MIN_VIEWPORT_MONTHS = 3;
+  private static readonly MAX_VIEWPORT_MONTHS = 24;
+  private static readonly MIN_VIEWPORT_QUARTERS = 2;
+  private static readonly MAX_VIEWPORT_QUARTERS = 12;
+  // Typical column widths used to estimate how many month/quarter columns fit
+  private static readonly AVERAGE_MONTH_DAYS = 30.44;
+  private static readonly AVERAGE_QUARTER_DAYS = 91.31;
   private static readonly SIDEBAR_WIDTH = 280;
   private static readonly COLLAPSED_SIDEBAR_WIDTH = 48;
   private static readonly VIEWPORT_MARGINS = 100;
@@ -87,7 +185,7 @@ export class TimelineViewport {
   static calculateDynamicViewportSize(params: {
     timelineSidebarCollapsed: boolean;
     mainSidebarCollapsed: boolean;
-    mode: 'days' | 'weeks';
+    mode: TimelineMode;
     availableWidth?: number;
   }): number {
     const { timelineSidebarCollapsed, mainSidebarCollapsed, mode, availableWidth } = params;
@@ -95,7 +193,12 @@ export class TimelineViewport {
     const timelineSidebarWidth = timelineSidebarCollapsed ? this.COLLAPSED_SIDEBAR_WIDTH : this.SIDEBAR_WIDTH;
     const mainSidebarWidth = mainSidebarCollapsed ? 64 : 192; // Main app sidebar widths (w-16 = 64px, w-48 = 192px)
     const calculatedAvailableWidth = Math.max(600, viewportWidth - mainSidebarWidth - timelineSidebarWidth - this.VIEWPORT_MARGINS);
-    if (mode === 'weeks') {
+    if (isAggregatedTimelineMode(mode)) {
+      const { min, max, averageDays } = this.getAggregatedViewportBounds(mode);
+      const completeColumns = Math.floor(calculatedAvailableWidth / (averageDays * getTimelineDayWidth(mode)));
+      const columns = Math.max(min, Math.min(max, completeColumns + 2));
+      return Math.round(columns * averageDays); // Convert to days
+    } else if (mode === 'weeks') {
       const completeWeekColumns = Math.floor(calculatedAvailableWidth / this.MIN_WEEK_COLUMN_WIDTH);
       const weeksWithBuffer = completeWeekColumns + 8;
       const weeks = Math.max(this.MIN_VIEWPORT_WEEKS, Math.min(this.MAX_VIEWPORT_WEEKS, weeksWithBuffer));
@@ -112,7 +215,7 @@ export class TimelineViewport {
   static calculateVisibleColumns(params: {
     timelineSidebarCollapsed: boolean;
     mainSidebarCollapsed: boolean;
-    mode: 'days' | 'weeks';
+    mode: TimelineMode;
     availableWidth?: number;
   }): number {
     const { timelineSidebarCollapsed, mainSidebarCollapsed, mode, availableWidth } = params;
@@ -120,7 +223,12 @@ export class TimelineViewport {
     const timelineSidebarWidth = timelineSidebarCollapsed ? this.COLLAPSED_SIDEBAR_WIDTH : this.SIDEBAR_WIDTH;
     const mainSidebarWidth = mainSidebarCollapsed ? 64 : 192;
     const calculatedAvailableWidth = Math.max(600, viewportWidth - mainSidebarWidth - timelineSidebarWidth - this.VIEWPORT_MARGINS);
-    if (mode === 'weeks') {
+    if (isAggregatedTimelineMode(mode)) {
+      // Use ceil to include the partial final month/quarter, plus one for shorter months
+      const { averageDays } = this.getAggregatedViewportBounds(mode);
+      const theoreticalColumns = calculatedAvailableWidth / (averageDays * getTimelineDayWidth(mode));
+      return Math.max(1, Math.ceil(theoreticalColumns) + 1);
+    } else if (mode === 'weeks') {
       // Use ceil to include partial final week
       const theoreticalColumns = calculatedAvailableWidth / 153;
       return Math.max(1, Math.ceil(theoreticalColumns));
@@ -130,6 +238,14 @@ export class TimelineViewport {
       return Math.max(1, Math.ceil(theoreticalColumns) + 1);
     }
   }
+  /**
+   * Column count bounds and typical column length for month and quarter modes
+   */
+  private static getAggregatedViewportBounds(mode: 'months' | 'quarters'): { min: number; max: number; averageDays: number } {
+    return mode === 'months'
+      ? { min: this.MIN_VIEWPORT_MONTHS, max: this.MAX_VIEWPORT_MONTHS, averageDays: this.AVERAGE_MONTH_DAYS }
+      : { min: this.MIN_VIEWPORT_QUARTERS, max: this.MAX_VIEWPORT_QUARTERS, averageDays: this.AVERAGE_QUARTER_DAYS };
+  }
   /**
    * Generate timeline data with optimized viewport calculations
    */
@@ -137,7 +253,7 @@ export class TimelineViewport {
     projects: Project[];
     viewportStart: Date;
     viewportDays: number;
-    mode: 'days' | 'weeks';
+    mode: TimelineMode;
     timelineSidebarCollapsed: boolean;
     mainSidebarCollapsed: boolean;
     availableWidth?: number;
@@ -145,7 +261,7 @@ export class TimelineViewport {
     dates: Date[];
     viewportEnd: Date;
     filteredProjects: Project[];
-    mode: 'days' | 'weeks';
+    mode: TimelineMode;
     actualViewportStart: Date;
   } {
     const { projects, viewportStart, mode, timelineSidebarCollapsed, mainSidebarCollapsed, availableWidth } = params;
@@ -155,7 +271,27 @@ export class TimelineViewport {
       mode,
       availableWidth
     });
-    if (mode === 'weeks') {
+    if (isAggregatedTimelineMode(mode)) {
+      // Month/quarter modes: one column per calendar month or quarter
+      const dates = generateTimelineColumnDates(viewportStart, visibleColumns, mode);
+      const actualViewportStart = dates[0];
+      const viewportEnd = getTimelineColumnEnd(dates[dates.length - 1], mode);
+      const filteredProjects = (projects || []).filter(project => {
+        const projectStart = new Date(project.startDate);
+        if (project.continuous) {
+          return projectStart <= viewportEnd;
+        }
+        const projectEnd = new Date(project.endDate);
+        return !(projectEnd < actualViewportStart || projectStart > viewportEnd);
+      });
+      return {
+        dates,
+        viewportEnd,
+        filteredProjects,
+        mode,
+        actualViewportStart
+      };
+    } else if (mode === 'weeks') {
       // For weeks mode, show only the visible week columns
       const actualWeeks = visibleColumns;
       // Adjust viewportStart to start of week (Monday)
@@ -258,11 +394,20 @@ export class TimelineViewport {
     currentViewportStart: Date;
     viewportDays: number;
     direction: 'prev' | 'next';
-    timelineMode: 'days' | 'weeks';
+    timelineMode: TimelineMode;
   }): { start: Date; end: Date } {
     const { currentViewportStart, viewportDays, direction, timelineMode } = params;
     let newStart: Date;
-    if (timelineMode === 'weeks') {
+    if (isAggregatedTimelineMode(timelineMode)) {
+      // Navigate by whole months/quarters so columns stay on calendar boundaries
+      const { averageDays } = this.getAggregatedViewportBounds(timelineMode);
+      const columnsToMove = Math.max(1, Math.round(viewportDays / averageDays));
+      newStart = addTimelineColumns(
+        getTimelineColumnStart(currentViewportStart, timelineMode),
+        direction === 'next' ? columnsToMove : -columnsToMove,
+        timelineMode
+      );
+    } else if (timelineMode === 'weeks') {
       // Navigate by weeks
       const weeksToMove = Math.ceil(viewportDays / 7);
       newStart = new Date(currentViewportStart);
@@ -309,7 +454,7 @@ export class TimelineViewport {
   static calculateTodayTarget(params: {
     currentDate: Date;
     viewportDays: number;
-    timelineMode: 'days' | 'weeks';
+    timelineMode: TimelineMode;
     timelineSidebarCollapsed?: boolean;
     mainSidebarCollapsed?: boolean;
   }): { start: Date; end: Date } {
@@ -320,6 +465,15 @@ export class TimelineViewport {
       mainSidebarCollapsed,
       mode: timelineMode
     });
+    if (isAggregatedTimelineMode(timelineMode)) {
+      // Center the column containing today among the visible months/quarters
+      const start = addTimelineColumns(
+        getTimelineColumnStart(currentDate, timelineMode),
+        -Math.floor((visibleColumns - 1) / 2),
+        timelineMode
+      );
+      return { start, end: addDaysToDate(start, viewportDays - 1) };
+    }
     // Calculate visible days based on mode
     const visibleDays = timelineMode === 'weeks' ? visibleColumns * 7 : visibleColumns;
     // Center today in the VISIBLE viewport by going back half the visible days
@@ -333,11 +487,14 @@ export class TimelineViewport {
   static calculateProjectScrollTarget(params: {
     projectStartDate: Date;
     currentViewportStart: Date;
-    timelineMode: 'days' | 'weeks';
+    timelineMode: TimelineMode;
   }): { start: Date; end: Date } {
     const { projectStartDate, timelineMode } = params;
     let start: Date;
-    if (timelineMode === 'weeks') {
+    if (isAggregatedTimelineMode(timelineMode)) {
+      // Align to the month/quarter containing project start
+      start = getTimelineColumnStart(projectStartDate, timelineMode);
+    } else if (timelineMode === 'weeks') {
       // Align to start of week containing project start
       start = new Date(projectStartDate);
       const day = start.getDay();
@@ -355,7 +512,7 @@ export class TimelineViewport {
   /**
    * Calculate auto-scroll configuration
    */
-  static calculateAutoScrollConfig(timelineMode: 'days' | 'weeks'): {
+  static calculateAutoScrollConfig(timelineMode: TimelineMode): {
     direction: 'left' | 'right';
     scrollAmount: number;
     intervalMs: number;
@@ -363,7 +520,7 @@ export class TimelineViewport {
   } {
     return {
       direction: 'right', // Default direction
-      scrollAmount: timelineMode === 'weeks' ? 7 : 3, // Days to scroll
+      scrollAmount: timelineMode === 'quarters' ? 28 : timelineMode === 'months' ? 14 : timelineMode === 'weeks' ? 7 : 3, // Days to scroll
       intervalMs: 100, // Scroll interval in milliseconds
       threshold: 50 // Pixel threshold from edge
     };
@@ -397,7 +554,7 @@ export class TimelineViewport {
     currentStart: Date;
     direction: 'left' | 'right';
     scrollAmount: number;
-    timelineMode: 'days' | 'weeks';
+    timelineMode: TimelineMode;
   }): Date {
     const { currentStart, direction, scrollAmount, timelineMode } = params;
     const actualScrollAmount = timelineMode === 'weeks' ? scrollAmount * 7 : scrollAmount;
@@ -454,7 +611,7 @@ export class TimelineViewport {
   static calculateViewportPerformanceMetrics(params: {
     projectCount: number;
     viewportDays: number;
-    mode: 'days' | 'weeks';
+    mode: TimelineMode;
   }): {
     complexity: 'low' | 'medium' | 'high';
     recommendedOptimizations: string[];
@@ -475,6 +632,9 @@ export class TimelineViewport {
     if (mode === 'days' && viewportDays > 45) {
       recommendations.push('Consider switching to weeks mode');
     }
+    if (mode === 'weeks' && viewportDays > 180) {
+      recommendations.push('Consider switching to months mode');
+    }
     return {
       complexity,
       recommendedOptimizations: recommendations
@@ -0,0 +1,113 @@
+/**
+ * Event Transformation Tests
+ *
+ * Tests for turning calendar events into FullCalendar events including:
+ * - Plain rrule series left to FullCalendar's rrule plugin
+ * - Imported series expanded on their time zone's wall clock
+ * - Cancelled (EXDATE) and moved (RECURRENCE-ID) instances
+ *
+ * @see src/presentation/services/EventTransformations.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { CalendarEvent } from '@/shared/types/core';
+import { expandSeriesForFullCalendar, prepareEventsForFullCalendar } from '../EventTransformations';
+
+describe('EventTransformations', () => {
+  const now = new Date('2026-03-01T12:00:00.000Z');
+
+  // Mondays 09:00 Berlin: 08:00Z in winter time, 07:00Z after the 29 March DST change
+  const createSeries = (overrides: Partial<CalendarEvent> = {}): CalendarEvent => ({
+    id: 'series-1',
+    title: 'Team sync',
+    startTime: new Date('2026-03-16T08:00:00.000Z'),
+    endTime: new Date('2026-03-16T09:00:00.000Z'),
+    color: '#3b82f6',
+    rrule: 'FREQ=WEEKLY;COUNT=4',
+    recurrenceTimeZone: 'Europe/Berlin',
+    ...overrides
+  });
+
+  const startsOf = (events: Array<{ start?: unknown }>) =>
+    events.map(event => new Date(event.start as Date | string).toISOString());
+
+  describe('expandSeriesForFullCalendar', () => {
+    it('should keep local time across a daylight-saving change', () => {
+      const events = expandSeriesForFullCalendar(createSeries(), {}, now);
+
+      expect(startsOf(events)).toEqual([
+        '2026-03-16T08:00:00.000Z',
+        '2026-03-23T08:00:00.000Z',
+        '2026-03-30T07:00:00.000Z',
+        '2026-04-06T07:00:00.000Z'
+      ]);
+      expect(events[0].rrule).toBeUndefined();
+      expect(events[0].id).toBe('series-1');
+      expect(events[0].extendedProps?.originalEvent.id).toBe('series-1');
+    });
+
+    it('should drop cancelled instances and show moved instances once', () => {
+      const series = createSeries({
+        recurrenceExceptions: [
+          { originalStart: new Date('2026-03-23T08:00:00.000Z'), type: 'deleted' },
+          {
+            originalStart: new Date('2026-03-30T07:00:00.000Z'),
+            type: 'modified',
+            modified: {
+              title: 'Team sync (moved)',
+              startTime: new Date('2026-03-31T08:00:00.000Z'),
+              endTime: new Date('2026-03-31T09:00:00.000Z')
+            }
+          }
+        ]
+      });
+
+      const events = expandSeriesForFullCalendar(series, {}, now);
+
+      expect(startsOf(events)).toEqual([
+        '2026-03-16T08:00:00.000Z',
+        '2026-03-31T08:00:00.000Z',
+        '2026-04-06T07:00:00.000Z'
+      ]);
+      expect(events[1].title).toBe('Team sync (moved)');
+      expect(events[1].end).toEqual(new Date('2026-03-31T09:00:00.000Z'));
+    });
+  });
+
+  describe('prepareEventsForFullCalendar', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(now);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should leave series without time zone or exceptions to the rrule plugin', () => {
+      const events = prepareEventsForFullCalendar(
+        [createSeries({ recurrenceTimeZone: undefined })],
+        [],
+        'events'
+      );
+
+      expect(events).toHaveLength(1);
+      expect(events[0].rrule).toContain('RRULE:FREQ=WEEKLY;COUNT=4');
+    });
+
+    it('should expand series with exceptions into separate events', () => {
+      const events = prepareEventsForFullCalendar(
+        [createSeries({
+          recurrenceTimeZone: undefined,
+          recurrenceExceptions: [{ originalStart: new Date('2026-03-23T08:00:00.000Z'), type: 'deleted' }]
+        })],
+        [],
+        'events',
+        { selectedEventId: 'series-1' }
+      );
+
+      expect(events).toHaveLength(3);
+      expect(events.every(event => String(event.className).includes('selected-event'))).toBe(true);
+    });
+  });
+});
@@ -8,6 +8,7 @@
  * - Business day calculations
  * - Month/year boundary handling
  * - Leap year support
+ * - Timeline columns (weeks, months, quarters)
  * 
  * @see src/utils/dateCalculations.ts
  */
@@ -30,6 +31,15 @@ import {
   getDayOfWeek,
   getDayName,
   isWeekendDate,
+  getTimelineColumnStart,
+  addTimelineColumns,
+  getTimelineColumnEnd,
+  getTimelineColumnDayCount,
+  generateTimelineColumnDates,
+  calculateTimelineDayOffset,
+  groupDatesByYear,
+  convertIndicesToDates,
+  calculateDaysDeltaFromPixels,
 } from '@/presentation/utils/dateCalculations';
 
 describe('DateHelpers', () => {
@@ -506,4 +516,50 @@ describe('DateHelpers', () => {
       expect(isHoliday(date, [])).toBe(false);
     });
   });
+
+  describe('Timeline columns', () => {
+    it('should find the start of the column containing a date', () => {
+      const date = new Date(2026, 7, 19, 15, 30); // Wednesday 19 Aug 2026
+
+      expect(getTimelineColumnStart(date, 'days')).toEqual(new Date(2026, 7, 19));
+      expect(getTimelineColumnStart(date, 'weeks')).toEqual(new Date(2026, 7, 17));
+      expect(getTimelineColumnStart(date, 'months')).toEqual(new Date(2026, 7, 1));
+      expect(getTimelineColumnStart(date, 'quarters')).toEqual(new Date(2026, 6, 1));
+    });
+
+    it('should move by whole calendar months and quarters', () => {
+      expect(addTimelineColumns(new Date(2026, 0, 1), 1, 'months')).toEqual(new Date(2026, 1, 1));
+      expect(addTimelineColumns(new Date(2026, 9, 1), 1, 'quarters')).toEqual(new Date(2027, 0, 1));
+      expect(addTimelineColumns(new Date(2026, 0, 1), -1, 'quarters')).toEqual(new Date(2025, 9, 1));
+    });
+
+    it('should give each month and quarter its real length', () => {
+      expect(getTimelineColumnEnd(new Date(2026, 1, 1), 'months')).toEqual(new Date(2026, 1, 28));
+      expect(getTimelineColumnDayCount(new Date(2028, 1, 1), 'months')).toBe(29);
+      expect(getTimelineColumnDayCount(new Date(2026, 0, 1), 'quarters')).toBe(90);
+      expect(getTimelineColumnDayCount(new Date(2026, 6, 1), 'quarters')).toBe(92);
+    });
+
+    it('should generate consecutive columns and group them by year', () => {
+      const columns = generateTimelineColumnDates(new Date(2026, 10, 15), 4, 'months');
+
+      expect(columns).toEqual([new Date(2026, 10, 1), new Date(2026, 11, 1), new Date(2027, 0, 1), new Date(2027, 1, 1)]);
+      expect(groupDatesByYear(columns)).toEqual([
+        { year: 2026, startIndex: 0, endIndex: 1 },
+        { year: 2027, startIndex: 2, endIndex: 3 }
+      ]);
+    });
+
+    it('should use day offsets from the first column as month and quarter indices', () => {
+      const columns = [new Date(2026, 0, 1), new Date(2026, 1, 1)];
+
+      expect(calculateTimelineDayOffset(new Date(2026, 1, 3, 18), columns[0])).toBe(33);
+      expect(convertIndicesToDates([33, 35], columns, 'months')).toEqual([new Date(2026, 1, 3), new Date(2026, 1, 5)]);
+    });
+
+    it('should convert drag distance to days at the month and quarter day widths', () => {
+      expect(calculateDaysDeltaFromPixels(52, 'months')).toBe(10);
+      expect(calculateDaysDeltaFromPixels(-16, 'quarters')).toBe(-8);
+    });
+  });
 });
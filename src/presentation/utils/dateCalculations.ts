@@ -9,8 +9,9 @@
  * ✅ Deterministic outputs
  */
 
-import { addDays, subDays, endOfWeek, isWeekend } from 'date-fns';
+import { addDays, subDays, endOfWeek, isWeekend, addMonths, differenceInCalendarDays } from 'date-fns';
 import { getDateKey } from '@/presentation/utils/dateFormatUtils';
+import type { TimelineMode } from '@/shared/types/core';
 
 /**
  * SINGLE SOURCE OF TRUTH - Duration Calculations
@@ -190,10 +191,14 @@ export function calculateWorkingDaysInWeek(weekStart: Date, holidays: Date[] = [
  */
 export function calculateTimelineViewport(
   currentDate: Date, 
-  mode: 'days' | 'weeks', 
+  mode: TimelineMode, 
   count: number
 ): { start: Date; end: Date } {
-  if (mode === 'weeks') {
+  if (mode === 'months' || mode === 'quarters') {
+    const start = addTimelineColumns(getTimelineColumnStart(currentDate, mode), -count, mode);
+    const end = getTimelineColumnEnd(addTimelineColumns(getTimelineColumnStart(currentDate, mode), count, mode), mode);
+    return { start, end };
+  } else if (mode === 'weeks') {
     const start = subDays(currentDate, count * 7);
     const end = addDays(currentDate, count * 7);
     return { start, end };
@@ -571,6 +576,101 @@ export function groupDatesByMonth(dates: Date[]): Array<{
 // TIMELINE-SPECIFIC DATE CALCULATIONS
 // ============================================================================
 
+/**
+ * First day of the timeline column containing a date
+ * Days: the date itself, weeks: Monday, months: the 1st, quarters: 1 Jan/Apr/Jul/Oct
+ */
+export function getTimelineColumnStart(date: Date, mode: TimelineMode): Date {
+  const day = normalizeToMidnight(date);
+  switch (mode) {
+    case 'weeks': {
+      const dayOfWeek = day.getDay();
+      return addDays(day, dayOfWeek === 0 ? -6 : 1 - dayOfWeek);
+    }
+    case 'months':
+      return new Date(day.getFullYear(), day.getMonth(), 1);
+    case 'quarters':
+      return new Date(day.getFullYear(), Math.floor(day.getMonth() / 3) * 3, 1);
+    default:
+      return day;
+  }
+}
+
+/**
+ * Move a column start by whole columns (calendar months and quarters keep the 1st)
+ */
+export function addTimelineColumns(columnStart: Date, count: number, mode: TimelineMode): Date {
+  switch (mode) {
+    case 'weeks':
+      return addDays(columnStart, count * 7);
+    case 'months':
+      return addMonths(columnStart, count);
+    case 'quarters':
+      return addMonths(columnStart, count * 3);
+    default:
+      return addDays(columnStart, count);
+  }
+}
+
+/**
+ * Last day of the timeline column starting at columnStart
+ */
+export function getTimelineColumnEnd(columnStart: Date, mode: TimelineMode): Date {
+  return addDays(addTimelineColumns(columnStart, 1, mode), -1);
+}
+
+/**
+ * Number of days in the timeline column starting at columnStart
+ */
+export function getTimelineColumnDayCount(columnStart: Date, mode: TimelineMode): number {
+  return differenceInCalendarDays(addTimelineColumns(columnStart, 1, mode), columnStart);
+}
+
+/**
+ * Start dates of consecutive timeline columns, beginning with the column containing start
+ */
+export function generateTimelineColumnDates(start: Date, count: number, mode: TimelineMode): Date[] {
+  const firstColumn = getTimelineColumnStart(start, mode);
+  return Array.from({ length: count }, (_, index) => addTimelineColumns(firstColumn, index, mode));
+}
+
+/**
+ * Whole days between the first timeline column and a date (negative before the viewport)
+ * Day offsets are the shared x-axis for modes whose columns hold several days
+ */
+export function calculateTimelineDayOffset(date: Date, firstColumnStart: Date): number {
+  return differenceInCalendarDays(normalizeToMidnight(date), normalizeToMidnight(firstColumnStart));
+}
+
+/**
+ * Check if today falls within a timeline column
+ */
+export function isTodayInColumn(columnStart: Date, mode: TimelineMode): boolean {
+  const today = normalizeToMidnight(new Date());
+  return today >= columnStart && today <= getTimelineColumnEnd(columnStart, mode);
+}
+
+/**
+ * Group column dates by year for the month and quarter header
+ */
+export function groupDatesByYear(dates: Date[]): Array<{
+  year: number;
+  startIndex: number;
+  endIndex: number;
+}> {
+  const yearGroups: Array<{ year: number; startIndex: number; endIndex: number }> = [];
+  dates.forEach((date, index) => {
+    const year = date.getFullYear();
+    const current = yearGroups[yearGroups.length - 1];
+    if (current && current.year === year) {
+      current.endIndex = index;
+    } else {
+      yearGroups.push({ year, startIndex: index, endIndex: index });
+    }
+  });
+  return yearGroups;
+}
+
 /**
  * Calculate the visible project days within viewport bounds
  * Used to determine which days to render for a project on the timeline
@@ -627,8 +727,13 @@ export function calculateProjectDaysInViewport(
 export function convertIndicesToDates(
   indices: number[],
   datesArray?: Date[] | Date,
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): Date[] {
+  // Month and quarter columns hold many days: indices are day offsets from the first column
+  if (Array.isArray(datesArray) && (mode === 'months' || mode === 'quarters')) {
+    const firstDate = datesArray[0] || new Date();
+    return indices.map(index => addDays(firstDate, index));
+  }
   // Handle different parameter patterns for backwards compatibility
   if (Array.isArray(datesArray)) {
     // New pattern: convertIndicesToDates([startIndex, endIndex], dates, mode)
@@ -654,13 +759,27 @@ export function convertIndicesToDates(
 export function calculateOccupiedHolidayIndices(
   holidays: Array<{ startDate: Date; endDate?: Date }>,
   dates: Date[],
-  mode: 'days' | 'weeks' = 'days'
+  mode: TimelineMode = 'days'
 ): number[] {
   const occupied: number[] = [];
   
   if (!holidays || holidays.length === 0 || !dates || dates.length === 0) {
     return occupied;
   }
+
+  // Month and quarter columns hold many days: occupied indices are day offsets from the first column
+  if (mode === 'months' || mode === 'quarters') {
+    const totalDays = calculateTimelineDayOffset(addTimelineColumns(dates[dates.length - 1], 1, mode), dates[0]);
+    holidays.forEach(holiday => {
+      if (!isValidDate(holiday.startDate)) return;
+      const startIndex = calculateTimelineDayOffset(holiday.startDate, dates[0]);
+      const endIndex = calculateTimelineDayOffset(holiday.endDate || holiday.startDate, dates[0]);
+      for (let index = Math.max(0, startIndex); index <= Math.min(endIndex, totalDays - 1); index++) {
+        occupied.push(index);
+      }
+    });
+    return [...new Set(occupied)].sort((a, b) => a - b);
+  }
   
   holidays.forEach(holiday => {
     // Ensure we have valid dates
@@ -699,11 +818,16 @@ export function calculateOccupiedHolidayIndices(
  */
 export function calculateDaysDeltaFromPixels(
   deltaX: number,
-  mode: 'days' | 'weeks',
+  mode: TimelineMode,
   columnWidthDays: number = 52,
-  columnWidthWeeks: number = 153
+  columnWidthWeeks: number = 153,
+  dayWidthMonths: number = 5,
+  dayWidthQuarters: number = 2
 ): number {
-  if (mode === 'weeks') {
+  if (mode === 'months' || mode === 'quarters') {
+    // Month and quarter columns are as wide as their days, so days map linearly to pixels
+    return Math.round(deltaX / (mode === 'months' ? dayWidthMonths : dayWidthQuarters));
+  } else if (mode === 'weeks') {
     // In weeks mode, each column is 7 days wide (153px = 7 days × 21px + 6 gaps × 1px)
     const columnsDelta = deltaX / columnWidthWeeks;
     return Math.round(columnsDelta * 7);
@@ -64,6 +64,10 @@ export const formatMonthLong = (date: Date) => {
   return date.toLocaleDateString(APP_LOCALE, DATE_FORMAT_OPTIONS.longMonth);
 };
 
+export const formatQuarter = (date: Date) => {
+  return `Q${Math.floor(date.getMonth() / 3) + 1}`;
+};
+
 export const formatDay = (date: Date) => {
   return date.toLocaleDateString(APP_LOCALE, DATE_FORMAT_OPTIONS.dayOnly);
 };
@@ -213,3 +217,16 @@ export const getWeekOfMonthName = (week: number): string => {
   const weeks = ['', '1st', '2nd', '3rd', '4th', '2nd last', 'last'];
   return weeks[week] || 'last';
 };
+
+/**
+ * Format a money amount in the app locale (e.g., "€1,250.00")
+ * @param amount Amount in the currency's main unit
+ * @param currency ISO 4217 currency code
+ */
+export const formatCurrency = (amount: number, currency: string): string => {
+  try {
+    return new Intl.NumberFormat(APP_LOCALE, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
@@ -62,6 +62,9 @@ export interface PhaseDTO {
   isRecurring?: boolean; // Whether this follows a recurring pattern
   recurringConfig?: RecurringConfig; // Pattern configuration if recurring
   
+  // BILLING
+  billingRate?: BillingRate; // Overrides the project rate for time within this phase
+  
   // METADATA
   userId: string; // Maps to user_id in database
   createdAt: Date; // Converted from created_at string in repository layer
@@ -115,6 +118,9 @@ export interface Project {
   // PHASES (time periods within project)
   phases?: PhaseDTO[];
   
+  // BILLING
+  billingRate?: BillingRate; // Overrides the client's default rate
+  
   // WORKING DAY OVERRIDES
   // TODO: Document in App Logic.md or remove if unused
   autoEstimateDays?: {
@@ -168,6 +174,20 @@ export interface Group {
 
 export type ClientStatus = 'active' | 'inactive' | 'archived';
 
+export type BillingRateType = 'hourly' | 'fixed';
+
+/**
+ * Billing rate - hourly rate or fixed fee, in the client's currency.
+ *
+ * Resolution: Phase rate → Project rate → Client default rate.
+ *
+ * @see src/domain/rules/projects/ProjectRevenue.ts - Rate resolution and revenue
+ */
+export interface BillingRate {
+  type: BillingRateType;
+  amount: number; // >= 0. Per hour for 'hourly', total fee for 'fixed'
+}
+
 /**
  * Client entity - organization or person work is done for.
  * 
@@ -182,6 +202,8 @@ export interface Client {
   contactPhone?: string; // Optional, can contain digits, spaces, hyphens, parentheses, plus
   billingAddress?: string; // Optional, free-form text
   notes?: string; // Optional, free-form text
+  currency?: string; // ISO 4217 code for rates and revenue, defaults to 'USD'
+  defaultRate?: BillingRate; // Default rate for the client's projects (none = not billed)
   userId: string;
   createdAt: Date;
   updatedAt: Date;
@@ -224,7 +246,10 @@ export interface CalendarEvent {
   duration?: number; // Duration in hours
   type?: 'planned' | 'tracked' | 'completed'; // Type to distinguish between planned, tracked, and completed events
   category?: 'event' | 'habit' | 'task'; // Event category: 'event' (default), 'habit' (separate layer, no project), or 'task' (no duration, checkbox display)
+  focusSession?: boolean; // Work interval of a focus (pomodoro) session
   rrule?: string; // RFC 5545 RRULE string for recurring events (NEW SYSTEM)
+  recurrenceTimeZone?: string; // IANA zone the rrule series recurs in (imported series); UTC when unset
+  recurrenceExceptions?: CalendarEventException[]; // Cancelled (EXDATE) and moved (RECURRENCE-ID) instances of the series
   recurring?: { // LEGACY: Use rrule instead for new recurring events
     type: 'daily' | 'weekly' | 'monthly' | 'yearly';
     interval: number; // Every X days/weeks/months/years
@@ -242,12 +267,169 @@ export interface CalendarEvent {
   isSplitEvent?: boolean; // Whether this event is part of a split midnight-crossing event
 }
 
+/**
+ * Removed or overridden instance of an rrule series (calendar_event_exceptions row)
+ *
+ * @see src/domain/rules/events/EventRecurrence.ts - Expanding a series with its exceptions
+ */
+export interface CalendarEventException {
+  originalStart: Date; // Start of the instance as generated by the rrule
+  type: 'deleted' | 'modified';
+  modified?: {
+    title?: string;
+    description?: string;
+    startTime?: Date;
+    endTime?: Date;
+  };
+}
+
+/**
+ * Project task - backlog item with an estimate and optional due date.
+ *
+ * Scheduling a task creates a planned project event (category 'event') of the
+ * estimated length. Until then the estimate counts as unscheduled planned time.
+ * Not to be confused with calendar events of category 'task' (timed to-dos).
+ *
+ * @see src/domain/rules/tasks/TaskBacklog.ts - Backlog hours and auto-placement
+ */
+export interface ProjectTask {
+  id: string;
+  projectId: string;
+  title: string;
+  notes?: string;
+  estimatedHours: number; // > 0
+  dueDate?: Date;
+  completed: boolean;
+  scheduledEventId?: string; // Planned event the task was scheduled into
+  sortOrder: number;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type DependencyType = 'finish-to-start' | 'start-to-start';
+
+export type DependencyKind = 'project' | 'phase';
+
+/**
+ * Dependency - a successor project (or phase) that waits on a predecessor.
+ *
+ * finish-to-start: the successor starts after the predecessor ends.
+ * start-to-start: the successor starts no earlier than the predecessor starts.
+ * Lag adds days between the two; both ends are the same kind.
+ *
+ * @see src/domain/rules/dependencies/DependencyCascade.ts - Shifting dependents
+ */
+export interface Dependency {
+  id: string;
+  kind: DependencyKind;
+  predecessorId: string; // Project or phase id, depending on kind
+  successorId: string;
+  type: DependencyType;
+  lagDays: number; // >= 0
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Frozen plan data is stored as JSON: dates are 'YYYY-MM-DD' keys
+export interface BaselineProjectSnapshot {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string | null; // null for continuous projects
+  continuous: boolean;
+  estimatedHours: number;
+}
+
+export interface BaselinePhaseSnapshot {
+  id: string;
+  projectId: string;
+  name: string;
+  startDate: string | null;
+  endDate: string;
+  timeAllocationHours: number;
+}
+
+export interface BaselineDayEstimate {
+  projectId: string;
+  date: string;
+  hours: number;
+  source: DayEstimate['source'];
+}
+
+export interface PlanBaselineSnapshot {
+  capturedAt: string; // ISO timestamp
+  projects: BaselineProjectSnapshot[];
+  phases: BaselinePhaseSnapshot[];
+  dayEstimates: BaselineDayEstimate[];
+}
+
+/**
+ * Plan baseline - a named, frozen copy of the plan (e.g. once a client signed off).
+ * The live plan is compared against it to show drift.
+ *
+ * @see src/domain/rules/baselines/PlanBaseline.ts - Capturing and comparing baselines
+ */
+export interface PlanBaseline {
+  id: string;
+  name: string;
+  snapshot: PlanBaselineSnapshot;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Project query shared by Timeline, Planner, Overview and Insights
+ * Any of the listed values matches within a field; every non-empty field must match.
+ */
+export interface ProjectFilterQuery {
+  clientIds: string[];
+  labelIds: string[];
+  statuses: ProjectStatus[];
+}
+
+export interface SavedFilter {
+  id: string;
+  name: string;
+  query: ProjectFilterQuery;
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type HabitTargetFrequency = 'daily' | 'weekly';
+
+export type HabitTargetMetric = 'sessions' | 'minutes';
+
+/**
+ * Habit target - goal for a habit, e.g. 3 sessions per week or 30 minutes daily.
+ *
+ * Habits are calendar events with category 'habit'; events with the same
+ * title (case-insensitive) are one habit.
+ *
+ * @see src/domain/rules/habits/HabitAdherence.ts - Streaks and adherence
+ */
+export interface HabitTarget {
+  id: string;
+  habitName: string; // Title of the habit's events
+  frequency: HabitTargetFrequency;
+  metric: HabitTargetMetric;
+  target: number; // > 0. Sessions or minutes per day/week
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export interface Holiday {
   id: string;
   title: string;
   startDate: Date;
   endDate: Date;
   notes?: string;
+  capacityFraction?: number; // Partial day: share of normal work hours still available (0.5 = half day)
+  availableHours?: number; // Partial day: work hours still available each day
 }
 
 export interface WorkSlot {
@@ -267,8 +449,25 @@ export interface Settings {
     saturday: WorkSlot[];
     sunday: WorkSlot[];
   };
+  workSchedules?: WorkScheduleTemplate[]; // Named templates that replace weeklyWorkHours for a date range
   defaultView?: string;
   isCompactView?: boolean; // Compact planner view (half vertical spacing)
+  publicHolidayCalendar?: PublicHolidayCalendarSetting | null; // Public holidays generated each year
+}
+
+export interface PublicHolidayCalendarSetting {
+  countryCode: string;
+  regionCode?: string;
+  importedYears: number[]; // Years already generated; the yearly sync skips them
+}
+
+export interface WorkScheduleTemplate {
+  id: string;
+  name: string;
+  weeks: Settings['weeklyWorkHours'][]; // One pattern per rotation week (two for A/B weeks)
+  effectiveFrom?: string; // YYYY-MM-DD, inclusive; open-ended when omitted
+  effectiveTo?: string;   // YYYY-MM-DD, inclusive; open-ended when omitted
+  rotationStart?: string; // YYYY-MM-DD in the rotation's first week; defaults to effectiveFrom
 }
 
 export interface WorkHour {
@@ -321,6 +520,9 @@ export interface TimelineEntry {
 
 export type ViewType = 'timeline' | 'calendar' | 'projects' | 'reports' | 'settings' | 'profile' | 'insights' | 'feedback';
 
+// Timeline column granularity: one column per day, week, calendar month or calendar quarter
+export type TimelineMode = 'days' | 'weeks' | 'months' | 'quarters';
+
 export interface DragState {
   projectId?: string;
   holidayId?: string;
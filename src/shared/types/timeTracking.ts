@@ -1,3 +1,38 @@
+/**
+ * Focus (pomodoro) session types
+ *
+ * A focus session alternates work intervals (tracked against a project) with breaks.
+ * 'ready' = a break has ended and the next work interval waits to be started.
+ */
+export type FocusPhase = 'work' | 'break' | 'ready';
+
+export interface FocusSettings {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  sessionsBeforeLongBreak: number; // Every Nth break is a long break
+  autoLogBreaks: boolean; // Log breaks as non-project calendar events
+}
+
+export interface FocusSessionState {
+  settings: FocusSettings;
+  phase: FocusPhase;
+  phaseStartedAt: Date;
+  completedSessions: number; // Work intervals finished in this focus session
+  project: {
+    id: string;
+    name: string;
+    color?: string;
+  } | null;
+}
+
+/**
+ * Serialized version of FocusSessionState for storage/transmission
+ */
+export interface SerializedFocusSessionState extends Omit<FocusSessionState, 'phaseStartedAt'> {
+  phaseStartedAt: string; // ISO string
+}
+
 /**
  * Time Tracking State Interface
  * 
@@ -25,6 +60,9 @@ export interface TimeTrackingState {
   searchQuery?: string;
   affectedEvents?: string[];
   lastUpdated?: Date; // Legacy field name
+
+  // Focus mode (null/undefined = plain tracking)
+  focus?: FocusSessionState | null;
 }
 
 /**
@@ -49,6 +87,7 @@ export interface SerializedTimeTrackingState {
   searchQuery?: string;
   affectedEvents?: string[];
   currentSeconds?: number;
+  focus?: SerializedFocusSessionState | null;
 }
 
 /**
@@ -0,0 +1,89 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_FEED_BYTES = 10 * 1024 * 1024;
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+// Feeds are fetched from the function's network: keep requests off loopback and private ranges
+const isPrivateHost = (hostname: string): boolean => {
+  const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return true;
+  if (host === '::1' || host.startsWith('fc') || host.startsWith('fd') || host.startsWith('fe80')) return true;
+
+  const octets = host.split('.').map(Number);
+  if (octets.length !== 4 || octets.some(octet => !Number.isInteger(octet))) return false;
+  const [a, b] = octets;
+  return a === 10 || a === 127 || a === 0 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168);
+};
+
+/**
+ * Download an ICS subscription feed for the app
+ * Calendar hosts (Google, Outlook, most CalDAV servers) send no CORS headers,
+ * so the browser cannot fetch feeds itself.
+ *
+ * POST { url } → { content } (the raw iCal text) or { error }
+ */
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user } } = await supabaseClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { url }: { url?: string } = await req.json();
+    let feedUrl: URL;
+    try {
+      feedUrl = new URL(url ?? '');
+    } catch {
+      return jsonResponse({ error: 'Invalid feed URL' }, 400);
+    }
+    if (!['http:', 'https:'].includes(feedUrl.protocol) || isPrivateHost(feedUrl.hostname)) {
+      return jsonResponse({ error: 'Feed URL must be a public http(s) address' }, 400);
+    }
+
+    const response = await fetch(feedUrl, {
+      headers: { Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return jsonResponse({ error: `Failed to fetch calendar feed (HTTP ${response.status})` }, 502);
+    }
+
+    const content = await response.text();
+    if (content.length > MAX_FEED_BYTES) {
+      return jsonResponse({ error: 'Calendar feed is too large' }, 502);
+    }
+
+    return jsonResponse({ content }, 200);
+  } catch (error: unknown) {
+    console.error('Feed fetch error:', error);
+    const message = error instanceof Error ? error.message : 'An unexpected error occurred';
+    return jsonResponse({ error: `Failed to fetch calendar feed: ${message}` }, 502);
+  }
+});
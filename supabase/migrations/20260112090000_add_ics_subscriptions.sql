@@ -0,0 +1,38 @@
+-- ICS Subscription Sync
+-- Allows a calendar connection to point at a remote ICS/CalDAV feed URL that is
+-- re-fetched on a schedule. Each sync run stores a UID → LAST-MODIFIED snapshot in
+-- calendar_import_history so the next run can detect created, updated and deleted events.
+
+-- 1. Feed URL per connection (NULL for OAuth-based connections)
+ALTER TABLE public.calendar_connections
+ADD COLUMN IF NOT EXISTS feed_url TEXT;
+
+COMMENT ON COLUMN public.calendar_connections.feed_url IS 'Remote ICS feed URL for ics_subscription connections (webcal:// is normalised to https://)';
+
+-- 2. Allow the new connection type
+ALTER TABLE public.calendar_connections
+DROP CONSTRAINT IF EXISTS calendar_connections_connection_type_check;
+
+ALTER TABLE public.calendar_connections
+ADD CONSTRAINT calendar_connections_connection_type_check
+CHECK (connection_type IN ('google', 'outlook', 'ics_subscription'));
+
+-- 3. Subscription runs in import history
+ALTER TABLE public.calendar_import_history
+DROP CONSTRAINT IF EXISTS calendar_import_history_import_source_check;
+
+ALTER TABLE public.calendar_import_history
+ADD CONSTRAINT calendar_import_history_import_source_check
+CHECK (import_source IN ('ical_file', 'ical_subscription', 'google', 'outlook'));
+
+ALTER TABLE public.calendar_import_history
+ADD COLUMN IF NOT EXISTS events_deleted INTEGER DEFAULT 0;
+
+ALTER TABLE public.calendar_import_history
+ADD COLUMN IF NOT EXISTS synced_events JSONB;
+
+COMMENT ON COLUMN public.calendar_import_history.synced_events IS 'Snapshot of the feed after a subscription sync: { [uid]: lastModifiedIso | null }';
+
+-- 4. Fast lookup of the latest snapshot for a connection
+CREATE INDEX IF NOT EXISTS idx_calendar_import_history_connection_created
+ON public.calendar_import_history(connection_id, created_at DESC);
@@ -0,0 +1,9 @@
+-- Recurrence Time Zone for Calendar Events
+-- Imported recurring series (RRULE) recur on the wall clock of their original
+-- time zone (VTIMEZONE / TZID). Storing the IANA zone lets occurrences be expanded
+-- correctly across daylight-saving changes instead of drifting by an hour.
+
+ALTER TABLE public.calendar_events
+ADD COLUMN IF NOT EXISTS recurrence_timezone TEXT;
+
+COMMENT ON COLUMN public.calendar_events.recurrence_timezone IS 'IANA time zone an rrule series recurs in (e.g. Europe/Berlin). NULL = expand in UTC';
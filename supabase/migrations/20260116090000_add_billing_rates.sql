@@ -0,0 +1,25 @@
+-- Billing Rates
+-- Hourly rates and fixed fees for revenue reporting.
+-- A client holds the default rate and the currency for all of its projects;
+-- projects and phases can override the rate.
+
+ALTER TABLE public.clients
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN IF NOT EXISTS rate_type TEXT CHECK (rate_type IN ('hourly', 'fixed')),
+ADD COLUMN IF NOT EXISTS rate_amount NUMERIC(12, 2) CHECK (rate_amount >= 0);
+
+ALTER TABLE public.projects
+ADD COLUMN IF NOT EXISTS rate_type TEXT CHECK (rate_type IN ('hourly', 'fixed')),
+ADD COLUMN IF NOT EXISTS rate_amount NUMERIC(12, 2) CHECK (rate_amount >= 0);
+
+ALTER TABLE public.phases
+ADD COLUMN IF NOT EXISTS rate_type TEXT CHECK (rate_type IN ('hourly', 'fixed')),
+ADD COLUMN IF NOT EXISTS rate_amount NUMERIC(12, 2) CHECK (rate_amount >= 0);
+
+COMMENT ON COLUMN public.clients.currency IS 'ISO 4217 currency code used for the client''s rates and revenue';
+COMMENT ON COLUMN public.clients.rate_type IS 'Default billing: hourly rate or fixed fee per project. NULL = not billed';
+COMMENT ON COLUMN public.clients.rate_amount IS 'Amount per hour (hourly) or per project (fixed), in the client currency';
+COMMENT ON COLUMN public.projects.rate_type IS 'Overrides the client default rate. NULL = use client default';
+COMMENT ON COLUMN public.projects.rate_amount IS 'Amount per hour (hourly) or total project fee (fixed)';
+COMMENT ON COLUMN public.phases.rate_type IS 'Overrides the project rate for time within the phase. NULL = use project rate';
+COMMENT ON COLUMN public.phases.rate_amount IS 'Amount per hour (hourly) or total phase fee (fixed)';
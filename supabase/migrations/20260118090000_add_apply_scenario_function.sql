@@ -0,0 +1,148 @@
+-- Apply What-If Scenario
+-- Writes every change of a what-if scenario (projects, phases, holidays and
+-- weekly work hours) in one transaction, so a failure leaves reality untouched.
+--
+-- changes = {
+--   "projects": { "insert": [row], "update": [partial row with id], "delete": [id] },
+--   "phases":   { ... },
+--   "holidays": { ... },
+--   "weekly_work_hours": json (optional)
+-- }
+
+CREATE OR REPLACE FUNCTION public.apply_scenario(changes jsonb)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path = public
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  patch jsonb;
+  project_row public.projects;
+  phase_row public.phases;
+  holiday_row public.holidays;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Deletes (phases first; phases of deleted projects cascade)
+  DELETE FROM public.phases
+  WHERE user_id = current_user_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(changes->'phases'->'delete', '[]'))::uuid);
+
+  DELETE FROM public.holidays
+  WHERE user_id = current_user_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(changes->'holidays'->'delete', '[]'))::uuid);
+
+  DELETE FROM public.projects
+  WHERE user_id = current_user_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(changes->'projects'->'delete', '[]'))::uuid);
+
+  -- Inserts (projects before their phases)
+  INSERT INTO public.projects (
+    id, user_id, name, client, client_id, start_date, end_date, estimated_hours, color,
+    group_id, row_id, notes, icon, continuous, working_day_overrides, rate_type, rate_amount
+  )
+  SELECT
+    r.id, current_user_id, r.name, r.client, r.client_id, r.start_date, r.end_date, r.estimated_hours, r.color,
+    r.group_id, r.row_id, r.notes, r.icon, r.continuous, r.working_day_overrides, r.rate_type, r.rate_amount
+  FROM jsonb_populate_recordset(NULL::public.projects, COALESCE(changes->'projects'->'insert', '[]')) AS r;
+
+  INSERT INTO public.phases (
+    id, user_id, project_id, name, start_date, end_date, time_allocation, time_allocation_hours,
+    is_recurring, recurring_config, rate_type, rate_amount
+  )
+  SELECT
+    r.id, current_user_id, r.project_id, r.name, r.start_date, r.end_date, r.time_allocation, r.time_allocation_hours,
+    r.is_recurring, r.recurring_config, r.rate_type, r.rate_amount
+  FROM jsonb_populate_recordset(NULL::public.phases, COALESCE(changes->'phases'->'insert', '[]')) AS r;
+
+  INSERT INTO public.holidays (id, user_id, title, start_date, end_date, notes)
+  SELECT r.id, current_user_id, r.title, r.start_date, r.end_date, r.notes
+  FROM jsonb_populate_recordset(NULL::public.holidays, COALESCE(changes->'holidays'->'insert', '[]')) AS r;
+
+  -- Updates (each patch only holds the changed columns)
+  FOR patch IN SELECT jsonb_array_elements(COALESCE(changes->'projects'->'update', '[]')) LOOP
+    SELECT (jsonb_populate_record(p, patch - 'id' - 'user_id')).* INTO project_row
+    FROM public.projects p
+    WHERE p.id = (patch->>'id')::uuid AND p.user_id = current_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Project % not found', patch->>'id';
+    END IF;
+
+    UPDATE public.projects SET
+      name = project_row.name,
+      client = project_row.client,
+      client_id = project_row.client_id,
+      start_date = project_row.start_date,
+      end_date = project_row.end_date,
+      estimated_hours = project_row.estimated_hours,
+      color = project_row.color,
+      group_id = project_row.group_id,
+      row_id = project_row.row_id,
+      notes = project_row.notes,
+      icon = project_row.icon,
+      continuous = project_row.continuous,
+      working_day_overrides = project_row.working_day_overrides,
+      rate_type = project_row.rate_type,
+      rate_amount = project_row.rate_amount,
+      updated_at = now()
+    WHERE id = project_row.id;
+  END LOOP;
+
+  FOR patch IN SELECT jsonb_array_elements(COALESCE(changes->'phases'->'update', '[]')) LOOP
+    SELECT (jsonb_populate_record(p, patch - 'id' - 'user_id')).* INTO phase_row
+    FROM public.phases p
+    WHERE p.id = (patch->>'id')::uuid AND p.user_id = current_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Phase % not found', patch->>'id';
+    END IF;
+
+    UPDATE public.phases SET
+      project_id = phase_row.project_id,
+      name = phase_row.name,
+      start_date = phase_row.start_date,
+      end_date = phase_row.end_date,
+      time_allocation = phase_row.time_allocation,
+      time_allocation_hours = phase_row.time_allocation_hours,
+      is_recurring = phase_row.is_recurring,
+      recurring_config = phase_row.recurring_config,
+      rate_type = phase_row.rate_type,
+      rate_amount = phase_row.rate_amount,
+      updated_at = now()
+    WHERE id = phase_row.id;
+  END LOOP;
+
+  FOR patch IN SELECT jsonb_array_elements(COALESCE(changes->'holidays'->'update', '[]')) LOOP
+    SELECT (jsonb_populate_record(h, patch - 'id' - 'user_id')).* INTO holiday_row
+    FROM public.holidays h
+    WHERE h.id = (patch->>'id')::uuid AND h.user_id = current_user_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Holiday % not found', patch->>'id';
+    END IF;
+
+    UPDATE public.holidays SET
+      title = holiday_row.title,
+      start_date = holiday_row.start_date,
+      end_date = holiday_row.end_date,
+      notes = holiday_row.notes,
+      updated_at = now()
+    WHERE id = holiday_row.id;
+  END LOOP;
+
+  -- Work slots
+  IF changes ? 'weekly_work_hours' THEN
+    UPDATE public.settings
+    SET weekly_work_hours = changes->'weekly_work_hours', updated_at = now()
+    WHERE user_id = current_user_id;
+  END IF;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.apply_scenario(jsonb) IS 'Applies a what-if scenario change set to the caller''s projects, phases, holidays and work hours in one transaction';
+
+GRANT EXECUTE ON FUNCTION public.apply_scenario(jsonb) TO authenticated;
@@ -0,0 +1,45 @@
+-- Habit Targets
+-- Goals for habits (calendar events with category = 'habit'), e.g. 3 sessions
+-- per week or 30 minutes daily. Events with the same title are one habit, so a
+-- target is keyed by habit name. Streaks and adherence are calculated client-side.
+
+CREATE TABLE IF NOT EXISTS public.habit_targets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  habit_name TEXT NOT NULL,
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  metric TEXT NOT NULL CHECK (metric IN ('sessions', 'minutes')),
+  target NUMERIC(8, 2) NOT NULL CHECK (target > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, habit_name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.habit_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own habit targets"
+  ON public.habit_targets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own habit targets"
+  ON public.habit_targets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own habit targets"
+  ON public.habit_targets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own habit targets"
+  ON public.habit_targets FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_habit_targets_updated_at
+  BEFORE UPDATE ON public.habit_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_habit_targets_user_id ON public.habit_targets(user_id);
+
+COMMENT ON COLUMN public.habit_targets.habit_name IS 'Title of the habit''s events (matched case-insensitively)';
+COMMENT ON COLUMN public.habit_targets.target IS 'Sessions or minutes (metric) per day or week (frequency)';
@@ -0,0 +1,50 @@
+-- Project Tasks
+-- Unscheduled backlog of tasks per project, with an estimate and an optional due
+-- date. Scheduling a task creates a planned project event (category 'event') and
+-- links it here; until then the estimate counts as unscheduled planned time.
+
+CREATE TABLE IF NOT EXISTS public.project_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  notes TEXT,
+  estimated_hours NUMERIC(6, 2) NOT NULL DEFAULT 1 CHECK (estimated_hours > 0),
+  due_date TIMESTAMP WITH TIME ZONE,
+  completed BOOLEAN NOT NULL DEFAULT false,
+  scheduled_event_id UUID REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.project_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own project tasks"
+  ON public.project_tasks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own project tasks"
+  ON public.project_tasks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own project tasks"
+  ON public.project_tasks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own project tasks"
+  ON public.project_tasks FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_project_tasks_updated_at
+  BEFORE UPDATE ON public.project_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_project_tasks_user_id ON public.project_tasks(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_tasks_project_id ON public.project_tasks(project_id);
+CREATE INDEX IF NOT EXISTS idx_project_tasks_scheduled_event_id ON public.project_tasks(scheduled_event_id);
+
+COMMENT ON COLUMN public.project_tasks.estimated_hours IS 'Estimated effort; becomes the duration of the planned event when scheduled';
+COMMENT ON COLUMN public.project_tasks.scheduled_event_id IS 'Planned event the task was scheduled into. NULL = in the backlog';
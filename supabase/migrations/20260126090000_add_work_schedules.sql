@@ -0,0 +1,10 @@
+-- Work Schedule Templates
+-- Named weekly work patterns that replace settings.weekly_work_hours for an
+-- effective date range, optionally rotating through several weeks (A/B weeks,
+-- shift rotations). Stored as JSON like weekly_work_hours; resolution for a
+-- date happens client-side (see WorkSchedules.ts).
+
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS work_schedules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+COMMENT ON COLUMN public.settings.work_schedules IS 'Schedule templates: [{ id, name, weeks: [weekly_work_hours, ...], effectiveFrom?, effectiveTo?, rotationStart? }]. Dates are YYYY-MM-DD.';
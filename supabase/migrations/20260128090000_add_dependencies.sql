@@ -0,0 +1,74 @@
+-- Dependencies
+-- Finish-to-start and start-to-start links between two projects or two phases.
+-- predecessor_id / successor_id point at projects or phases depending on kind;
+-- a trigger removes the links of a deleted project or phase. Cycles are
+-- rejected by the application (ProjectRules.validateDependency).
+
+CREATE TABLE IF NOT EXISTS public.dependencies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('project', 'phase')),
+  predecessor_id UUID NOT NULL,
+  successor_id UUID NOT NULL,
+  type TEXT NOT NULL DEFAULT 'finish-to-start' CHECK (type IN ('finish-to-start', 'start-to-start')),
+  lag_days INTEGER NOT NULL DEFAULT 0 CHECK (lag_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (predecessor_id <> successor_id),
+  UNIQUE (kind, predecessor_id, successor_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.dependencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own dependencies"
+  ON public.dependencies FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own dependencies"
+  ON public.dependencies FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own dependencies"
+  ON public.dependencies FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own dependencies"
+  ON public.dependencies FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_dependencies_updated_at
+  BEFORE UPDATE ON public.dependencies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Remove the links of a deleted project or phase
+CREATE OR REPLACE FUNCTION public.delete_item_dependencies()
+ RETURNS trigger
+ LANGUAGE plpgsql
+ SET search_path = public
+AS $function$
+BEGIN
+  DELETE FROM dependencies
+  WHERE kind = TG_ARGV[0]
+    AND (predecessor_id = OLD.id OR successor_id = OLD.id);
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER delete_project_dependencies
+  AFTER DELETE ON public.projects
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_item_dependencies('project');
+
+CREATE TRIGGER delete_phase_dependencies
+  AFTER DELETE ON public.phases
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_item_dependencies('phase');
+
+CREATE INDEX IF NOT EXISTS idx_dependencies_user_id ON public.dependencies(user_id);
+CREATE INDEX IF NOT EXISTS idx_dependencies_predecessor_id ON public.dependencies(predecessor_id);
+CREATE INDEX IF NOT EXISTS idx_dependencies_successor_id ON public.dependencies(successor_id);
+
+COMMENT ON COLUMN public.dependencies.kind IS 'project = predecessor/successor are projects, phase = they are phases';
+COMMENT ON COLUMN public.dependencies.lag_days IS 'Extra days between the predecessor finish (or start) and the successor start';
@@ -0,0 +1,42 @@
+-- Plan baselines
+-- Named, frozen copies of the plan (project and phase dates, allocations and
+-- day estimates) that the timeline compares the live plan against. The
+-- snapshot is written once and never edited; only the name can change.
+
+CREATE TABLE IF NOT EXISTS public.plan_baselines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  snapshot JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.plan_baselines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own plan baselines"
+  ON public.plan_baselines FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own plan baselines"
+  ON public.plan_baselines FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own plan baselines"
+  ON public.plan_baselines FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own plan baselines"
+  ON public.plan_baselines FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_plan_baselines_updated_at
+  BEFORE UPDATE ON public.plan_baselines
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_plan_baselines_user_id ON public.plan_baselines(user_id);
+
+COMMENT ON COLUMN public.plan_baselines.snapshot IS 'Projects, phases and day estimates at capture time (dates as YYYY-MM-DD keys)';
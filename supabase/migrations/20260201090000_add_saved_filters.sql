@@ -0,0 +1,42 @@
+-- Saved filters
+-- Named project queries (clients, labels and statuses) shared by the Timeline,
+-- Planner, Overview and Insights views. The view state itself (which filter is
+-- active, how rows are grouped) stays on the device.
+
+CREATE TABLE IF NOT EXISTS public.saved_filters (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) > 0),
+  query JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_filters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own saved filters"
+  ON public.saved_filters FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own saved filters"
+  ON public.saved_filters FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved filters"
+  ON public.saved_filters FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved filters"
+  ON public.saved_filters FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_saved_filters_updated_at
+  BEFORE UPDATE ON public.saved_filters
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_saved_filters_user_id ON public.saved_filters(user_id);
+
+COMMENT ON COLUMN public.saved_filters.query IS 'Project query: { clientIds, labelIds, statuses } - any value within a field, every non-empty field';
@@ -0,0 +1,107 @@
+-- Restore Backup
+-- Writes a planned backup restore in one transaction, so a failed insert never
+-- leaves the account half-deleted. The client validates and remaps every row
+-- first (DataBackupOrchestrator); this function only deletes and inserts.
+--
+-- backup = {
+--   "groups": [row], "clients": [row], ... (any table of the restore order),
+--   "settings": [row], "profiles": [row]  (first row replaces the current one)
+-- }
+--
+-- Rows are inserted with the columns they carry, so columns missing from an
+-- older archive keep their defaults.
+
+CREATE OR REPLACE FUNCTION public.restore_backup(backup jsonb, replace_existing boolean DEFAULT false)
+ RETURNS void
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path = public
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  -- Parents before children (BACKUP_RESTORE_ORDER without the singleton tables)
+  restore_order text[] := ARRAY[
+    'groups', 'clients', 'labels', 'rows', 'projects', 'project_labels', 'phases', 'dependencies',
+    'calendar_events', 'calendar_event_exceptions', 'project_tasks', 'holidays', 'work_slot_exceptions',
+    'habit_targets', 'plan_baselines', 'saved_filters'
+  ];
+  table_name text;
+  table_rows jsonb;
+  column_list text;
+  settings_row jsonb := backup->'settings'->0;
+  profile_row jsonb := backup->'profiles'->0;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(backup) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Backup must be an object of tables';
+  END IF;
+
+  SELECT key INTO table_name
+  FROM jsonb_each(backup)
+  WHERE key <> ALL (restore_order || ARRAY['settings', 'profiles'])
+     OR jsonb_typeof(value) <> 'array'
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Table "%" cannot be restored', table_name;
+  END IF;
+
+  -- Replace: delete children first (project_labels has no user_id column)
+  IF replace_existing THEN
+    DELETE FROM public.project_labels
+    WHERE project_id IN (SELECT id FROM public.projects WHERE user_id = current_user_id);
+
+    FOR i IN REVERSE array_length(restore_order, 1)..1 LOOP
+      CONTINUE WHEN restore_order[i] = 'project_labels';
+      EXECUTE format('DELETE FROM public.%I WHERE user_id = $1', restore_order[i]) USING current_user_id;
+    END LOOP;
+  END IF;
+
+  FOREACH table_name IN ARRAY restore_order LOOP
+    table_rows := backup->table_name;
+    CONTINUE WHEN table_rows IS NULL OR jsonb_array_length(table_rows) = 0;
+
+    SELECT string_agg(quote_ident(a.attname), ', ' ORDER BY a.attnum) INTO column_list
+    FROM pg_attribute a
+    WHERE a.attrelid = format('public.%I', table_name)::regclass
+      AND a.attnum > 0
+      AND NOT a.attisdropped
+      AND EXISTS (SELECT 1 FROM jsonb_array_elements(table_rows) AS r WHERE r ? a.attname);
+
+    IF column_list IS NULL THEN
+      RAISE EXCEPTION 'Rows for "%" have no known columns', table_name;
+    END IF;
+
+    -- Row level security checks ownership of every inserted row
+    EXECUTE format(
+      'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_recordset(NULL::public.%I, $1)',
+      table_name, column_list, column_list, table_name
+    ) USING table_rows;
+  END LOOP;
+
+  -- One row per user: replaced in place
+  IF settings_row IS NOT NULL THEN
+    INSERT INTO public.settings (user_id, weekly_work_hours, work_schedules)
+    VALUES (current_user_id, settings_row->'weekly_work_hours', COALESCE(settings_row->'work_schedules', '[]'::jsonb))
+    ON CONFLICT (user_id) DO UPDATE
+    SET weekly_work_hours = EXCLUDED.weekly_work_hours,
+        work_schedules = EXCLUDED.work_schedules,
+        updated_at = now();
+  END IF;
+
+  IF profile_row IS NOT NULL THEN
+    INSERT INTO public.profiles (user_id, display_name)
+    VALUES (current_user_id, profile_row->>'display_name')
+    ON CONFLICT (user_id) DO UPDATE
+    SET display_name = EXCLUDED.display_name,
+        updated_at = now();
+  END IF;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.restore_backup(jsonb, boolean) IS 'Restores a planned backup (optionally replacing the caller''s data) in one transaction';
+
+GRANT EXECUTE ON FUNCTION public.restore_backup(jsonb, boolean) TO authenticated;
@@ -0,0 +1,11 @@
+-- Import history outlives its connection
+-- calendar_import_history.connection_id had no ON DELETE rule, so deleting a
+-- connection that had synced (every subscription run writes a history row)
+-- failed with a foreign key violation. History rows are kept and unlinked.
+
+ALTER TABLE public.calendar_import_history
+DROP CONSTRAINT IF EXISTS calendar_import_history_connection_id_fkey;
+
+ALTER TABLE public.calendar_import_history
+ADD CONSTRAINT calendar_import_history_connection_id_fkey
+FOREIGN KEY (connection_id) REFERENCES public.calendar_connections(id) ON DELETE SET NULL;
@@ -0,0 +1,29 @@
+-- Subscription that imported a calendar event
+-- A subscription sync removes events whose UID left the feed. Scoping that
+-- delete (and the UID lookup) to the connection keeps a sync from touching a
+-- file import or another subscription's copy of an event with the same UID.
+
+ALTER TABLE public.calendar_events
+ADD COLUMN IF NOT EXISTS connection_id UUID REFERENCES public.calendar_connections(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_calendar_events_connection_id ON public.calendar_events(connection_id);
+
+COMMENT ON COLUMN public.calendar_events.connection_id IS 'Calendar subscription the event was synced from. NULL = created in the app or imported from a file';
+
+-- Link events synced before this column existed: a UID in the latest completed
+-- snapshot of one of the user's subscriptions belongs to that subscription
+WITH latest_snapshots AS (
+  SELECT DISTINCT ON (connection_id) connection_id, user_id, synced_events
+  FROM public.calendar_import_history
+  WHERE connection_id IS NOT NULL
+    AND import_status = 'completed'
+    AND synced_events IS NOT NULL
+  ORDER BY connection_id, created_at DESC
+)
+UPDATE public.calendar_events AS e
+SET connection_id = s.connection_id
+FROM latest_snapshots AS s
+WHERE e.connection_id IS NULL
+  AND e.user_id = s.user_id
+  AND e.external_source = 'ical'
+  AND s.synced_events ? e.external_calendar_id;
@@ -0,0 +1,16 @@
+-- Focus session marker on tracked events
+-- Focus sessions per project were counted by the "Focus Session" title, so
+-- renaming the event lost the session and a plain event with that title was
+-- counted as one. Work intervals of a focus session now carry a flag.
+
+ALTER TABLE public.calendar_events
+ADD COLUMN IF NOT EXISTS focus_session BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.calendar_events.focus_session IS 'Work interval of a focus (pomodoro) session';
+
+-- Mark work intervals tracked before the flag existed (they were titled 'Focus Session')
+UPDATE public.calendar_events
+SET focus_session = true
+WHERE title = 'Focus Session'
+  AND COALESCE(event_type, 'planned') <> 'planned'
+  AND project_id IS NOT NULL;
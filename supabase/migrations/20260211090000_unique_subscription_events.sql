@@ -0,0 +1,17 @@
+-- One copy of a feed event per subscription
+-- Subscription syncs run in every open tab and device. Two clients syncing
+-- the same connection at once both inserted the feed's new events. Syncs now
+-- claim the connection first and upsert on this constraint. Rows without a
+-- connection (created in the app, file imports) never conflict: NULLs are distinct.
+
+-- Remove duplicates left by earlier concurrent syncs (keep the oldest copy)
+DELETE FROM public.calendar_events AS e
+USING public.calendar_events AS kept
+WHERE e.connection_id IS NOT NULL
+  AND e.user_id = kept.user_id
+  AND e.connection_id = kept.connection_id
+  AND e.external_calendar_id = kept.external_calendar_id
+  AND (e.created_at, e.id) > (kept.created_at, kept.id);
+
+ALTER TABLE public.calendar_events
+ADD CONSTRAINT calendar_events_subscription_event_key UNIQUE (user_id, connection_id, external_calendar_id);
@@ -0,0 +1,71 @@
+-- Public Holiday Calendar Setting
+-- The public holiday calendar kept up to date (country, region and the years
+-- already generated) lived in one browser's localStorage: the yearly import ran
+-- only in that browser, and two tabs could both import the same year. It is
+-- now stored with the user's settings, and each client claims the years it
+-- imports through mark_public_holiday_years, so a year is generated once.
+
+ALTER TABLE public.settings
+ADD COLUMN IF NOT EXISTS public_holiday_calendar JSONB;
+
+COMMENT ON COLUMN public.settings.public_holiday_calendar IS 'Public holiday calendar kept up to date: { countryCode, regionCode?, importedYears: [2026, ...] }. NULL when none is chosen.';
+
+-- Mark years as imported (imported = true) or not imported again (false) for
+-- the caller's calendar. The settings row is locked, so concurrent callers
+-- see each other's marks. Returns the years whose mark changed: when claiming,
+-- only the caller that gets a year back imports it.
+CREATE OR REPLACE FUNCTION public.mark_public_holiday_years(years integer[], imported boolean DEFAULT true)
+ RETURNS integer[]
+ LANGUAGE plpgsql
+ SECURITY INVOKER
+ SET search_path = public
+AS $function$
+DECLARE
+  current_user_id uuid := auth.uid();
+  calendar jsonb;
+  imported_years jsonb;
+  changed integer[];
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT public_holiday_calendar INTO calendar
+  FROM public.settings
+  WHERE user_id = current_user_id
+  FOR UPDATE;
+
+  IF calendar IS NULL THEN
+    RETURN ARRAY[]::integer[];
+  END IF;
+  imported_years := COALESCE(calendar->'importedYears', '[]'::jsonb);
+
+  SELECT COALESCE(array_agg(DISTINCT year ORDER BY year), ARRAY[]::integer[]) INTO changed
+  FROM unnest(years) AS year
+  WHERE (imported_years @> to_jsonb(year)) IS DISTINCT FROM imported;
+
+  IF cardinality(changed) > 0 THEN
+    UPDATE public.settings
+    SET public_holiday_calendar = jsonb_set(
+          calendar,
+          '{importedYears}',
+          CASE
+            WHEN imported THEN imported_years || to_jsonb(changed)
+            ELSE COALESCE(
+              (SELECT jsonb_agg(kept) FROM jsonb_array_elements(imported_years) AS kept
+               WHERE NOT (to_jsonb(changed) @> kept)),
+              '[]'::jsonb
+            )
+          END
+        ),
+        updated_at = now()
+    WHERE user_id = current_user_id;
+  END IF;
+
+  RETURN changed;
+END;
+$function$;
+
+COMMENT ON FUNCTION public.mark_public_holiday_years(integer[], boolean) IS 'Claims (or releases) public holiday years of the caller''s calendar; returns the years whose mark changed';
+
+GRANT EXECUTE ON FUNCTION public.mark_public_holiday_years(integer[], boolean) TO authenticated;